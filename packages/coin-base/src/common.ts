@@ -1,6 +1,9 @@
+import {KeystoreOptions, KeystoreV3} from "./keystore";
+
 export type DerivePriKeyParams = {
   mnemonic: string;
   hdPath: string;
+  seed?: string; // hex bip32 seed used instead of the mnemonic, e.g. a recovered slip39 master secret
 };
 
 export type NewAddressParams = {
@@ -128,3 +131,15 @@ export type SignCommonMsgParams = {
   version?: string;
   hrp?: string;
 };
+
+export type ExportKeystoreParams = {
+  privateKey?: string; // hex private key, other formats are kept as text
+  mnemonic?: string;
+  password: string;
+  options?: KeystoreOptions;
+};
+
+export type ImportKeystoreParams = {
+  keystore: string | KeystoreV3;
+  password: string;
+};
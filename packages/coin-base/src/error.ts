@@ -31,3 +31,5 @@ export const GetPayLoadError = "get payload error"
 export const validSignedTransactionError = "valid signed transaction error"
 export const EstimateFeeError = "estimate fee error"
 export const SignCommonMsgError = "sign common msg error"
+export const ExportKeystoreError = "export keystore error"
+export const ImportKeystoreError = "import keystore error"
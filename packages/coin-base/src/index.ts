@@ -3,3 +3,4 @@ export * from "./currency";
 export * from "./error";
 export * from "./wallet";
 export * from "./basic"
+export * from "./keystore";
@@ -0,0 +1,193 @@
+import {base} from "@okxweb3/crypto-lib";
+import {AES_CTR} from "asmcrypto.js";
+
+// Web3 Secret Storage v3, https://ethereum.org/en/developers/docs/data-structures-and-encoding/web3-secret-storage/
+
+export type KeystoreKdf = "scrypt" | "pbkdf2";
+
+// what the ciphertext holds: raw private key bytes (the standard payload), a mnemonic, or a private key in a
+// non-hex text form such as wif or base58
+export type KeystoreSecretType = "privateKey" | "mnemonic" | "text";
+
+export type ScryptParams = {
+    dklen: number
+    salt: string
+    n: number
+    r: number
+    p: number
+};
+
+export type Pbkdf2Params = {
+    dklen: number
+    salt: string
+    c: number
+    prf: "hmac-sha256"
+};
+
+export type KeystoreCrypto = {
+    cipher: "aes-128-ctr"
+    cipherparams: { iv: string }
+    ciphertext: string
+    kdf: KeystoreKdf
+    kdfparams: ScryptParams | Pbkdf2Params
+    mac: string
+};
+
+export type KeystoreV3 = {
+    version: 3
+    id: string
+    address?: string
+    type?: KeystoreSecretType
+    crypto: KeystoreCrypto
+    // geth wrote the crypto section as "Crypto" in early versions
+    Crypto?: KeystoreCrypto
+};
+
+export type KeystoreOptions = {
+    kdf?: KeystoreKdf
+    // scrypt cost, defaults to 262144 like geth
+    n?: number
+    r?: number
+    p?: number
+    // pbkdf2 iterations
+    c?: number
+    salt?: string
+    iv?: string
+    uuid?: string
+    address?: string
+};
+
+export type KeystoreSecret = {
+    type: KeystoreSecretType
+    secret: string
+};
+
+// upper bounds of the kdf parameters, keystores from untrusted sources must not exhaust memory or cpu
+const MAX_SCRYPT_N = 1 << 20;
+const MAX_SCRYPT_R = 16;
+const MAX_SCRYPT_P = 16;
+const MAX_PBKDF2_C = 10000000;
+
+function checkRange(name: string, value: number, max: number) {
+    if (!Number.isSafeInteger(value) || value < 1 || value > max) {
+        throw new Error(`${name} must be between 1 and ${max}`);
+    }
+}
+
+async function deriveKey(password: string, kdf: KeystoreKdf, params: ScryptParams | Pbkdf2Params): Promise<Uint8Array> {
+    const pwd = base.toUtf8(password.normalize("NFKC"));
+    const salt = base.fromHex(params.salt);
+    if (params.dklen < 32) {
+        throw new Error("dklen must be at least 32");
+    }
+    if (kdf === "scrypt") {
+        const {n, r, p, dklen} = params as ScryptParams;
+        checkRange("scrypt n", n, MAX_SCRYPT_N);
+        if (n & (n - 1)) {
+            throw new Error("scrypt n must be a power of 2");
+        }
+        checkRange("scrypt r", r, MAX_SCRYPT_R);
+        checkRange("scrypt p", p, MAX_SCRYPT_P);
+        return base.scryptAsync(pwd, salt, {N: n, r, p, dkLen: dklen});
+    } else if (kdf === "pbkdf2") {
+        const {c, prf, dklen} = params as Pbkdf2Params;
+        if (prf !== "hmac-sha256") {
+            throw new Error(`unsupported prf ${prf}`);
+        }
+        checkRange("pbkdf2 c", c, MAX_PBKDF2_C);
+        return base.pbkdf2Async(base.sha256, pwd, salt, {c, dkLen: dklen});
+    }
+    throw new Error(`unsupported kdf ${kdf}`);
+}
+
+function mac(derivedKey: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+    return base.keccak256(Buffer.concat([derivedKey.slice(16, 32), ciphertext]));
+}
+
+// constant time comparison, the time does not leak how many mac bytes match
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) {
+        return false;
+    }
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a[i] ^ b[i];
+    }
+    return diff === 0;
+}
+
+function uuidV4(random: Uint8Array): string {
+    const bytes = Uint8Array.from(random);
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = base.toHex(bytes);
+    return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20, 32)].join("-");
+}
+
+function encodeSecret(secret: string, type: KeystoreSecretType): Uint8Array {
+    if (type === "privateKey") {
+        const hex = base.stripHexPrefix(secret);
+        if (hex.length === 0 || hex.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(hex)) {
+            throw new Error("invalid private key");
+        }
+        return base.fromHex(hex);
+    } else if (type === "mnemonic") {
+        return base.toUtf8(secret.normalize("NFKD").trim().split(/\s+/).join(" "));
+    }
+    return base.toUtf8(secret);
+}
+
+export async function encryptKeystore(secret: string, password: string, type: KeystoreSecretType = "privateKey", options: KeystoreOptions = {}): Promise<KeystoreV3> {
+    const kdf = options.kdf || "scrypt";
+    const salt = options.salt ? base.stripHexPrefix(options.salt) : base.toHex(base.randomBytes(32));
+    const iv = options.iv ? base.fromHex(options.iv) : base.randomBytes(16);
+    if (iv.length !== 16) {
+        throw new Error("iv must be 16 bytes");
+    }
+    const kdfparams: ScryptParams | Pbkdf2Params = kdf === "scrypt"
+        ? {dklen: 32, salt, n: options.n || 262144, r: options.r || 8, p: options.p || 1}
+        : {dklen: 32, salt, c: options.c || 262144, prf: "hmac-sha256"};
+    const derivedKey = await deriveKey(password, kdf, kdfparams);
+    const ciphertext = AES_CTR.encrypt(encodeSecret(secret, type), derivedKey.slice(0, 16), iv);
+
+    const keystore: KeystoreV3 = {
+        version: 3,
+        id: options.uuid || uuidV4(base.randomBytes(16)),
+        crypto: {
+            cipher: "aes-128-ctr",
+            cipherparams: {iv: base.toHex(iv)},
+            ciphertext: base.toHex(ciphertext),
+            kdf,
+            kdfparams,
+            mac: base.toHex(mac(derivedKey, ciphertext)),
+        },
+    };
+    if (options.address) {
+        keystore.address = base.stripHexPrefix(options.address).toLowerCase();
+    }
+    // keystores without a type are standard private key files
+    if (type !== "privateKey") {
+        keystore.type = type;
+    }
+    return keystore;
+}
+
+// Decrypts a v3 keystore, given as json text or object. A wrong password fails the mac check.
+export async function decryptKeystore(keystore: string | KeystoreV3, password: string): Promise<KeystoreSecret> {
+    const json: KeystoreV3 = typeof keystore === "string" ? JSON.parse(keystore) : keystore;
+    const crypto = json.crypto || json.Crypto;
+    if (json.version !== 3 || !crypto) {
+        throw new Error("unsupported keystore version");
+    }
+    if (crypto.cipher !== "aes-128-ctr") {
+        throw new Error(`unsupported cipher ${crypto.cipher}`);
+    }
+    const derivedKey = await deriveKey(password, crypto.kdf, crypto.kdfparams);
+    const ciphertext = base.fromHex(crypto.ciphertext);
+    if (!equalBytes(mac(derivedKey, ciphertext), base.fromHex(crypto.mac))) {
+        throw new Error("invalid password");
+    }
+    const plaintext = AES_CTR.decrypt(ciphertext, derivedKey.slice(0, 16), base.fromHex(crypto.cipherparams.iv));
+    const type = json.type || "privateKey";
+    return {type, secret: type === "privateKey" ? base.toHex(plaintext, true) : base.fromUtf8(plaintext)};
+}
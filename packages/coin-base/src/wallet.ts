@@ -1,11 +1,19 @@
-import {GenPrivateKeyError, NotImplementedError, SignCommonMsgError} from "./error";
+import {
+    ExportKeystoreError,
+    GenPrivateKeyError,
+    ImportKeystoreError,
+    NotImplementedError,
+    SignCommonMsgError
+} from "./error";
 import {
     CalcTxHashParams,
     DerivePriKeyParams,
+    ExportKeystoreParams,
     GetAddressParams,
     GetDerivedPathParam,
     GetRawTransactionParams,
     HardwareRawTransactionParam,
+    ImportKeystoreParams,
     MpcMessageParam,
     MpcRawTransactionParam,
     MpcTransactionParam,
@@ -21,6 +29,7 @@ import {
 } from './common';
 import {base, bip32, bip39, BN, signUtil} from "@okxweb3/crypto-lib";
 import {buildCommonSignMsg} from "./basic";
+import {decryptKeystore, encryptKeystore, KeystoreSecret} from "./keystore";
 
 export function secp256k1SignTest(privateKey: Buffer) {
     const msgHash = base.sha256("secp256k1-test");
@@ -104,7 +113,8 @@ abstract class BaseWallet {
 
     // secp256k1 curve uses the default implementation, ed25519 curve, you need to use the basic/ed25519 implementation.
     getDerivedPrivateKey(param: DerivePriKeyParams): Promise<any> {
-        return bip39.mnemonicToSeed(param.mnemonic)
+        const seed = param.seed ? Promise.resolve(base.fromHex(param.seed)) : bip39.mnemonicToSeed(param.mnemonic);
+        return seed
             .then((masterSeed: Buffer) => {
                 let childKey = bip32.fromSeed(masterSeed).derivePath(param.hdPath)
                 if (childKey.privateKey) {
@@ -118,6 +128,36 @@ abstract class BaseWallet {
             });
     }
 
+    // encrypt a private key or mnemonic into a v3 keystore json
+    async exportKeystore(param: ExportKeystoreParams): Promise<string> {
+        try {
+            let keystore;
+            if (param.mnemonic) {
+                if (!bip39.validateMnemonic(param.mnemonic)) {
+                    return Promise.reject(ExportKeystoreError);
+                }
+                keystore = await encryptKeystore(param.mnemonic, param.password, "mnemonic", param.options);
+            } else if (param.privateKey) {
+                const isHex = /^(0x)?([0-9a-fA-F]{2})+$/.test(param.privateKey);
+                keystore = await encryptKeystore(param.privateKey, param.password, isHex ? "privateKey" : "text", param.options);
+            } else {
+                return Promise.reject(ExportKeystoreError);
+            }
+            return JSON.stringify(keystore);
+        } catch (e) {
+            return Promise.reject(ExportKeystoreError);
+        }
+    }
+
+    // decrypt a v3 keystore json, the secret is a private key or mnemonic depending on its type
+    async importKeystore(param: ImportKeystoreParams): Promise<KeystoreSecret> {
+        try {
+            return await decryptKeystore(param.keystore, param.password);
+        } catch (e) {
+            return Promise.reject(ImportKeystoreError);
+        }
+    }
+
     // get new address by private key
     abstract getNewAddress(param: NewAddressParams): Promise<any>
 
@@ -0,0 +1,99 @@
+import {decryptKeystore, encryptKeystore, KeystoreV3, Pbkdf2Params, ScryptParams, SimpleWallet} from "../src";
+
+// pbkdf2 test vector of the web3 secret storage definition
+const privateKey = "0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d"
+const pbkdf2Params: Pbkdf2Params = {c: 262144, dklen: 32, prf: "hmac-sha256", salt: "ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd"}
+const pbkdf2Keystore: KeystoreV3 = {
+    crypto: {
+        cipher: "aes-128-ctr",
+        cipherparams: {iv: "6087dab2f9fdbbfaddc31a909735c1e6"},
+        ciphertext: "5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46",
+        kdf: "pbkdf2",
+        kdfparams: pbkdf2Params,
+        mac: "517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2"
+    },
+    id: "3198bc9c-6672-5ab3-d995-4942343ae5b6",
+    version: 3
+}
+
+// the scrypt vector of the definition (n=262144, r=1, p=8) is outside the r the scrypt implementation accepts,
+// this one is encrypted by ethers with n reduced to 1024 and its ciphertext checked against node's scrypt
+const scryptParams: ScryptParams = {dklen: 32, n: 1024, r: 8, p: 1, salt: "ab0c7876052600dd703518d6fc3fe8984592145b591fc8fb5c6d43190334ba19"}
+const scryptKeystore: KeystoreV3 = {
+    crypto: {
+        cipher: "aes-128-ctr",
+        cipherparams: {iv: "83dbcc02d8ccb40e466191a123791e0e"},
+        ciphertext: "01a05c7f05b697274227d8bd0825a6caa89967e24643426c0fcfa2fb663052d7",
+        kdf: "scrypt",
+        kdfparams: scryptParams,
+        mac: "d60a6540bbdeaa746e4c7b4359c74e4bb0b679bedce5b4d129ad96150d200274"
+    },
+    id: "3198bc9c-6672-5ab3-d995-4942343ae5b6",
+    version: 3
+}
+
+describe("keystore", () => {
+    test("vectors", async () => {
+        expect(await decryptKeystore(JSON.stringify(pbkdf2Keystore), "testpassword")).toEqual({type: "privateKey", secret: privateKey})
+        let keystore = await encryptKeystore(privateKey, "testpassword", "privateKey", {
+            kdf: "pbkdf2",
+            salt: pbkdf2Params.salt,
+            iv: pbkdf2Keystore.crypto.cipherparams.iv,
+            uuid: pbkdf2Keystore.id,
+        })
+        expect(keystore).toEqual(pbkdf2Keystore)
+
+        expect(await decryptKeystore(JSON.stringify(scryptKeystore), "testpassword")).toEqual({type: "privateKey", secret: privateKey})
+        keystore = await encryptKeystore(privateKey, "testpassword", "privateKey", {
+            n: 1024,
+            salt: scryptParams.salt,
+            iv: scryptKeystore.crypto.cipherparams.iv,
+            uuid: scryptKeystore.id,
+        })
+        expect(keystore).toEqual(scryptKeystore)
+    });
+
+    test("wrong password", async () => {
+        await expect(decryptKeystore(pbkdf2Keystore, "password")).rejects.toThrow("invalid password")
+        await expect(decryptKeystore(scryptKeystore, "password")).rejects.toThrow("invalid password")
+    });
+
+    test("legacy Crypto section and uppercase mac", async () => {
+        const {crypto, ...rest} = pbkdf2Keystore
+        const legacy = {...rest, Crypto: {...crypto, mac: crypto.mac.toUpperCase()}}
+        expect(await decryptKeystore(JSON.stringify(legacy), "testpassword")).toEqual({type: "privateKey", secret: privateKey})
+    });
+
+    test("kdf bounds", async () => {
+        const withParams = (kdfparams: Partial<ScryptParams>): KeystoreV3 => ({...scryptKeystore, crypto: {...scryptKeystore.crypto, kdfparams: {...scryptParams, ...kdfparams}}})
+        await expect(decryptKeystore(withParams({n: 1 << 21}), "pwd")).rejects.toThrow("scrypt n must be between 1 and 1048576")
+        await expect(decryptKeystore(withParams({n: 1000}), "pwd")).rejects.toThrow("scrypt n must be a power of 2")
+        await expect(decryptKeystore(withParams({r: 17}), "pwd")).rejects.toThrow("scrypt r must be between 1 and 16")
+        await expect(decryptKeystore(withParams({p: 0}), "pwd")).rejects.toThrow("scrypt p must be between 1 and 16")
+        const pbkdf2: KeystoreV3 = {...pbkdf2Keystore, crypto: {...pbkdf2Keystore.crypto, kdfparams: {...pbkdf2Params, c: 1e9}}}
+        await expect(decryptKeystore(pbkdf2, "pwd")).rejects.toThrow("pbkdf2 c must be between 1 and 10000000")
+    });
+
+    test("wallet", async () => {
+        const wallet = new SimpleWallet()
+        const mnemonic = "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about"
+        const options = {n: 1024}
+        const json = await wallet.exportKeystore({mnemonic, password: "pwd", options})
+        const keystore = JSON.parse(json)
+        expect(keystore.type).toEqual("mnemonic")
+        expect(keystore.crypto.kdf).toEqual("scrypt")
+        expect(keystore.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+        expect(await wallet.importKeystore({keystore: json, password: "pwd"})).toEqual({type: "mnemonic", secret: mnemonic})
+
+        const wif = "L1vSc9DuBDeVkbiS79mJ441FNAYArL1vRD1MUpoLyhTz6NQBGTJm"
+        const textJson = await wallet.exportKeystore({privateKey: wif, password: "pwd", options})
+        expect(await wallet.importKeystore({keystore: textJson, password: "pwd"})).toEqual({type: "text", secret: wif})
+
+        const hexJson = await wallet.exportKeystore({privateKey: privateKey.slice(2), password: "pwd", options})
+        expect(JSON.parse(hexJson).type).toBeUndefined()
+        expect((await wallet.importKeystore({keystore: hexJson, password: "pwd"})).secret).toEqual(privateKey)
+
+        await expect(wallet.importKeystore({keystore: hexJson, password: "bad"})).rejects.toEqual("import keystore error")
+        await expect(wallet.exportKeystore({mnemonic: "abandon about", password: "pwd"})).rejects.toEqual("export keystore error")
+    });
+});
@@ -1,4 +1,5 @@
 import {BaseWallet, buildCommonSignMsg, SignCommonMsgParams, SignType, SimpleWallet} from "../src";
+import {base, bip32} from "@okxweb3/crypto-lib";
 
 describe("crypto", () => {
     test("magicHash", async () => {
@@ -326,4 +327,13 @@ describe("crypto", () => {
             expect(actual).toEqual(expected);
         }
     })
-})
\ No newline at end of file
+
+    test("derive from seed", async () => {
+        // master secret of a slip39 backup
+        const seed = "bb54aac4b89dc868ba37d9cc21b2cece"
+        const hdPath = "m/44'/60'/0'/0/0"
+        const expected = bip32.fromSeed(base.fromHex(seed)).derivePath(hdPath).privateKey!
+        let privateKey = await new SimpleWallet().getDerivedPrivateKey({mnemonic: "", seed, hdPath})
+        expect(privateKey).toEqual(base.toHex(expected, true))
+    })
+})
@@ -2,15 +2,24 @@
  * The following methods are based on `bitcoinjs`, thanks for their work
  * https://github.com/bitcoinjs/bitcoinjs-lib
  */
-import { base } from "@okxweb3/crypto-lib"
+import { base, signUtil } from "@okxweb3/crypto-lib"
 import { toOutputScript } from './address';
 import { Network } from './networks';
 import { Transaction } from './transaction';
 import { Psbt } from './psbt';
+import { PsbtInput } from './bip174/interfaces';
 import { encode } from './varuint';
+import { BufferReader } from './bufferutils';
+import * as bscript from './script';
+import * as payments from './payments';
+import { hash160 } from './crypto';
 import { psbtSignImpl } from '../psbtSign';
 import { wif2Public } from "../txBuild";
-import { isP2TR } from "./psbt/psbtutils";
+import { isP2PKH, isP2SHScript, isP2TR, isP2WPKH } from "./psbt/psbtutils";
+import { utxoInput } from "../type";
+import * as message from "../message";
+
+const schnorr = signUtil.schnorr.secp256k1.schnorr
 
 function bip0322_hash(message: string) {
   const tag = 'BIP0322-signed-message';
@@ -19,9 +28,7 @@ function bip0322_hash(message: string) {
   return base.toHex(result)
 }
 
-export async function signSimple(message: string, address: string, privateKey: string, network?: Network) {
-  const outputScript = toOutputScript(address, network);
-
+function buildToSpend(message: string, outputScript: Buffer): Transaction {
   const prevoutHash = Buffer.from('0000000000000000000000000000000000000000000000000000000000000000', 'hex');
   const prevoutIndex = 0xffffffff;
   const sequence = 0;
@@ -31,29 +38,60 @@ export async function signSimple(message: string, address: string, privateKey: s
   txToSpend.version = 0;
   txToSpend.addInput(prevoutHash, prevoutIndex, sequence, scriptSig);
   txToSpend.addOutput(outputScript, 0);
+  return txToSpend;
+}
 
+// the psbt fields each script type needs before it can be signed and finalized
+function spendingFields(outputScript: Buffer, value: number, publicKey: Buffer, nonWitnessUtxo?: Buffer): PsbtInput {
+  if (isP2PKH(outputScript) && nonWitnessUtxo) {
+    return { nonWitnessUtxo };
+  }
+  const fields: PsbtInput = { witnessUtxo: { script: outputScript, value } };
+  if (isP2TR(outputScript)) {
+    fields.tapInternalKey = publicKey.slice(1);
+  } else if (isP2SHScript(outputScript)) {
+    fields.redeemScript = payments.p2wpkh({ pubkey: publicKey }).output;
+  }
+  return fields;
+}
+
+function buildToSign(toSpend: Transaction, outputScript: Buffer, privateKey: string, network?: Network, utxos?: utxoInput[]): Psbt {
   const psbtToSign = new Psbt({ network });
   psbtToSign.setVersion(0);
   psbtToSign.addInput({
-    hash: txToSpend.getHash(),
+    hash: toSpend.getHash(),
     index: 0,
     sequence: 0,
-    witnessUtxo: {
-      script: outputScript,
-      value: 0
-    },
+    ...spendingFields(outputScript, 0, wif2Public(privateKey, network), toSpend.toBuffer()),
   });
-  if (isP2TR(outputScript)) {
-    psbtToSign.updateInput(0, {
-      tapInternalKey: wif2Public(privateKey, network).slice(1),
+
+  // proof of funds: the additional inputs spend real utxos, the to_sign transaction stays unbroadcastable
+  (utxos || []).forEach(utxo => {
+    const script = toOutputScript(utxo.address!, network);
+    psbtToSign.addInput({
+      hash: utxo.txId,
+      index: utxo.vOut,
+      sequence: utxo.sequence || 0,
+      ...spendingFields(script, utxo.amount, wif2Public(utxo.privateKey || privateKey, network),
+          utxo.nonWitnessUtxo ? base.fromHex(utxo.nonWitnessUtxo) : undefined),
     });
-  }
+  });
   psbtToSign.addOutput({ script: Buffer.from('6a', 'hex'), value: 0 });
+  return psbtToSign;
+}
 
-  psbtSignImpl(psbtToSign, privateKey, network);
+function signToSign(message: string, address: string, privateKey: string, network?: Network, utxos?: utxoInput[]): Transaction {
+  const outputScript = toOutputScript(address, network);
+  const psbtToSign = buildToSign(buildToSpend(message, outputScript), outputScript, privateKey, network, utxos);
+
+  const privateKeys = [privateKey, ...(utxos || []).map(utxo => utxo.privateKey || privateKey)];
+  new Set(privateKeys).forEach(key => psbtSignImpl(psbtToSign, key, network));
   psbtToSign.finalizeAllInputs()
+  return psbtToSign.extractTransaction(true);
+}
 
-  const txToSign = psbtToSign.extractTransaction();
+export async function signSimple(message: string, address: string, privateKey: string, network?: Network) {
+  const txToSign = signToSign(message, address, privateKey, network);
 
   function encodeVarString(b: Buffer) {
     return Buffer.concat([encode(b.byteLength), b]);
@@ -64,18 +102,23 @@ export async function signSimple(message: string, address: string, privateKey: s
   return base.toBase64(result);
 }
 
-export function verifySimple(message: string, address: string, witness: string, publicKey: string, network?: Network) : boolean {
-  const outputScript = toOutputScript(address, network);
+// BIP-322 full format, the whole to_sign transaction; utxos turn it into a proof of funds
+export async function signFull(message: string, address: string, privateKey: string, network?: Network, utxos?: utxoInput[]) {
+  const txToSign = signToSign(message, address, privateKey, network, utxos);
+  return base.toBase64(txToSign.toBuffer());
+}
 
-  const prevoutHash = Buffer.from('0000000000000000000000000000000000000000000000000000000000000000', 'hex');
-  const prevoutIndex = 0xffffffff;
-  const sequence = 0;
-  const scriptSig = Buffer.concat([Buffer.from('0020', 'hex'), Buffer.from(bip0322_hash(message), 'hex')]);
+// BIP-322 legacy format, only defined for P2PKH addresses
+export function signLegacy(msg: string, address: string, privateKey: string, network?: Network) {
+  if (!isP2PKH(toOutputScript(address, network))) {
+    throw new Error('legacy format is only available for P2PKH addresses');
+  }
+  return message.sign(privateKey, msg, network);
+}
 
-  const txToSpend = new Transaction();
-  txToSpend.version = 0;
-  txToSpend.addInput(prevoutHash, prevoutIndex, sequence, scriptSig);
-  txToSpend.addOutput(outputScript, 0);
+export function verifySimple(message: string, address: string, witness: string, publicKey: string, network?: Network) : boolean {
+  const outputScript = toOutputScript(address, network);
+  const txToSpend = buildToSpend(message, outputScript);
 
   const psbtToSign = new Psbt();
   psbtToSign.setVersion(0);
@@ -97,4 +140,137 @@ export function verifySimple(message: string, address: string, witness: string,
   }
   psbtToSign.addOutput({ script: Buffer.from('6a', 'hex'), value: 0 });
   return psbtToSign.verify(pubBuf, Buffer.from(base.fromBase64(witness)))
-}
\ No newline at end of file
+}
+
+function verifyEcdsa(hash: Buffer, encodedSignature: Buffer, publicKey: Buffer): boolean {
+  const { signature } = bscript.signature.decode(encodedSignature);
+  return signUtil.secp256k1.verifyWithNoRecovery(hash, signature, publicKey);
+}
+
+function verifyP2wpkh(tx: Transaction, index: number, program: Buffer, value: number): boolean {
+  const witness = tx.ins[index].witness;
+  if (witness.length !== 2 || !hash160(witness[1]).equals(program)) {
+    return false;
+  }
+  const scriptCode = payments.p2pkh({ hash: program }).output!;
+  const hashType = witness[0][witness[0].length - 1];
+  return verifyEcdsa(tx.hashForWitnessV0(index, scriptCode, value, hashType), witness[0], witness[1]);
+}
+
+// checks one input of to_sign against its prevout, only the single-key script types are supported
+function verifyInput(tx: Transaction, index: number, prevOutScripts: Buffer[], values: number[]): boolean {
+  const script = prevOutScripts[index];
+  const input = tx.ins[index];
+  if (isP2TR(script)) {
+    if (input.witness.length !== 1) {
+      return false;
+    }
+    const sig = input.witness[0];
+    if (sig.length !== 64 && !(sig.length === 65 && sig[64] !== Transaction.SIGHASH_DEFAULT)) {
+      return false;
+    }
+    const hashType = sig.length === 65 ? sig[64] : Transaction.SIGHASH_DEFAULT;
+    const hash = tx.hashForWitnessV1(index, prevOutScripts, values, hashType);
+    return schnorr.verify(base.toHex(sig.slice(0, 64)), base.toHex(hash), base.toHex(script.slice(2)));
+  } else if (isP2WPKH(script)) {
+    return verifyP2wpkh(tx, index, script.slice(2), values[index]);
+  } else if (isP2SHScript(script)) {
+    const chunks = bscript.decompile(input.script);
+    if (!chunks || chunks.length !== 1 || !Buffer.isBuffer(chunks[0])) {
+      return false;
+    }
+    const redeemScript = chunks[0] as Buffer;
+    if (!hash160(redeemScript).equals(script.slice(2, 22)) || !isP2WPKH(redeemScript)) {
+      return false;
+    }
+    return verifyP2wpkh(tx, index, redeemScript.slice(2), values[index]);
+  } else if (isP2PKH(script)) {
+    const chunks = bscript.decompile(input.script);
+    if (!chunks || chunks.length !== 2 || !Buffer.isBuffer(chunks[0]) || !Buffer.isBuffer(chunks[1])) {
+      return false;
+    }
+    const [sig, publicKey] = chunks as Buffer[];
+    if (!hash160(publicKey).equals(script.slice(3, 23))) {
+      return false;
+    }
+    return verifyEcdsa(tx.hashForSignature(index, script, sig[sig.length - 1]), sig, publicKey);
+  }
+  return false;
+}
+
+function decodeFull(signature: Buffer): Transaction | undefined {
+  try {
+    return Transaction.fromBuffer(signature);
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function decodeSimple(signature: Buffer): Buffer[] | undefined {
+  try {
+    const bufferReader = new BufferReader(signature);
+    const witness = bufferReader.readVector();
+    return bufferReader.offset === signature.length ? witness : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+// Verifies a legacy, simple or full signature from the address alone. Full proofs of funds
+// need the utxos spent by the additional inputs, in input order.
+export function verify(msg: string, address: string, signature: string, network?: Network, utxos?: utxoInput[]): boolean {
+  const outputScript = toOutputScript(address, network);
+  const toSpend = buildToSpend(msg, outputScript);
+  const sigBuf = Buffer.from(base.fromBase64(signature));
+
+  if (isP2PKH(outputScript) && sigBuf.length === 65) {
+    return message.verifyWithAddress(address, msg, signature);
+  }
+
+  let toSign = decodeFull(sigBuf);
+  if (toSign) {
+    if (toSign.version !== 0 && toSign.version !== 2) {
+      return false;
+    }
+    const first = toSign.ins[0];
+    if (!first || !first.hash.equals(toSpend.getHash()) || first.index !== 0) {
+      return false;
+    }
+  } else {
+    const witness = decodeSimple(sigBuf);
+    if (!witness) {
+      return false;
+    }
+    toSign = new Transaction();
+    toSign.version = 0;
+    toSign.addInput(toSpend.getHash(), 0, 0);
+    toSign.addOutput(Buffer.from('6a', 'hex'), 0);
+    toSign.ins[0].witness = witness;
+    if (isP2SHScript(outputScript) && witness.length === 2) {
+      // simple proofs carry no scriptSig, the nested p2wpkh redeem script follows from the witness key
+      toSign.ins[0].script = bscript.compile([payments.p2wpkh({ pubkey: witness[1] }).output!]);
+    }
+  }
+  if (toSign.outs.length !== 1 || toSign.outs[0].value !== 0 || !toSign.outs[0].script.equals(Buffer.from('6a', 'hex'))) {
+    return false;
+  }
+
+  const extra = utxos || [];
+  if (extra.length !== toSign.ins.length - 1) {
+    return false;
+  }
+  for (let i = 0; i < extra.length; i++) {
+    const input = toSign.ins[i + 1];
+    if (base.toHex(base.reverseBuffer(Buffer.from(input.hash))) !== extra[i].txId || input.index !== extra[i].vOut) {
+      return false;
+    }
+  }
+  const prevOutScripts = [outputScript, ...extra.map(utxo => toOutputScript(utxo.address!, network))];
+  const values = [0, ...extra.map(utxo => utxo.amount)];
+  for (let i = 0; i < toSign.ins.length; i++) {
+    if (!verifyInput(toSign, i, prevOutScripts, values)) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,319 @@
+import * as bitcoin from "./bitcoinjs-lib";
+import {base} from "@okxweb3/crypto-lib";
+import {CoinSelectAlgorithm, utxoInput, utxoOutput, utxoTx} from "./type";
+import {getAddressType} from "./txBuild";
+import * as bscript from "./bitcoinjs-lib/script";
+import {OPS} from "./bitcoinjs-lib/ops";
+import {Stack} from "./bitcoinjs-lib/payments";
+
+export type CoinSelectOptions = {
+    algorithm?: CoinSelectAlgorithm
+    feePerB?: number    // Sat/b
+    dustSize?: number
+    bitcoinCash?: boolean
+    memo?: string
+}
+
+export type CoinSelectResult = {
+    inputs: utxoInput[]
+    outputs: utxoOutput[]
+    change: number  // 0 when the excess is given up to the miner
+    fee: number
+}
+
+// weight units (vbytes * 4), signatures counted with their maximal DER length
+const TX_OVERHEAD_WEIGHT = 4 * (4 + 4);
+const SEGWIT_MARKER_WEIGHT = 2;
+const INPUT_WEIGHT = {
+    legacy: 4 * (36 + 1 + 107 + 4),
+    segwit_nested: 4 * (36 + 1 + 23 + 4) + (1 + 1 + 72 + 1 + 33),
+    segwit_native: 4 * (36 + 1 + 4) + (1 + 1 + 72 + 1 + 33),
+    segwit_taproot: 4 * (36 + 1 + 4) + (1 + 1 + 64),
+};
+
+const BNB_TOTAL_TRIES = 100000;
+const KNAPSACK_ITERATIONS = 1000;
+
+type Candidate = {
+    utxo: utxoInput
+    weight: number
+    effectiveValue: number
+}
+
+function varIntSize(n: number): number {
+    return n < 0xfd ? 1 : n <= 0xffff ? 3 : n <= 0xffffffff ? 5 : 9;
+}
+
+function scriptWeight(script: Buffer): number {
+    return 4 * (8 + varIntSize(script.length) + script.length);
+}
+
+function memoScript(memo: string): Buffer {
+    const data = base.isHexString(memo) ? base.fromHex(memo) : Buffer.from(base.toUtf8(memo));
+    return bscript.compile(([OPS.OP_RETURN] as Stack).concat(data));
+}
+
+export function inputWeight(address: string, network: bitcoin.Network, bitcoinCash?: boolean): number {
+    if (bitcoinCash) {
+        return INPUT_WEIGHT.legacy;
+    }
+    return INPUT_WEIGHT[getAddressType(address, network)];
+}
+
+export function outputWeight(output: utxoOutput, network: bitcoin.Network): number {
+    if (output.omniScript) {
+        return scriptWeight(base.fromHex(output.omniScript));
+    }
+    return scriptWeight(bitcoin.address.toOutputScript(output.address, network));
+}
+
+function calcFee(weight: number, feePerB: number): number {
+    return Math.ceil(Math.ceil(weight / 4) * feePerB);
+}
+
+class Selector {
+    network: bitcoin.Network;
+    feePerB: number;
+    dustSize: number;
+    outputAmount: number;
+    baseWeight: number;
+    changeWeight: number;
+    changeSpendWeight: number;
+    hasSegwit: boolean;
+
+    constructor(candidates: Candidate[], outputs: utxoOutput[], changeAddress: string, network: bitcoin.Network, options: CoinSelectOptions) {
+        this.network = network;
+        this.feePerB = options.feePerB || 10;
+        this.dustSize = options.dustSize || 546;
+        this.outputAmount = outputs.reduce((sum, o) => sum + o.amount, 0);
+        const extraOutputs = options.memo ? [memoScript(options.memo)] : [];
+        this.baseWeight = TX_OVERHEAD_WEIGHT
+            + 4 * varIntSize(outputs.length + extraOutputs.length + 1)
+            + outputs.reduce((sum, o) => sum + outputWeight(o, network), 0)
+            + extraOutputs.reduce((sum, s) => sum + scriptWeight(s), 0);
+        this.changeWeight = scriptWeight(bitcoin.address.toOutputScript(changeAddress, network));
+        this.changeSpendWeight = inputWeight(changeAddress, network, options.bitcoinCash);
+        this.hasSegwit = candidates.some(c => c.weight !== INPUT_WEIGHT.legacy);
+    }
+
+    // the amount selected inputs have to cover on top of their own cost, no change output
+    target(): number {
+        return this.outputAmount + (this.baseWeight + 4 + (this.hasSegwit ? SEGWIT_MARKER_WEIGHT : 0)) * this.feePerB / 4;
+    }
+
+    costOfChange(): number {
+        const spend = this.changeSpendWeight * this.feePerB / 4;
+        return this.changeWeight * this.feePerB / 4 + Math.min(spend, this.dustSize);
+    }
+
+    // same change rule as signBtc: the change is dropped whenever it would not exceed dustSize
+    finalize(selected: Candidate[], outputs: utxoOutput[], changeAddress: string): CoinSelectResult | undefined {
+        if (selected.length === 0) {
+            return undefined;
+        }
+        const inputAmount = selected.reduce((sum, c) => sum + c.utxo.amount, 0);
+        let weight = this.baseWeight + 4 * varIntSize(selected.length) + selected.reduce((sum, c) => sum + c.weight, 0);
+        if (selected.some(c => c.weight !== INPUT_WEIGHT.legacy)) {
+            weight += SEGWIT_MARKER_WEIGHT;
+        }
+        if (inputAmount - this.outputAmount < calcFee(weight, this.feePerB)) {
+            return undefined;
+        }
+        const change = inputAmount - this.outputAmount - calcFee(weight + this.changeWeight, this.feePerB);
+        const result: CoinSelectResult = {
+            inputs: selected.map(c => c.utxo),
+            outputs: outputs.slice(),
+            change: 0,
+            fee: inputAmount - this.outputAmount,
+        };
+        if (change > this.dustSize) {
+            result.outputs.push({address: changeAddress, amount: change, isChange: true});
+            result.change = change;
+            result.fee = inputAmount - this.outputAmount - change;
+        }
+        return result;
+    }
+}
+
+function accumulate(sorted: Candidate[], selector: Selector, outputs: utxoOutput[], changeAddress: string): CoinSelectResult | undefined {
+    const selected: Candidate[] = [];
+    for (const candidate of sorted) {
+        selected.push(candidate);
+        const result = selector.finalize(selected, outputs, changeAddress);
+        if (result) {
+            return result;
+        }
+    }
+    return undefined;
+}
+
+// branch and bound over effective values as in Bitcoin Core, looking for a changeless match
+function branchAndBound(candidates: Candidate[], target: number, costOfChange: number): Candidate[] | undefined {
+    const pool = candidates.filter(c => c.effectiveValue > 0).sort((a, b) => b.effectiveValue - a.effectiveValue);
+    let available = pool.reduce((sum, c) => sum + c.effectiveValue, 0);
+    if (available < target) {
+        return undefined;
+    }
+
+    let currValue = 0;
+    const currSelection: number[] = [];
+    let best: number[] | undefined;
+    let bestExcess = Infinity;
+    for (let tries = 0, index = 0; tries < BNB_TOTAL_TRIES; tries++, index++) {
+        let backtrack = false;
+        if (currValue + available < target || currValue > target + costOfChange) {
+            backtrack = true;
+        } else if (currValue >= target) {
+            if (currValue - target < bestExcess) {
+                bestExcess = currValue - target;
+                best = currSelection.slice();
+            }
+            if (bestExcess === 0) {
+                break;
+            }
+            backtrack = true;
+        }
+
+        if (backtrack) {
+            if (currSelection.length === 0) {
+                break;
+            }
+            // give back the candidates that were skipped after the last selected one
+            for (--index; index > currSelection[currSelection.length - 1]; --index) {
+                available += pool[index].effectiveValue;
+            }
+            currValue -= pool[index].effectiveValue;
+            currSelection.pop();
+        } else {
+            const candidate = pool[index];
+            available -= candidate.effectiveValue;
+            // skip an equivalent candidate when its predecessor was just omitted
+            const last = currSelection[currSelection.length - 1];
+            if (currSelection.length === 0 || index - 1 === last || candidate.effectiveValue !== pool[index - 1].effectiveValue) {
+                currSelection.push(index);
+                currValue += candidate.effectiveValue;
+            }
+        }
+    }
+    return best?.map(i => pool[i]);
+}
+
+function approximateBestSubset(values: number[], total: number, target: number): [boolean[], number] {
+    let best = values.map(() => true);
+    let bestValue = total;
+    for (let rep = 0; rep < KNAPSACK_ITERATIONS && bestValue !== target; rep++) {
+        const included = values.map(() => false);
+        let sum = 0;
+        let reachedTarget = false;
+        for (let pass = 0; pass < 2 && !reachedTarget; pass++) {
+            for (let i = 0; i < values.length; i++) {
+                if (pass === 0 ? Math.random() < 0.5 : !included[i]) {
+                    sum += values[i];
+                    included[i] = true;
+                    if (sum >= target) {
+                        reachedTarget = true;
+                        if (sum < bestValue) {
+                            bestValue = sum;
+                            best = included.slice();
+                        }
+                        sum -= values[i];
+                        included[i] = false;
+                    }
+                }
+            }
+        }
+    }
+    return [best, bestValue];
+}
+
+function knapsack(candidates: Candidate[], target: number, minChange: number): Candidate[] | undefined {
+    const smaller: Candidate[] = [];
+    let lowestLarger: Candidate | undefined;
+    let totalLower = 0;
+    for (const candidate of candidates.filter(c => c.effectiveValue > 0)) {
+        if (candidate.effectiveValue === target) {
+            return [candidate];
+        } else if (candidate.effectiveValue < target + minChange) {
+            smaller.push(candidate);
+            totalLower += candidate.effectiveValue;
+        } else if (!lowestLarger || candidate.effectiveValue < lowestLarger.effectiveValue) {
+            lowestLarger = candidate;
+        }
+    }
+
+    if (totalLower === target) {
+        return smaller;
+    }
+    if (totalLower < target) {
+        return lowestLarger ? [lowestLarger] : undefined;
+    }
+
+    smaller.sort((a, b) => b.effectiveValue - a.effectiveValue);
+    const values = smaller.map(c => c.effectiveValue);
+    let [best, bestValue] = approximateBestSubset(values, totalLower, target);
+    if (bestValue !== target && totalLower >= target + minChange) {
+        [best, bestValue] = approximateBestSubset(values, totalLower, target + minChange);
+    }
+
+    if (lowestLarger && ((bestValue !== target && bestValue < target + minChange) || lowestLarger.effectiveValue <= bestValue)) {
+        return [lowestLarger];
+    }
+    return smaller.filter((_, i) => best[i]);
+}
+
+export function selectUtxos(utxos: utxoInput[], outputs: utxoOutput[], changeAddress: string, network?: bitcoin.Network, options?: CoinSelectOptions): CoinSelectResult {
+    network = network || bitcoin.networks.bitcoin;
+    options = options || {};
+    const feePerB = options.feePerB || 10;
+    const candidates: Candidate[] = utxos.map(utxo => {
+        const weight = inputWeight(utxo.address || changeAddress, network!, options!.bitcoinCash);
+        return {utxo, weight, effectiveValue: utxo.amount - weight * feePerB / 4};
+    });
+    const selector = new Selector(candidates, outputs, changeAddress, network, options);
+    const target = selector.target();
+
+    const algorithm = options.algorithm || "auto";
+    let result: CoinSelectResult | undefined;
+    if (algorithm === "largest_first") {
+        const sorted = candidates.slice().sort((a, b) => b.utxo.amount - a.utxo.amount);
+        result = accumulate(sorted, selector, outputs, changeAddress);
+    } else if (algorithm === "oldest_first") {
+        const sorted = candidates.slice().sort((a, b) => (b.utxo.confirmations || 0) - (a.utxo.confirmations || 0));
+        result = accumulate(sorted, selector, outputs, changeAddress);
+    } else {
+        if (algorithm === "bnb" || algorithm === "auto") {
+            const selected = branchAndBound(candidates, target, selector.costOfChange());
+            result = selected && selector.finalize(selected, outputs, changeAddress);
+        }
+        if (!result && (algorithm === "knapsack" || algorithm === "auto")) {
+            const minChange = selector.dustSize + selector.changeWeight * feePerB / 4;
+            const selected = knapsack(candidates, target, minChange);
+            result = selected && selector.finalize(selected, outputs, changeAddress);
+            if (!result) {
+                // rounding may leave the knapsack pick a few satoshis short, top it up
+                const rest = candidates.filter(c => !selected?.includes(c)).sort((a, b) => b.effectiveValue - a.effectiveValue);
+                result = accumulate((selected || []).concat(rest), selector, outputs, changeAddress);
+            }
+        }
+    }
+
+    if (!result) {
+        throw new Error("insufficient balance");
+    }
+    return result;
+}
+
+// Narrows utxoTx.inputs down to the utxos chosen by utxoTx.coinSelect, leaving the change to signBtc/signBch
+export function applyCoinSelect(utxoTx: utxoTx, network?: bitcoin.Network, bitcoinCash?: boolean): utxoTx {
+    if (!utxoTx.coinSelect) {
+        return utxoTx;
+    }
+    const result = selectUtxos(utxoTx.inputs, utxoTx.outputs, utxoTx.address, network, {
+        algorithm: utxoTx.coinSelect,
+        feePerB: utxoTx.feePerB,
+        dustSize: utxoTx.dustSize,
+        bitcoinCash: bitcoinCash,
+        memo: utxoTx.memo,
+    });
+    return {...utxoTx, inputs: result.inputs, coinSelect: undefined};
+}
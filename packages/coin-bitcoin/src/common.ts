@@ -10,6 +10,11 @@ export enum BtcXrcTypes {
     PSBT_RUNEMAIN = 27,
     PSBT_KEY_SCRIPT_PATH = 3,
     PSBT_KEY_SCRIPT_PATH_BATCH = 4,
+    PSBT_MULTISIG = 5,
+    PSBT_MULTISIG_COMBINE = 6,
+    RBF = 7,
+    CPFP = 8,
+    TAPROOT_SCRIPT_PATH = 9,
     SRC20 = 101,
     RUNE = 102,
     RUNEMAIN = 103,
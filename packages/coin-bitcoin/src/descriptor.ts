@@ -0,0 +1,617 @@
+import {base, bip32, signUtil} from "@okxweb3/crypto-lib";
+import {Network, networks, payments, script as bscript, Transaction} from "./bitcoinjs-lib";
+import {Psbt} from "./bitcoinjs-lib/psbt";
+import {Payment} from "./bitcoinjs-lib/payments";
+import {tapleafHash, LEAF_VERSION_TAPSCRIPT} from "./bitcoinjs-lib/payments/bip341";
+import {Taptree} from "./bitcoinjs-lib/types";
+import {hash160} from "./bitcoinjs-lib/crypto";
+import {
+    Bip32Derivation,
+    PsbtInputUpdate,
+    PsbtOutputUpdate,
+    TapBip32Derivation,
+    TapLeaf,
+    TapLeafScript
+} from "./bitcoinjs-lib/bip174/interfaces";
+import * as wif from "./wif";
+
+const HARDENED = 0x80000000;
+const OPS = bscript.OPS;
+
+export interface DescriptorKey {
+    // key origin, the fingerprint of the master key and the path from it to `key`
+    origin?: { fingerprint: string; path: number[] };
+    // hex public key, WIF private key or extended key as written in the descriptor
+    key: string;
+    // derivation steps below an extended key
+    path: number[];
+    wildcard?: "unhardened" | "hardened";
+}
+
+export type DescriptorNode =
+    | { type: "pk" | "pkh" | "wpkh"; key: DescriptorKey }
+    | { type: "sh" | "wsh"; inner: DescriptorNode }
+    | { type: "multi" | "sortedmulti" | "multi_a" | "sortedmulti_a"; threshold: number; keys: DescriptorKey[] }
+    | { type: "tr"; key: DescriptorKey; tree?: DescriptorTree };
+
+export type DescriptorTree = DescriptorNode | [DescriptorTree, DescriptorTree];
+
+export interface DerivedDescriptor {
+    output: Buffer;
+    // undefined for bare pk() and multi() descriptors
+    address?: string;
+    redeemScript?: Buffer;
+    witnessScript?: Buffer;
+    tapInternalKey?: Buffer;
+    tapMerkleRoot?: Buffer;
+    tapLeafScript?: TapLeafScript[];
+    tapLeaves?: TapLeaf[];
+    bip32Derivation: Bip32Derivation[];
+    tapBip32Derivation: TapBip32Derivation[];
+}
+
+// BIP-380 checksum
+const INPUT_CHARSET = "0123456789()[],'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#\"\\ ";
+const CHECKSUM_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+
+function polymod(c: bigint, val: number): bigint {
+    const c0 = c >> BigInt(35);
+    c = ((c & BigInt(0x7ffffffff)) << BigInt(5)) ^ BigInt(val);
+    const generators = [0xf5dee51989, 0xa9fdca3312, 0x1bab10e32d, 0x3706b1677a, 0x644d626ffd];
+    generators.forEach((g, i) => {
+        if ((c0 >> BigInt(i)) & BigInt(1)) {
+            c ^= BigInt(g);
+        }
+    });
+    return c;
+}
+
+export function descriptorChecksum(desc: string): string {
+    let c = BigInt(1);
+    let cls = 0;
+    let clsCount = 0;
+    for (const ch of desc) {
+        const pos = INPUT_CHARSET.indexOf(ch);
+        if (pos < 0) {
+            throw new Error(`invalid descriptor character ${ch}`);
+        }
+        c = polymod(c, pos & 31);
+        cls = cls * 3 + (pos >> 5);
+        if (++clsCount === 3) {
+            c = polymod(c, cls);
+            cls = 0;
+            clsCount = 0;
+        }
+    }
+    if (clsCount > 0) {
+        c = polymod(c, cls);
+    }
+    for (let i = 0; i < 8; i++) {
+        c = polymod(c, 0);
+    }
+    c ^= BigInt(1);
+    let checksum = "";
+    for (let i = 0; i < 8; i++) {
+        checksum += CHECKSUM_CHARSET[Number((c >> BigInt(5 * (7 - i))) & BigInt(31))];
+    }
+    return checksum;
+}
+
+// where a key or script expression appears, it decides which key formats are allowed
+type Context = "top" | "sh" | "wsh" | "tr";
+
+class Parser {
+    pos = 0;
+
+    constructor(readonly desc: string) {
+    }
+
+    consume(token: string): boolean {
+        if (this.desc.startsWith(token, this.pos)) {
+            this.pos += token.length;
+            return true;
+        }
+        return false;
+    }
+
+    expect(token: string) {
+        if (!this.consume(token)) {
+            throw new Error(`expected '${token}' at position ${this.pos} of descriptor`);
+        }
+    }
+
+    // reads up to, not including, the first of the given characters
+    readUntil(stops: string): string {
+        const start = this.pos;
+        while (this.pos < this.desc.length && !stops.includes(this.desc[this.pos])) {
+            this.pos++;
+        }
+        return this.desc.slice(start, this.pos);
+    }
+}
+
+function parsePathElement(element: string): number {
+    const hardened = /['hH]$/.test(element);
+    const digits = hardened ? element.slice(0, -1) : element;
+    if (!/^\d+$/.test(digits) || Number(digits) >= HARDENED) {
+        throw new Error(`invalid derivation path element ${element}`);
+    }
+    return hardened ? Number(digits) + HARDENED : Number(digits);
+}
+
+function formatPath(path: number[]): string {
+    return path.map(i => "/" + (i >= HARDENED ? `${i - HARDENED}'` : `${i}`)).join("");
+}
+
+function isExtendedKey(key: string): boolean {
+    return /^[xt](pub|prv)/.test(key);
+}
+
+function extendedKeyNetwork(key: string): Network {
+    return key.startsWith("t") ? networks.testnet : networks.bitcoin;
+}
+
+function parseKey(parser: Parser, ctx: Context, segwit: boolean): DescriptorKey {
+    const result: DescriptorKey = {key: "", path: []};
+    if (parser.consume("[")) {
+        const [fingerprint, ...path] = parser.readUntil("]").split("/");
+        parser.expect("]");
+        if (!/^[0-9a-fA-F]{8}$/.test(fingerprint)) {
+            throw new Error("key origin fingerprint must be 4 bytes of hex");
+        }
+        result.origin = {fingerprint: fingerprint.toLowerCase(), path: path.map(parsePathElement)};
+    }
+
+    const [key, ...steps] = parser.readUntil(",)}").split("/");
+    result.key = key;
+    if (isExtendedKey(key)) {
+        const node = bip32.fromBase58(key, extendedKeyNetwork(key));
+        const last = steps[steps.length - 1];
+        if (last === "*" || last === "*'" || last === "*h" || last === "*H") {
+            result.wildcard = last === "*" ? "unhardened" : "hardened";
+            steps.pop();
+        }
+        result.path = steps.map(parsePathElement);
+        if (node.isNeutered() && (result.wildcard === "hardened" || result.path.some(i => i >= HARDENED))) {
+            throw new Error("hardened derivation requires an extended private key");
+        }
+        return result;
+    }
+
+    if (steps.length > 0) {
+        throw new Error("derivation steps are only allowed after an extended key");
+    }
+    if (/^[0-9a-fA-F]+$/.test(key)) {
+        const length = key.length / 2;
+        if (length === 32 && ctx !== "tr") {
+            throw new Error("x-only public keys are only allowed inside tr()");
+        }
+        if (length === 65 && (segwit || ctx === "tr")) {
+            throw new Error("uncompressed public keys are not allowed in segwit descriptors");
+        }
+        if (length !== 32 && length !== 33 && length !== 65) {
+            throw new Error(`invalid public key ${key}`);
+        }
+        if (length !== 32 && !signUtil.secp256k1.publicKeyVerify(base.fromHex(key))) {
+            throw new Error(`invalid public key ${key}`);
+        }
+        result.key = key.toLowerCase();
+        return result;
+    }
+
+    const {compressed} = wif.decode(key);
+    if (!compressed && (segwit || ctx === "tr")) {
+        throw new Error("uncompressed private keys are not allowed in segwit descriptors");
+    }
+    return result;
+}
+
+function parseNode(parser: Parser, ctx: Context): DescriptorNode {
+    const name = parser.readUntil("(");
+    parser.expect("(");
+    let node: DescriptorNode;
+    switch (name) {
+        case "pk":
+            node = {type: name, key: parseKey(parser, ctx, ctx === "wsh")};
+            break;
+        case "pkh":
+            if (ctx === "tr") {
+                throw new Error("pkh() is not allowed inside tr()");
+            }
+            node = {type: name, key: parseKey(parser, ctx, ctx === "wsh")};
+            break;
+        case "wpkh":
+            if (ctx !== "top" && ctx !== "sh") {
+                throw new Error("wpkh() is only allowed at top level or inside sh()");
+            }
+            node = {type: name, key: parseKey(parser, ctx, true)};
+            break;
+        case "sh":
+            if (ctx !== "top") {
+                throw new Error("sh() is only allowed at top level");
+            }
+            node = {type: name, inner: parseNode(parser, "sh")};
+            break;
+        case "wsh":
+            if (ctx !== "top" && ctx !== "sh") {
+                throw new Error("wsh() is only allowed at top level or inside sh()");
+            }
+            node = {type: name, inner: parseNode(parser, "wsh")};
+            break;
+        case "multi":
+        case "sortedmulti":
+        case "multi_a":
+        case "sortedmulti_a": {
+            const tapscript = name.endsWith("_a");
+            if (tapscript !== (ctx === "tr")) {
+                throw new Error(`${name}() is ${tapscript ? "only" : "not"} allowed inside tr()`);
+            }
+            const threshold = Number(parser.readUntil(","));
+            const keys: DescriptorKey[] = [];
+            while (parser.consume(",")) {
+                keys.push(parseKey(parser, ctx, ctx === "wsh"));
+            }
+            const maxKeys = tapscript ? 999 : ctx === "sh" ? 15 : 20;
+            if (!Number.isInteger(threshold) || threshold < 1 || threshold > keys.length || keys.length > maxKeys) {
+                throw new Error(`invalid ${name}() threshold or number of keys`);
+            }
+            node = {type: name, threshold, keys};
+            break;
+        }
+        case "tr": {
+            if (ctx !== "top") {
+                throw new Error("tr() is only allowed at top level");
+            }
+            const key = parseKey(parser, "tr", true);
+            node = parser.consume(",") ? {type: name, key, tree: parseTree(parser)} : {type: name, key};
+            break;
+        }
+        default:
+            throw new Error(`unsupported descriptor function ${name}`);
+    }
+    parser.expect(")");
+    return node;
+}
+
+function parseTree(parser: Parser, depth = 0): DescriptorTree {
+    if (depth > 128) {
+        throw new Error("tr() script tree is too deep");
+    }
+    if (parser.consume("{")) {
+        const left = parseTree(parser, depth + 1);
+        parser.expect(",");
+        const right = parseTree(parser, depth + 1);
+        parser.expect("}");
+        return [left, right];
+    }
+    const leaf = parseNode(parser, "tr");
+    if (leaf.type !== "pk" && leaf.type !== "multi_a" && leaf.type !== "sortedmulti_a") {
+        throw new Error(`${leaf.type}() is not allowed as a tapscript leaf`);
+    }
+    return leaf;
+}
+
+// Parses a descriptor, the checksum is verified when present.
+export function parseDescriptor(desc: string): DescriptorNode {
+    const [body, checksum, ...rest] = desc.trim().split("#");
+    if (rest.length > 0 || (checksum !== undefined && checksum !== descriptorChecksum(body))) {
+        throw new Error("invalid descriptor checksum");
+    }
+    const parser = new Parser(body);
+    const node = parseNode(parser, "top");
+    if (parser.pos !== body.length) {
+        throw new Error(`unexpected '${body.slice(parser.pos)}' at the end of descriptor`);
+    }
+    return node;
+}
+
+function formatKey(key: DescriptorKey): string {
+    const origin = key.origin ? `[${key.origin.fingerprint}${formatPath(key.origin.path)}]` : "";
+    const wildcard = key.wildcard === "unhardened" ? "/*" : key.wildcard === "hardened" ? "/*'" : "";
+    return origin + key.key + formatPath(key.path) + wildcard;
+}
+
+function formatNode(node: DescriptorTree): string {
+    if (Array.isArray(node)) {
+        return `{${formatNode(node[0])},${formatNode(node[1])}}`;
+    }
+    switch (node.type) {
+        case "sh":
+        case "wsh":
+            return `${node.type}(${formatNode(node.inner)})`;
+        case "multi":
+        case "sortedmulti":
+        case "multi_a":
+        case "sortedmulti_a":
+            return `${node.type}(${[node.threshold, ...node.keys.map(formatKey)].join(",")})`;
+        case "tr":
+            return node.tree ? `tr(${formatKey(node.key)},${formatNode(node.tree)})` : `tr(${formatKey(node.key)})`;
+        default:
+            return `${node.type}(${formatKey(node.key)})`;
+    }
+}
+
+// Serializes a descriptor with its checksum appended.
+export function serializeDescriptor(node: DescriptorNode): string {
+    const body = formatNode(node);
+    return `${body}#${descriptorChecksum(body)}`;
+}
+
+function descriptorKeys(node: DescriptorTree): DescriptorKey[] {
+    if (Array.isArray(node)) {
+        return [...descriptorKeys(node[0]), ...descriptorKeys(node[1])];
+    }
+    switch (node.type) {
+        case "sh":
+        case "wsh":
+            return descriptorKeys(node.inner);
+        case "multi":
+        case "sortedmulti":
+        case "multi_a":
+        case "sortedmulti_a":
+            return node.keys;
+        case "tr":
+            return node.tree ? [node.key, ...descriptorKeys(node.tree)] : [node.key];
+        default:
+            return [node.key];
+    }
+}
+
+export function isRangeDescriptor(desc: string | DescriptorNode): boolean {
+    const node = typeof desc === "string" ? parseDescriptor(desc) : desc;
+    return descriptorKeys(node).some(key => key.wildcard !== undefined);
+}
+
+// the extended key of a parsed key derived down to its last fixed step, ranged derivation reuses it
+const extendedKeys = new WeakMap<DescriptorKey, { fingerprint: Buffer; node: bip32.BIP32Interface }>();
+
+function deriveKey(key: DescriptorKey, index: number): Bip32Derivation {
+    let pubkey: Buffer;
+    let fingerprint: Buffer;
+    let path = key.origin ? key.origin.path : [];
+    if (isExtendedKey(key.key)) {
+        let parent = extendedKeys.get(key);
+        if (!parent) {
+            const node = bip32.fromBase58(key.key, extendedKeyNetwork(key.key));
+            parent = {fingerprint: node.fingerprint, node: key.path.reduce((n, i) => n.derive(i), node)};
+            extendedKeys.set(key, parent);
+        }
+        fingerprint = parent.fingerprint;
+        pubkey = parent.node.publicKey;
+        path = [...path, ...key.path];
+        if (key.wildcard) {
+            const child = key.wildcard === "hardened" ? index + HARDENED : index;
+            pubkey = parent.node.derive(child).publicKey;
+            path = [...path, child];
+        }
+    } else if (/^[0-9a-f]+$/.test(key.key)) {
+        pubkey = Buffer.from(base.fromHex(key.key));
+        fingerprint = hash160(pubkey).slice(0, 4);
+    } else {
+        const {privateKey, compressed} = wif.decode(key.key);
+        pubkey = Buffer.from(signUtil.secp256k1.publicKeyCreate(privateKey, compressed));
+        fingerprint = hash160(pubkey).slice(0, 4);
+    }
+    return {
+        masterFingerprint: key.origin ? Buffer.from(base.fromHex(key.origin.fingerprint)) : fingerprint,
+        pubkey,
+        path: "m" + formatPath(path),
+    };
+}
+
+function toXOnly(pubkey: Buffer): Buffer {
+    return pubkey.length === 32 ? pubkey : pubkey.slice(1, 33);
+}
+
+interface DerivedNode {
+    payment: Payment;
+    redeemScript?: Buffer;
+    witnessScript?: Buffer;
+    derivations: Bip32Derivation[];
+}
+
+function deriveLeafScript(node: DescriptorNode, index: number): { script: Buffer; derivations: Bip32Derivation[] } {
+    if (node.type === "pk") {
+        const derivation = deriveKey(node.key, index);
+        return {script: bscript.compile([toXOnly(derivation.pubkey), OPS.OP_CHECKSIG]), derivations: [derivation]};
+    } else if (node.type === "multi_a" || node.type === "sortedmulti_a") {
+        const derivations = node.keys.map(key => deriveKey(key, index));
+        let pubkeys = derivations.map(d => toXOnly(d.pubkey));
+        if (node.type === "sortedmulti_a") {
+            pubkeys = pubkeys.sort(Buffer.compare);
+        }
+        const chunks: (Buffer | number)[] = [];
+        pubkeys.forEach((pubkey, i) => chunks.push(pubkey, i === 0 ? OPS.OP_CHECKSIG : OPS.OP_CHECKSIGADD));
+        chunks.push(bscript.number.encode(node.threshold), OPS.OP_NUMEQUAL);
+        return {script: bscript.compile(chunks), derivations};
+    }
+    throw new Error(`${node.type}() is not allowed as a tapscript leaf`);
+}
+
+function deriveNode(node: DescriptorNode, index: number, network: Network): DerivedNode {
+    switch (node.type) {
+        case "pk":
+        case "pkh":
+        case "wpkh": {
+            const derivation = deriveKey(node.key, index);
+            const create = node.type === "pk" ? payments.p2pk : node.type === "pkh" ? payments.p2pkh : payments.p2wpkh;
+            return {payment: create({pubkey: derivation.pubkey, network}), derivations: [derivation]};
+        }
+        case "multi":
+        case "sortedmulti": {
+            const derivations = node.keys.map(key => deriveKey(key, index));
+            let pubkeys = derivations.map(d => d.pubkey);
+            if (node.type === "sortedmulti") {
+                pubkeys = pubkeys.slice().sort(Buffer.compare);
+            }
+            return {payment: payments.p2ms({m: node.threshold, pubkeys, network}), derivations};
+        }
+        case "sh": {
+            const inner = deriveNode(node.inner, index, network);
+            if (inner.payment.output!.length > 520) {
+                throw new Error("redeem script too large for p2sh");
+            }
+            return {
+                payment: payments.p2sh({redeem: inner.payment, network}),
+                redeemScript: inner.payment.output,
+                witnessScript: inner.witnessScript,
+                derivations: inner.derivations,
+            };
+        }
+        case "wsh": {
+            const inner = deriveNode(node.inner, index, network);
+            return {
+                payment: payments.p2wsh({redeem: inner.payment, network}),
+                witnessScript: inner.payment.output,
+                derivations: inner.derivations,
+            };
+        }
+        default:
+            throw new Error(`${node.type}() can not be derived here`);
+    }
+}
+
+function deriveTaproot(node: Extract<DescriptorNode, { type: "tr" }>, index: number, network: Network): DerivedDescriptor {
+    const internal = deriveKey(node.key, index);
+    const internalPubkey = toXOnly(internal.pubkey);
+    const leaves: { leaf: TapLeaf; derivations: Bip32Derivation[] }[] = [];
+
+    // leaves are collected depth first, the order psbt tapTree fields expect
+    const toTaptree = (tree: DescriptorTree, depth: number): Taptree => {
+        if (Array.isArray(tree)) {
+            return [toTaptree(tree[0], depth + 1), toTaptree(tree[1], depth + 1)];
+        }
+        const {script, derivations} = deriveLeafScript(tree, index);
+        leaves.push({leaf: {depth, leafVersion: LEAF_VERSION_TAPSCRIPT, script}, derivations});
+        return {output: script, version: LEAF_VERSION_TAPSCRIPT};
+    };
+    const scriptTree = node.tree ? toTaptree(node.tree, 0) : undefined;
+    const payment = payments.p2tr({internalPubkey, scriptTree, network});
+
+    const tapBip32Derivation: TapBip32Derivation[] = [{...internal, pubkey: internalPubkey, leafHashes: []}];
+    const tapLeafScript: TapLeafScript[] = [];
+    leaves.forEach(({leaf, derivations}) => {
+        const leafHash = tapleafHash({output: leaf.script, version: leaf.leafVersion});
+        derivations.forEach(derivation => {
+            const pubkey = toXOnly(derivation.pubkey);
+            const existing = tapBip32Derivation.find(d => d.pubkey.equals(pubkey));
+            if (existing) {
+                existing.leafHashes.push(leafHash);
+            } else {
+                tapBip32Derivation.push({...derivation, pubkey, leafHashes: [leafHash]});
+            }
+        });
+        const witness = payments.p2tr({
+            internalPubkey,
+            scriptTree,
+            redeem: {output: leaf.script, redeemVersion: leaf.leafVersion},
+            network,
+        }).witness!;
+        tapLeafScript.push({leafVersion: leaf.leafVersion, script: leaf.script, controlBlock: witness[witness.length - 1]});
+    });
+
+    return {
+        output: payment.output!,
+        address: payment.address,
+        tapInternalKey: internalPubkey,
+        tapMerkleRoot: scriptTree ? payment.hash : undefined,
+        tapLeafScript: scriptTree ? tapLeafScript : undefined,
+        tapLeaves: scriptTree ? leaves.map(l => l.leaf) : undefined,
+        bip32Derivation: [],
+        tapBip32Derivation,
+    };
+}
+
+// Derives the output script, address and psbt key paths of a descriptor, ranged descriptors at `index`.
+export function deriveDescriptor(desc: string | DescriptorNode, index: number = 0, network?: Network): DerivedDescriptor {
+    network = network || networks.bitcoin;
+    const node = typeof desc === "string" ? parseDescriptor(desc) : desc;
+    if (!Number.isInteger(index) || index < 0 || index >= HARDENED) {
+        throw new Error("invalid derivation index");
+    }
+    if (node.type === "tr") {
+        return deriveTaproot(node, index, network);
+    }
+    const derived = deriveNode(node, index, network);
+    return {
+        output: derived.payment.output!,
+        address: node.type === "pk" || node.type === "multi" || node.type === "sortedmulti" ? undefined : derived.payment.address,
+        redeemScript: derived.redeemScript,
+        witnessScript: derived.witnessScript,
+        bip32Derivation: derived.derivations,
+        tapBip32Derivation: [],
+    };
+}
+
+export function deriveDescriptorAddress(desc: string | DescriptorNode, index: number = 0, network?: Network): string {
+    const {address} = deriveDescriptor(desc, index, network);
+    if (!address) {
+        throw new Error("descriptor has no address");
+    }
+    return address;
+}
+
+// Adds bip32Derivation (or tapBip32Derivation and the taproot fields) plus missing redeem and witness
+// scripts to every psbt input and output paying to one of the descriptors. Ranged descriptors are
+// searched from index 0 up to `range`.
+export function updatePsbtWithDescriptors(psbtBase64: string, descriptors: string | string[], network?: Network, range: number = 1000): string {
+    network = network || networks.bitcoin;
+    const psbt = Psbt.fromBase64(psbtBase64, {network});
+    const nodes = (Array.isArray(descriptors) ? descriptors : [descriptors]).map(desc => parseDescriptor(desc));
+
+    const inputScripts = psbt.data.inputs.map((input, i) => {
+        if (input.witnessUtxo) {
+            return input.witnessUtxo.script;
+        } else if (input.nonWitnessUtxo) {
+            return Transaction.fromBuffer(input.nonWitnessUtxo).outs[psbt.txInputs[i].index].script;
+        }
+        return undefined;
+    });
+    const outputScripts = psbt.txOutputs.map(output => output.script);
+    const wanted = new Set([...inputScripts, ...outputScripts].filter(s => s !== undefined).map(s => base.toHex(s!)));
+
+    const found = new Map<string, DerivedDescriptor>();
+    for (const node of nodes) {
+        const end = isRangeDescriptor(node) ? range : 1;
+        for (let index = 0; index < end && found.size < wanted.size; index++) {
+            const derived = deriveDescriptor(node, index, network);
+            const script = base.toHex(derived.output);
+            if (wanted.has(script) && !found.has(script)) {
+                found.set(script, derived);
+            }
+        }
+    }
+
+    const fields = (current: PsbtInputUpdate | PsbtOutputUpdate, derived: DerivedDescriptor): PsbtOutputUpdate => {
+        const update: PsbtOutputUpdate = {};
+        const bip32Derivation = derived.bip32Derivation.filter(d =>
+            !(current.bip32Derivation || []).some(c => c.pubkey.equals(d.pubkey)));
+        const tapBip32Derivation = derived.tapBip32Derivation.filter(d =>
+            !(current.tapBip32Derivation || []).some(c => c.pubkey.equals(d.pubkey)));
+        if (bip32Derivation.length > 0) update.bip32Derivation = bip32Derivation;
+        if (tapBip32Derivation.length > 0) update.tapBip32Derivation = tapBip32Derivation;
+        if (derived.redeemScript && !current.redeemScript) update.redeemScript = derived.redeemScript;
+        if (derived.witnessScript && !current.witnessScript) update.witnessScript = derived.witnessScript;
+        if (derived.tapInternalKey && !current.tapInternalKey) update.tapInternalKey = derived.tapInternalKey;
+        return update;
+    };
+
+    psbt.data.inputs.forEach((input, i) => {
+        const derived = inputScripts[i] && found.get(base.toHex(inputScripts[i]!));
+        if (derived) {
+            const update: PsbtInputUpdate = fields(input, derived);
+            if (derived.tapMerkleRoot && !input.tapMerkleRoot) update.tapMerkleRoot = derived.tapMerkleRoot;
+            if (derived.tapLeafScript && !input.tapLeafScript) update.tapLeafScript = derived.tapLeafScript;
+            psbt.updateInput(i, update);
+        }
+    });
+    psbt.data.outputs.forEach((output, i) => {
+        const derived = found.get(base.toHex(outputScripts[i]));
+        if (derived) {
+            const update = fields(output, derived);
+            if (derived.tapLeaves && !output.tapTree) update.tapTree = {leaves: derived.tapLeaves};
+            psbt.updateOutput(i, update);
+        }
+    });
+    return psbt.toBase64();
+}
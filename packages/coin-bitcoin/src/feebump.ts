@@ -0,0 +1,201 @@
+import * as bitcoin from "./bitcoinjs-lib";
+import {Network, Transaction} from "./bitcoinjs-lib";
+import {Psbt, PsbtInputExtended} from "./bitcoinjs-lib/psbt";
+import {base} from "@okxweb3/crypto-lib";
+import {calculateTxSize, private2Wif, TxBuild} from "./txBuild";
+import {CpfpTx, RbfTx, utxoInput, utxoOutput} from "./type";
+
+// BIP-125 rule 4: the replacement pays for its own relay at this rate on top of the replaced fee
+const incrementalRelayFeePerB = 1;
+const maxBip125Sequence = 0xfffffffd;
+
+export interface FeeBumpResult {
+    tx: string  // signed transaction hex, or unsigned psbt base64 when the original was a psbt
+    fee: number
+    virtualSize: number
+}
+
+interface Funding {
+    inputs: utxoInput[]
+    change: number
+    fee: number
+    virtualSize: number
+}
+
+function decodePsbt(raw: string, network: Network): Psbt | undefined {
+    if (raw.startsWith("70736274ff")) {
+        return Psbt.fromHex(raw, {network});
+    } else if (raw.startsWith("cHNidP")) {
+        return Psbt.fromBase64(raw, {network});
+    }
+    return undefined;
+}
+
+function toUtxoOutput(script: Buffer, value: number, network: Network): utxoOutput {
+    try {
+        return {address: bitcoin.address.fromOutputScript(script, network), amount: value};
+    } catch (e) {
+        if (value !== 0) {
+            throw new Error("unsupported output script");
+        }
+        // op_return and other data carriers, TxBuild adds them as raw scripts
+        return {address: "", amount: 0, omniScript: base.toHex(script)};
+    }
+}
+
+// Adds extra inputs, largest first, until the inputs pay for the outputs and the fee required at the
+// resulting size. Change above dust is returned, otherwise the remainder goes to the fee.
+function fund(inputs: utxoInput[], outputs: utxoOutput[], extraInputs: utxoInput[], changeAddress: string,
+              requiredFee: (virtualSize: number) => number, network: Network, dustSize: number, requireChange: boolean): Funding {
+    const candidates = extraInputs.slice().sort((a, b) => b.amount - a.amount);
+    const fakePrivateKey = private2Wif(base.fromHex("853fd8960ff34838208d662ecd3b9f8cf413e13e0f74f95e554f8089f5058db0"), network);
+    const selected = inputs.slice();
+    while (true) {
+        const {
+            inputAmount,
+            outputAmount,
+            virtualSize
+        } = calculateTxSize(selected, outputs, changeAddress, fakePrivateKey, network, dustSize);
+        const fee = requiredFee(virtualSize);
+        const change = inputAmount - outputAmount - fee;
+        if (change > dustSize) {
+            return {inputs: selected, change, fee, virtualSize};
+        } else if (change >= 0 && !requireChange) {
+            return {inputs: selected, change: 0, fee: inputAmount - outputAmount, virtualSize};
+        }
+        const next = candidates.shift();
+        if (!next) {
+            throw new Error("insufficient balance");
+        }
+        selected.push({...next, sequence: next.sequence !== undefined ? next.sequence : maxBip125Sequence});
+    }
+}
+
+function buildSigned(funding: Funding, outputs: utxoOutput[], version: number, locktime: number, privateKey: string, changeAddress: string, network: Network): string {
+    const txBuild = new TxBuild(version, network);
+    txBuild.tx.locktime = locktime;
+    funding.inputs.forEach(input => {
+        txBuild.addInput(input.txId, input.vOut, input.privateKey || privateKey, input.address || changeAddress,
+            input.reedScript, input.amount, input.publicKey, input.sequence);
+    });
+    outputs.forEach(output => txBuild.addOutput(output.address, output.amount, output.omniScript));
+    return txBuild.build();
+}
+
+// Builds a BIP-125 replacement of a signed transaction or psbt at `feePerB`. Outputs to the change address
+// absorb the higher fee, when they can not the extra inputs are added. Recipients are left untouched.
+export function bumpFee(rbfTx: RbfTx, privateKey: string, network?: Network): FeeBumpResult {
+    network = network || bitcoin.networks.bitcoin;
+    const dustSize = rbfTx.dustSize || 546;
+    const psbt = decodePsbt(rbfTx.tx, network);
+    const tx = psbt ? undefined : Transaction.fromHex(rbfTx.tx);
+    const txInputs = psbt ? psbt.txInputs : tx!.ins;
+    const txOutputs = psbt ? psbt.txOutputs : tx!.outs;
+
+    const inputs: utxoInput[] = txInputs.map((input, i) => {
+        const txId = base.toHex(base.reverseBuffer(Buffer.from(input.hash)));
+        const prevout = (rbfTx.inputs || []).find(p => p.txId === txId && p.vOut === input.index);
+        let amount = prevout ? prevout.amount : undefined;
+        let address = prevout ? prevout.address : undefined;
+        if (psbt && amount === undefined) {
+            const data = psbt.data.inputs[i];
+            const out = data.witnessUtxo || (data.nonWitnessUtxo && Transaction.fromBuffer(data.nonWitnessUtxo).outs[input.index]);
+            if (out) {
+                amount = out.value;
+                address = bitcoin.address.fromOutputScript(out.script, network);
+            }
+        }
+        if (amount === undefined) {
+            throw new Error(`missing prevout of input ${txId}:${input.index}`);
+        }
+        return {...prevout, txId, vOut: input.index, amount, address, sequence: input.sequence};
+    });
+    if (!inputs.some(input => input.sequence! <= maxBip125Sequence)) {
+        throw new Error("original transaction does not signal replaceability");
+    }
+
+    const originalFee = inputs.reduce((sum, input) => sum + input.amount, 0)
+        - txOutputs.reduce((sum, output) => sum + output.value, 0);
+    const changeScript = bitcoin.address.toOutputScript(rbfTx.address, network);
+    const changeIndex = txOutputs.findIndex(output => output.script.equals(changeScript));
+    const recipients = txOutputs
+        .filter((output, i) => i !== changeIndex)
+        .map(output => toUtxoOutput(output.script, output.value, network!));
+
+    // rule 3 and 4: more than the replaced fee, plus the relay of the replacement itself
+    const requiredFee = (virtualSize: number) => Math.max(
+        Math.ceil(virtualSize * rbfTx.feePerB),
+        originalFee + Math.ceil(virtualSize * incrementalRelayFeePerB)
+    );
+    const funding = fund(inputs, recipients, rbfTx.extraInputs || [], rbfTx.address, requiredFee, network, dustSize, false);
+
+    const outputs = recipients.slice();
+    if (funding.change > 0) {
+        outputs.splice(changeIndex >= 0 ? changeIndex : outputs.length, 0, {address: rbfTx.address, amount: funding.change});
+    }
+
+    let replacement: string;
+    if (psbt) {
+        const newPsbt = new Psbt({network});
+        newPsbt.setVersion(psbt.version);
+        newPsbt.setLocktime(psbt.locktime);
+        funding.inputs.forEach((input, i) => {
+            const inputData: PsbtInputExtended = {hash: input.txId, index: input.vOut, sequence: input.sequence};
+            if (i < psbt.data.inputs.length) {
+                // keep the prevout and key data, signatures commit to the old outputs and are dropped
+                const {partialSig, finalScriptSig, finalScriptWitness, tapKeySig, tapScriptSig, unknownKeyVals, ...data} = psbt.data.inputs[i];
+                Object.assign(inputData, data);
+            } else if (input.nonWitnessUtxo) {
+                inputData.nonWitnessUtxo = base.fromHex(input.nonWitnessUtxo);
+            } else {
+                inputData.witnessUtxo = {script: bitcoin.address.toOutputScript(input.address!, network), value: input.amount};
+            }
+            newPsbt.addInput(inputData);
+        });
+        outputs.forEach(output => newPsbt.addOutput({
+            script: output.omniScript ? base.fromHex(output.omniScript) : bitcoin.address.toOutputScript(output.address, network),
+            value: output.amount,
+        }));
+        replacement = newPsbt.toBase64();
+    } else {
+        replacement = buildSigned(funding, outputs, tx!.version, tx!.locktime, privateKey, rbfTx.address, network);
+    }
+    return {tx: replacement, fee: funding.fee, virtualSize: funding.virtualSize};
+}
+
+// Builds a child spending output `vOut` of an unconfirmed parent so that parent and child together
+// pay `feePerB`. The child sends everything to `address`, adding extra inputs when the output is too small.
+export function cpfp(cpfpTx: CpfpTx, privateKey: string, network?: Network): FeeBumpResult {
+    network = network || bitcoin.networks.bitcoin;
+    const dustSize = cpfpTx.dustSize || 546;
+    const parent = Transaction.fromHex(cpfpTx.parentTx);
+    const output = parent.outs[cpfpTx.vOut];
+    if (!output) {
+        throw new Error("parent output not found");
+    }
+
+    let parentFee = cpfpTx.parentFee;
+    if (parentFee === undefined) {
+        if (!cpfpTx.parentInputs) {
+            throw new Error("parentFee or parentInputs is required");
+        }
+        parentFee = cpfpTx.parentInputs.reduce((sum, input) => sum + input.amount, 0)
+            - parent.outs.reduce((sum, out) => sum + out.value, 0);
+    }
+    const parentSize = parent.virtualSize();
+
+    const input: utxoInput = {
+        txId: parent.getId(),
+        vOut: cpfpTx.vOut,
+        amount: output.value,
+        address: bitcoin.address.fromOutputScript(output.script, network),
+        sequence: cpfpTx.sequence !== undefined ? cpfpTx.sequence : maxBip125Sequence,
+    };
+    const requiredFee = (virtualSize: number) => Math.max(
+        Math.ceil((parentSize + virtualSize) * cpfpTx.feePerB) - parentFee!,
+        Math.ceil(virtualSize * incrementalRelayFeePerB)
+    );
+    const funding = fund([input], [], cpfpTx.extraInputs || [], cpfpTx.address, requiredFee, network, dustSize, true);
+    const tx = buildSigned(funding, [{address: cpfpTx.address, amount: funding.change}], 2, 0, privateKey, cpfpTx.address, network);
+    return {tx, fee: funding.fee, virtualSize: funding.virtualSize};
+}
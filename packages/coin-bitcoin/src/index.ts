@@ -1,6 +1,11 @@
 export * from "./bitcoinjs-lib"
 export * from "./bitcoincash"
 export * from "./txBuild"
+export * from "./coinselect"
+export * from "./multisig"
+export * from "./descriptor"
+export * from "./feebump"
+export * from "./taptree"
 export * from "./type"
 export * as wif from "./wif"
 export * from "./src20"
@@ -0,0 +1,187 @@
+import {base, signUtil} from "@okxweb3/crypto-lib";
+import {Network, networks, payments} from "./bitcoinjs-lib";
+import {Psbt, PsbtInputExtended} from "./bitcoinjs-lib/psbt";
+import {Payment} from "./bitcoinjs-lib/payments";
+import {psbtSignImpl} from "./psbtSign";
+import {outputWeight} from "./coinselect";
+import {MultisigConfig, utxoInput, utxoOutput, utxoTx} from "./type";
+
+const defaultMaximumFeeRate = 5000
+
+// BIP-67: compressed public keys sorted lexicographically
+export function sortPublicKeys(publicKeys: string[]): string[] {
+    return publicKeys.slice().sort((a, b) => Buffer.compare(base.fromHex(a), base.fromHex(b)));
+}
+
+export function multisigPayment(config: MultisigConfig, network?: Network): Payment {
+    network = network || networks.bitcoin;
+    const n = config.publicKeys.length;
+    if (!Number.isInteger(config.threshold) || config.threshold < 1 || config.threshold > n || n > 20) {
+        throw new Error("invalid multisig threshold");
+    }
+    if (config.publicKeys.some(key => base.fromHex(key).length !== 33)) {
+        throw new Error("multisig public keys must be compressed");
+    }
+    const publicKeys = config.sortKeys === false ? config.publicKeys : sortPublicKeys(config.publicKeys);
+    const p2ms = payments.p2ms({m: config.threshold, pubkeys: publicKeys.map(key => base.fromHex(key)), network});
+    const addressType = config.addressType || "p2wsh";
+    if (addressType === "p2sh") {
+        if (p2ms.output!.length > 520) {
+            throw new Error("redeem script too large for p2sh");
+        }
+        return payments.p2sh({redeem: p2ms, network});
+    } else if (addressType === "p2wsh") {
+        return payments.p2wsh({redeem: p2ms, network});
+    } else if (addressType === "p2sh_p2wsh") {
+        return payments.p2sh({redeem: payments.p2wsh({redeem: p2ms, network}), network});
+    }
+    throw new Error("unsupported multisig address type");
+}
+
+export function getMultisigAddress(config: MultisigConfig, network?: Network) {
+    const payment = multisigPayment(config, network);
+    const addressType = config.addressType || "p2wsh";
+    const p2ms = addressType === "p2sh_p2wsh" ? payment.redeem!.redeem! : payment.redeem!;
+    return {
+        address: payment.address!,
+        redeemScript: addressType === "p2wsh" ? undefined : base.toHex(payment.redeem!.output!),
+        witnessScript: addressType === "p2sh" ? undefined : base.toHex(p2ms.output!),
+        publicKeys: p2ms.pubkeys!.map(key => base.toHex(key)),
+    };
+}
+
+function multisigInputWeight(config: MultisigConfig, network?: Network): number {
+    const {redeemScript, witnessScript} = getMultisigAddress(config, network);
+    // OP_0 followed by the threshold number of DER signatures at their maximal length
+    const signaturesSize = 1 + config.threshold * (1 + 72);
+    const addressType = config.addressType || "p2wsh";
+    if (addressType === "p2sh") {
+        const scriptLength = redeemScript!.length / 2;
+        const scriptSig = signaturesSize + (scriptLength > 75 ? 2 : 1) + scriptLength;
+        return 4 * (36 + (scriptSig < 0xfd ? 1 : 3) + scriptSig + 4);
+    }
+    const scriptLength = witnessScript!.length / 2;
+    const witness = 1 + signaturesSize + (scriptLength < 0xfd ? 1 : 3) + scriptLength;
+    const scriptSig = addressType === "p2sh_p2wsh" ? 1 + 34 : 0;
+    return 4 * (36 + 1 + scriptSig + 4) + witness;
+}
+
+// Builds an unsigned psbt spending utxos of the multisig address; cosigners then add their
+// partial signatures with signMultisigPsbt and any of them combines and finalizes.
+export function buildMultisigPsbt(tx: utxoTx, config: MultisigConfig, network?: Network, maximumFeeRate?: number): string {
+    network = network || networks.bitcoin;
+    const payment = multisigPayment(config, network);
+    const addressType = config.addressType || "p2wsh";
+    const psbt = new Psbt({network, maximumFeeRate: maximumFeeRate ? maximumFeeRate : defaultMaximumFeeRate});
+
+    let inputAmount = 0;
+    tx.inputs.forEach((input: utxoInput) => {
+        const inputData: PsbtInputExtended = {
+            hash: input.txId,
+            index: input.vOut,
+            sequence: input.sequence,
+        };
+        if (addressType === "p2sh") {
+            if (!input.nonWitnessUtxo) {
+                throw new Error("nonWitnessUtxo is required for p2sh multisig inputs");
+            }
+            inputData.nonWitnessUtxo = base.fromHex(input.nonWitnessUtxo);
+            inputData.redeemScript = payment.redeem!.output;
+        } else {
+            inputData.witnessUtxo = {script: payment.output!, value: input.amount};
+            inputData.witnessScript = addressType === "p2wsh" ? payment.redeem!.output : payment.redeem!.redeem!.output;
+            if (addressType === "p2sh_p2wsh") {
+                inputData.redeemScript = payment.redeem!.output;
+            }
+        }
+        if (input.sighashType) {
+            inputData.sighashType = input.sighashType;
+        }
+        psbt.addInput(inputData);
+        inputAmount += input.amount;
+    });
+
+    let outputAmount = 0;
+    let weight = 4 * (4 + 4 + 1 + 1) + (addressType === "p2sh" ? 0 : 2);
+    tx.outputs.forEach((output: utxoOutput) => {
+        psbt.addOutput({address: output.address, value: output.amount});
+        outputAmount += output.amount;
+        weight += outputWeight(output, network!);
+    });
+    weight += tx.inputs.length * multisigInputWeight(config, network);
+
+    const feePerB = tx.feePerB || 10;
+    const dustSize = tx.dustSize || 546;
+    const changeAddress = tx.address || payment.address!;
+    const changeWeight = outputWeight({address: changeAddress, amount: 0}, network);
+    const changeAmount = inputAmount - outputAmount - Math.ceil(Math.ceil((weight + changeWeight) / 4) * feePerB);
+    if (changeAmount > dustSize) {
+        psbt.addOutput({address: changeAddress, value: changeAmount});
+    } else if (inputAmount - outputAmount < Math.ceil(Math.ceil(weight / 4) * feePerB)) {
+        throw new Error("insufficient balance");
+    }
+    return psbt.toBase64();
+}
+
+export function signMultisigPsbt(psbtBase64: string, privateKey: string, network?: Network, maximumFeeRate?: number): string {
+    const psbt = Psbt.fromBase64(psbtBase64, {
+        network,
+        maximumFeeRate: maximumFeeRate ? maximumFeeRate : defaultMaximumFeeRate
+    });
+    psbtSignImpl(psbt, privateKey, network);
+    return psbt.toBase64();
+}
+
+export function combineMultisigPsbts(psbtBase64s: string[], network?: Network, maximumFeeRate?: number): string {
+    const opts = {network, maximumFeeRate: maximumFeeRate ? maximumFeeRate : defaultMaximumFeeRate};
+    const [first, ...rest] = psbtBase64s.map(psbtBase64 => Psbt.fromBase64(psbtBase64, opts));
+    if (!first) {
+        throw new Error("no psbt to combine");
+    }
+    return rest.length > 0 ? first.combine(...rest).toBase64() : first.toBase64();
+}
+
+function validator(pubkey: Buffer, msghash: Buffer, signature: Buffer): boolean {
+    return signUtil.secp256k1.verifyWithNoRecovery(msghash, signature, pubkey);
+}
+
+// valid partial signatures of a multisig input, in the key order of its script
+function validPartialSigs(psbt: Psbt, index: number) {
+    const input = psbt.data.inputs[index];
+    const script = input.witnessScript || input.redeemScript;
+    if (!script) {
+        throw new Error(`input ${index} is not a multisig input`);
+    }
+    const {m, pubkeys} = payments.p2ms({output: script});
+    const position = (pubkey: Buffer) => pubkeys!.findIndex(key => key.equals(pubkey));
+    const partialSigs = (input.partialSig || [])
+        .filter(ps => position(ps.pubkey) >= 0 && psbt.validateSignaturesOfInput(index, validator, ps.pubkey))
+        .sort((a, b) => position(a.pubkey) - position(b.pubkey));
+    return {m: m!, partialSigs};
+}
+
+// number of valid partial signatures still missing on each input
+export function missingMultisigSignatures(psbtBase64: string, network?: Network): number[] {
+    const psbt = Psbt.fromBase64(psbtBase64, {network});
+    return psbt.data.inputs.map((_, i) => {
+        const {m, partialSigs} = validPartialSigs(psbt, i);
+        return Math.max(m - partialSigs.length, 0);
+    });
+}
+
+export function finalizeMultisigPsbt(psbtBase64: string, network?: Network, maximumFeeRate?: number): string {
+    const psbt = Psbt.fromBase64(psbtBase64, {
+        network,
+        maximumFeeRate: maximumFeeRate ? maximumFeeRate : defaultMaximumFeeRate
+    });
+    psbt.data.inputs.forEach((input, i) => {
+        const {m, partialSigs} = validPartialSigs(psbt, i);
+        if (partialSigs.length < m) {
+            throw new Error("multisig threshold not met");
+        }
+        // OP_CHECKMULTISIG takes exactly m signatures, extra cosigners are left out
+        input.partialSig = partialSigs.slice(0, m);
+    });
+    psbt.finalizeAllInputs();
+    return psbt.extractTransaction().toHex();
+}
@@ -0,0 +1,294 @@
+import {base, signUtil} from "@okxweb3/crypto-lib";
+import * as bitcoin from "./bitcoinjs-lib";
+import {Network, Transaction} from "./bitcoinjs-lib";
+import {OPS} from "./bitcoinjs-lib/ops";
+import {LEAF_VERSION_TAPSCRIPT, MAX_TAPTREE_DEPTH, tapleafHash} from "./bitcoinjs-lib/payments/bip341";
+import {Tapleaf, Taptree} from "./bitcoinjs-lib/types";
+import {privateKeyFromWIF, private2public} from "./txBuild";
+import {TapLeafConfig, TapScriptTx} from "./type";
+
+const schnorr = signUtil.schnorr.secp256k1.schnorr
+
+// BIP-341 NUMS point, an internal key nobody knows the private key of, disabling the key path
+export const TAPROOT_NUMS_PUBKEY = "50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0"
+
+const SEQUENCE_FINAL = 0xffffffff
+const SEQUENCE_LOCKTIME = 0xfffffffe
+const SEQUENCE_DISABLE_FLAG = 0x80000000
+
+export interface TaprootLeaf {
+    script: string
+    leafVersion: number
+    leafHash: string
+    depth: number
+    controlBlock: string
+}
+
+export interface TaprootTree {
+    internalPubkey: string
+    outputKey: string
+    parity: number
+    merkleRoot: string
+    output: string
+    address: string
+    tree: Taptree
+    leaves: TaprootLeaf[] // in the order of the leaf configs, not the tree order
+}
+
+function xOnly(pubkey: string): Buffer {
+    const buf = Buffer.from(base.fromHex(pubkey));
+    if (buf.length === 33) {
+        return buf.slice(1);
+    }
+    if (buf.length !== 32) {
+        throw new Error("invalid taproot public key");
+    }
+    return buf;
+}
+
+// <pubkey> OP_CHECKSIG
+export function checksigScript(pubkey: string): string {
+    return base.toHex(bitcoin.script.compile([xOnly(pubkey), OPS.OP_CHECKSIG]));
+}
+
+// <pubkey1> OP_CHECKSIG <pubkey2> OP_CHECKSIGADD ... <threshold> OP_NUMEQUAL
+export function multisigScript(pubkeys: string[], threshold: number): string {
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > pubkeys.length) {
+        throw new Error("invalid multisig threshold");
+    }
+    const chunks: (Buffer | number)[] = [];
+    pubkeys.forEach((pubkey, i) => chunks.push(xOnly(pubkey), i === 0 ? OPS.OP_CHECKSIG : OPS.OP_CHECKSIGADD));
+    chunks.push(bitcoin.script.number.encode(threshold), OPS.OP_NUMEQUAL);
+    return base.toHex(bitcoin.script.compile(chunks));
+}
+
+// <sequence> OP_CHECKSEQUENCEVERIFY OP_DROP <pubkey> OP_CHECKSIG, spendable `sequence` blocks (BIP-68) after confirmation
+export function csvScript(pubkey: string, sequence: number): string {
+    return base.toHex(bitcoin.script.compile([
+        bitcoin.script.number.encode(sequence), OPS.OP_CHECKSEQUENCEVERIFY, OPS.OP_DROP, xOnly(pubkey), OPS.OP_CHECKSIG
+    ]));
+}
+
+// <locktime> OP_CHECKLOCKTIMEVERIFY OP_DROP <pubkey> OP_CHECKSIG, spendable from block height or time `locktime`
+export function cltvScript(pubkey: string, locktime: number): string {
+    return base.toHex(bitcoin.script.compile([
+        bitcoin.script.number.encode(locktime), OPS.OP_CHECKLOCKTIMEVERIFY, OPS.OP_DROP, xOnly(pubkey), OPS.OP_CHECKSIG
+    ]));
+}
+
+// OP_SHA256 <hash> OP_EQUALVERIFY <pubkey> OP_CHECKSIG, or OP_SHA256 <hash> OP_EQUAL without a key
+export function hashlockScript(sha256: string, pubkey?: string): string {
+    const hash = Buffer.from(base.fromHex(sha256));
+    if (!pubkey) {
+        return base.toHex(bitcoin.script.compile([OPS.OP_SHA256, hash, OPS.OP_EQUAL]));
+    }
+    return base.toHex(bitcoin.script.compile([OPS.OP_SHA256, hash, OPS.OP_EQUALVERIFY, xOnly(pubkey), OPS.OP_CHECKSIG]));
+}
+
+function huffman(leaves: TapLeafConfig[]): { tree: Taptree; nodes: Tapleaf[] } {
+    if (leaves.length === 0) {
+        throw new Error("at least one leaf is required");
+    }
+    const nodes: Tapleaf[] = leaves.map(leaf => ({
+        output: Buffer.from(base.fromHex(leaf.script)),
+        version: leaf.leafVersion || LEAF_VERSION_TAPSCRIPT,
+    }));
+    let order = 0;
+    const queue = leaves.map((leaf, i) => ({
+        weight: leaf.weight !== undefined ? leaf.weight : 1,
+        order: order++,
+        tree: nodes[i] as Taptree,
+    }));
+    if (queue.some(node => !(node.weight > 0))) {
+        throw new Error("leaf weights must be positive");
+    }
+    while (queue.length > 1) {
+        queue.sort((a, b) => a.weight - b.weight || a.order - b.order);
+        const [a, b] = queue.splice(0, 2);
+        queue.push({weight: a.weight + b.weight, order: order++, tree: [a.tree, b.tree]});
+    }
+    return {tree: queue[0].tree, nodes};
+}
+
+// Builds a Huffman tree from the leaves, a leaf's depth shrinks as its weight (spending likelihood) grows.
+export function buildTapTree(leaves: TapLeafConfig[]): Taptree {
+    return huffman(leaves).tree;
+}
+
+function leafDepths(tree: Taptree, depth: number, result: Map<Tapleaf, number>) {
+    if (Array.isArray(tree)) {
+        leafDepths(tree[0], depth + 1, result);
+        leafDepths(tree[1], depth + 1, result);
+    } else {
+        result.set(tree, depth);
+    }
+}
+
+// Derives the output key, address and the control block of every leaf. Without an internal key the
+// NUMS point is used and the output can only be spent through its scripts.
+export function createTaprootTree(leaves: TapLeafConfig[], internalPubkey?: string, network?: Network): TaprootTree {
+    network = network || bitcoin.networks.bitcoin;
+    const internal = xOnly(internalPubkey || TAPROOT_NUMS_PUBKEY);
+    const {tree, nodes} = huffman(leaves);
+    const depths = new Map<Tapleaf, number>();
+    leafDepths(tree, 0, depths);
+    if (Math.max(...depths.values()) > MAX_TAPTREE_DEPTH) {
+        throw new Error("taproot tree is too deep");
+    }
+    const payment = bitcoin.payments.p2tr({internalPubkey: internal, scriptTree: tree, network});
+
+    const taprootLeaves = nodes.map(leaf => {
+        const witness = bitcoin.payments.p2tr({
+            internalPubkey: internal,
+            scriptTree: tree,
+            redeem: {output: leaf.output, redeemVersion: leaf.version},
+            network,
+        }).witness!;
+        return {
+            script: base.toHex(leaf.output),
+            leafVersion: leaf.version!,
+            leafHash: base.toHex(tapleafHash(leaf)),
+            depth: depths.get(leaf)!,
+            controlBlock: base.toHex(witness[witness.length - 1]),
+        };
+    });
+    return {
+        internalPubkey: base.toHex(internal),
+        outputKey: base.toHex(payment.pubkey!),
+        parity: base.fromHex(taprootLeaves[0].controlBlock)[0] & 1,
+        merkleRoot: base.toHex(payment.hash!),
+        output: base.toHex(payment.output!),
+        address: payment.address!,
+        tree,
+        leaves: taprootLeaves,
+    };
+}
+
+interface Timelocks {
+    sequence?: number
+    locktime?: number
+}
+
+// the smallest nSequence and nLockTime satisfying the OP_CHECKSEQUENCEVERIFY and OP_CHECKLOCKTIMEVERIFY of a leaf
+function leafTimelocks(chunks: (Buffer | number)[]): Timelocks {
+    const result: Timelocks = {};
+    chunks.forEach((chunk, i) => {
+        if (i === 0 || (chunk !== OPS.OP_CHECKSEQUENCEVERIFY && chunk !== OPS.OP_CHECKLOCKTIMEVERIFY)) {
+            return;
+        }
+        const previous = chunks[i - 1];
+        const value = typeof previous === "number"
+            ? (previous >= OPS.OP_1 && previous <= OPS.OP_16 ? previous - OPS.OP_1 + 1 : 0)
+            : bitcoin.script.number.decode(previous, 5);
+        if (chunk === OPS.OP_CHECKSEQUENCEVERIFY) {
+            result.sequence = Math.max(result.sequence || 0, value);
+        } else {
+            result.locktime = Math.max(result.locktime || 0, value);
+        }
+    });
+    return result;
+}
+
+// Builds and signs a transaction spending taproot outputs through one leaf each. Each witness is filled from
+// the script: a signature for every key followed by a signature opcode, a preimage for every OP_SHA256 hashlock,
+// an empty element for keys without a private key. Missing nSequence and nLockTime are taken from the CSV/CLTV
+// values of the leaves.
+export function signTapScriptSpend(spendTx: TapScriptTx, network?: Network): string {
+    network = network || bitcoin.networks.bitcoin;
+    const tx = new Transaction();
+    tx.version = spendTx.version || 2;
+
+    let locktime = 0;
+    const leaves = spendTx.inputs.map(input => {
+        const script = Buffer.from(base.fromHex(input.leafScript));
+        const chunks = bitcoin.script.decompile(script);
+        if (!chunks) {
+            throw new Error("invalid leaf script");
+        }
+        const timelocks = leafTimelocks(chunks);
+        let sequence = input.sequence;
+        if (sequence === undefined) {
+            sequence = timelocks.sequence !== undefined ? timelocks.sequence
+                : timelocks.locktime !== undefined ? SEQUENCE_LOCKTIME : SEQUENCE_FINAL;
+        }
+        if (timelocks.sequence !== undefined && (tx.version < 2 || (sequence & SEQUENCE_DISABLE_FLAG) !== 0 || sequence < timelocks.sequence)) {
+            throw new Error("input sequence does not satisfy the relative timelock of the leaf");
+        }
+        if (timelocks.locktime !== undefined) {
+            if (sequence === SEQUENCE_FINAL) {
+                throw new Error("a final input sequence disables the absolute timelock of the leaf");
+            }
+            locktime = Math.max(locktime, timelocks.locktime);
+        }
+        tx.addInput(base.reverseBuffer(Buffer.from(base.fromHex(input.txId))), input.vOut, sequence);
+        const leafVersion = input.leafVersion || LEAF_VERSION_TAPSCRIPT;
+        return {chunks, script, leafVersion, leafHash: tapleafHash({output: script, version: leafVersion})};
+    });
+    if (spendTx.lockTime !== undefined) {
+        if (spendTx.lockTime < locktime) {
+            throw new Error("lockTime does not satisfy the absolute timelock of a leaf");
+        }
+        locktime = spendTx.lockTime;
+    }
+    tx.locktime = locktime;
+
+    const outputs = spendTx.outputs.map(output => ({...output}));
+    outputs.forEach(output => tx.addOutput(bitcoin.address.toOutputScript(output.address, network), output.amount));
+
+    const prevOutScripts = spendTx.inputs.map(input => bitcoin.address.toOutputScript(input.address, network));
+    const values = spendTx.inputs.map(input => input.amount);
+    const sign = () => spendTx.inputs.forEach((input, i) => {
+        const {chunks, script, leafHash} = leaves[i];
+        const hashType = input.sighashType || Transaction.SIGHASH_DEFAULT;
+        const hash = tx.hashForWitnessV1(i, prevOutScripts, values, hashType, leafHash);
+        const keys = new Map<string, string>();
+        (input.privateKeys || []).forEach(key => {
+            const privateKey = privateKeyFromWIF(key, network);
+            keys.set(base.toHex(Buffer.from(private2public(privateKey)).slice(1)), privateKey);
+        });
+
+        // elements are consumed from the top of the stack in script order, so the witness lists them reversed
+        const elements: Buffer[] = [];
+        chunks.forEach((chunk, j) => {
+            const next = chunks[j + 1];
+            if (Buffer.isBuffer(chunk) && chunk.length === 32 &&
+                (next === OPS.OP_CHECKSIG || next === OPS.OP_CHECKSIGVERIFY || next === OPS.OP_CHECKSIGADD)) {
+                const privateKey = keys.get(base.toHex(chunk));
+                if (!privateKey) {
+                    elements.push(Buffer.alloc(0));
+                    return;
+                }
+                const signature = Buffer.from(schnorr.sign(hash, privateKey, base.randomBytes(32)));
+                elements.push(hashType === Transaction.SIGHASH_DEFAULT ? signature : Buffer.concat([signature, Buffer.of(hashType)]));
+            } else if (chunk === OPS.OP_SHA256 && Buffer.isBuffer(next)) {
+                const preimage = (input.preimages || []).find(p => Buffer.from(base.sha256(base.fromHex(p))).equals(next as Buffer));
+                if (!preimage) {
+                    throw new Error("missing preimage of hashlock");
+                }
+                elements.push(Buffer.from(base.fromHex(preimage)));
+            }
+        });
+        tx.ins[i].witness = [...elements.reverse(), script, Buffer.from(base.fromHex(input.controlBlock))];
+    });
+
+    // schnorr signatures have a fixed size, the change is sized from a first signed pass
+    if (spendTx.address && spendTx.feePerB) {
+        const changeScript = bitcoin.address.toOutputScript(spendTx.address, network);
+        tx.addOutput(changeScript, 0);
+        sign();
+        const inputAmount = values.reduce((sum, value) => sum + value, 0);
+        const outputAmount = outputs.reduce((sum, output) => sum + output.amount, 0);
+        const change = inputAmount - outputAmount - Math.ceil(tx.virtualSize() * spendTx.feePerB);
+        if (change > (spendTx.dustSize || 546)) {
+            tx.outs[tx.outs.length - 1].value = change;
+        } else {
+            // dust change is left to the miner, as long as the rest still pays the fee rate
+            tx.outs.pop();
+            if (inputAmount - outputAmount < Math.ceil(tx.virtualSize() * spendTx.feePerB)) {
+                throw new Error("insufficient balance");
+            }
+        }
+    }
+    sign();
+    return tx.toHex();
+}
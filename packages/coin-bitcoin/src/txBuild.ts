@@ -10,6 +10,7 @@ import * as bscript from './bitcoinjs-lib/script';
 import {OPS} from './bitcoinjs-lib/ops';
 import {Stack} from "./bitcoinjs-lib/payments";
 import {countAdjustedVsize} from "./sigcost";
+import {applyCoinSelect} from "./coinselect";
 
 const schnorr = signUtil.schnorr.secp256k1.schnorr
 
@@ -259,6 +260,7 @@ interface Output {
 }
 
 export function signBtc(utxoTx: utxoTx, privateKey: string, network?: bitcoin.Network, hashArray?: string[], hardware?: boolean, changeOnly?: boolean) {
+    utxoTx = applyCoinSelect(utxoTx, network);
     const inputs = utxoTx.inputs;
     const outputs = utxoTx.outputs;
     const changeAddress = utxoTx.address;
@@ -356,6 +358,7 @@ export function getAddressType(address: string, network: bitcoin.Network): Addre
 }
 
 export function signBch(utxoTx: utxoTx, privateKey: string, network?: bitcoin.Network, hashArray?: string[], hardware?: boolean) {
+    utxoTx = applyCoinSelect(utxoTx, network, true);
     const inputs = utxoTx.inputs;
     const outputs = utxoTx.outputs;
     const changeAddress = utxoTx.address;
@@ -393,7 +396,7 @@ export function signBch(utxoTx: utxoTx, privateKey: string, network?: bitcoin.Ne
 }
 
 
-export function calculateTxSize(inputs: [], outputs: [], changeAddress: string, privateKey: string, network: bitcoin.Network, dustSize: Number, hardware?: boolean, memo?: string, pos?: number) {
+export function calculateTxSize(inputs: utxoInput[], outputs: utxoOutput[], changeAddress: string, privateKey: string, network: bitcoin.Network, dustSize: Number, hardware?: boolean, memo?: string, pos?: number) {
     let preTxBuild = new TxBuild(2, network, false, hardware);
     let inputAmount = 0;
     for (let i = 0; i < inputs.length; i++) {
@@ -435,7 +438,7 @@ export function calculateTxSize(inputs: [], outputs: [], changeAddress: string,
     };
 }
 
-export function calculateBchTxSize(inputs: [], outputs: [], changeAddress: string, privateKey: string, network: bitcoin.Network, dustSize: number, hardware?: boolean) {
+export function calculateBchTxSize(inputs: utxoInput[], outputs: utxoOutput[], changeAddress: string, privateKey: string, network: bitcoin.Network, dustSize: number, hardware?: boolean) {
     let preTxBuild = new TxBuild(2, network, true, hardware);
     let inputAmount = 0;
     for (let i = 0; i < inputs.length; i++) {
@@ -579,6 +582,7 @@ export function ValidSignedTransaction(signedTx: string, utxoInputs?: [], networ
 }
 
 export function estimateBtcFee(utxoTx: utxoTx, network?: bitcoin.Network) {
+    utxoTx = applyCoinSelect(utxoTx, network);
     const inputs = utxoTx.inputs;
     const outputs = utxoTx.outputs;
     const feePerB = utxoTx.feePerB || 10;
@@ -592,6 +596,7 @@ export function estimateBtcFee(utxoTx: utxoTx, network?: bitcoin.Network) {
 }
 
 export function estimateBchFee(utxoTx: utxoTx, network?: bitcoin.Network) {
+    utxoTx = applyCoinSelect(utxoTx, network, true);
     const inputs = utxoTx.inputs;
     const outputs = utxoTx.outputs;
     const feePerB = utxoTx.feePerB || 10;
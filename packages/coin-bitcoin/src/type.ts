@@ -11,6 +11,7 @@ type utxoInput = {
     bip32Derivation?: Bip32Derivation[],
     derivationPath?: string,
     sighashType?: number,
+    confirmations?: number, // used by oldest_first coin selection
     data?: any  // xrc20 token info
 }
 
@@ -37,8 +38,8 @@ type omniOutput = {
 }
 
 type utxoTx = {
-    inputs: []
-    outputs: []
+    inputs: utxoInput[]
+    outputs: utxoOutput[]
     address: string   // change address
     feePerB?: number  //  Sat/b
     decimal?: number  // precision: 8 bit
@@ -50,8 +51,72 @@ type utxoTx = {
     memo?: string
     memoPos?: number
     runeData?: RuneData
+    coinSelect?: CoinSelectAlgorithm // treat inputs as a candidate pool and only spend the selected utxos
 }
 
+type MultisigConfig = {
+    publicKeys: string[]   // compressed, hex
+    threshold: number
+    addressType?: "p2sh" | "p2wsh" | "p2sh_p2wsh" // default p2wsh
+    sortKeys?: boolean     // BIP-67 ordering, default true
+}
+
+// replace-by-fee of an unconfirmed transaction
+type RbfTx = {
+    tx: string                 // signed transaction hex, or psbt in base64 or hex
+    inputs?: utxoInput[]       // prevouts of the original inputs, optional for psbt inputs carrying utxo data
+    address: string            // change address, its output absorbs the higher fee
+    feePerB: number            // Sat/b of the replacement
+    extraInputs?: utxoInput[]  // added when the change can not pay for the bump
+    dustSize?: number
+}
+
+// child-pays-for-parent
+type CpfpTx = {
+    parentTx: string           // signed transaction hex
+    vOut: number               // parent output spent by the child
+    address: string            // receives the child output
+    feePerB: number            // Sat/b target of parent and child together
+    parentFee?: number
+    parentInputs?: utxoInput[] // prevouts of the parent, used when parentFee is not given
+    extraInputs?: utxoInput[]
+    sequence?: number
+    dustSize?: number
+}
+
+type TapLeafConfig = {
+    script: string        // hex tapscript
+    weight?: number       // relative spending likelihood, default 1
+    leafVersion?: number  // default 0xc0
+}
+
+// spends an input of a taproot output through one leaf of its script tree
+type TapScriptInput = {
+    txId: string
+    vOut: number
+    amount: number
+    address: string       // the taproot address being spent
+    leafScript: string
+    controlBlock: string
+    leafVersion?: number
+    sequence?: number     // defaults to the CSV value of the leaf
+    sighashType?: number
+    privateKeys?: string[] // WIF keys signing for the keys in the leaf
+    preimages?: string[]   // hex preimages of the hashlocks in the leaf
+}
+
+type TapScriptTx = {
+    inputs: TapScriptInput[]
+    outputs: utxoOutput[]
+    address?: string      // change address, used with feePerB
+    feePerB?: number
+    dustSize?: number
+    lockTime?: number     // defaults to the CLTV value of the leaves
+    version?: number
+}
+
+type CoinSelectAlgorithm = "auto" | "bnb" | "knapsack" | "largest_first" | "oldest_first"
+
 // rune
 type RuneData = {
     edicts?: Edict[]
@@ -157,5 +222,6 @@ type signPsbtOptions = {
 
 export {
     utxoInput, utxoOutput, omniOutput, utxoTx, ListingData, BuyingData, RuneData, Edict,Etching,Terms,
-    Range,Rune,toSignInput, signPsbtOptions
+    Range,Rune,toSignInput, signPsbtOptions, CoinSelectAlgorithm, MultisigConfig, RbfTx, CpfpTx,
+    TapLeafConfig, TapScriptInput, TapScriptTx
 };
\ No newline at end of file
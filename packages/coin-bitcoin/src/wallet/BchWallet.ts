@@ -137,6 +137,32 @@ export class BchWallet extends BtcWallet {
         }
     }
 
+    async selectUtxos(param: SignTxParams): Promise<bitcoin.CoinSelectResult> {
+        try {
+            const utxoTx = convert2UtxoTx(param.data);
+
+            // convert to legacy address for compatibility
+            utxoTx.outputs.forEach((it: any) => {
+                if (bitcoin.isCashAddress(it.address)) {
+                    it.address = bitcoin.convert2LegacyAddress(it.address, this.network())
+                }
+            })
+
+            if (bitcoin.isCashAddress(utxoTx.address)) {
+                utxoTx.address = bitcoin.convert2LegacyAddress(utxoTx.address, this.network())
+            }
+            return Promise.resolve(bitcoin.selectUtxos(utxoTx.inputs, utxoTx.outputs, utxoTx.address, this.network(), {
+                algorithm: utxoTx.coinSelect,
+                feePerB: utxoTx.feePerB,
+                dustSize: utxoTx.dustSize,
+                bitcoinCash: true,
+                memo: utxoTx.memo,
+            }));
+        } catch (e) {
+            return Promise.reject(SignTxError);
+        }
+    }
+
     getAddressByPublicKey(param: GetAddressParams): Promise<string> {
         const publicKey = base.fromHex(param.publicKey);
         const address = bitcoin.GetBitcashP2PkHAddressByPublicKey(publicKey)
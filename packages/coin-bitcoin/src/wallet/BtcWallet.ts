@@ -52,6 +52,7 @@ import {
 
 export const BITCOIN_MESSAGE_ECDSA = 0
 export const BITCOIN_MESSAGE_BIP0322_SIMPLE = 1
+export const BITCOIN_MESSAGE_BIP0322_FULL = 2
 
 export class BtcWallet extends BaseWallet {
 
@@ -133,6 +134,14 @@ export class BtcWallet extends BaseWallet {
         }
     }
 
+    async getMultisigAddress(param: bitcoin.MultisigConfig): Promise<any> {
+        try {
+            return Promise.resolve(bitcoin.getMultisigAddress(param, this.network()));
+        } catch (e) {
+            return Promise.reject(NewAddressError);
+        }
+    }
+
     async validAddress(param: ValidAddressParams): Promise<any> {
         let isValid = false;
         let network = this.network();
@@ -224,6 +233,45 @@ export class BtcWallet extends BaseWallet {
             } catch (e) {
                 return Promise.reject(SignTxError);
             }
+        } else if (type === bitcoin.BtcXrcTypes.PSBT_MULTISIG) { // multisig psbt, partially signed when a private key is given
+            try {
+                const utxoTx = convert2UtxoTx(param.data);
+                let psbt = bitcoin.buildMultisigPsbt(utxoTx, param.data.multisig, this.network());
+                if (param.privateKey) {
+                    psbt = bitcoin.signMultisigPsbt(psbt, param.privateKey, this.network());
+                }
+                return Promise.resolve(psbt);
+            } catch (e) {
+                return Promise.reject(SignTxError);
+            }
+        } else if (type === bitcoin.BtcXrcTypes.PSBT_MULTISIG_COMBINE) { // combine cosigner psbts, finalized once the threshold is met
+            try {
+                const psbt = bitcoin.combineMultisigPsbts(param.data.psbts, this.network());
+                if (bitcoin.missingMultisigSignatures(psbt, this.network()).some(missing => missing > 0)) {
+                    return Promise.resolve({psbt});
+                }
+                return Promise.resolve({psbt, tx: bitcoin.finalizeMultisigPsbt(psbt, this.network())});
+            } catch (e) {
+                return Promise.reject(SignTxError);
+            }
+        } else if (type === bitcoin.BtcXrcTypes.RBF) { // replace an unconfirmed transaction at a higher fee rate
+            try {
+                return Promise.resolve(bitcoin.bumpFee(param.data, param.privateKey, this.network()));
+            } catch (e) {
+                return Promise.reject(SignTxError);
+            }
+        } else if (type === bitcoin.BtcXrcTypes.CPFP) { // child spending an unconfirmed parent output
+            try {
+                return Promise.resolve(bitcoin.cpfp(param.data, param.privateKey, this.network()));
+            } catch (e) {
+                return Promise.reject(SignTxError);
+            }
+        } else if (type === bitcoin.BtcXrcTypes.TAPROOT_SCRIPT_PATH) { // spend taproot outputs through a leaf of their script tree
+            try {
+                return Promise.resolve(bitcoin.signTapScriptSpend(param.data, this.network()));
+            } catch (e) {
+                return Promise.reject(SignTxError);
+            }
         } else if (type === bitcoin.BtcXrcTypes.SRC20) { // src20
             try {
                 return Promise.resolve(bitcoin.srcInscribe(this.network(), param.data));
@@ -401,7 +449,7 @@ export class BtcWallet extends BaseWallet {
     getHardWareRawTransaction(param: SignTxParams): Promise<any> {
         try {
             const type = param.data.type || 0;
-            const utxoTx = convert2UtxoTx(param.data);
+            const utxoTx = bitcoin.applyCoinSelect(convert2UtxoTx(param.data), this.network());
             if (type === 2) { // psbt
                 const change = bitcoin.signBtc(utxoTx, "", this.network(), undefined, true, true);
                 const dustSize = utxoTx.dustSize || 546;
@@ -439,6 +487,11 @@ export class BtcWallet extends BaseWallet {
             let signature;
             if (typedMessage.type === BITCOIN_MESSAGE_ECDSA) {
                 signature = bitcoin.message.sign(param.privateKey, typedMessage.message, this.network());
+            } else if (typedMessage.type === BITCOIN_MESSAGE_BIP0322_FULL) {
+                signature = bitcoin.bip0322.signFull(typedMessage.message, typedMessage.address!, param.privateKey, this.network(), param.data.utxos);
+            } else if (bitcoin.getAddressType(typedMessage.address!, this.network()) === "legacy") {
+                // P2PKH has no witness to carry a simple signature, BIP-322 falls back to the legacy format
+                signature = bitcoin.bip0322.signLegacy(typedMessage.message, typedMessage.address!, param.privateKey, this.network());
             } else {
                 signature = bitcoin.bip0322.signSimple(typedMessage.message, typedMessage.address!, param.privateKey, this.network());
             }
@@ -465,9 +518,13 @@ export class BtcWallet extends BaseWallet {
             if (typedMessage.type === BITCOIN_MESSAGE_ECDSA) {
                 const ret = bitcoin.message.verify(typedMessage.publicKey!, typedMessage.message, param.signature);
                 return Promise.resolve(ret);
-            } else {
+            } else if (typedMessage.type !== BITCOIN_MESSAGE_BIP0322_FULL && typedMessage.publicKey
+                && bitcoin.getAddressType(typedMessage.address!, this.network()) !== "legacy") {
                 const ret = bitcoin.bip0322.verifySimple(typedMessage.message, typedMessage.address!, param.signature, typedMessage.publicKey!, this.network());
                 return Promise.resolve(ret);
+            } else {
+                const ret = bitcoin.bip0322.verify(typedMessage.message, typedMessage.address!, param.signature, this.network(), param.data.utxos);
+                return Promise.resolve(ret);
             }
         } catch (e) {
             return Promise.reject(SignMsgError);
@@ -549,6 +606,20 @@ export class BtcWallet extends BaseWallet {
         }
     }
 
+    async selectUtxos(param: SignTxParams): Promise<bitcoin.CoinSelectResult> {
+        try {
+            const utxoTx = convert2UtxoTx(param.data);
+            return Promise.resolve(bitcoin.selectUtxos(utxoTx.inputs, utxoTx.outputs, utxoTx.address, this.network(), {
+                algorithm: utxoTx.coinSelect,
+                feePerB: utxoTx.feePerB,
+                dustSize: utxoTx.dustSize,
+                memo: utxoTx.memo,
+            }));
+        } catch (e) {
+            return Promise.reject(SignTxError);
+        }
+    }
+
     static async oneKeyBuildBtcTx(txData: bitcoin.utxoTx): Promise<any> {
         try {
             return Promise.resolve(bitcoin.oneKeyBuildBtcTx(txData));
@@ -247,13 +247,10 @@ export class RuneMainWallet extends BtcWallet {
     getMinRuneTx(paramData:any,curRuneInfo:any,curInput:any,curOutput:any): utxoTx {
         const clonedParamData = cloneObject(paramData)
         return {
-            // @ts-ignore
             inputs: [curInput],
-            // @ts-ignore
             outputs: [curOutput],
             address: clonedParamData.address,
             feePerB: clonedParamData.feePerB,
-            RuneData : clonedParamData.runeData,
         }
     }
     async signTransaction(param: SignTxParams): Promise<any> {
@@ -0,0 +1,104 @@
+import {
+    bip0322,
+    BITCOIN_MESSAGE_BIP0322_FULL,
+    BITCOIN_MESSAGE_BIP0322_SIMPLE,
+    BtcWallet,
+    networks,
+    payments,
+    private2Wif,
+    TBtcWallet,
+    Transaction,
+    wif2Public
+} from "../src";
+import {base} from "@okxweb3/crypto-lib";
+
+// test vectors from https://github.com/bitcoin/bips/blob/master/bip-0322.mediawiki
+const vectorAddress = "bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l"
+
+describe("bip0322", () => {
+    const wif = private2Wif(base.fromHex("adce25dc25ef89f06a722abdc4b601d706c9efc6bc84075355e6b96ca3871621"), networks.testnet)
+    const publicKey = wif2Public(wif, networks.testnet)
+    const network = networks.testnet
+    const addresses = {
+        legacy: payments.p2pkh({pubkey: publicKey, network}).address!,
+        native: payments.p2wpkh({pubkey: publicKey, network}).address!,
+        nested: payments.p2sh({redeem: payments.p2wpkh({pubkey: publicKey, network}), network}).address!,
+        taproot: payments.p2tr({internalPubkey: publicKey.slice(1), network}).address!,
+    }
+
+    test("verify spec vectors", async () => {
+        expect(bip0322.verify("", vectorAddress,
+            "AkcwRAIgM2gBAQqvZX15ZiysmKmQpDrG83avLIT492QBzLnQIxYCIBaTpOaD20qRlEylyxFSeEA2ba9YOixpX8z46TSDtS40ASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=")).toBe(true)
+        expect(bip0322.verify("Hello World", vectorAddress,
+            "AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=")).toBe(true)
+        expect(bip0322.verify("Hello World!", vectorAddress,
+            "AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=")).toBe(false)
+    });
+
+    test("simple from address alone", async () => {
+        for (const address of [addresses.native, addresses.nested, addresses.taproot]) {
+            const signature = await bip0322.signSimple("hello world", address, wif, network)
+            expect(bip0322.verify("hello world", address, signature, network)).toBe(true)
+            expect(bip0322.verify("hello world!", address, signature, network)).toBe(false)
+        }
+    });
+
+    test("full", async () => {
+        for (const address of [addresses.legacy, addresses.native, addresses.nested, addresses.taproot]) {
+            const signature = await bip0322.signFull("hello world", address, wif, network)
+            const toSign = Transaction.fromBuffer(Buffer.from(base.fromBase64(signature)))
+            expect(toSign.ins.length).toEqual(1)
+            expect(bip0322.verify("hello world", address, signature, network)).toBe(true)
+            expect(bip0322.verify("hello world!", address, signature, network)).toBe(false)
+        }
+    });
+
+    test("legacy", async () => {
+        const signature = bip0322.signLegacy("hello world", addresses.legacy, wif, network)
+        expect(bip0322.verify("hello world", addresses.legacy, signature, network)).toBe(true)
+        expect(() => bip0322.signLegacy("hello world", addresses.native, wif, network)).toThrow()
+    });
+
+    test("proof of funds", async () => {
+        const utxos = [
+            {
+                txId: "a7881146cc7671ad89dcd1d99015ed7c5e17cfae69eedd01f73f5ab60a6c1318",
+                vOut: 1,
+                amount: 100000,
+                address: addresses.taproot,
+            },
+            {
+                txId: "1e0f92720ef34ab75eefc5d691b551fb2f783eac61503a69cdf63eb7305d2306",
+                vOut: 0,
+                amount: 25000,
+                address: addresses.native,
+            },
+        ]
+        const signature = await bip0322.signFull("proof of reserves", addresses.taproot, wif, network, utxos)
+        const toSign = Transaction.fromBuffer(Buffer.from(base.fromBase64(signature)))
+        expect(toSign.ins.length).toEqual(3)
+        expect(bip0322.verify("proof of reserves", addresses.taproot, signature, network, utxos)).toBe(true)
+        // the taproot sighash commits to every amount
+        expect(bip0322.verify("proof of reserves", addresses.taproot, signature, network,
+            [{...utxos[0], amount: 1}, utxos[1]])).toBe(false)
+        expect(bip0322.verify("proof of reserves", addresses.taproot, signature, network)).toBe(false)
+    });
+
+    test("wallet", async () => {
+        const wallet = new TBtcWallet()
+        for (const address of Object.values(addresses)) {
+            for (const type of [BITCOIN_MESSAGE_BIP0322_SIMPLE, BITCOIN_MESSAGE_BIP0322_FULL]) {
+                const signature = await wallet.signMessage({privateKey: wif, data: {type, message: "hello", address}})
+                const valid = await wallet.verifyMessage({signature, data: {type, message: "hello", address}})
+                expect(valid).toBe(true)
+            }
+        }
+
+        const mainnet = new BtcWallet()
+        const valid = await mainnet.verifyMessage({
+            signature: "AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=",
+            data: {type: BITCOIN_MESSAGE_BIP0322_SIMPLE, message: "Hello World", address: vectorAddress}
+        })
+        expect(valid).toBe(true)
+    });
+});
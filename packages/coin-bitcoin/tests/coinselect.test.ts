@@ -0,0 +1,117 @@
+import {BchWallet, networks, selectUtxos, TBtcWallet, Transaction, utxoInput} from "../src";
+import {SignTxParams} from "@okxweb3/coin-base";
+
+const address = "tb1qjph0dpexkz6wg36sz5xygj2qjehm4yc3628yst"
+const privateKey = "cNtoPYke9Dhqoa463AujyLzeas8pa6S15BG1xDSRnVmcwbS9w7rS"
+
+const txId = "a7881146cc7671ad89dcd1d99015ed7c5e17cfae69eedd01f73f5ab60a6c1318"
+
+describe("coin select", () => {
+    const pool: utxoInput[] = [
+        {txId, vOut: 0, amount: 5000, address, confirmations: 100},
+        {txId, vOut: 1, amount: 20000, address, confirmations: 3},
+        {txId, vOut: 2, amount: 80000, address, confirmations: 1},
+        {txId, vOut: 3, amount: 12000, address, confirmations: 50},
+    ]
+    const outputs = [{address: "tb1qjph0dpexkz6wg36sz5xygj2qjehm4yc3628yst", amount: 30000}]
+
+    test("largest_first", async () => {
+        const res = selectUtxos(pool, outputs, address, networks.testnet, {algorithm: "largest_first", feePerB: 2})
+        expect(res.inputs.map(i => i.vOut)).toEqual([2])
+        expect(res.change).toBeGreaterThan(0)
+        expect(res.fee + res.change + 30000).toEqual(80000)
+        expect(res.outputs.length).toEqual(2)
+    })
+
+    test("oldest_first", async () => {
+        const res = selectUtxos(pool, outputs, address, networks.testnet, {algorithm: "oldest_first", feePerB: 2})
+        expect(res.inputs.map(i => i.vOut)).toEqual([0, 3, 1])
+        expect(res.fee + res.change + 30000).toEqual(37000)
+    })
+
+    test("bnb changeless", async () => {
+        // 12000 + 20000 covers the output plus the fee, leaving less than the change would cost
+        const res = selectUtxos(pool, [{address, amount: 31800}], address, networks.testnet, {algorithm: "bnb", feePerB: 1})
+        expect(res.inputs.map(i => i.vOut).sort()).toEqual([1, 3])
+        expect(res.change).toEqual(0)
+        expect(res.outputs.length).toEqual(1)
+        expect(res.fee).toEqual(200)
+    })
+
+    test("bnb without match", async () => {
+        expect(() => selectUtxos(pool, [{address, amount: 50000}], address, networks.testnet, {algorithm: "bnb", feePerB: 1})).toThrow("insufficient balance")
+    })
+
+    test("knapsack", async () => {
+        // the smaller utxos can not cover the target, the lowest larger one is picked instead of the largest
+        let res = selectUtxos([
+            {txId, vOut: 0, amount: 5000, address},
+            {txId, vOut: 1, amount: 12000, address},
+            {txId, vOut: 2, amount: 80000, address},
+            {txId, vOut: 3, amount: 50000, address},
+        ], outputs, address, networks.testnet, {algorithm: "knapsack", feePerB: 2})
+        expect(res.inputs.map(i => i.vOut)).toEqual([3])
+        expect(res.fee + res.change + 30000).toEqual(50000)
+
+        // every p2pkh input costs 148 and the transaction 41, vOut 0 and 1 sum up to the target exactly
+        const legacy = "mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn"
+        res = selectUtxos([
+            {txId, vOut: 0, amount: 10000, address: legacy},
+            {txId, vOut: 1, amount: 20337, address: legacy},
+            {txId, vOut: 2, amount: 90000, address: legacy},
+        ], outputs, address, networks.testnet, {algorithm: "knapsack", feePerB: 1})
+        expect(res.inputs.map(i => i.vOut)).toEqual([0, 1])
+        expect(res.change).toEqual(0)
+        expect(res.fee).toEqual(337)
+    })
+
+    test("insufficient balance", async () => {
+        expect(() => selectUtxos(pool, [{address, amount: 200000}], address, networks.testnet)).toThrow("insufficient balance")
+    })
+
+    test("signTransaction with coinSelect", async () => {
+        const wallet = new TBtcWallet()
+        const signParams: SignTxParams = {
+            privateKey,
+            data: {
+                inputs: pool,
+                outputs,
+                address,
+                feePerB: 2,
+                coinSelect: "largest_first",
+            }
+        };
+        const tx = Transaction.fromHex(await wallet.signTransaction(signParams))
+        expect(tx.ins.length).toEqual(1)
+        expect(tx.ins[0].index).toEqual(2)
+
+        const selected = await wallet.selectUtxos(signParams)
+        expect(tx.outs.map(o => o.value)).toEqual(selected.outputs.map(o => o.amount))
+        const fee = await wallet.estimateFee(signParams)
+        expect(fee).toEqual(selected.fee)
+    })
+
+    test("bch", async () => {
+        const wallet = new BchWallet()
+        const bchAddress = (await wallet.getNewAddress({privateKey: "L1vSc9DuBDeVkbiS79mJ441FNAYArcYp9A1c5ZJC5qVhLiuiopmK"})).address
+        const data = {
+            inputs: [
+                {txId: "a7881146cc7671ad89dcd1d99015ed7c5e17cfae69eedd01f73f5ab60a6c1318", vOut: 0, amount: 3000},
+                {txId: "a7881146cc7671ad89dcd1d99015ed7c5e17cfae69eedd01f73f5ab60a6c1318", vOut: 1, amount: 90000},
+            ],
+            outputs: [{address: bchAddress, amount: 20000}],
+            address: bchAddress,
+            feePerB: 1,
+            coinSelect: "largest_first",
+        }
+        const res = await wallet.selectUtxos({privateKey: "", data})
+        expect(res.inputs.map(i => i.vOut)).toEqual([1])
+        // one p2pkh input, two p2pkh outputs
+        expect(res.fee).toEqual(226)
+
+        // the OP_RETURN output of the memo is paid for
+        const withMemo = await wallet.selectUtxos({privateKey: "", data: {...data, memo: "hello"}})
+        expect(withMemo.fee).toEqual(226 + 16)
+        expect(withMemo.change).toEqual(res.change - 16)
+    })
+});
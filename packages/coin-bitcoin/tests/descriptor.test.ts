@@ -0,0 +1,127 @@
+import {
+    descriptorChecksum,
+    deriveDescriptor,
+    deriveDescriptorAddress,
+    getMultisigAddress,
+    isRangeDescriptor,
+    networks,
+    parseDescriptor,
+    payments,
+    psbt,
+    script,
+    serializeDescriptor,
+    updatePsbtWithDescriptors
+} from "../src";
+import {base, bip32, bip39} from "@okxweb3/crypto-lib";
+
+const mnemonic = "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about"
+
+describe("descriptor", () => {
+    let root: ReturnType<typeof bip32.fromSeed>
+    const account = (purpose: number) => root.derivePath(`m/${purpose}'/0'/0'`).neutered().toBase58()
+
+    beforeAll(async () => {
+        root = bip32.fromSeed(Buffer.from(await bip39.mnemonicToSeed(mnemonic)))
+    })
+
+    test("checksum", async () => {
+        // BIP-380 test vectors
+        expect(descriptorChecksum("raw(deadbeef)")).toEqual("89f8spxm")
+        expect(() => parseDescriptor("pkh(02c6047f9441ed7d6d3045406e95c07cd85c778e4b8cef3ca7abac09b95c709ee5)#aaaaaaaa")).toThrow("checksum")
+        const desc = "pkh(02c6047f9441ed7d6d3045406e95c07cd85c778e4b8cef3ca7abac09b95c709ee5)"
+        expect(serializeDescriptor(parseDescriptor(desc))).toEqual(`${desc}#${descriptorChecksum(desc)}`)
+    });
+
+    test("bip84 and bip86", async () => {
+        expect(base.toHex(root.fingerprint)).toEqual("73c5da0a")
+        const wpkh = `wpkh([73c5da0a/84h/0h/0h]${account(84)}/0/*)`
+        expect(isRangeDescriptor(wpkh)).toBe(true)
+        expect(deriveDescriptorAddress(wpkh, 0)).toEqual("bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu")
+        expect(deriveDescriptorAddress(wpkh, 1)).toEqual("bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g")
+
+        const tr = `tr([73c5da0a/86'/0'/0']${account(86)}/0/*)`
+        const derived = deriveDescriptor(tr, 0)
+        expect(derived.address).toEqual("bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr")
+        expect(derived.tapBip32Derivation[0].path).toEqual("m/86'/0'/0'/0/0")
+        expect(derived.tapBip32Derivation[0].leafHashes).toEqual([])
+
+        // serializing normalizes hardened markers and keeps the key origin
+        expect(serializeDescriptor(parseDescriptor(wpkh)).split("#")[0]).toEqual(`wpkh([73c5da0a/84'/0'/0']${account(84)}/0/*)`)
+    });
+
+    test("script types", async () => {
+        const child = root.derivePath("m/49'/0'/0'/0/3")
+        const sh = deriveDescriptor(`sh(wpkh([73c5da0a/49'/0'/0']${account(49)}/0/*))`, 3)
+        expect(sh.address).toEqual(payments.p2sh({redeem: payments.p2wpkh({pubkey: child.publicKey})}).address)
+        expect(sh.redeemScript).toEqual(payments.p2wpkh({pubkey: child.publicKey}).output)
+        expect(sh.bip32Derivation[0].path).toEqual("m/49'/0'/0'/0/3")
+
+        const pkh = deriveDescriptor(`pkh(${base.toHex(child.publicKey)})`, 0, networks.testnet)
+        expect(pkh.address).toEqual(payments.p2pkh({pubkey: child.publicKey, network: networks.testnet}).address)
+
+        // hardened steps need the private key
+        expect(() => parseDescriptor(`wpkh(${account(84)}/0'/*)`)).toThrow("hardened")
+        const xprv = root.derivePath("m/84'/0'/0'").toBase58()
+        expect(deriveDescriptorAddress(`wpkh(${xprv}/0/*)`, 0)).toEqual("bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu")
+        expect(() => parseDescriptor(`wpkh(04${"11".repeat(64)})`)).toThrow()
+    });
+
+    test("sortedmulti", async () => {
+        const keys = [0, 1, 2].map(i => base.toHex(root.derivePath(`m/48'/0'/0'/2'/0/${i}`).publicKey))
+        const desc = `wsh(sortedmulti(2,${keys.join(",")}))`
+        const derived = deriveDescriptor(desc)
+        expect(derived.address).toEqual(getMultisigAddress({publicKeys: keys, threshold: 2}).address)
+        expect(derived.bip32Derivation.length).toEqual(3)
+
+        const unsorted = deriveDescriptor(`sh(wsh(multi(2,${keys.reverse().join(",")})))`)
+        expect(unsorted.address).not.toEqual(getMultisigAddress({publicKeys: keys, threshold: 2, addressType: "p2sh_p2wsh"}).address)
+        expect(unsorted.address).toEqual(getMultisigAddress({publicKeys: keys, threshold: 2, addressType: "p2sh_p2wsh", sortKeys: false}).address)
+        expect(() => parseDescriptor(`wsh(multi(4,${keys.join(",")}))`)).toThrow()
+    });
+
+    test("tr script tree", async () => {
+        const internal = root.derivePath("m/86'/0'/0'/0/0").publicKey.slice(1)
+        const a = root.derivePath("m/86'/0'/0'/0/1").publicKey.slice(1)
+        const b = root.derivePath("m/86'/0'/0'/0/2").publicKey.slice(1)
+        const desc = `tr(${base.toHex(internal)},{pk(${base.toHex(a)}),{pk(${base.toHex(b)}),multi_a(1,${base.toHex(a)},${base.toHex(b)})}})`
+        const derived = deriveDescriptor(desc)
+
+        const leafA = {output: script.compile([a, script.OPS.OP_CHECKSIG])}
+        const leafB = {output: script.compile([b, script.OPS.OP_CHECKSIG])}
+        const leafMulti = {output: script.fromASM(`${base.toHex(a)} OP_CHECKSIG ${base.toHex(b)} OP_CHECKSIGADD OP_1 OP_NUMEQUAL`)}
+        const expected = payments.p2tr({internalPubkey: internal, scriptTree: [leafA, [leafB, leafMulti]]})
+        expect(derived.address).toEqual(expected.address)
+        expect(derived.tapMerkleRoot).toEqual(expected.hash)
+        expect(derived.tapLeaves!.map(l => l.depth)).toEqual([1, 2, 2])
+        // key a appears in two leaves
+        expect(derived.tapBip32Derivation.find(d => d.pubkey.equals(a))!.leafHashes.length).toEqual(2)
+        expect(serializeDescriptor(parseDescriptor(desc)).split("#")[0]).toEqual(desc)
+        expect(() => parseDescriptor(`tr(${base.toHex(internal)},{pkh(${base.toHex(a)})})`)).toThrow()
+    });
+
+    test("psbt bip32Derivation", async () => {
+        const receive = `wpkh([73c5da0a/84'/0'/0']${account(84)}/0/*)`
+        const change = `wpkh([73c5da0a/84'/0'/0']${account(84)}/1/*)`
+        const tr = `tr([73c5da0a/86'/0'/0']${account(86)}/0/*)`
+
+        const p = new psbt.Psbt()
+        p.addInput({
+            hash: "a7881146cc7671ad89dcd1d99015ed7c5e17cfae69eedd01f73f5ab60a6c1318",
+            index: 0,
+            witnessUtxo: {script: deriveDescriptor(receive, 5).output, value: 100000},
+        })
+        p.addOutput({script: deriveDescriptor(tr, 2).output, value: 40000})
+        p.addOutput({script: deriveDescriptor(change, 3).output, value: 59000})
+        p.addOutput({script: payments.p2wpkh({pubkey: root.derivePath("m/84'/0'/1'/0/0").publicKey}).output!, value: 500})
+
+        const updated = psbt.Psbt.fromBase64(updatePsbtWithDescriptors(p.toBase64(), [receive, change, tr], undefined, 10))
+        const input = updated.data.inputs[0].bip32Derivation![0]
+        expect(input.path).toEqual("m/84'/0'/0'/0/5")
+        expect(base.toHex(input.masterFingerprint)).toEqual("73c5da0a")
+        expect(input.pubkey).toEqual(root.derivePath("m/84'/0'/0'/0/5").publicKey)
+        expect(updated.data.outputs[0].tapBip32Derivation![0].path).toEqual("m/86'/0'/0'/0/2")
+        expect(updated.data.outputs[0].tapInternalKey).toBeDefined()
+        expect(updated.data.outputs[1].bip32Derivation![0].path).toEqual("m/84'/0'/0'/1/3")
+        expect(updated.data.outputs[2].bip32Derivation).toBeUndefined()
+    });
+});
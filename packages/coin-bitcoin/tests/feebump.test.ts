@@ -0,0 +1,99 @@
+import {bumpFee, BtcXrcTypes, cpfp, networks, psbt, signBtc, TBtcWallet, Transaction, utxoInput} from "../src";
+import {address as btcAddress} from "../src/bitcoinjs-lib";
+
+const network = networks.testnet
+const address = "tb1qjph0dpexkz6wg36sz5xygj2qjehm4yc3628yst"
+const recipient = "tb1pnxu8mvv63dujgydwt0l5s0ly8lmgmef3355x4t7s2n568k5cryxqfk78kq"
+const privateKey = "cNtoPYke9Dhqoa463AujyLzeas8pa6S15BG1xDSRnVmcwbS9w7rS"
+
+const txId = "a7881146cc7671ad89dcd1d99015ed7c5e17cfae69eedd01f73f5ab60a6c1318"
+
+function fee(tx: Transaction, inputs: utxoInput[]): number {
+    return inputs.reduce((sum, i) => sum + i.amount, 0) - tx.outs.reduce((sum, o) => sum + o.value, 0)
+}
+
+describe("fee bump", () => {
+    const inputs: utxoInput[] = [{txId, vOut: 0, amount: 100000, address, sequence: 0xfffffffd}]
+    const original = signBtc({
+        inputs: inputs,
+        outputs: [{address: recipient, amount: 30000}],
+        address,
+        feePerB: 2,
+    }, privateKey, network)
+    const originalTx = Transaction.fromHex(original)
+
+    test("rbf shrinks change", async () => {
+        const res = bumpFee({tx: original, inputs, address, feePerB: 10}, privateKey, network)
+        const tx = Transaction.fromHex(res.tx)
+        expect(tx.ins.length).toEqual(1)
+        expect(tx.ins[0].sequence).toEqual(0xfffffffd)
+        expect(tx.outs[0]).toEqual(originalTx.outs[0])
+        expect(tx.outs[1].value).toBeLessThan(originalTx.outs[1].value)
+        expect(fee(tx, inputs)).toEqual(res.fee)
+        expect(res.fee).toBeGreaterThanOrEqual(tx.virtualSize() * 10)
+        expect(res.fee).toBeGreaterThanOrEqual(fee(originalTx, inputs) + tx.virtualSize())
+    });
+
+    test("rbf adds inputs", async () => {
+        const small: utxoInput[] = [{txId, vOut: 1, amount: 30500, address, sequence: 0}]
+        const tx = signBtc({inputs: small, outputs: [{address: recipient, amount: 30000}], address, feePerB: 2}, privateKey, network)
+        expect(Transaction.fromHex(tx).outs.length).toEqual(1)
+        expect(() => bumpFee({tx, inputs: small, address, feePerB: 10}, privateKey, network)).toThrow("insufficient balance")
+
+        const extra = [{txId, vOut: 2, amount: 2000, address}, {txId, vOut: 3, amount: 50000, address}]
+        const res = bumpFee({tx, inputs: small, address, feePerB: 10, extraInputs: extra}, privateKey, network)
+        const replacement = Transaction.fromHex(res.tx)
+        expect(replacement.ins.map(i => i.index)).toEqual([1, 3])
+        expect(replacement.ins[1].sequence).toEqual(0xfffffffd)
+        expect(replacement.outs[0].value).toEqual(30000)
+        expect(fee(replacement, [small[0], extra[1]])).toEqual(res.fee)
+    });
+
+    test("rbf requires signaling", async () => {
+        const final = signBtc({inputs: [{txId, vOut: 0, amount: 100000, address}], outputs: [{address: recipient, amount: 30000}], address, feePerB: 2}, privateKey, network)
+        expect(() => bumpFee({tx: final, inputs: [{txId, vOut: 0, amount: 100000, address}], address, feePerB: 10}, privateKey, network)).toThrow("replaceability")
+    });
+
+    test("rbf psbt", async () => {
+        const p = new psbt.Psbt({network})
+        p.addInput({
+            hash: inputs[0].txId,
+            index: 0,
+            sequence: 0xfffffffd,
+            witnessUtxo: {script: btcAddress.toOutputScript(address, network), value: 100000},
+        })
+        p.addOutput({address: recipient, value: 30000})
+        p.addOutput({address, value: 69700})
+        const res = bumpFee({tx: p.toBase64(), address, feePerB: 5}, "", network)
+        const replacement = psbt.Psbt.fromBase64(res.tx, {network})
+        expect(replacement.data.inputs[0].witnessUtxo!.value).toEqual(100000)
+        expect(replacement.txOutputs[0].value).toEqual(30000)
+        expect(replacement.txOutputs[1].value).toEqual(100000 - 30000 - res.fee)
+        expect(res.fee).toBeGreaterThanOrEqual(300 + res.virtualSize)
+    });
+
+    test("cpfp", async () => {
+        const parentFee = fee(originalTx, inputs)
+        const res = cpfp({parentTx: original, vOut: 1, address, feePerB: 20, parentInputs: inputs}, privateKey, network)
+        const child = Transaction.fromHex(res.tx)
+        expect(child.ins[0].hash.reverse().toString("hex")).toEqual(originalTx.getId())
+        expect(child.outs.length).toEqual(1)
+        expect(originalTx.outs[1].value - child.outs[0].value).toEqual(res.fee)
+        expect((parentFee + res.fee) / (originalTx.virtualSize() + child.virtualSize())).toBeGreaterThanOrEqual(20)
+
+        expect(() => cpfp({parentTx: original, vOut: 1, address, feePerB: 20}, privateKey, network)).toThrow("parentFee")
+    });
+
+    test("wallet", async () => {
+        const wallet = new TBtcWallet()
+        const res = await wallet.signTransaction({
+            privateKey,
+            data: {type: BtcXrcTypes.RBF, tx: original, inputs, address, feePerB: 10}
+        })
+        expect(Transaction.fromHex(res.tx).ins[0].index).toEqual(0)
+        await expect(wallet.signTransaction({
+            privateKey,
+            data: {type: BtcXrcTypes.CPFP, parentTx: original, vOut: 5, address, feePerB: 10, parentFee: 300}
+        })).rejects.toBeDefined()
+    });
+});
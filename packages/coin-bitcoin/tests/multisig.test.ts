@@ -0,0 +1,125 @@
+import {
+    address as btcAddress,
+    BtcXrcTypes,
+    buildMultisigPsbt,
+    combineMultisigPsbts,
+    finalizeMultisigPsbt,
+    getMultisigAddress,
+    missingMultisigSignatures,
+    MultisigConfig,
+    networks,
+    private2Wif,
+    script,
+    signMultisigPsbt,
+    TBtcWallet,
+    Transaction,
+    wif2Public
+} from "../src";
+import {base} from "@okxweb3/crypto-lib";
+
+describe("multisig", () => {
+    const network = networks.testnet
+    const privateKeys = [
+        "adce25dc25ef89f06a722abdc4b601d706c9efc6bc84075355e6b96ca3871621",
+        "853fd8960ff34838208d662ecd3b9f8cf413e13e0f74f95e554f8089f5058db0",
+        "c3c2ff6dcd1a1a4c7fe2d5c6dd5d3fb4c4a0b2ca1b9b2e4b3b0d3a8b4f1e2d3c",
+    ].map(key => private2Wif(base.fromHex(key), network))
+    const publicKeys = privateKeys.map(key => base.toHex(wif2Public(key, network)))
+
+    test("bip67 vector", async () => {
+        const res = getMultisigAddress({
+            publicKeys: [
+                "02ff12471208c14bd580709cb2358d98975247d8765f92bc25eab3b2763ed605f8",
+                "02fe6f0a5a297eb38c391581c4413e084773ea23954d93f7753db7dc0adc188b2f",
+            ],
+            threshold: 2,
+            addressType: "p2sh",
+        })
+        expect(res.redeemScript).toEqual("522102fe6f0a5a297eb38c391581c4413e084773ea23954d93f7753db7dc0adc188b2f2102ff12471208c14bd580709cb2358d98975247d8765f92bc25eab3b2763ed605f852ae")
+        expect(res.address).toEqual("39bgKC7RFbpoCRbtD5KEdkYKtNyhpsNa3Z")
+    });
+
+    test("key order does not matter", async () => {
+        const a = getMultisigAddress({publicKeys, threshold: 2}, network)
+        const b = getMultisigAddress({publicKeys: publicKeys.slice().reverse(), threshold: 2}, network)
+        expect(a.address).toEqual(b.address)
+        expect(a.address.startsWith("tb1q")).toBe(true)
+        expect(() => getMultisigAddress({publicKeys, threshold: 4}, network)).toThrow()
+    });
+
+    for (const addressType of ["p2sh", "p2wsh", "p2sh_p2wsh"] as const) {
+        test(`2-of-3 ${addressType}`, async () => {
+            const config: MultisigConfig = {publicKeys, threshold: 2, addressType}
+            const {address} = getMultisigAddress(config, network)
+
+            // previous transaction paying to the multisig address
+            const prevTx = new Transaction()
+            prevTx.addInput(Buffer.alloc(32, 1), 0)
+            prevTx.addOutput(Buffer.from(base.fromHex("0014" + "11".repeat(20))), 1000)
+            prevTx.addOutput(btcAddress.toOutputScript(address, network), 100000)
+
+            const unsigned = buildMultisigPsbt({
+                inputs: [{
+                    txId: prevTx.getId(),
+                    vOut: 1,
+                    amount: 100000,
+                    nonWitnessUtxo: prevTx.toHex(),
+                }],
+                outputs: [{address: "tb1qjph0dpexkz6wg36sz5xygj2qjehm4yc3628yst", amount: 40000}],
+                address: address,
+                feePerB: 2,
+            }, config, network)
+            expect(missingMultisigSignatures(unsigned, network)).toEqual([2])
+
+            const signed1 = signMultisigPsbt(unsigned, privateKeys[0], network)
+            const signed3 = signMultisigPsbt(unsigned, privateKeys[2], network)
+            expect(missingMultisigSignatures(signed1, network)).toEqual([1])
+            expect(() => finalizeMultisigPsbt(signed1, network)).toThrow("multisig threshold not met")
+
+            const combined = combineMultisigPsbts([signed1, signed3], network)
+            expect(missingMultisigSignatures(combined, network)).toEqual([0])
+            const tx = Transaction.fromHex(finalizeMultisigPsbt(combined, network))
+            expect(tx.outs.length).toEqual(2)
+            expect(tx.outs[1].value).toBeGreaterThan(59000)
+            const fee = 100000 - tx.outs[0].value - tx.outs[1].value
+            // the estimate assumes maximal signatures and never under-pays
+            expect(fee).toBeGreaterThanOrEqual(tx.virtualSize() * 2)
+            expect(fee).toBeLessThan(tx.virtualSize() * 2 + 10)
+
+            // every cosigner signed, only the threshold number of signatures goes into the script
+            const signed2 = signMultisigPsbt(unsigned, privateKeys[1], network)
+            const all = combineMultisigPsbts([signed1, signed2, signed3], network)
+            expect(missingMultisigSignatures(all, network)).toEqual([0])
+            const allTx = Transaction.fromHex(finalizeMultisigPsbt(all, network))
+            // OP_0, two signatures and the script
+            const stack = addressType === "p2sh" ? script.decompile(allTx.ins[0].script)! : allTx.ins[0].witness
+            expect(stack.length).toEqual(4)
+            expect(allTx.outs).toEqual(tx.outs)
+        });
+    }
+
+    test("wallet", async () => {
+        const wallet = new TBtcWallet()
+        const multisig: MultisigConfig = {publicKeys, threshold: 2}
+        const {address} = await wallet.getMultisigAddress(multisig)
+        const data = {
+            type: BtcXrcTypes.PSBT_MULTISIG,
+            inputs: [{
+                txId: "a7881146cc7671ad89dcd1d99015ed7c5e17cfae69eedd01f73f5ab60a6c1318",
+                vOut: 0,
+                amount: 100000,
+            }],
+            outputs: [{address: "tb1qjph0dpexkz6wg36sz5xygj2qjehm4yc3628yst", amount: 40000}],
+            address,
+            feePerB: 2,
+            multisig,
+        }
+        const psbt1 = await wallet.signTransaction({privateKey: privateKeys[1], data})
+        const psbt2 = await wallet.signTransaction({privateKey: privateKeys[2], data})
+
+        let res = await wallet.signTransaction({privateKey: "", data: {type: BtcXrcTypes.PSBT_MULTISIG_COMBINE, psbts: [psbt1]}})
+        expect(res.tx).toBeUndefined()
+        res = await wallet.signTransaction({privateKey: "", data: {type: BtcXrcTypes.PSBT_MULTISIG_COMBINE, psbts: [psbt1, psbt2]}})
+        expect(Transaction.fromHex(res.tx).ins[0].witness.length).toEqual(4)
+    });
+});
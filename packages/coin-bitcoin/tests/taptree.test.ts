@@ -0,0 +1,178 @@
+import {
+    BtcXrcTypes,
+    checksigScript,
+    cltvScript,
+    createTaprootTree,
+    csvScript,
+    hashlockScript,
+    multisigScript,
+    networks,
+    payments,
+    private2Wif,
+    signTapScriptSpend,
+    TAPROOT_NUMS_PUBKEY,
+    TBtcWallet,
+    Transaction,
+    wif2Public
+} from "../src";
+import {rootHashFromPath, tapleafHash} from "../src/bitcoinjs-lib/payments/bip341";
+import {base, signUtil} from "@okxweb3/crypto-lib";
+
+const schnorr = signUtil.schnorr.secp256k1.schnorr
+const network = networks.testnet
+
+describe("taproot script tree", () => {
+    const keys = [
+        "adce25dc25ef89f06a722abdc4b601d706c9efc6bc84075355e6b96ca3871621",
+        "853fd8960ff34838208d662ecd3b9f8cf413e13e0f74f95e554f8089f5058db0",
+        "c3c2ff6dcd1a1a4c7fe2d5c6dd5d3fb4c4a0b2ca1b9b2e4b3b0d3a8b4f1e2d3c",
+    ].map(key => private2Wif(base.fromHex(key), network))
+    const pubkeys = keys.map(key => base.toHex(wif2Public(key, network).slice(1)))
+    const preimage = "68656c6c6f"
+    const leaves = [
+        {script: multisigScript([pubkeys[0], pubkeys[1]], 2), weight: 10},
+        {script: csvScript(pubkeys[2], 144)},
+        {script: cltvScript(pubkeys[2], 800000)},
+        {script: hashlockScript(base.toHex(base.sha256(base.fromHex(preimage))), pubkeys[1])},
+    ]
+    const tree = createTaprootTree(leaves, pubkeys[2], network)
+
+    function spend(leaf: number, extra: any = {}, privateKeys = [keys[2]]) {
+        return Transaction.fromHex(signTapScriptSpend({
+            inputs: [{
+                txId: "a7881146cc7671ad89dcd1d99015ed7c5e17cfae69eedd01f73f5ab60a6c1318",
+                vOut: 0,
+                amount: 100000,
+                address: tree.address,
+                leafScript: tree.leaves[leaf].script,
+                controlBlock: tree.leaves[leaf].controlBlock,
+                privateKeys,
+                ...extra,
+            }],
+            outputs: [{address: "tb1qjph0dpexkz6wg36sz5xygj2qjehm4yc3628yst", amount: 90000}],
+        }, network))
+    }
+
+    function verify(tx: Transaction, signature: Buffer, pubkey: string, leaf: number) {
+        const hash = tx.hashForWitnessV1(0, [base.fromHex(tree.output)], [100000], Transaction.SIGHASH_DEFAULT,
+            base.fromHex(tree.leaves[leaf].leafHash))
+        return schnorr.verify(base.toHex(signature), base.toHex(hash), pubkey)
+    }
+
+    test("tree", async () => {
+        // the heavy leaf sits next to the root
+        expect(tree.leaves.map(l => l.depth)).toEqual([1, 3, 3, 2])
+        const expected = payments.p2tr({internalPubkey: base.fromHex(pubkeys[2]), scriptTree: tree.tree, network})
+        expect(tree.address).toEqual(expected.address)
+        expect(tree.outputKey).toEqual(base.toHex(expected.pubkey!))
+        for (const leaf of tree.leaves) {
+            const controlBlock = base.fromHex(leaf.controlBlock)
+            expect(controlBlock.length).toEqual(33 + 32 * leaf.depth)
+            expect(controlBlock[0] & 1).toEqual(tree.parity)
+            const root = rootHashFromPath(controlBlock, tapleafHash({output: base.fromHex(leaf.script)}))
+            expect(base.toHex(root)).toEqual(tree.merkleRoot)
+        }
+
+        const nums = createTaprootTree([{script: checksigScript(pubkeys[0])}])
+        expect(nums.internalPubkey).toEqual(TAPROOT_NUMS_PUBKEY)
+        expect(nums.leaves[0].depth).toEqual(0)
+    });
+
+    test("multisig leaf", async () => {
+        const tx = spend(0, {}, [keys[0], keys[1]])
+        const witness = tx.ins[0].witness
+        expect(witness.length).toEqual(4)
+        // the first key of the script is checked first, its signature sits on top of the stack
+        expect(verify(tx, witness[1], pubkeys[0], 0)).toBe(true)
+        expect(verify(tx, witness[0], pubkeys[1], 0)).toBe(true)
+        expect(base.toHex(witness[3])).toEqual(tree.leaves[0].controlBlock)
+
+        const partial = spend(0, {}, [keys[0]])
+        expect(partial.ins[0].witness[0].length).toEqual(0)
+    });
+
+    test("csv leaf", async () => {
+        const tx = spend(1)
+        expect(tx.version).toEqual(2)
+        expect(tx.ins[0].sequence).toEqual(144)
+        expect(tx.locktime).toEqual(0)
+        expect(verify(tx, tx.ins[0].witness[0], pubkeys[2], 1)).toBe(true)
+        expect(() => spend(1, {sequence: 10})).toThrow("relative timelock")
+    });
+
+    test("cltv leaf", async () => {
+        const tx = spend(2)
+        expect(tx.locktime).toEqual(800000)
+        expect(tx.ins[0].sequence).toEqual(0xfffffffe)
+        expect(verify(tx, tx.ins[0].witness[0], pubkeys[2], 2)).toBe(true)
+        expect(() => spend(2, {sequence: 0xffffffff})).toThrow("absolute timelock")
+    });
+
+    test("hashlock leaf", async () => {
+        const tx = spend(3, {preimages: [preimage]}, [keys[1]])
+        const witness = tx.ins[0].witness
+        expect(witness.length).toEqual(4)
+        expect(verify(tx, witness[0], pubkeys[1], 3)).toBe(true)
+        expect(base.toHex(witness[1])).toEqual(preimage)
+        expect(() => spend(3, {}, [keys[1]])).toThrow("preimage")
+    });
+
+    test("change", async () => {
+        const input = {
+            txId: "a7881146cc7671ad89dcd1d99015ed7c5e17cfae69eedd01f73f5ab60a6c1318",
+            vOut: 0,
+            amount: 100000,
+            address: tree.address,
+            leafScript: tree.leaves[1].script,
+            controlBlock: tree.leaves[1].controlBlock,
+            privateKeys: [keys[2]],
+        }
+        const tx = Transaction.fromHex(signTapScriptSpend({
+            inputs: [input],
+            outputs: [{address: "tb1qjph0dpexkz6wg36sz5xygj2qjehm4yc3628yst", amount: 40000}],
+            address: tree.address,
+            feePerB: 3,
+        }, network))
+        expect(tx.outs.length).toEqual(2)
+        const fee = 100000 - 40000 - tx.outs[1].value
+        expect(fee).toEqual(Math.ceil(tx.virtualSize() * 3))
+
+        // dust change is given up to the miner
+        const changeless = Transaction.fromHex(signTapScriptSpend({
+            inputs: [input],
+            outputs: [{address: "tb1qjph0dpexkz6wg36sz5xygj2qjehm4yc3628yst", amount: 99300}],
+            address: tree.address,
+            feePerB: 3,
+        }, network))
+        expect(changeless.outs.length).toEqual(1)
+        expect(Math.ceil(changeless.virtualSize() * 3)).toBeLessThanOrEqual(100000 - 99300)
+
+        // the inputs do not cover the outputs and the fee
+        expect(() => signTapScriptSpend({
+            inputs: [input],
+            outputs: [{address: "tb1qjph0dpexkz6wg36sz5xygj2qjehm4yc3628yst", amount: 99900}],
+            address: tree.address,
+            feePerB: 3,
+        }, network)).toThrow("insufficient balance")
+    });
+
+    test("wallet", async () => {
+        const hex = await new TBtcWallet().signTransaction({
+            privateKey: "",
+            data: {
+                type: BtcXrcTypes.TAPROOT_SCRIPT_PATH,
+                inputs: [{
+                    txId: "a7881146cc7671ad89dcd1d99015ed7c5e17cfae69eedd01f73f5ab60a6c1318",
+                    vOut: 0,
+                    amount: 100000,
+                    address: tree.address,
+                    leafScript: tree.leaves[1].script,
+                    controlBlock: tree.leaves[1].controlBlock,
+                    privateKeys: [keys[2]],
+                }],
+                outputs: [{address: "tb1qjph0dpexkz6wg36sz5xygj2qjehm4yc3628yst", amount: 90000}],
+            }
+        })
+        expect(Transaction.fromHex(hex).ins[0].sequence).toEqual(144)
+    });
+});
@@ -21,10 +21,14 @@ import {
   validSignedTransactionError,
   ValidSignedTransactionParams
 } from '@okxweb3/coin-base';
-import {base} from '@okxweb3/crypto-lib';
+import {base, Long} from '@okxweb3/crypto-lib';
 import {
   addressFromPublic,
   AminoConverters,
+  AminoTypes,
+  Coin,
+  createDefaultAminoConverters,
+  EncodeObject,
   amount2Coin,
   amount2Coins,
   amount2StdFee,
@@ -40,8 +44,8 @@ import {
   getNewAddress,
   Height,
   private2Public,
-  sendIBCToken,
-  sendToken,
+  TextualCoinMetadataMap,
+  sendMessages,
   SignWithSignDoc,
   SignWithSignDocForINJ,
   SignWithSignDocForINJWithTx,
@@ -52,7 +56,18 @@ import {
   signWithStdSignDocWithTx,
   validateAddress,
   validSignedTransaction,
+  VoteOption,
 } from './';
+import {registerExtraTypes, registry} from './registry';
+import {MsgTransfer} from './types/ibc/applications/transfer/v1/tx';
+import {formatSdkDec} from './amino/aminoRegistry';
+import {MultisigThresholdPubkey, pubkeyType} from './amino/pubkeys';
+import {createMultisigThresholdPubkey} from './amino/multisig';
+import {pubkeyToAddress} from './amino/addresses';
+import {makeMultisignedTxBytes} from './multisignature';
+import {encodeSecp256k1Pubkey} from './encoding';
+import {TxRaw} from './types/cosmos/tx/v1beta1/tx';
+import {Decimal} from "@cosmjs/math";
 
 export interface CosmosTransferParam {
   fromAddress: string
@@ -68,8 +83,95 @@ export interface CosmosIbcTransferParam extends CosmosTransferParam{
   ibcTimeoutTimestamp?: number
 }
 
+export interface CosmosDelegateParam {
+  delegatorAddress: string
+  validatorAddress: string
+  demon: string
+  amount: number
+}
+
+export interface CosmosRedelegateParam {
+  delegatorAddress: string
+  validatorSrcAddress: string
+  validatorDstAddress: string
+  demon: string
+  amount: number
+}
+
+export interface CosmosWithdrawRewardsParam {
+  delegatorAddress: string
+  // one MsgWithdrawDelegatorReward per validator
+  validatorAddresses: string[]
+}
+
+// gov v1beta1 is accepted by every sdk version, v1 requires cosmos-sdk 0.46+
+export type CosmosGovVersion = "v1beta1" | "v1"
+
+export interface CosmosVoteParam {
+  proposalId: number | string
+  voter: string
+  option: VoteOption
+  // v1 only
+  metadata?: string
+  govVersion?: CosmosGovVersion
+}
+
+export interface CosmosWeightedVoteOption {
+  option: VoteOption
+  // decimal weight, e.g. "0.5", the weights must sum up to 1
+  weight: string
+}
+
+export interface CosmosVoteWeightedParam {
+  proposalId: number | string
+  voter: string
+  options: CosmosWeightedVoteOption[]
+  // v1 only
+  metadata?: string
+  govVersion?: CosmosGovVersion
+}
+
+export interface CosmosDepositParam {
+  proposalId: number | string
+  depositor: string
+  demon: string
+  amount: number
+  govVersion?: CosmosGovVersion
+}
+
+export type CosmosAuthorization =
+  { type: "generic", msg: string }
+  | { type: "send", spendLimit: Coin[], allowList?: string[] }
+
+export interface CosmosGrantParam {
+  granter: string
+  grantee: string
+  authorization: CosmosAuthorization
+  // expiration in seconds, no expiration when omitted
+  expiration?: number
+}
+
+export interface CosmosExecParam {
+  grantee: string
+  // messages signed by the granters, encoded with the registered types
+  msgs: EncodeObject[]
+}
+
+export interface CosmosRevokeParam {
+  granter: string
+  grantee: string
+  msgTypeUrl: string
+}
+
 export type CosmosSignParam = {
-  type: "transfer" | "ibcTransfer"
+  type: "transfer" | "ibcTransfer" | "delegate" | "undelegate" | "redelegate" | "withdrawRewards"
+    | "vote" | "voteWeighted" | "deposit" | "grant" | "exec" | "revoke"
+  // SIGN_MODE_DIRECT by default, "amino" for SIGN_MODE_LEGACY_AMINO_JSON, "textual" for SIGN_MODE_TEXTUAL
+  signMode?: "direct" | "amino" | "textual"
+  // bech32 prefix of the amino converters and the textual signer address, defaults to the prefix of the wallet
+  prefix?: string
+  // display units by base denom for SIGN_MODE_TEXTUAL
+  coinMetadata?: TextualCoinMetadataMap
   chainId: string
   sequence: number
   accountNumber: number
@@ -82,6 +184,26 @@ export type CosmosSignParam = {
   publicKey?: string
 }
 
+export interface CosmosMultisigParam {
+  // compressed secp256k1 public keys of the members in hex
+  publicKeys: string[]
+  threshold: number
+  // keep the given order of the members instead of sorting them by address
+  noSort?: boolean
+  hrp?: string
+}
+
+export interface CosmosCombineMultisigParam extends CosmosMultisigParam {
+  sequence: number
+  feeDemon: string
+  feeAmount: number
+  gasLimit: number
+  // base64 body bytes signed by the members
+  bodyBytes: string
+  // base64 amino json signatures by member address
+  signatures: Record<string, string>
+}
+
 export interface SignMessageData {
   type: "amino" | "signDoc"
   data: string
@@ -154,51 +276,242 @@ export abstract class CosmosWallet extends BaseWallet {
       const pubKeyUrl = this.pubKeyUrl();
       const privateKey = (param.privateKey && base.fromHex(param.privateKey)) as Buffer
       const common = param.data as CosmosSignParam
+      const extraTypes = this.getExtraTypes()
+      registerExtraTypes(extraTypes)
+      const messages = this.buildMessages(common)
+      const aminoTypes = common.signMode === "amino"
+        ? new AminoTypes(createDefaultAminoConverters(common.prefix || this.getPrefix(), this.getAminoConverters()))
+        : undefined
+      const textual = common.signMode === "textual"
+        ? {prefix: common.prefix || this.getPrefix(), metadata: common.coinMetadata}
+        : undefined
+      const fee = amount2StdFee(common.feeDemon, common.feeAmount, common.gasLimit)
+      const result = await sendMessages(
+        privateKey,
+        common.chainId,
+        common.sequence,
+        common.accountNumber,
+        messages,
+        fee,
+        extraTypes,
+        common.timeoutHeight,
+        common.memo,
+        ethSign,
+        pubKeyUrl,
+        common.publicKey,
+        aminoTypes,
+        textual)
+      return Promise.resolve(result);
+    } catch (e) {
+    }
+    return Promise.reject(SignTxError);
+  }
 
-      if(common.type === "transfer") {
+  buildMessages(common: CosmosSignParam): EncodeObject[] {
+    switch (common.type) {
+      case "transfer": {
         const transfer = common.data as CosmosTransferParam
-        const amount = amount2Coins(transfer.demon, transfer.amount)
-        const fee = amount2StdFee(common.feeDemon, common.feeAmount, common.gasLimit)
-        const result = await sendToken(
-          privateKey,
-          common.chainId,
-          common.sequence,
-          common.accountNumber,
-          transfer.fromAddress,
-          transfer.toAddress,
-          amount,
-          fee,
-          common.timeoutHeight,
-          common.memo,
-          ethSign,
-          common.publicKey, pubKeyUrl)
-        return Promise.resolve(result);
-      } else if(common.type === "ibcTransfer") {
+        return [{
+          typeUrl: "/cosmos.bank.v1beta1.MsgSend",
+          value: {
+            fromAddress: transfer.fromAddress,
+            toAddress: transfer.toAddress,
+            amount: amount2Coins(transfer.demon, transfer.amount),
+          },
+        }]
+      }
+      case "ibcTransfer": {
         const transfer = common.data as CosmosIbcTransferParam
-        const amount = amount2Coin(transfer.demon, transfer.amount)
-        const fee = amount2StdFee(common.feeDemon, common.feeAmount, common.gasLimit)
-        const result = await sendIBCToken(
-          privateKey,
-          common.chainId,
-          common.sequence,
-          common.accountNumber,
-          transfer.fromAddress,
-          transfer.toAddress,
-          amount,
-          transfer.sourcePort,
-          transfer.sourceChannel,
-          fee,
-          common.timeoutHeight,
-          transfer.ibcTimeoutHeight,
-          transfer.ibcTimeoutTimestamp,
-          common.memo,
-          ethSign,
-          common.publicKey, pubKeyUrl)
-        return Promise.resolve(result);
+        return [{
+          typeUrl: "/ibc.applications.transfer.v1.MsgTransfer",
+          value: MsgTransfer.fromPartial({
+            sourcePort: transfer.sourcePort,
+            sourceChannel: transfer.sourceChannel,
+            sender: transfer.fromAddress,
+            receiver: transfer.toAddress,
+            token: amount2Coin(transfer.demon, transfer.amount),
+            timeoutHeight: transfer.ibcTimeoutHeight,
+            timeoutTimestamp: transfer.ibcTimeoutTimestamp
+              ? Long.fromNumber(transfer.ibcTimeoutTimestamp).multiply(1_000_000_000)
+              : undefined,
+          }),
+        }]
+      }
+      case "delegate":
+      case "undelegate": {
+        const delegate = common.data as CosmosDelegateParam
+        return [{
+          typeUrl: common.type === "delegate" ? "/cosmos.staking.v1beta1.MsgDelegate" : "/cosmos.staking.v1beta1.MsgUndelegate",
+          value: {
+            delegatorAddress: delegate.delegatorAddress,
+            validatorAddress: delegate.validatorAddress,
+            amount: amount2Coin(delegate.demon, delegate.amount),
+          },
+        }]
+      }
+      case "redelegate": {
+        const redelegate = common.data as CosmosRedelegateParam
+        return [{
+          typeUrl: "/cosmos.staking.v1beta1.MsgBeginRedelegate",
+          value: {
+            delegatorAddress: redelegate.delegatorAddress,
+            validatorSrcAddress: redelegate.validatorSrcAddress,
+            validatorDstAddress: redelegate.validatorDstAddress,
+            amount: amount2Coin(redelegate.demon, redelegate.amount),
+          },
+        }]
+      }
+      case "withdrawRewards": {
+        const withdraw = common.data as CosmosWithdrawRewardsParam
+        return withdraw.validatorAddresses.map(validatorAddress => ({
+          typeUrl: "/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward",
+          value: {
+            delegatorAddress: withdraw.delegatorAddress,
+            validatorAddress: validatorAddress,
+          },
+        }))
+      }
+      case "vote": {
+        const vote = common.data as CosmosVoteParam
+        const v1 = vote.govVersion === "v1"
+        return [{
+          typeUrl: v1 ? "/cosmos.gov.v1.MsgVote" : "/cosmos.gov.v1beta1.MsgVote",
+          value: {
+            proposalId: Long.fromString(vote.proposalId.toString(), true),
+            voter: vote.voter,
+            option: vote.option,
+            ...(v1 ? {metadata: vote.metadata || ""} : {}),
+          },
+        }]
+      }
+      case "voteWeighted": {
+        const vote = common.data as CosmosVoteWeightedParam
+        const v1 = vote.govVersion === "v1"
+        return [{
+          typeUrl: v1 ? "/cosmos.gov.v1.MsgVoteWeighted" : "/cosmos.gov.v1beta1.MsgVoteWeighted",
+          value: {
+            proposalId: Long.fromString(vote.proposalId.toString(), true),
+            voter: vote.voter,
+            // v1beta1 encodes the sdk.Dec atomics, v1 the decimal string
+            options: vote.options.map(o => ({
+              option: o.option,
+              weight: v1 ? formatSdkDec(o.weight) : Decimal.fromUserInput(o.weight, 18).atomics,
+            })),
+            ...(v1 ? {metadata: vote.metadata || ""} : {}),
+          },
+        }]
       }
+      case "deposit": {
+        const deposit = common.data as CosmosDepositParam
+        return [{
+          typeUrl: deposit.govVersion === "v1" ? "/cosmos.gov.v1.MsgDeposit" : "/cosmos.gov.v1beta1.MsgDeposit",
+          value: {
+            proposalId: Long.fromString(deposit.proposalId.toString(), true),
+            depositor: deposit.depositor,
+            amount: amount2Coins(deposit.demon, deposit.amount),
+          },
+        }]
+      }
+      case "grant": {
+        const grant = common.data as CosmosGrantParam
+        const authorization = grant.authorization.type === "generic"
+          ? {typeUrl: "/cosmos.authz.v1beta1.GenericAuthorization", value: {msg: grant.authorization.msg}}
+          : {
+            typeUrl: "/cosmos.bank.v1beta1.SendAuthorization",
+            value: {spendLimit: grant.authorization.spendLimit, allowList: grant.authorization.allowList || []},
+          }
+        return [{
+          typeUrl: "/cosmos.authz.v1beta1.MsgGrant",
+          value: {
+            granter: grant.granter,
+            grantee: grant.grantee,
+            grant: {
+              authorization: registry.encodeAsAny(authorization),
+              expiration: grant.expiration ? {seconds: Long.fromNumber(grant.expiration), nanos: 0} : undefined,
+            },
+          },
+        }]
+      }
+      case "exec": {
+        const exec = common.data as CosmosExecParam
+        return [{
+          typeUrl: "/cosmos.authz.v1beta1.MsgExec",
+          value: {
+            grantee: exec.grantee,
+            msgs: exec.msgs.map(msg => registry.encodeAsAny(msg)),
+          },
+        }]
+      }
+      case "revoke": {
+        const revoke = common.data as CosmosRevokeParam
+        return [{
+          typeUrl: "/cosmos.authz.v1beta1.MsgRevoke",
+          value: {
+            granter: revoke.granter,
+            grantee: revoke.grantee,
+            msgTypeUrl: revoke.msgTypeUrl,
+          },
+        }]
+      }
+      default:
+        throw new Error(`unsupported type: ${common.type}`)
+    }
+  }
+
+  multisigPubkey(param: CosmosMultisigParam): MultisigThresholdPubkey {
+    if (this.supportEthSign()) {
+      throw new Error("multisig is not supported with eth secp256k1 keys")
+    }
+    const pubkeys = param.publicKeys.map(publicKey => ({
+      type: pubkeyType.secp256k1,
+      value: encodeSecp256k1Pubkey(base.fromHex(publicKey)),
+    }))
+    return createMultisigThresholdPubkey(pubkeys, param.threshold, param.noSort)
+  }
+
+  async getMultisigAddress(param: CosmosMultisigParam): Promise<any> {
+    try {
+      const multisigPubkey = this.multisigPubkey(param)
+      return Promise.resolve({
+        address: pubkeyToAddress(multisigPubkey, param.hrp || this.getPrefix()),
+        publicKey: multisigPubkey,
+      });
     } catch (e) {
+      return Promise.reject(NewAddressError);
+    }
+  }
+
+  // signs as a member of a multisig in amino json mode, the sequence and account number are the ones of the multisig account
+  async signMultisigTransaction(param: SignTxParams): Promise<any> {
+    const data = {...param.data, signMode: "amino"}
+    const result = await this.signTransaction({...param, data: data})
+    if (!param.privateKey) {
+      return result;
+    }
+    try {
+      const txRaw = TxRaw.decode(base.fromBase64(result))
+      return Promise.resolve({
+        bodyBytes: base.toBase64(txRaw.bodyBytes),
+        signature: base.toBase64(txRaw.signatures[0]),
+      });
+    } catch (e) {
+      return Promise.reject(SignTxError);
+    }
+  }
+
+  async combineMultisigTransaction(param: CosmosCombineMultisigParam): Promise<string> {
+    try {
+      const multisigPubkey = this.multisigPubkey(param)
+      const signatures = new Map<string, Uint8Array>()
+      for (const [address, signature] of Object.entries(param.signatures)) {
+        signatures.set(address, base.fromBase64(signature))
+      }
+      const fee = amount2StdFee(param.feeDemon, param.feeAmount, param.gasLimit)
+      const tx = makeMultisignedTxBytes(multisigPubkey, param.sequence, fee, base.fromBase64(param.bodyBytes), signatures)
+      return Promise.resolve(base.toBase64(tx));
+    } catch (e) {
+      return Promise.reject(SignTxError);
     }
-    return Promise.reject(SignTxError);
   }
 
   async signCommonMsg(params: SignCommonMsgParams): Promise<any> {
@@ -0,0 +1,29 @@
+/**
+ * The following methods are based on `cosmjs`, thanks for their work
+ * https://github.com/cosmos/cosmjs
+ */
+import { base } from "@okxweb3/crypto-lib";
+
+import { encodeAminoPubkey } from "./encoding";
+import { isEd25519Pubkey, isMultisigThresholdPubkey, isSecp256k1Pubkey, Pubkey } from "./pubkeys";
+
+// See https://github.com/tendermint/tendermint/blob/f2ada0a604b4c0763bda2f64fac53d506d3beca7/docs/spec/blockchain/encoding.md#public-key-cryptography
+export function pubkeyToRawAddress(pubkey: Pubkey): Uint8Array {
+  if (isSecp256k1Pubkey(pubkey)) {
+    const pubkeyData = base.fromBase64(pubkey.value);
+    return base.hash160(pubkeyData);
+  } else if (isEd25519Pubkey(pubkey)) {
+    const pubkeyData = base.fromBase64(pubkey.value);
+    return base.sha256(pubkeyData).slice(0, 20);
+  } else if (isMultisigThresholdPubkey(pubkey)) {
+    // https://github.com/tendermint/tendermint/blob/38b401657e4ad7a7eeb3c30a3cbf512037df3740/crypto/multisig/threshold_pubkey.go#L71-L74
+    const pubkeyData = encodeAminoPubkey(pubkey);
+    return base.sha256(pubkeyData).slice(0, 20);
+  } else {
+    throw new Error("Unsupported public key type");
+  }
+}
+
+export function pubkeyToAddress(pubkey: Pubkey, prefix: string): string {
+  return base.toBech32(prefix, pubkeyToRawAddress(pubkey));
+}
@@ -2,7 +2,7 @@
  * The following methods are based on `cosmjs`, thanks for their work
  * https://github.com/cosmos/cosmjs
  */
-import { AminoConverter, AminoConverters, AminoMsg } from './aminotypes';
+import { AminoConverter, AminoConverters, AminoMsg, AminoTypes } from './aminotypes';
 import { Coin } from "./coins"
 import { MsgTransfer } from '../types/ibc/applications/transfer/v1/tx';
 import { base, Long } from '@okxweb3/crypto-lib';
@@ -14,6 +14,21 @@ import {
   MsgEditValidator,
   MsgUndelegate,
 } from '../types/cosmos/staking/v1beta1/tx';
+import {
+  MsgSetWithdrawAddress,
+  MsgWithdrawDelegatorReward,
+  MsgWithdrawValidatorCommission,
+} from '../types/cosmos/distribution/v1beta1/tx';
+import * as govV1beta1 from '../types/cosmos/gov/v1beta1/tx';
+import * as govV1 from '../types/cosmos/gov/v1/tx';
+import { voteOptionFromJSON } from '../types/cosmos/gov/v1beta1/gov';
+import { MsgExec, MsgGrant, MsgRevoke } from '../types/cosmos/authz/v1beta1/tx';
+import { GenericAuthorization } from '../types/cosmos/authz/v1beta1/authz';
+import { SendAuthorization } from '../types/cosmos/bank/v1beta1/authz';
+import { Any } from '../types/google/protobuf/any';
+import { Timestamp } from '../types/google/protobuf/timestamp';
+import { Decimal } from "@cosmjs/math";
+import { registry } from '../registry';
 import { decodeBech32Pubkey, encodeBech32Pubkey } from './encoding';
 
 export function assertDefinedAndNotNull<T>(value: T | undefined | null, msg?: string): asserts value is T {
@@ -22,12 +37,20 @@ export function assertDefinedAndNotNull<T>(value: T | undefined | null, msg?: st
   }
 }
 
-export function createDefaultAminoConverters(prefix: string): AminoConverters {
-  return {
+/**
+ * `extraConverters` are merged before the authz converters are created, so that
+ * messages executed through MsgExec can use them as well.
+ */
+export function createDefaultAminoConverters(prefix: string, extraConverters?: AminoConverters): AminoConverters {
+  const converters: AminoConverters = {
     ...createBankAminoConverters(),
     ...createStakingAminoConverters(prefix),
     ...createIbcAminoConverters(),
+    ...createDistributionAminoConverters(),
+    ...createGovAminoConverters(),
+    ...extraConverters,
   };
+  return Object.assign(converters, createAuthzAminoConverters(converters));
 }
 
 // https://github.com/cosmos/ibc-go/blob/07b6a97b67d17fd214a83764cbdb2c2c3daef445/modules/core/02-client/types/client.pb.go#L297-L312
@@ -524,4 +547,425 @@ export function createStakingAminoConverters(
       }),
     },
   };
-}
\ No newline at end of file
+}
+/** Changes the withdraw address for a delegator (or validator self-delegation) */
+export interface AminoMsgSetWithdrawAddress extends AminoMsg {
+  // NOTE: Type string and names diverge here!
+  readonly type: "cosmos-sdk/MsgModifyWithdrawAddress";
+  readonly value: {
+    /** Bech32 account address */
+    readonly delegator_address: string;
+    /** Bech32 account address */
+    readonly withdraw_address: string;
+  };
+}
+
+export function isAminoMsgSetWithdrawAddress(msg: AminoMsg): msg is AminoMsgSetWithdrawAddress {
+  return msg.type === "cosmos-sdk/MsgModifyWithdrawAddress";
+}
+
+/** Message for delegation withdraw from a single validator */
+export interface AminoMsgWithdrawDelegatorReward extends AminoMsg {
+  // NOTE: Type string and names diverge here!
+  readonly type: "cosmos-sdk/MsgWithdrawDelegationReward";
+  readonly value: {
+    /** Bech32 account address */
+    readonly delegator_address: string;
+    /** Bech32 account address */
+    readonly validator_address: string;
+  };
+}
+
+export function isAminoMsgWithdrawDelegatorReward(msg: AminoMsg): msg is AminoMsgWithdrawDelegatorReward {
+  return msg.type === "cosmos-sdk/MsgWithdrawDelegationReward";
+}
+
+/** Message for validator withdraw */
+export interface AminoMsgWithdrawValidatorCommission extends AminoMsg {
+  readonly type: "cosmos-sdk/MsgWithdrawValidatorCommission";
+  readonly value: {
+    /** Bech32 account address */
+    readonly validator_address: string;
+  };
+}
+
+export function isAminoMsgWithdrawValidatorCommission(msg: AminoMsg): msg is AminoMsgWithdrawValidatorCommission {
+  return msg.type === "cosmos-sdk/MsgWithdrawValidatorCommission";
+}
+
+export function createDistributionAminoConverters(): AminoConverters {
+  return {
+    "/cosmos.distribution.v1beta1.MsgSetWithdrawAddress": {
+      aminoType: "cosmos-sdk/MsgModifyWithdrawAddress",
+      toAmino: ({ delegatorAddress, withdrawAddress }: MsgSetWithdrawAddress): AminoMsgSetWithdrawAddress["value"] => ({
+        delegator_address: delegatorAddress,
+        withdraw_address: withdrawAddress,
+      }),
+      fromAmino: ({ delegator_address, withdraw_address }: AminoMsgSetWithdrawAddress["value"]): MsgSetWithdrawAddress => ({
+        delegatorAddress: delegator_address,
+        withdrawAddress: withdraw_address,
+      }),
+    },
+    "/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward": {
+      aminoType: "cosmos-sdk/MsgWithdrawDelegationReward",
+      toAmino: ({
+                  delegatorAddress,
+                  validatorAddress,
+                }: MsgWithdrawDelegatorReward): AminoMsgWithdrawDelegatorReward["value"] => ({
+        delegator_address: delegatorAddress,
+        validator_address: validatorAddress,
+      }),
+      fromAmino: ({
+                    delegator_address,
+                    validator_address,
+                  }: AminoMsgWithdrawDelegatorReward["value"]): MsgWithdrawDelegatorReward => ({
+        delegatorAddress: delegator_address,
+        validatorAddress: validator_address,
+      }),
+    },
+    "/cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission": {
+      aminoType: "cosmos-sdk/MsgWithdrawValidatorCommission",
+      toAmino: ({ validatorAddress }: MsgWithdrawValidatorCommission): AminoMsgWithdrawValidatorCommission["value"] => ({
+        validator_address: validatorAddress,
+      }),
+      fromAmino: ({ validator_address }: AminoMsgWithdrawValidatorCommission["value"]): MsgWithdrawValidatorCommission => ({
+        validatorAddress: validator_address,
+      }),
+    },
+  };
+}
+
+/** Supports submitting arbitrary proposal content. */
+export interface AminoMsgDeposit extends AminoMsg {
+  readonly type: "cosmos-sdk/MsgDeposit" | "cosmos-sdk/v1/MsgDeposit";
+  readonly value: {
+    readonly amount: readonly Coin[];
+    /** Bech32 account address */
+    readonly depositor: string;
+    readonly proposal_id: string;
+  };
+}
+
+export function isAminoMsgDeposit(msg: AminoMsg): msg is AminoMsgDeposit {
+  return msg.type === "cosmos-sdk/MsgDeposit" || msg.type === "cosmos-sdk/v1/MsgDeposit";
+}
+
+export interface AminoMsgVote extends AminoMsg {
+  readonly type: "cosmos-sdk/MsgVote" | "cosmos-sdk/v1/MsgVote";
+  readonly value: {
+    readonly proposal_id: string;
+    /** Bech32 account address */
+    readonly voter: string;
+    /** VoteOption as integer from 0 to 4 */
+    readonly option?: number;
+    /** gov v1 only, omitted when empty */
+    readonly metadata?: string;
+  };
+}
+
+export function isAminoMsgVote(msg: AminoMsg): msg is AminoMsgVote {
+  return msg.type === "cosmos-sdk/MsgVote" || msg.type === "cosmos-sdk/v1/MsgVote";
+}
+
+export interface AminoMsgVoteWeighted extends AminoMsg {
+  readonly type: "cosmos-sdk/MsgVoteWeighted" | "cosmos-sdk/v1/MsgVoteWeighted";
+  readonly value: {
+    readonly proposal_id: string;
+    /** Bech32 account address */
+    readonly voter: string;
+    readonly options: Array<{
+      /** VoteOption as integer from 0 to 4 */
+      readonly option: number;
+      /** sdk.Dec with 18 decimal places, e.g. "0.700000000000000000" */
+      readonly weight: string;
+    }>;
+    /** gov v1 only, omitted when empty */
+    readonly metadata?: string;
+  };
+}
+
+export function isAminoMsgVoteWeighted(msg: AminoMsg): msg is AminoMsgVoteWeighted {
+  return msg.type === "cosmos-sdk/MsgVoteWeighted" || msg.type === "cosmos-sdk/v1/MsgVoteWeighted";
+}
+
+/** Formats a decimal the way sdk.Dec prints it, always with 18 decimal places */
+export function formatSdkDec(value: string): string {
+  const [whole, fractional = ""] = Decimal.fromUserInput(value, 18).toString().split(".");
+  return `${whole}.${fractional.padEnd(18, "0")}`;
+}
+
+export function createGovAminoConverters(): AminoConverters {
+  return {
+    "/cosmos.gov.v1beta1.MsgDeposit": {
+      aminoType: "cosmos-sdk/MsgDeposit",
+      toAmino: ({ amount, depositor, proposalId }: govV1beta1.MsgDeposit): AminoMsgDeposit["value"] => ({
+        amount: [...amount],
+        depositor: depositor,
+        proposal_id: proposalId.toString(),
+      }),
+      fromAmino: ({ amount, depositor, proposal_id }: AminoMsgDeposit["value"]): govV1beta1.MsgDeposit => ({
+        amount: Array.from(amount),
+        depositor: depositor,
+        proposalId: Long.fromString(proposal_id, true),
+      }),
+    },
+    "/cosmos.gov.v1beta1.MsgVote": {
+      aminoType: "cosmos-sdk/MsgVote",
+      toAmino: ({ option, proposalId, voter }: govV1beta1.MsgVote): AminoMsgVote["value"] => ({
+        option: option,
+        proposal_id: proposalId.toString(),
+        voter: voter,
+      }),
+      fromAmino: ({ option, proposal_id, voter }: AminoMsgVote["value"]): govV1beta1.MsgVote => ({
+        option: voteOptionFromJSON(option),
+        proposalId: Long.fromString(proposal_id, true),
+        voter: voter,
+      }),
+    },
+    "/cosmos.gov.v1beta1.MsgVoteWeighted": {
+      aminoType: "cosmos-sdk/MsgVoteWeighted",
+      toAmino: ({ options, proposalId, voter }: govV1beta1.MsgVoteWeighted): AminoMsgVoteWeighted["value"] => ({
+        // the proto weight of v1beta1 is the sdk.Dec atomics with 18 decimals
+        options: options.map((o) => ({
+          option: o.option,
+          weight: formatSdkDec(Decimal.fromAtomics(o.weight, 18).toString()),
+        })),
+        proposal_id: proposalId.toString(),
+        voter: voter,
+      }),
+      fromAmino: ({ options, proposal_id, voter }: AminoMsgVoteWeighted["value"]): govV1beta1.MsgVoteWeighted => ({
+        proposalId: Long.fromString(proposal_id, true),
+        voter: voter,
+        options: options.map((o) => ({
+          option: voteOptionFromJSON(o.option),
+          weight: Decimal.fromUserInput(o.weight, 18).atomics,
+        })),
+      }),
+    },
+    // gov v1 amino json omits empty fields except those marked amino.dont_omitempty
+    "/cosmos.gov.v1.MsgDeposit": {
+      aminoType: "cosmos-sdk/v1/MsgDeposit",
+      toAmino: ({ amount, depositor, proposalId }: govV1.MsgDeposit): AminoMsgDeposit["value"] => ({
+        amount: [...amount],
+        depositor: depositor,
+        proposal_id: proposalId.toString(),
+      }),
+      fromAmino: ({ amount, depositor, proposal_id }: AminoMsgDeposit["value"]): govV1.MsgDeposit => ({
+        amount: Array.from(amount),
+        depositor: depositor,
+        proposalId: Long.fromString(proposal_id, true),
+      }),
+    },
+    "/cosmos.gov.v1.MsgVote": {
+      aminoType: "cosmos-sdk/v1/MsgVote",
+      toAmino: ({ option, proposalId, voter, metadata }: govV1.MsgVote): AminoMsgVote["value"] => ({
+        option: option || undefined,
+        proposal_id: proposalId.toString(),
+        voter: voter,
+        metadata: metadata || undefined,
+      }),
+      fromAmino: ({ option, proposal_id, voter, metadata }: AminoMsgVote["value"]): govV1.MsgVote => ({
+        option: voteOptionFromJSON(option ?? 0),
+        proposalId: Long.fromString(proposal_id, true),
+        voter: voter,
+        metadata: metadata ?? "",
+      }),
+    },
+    "/cosmos.gov.v1.MsgVoteWeighted": {
+      aminoType: "cosmos-sdk/v1/MsgVoteWeighted",
+      toAmino: ({ options, proposalId, voter, metadata }: govV1.MsgVoteWeighted): AminoMsgVoteWeighted["value"] => ({
+        // the proto weight of v1 is the sdk.Dec string itself
+        options: options.map((o) => ({
+          option: o.option,
+          weight: o.weight,
+        })),
+        proposal_id: proposalId.toString(),
+        voter: voter,
+        metadata: metadata || undefined,
+      }),
+      fromAmino: ({ options, proposal_id, voter, metadata }: AminoMsgVoteWeighted["value"]): govV1.MsgVoteWeighted => ({
+        proposalId: Long.fromString(proposal_id, true),
+        voter: voter,
+        options: options.map((o) => ({
+          option: voteOptionFromJSON(o.option),
+          weight: o.weight,
+        })),
+        metadata: metadata ?? "",
+      }),
+    },
+  };
+}
+
+interface AminoAuthorization {
+  readonly type: string;
+  readonly value: any;
+}
+
+export interface AminoMsgGrant extends AminoMsg {
+  readonly type: "cosmos-sdk/MsgGrant";
+  readonly value: {
+    /** Bech32 account address */
+    readonly granter: string;
+    /** Bech32 account address */
+    readonly grantee: string;
+    readonly grant: {
+      readonly authorization: AminoAuthorization;
+      /** RFC 3339 time, omitted for grants without expiration */
+      readonly expiration?: string;
+    };
+  };
+}
+
+export function isAminoMsgGrant(msg: AminoMsg): msg is AminoMsgGrant {
+  return msg.type === "cosmos-sdk/MsgGrant";
+}
+
+export interface AminoMsgExec extends AminoMsg {
+  readonly type: "cosmos-sdk/MsgExec";
+  readonly value: {
+    /** Bech32 account address */
+    readonly grantee: string;
+    readonly msgs: readonly AminoMsg[];
+  };
+}
+
+export function isAminoMsgExec(msg: AminoMsg): msg is AminoMsgExec {
+  return msg.type === "cosmos-sdk/MsgExec";
+}
+
+export interface AminoMsgRevoke extends AminoMsg {
+  readonly type: "cosmos-sdk/MsgRevoke";
+  readonly value: {
+    /** Bech32 account address */
+    readonly granter: string;
+    /** Bech32 account address */
+    readonly grantee: string;
+    readonly msg_type_url: string;
+  };
+}
+
+export function isAminoMsgRevoke(msg: AminoMsg): msg is AminoMsgRevoke {
+  return msg.type === "cosmos-sdk/MsgRevoke";
+}
+
+// RFC 3339 with trailing zeros of the nanoseconds trimmed, as go's time.RFC3339Nano
+function timestampToRfc3339(timestamp: Timestamp): string {
+  const date = new Date(timestamp.seconds.toNumber() * 1000).toISOString().slice(0, 19);
+  const nanos = timestamp.nanos ? "." + timestamp.nanos.toString().padStart(9, "0").replace(/0+$/, "") : "";
+  return `${date}${nanos}Z`;
+}
+
+function rfc3339ToTimestamp(value: string): Timestamp {
+  const match = /^(.*T\d{2}:\d{2}:\d{2})(?:\.(\d{1,9}))?(Z|[+-]\d{2}:\d{2})$/.exec(value);
+  if (!match) {
+    throw new Error(`invalid timestamp: ${value}`);
+  }
+  return {
+    seconds: Long.fromNumber(Date.parse(match[1] + match[3]) / 1000),
+    nanos: parseInt((match[2] || "0").padEnd(9, "0"), 10),
+  };
+}
+
+function authorizationToAmino(authorization: Any): AminoAuthorization {
+  switch (authorization.typeUrl) {
+    case "/cosmos.authz.v1beta1.GenericAuthorization":
+      return {
+        type: "cosmos-sdk/GenericAuthorization",
+        value: { msg: GenericAuthorization.decode(authorization.value).msg },
+      };
+    case "/cosmos.bank.v1beta1.SendAuthorization": {
+      const { spendLimit, allowList } = SendAuthorization.decode(authorization.value);
+      return {
+        type: "cosmos-sdk/SendAuthorization",
+        value: {
+          spend_limit: spendLimit,
+          allow_list: allowList.length > 0 ? allowList : undefined,
+        },
+      };
+    }
+    default:
+      throw new Error(`Unsupported authorization type: '${authorization.typeUrl}'`);
+  }
+}
+
+function authorizationFromAmino({ type, value }: AminoAuthorization): Any {
+  switch (type) {
+    case "cosmos-sdk/GenericAuthorization":
+      return Any.fromPartial({
+        typeUrl: "/cosmos.authz.v1beta1.GenericAuthorization",
+        value: GenericAuthorization.encode(GenericAuthorization.fromPartial({ msg: value.msg })).finish(),
+      });
+    case "cosmos-sdk/SendAuthorization":
+      return Any.fromPartial({
+        typeUrl: "/cosmos.bank.v1beta1.SendAuthorization",
+        value: SendAuthorization.encode(SendAuthorization.fromPartial({
+          spendLimit: value.spend_limit,
+          allowList: value.allow_list || [],
+        })).finish(),
+      });
+    default:
+      throw new Error(`Unsupported authorization type: '${type}'`);
+  }
+}
+
+/**
+ * Amino JSON of authz is supported on chain since Cosmos SDK 0.46.
+ * Messages of MsgExec are converted with `converters`.
+ */
+export function createAuthzAminoConverters(converters: AminoConverters): AminoConverters {
+  return {
+    "/cosmos.authz.v1beta1.MsgGrant": {
+      aminoType: "cosmos-sdk/MsgGrant",
+      toAmino: ({ granter, grantee, grant }: MsgGrant): AminoMsgGrant["value"] => {
+        assertDefinedAndNotNull(grant, "missing grant");
+        assertDefinedAndNotNull(grant.authorization, "missing authorization");
+        return {
+          granter: granter,
+          grantee: grantee,
+          grant: {
+            authorization: authorizationToAmino(grant.authorization),
+            expiration: grant.expiration ? timestampToRfc3339(grant.expiration) : undefined,
+          },
+        };
+      },
+      fromAmino: ({ granter, grantee, grant }: AminoMsgGrant["value"]): MsgGrant => ({
+        granter: granter,
+        grantee: grantee,
+        grant: {
+          authorization: authorizationFromAmino(grant.authorization),
+          expiration: grant.expiration ? rfc3339ToTimestamp(grant.expiration) : undefined,
+        },
+      }),
+    },
+    "/cosmos.authz.v1beta1.MsgExec": {
+      aminoType: "cosmos-sdk/MsgExec",
+      toAmino: ({ grantee, msgs }: MsgExec): AminoMsgExec["value"] => {
+        const aminoTypes = new AminoTypes(converters);
+        return {
+          grantee: grantee,
+          msgs: msgs.map(({ typeUrl, value }) => aminoTypes.toAmino({ typeUrl, value: registry.decode({ typeUrl, value }) })),
+        };
+      },
+      fromAmino: ({ grantee, msgs }: AminoMsgExec["value"]): MsgExec => {
+        const aminoTypes = new AminoTypes(converters);
+        return {
+          grantee: grantee,
+          msgs: msgs.map((msg) => registry.encodeAsAny(aminoTypes.fromAmino(msg))),
+        };
+      },
+    },
+    "/cosmos.authz.v1beta1.MsgRevoke": {
+      aminoType: "cosmos-sdk/MsgRevoke",
+      toAmino: ({ granter, grantee, msgTypeUrl }: MsgRevoke): AminoMsgRevoke["value"] => ({
+        granter: granter,
+        grantee: grantee,
+        msg_type_url: msgTypeUrl,
+      }),
+      fromAmino: ({ granter, grantee, msg_type_url }: AminoMsgRevoke["value"]): MsgRevoke => ({
+        granter: granter,
+        grantee: grantee,
+        msgTypeUrl: msg_type_url,
+      }),
+    },
+  };
+}
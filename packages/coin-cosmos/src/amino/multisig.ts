@@ -0,0 +1,51 @@
+/**
+ * The following methods are based on `cosmjs`, thanks for their work
+ * https://github.com/cosmos/cosmjs
+ */
+import { base, math } from "@okxweb3/crypto-lib";
+
+import { pubkeyToRawAddress } from "./addresses";
+import { MultisigThresholdPubkey, pubkeyType, SinglePubkey } from "./pubkeys";
+
+/**
+ * Compare arrays lexicographically.
+ *
+ * Returns value < 0 if `a < b`.
+ * Returns value > 0 if `a > b`.
+ * Returns 0 if `a === b`.
+ */
+export function compareArrays(a: Uint8Array, b: Uint8Array): number {
+  const aHex = base.toHex(a);
+  const bHex = base.toHex(b);
+  return aHex === bHex ? 0 : aHex < bHex ? -1 : 1;
+}
+
+export function createMultisigThresholdPubkey(
+  pubkeys: readonly SinglePubkey[],
+  threshold: number,
+  nosort = false,
+): MultisigThresholdPubkey {
+  const uintThreshold = new math.Uint53(threshold);
+  if (uintThreshold.toNumber() < 1) {
+    throw new Error("Threshold must be at least 1");
+  }
+  if (uintThreshold.toNumber() > pubkeys.length) {
+    throw new Error(`Threshold k = ${uintThreshold.toNumber()} exceeds number of keys n = ${pubkeys.length}`);
+  }
+
+  const outPubkeys = nosort
+    ? pubkeys
+    : Array.from(pubkeys).sort((lhs, rhs) => {
+        // https://github.com/cosmos/cosmos-sdk/blob/v0.42.2/client/keys/add.go#L172-L174
+        const addressLhs = pubkeyToRawAddress(lhs);
+        const addressRhs = pubkeyToRawAddress(rhs);
+        return compareArrays(addressLhs, addressRhs);
+      });
+  return {
+    type: pubkeyType.multisigThreshold,
+    value: {
+      threshold: uintThreshold.toString(),
+      pubkeys: outPubkeys,
+    },
+  };
+}
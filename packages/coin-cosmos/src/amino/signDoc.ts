@@ -32,6 +32,7 @@ export interface StdSignDoc {
   readonly fee: StdFee;
   readonly msgs: readonly AminoMsg[];
   readonly memo: string;
+  readonly timeout_height?: string;
 }
 
 function sortedObject(obj: any): any {
@@ -63,7 +64,9 @@ export function makeSignDoc(
   memo: string | undefined,
   accountNumber: number | string,
   sequence: number | string,
+  timeoutHeight?: { toString(): string },
 ): StdSignDoc {
+  const timeout = timeoutHeight?.toString();
   return {
     chain_id: chainId,
     account_number: math.Uint53.fromString(accountNumber.toString()).toString(),
@@ -71,6 +74,7 @@ export function makeSignDoc(
     fee: fee,
     msgs: msgs,
     memo: memo || "",
+    ...(timeout && timeout !== "0" ? { timeout_height: timeout } : {}),
   };
 }
 
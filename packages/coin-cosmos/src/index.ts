@@ -5,12 +5,20 @@ import {OsmosisAminoConverters, OsmosisRegistry} from "./osmosis";
 import {CosmWasmAminoConverter, CosmWasmRegistry} from "./cosmwasm";
 import {KavaAminoConverters, KavaRegistry} from "./kava";
 
-import {doSign, makeSignBytes, makeSignDoc, signTx} from './tx';
+import {doSign, makeSignBytes, makeSignDoc, signTx, TextualSignOptions} from './tx';
 
 import {Height, MsgTransfer} from './types/ibc/applications/transfer/v1/tx';
 import {EncodeObject, encodeSecp256k1Signature, StdFee} from './encoding';
 import {AminoConverter, AminoConverters, AminoMsg, AminoTypes} from './amino/aminotypes';
 import {createDefaultAminoConverters} from './amino/aminoRegistry';
+import {VoteOption} from './types/cosmos/gov/v1beta1/gov';
+import {MultisigThresholdPubkey} from './amino/pubkeys';
+import {createMultisigThresholdPubkey} from './amino/multisig';
+import {pubkeyToAddress} from './amino/addresses';
+import {makeMultisignedTx, makeMultisignedTxBytes} from './multisignature';
+import {decodeTextualSignDoc, encodeTextualSignDoc, renderTextualScreens, Screen} from './textual/signDoc';
+import {registerTextualMessage, TextualMessageDescriptor} from './textual/message';
+import {TextualCoinMetadata, TextualCoinMetadataMap} from './textual/values';
 
 import * as amino from "./amino/signDoc"
 import {AuthInfo, SignDoc, TxRaw} from './types/cosmos/tx/v1beta1/tx';
@@ -153,6 +161,7 @@ export async function sendIBCToken(
 }
 
 // append `MsgExecuteContract` to messages, need to associate `typeurl` with `extraTypes`
+// messages are signed in amino json mode when `aminoTypes` is given, in textual mode when `textual` is given
 export async function sendMessages(
     privateKey: Uint8Array,
     chainId: string,
@@ -164,7 +173,10 @@ export async function sendMessages(
     timeoutHeight?: number,
     memo?: string,
     useEthSecp256k1?: boolean,
-    pubKeyUrl?: string): Promise<string> {
+    pubKeyUrl?: string,
+    publicKey?: string,
+    aminoTypes?: AminoTypes,
+    textual?: TextualSignOptions): Promise<any> {
     registerExtraTypes(extraTypes)
     const result = await signTx(messages, fee, memo, Long.fromNumber(timeoutHeight || 0), {
         accountNumber: accountNumber,
@@ -172,8 +184,12 @@ export async function sendMessages(
         chainId: chainId,
         privateKey: privateKey,
         useEthSecp256k1: useEthSecp256k1 || false,
+        publicKey: publicKey,
         pubKeyUrl: pubKeyUrl
-    })
+    }, aminoTypes, textual)
+    if (!privateKey) {
+        return result;
+    }
     return Promise.resolve(base.toBase64(result))
 }
 
@@ -359,11 +375,7 @@ export async function sendAminoMessage(privateKey: Uint8Array,
                                        pubKeyUrl?: string) {
     registerExtraTypes(extraTypes)
     const m: AminoMsgData = JSON.parse(data)
-    let converters = createDefaultAminoConverters(prefix)
-    if (extraConverters) {
-        converters = {...converters, ...extraConverters}
-    }
-    const aminoTypes = new AminoTypes(converters)
+    const aminoTypes = new AminoTypes(createDefaultAminoConverters(prefix, extraConverters))
     const messages = m.msgs.map(it => aminoTypes.fromAmino(it))
     const result = await signTx(messages, m.fee, m.memo, Long.fromString(m.timeout_height || "0"), {
         accountNumber: Number(m.account_number),
@@ -450,6 +462,22 @@ export function validSignedTransaction(tx: string, chainId: string, accountNumbe
 export {
     Coin,
     Height,
+    VoteOption,
+    AminoTypes,
+    createDefaultAminoConverters,
+    MultisigThresholdPubkey,
+    createMultisigThresholdPubkey,
+    pubkeyToAddress,
+    makeMultisignedTx,
+    makeMultisignedTxBytes,
+    Screen,
+    renderTextualScreens,
+    encodeTextualSignDoc,
+    decodeTextualSignDoc,
+    registerTextualMessage,
+    TextualMessageDescriptor,
+    TextualCoinMetadata,
+    TextualCoinMetadataMap,
     EncodeObject,
     StdFee,
     GeneratedType,
@@ -0,0 +1,120 @@
+/**
+ * The following methods are based on `cosmjs`, thanks for their work
+ * https://github.com/cosmos/cosmjs
+ */
+import { base, Long, math } from '@okxweb3/crypto-lib';
+import { CompactBitArray, MultiSignature } from './types/cosmos/crypto/multisig/v1beta1/multisig';
+import { LegacyAminoPubKey } from './types/cosmos/crypto/multisig/keys';
+import { SignMode } from './types/cosmos/tx/signing/v1beta1/signing';
+import { AuthInfo, SignerInfo, TxRaw } from './types/cosmos/tx/v1beta1/tx';
+import { Any } from './types/google/protobuf/any';
+import { encodePubkey, StdFee } from './encoding';
+import { pubkeyToAddress } from './amino/addresses';
+import { isSecp256k1Pubkey, MultisigThresholdPubkey } from './amino/pubkeys';
+
+export function makeCompactBitArray(bits: readonly boolean[]): CompactBitArray {
+    const byteCount = Math.ceil(bits.length / 8);
+    const extraBits = bits.length - Math.floor(bits.length / 8) * 8;
+    const bytes = new Uint8Array(byteCount); // zero-filled
+
+    bits.forEach((value, index) => {
+        const bytePos = Math.floor(index / 8);
+        const bitPos = index % 8;
+        // eslint-disable-next-line no-bitwise
+        if (value) bytes[bytePos] |= 0b1 << (8 - 1 - bitPos);
+    });
+
+    return CompactBitArray.fromPartial({ elems: bytes, extraBitsStored: extraBits });
+}
+
+/**
+ * Encodes a multisig threshold pubkey as a `/cosmos.crypto.multisig.LegacyAminoPubKey`.
+ */
+export function encodeMultisigPubkey(pubkey: MultisigThresholdPubkey): Any {
+    const pubkeyProto = LegacyAminoPubKey.fromPartial({
+        threshold: math.Uint53.fromString(pubkey.value.threshold).toNumber(),
+        publicKeys: pubkey.value.pubkeys.map((member) => {
+            if (!isSecp256k1Pubkey(member)) {
+                throw new Error("Multisig members must be secp256k1 public keys");
+            }
+            return encodePubkey(member.value, false);
+        }),
+    });
+    return Any.fromPartial({
+        typeUrl: "/cosmos.crypto.multisig.LegacyAminoPubKey",
+        value: Uint8Array.from(LegacyAminoPubKey.encode(pubkeyProto).finish()),
+    });
+}
+
+/**
+ * Combines the amino json signatures of the members into a transaction signed by the multisig.
+ *
+ * @param signatures the signatures by member address, the bech32 prefix is taken from the first address
+ */
+export function makeMultisignedTx(
+  multisigPubkey: MultisigThresholdPubkey,
+  sequence: number,
+  fee: StdFee,
+  bodyBytes: Uint8Array,
+  signatures: Map<string, Uint8Array>,
+): TxRaw {
+    const addresses = Array.from(signatures.keys());
+    if (addresses.length === 0) {
+        throw new Error("No signatures");
+    }
+    const [prefix] = base.fromBech32(addresses[0]);
+
+    const signers: boolean[] = Array(multisigPubkey.value.pubkeys.length).fill(false);
+    const signaturesList = new Array<Uint8Array>();
+    for (let i = 0; i < multisigPubkey.value.pubkeys.length; i++) {
+        const signerAddress = pubkeyToAddress(multisigPubkey.value.pubkeys[i], prefix);
+        const signature = signatures.get(signerAddress);
+        if (signature) {
+            signers[i] = true;
+            signaturesList.push(signature);
+        }
+    }
+    if (signaturesList.length !== addresses.length) {
+        throw new Error("Signatures contain an address which is not a member of the multisig");
+    }
+    if (signaturesList.length < math.Uint53.fromString(multisigPubkey.value.threshold).toNumber()) {
+        throw new Error(`Not enough signatures, threshold is ${multisigPubkey.value.threshold}`);
+    }
+
+    const signerInfo: SignerInfo = {
+        publicKey: encodeMultisigPubkey(multisigPubkey),
+        modeInfo: {
+            multi: {
+                bitarray: makeCompactBitArray(signers),
+                modeInfos: signaturesList.map((_) => ({ single: { mode: SignMode.SIGN_MODE_LEGACY_AMINO_JSON } })),
+            },
+        },
+        sequence: Long.fromNumber(sequence),
+    };
+
+    const authInfo = AuthInfo.fromPartial({
+        signerInfos: [signerInfo],
+        fee: {
+            amount: [...fee.amount],
+            gasLimit: Long.fromString(fee.gas),
+        },
+    });
+
+    const authInfoBytes = AuthInfo.encode(authInfo).finish();
+    return TxRaw.fromPartial({
+        bodyBytes: bodyBytes,
+        authInfoBytes: authInfoBytes,
+        signatures: [MultiSignature.encode(MultiSignature.fromPartial({ signatures: signaturesList })).finish()],
+    });
+}
+
+export function makeMultisignedTxBytes(
+  multisigPubkey: MultisigThresholdPubkey,
+  sequence: number,
+  fee: StdFee,
+  bodyBytes: Uint8Array,
+  signatures: Map<string, Uint8Array>,
+): Uint8Array {
+    const signedTx = makeMultisignedTx(multisigPubkey, sequence, fee, bodyBytes, signatures);
+    return Uint8Array.from(TxRaw.encode(signedTx).finish());
+}
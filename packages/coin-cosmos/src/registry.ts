@@ -11,6 +11,16 @@ import {
   MsgDelegate,
   MsgEditValidator, MsgUndelegate,
 } from './types/cosmos/staking/v1beta1/tx';
+import {
+  MsgSetWithdrawAddress,
+  MsgWithdrawDelegatorReward,
+  MsgWithdrawValidatorCommission,
+} from './types/cosmos/distribution/v1beta1/tx';
+import * as govV1beta1 from './types/cosmos/gov/v1beta1/tx';
+import * as govV1 from './types/cosmos/gov/v1/tx';
+import { MsgExec, MsgGrant, MsgRevoke } from './types/cosmos/authz/v1beta1/tx';
+import { GenericAuthorization } from './types/cosmos/authz/v1beta1/authz';
+import { SendAuthorization } from './types/cosmos/bank/v1beta1/authz';
 import { DecodeObject, EncodeObject, TxBodyEncodeObject, TxBodyValue } from './encoding';
 import {TelescopeGeneratedCodec} from "./types";
 
@@ -34,6 +44,32 @@ export const stakingTypes: ReadonlyArray<[string, GeneratedType]> = [
   ["/cosmos.staking.v1beta1.MsgUndelegate", MsgUndelegate],
 ];
 
+// distribution
+export const distributionTypes: ReadonlyArray<[string, GeneratedType]> = [
+  ["/cosmos.distribution.v1beta1.MsgSetWithdrawAddress", MsgSetWithdrawAddress],
+  ["/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward", MsgWithdrawDelegatorReward],
+  ["/cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission", MsgWithdrawValidatorCommission],
+];
+
+// governance, v1beta1 and v1
+export const govTypes: ReadonlyArray<[string, GeneratedType]> = [
+  ["/cosmos.gov.v1beta1.MsgDeposit", govV1beta1.MsgDeposit],
+  ["/cosmos.gov.v1beta1.MsgVote", govV1beta1.MsgVote],
+  ["/cosmos.gov.v1beta1.MsgVoteWeighted", govV1beta1.MsgVoteWeighted],
+  ["/cosmos.gov.v1.MsgDeposit", govV1.MsgDeposit],
+  ["/cosmos.gov.v1.MsgVote", govV1.MsgVote],
+  ["/cosmos.gov.v1.MsgVoteWeighted", govV1.MsgVoteWeighted],
+];
+
+// authz
+export const authzTypes: ReadonlyArray<[string, GeneratedType]> = [
+  ["/cosmos.authz.v1beta1.MsgExec", MsgExec],
+  ["/cosmos.authz.v1beta1.MsgGrant", MsgGrant],
+  ["/cosmos.authz.v1beta1.MsgRevoke", MsgRevoke],
+  ["/cosmos.authz.v1beta1.GenericAuthorization", GenericAuthorization],
+  ["/cosmos.bank.v1beta1.SendAuthorization", SendAuthorization],
+];
+
 /**
  * A type generated by [ts-base](https://github.com/stephenh/ts-proto).
  */
@@ -215,6 +251,9 @@ export const defaultRegistryTypes: ReadonlyArray<[string, GeneratedType]> = [
   ...bankTypes,
   ...stakingTypes,
   ...ibcTypes,
+  ...distributionTypes,
+  ...govTypes,
+  ...authzTypes,
 ];
 
 function createDefaultRegistry(): Registry {
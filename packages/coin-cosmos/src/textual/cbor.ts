@@ -0,0 +1,153 @@
+/**
+ * The subset of CBOR (RFC 8949) used by SIGN_MODE_TEXTUAL: unsigned integers, text strings, booleans,
+ * arrays and maps with definite lengths, in the deterministic (shortest) encoding.
+ */
+import { base } from "@okxweb3/crypto-lib";
+
+export type CborValue = number | string | boolean | CborValue[] | CborMap;
+
+// map entries in encoding order
+export type CborMap = { entries: [CborValue, CborValue][] };
+
+const majorUint = 0;
+const majorText = 3;
+const majorArray = 4;
+const majorMap = 5;
+const majorSimple = 7;
+const simpleFalse = 20;
+const simpleTrue = 21;
+
+function encodeHead(major: number, value: number, out: number[]) {
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new Error(`cbor: invalid length or value ${value}`);
+  }
+  const prefix = major << 5;
+  if (value < 24) {
+    out.push(prefix | value);
+  } else if (value < 0x100) {
+    out.push(prefix | 24, value);
+  } else if (value < 0x10000) {
+    out.push(prefix | 25, value >> 8, value & 0xff);
+  } else if (value < 0x100000000) {
+    out.push(prefix | 26, (value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+  } else {
+    const high = Math.floor(value / 0x100000000);
+    const low = value >>> 0;
+    out.push(prefix | 27,
+      (high >>> 24) & 0xff, (high >> 16) & 0xff, (high >> 8) & 0xff, high & 0xff,
+      (low >>> 24) & 0xff, (low >> 16) & 0xff, (low >> 8) & 0xff, low & 0xff);
+  }
+}
+
+function encodeValue(value: CborValue, out: number[]) {
+  if (typeof value === "number") {
+    encodeHead(majorUint, value, out);
+  } else if (typeof value === "string") {
+    const bytes = base.toUtf8(value);
+    encodeHead(majorText, bytes.length, out);
+    out.push(...bytes);
+  } else if (typeof value === "boolean") {
+    out.push((majorSimple << 5) | (value ? simpleTrue : simpleFalse));
+  } else if (Array.isArray(value)) {
+    encodeHead(majorArray, value.length, out);
+    value.forEach((item) => encodeValue(item, out));
+  } else {
+    encodeHead(majorMap, value.entries.length, out);
+    value.entries.forEach(([key, item]) => {
+      encodeValue(key, out);
+      encodeValue(item, out);
+    });
+  }
+}
+
+export function encodeCbor(value: CborValue): Uint8Array {
+  const out: number[] = [];
+  encodeValue(value, out);
+  return Uint8Array.from(out);
+}
+
+class CborReader {
+  private pos = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  private byte(): number {
+    if (this.pos >= this.data.length) {
+      throw new Error("cbor: unexpected end of data");
+    }
+    return this.data[this.pos++];
+  }
+
+  private argument(info: number): number {
+    if (info < 24) {
+      return info;
+    }
+    const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+    if (size === 0) {
+      throw new Error(`cbor: unsupported additional information ${info}`);
+    }
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+      value = value * 0x100 + this.byte();
+    }
+    if (!Number.isSafeInteger(value)) {
+      throw new Error("cbor: integer out of range");
+    }
+    return value;
+  }
+
+  read(): CborValue {
+    const head = this.byte();
+    const major = head >> 5;
+    const info = head & 0x1f;
+    switch (major) {
+      case majorUint:
+        return this.argument(info);
+      case majorText: {
+        const length = this.argument(info);
+        if (this.pos + length > this.data.length) {
+          throw new Error("cbor: unexpected end of data");
+        }
+        const text = base.fromUtf8(this.data.slice(this.pos, this.pos + length));
+        this.pos += length;
+        return text;
+      }
+      case majorArray: {
+        const length = this.argument(info);
+        const items = [];
+        for (let i = 0; i < length; i++) {
+          items.push(this.read());
+        }
+        return items;
+      }
+      case majorMap: {
+        const length = this.argument(info);
+        const entries: [CborValue, CborValue][] = [];
+        for (let i = 0; i < length; i++) {
+          entries.push([this.read(), this.read()]);
+        }
+        return { entries };
+      }
+      case majorSimple:
+        if (info === simpleFalse || info === simpleTrue) {
+          return info === simpleTrue;
+        }
+        throw new Error(`cbor: unsupported simple value ${info}`);
+      default:
+        throw new Error(`cbor: unsupported major type ${major}`);
+    }
+  }
+
+  done(): boolean {
+    return this.pos === this.data.length;
+  }
+}
+
+export function decodeCbor(data: Uint8Array): CborValue {
+  const reader = new CborReader(data);
+  const value = reader.read();
+  if (!reader.done()) {
+    throw new Error("cbor: trailing data");
+  }
+  return value;
+}
@@ -0,0 +1,353 @@
+/**
+ * Message and Any renderers of SIGN_MODE_TEXTUAL, see
+ * https://github.com/cosmos/cosmos-sdk/blob/main/docs/architecture/adr-050-sign-mode-textual-annex1.md
+ *
+ * The generated types carry no descriptors, so the fields of the rendered messages are declared here
+ * in proto field order with their proto names.
+ */
+import { registry } from "../registry";
+import { Any } from "../types/google/protobuf/any";
+import { PubKey } from "../types/cosmos/crypto/secp256k1/keys";
+import { voteOptionToJSON } from "../types/cosmos/gov/v1beta1/gov";
+import { signModeToJSON } from "../types/cosmos/tx/signing/v1beta1/signing";
+import {
+  formatBytes,
+  formatCoin,
+  formatCoins,
+  formatDecimal,
+  formatLegacyDecimal,
+  formatDuration,
+  formatInteger,
+  formatTimestamp,
+  TextualCoinMetadataMap,
+} from "./values";
+
+export interface Screen {
+  readonly title: string;
+  readonly content: string;
+  readonly indent: number;
+  readonly expert: boolean;
+}
+
+export type TextualFieldKind =
+  | "string"
+  | "uint"
+  | "int"
+  // cosmos.Dec scalar
+  | "dec"
+  // gogoproto LegacyDec custom type, the protobuf string is the atomics with 18 decimals
+  | "legacyDec"
+  | "bool"
+  | "bytes"
+  | "enum"
+  | "coin"
+  // repeated cosmos.base.v1beta1.Coin, rendered in one screen
+  | "coins"
+  | "timestamp"
+  | "duration"
+  | "any"
+  | "message";
+
+export interface TextualFieldDescriptor {
+  // proto field name in snake case
+  readonly name: string;
+  readonly kind: TextualFieldKind;
+  readonly repeated?: boolean;
+  // full name of the message for `message` fields
+  readonly message?: string;
+  // value name for `enum` fields
+  readonly enumName?: (value: number) => string;
+}
+
+export interface TextualMessageDescriptor {
+  readonly fields: readonly TextualFieldDescriptor[];
+  // decoder of the Any value, the registered type of the type url by default
+  readonly decode?: (value: Uint8Array) => any;
+}
+
+const addressField = (name: string): TextualFieldDescriptor => ({ name, kind: "string" });
+const proposalIdField: TextualFieldDescriptor = { name: "proposal_id", kind: "uint" };
+const voteOptionField: TextualFieldDescriptor = { name: "option", kind: "enum", enumName: voteOptionToJSON };
+
+const textualMessages = new Map<string, TextualMessageDescriptor>([
+  ["cosmos.crypto.secp256k1.PubKey", {
+    fields: [{ name: "key", kind: "bytes" }],
+    decode: (value) => PubKey.decode(value),
+  }],
+  ["cosmos.bank.v1beta1.MsgSend", {
+    fields: [addressField("from_address"), addressField("to_address"), { name: "amount", kind: "coins" }],
+  }],
+  ["cosmos.bank.v1beta1.MsgMultiSend", {
+    fields: [
+      { name: "inputs", kind: "message", repeated: true, message: "cosmos.bank.v1beta1.Input" },
+      { name: "outputs", kind: "message", repeated: true, message: "cosmos.bank.v1beta1.Output" },
+    ],
+  }],
+  ["cosmos.bank.v1beta1.Input", {
+    fields: [addressField("address"), { name: "coins", kind: "coins" }],
+  }],
+  ["cosmos.bank.v1beta1.Output", {
+    fields: [addressField("address"), { name: "coins", kind: "coins" }],
+  }],
+  ["ibc.applications.transfer.v1.MsgTransfer", {
+    fields: [
+      { name: "source_port", kind: "string" },
+      { name: "source_channel", kind: "string" },
+      { name: "token", kind: "coin" },
+      addressField("sender"),
+      addressField("receiver"),
+      { name: "timeout_height", kind: "message", message: "ibc.core.client.v1.Height" },
+      { name: "timeout_timestamp", kind: "uint" },
+    ],
+  }],
+  ["ibc.core.client.v1.Height", {
+    fields: [{ name: "revision_number", kind: "uint" }, { name: "revision_height", kind: "uint" }],
+  }],
+  ["cosmos.staking.v1beta1.MsgDelegate", {
+    fields: [addressField("delegator_address"), addressField("validator_address"), { name: "amount", kind: "coin" }],
+  }],
+  ["cosmos.staking.v1beta1.MsgUndelegate", {
+    fields: [addressField("delegator_address"), addressField("validator_address"), { name: "amount", kind: "coin" }],
+  }],
+  ["cosmos.staking.v1beta1.MsgBeginRedelegate", {
+    fields: [
+      addressField("delegator_address"),
+      addressField("validator_src_address"),
+      addressField("validator_dst_address"),
+      { name: "amount", kind: "coin" },
+    ],
+  }],
+  ["cosmos.distribution.v1beta1.MsgSetWithdrawAddress", {
+    fields: [addressField("delegator_address"), addressField("withdraw_address")],
+  }],
+  ["cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward", {
+    fields: [addressField("delegator_address"), addressField("validator_address")],
+  }],
+  ["cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission", {
+    fields: [addressField("validator_address")],
+  }],
+  ["cosmos.gov.v1beta1.MsgVote", {
+    fields: [proposalIdField, addressField("voter"), voteOptionField],
+  }],
+  ["cosmos.gov.v1beta1.MsgVoteWeighted", {
+    fields: [
+      proposalIdField,
+      addressField("voter"),
+      { name: "options", kind: "message", repeated: true, message: "cosmos.gov.v1beta1.WeightedVoteOption" },
+    ],
+  }],
+  ["cosmos.gov.v1beta1.WeightedVoteOption", {
+    fields: [voteOptionField, { name: "weight", kind: "legacyDec" }],
+  }],
+  ["cosmos.gov.v1beta1.MsgDeposit", {
+    fields: [proposalIdField, addressField("depositor"), { name: "amount", kind: "coins" }],
+  }],
+  ["cosmos.gov.v1.MsgVote", {
+    fields: [proposalIdField, addressField("voter"), voteOptionField, { name: "metadata", kind: "string" }],
+  }],
+  ["cosmos.gov.v1.MsgVoteWeighted", {
+    fields: [
+      proposalIdField,
+      addressField("voter"),
+      { name: "options", kind: "message", repeated: true, message: "cosmos.gov.v1.WeightedVoteOption" },
+      { name: "metadata", kind: "string" },
+    ],
+  }],
+  ["cosmos.gov.v1.WeightedVoteOption", {
+    fields: [voteOptionField, { name: "weight", kind: "dec" }],
+  }],
+  ["cosmos.gov.v1.MsgDeposit", {
+    fields: [proposalIdField, addressField("depositor"), { name: "amount", kind: "coins" }],
+  }],
+  ["cosmos.authz.v1beta1.MsgGrant", {
+    fields: [
+      addressField("granter"),
+      addressField("grantee"),
+      { name: "grant", kind: "message", message: "cosmos.authz.v1beta1.Grant" },
+    ],
+  }],
+  ["cosmos.authz.v1beta1.Grant", {
+    fields: [{ name: "authorization", kind: "any" }, { name: "expiration", kind: "timestamp" }],
+  }],
+  ["cosmos.authz.v1beta1.GenericAuthorization", {
+    fields: [{ name: "msg", kind: "string" }],
+  }],
+  ["cosmos.bank.v1beta1.SendAuthorization", {
+    fields: [{ name: "spend_limit", kind: "coins" }, { name: "allow_list", kind: "string", repeated: true }],
+  }],
+  ["cosmos.authz.v1beta1.MsgExec", {
+    fields: [addressField("grantee"), { name: "msgs", kind: "any", repeated: true }],
+  }],
+  ["cosmos.authz.v1beta1.MsgRevoke", {
+    fields: [addressField("granter"), addressField("grantee"), { name: "msg_type_url", kind: "string" }],
+  }],
+  ["cosmos.tx.v1beta1.SignerInfo", {
+    fields: [
+      { name: "public_key", kind: "any" },
+      { name: "mode_info", kind: "message", message: "cosmos.tx.v1beta1.ModeInfo" },
+      { name: "sequence", kind: "uint" },
+    ],
+  }],
+  ["cosmos.tx.v1beta1.ModeInfo", {
+    fields: [
+      { name: "single", kind: "message", message: "cosmos.tx.v1beta1.ModeInfo.Single" },
+      { name: "multi", kind: "message", message: "cosmos.tx.v1beta1.ModeInfo.Multi" },
+    ],
+  }],
+  ["cosmos.tx.v1beta1.ModeInfo.Single", {
+    fields: [{ name: "mode", kind: "enum", enumName: signModeToJSON }],
+  }],
+  ["cosmos.tx.v1beta1.ModeInfo.Multi", {
+    fields: [
+      { name: "bitarray", kind: "message", message: "cosmos.crypto.multisig.v1beta1.CompactBitArray" },
+      { name: "mode_infos", kind: "message", repeated: true, message: "cosmos.tx.v1beta1.ModeInfo" },
+    ],
+  }],
+  ["cosmos.crypto.multisig.v1beta1.CompactBitArray", {
+    fields: [{ name: "extra_bits_stored", kind: "uint" }, { name: "elems", kind: "bytes" }],
+  }],
+]);
+
+/**
+ * Registers how the fields of a message are rendered, for messages of other modules and chains.
+ *
+ * @param name the full name of the message, e.g. `cosmos.bank.v1beta1.MsgSend`
+ */
+export function registerTextualMessage(name: string, descriptor: TextualMessageDescriptor) {
+  textualMessages.set(name, descriptor);
+}
+
+function lookupMessage(name: string): TextualMessageDescriptor {
+  const descriptor = textualMessages.get(name);
+  if (!descriptor) {
+    throw new Error(`textual: no renderer for ${name}`);
+  }
+  return descriptor;
+}
+
+// e.g. `from_address` => `From address`
+export function toSentenceCase(name: string): string {
+  const words = name.replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function toCamelCase(name: string): string {
+  return name.replace(/_([a-z0-9])/g, (_, c) => c.toUpperCase());
+}
+
+function isSet(field: TextualFieldDescriptor, value: any): boolean {
+  if (value === undefined || value === null) {
+    return false;
+  }
+  if (field.repeated || field.kind === "coins") {
+    return value.length > 0;
+  }
+  switch (field.kind) {
+    case "string":
+    case "dec":
+    case "legacyDec":
+      return value !== "";
+    case "uint":
+    case "int":
+      // Long, bigint, number or string
+      return value.toString() !== "0";
+    case "bool":
+      return value === true;
+    case "bytes":
+      return value.length > 0;
+    case "enum":
+      return value !== 0;
+    default:
+      return true;
+  }
+}
+
+function line(content: string): Screen[] {
+  return [{ title: "", content, indent: 0, expert: false }];
+}
+
+function renderValue(field: TextualFieldDescriptor, value: any, metadata?: TextualCoinMetadataMap): Screen[] {
+  switch (field.kind) {
+    case "string":
+      return line(value);
+    case "uint":
+    case "int":
+      return line(formatInteger(value));
+    case "dec":
+      return line(formatDecimal(value));
+    case "legacyDec":
+      return line(formatLegacyDecimal(value));
+    case "bool":
+      return line(value ? "True" : "False");
+    case "bytes":
+      return line(formatBytes(value));
+    case "enum":
+      return line(field.enumName!(value));
+    case "coin":
+      return line(formatCoin(value, metadata));
+    case "coins":
+      return line(formatCoins(value, metadata));
+    case "timestamp":
+      return line(formatTimestamp(value));
+    case "duration":
+      return line(formatDuration(value));
+    case "any":
+      return renderAny(value, metadata);
+    case "message":
+      return renderMessage(field.message!, value, metadata);
+  }
+}
+
+/**
+ * Renders the field value with its title in the first screen, the remaining screens are indented one more level.
+ */
+export function titled(title: string, screens: Screen[], expert = false): Screen[] {
+  return screens.map((screen, i) => ({
+    title: i === 0 ? title : screen.title,
+    content: screen.content,
+    indent: screen.indent + 1,
+    expert: screen.expert || expert,
+  }));
+}
+
+function renderRepeated(field: TextualFieldDescriptor, values: any[], metadata?: TextualCoinMetadataMap): Screen[] {
+  const title = toSentenceCase(field.name);
+  const kind = field.kind === "any" ? "Any" : field.kind === "message" ? field.message!.split(".").pop() : field.kind;
+  const screens = line(`${values.length} ${kind}`);
+  values.forEach((value, i) => {
+    screens.push(...titled(`${title} (${i + 1}/${values.length})`, renderValue(field, value, metadata)));
+  });
+  screens.push(...line(`End of ${title}`));
+  return screens;
+}
+
+/**
+ * Renders a message as `<full name> object`, followed by its non-default fields one level deeper.
+ */
+export function renderMessage(name: string, value: any, metadata?: TextualCoinMetadataMap): Screen[] {
+  const descriptor = lookupMessage(name);
+  const screens = line(`${name} object`);
+  for (const field of descriptor.fields) {
+    const fieldValue = value[toCamelCase(field.name)];
+    if (!isSet(field, fieldValue)) {
+      continue;
+    }
+    const fieldScreens = field.repeated
+      ? renderRepeated(field, fieldValue, metadata)
+      : renderValue(field, fieldValue, metadata);
+    screens.push(...titled(toSentenceCase(field.name), fieldScreens));
+  }
+  return screens;
+}
+
+/**
+ * Renders an Any as its type url, followed by the fields of the packed message.
+ */
+export function renderAny(any: Any, metadata?: TextualCoinMetadataMap): Screen[] {
+  const name = any.typeUrl.replace(/^\//, "");
+  const descriptor = lookupMessage(name);
+  const value = descriptor.decode
+    ? descriptor.decode(any.value)
+    : registry.decode({ typeUrl: any.typeUrl, value: any.value });
+  return [...line(any.typeUrl), ...renderMessage(name, value, metadata).slice(1)];
+}
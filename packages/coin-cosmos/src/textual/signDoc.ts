@@ -0,0 +1,159 @@
+/**
+ * SIGN_MODE_TEXTUAL sign doc, see
+ * https://github.com/cosmos/cosmos-sdk/blob/main/docs/architecture/adr-050-sign-mode-textual.md
+ */
+import { base } from "@okxweb3/crypto-lib";
+import { AuthInfo, TxBody } from "../types/cosmos/tx/v1beta1/tx";
+import { Any } from "../types/google/protobuf/any";
+import { CborMap, CborValue, decodeCbor, encodeCbor } from "./cbor";
+import { renderAny, renderMessage, Screen, titled } from "./message";
+import { formatBytes, formatCoins, formatInteger, TextualCoinMetadataMap } from "./values";
+
+export interface TextualSignerData {
+  readonly chainId: string;
+  readonly accountNumber: number;
+  readonly sequence: number;
+  // bech32 address of the signer
+  readonly address: string;
+  readonly pubKey: Any;
+}
+
+const screensKey = 1;
+const titleKey = 1;
+const contentKey = 2;
+const indentKey = 3;
+const expertKey = 4;
+
+function field(title: string, screens: Screen[], expert = false): Screen[] {
+  // the envelope fields are not nested in a message, so the first level is not indented
+  return titled(title, screens, expert).map((screen) => ({ ...screen, indent: screen.indent - 1 }));
+}
+
+function text(title: string, content: string, expert = false): Screen[] {
+  return [{ title, content, indent: 0, expert }];
+}
+
+function list(title: string, kind: string, items: Any[], metadata?: TextualCoinMetadataMap): Screen[] {
+  const screens = text(title, `${items.length} ${kind}`, true);
+  items.forEach((item, i) => {
+    screens.push(...titled(`${title} (${i + 1}/${items.length})`, renderAny(item, metadata), true));
+  });
+  screens.push(...text("", `End of ${title}`, true));
+  return screens;
+}
+
+// HEX(sha256(len(body_bytes) ++ body_bytes ++ len(auth_info_bytes) ++ auth_info_bytes)), lengths as 8 bytes big endian
+function hashOfRawBytes(bodyBytes: Uint8Array, authInfoBytes: Uint8Array): Uint8Array {
+  const length = (bytes: Uint8Array) => {
+    const out = Buffer.alloc(8);
+    out.writeUInt32BE(bytes.length, 4);
+    return out;
+  };
+  return base.sha256(Buffer.concat([length(bodyBytes), bodyBytes, length(authInfoBytes), authInfoBytes]));
+}
+
+/**
+ * Renders the screens of a transaction a signer reviews in SIGN_MODE_TEXTUAL.
+ *
+ * @param metadata display units of the denoms, amounts are rendered in base denoms when not given
+ */
+export function renderTextualScreens(
+  bodyBytes: Uint8Array,
+  authInfoBytes: Uint8Array,
+  signerData: TextualSignerData,
+  metadata?: TextualCoinMetadataMap,
+): Screen[] {
+  const body = TxBody.decode(bodyBytes);
+  const authInfo = AuthInfo.decode(authInfoBytes);
+  const fee = authInfo.fee;
+
+  const screens: Screen[] = [
+    ...text("Chain id", signerData.chainId),
+    ...text("Account number", formatInteger(signerData.accountNumber)),
+    ...text("Sequence", formatInteger(signerData.sequence)),
+    ...text("Address", signerData.address),
+    ...field("Public key", renderAny(signerData.pubKey, metadata), true),
+  ];
+
+  const count = body.messages.length;
+  screens.push(...text("", `This transaction has ${count} Message${count === 1 ? "" : "s"}`));
+  body.messages.forEach((message, i) => {
+    screens.push(...titled(`Message (${i + 1}/${count})`, renderAny(message, metadata)));
+  });
+  screens.push(...text("", "End of Message"));
+
+  if (body.memo) {
+    screens.push(...text("Memo", body.memo));
+  }
+  if (fee && fee.amount.length > 0) {
+    screens.push(...text("Fees", formatCoins(fee.amount, metadata)));
+  }
+  if (fee && fee.payer) {
+    screens.push(...text("Fee payer", fee.payer, true));
+  }
+  if (fee && fee.granter) {
+    screens.push(...text("Fee granter", fee.granter, true));
+  }
+  if (fee && !fee.gasLimit.isZero()) {
+    screens.push(...text("Gas limit", formatInteger(fee.gasLimit), true));
+  }
+  if (!body.timeoutHeight.isZero()) {
+    screens.push(...text("Timeout height", formatInteger(body.timeoutHeight), true));
+  }
+
+  const signerPubKey = Any.encode(signerData.pubKey).finish();
+  const otherSigners = authInfo.signerInfos.filter((signerInfo) =>
+    !signerInfo.publicKey || base.toHex(Any.encode(signerInfo.publicKey).finish()) !== base.toHex(signerPubKey));
+  if (otherSigners.length > 0) {
+    screens.push(...text("Other signer", `${otherSigners.length} SignerInfo`, true));
+    otherSigners.forEach((signerInfo, i) => {
+      const rendered = renderMessage("cosmos.tx.v1beta1.SignerInfo", signerInfo);
+      screens.push(...titled(`Other signer (${i + 1}/${otherSigners.length})`, rendered, true));
+    });
+    screens.push(...text("", "End of other signers", true));
+  }
+  if (body.extensionOptions.length > 0) {
+    screens.push(...list("Extension options", "Any", body.extensionOptions, metadata));
+  }
+  if (body.nonCriticalExtensionOptions.length > 0) {
+    screens.push(...list("Non critical extension options", "Any", body.nonCriticalExtensionOptions, metadata));
+  }
+  screens.push(...text("Hash of raw bytes", formatBytes(hashOfRawBytes(bodyBytes, authInfoBytes)), true));
+  return screens;
+}
+
+/**
+ * Encodes the screens as the CBOR map `{1: [{1: title, 2: content, 3: indent, 4: expert}]}`,
+ * omitting the empty title and content, the zero indent and the false expert flag.
+ */
+export function encodeTextualSignDoc(screens: readonly Screen[]): Uint8Array {
+  const items: CborValue[] = screens.map((screen) => {
+    const entries: [CborValue, CborValue][] = [];
+    if (screen.title) entries.push([titleKey, screen.title]);
+    if (screen.content) entries.push([contentKey, screen.content]);
+    if (screen.indent > 0) entries.push([indentKey, screen.indent]);
+    if (screen.expert) entries.push([expertKey, true]);
+    return { entries };
+  });
+  return encodeCbor({ entries: [[screensKey, items]] });
+}
+
+export function decodeTextualSignDoc(data: Uint8Array): Screen[] {
+  const doc = decodeCbor(data) as CborMap;
+  const screens = doc.entries && doc.entries.find(([key]) => key === screensKey);
+  if (!screens || !Array.isArray(screens[1])) {
+    throw new Error("textual: invalid sign doc");
+  }
+  return screens[1].map((item) => {
+    const entries = (item as CborMap).entries || [];
+    const get = (key: number) => (entries.find(([k]) => k === key) || [])[1];
+    return {
+      title: (get(titleKey) as string) || "",
+      content: (get(contentKey) as string) || "",
+      indent: (get(indentKey) as number) || 0,
+      expert: (get(expertKey) as boolean) || false,
+    };
+  });
+}
+
+export { Screen };
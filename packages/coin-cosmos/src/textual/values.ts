@@ -0,0 +1,165 @@
+/**
+ * Value renderers of SIGN_MODE_TEXTUAL, see
+ * https://github.com/cosmos/cosmos-sdk/blob/main/docs/architecture/adr-050-sign-mode-textual-annex1.md
+ */
+import { base, Long } from "@okxweb3/crypto-lib";
+import { Coin } from "../types/cosmos/base/v1beta1/coin";
+
+/**
+ * Display unit of a denom, as in the bank metadata of the chain.
+ * e.g. `{ display: "ATOM", exponent: 6 }` for `uatom`
+ */
+export interface TextualCoinMetadata {
+  readonly display: string;
+  readonly exponent: number;
+}
+
+export type TextualCoinMetadataMap = Record<string, TextualCoinMetadata>;
+
+const thousandsSeparator = "'";
+
+function groupThousands(digits: string): string {
+  const groups = [];
+  for (let end = digits.length; end > 0; end -= 3) {
+    groups.unshift(digits.slice(Math.max(0, end - 3), end));
+  }
+  return groups.join(thousandsSeparator);
+}
+
+/**
+ * Renders an integer with `'` as thousands separator, e.g. `1'000'000`.
+ */
+export function formatInteger(value: string | number | Long): string {
+  const str = value.toString();
+  if (!/^-?\d+$/.test(str)) {
+    throw new Error(`invalid integer: ${str}`);
+  }
+  const negative = str.startsWith("-");
+  const digits = str.replace(/^-/, "").replace(/^0+(?=\d)/, "");
+  return (negative && digits !== "0" ? "-" : "") + groupThousands(digits);
+}
+
+/**
+ * Renders a decimal with `'` as thousands separator and without trailing zeros, e.g. `1'000.5`.
+ */
+export function formatDecimal(value: string): string {
+  if (!/^-?\d*\.?\d*$/.test(value) || !/\d/.test(value)) {
+    throw new Error(`invalid decimal: ${value}`);
+  }
+  const negative = value.startsWith("-");
+  const [integer, fraction = ""] = value.replace(/^-/, "").split(".");
+  const integerPart = formatInteger(integer || "0");
+  const fractionPart = fraction.replace(/0+$/, "");
+  if (integerPart === "0" && fractionPart === "") {
+    return "0";
+  }
+  return (negative ? "-" : "") + integerPart + (fractionPart ? "." + fractionPart : "");
+}
+
+/**
+ * Renders a legacy sdk.Dec, encoded in protobuf as its atomics with 18 decimals, e.g. `700000000000000000` as `0.7`.
+ */
+export function formatLegacyDecimal(atomics: string): string {
+  if (!/^-?\d+$/.test(atomics)) {
+    throw new Error(`invalid legacy decimal: ${atomics}`);
+  }
+  return formatDecimal(shiftDecimal(atomics, 18));
+}
+
+// moves the decimal point of an integer string `exponent` digits to the left
+function shiftDecimal(integer: string, exponent: number): string {
+  const negative = integer.startsWith("-");
+  const digits = integer.replace(/^-/, "").padStart(exponent + 1, "0");
+  const point = digits.length - exponent;
+  return (negative ? "-" : "") + digits.slice(0, point) + (exponent > 0 ? "." + digits.slice(point) : "");
+}
+
+function displayCoin(coin: Coin, metadata?: TextualCoinMetadataMap): [string, string] {
+  const unit = metadata && metadata[coin.denom];
+  if (!unit || unit.display === coin.denom) {
+    return [formatInteger(coin.amount), coin.denom];
+  }
+  return [formatDecimal(shiftDecimal(coin.amount, unit.exponent)), unit.display];
+}
+
+/**
+ * Renders a coin in its display unit when the metadata of the denom is known, e.g. `1.5 ATOM`,
+ * otherwise in the base denom, e.g. `1'500'000 uatom`.
+ */
+export function formatCoin(coin: Coin, metadata?: TextualCoinMetadataMap): string {
+  const [amount, denom] = displayCoin(coin, metadata);
+  return `${amount} ${denom}`;
+}
+
+/**
+ * Renders coins sorted by display denom and separated by `, `.
+ */
+export function formatCoins(coins: readonly Coin[], metadata?: TextualCoinMetadataMap): string {
+  if (coins.length === 0) {
+    return "zero";
+  }
+  return coins
+    .map((coin) => displayCoin(coin, metadata))
+    .sort(([, lhs], [, rhs]) => (lhs < rhs ? -1 : lhs > rhs ? 1 : 0))
+    .map(([amount, denom]) => `${amount} ${denom}`)
+    .join(", ");
+}
+
+function formatNanos(nanos: number): string {
+  return nanos === 0 ? "" : "." + nanos.toString().padStart(9, "0").replace(/0+$/, "");
+}
+
+/**
+ * Renders a timestamp in RFC 3339 with UTC and without trailing zeros of the fractional seconds,
+ * e.g. `2006-01-02T15:04:05.7Z`.
+ */
+export function formatTimestamp(timestamp: { seconds: Long | number; nanos: number }): string {
+  const seconds = Long.fromValue(timestamp.seconds).toNumber();
+  const iso = new Date(seconds * 1000).toISOString();
+  if (iso.startsWith("+") || iso.startsWith("-")) {
+    throw new Error("timestamp out of range");
+  }
+  return iso.slice(0, 19) + formatNanos(timestamp.nanos) + "Z";
+}
+
+function pluralize(count: number | string, unit: string): string {
+  return `${count} ${unit}${count === 1 || count === "1" ? "" : "s"}`;
+}
+
+/**
+ * Renders a duration in days, hours, minutes and seconds, omitting zero components,
+ * e.g. `1 day, 2 hours, 0.5 seconds`.
+ */
+export function formatDuration(duration: { seconds: Long | number; nanos: number }): string {
+  let seconds = Long.fromValue(duration.seconds);
+  let nanos = duration.nanos;
+  const negative = seconds.isNegative() || nanos < 0;
+  if (negative) {
+    seconds = seconds.negate();
+    nanos = -nanos;
+  }
+  const days = seconds.divide(86400).toNumber();
+  const hours = seconds.modulo(86400).divide(3600).toNumber();
+  const minutes = seconds.modulo(3600).divide(60).toNumber();
+  const rest = seconds.modulo(60).toNumber();
+
+  const components = [];
+  if (days > 0) components.push(pluralize(days, "day"));
+  if (hours > 0) components.push(pluralize(hours, "hour"));
+  if (minutes > 0) components.push(pluralize(minutes, "minute"));
+  if (rest > 0 || nanos > 0 || components.length === 0) {
+    components.push(pluralize(rest.toString() + formatNanos(nanos), "second"));
+  }
+  return (negative ? "-" : "") + components.join(", ");
+}
+
+/**
+ * Renders bytes in upper case hex grouped by 4 digits. Bytes longer than 35 are rendered as their sha256 hash,
+ * prefixed with `SHA-256=`.
+ */
+export function formatBytes(bytes: Uint8Array): string {
+  const hashed = bytes.length > 35;
+  const hex = base.toHex(hashed ? base.sha256(bytes) : bytes).toUpperCase();
+  const grouped = (hex.match(/.{1,4}/g) || []).join(" ");
+  return hashed ? `SHA-256=${grouped}` : grouped;
+}
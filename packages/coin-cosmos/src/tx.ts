@@ -12,7 +12,11 @@ import {
     StdFee,
     TxBodyEncodeObject,
 } from './encoding';
-import { private2Public } from './index';
+import { addressFromPublic, private2Public } from './index';
+import { AminoTypes } from './amino/aminotypes';
+import * as amino from './amino/signDoc';
+import { encodeTextualSignDoc, renderTextualScreens } from './textual/signDoc';
+import { TextualCoinMetadataMap } from './textual/values';
 
 export interface SignerData {
     readonly accountNumber: number;
@@ -24,6 +28,12 @@ export interface SignerData {
     readonly pubKeyUrl?: string
 }
 
+export interface TextualSignOptions {
+    // bech32 prefix of the signer address
+    readonly prefix: string
+    readonly metadata?: TextualCoinMetadataMap
+}
+
 /**
  * Create signer infos from the provided signers.
  *
@@ -90,14 +100,24 @@ export function makeSignBytes({ accountNumber, authInfoBytes, bodyBytes, chainId
 }
 
 
+/**
+ * Signs with SIGN_MODE_DIRECT, with SIGN_MODE_LEGACY_AMINO_JSON when `aminoTypes` is given,
+ * or with SIGN_MODE_TEXTUAL when `textual` is given.
+ */
 export async function signTx(
   messages: EncodeObject[],
   fee: StdFee,
   memo = "",
   timeoutHeight: Long,
-  signerData: SignerData
+  signerData: SignerData,
+  aminoTypes?: AminoTypes,
+  textual?: TextualSignOptions,
 ): Promise<any> {
-    const txRaw = await signDirect(messages, fee, memo, timeoutHeight, signerData)
+    const txRaw = aminoTypes
+      ? await signAmino(messages, fee, memo, timeoutHeight, signerData, aminoTypes)
+      : textual
+        ? await signTextual(messages, fee, memo, timeoutHeight, signerData, textual)
+        : await signDirect(messages, fee, memo, timeoutHeight, signerData)
     if (!signerData.privateKey) {
         return txRaw;
     }
@@ -146,15 +166,114 @@ export async function signDirect(
     });
 }
 
+export async function signAmino(
+  messages: readonly EncodeObject[],
+  fee: StdFee,
+  memo: string,
+  timeoutHeight: Long,
+  {accountNumber, sequence, chainId, privateKey, useEthSecp256k1, publicKey, pubKeyUrl}: SignerData,
+  aminoTypes: AminoTypes,
+): Promise<any> {
+    const calcPublicKey = privateKey ? private2Public(privateKey, true) : base.fromHex(publicKey!);
+    const pubkey = encodePubkey(encodeSecp256k1Pubkey(calcPublicKey), useEthSecp256k1, pubKeyUrl);
+    const msgs = messages.map((msg) => aminoTypes.toAmino(msg));
+    const signDoc = amino.makeSignDoc(msgs, fee, chainId, memo, accountNumber, sequence, timeoutHeight);
+    const signDocBytes = amino.serializeSignDoc(signDoc);
+    const messageHash = useEthSecp256k1 ? base.keccak256(signDocBytes) : base.sha256(signDocBytes);
+    // the body is rebuilt from the signed amino messages, so both always describe the same messages
+    const txBodyEncodeObject: TxBodyEncodeObject = {
+        typeUrl: "/cosmos.tx.v1beta1.TxBody",
+        value: {
+            messages: msgs.map((msg) => aminoTypes.fromAmino(msg)),
+            memo: memo,
+            timeoutHeight: timeoutHeight,
+        },
+    };
+    const txBodyBytes = registry.encode(txBodyEncodeObject);
+    const gasLimit = math.Int53.fromString(fee.gas).toNumber();
+    const authInfoBytes = makeAuthInfoBytes([{pubkey, sequence}], fee.amount, gasLimit, SignMode.SIGN_MODE_LEGACY_AMINO_JSON);
+    if (!privateKey) {
+        return {
+            raw: base.toHex(TxRaw.encode(TxRaw.fromPartial({
+                bodyBytes: txBodyBytes,
+                authInfoBytes: authInfoBytes,
+                signatures: [],
+            })).finish()),
+            hash: base.toHex(messageHash),
+            doc: base.toHex(signDocBytes),
+        }
+    }
+    const signature = signHash(messageHash, calcPublicKey, privateKey, useEthSecp256k1);
+    return TxRaw.fromPartial({
+        bodyBytes: txBodyBytes,
+        authInfoBytes: authInfoBytes,
+        signatures: [base.fromBase64(signature)],
+    });
+}
+
+export async function signTextual(
+  messages: readonly EncodeObject[],
+  fee: StdFee,
+  memo: string,
+  timeoutHeight: Long,
+  {accountNumber, sequence, chainId, privateKey, useEthSecp256k1, publicKey, pubKeyUrl}: SignerData,
+  {prefix, metadata}: TextualSignOptions,
+): Promise<any> {
+    const calcPublicKey = privateKey ? private2Public(privateKey, true) : base.fromHex(publicKey!);
+    const pubkey = encodePubkey(encodeSecp256k1Pubkey(calcPublicKey), useEthSecp256k1, pubKeyUrl);
+    const txBodyEncodeObject: TxBodyEncodeObject = {
+        typeUrl: "/cosmos.tx.v1beta1.TxBody",
+        value: {
+            messages: messages,
+            memo: memo,
+            timeoutHeight: timeoutHeight,
+        },
+    };
+    const txBodyBytes = registry.encode(txBodyEncodeObject);
+    const gasLimit = math.Int53.fromString(fee.gas).toNumber();
+    const authInfoBytes = makeAuthInfoBytes([{pubkey, sequence}], fee.amount, gasLimit, SignMode.SIGN_MODE_TEXTUAL);
+    const address = addressFromPublic(base.toHex(calcPublicKey), prefix, useEthSecp256k1);
+    const screens = renderTextualScreens(txBodyBytes, authInfoBytes, {
+        chainId: chainId,
+        accountNumber: accountNumber,
+        sequence: sequence,
+        address: address,
+        pubKey: pubkey,
+    }, metadata);
+    const signDocBytes = encodeTextualSignDoc(screens);
+    const messageHash = useEthSecp256k1 ? base.keccak256(signDocBytes) : base.sha256(signDocBytes);
+    if (!privateKey) {
+        return {
+            raw: base.toHex(TxRaw.encode(TxRaw.fromPartial({
+                bodyBytes: txBodyBytes,
+                authInfoBytes: authInfoBytes,
+                signatures: [],
+            })).finish()),
+            hash: base.toHex(messageHash),
+            doc: base.toHex(signDocBytes),
+        }
+    }
+    const signature = signHash(messageHash, calcPublicKey, privateKey, useEthSecp256k1);
+    return TxRaw.fromPartial({
+        bodyBytes: txBodyBytes,
+        authInfoBytes: authInfoBytes,
+        signatures: [base.fromBase64(signature)],
+    });
+}
+
 export async function doSign(signDoc: SignDoc, publicKey: Uint8Array, privateKey: Uint8Array, useEthSecp256k1: boolean): Promise<string> {
     const signDocBytes = makeSignBytes(signDoc);
     const messageHash = useEthSecp256k1 ? base.keccak256(signDocBytes) : base.sha256(signDocBytes);
+    return Promise.resolve(signHash(messageHash, publicKey, privateKey, useEthSecp256k1));
+}
+
+function signHash(messageHash: Uint8Array, publicKey: Uint8Array, privateKey: Uint8Array, useEthSecp256k1: boolean): string {
     const { signature, recovery } = signUtil.secp256k1.sign(Buffer.from(messageHash), privateKey)
     if(useEthSecp256k1) {
         const l = [Uint8Array.from(signature), Uint8Array.of(recovery)]
         const signatureR1 = Buffer.concat(l);
-        return Promise.resolve(encodeSecp256k1Signature(publicKey, signatureR1, true))
+        return encodeSecp256k1Signature(publicKey, signatureR1, true)
     } else {
-        return Promise.resolve(encodeSecp256k1Signature(publicKey, signature, false))
+        return encodeSecp256k1Signature(publicKey, signature, false)
     }
 }
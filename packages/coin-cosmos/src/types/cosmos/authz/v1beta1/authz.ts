@@ -0,0 +1,144 @@
+/* eslint-disable */
+/**
+ * The following methods are based on `cosmos`, thanks for their work
+ * https://github.com/cosmos/groups-ui
+ */
+import {Long} from "@okxweb3/crypto-lib";
+import { _m0 } from "@okxweb3/crypto-lib";
+import { Any } from "../../../google/protobuf/any";
+import { Timestamp } from "../../../google/protobuf/timestamp";
+import { DeepPartial, Exact, isSet } from '../../tx/v1beta1/tx';
+
+export const protobufPackage = "cosmos.authz.v1beta1";
+
+/**
+ * GenericAuthorization gives the grantee unrestricted permissions to execute
+ * the provided method on behalf of the granter's account.
+ */
+export interface GenericAuthorization {
+  /** Msg, identified by it's type URL, to grant unrestricted permissions to execute */
+  msg: string;
+}
+
+function createBaseGenericAuthorization(): GenericAuthorization {
+  return { msg: "" };
+}
+
+export const GenericAuthorization = {
+  encode(message: GenericAuthorization, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.msg !== "") {
+      writer.uint32(10).string(message.msg);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): GenericAuthorization {
+    const reader = input instanceof _m0.Reader ? input : new _m0.Reader(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGenericAuthorization();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          message.msg = reader.string();
+          break;
+        default:
+          reader.skipType(tag & 7);
+          break;
+      }
+    }
+    return message;
+  },
+
+  fromJSON(object: any): GenericAuthorization {
+    return {
+      msg: isSet(object.msg) ? String(object.msg) : "",
+    };
+  },
+
+  toJSON(message: GenericAuthorization): unknown {
+    const obj: any = {};
+    message.msg !== undefined && (obj.msg = message.msg);
+    return obj;
+  },
+
+  fromPartial<I extends Exact<DeepPartial<GenericAuthorization>, I>>(object: I): GenericAuthorization {
+    const message = createBaseGenericAuthorization();
+    message.msg = object.msg ?? "";
+    return message;
+  },
+};
+
+/**
+ * Grant gives permissions to execute
+ * the provide method with expiration time.
+ */
+export interface Grant {
+  authorization?: Any;
+  /** time when the grant will expire and will be pruned. If null, then the grant doesn't have a time expiration (other conditions  in `authorization` may apply to invalidate the grant) */
+  expiration?: Timestamp;
+}
+
+function createBaseGrant(): Grant {
+  return { authorization: undefined, expiration: undefined };
+}
+
+export const Grant = {
+  encode(message: Grant, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.authorization !== undefined) {
+      Any.encode(message.authorization, writer.uint32(10).fork()).ldelim();
+    }
+    if (message.expiration !== undefined) {
+      Timestamp.encode(message.expiration, writer.uint32(18).fork()).ldelim();
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): Grant {
+    const reader = input instanceof _m0.Reader ? input : new _m0.Reader(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseGrant();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          message.authorization = Any.decode(reader, reader.uint32());
+          break;
+        case 2:
+          message.expiration = Timestamp.decode(reader, reader.uint32());
+          break;
+        default:
+          reader.skipType(tag & 7);
+          break;
+      }
+    }
+    return message;
+  },
+
+  fromJSON(object: any): Grant {
+    return {
+      authorization: isSet(object.authorization) ? Any.fromJSON(object.authorization) : undefined,
+      expiration: isSet(object.expiration) ? Timestamp.fromJSON(object.expiration) : undefined,
+    };
+  },
+
+  toJSON(message: Grant): unknown {
+    const obj: any = {};
+    message.authorization !== undefined && (obj.authorization = message.authorization ? Any.toJSON(message.authorization) : undefined);
+    message.expiration !== undefined && (obj.expiration = message.expiration ? Timestamp.toJSON(message.expiration) : undefined);
+    return obj;
+  },
+
+  fromPartial<I extends Exact<DeepPartial<Grant>, I>>(object: I): Grant {
+    const message = createBaseGrant();
+    message.authorization =
+      object.authorization !== undefined && object.authorization !== null ? Any.fromPartial(object.authorization) : undefined;
+    message.expiration =
+      object.expiration !== undefined && object.expiration !== null ? Timestamp.fromPartial(object.expiration) : undefined;
+    return message;
+  },
+};
+if (_m0.util.Long !== Long) {
+  _m0.util.Long = Long as any;
+  _m0.configure();
+}
@@ -0,0 +1,91 @@
+/* eslint-disable */
+/**
+ * The following methods are based on `cosmos`, thanks for their work
+ * https://github.com/cosmos/groups-ui
+ */
+import {Long} from "@okxweb3/crypto-lib";
+import { _m0 } from "@okxweb3/crypto-lib";
+import { Coin } from '../../base/v1beta1/coin';
+import { DeepPartial, Exact, isSet } from '../../tx/v1beta1/tx';
+
+export const protobufPackage = "cosmos.bank.v1beta1";
+
+/**
+ * SendAuthorization allows the grantee to spend up to spend_limit coins from
+ * the granter's account.
+ */
+export interface SendAuthorization {
+  spendLimit: Coin[];
+  /** allow_list specifies an optional list of addresses to whom the grantee can send tokens on behalf of the granter. If omitted, any recipient is allowed. */
+  allowList: string[];
+}
+
+function createBaseSendAuthorization(): SendAuthorization {
+  return { spendLimit: [], allowList: [] };
+}
+
+export const SendAuthorization = {
+  encode(message: SendAuthorization, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    for (const v of message.spendLimit) {
+      Coin.encode(v!, writer.uint32(10).fork()).ldelim();
+    }
+    for (const v of message.allowList) {
+      writer.uint32(18).string(v!);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): SendAuthorization {
+    const reader = input instanceof _m0.Reader ? input : new _m0.Reader(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseSendAuthorization();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          message.spendLimit.push(Coin.decode(reader, reader.uint32()));
+          break;
+        case 2:
+          message.allowList.push(reader.string());
+          break;
+        default:
+          reader.skipType(tag & 7);
+          break;
+      }
+    }
+    return message;
+  },
+
+  fromJSON(object: any): SendAuthorization {
+    return {
+      spendLimit: Array.isArray(object?.spendLimit) ? object.spendLimit.map((e: any) => Coin.fromJSON(e)) : [],
+      allowList: Array.isArray(object?.allowList) ? object.allowList.map((e: any) => String(e)) : [],
+    };
+  },
+
+  toJSON(message: SendAuthorization): unknown {
+    const obj: any = {};
+    if (message.spendLimit) {
+      obj.spendLimit = message.spendLimit.map((e) => e ? Coin.toJSON(e) : undefined);
+    } else {
+      obj.spendLimit = [];
+    }
+    if (message.allowList) {
+      obj.allowList = message.allowList.map((e) => e);
+    } else {
+      obj.allowList = [];
+    }
+    return obj;
+  },
+
+  fromPartial<I extends Exact<DeepPartial<SendAuthorization>, I>>(object: I): SendAuthorization {
+    const message = createBaseSendAuthorization();
+    message.spendLimit = object.spendLimit?.map((e) => Coin.fromPartial(e)) || [];
+    message.allowList = object.allowList?.map((e) => e) || [];
+    return message;
+  },
+};
+if (_m0.util.Long !== Long) {
+  _m0.util.Long = Long as any;
+  _m0.configure();
+}
@@ -0,0 +1,125 @@
+import {AtomWallet, CommonCosmosWallet, EvmosWallet, OsmoWallet} from '../src';
+
+// multisig address and combined transaction are cross validated with @cosmjs/stargate 0.32
+const privateKeys = [
+    "ebc42dae1245fad403bd18f59f7283dc18724d2fc843b61e01224b9789057347",
+    "d187c4c3e2ccf3fb023e58402e4bf93cf34dd534a1cb0d74dff7984a8f4eb6be",
+    "a85fe844d947d67f3d7ed4c756fcd309c39a05479ba0c5c6b53f4bf6ac854ebc",
+];
+const publicKeys = [
+    "03f79dd7029a5905e557906142b0c57ec21f4745f129b8c057aeccf42e2750ba6e",
+    "039a6b34295bc0823d1aec3a914614278e4aa756a23ecaec008355590d9058632e",
+    "038b55db7e1f04cf0e077c8bb6471837549c0d059555bf9083d723275ef3ea97f1",
+];
+const members = [
+    "cosmos137augvuewy625ns8a2age4sztl09hs7pmrdfdc",
+    "cosmos1z59vhnwalh29zqm0a454jn88h7tp7jk4mzl74l",
+    "cosmos1wvjkmkxj4vqrrskfc2zwr6yjzn8u8a5s9mnvzj",
+];
+const multisigAddress = "cosmos1vj2cwceamv9egwn4z2qht554dqfladc7tch03v";
+const bodyBytes = "Co0BChwvY29zbW9zLmJhbmsudjFiZXRhMS5Nc2dTZW5kEm0KLWNvc21vczF2ajJjd2NlYW12OWVnd240ejJxaHQ1NTRkcWZsYWRjN3RjaDAzdhItY29zbW9zMXZtOXBmcGg0c3lmOWczaGZ6Mjk2MzZjZnc1d3A5bjZ4Z2MzOHl1Gg0KBXVhdG9tEgQxMDAwEghtdWx0aXNpZw==";
+const signatures = [
+    "2pl1RtbeHBPkiGb81YEo3uodgXcyHWKWGzfpI8dHpsx0Qtn+1U9cQ4Wqh8XDksNIws4H6rlpSywsW0lXroRh0w==",
+    "",
+    "rEDcABl/uA14Cm5sYP8dzoUDGw2mBD7/9HBGgIGGmgMC7VYe18T8KIVisUEVHMvH2fbwAg4EYobdZG3eVHGH1w==",
+];
+const multisigTx = "CpoBCo0BChwvY29zbW9zLmJhbmsudjFiZXRhMS5Nc2dTZW5kEm0KLWNvc21vczF2ajJjd2NlYW12OWVnd240ejJxaHQ1NTRkcWZsYWRjN3RjaDAzdhItY29zbW9zMXZtOXBmcGg0c3lmOWczaGZ6Mjk2MzZjZnc1d3A5bjZ4Z2MzOHl1Gg0KBXVhdG9tEgQxMDAwEghtdWx0aXNpZxK8AgqkAgqIAgopL2Nvc21vcy5jcnlwdG8ubXVsdGlzaWcuTGVnYWN5QW1pbm9QdWJLZXkS2gEIAhJGCh8vY29zbW9zLmNyeXB0by5zZWNwMjU2azEuUHViS2V5EiMKIQOaazQpW8CCPRrsOpFGFCeOSqdWoj7K7ACDVVkNkFhjLhJGCh8vY29zbW9zLmNyeXB0by5zZWNwMjU2azEuUHViS2V5EiMKIQOLVdt+HwTPDgd8i7ZHGDdUnA0FlVW/kIPXIyde8+qX8RJGCh8vY29zbW9zLmNyeXB0by5zZWNwMjU2azEuUHViS2V5EiMKIQP3ndcCmlkF5VeQYUKwxX7CH0dF8Sm4wFeuzPQuJ1C6bhIVEhMKBQgDEgFgEgQKAgh/EgQKAgh/GAUSEwoNCgV1YXRvbRIENTAwMBDAmgwahAEKQKxA3AAZf7gNeApubGD/Hc6FAxsNpgQ+//RwRoCBhpoDAu1WHtfE/CiFYrFBFRzLx9n28AIOBGKG3WRt3lRxh9cKQNqZdUbW3hwT5Ihm/NWBKN7qHYF3Mh1ilhs36SPHR6bMdELZ/tVPXEOFqofFw5LDSMLOB+q5aUssLFtJV66EYdM=";
+
+const fee = {
+    sequence: 5,
+    feeDemon: "uatom",
+    feeAmount: 5000,
+    gasLimit: 200000,
+};
+
+const txData = {
+    type: "transfer",
+    chainId: "cosmoshub-4",
+    accountNumber: 1234,
+    memo: "multisig",
+    ...fee,
+    data: {
+        fromAddress: multisigAddress,
+        toAddress: "cosmos1vm9pfph4syf9g3hfz29636cfw5wp9n6xgc38yu",
+        demon: "uatom",
+        amount: 1000,
+    },
+};
+
+describe("multisig", () => {
+    test("getMultisigAddress", async () => {
+        const wallet = new AtomWallet();
+        const result = await wallet.getMultisigAddress({publicKeys, threshold: 2});
+        expect(result.address).toBe(multisigAddress);
+        expect(result.publicKey).toEqual({
+            type: "tendermint/PubKeyMultisigThreshold",
+            value: {
+                threshold: "2",
+                pubkeys: [
+                    {type: "tendermint/PubKeySecp256k1", value: "A5prNClbwII9Guw6kUYUJ45Kp1aiPsrsAINVWQ2QWGMu"},
+                    {type: "tendermint/PubKeySecp256k1", value: "A4tV234fBM8OB3yLtkcYN1ScDQWVVb+Qg9cjJ17z6pfx"},
+                    {type: "tendermint/PubKeySecp256k1", value: "A/ed1wKaWQXlV5BhQrDFfsIfR0XxKbjAV67M9C4nULpu"},
+                ],
+            },
+        });
+        // members are sorted by address
+        const reversed = await wallet.getMultisigAddress({publicKeys: [...publicKeys].reverse(), threshold: 2});
+        expect(reversed.address).toBe(multisigAddress);
+        const unsorted = await wallet.getMultisigAddress({publicKeys, threshold: 2, noSort: true});
+        expect(unsorted.address).not.toBe(multisigAddress);
+
+        expect((await new OsmoWallet().getMultisigAddress({publicKeys, threshold: 2})).address)
+            .toBe("osmo1vj2cwceamv9egwn4z2qht554dqfladc7rryl87");
+        expect((await new CommonCosmosWallet().getMultisigAddress({publicKeys, threshold: 2, hrp: "osmo"})).address)
+            .toBe("osmo1vj2cwceamv9egwn4z2qht554dqfladc7rryl87");
+
+        await expect(wallet.getMultisigAddress({publicKeys, threshold: 4})).rejects.toBeDefined();
+        await expect(wallet.getMultisigAddress({publicKeys, threshold: 0})).rejects.toBeDefined();
+        await expect(new EvmosWallet().getMultisigAddress({publicKeys, threshold: 2})).rejects.toBeDefined();
+    });
+
+    test("signMultisigTransaction", async () => {
+        const wallet = new AtomWallet();
+        for (const i of [0, 2]) {
+            const result = await wallet.signMultisigTransaction({privateKey: privateKeys[i], data: txData});
+            expect(result).toEqual({bodyBytes: bodyBytes, signature: signatures[i]});
+        }
+        const unsigned = await wallet.signMultisigTransaction({privateKey: "", data: {...txData, publicKey: publicKeys[1]}});
+        expect(JSON.parse(Buffer.from(unsigned.doc, "hex").toString()).msgs[0].type).toBe("cosmos-sdk/MsgSend");
+    });
+
+    test("combineMultisigTransaction", async () => {
+        const wallet = new AtomWallet();
+        const param = {
+            publicKeys,
+            threshold: 2,
+            ...fee,
+            bodyBytes,
+            signatures: {[members[0]]: signatures[0], [members[2]]: signatures[2]},
+        };
+        expect(await wallet.combineMultisigTransaction(param)).toBe(multisigTx);
+
+        // below the threshold
+        await expect(wallet.combineMultisigTransaction({...param, signatures: {[members[0]]: signatures[0]}}))
+            .rejects.toBeDefined();
+        // not a member
+        await expect(wallet.combineMultisigTransaction({
+            ...param,
+            signatures: {...param.signatures, "cosmos1vm9pfph4syf9g3hfz29636cfw5wp9n6xgc38yu": signatures[0]},
+        })).rejects.toBeDefined();
+    });
+
+    test("common wallet", async () => {
+        const wallet = new CommonCosmosWallet();
+        const result = await wallet.signMultisigTransaction({privateKey: privateKeys[0], data: {...txData, prefix: "cosmos"}});
+        expect(result.signature).toBe(signatures[0]);
+        const tx = await wallet.combineMultisigTransaction({
+            publicKeys,
+            threshold: 2,
+            ...fee,
+            bodyBytes: result.bodyBytes,
+            signatures: {[members[0]]: signatures[0], [members[2]]: signatures[2]},
+        });
+        expect(tx).toBe(multisigTx);
+    });
+});
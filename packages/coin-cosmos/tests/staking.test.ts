@@ -0,0 +1,208 @@
+import {AtomWallet, InjectiveWallet, VoteOption} from '../src';
+
+// direct and amino signed transactions are cross validated with @cosmjs/stargate 0.32
+const privateKey = "ebc42dae1245fad403bd18f59f7283dc18724d2fc843b61e01224b9789057347";
+const publicKey = "03f79dd7029a5905e557906142b0c57ec21f4745f129b8c057aeccf42e2750ba6e";
+const address = "cosmos137augvuewy625ns8a2age4sztl09hs7pmrdfdc";
+const grantee = "cosmos1vm9pfph4syf9g3hfz29636cfw5wp9n6xgc38yu";
+const validator = "cosmosvaloper1clpqr4nrk4khgkxj78fcwwh6dl3uw4epsluffn";
+const validator2 = "cosmosvaloper1sjllsnramgk3ewxqwwrpkjfgc4n4nf9uavx9yz";
+
+const txData = {
+    chainId: "cosmoshub-4",
+    sequence: 5,
+    accountNumber: 1234,
+    feeDemon: "uatom",
+    feeAmount: 5000,
+    gasLimit: 200000,
+    memo: "",
+    publicKey: publicKey,
+};
+
+// the amino sign doc of an unsigned transaction
+async function aminoSignDoc(type: string, data: any) {
+    const wallet = new AtomWallet();
+    const result = await wallet.signTransaction({privateKey: "", data: {...txData, type: type, signMode: "amino", data: data}});
+    return JSON.parse(Buffer.from(result.doc, "hex").toString());
+}
+
+describe("staking", () => {
+    const wallet = new AtomWallet();
+
+    test("delegate", async () => {
+        const data = {delegatorAddress: address, validatorAddress: validator, demon: "uatom", amount: 1000000};
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "delegate", data: data}})).toBe("CqEBCp4BCiMvY29zbW9zLnN0YWtpbmcudjFiZXRhMS5Nc2dEZWxlZ2F0ZRJ3Ci1jb3Ntb3MxMzdhdWd2dWV3eTYyNW5zOGEyYWdlNHN6dGwwOWhzN3BtcmRmZGMSNGNvc21vc3ZhbG9wZXIxY2xwcXI0bnJrNGtoZ2t4ajc4ZmN3d2g2ZGwzdXc0ZXBzbHVmZm4aEAoFdWF0b20SBzEwMDAwMDASZwpQCkYKHy9jb3Ntb3MuY3J5cHRvLnNlY3AyNTZrMS5QdWJLZXkSIwohA/ed1wKaWQXlV5BhQrDFfsIfR0XxKbjAV67M9C4nULpuEgQKAggBGAUSEwoNCgV1YXRvbRIENTAwMBDAmgwaQBnKtDRdyUX6n1XL0qH01iDBkMqzixuAulgn7wO+NMnma2x2b80bsxeV58kWaAIc8oVHxJzaG1RuSOBSTZHT90o=");
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "delegate", signMode: "amino", data: data}})).toBe("CqEBCp4BCiMvY29zbW9zLnN0YWtpbmcudjFiZXRhMS5Nc2dEZWxlZ2F0ZRJ3Ci1jb3Ntb3MxMzdhdWd2dWV3eTYyNW5zOGEyYWdlNHN6dGwwOWhzN3BtcmRmZGMSNGNvc21vc3ZhbG9wZXIxY2xwcXI0bnJrNGtoZ2t4ajc4ZmN3d2g2ZGwzdXc0ZXBzbHVmZm4aEAoFdWF0b20SBzEwMDAwMDASZwpQCkYKHy9jb3Ntb3MuY3J5cHRvLnNlY3AyNTZrMS5QdWJLZXkSIwohA/ed1wKaWQXlV5BhQrDFfsIfR0XxKbjAV67M9C4nULpuEgQKAgh/GAUSEwoNCgV1YXRvbRIENTAwMBDAmgwaQENwYVUH1vyz3wYPxHPUvkpMMVLxKUSjmnj7BDoTeKziByuxRprag1dk92DUb4hjRxQYdR4RyJq5ev72gw040F4=");
+    });
+
+    test("redelegate", async () => {
+        const data = {
+            delegatorAddress: address,
+            validatorSrcAddress: validator,
+            validatorDstAddress: validator2,
+            demon: "uatom",
+            amount: 1000000,
+        };
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "redelegate", data: data}})).toBe("Ct8BCtwBCiovY29zbW9zLnN0YWtpbmcudjFiZXRhMS5Nc2dCZWdpblJlZGVsZWdhdGUSrQEKLWNvc21vczEzN2F1Z3Z1ZXd5NjI1bnM4YTJhZ2U0c3p0bDA5aHM3cG1yZGZkYxI0Y29zbW9zdmFsb3BlcjFjbHBxcjRucms0a2hna3hqNzhmY3d3aDZkbDN1dzRlcHNsdWZmbho0Y29zbW9zdmFsb3BlcjFzamxsc25yYW1nazNld3hxd3dycGtqZmdjNG40bmY5dWF2eDl5eiIQCgV1YXRvbRIHMTAwMDAwMBJnClAKRgofL2Nvc21vcy5jcnlwdG8uc2VjcDI1NmsxLlB1YktleRIjCiED953XAppZBeVXkGFCsMV+wh9HRfEpuMBXrsz0LidQum4SBAoCCAEYBRITCg0KBXVhdG9tEgQ1MDAwEMCaDBpAMVcrVltLXZHjfeujiGmZV53Cw7VWzOuhRd8oVvp4Lsh8iQLSysIGVenUG9dqW9VgHtAN09QbYe/CX6iraGbKxA==");
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "redelegate", signMode: "amino", data: data}})).toBe("Ct8BCtwBCiovY29zbW9zLnN0YWtpbmcudjFiZXRhMS5Nc2dCZWdpblJlZGVsZWdhdGUSrQEKLWNvc21vczEzN2F1Z3Z1ZXd5NjI1bnM4YTJhZ2U0c3p0bDA5aHM3cG1yZGZkYxI0Y29zbW9zdmFsb3BlcjFjbHBxcjRucms0a2hna3hqNzhmY3d3aDZkbDN1dzRlcHNsdWZmbho0Y29zbW9zdmFsb3BlcjFzamxsc25yYW1nazNld3hxd3dycGtqZmdjNG40bmY5dWF2eDl5eiIQCgV1YXRvbRIHMTAwMDAwMBJnClAKRgofL2Nvc21vcy5jcnlwdG8uc2VjcDI1NmsxLlB1YktleRIjCiED953XAppZBeVXkGFCsMV+wh9HRfEpuMBXrsz0LidQum4SBAoCCH8YBRITCg0KBXVhdG9tEgQ1MDAwEMCaDBpAzzY9COlXSOy1F7OKk642feKM1LBYtK2MySaQuVj96SMlfrulm8emWFyTEaXwNRjsoUTS+EmWZJXl2uIGNuwACw==");
+    });
+
+    test("undelegate", async () => {
+        const data = {delegatorAddress: address, validatorAddress: validator, demon: "uatom", amount: 1000000};
+        const doc = await aminoSignDoc("undelegate", data);
+        expect(doc.msgs).toEqual([{
+            type: "cosmos-sdk/MsgUndelegate",
+            value: {delegator_address: address, validator_address: validator, amount: {denom: "uatom", amount: "1000000"}},
+        }]);
+    });
+
+    test("withdrawRewards", async () => {
+        const data = {delegatorAddress: address, validatorAddresses: [validator, validator2]};
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "withdrawRewards", data: data}})).toBe("CsYCCqABCjcvY29zbW9zLmRpc3RyaWJ1dGlvbi52MWJldGExLk1zZ1dpdGhkcmF3RGVsZWdhdG9yUmV3YXJkEmUKLWNvc21vczEzN2F1Z3Z1ZXd5NjI1bnM4YTJhZ2U0c3p0bDA5aHM3cG1yZGZkYxI0Y29zbW9zdmFsb3BlcjFjbHBxcjRucms0a2hna3hqNzhmY3d3aDZkbDN1dzRlcHNsdWZmbgqgAQo3L2Nvc21vcy5kaXN0cmlidXRpb24udjFiZXRhMS5Nc2dXaXRoZHJhd0RlbGVnYXRvclJld2FyZBJlCi1jb3Ntb3MxMzdhdWd2dWV3eTYyNW5zOGEyYWdlNHN6dGwwOWhzN3BtcmRmZGMSNGNvc21vc3ZhbG9wZXIxc2psbHNucmFtZ2szZXd4cXd3cnBramZnYzRuNG5mOXVhdng5eXoSZwpQCkYKHy9jb3Ntb3MuY3J5cHRvLnNlY3AyNTZrMS5QdWJLZXkSIwohA/ed1wKaWQXlV5BhQrDFfsIfR0XxKbjAV67M9C4nULpuEgQKAggBGAUSEwoNCgV1YXRvbRIENTAwMBDAmgwaQMTSdCwvQuMjY0ofEYbIz4UxJPdDvibSF3EUII1fJnHMVgBPoPm0YsM8kyIzAR+iU6E1/rGF9BK9tR27o+9lWRY=");
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "withdrawRewards", signMode: "amino", data: data}})).toBe("CsYCCqABCjcvY29zbW9zLmRpc3RyaWJ1dGlvbi52MWJldGExLk1zZ1dpdGhkcmF3RGVsZWdhdG9yUmV3YXJkEmUKLWNvc21vczEzN2F1Z3Z1ZXd5NjI1bnM4YTJhZ2U0c3p0bDA5aHM3cG1yZGZkYxI0Y29zbW9zdmFsb3BlcjFjbHBxcjRucms0a2hna3hqNzhmY3d3aDZkbDN1dzRlcHNsdWZmbgqgAQo3L2Nvc21vcy5kaXN0cmlidXRpb24udjFiZXRhMS5Nc2dXaXRoZHJhd0RlbGVnYXRvclJld2FyZBJlCi1jb3Ntb3MxMzdhdWd2dWV3eTYyNW5zOGEyYWdlNHN6dGwwOWhzN3BtcmRmZGMSNGNvc21vc3ZhbG9wZXIxc2psbHNucmFtZ2szZXd4cXd3cnBramZnYzRuNG5mOXVhdng5eXoSZwpQCkYKHy9jb3Ntb3MuY3J5cHRvLnNlY3AyNTZrMS5QdWJLZXkSIwohA/ed1wKaWQXlV5BhQrDFfsIfR0XxKbjAV67M9C4nULpuEgQKAgh/GAUSEwoNCgV1YXRvbRIENTAwMBDAmgwaQCNE23tcZghp/9gmHn3zeEi/tUuk1LLuo3MRVrrb0B7BEbz+WjjiPAERHss5jjKzFcMjzntsfmW5dWZhypl4qAk=");
+    });
+
+    test("injective delegate", async () => {
+        const inj = new InjectiveWallet();
+        const param = {
+            privateKey: privateKey,
+            data: {
+                ...txData,
+                type: "delegate",
+                signMode: "amino",
+                chainId: "injective-1",
+                data: {
+                    delegatorAddress: "inj137augvuewy625ns8a2age4sztl09hs7p326dlq",
+                    validatorAddress: "injvaloper1clpqr4nrk4khgkxj78fcwwh6dl3uw4epasmvnj",
+                    demon: "inj",
+                    amount: 100000000000000000,
+                },
+            },
+        };
+        const tx = await inj.signTransaction(param);
+        const unsigned = await inj.signTransaction({...param, privateKey: ""});
+        expect(typeof tx).toBe("string");
+        expect(JSON.parse(Buffer.from(unsigned.doc, "hex").toString()).msgs[0].type).toBe("cosmos-sdk/MsgDelegate");
+    });
+});
+
+describe("gov", () => {
+    const wallet = new AtomWallet();
+
+    test("vote", async () => {
+        const data = {proposalId: 900, voter: address, option: VoteOption.VOTE_OPTION_YES};
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "vote", data: data}})).toBe("ClUKUwobL2Nvc21vcy5nb3YudjFiZXRhMS5Nc2dWb3RlEjQIhAcSLWNvc21vczEzN2F1Z3Z1ZXd5NjI1bnM4YTJhZ2U0c3p0bDA5aHM3cG1yZGZkYxgBEmcKUApGCh8vY29zbW9zLmNyeXB0by5zZWNwMjU2azEuUHViS2V5EiMKIQP3ndcCmlkF5VeQYUKwxX7CH0dF8Sm4wFeuzPQuJ1C6bhIECgIIARgFEhMKDQoFdWF0b20SBDUwMDAQwJoMGkAUPEhrS8Rw1RYbmbc35Y7E8NnvnNmaDpfeWBJiKLYQsiZYLeQlmSUczD9pmfRrYFWGxsSLPYf0NiMmikUdp0rM");
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "vote", signMode: "amino", data: data}})).toBe("ClUKUwobL2Nvc21vcy5nb3YudjFiZXRhMS5Nc2dWb3RlEjQIhAcSLWNvc21vczEzN2F1Z3Z1ZXd5NjI1bnM4YTJhZ2U0c3p0bDA5aHM3cG1yZGZkYxgBEmcKUApGCh8vY29zbW9zLmNyeXB0by5zZWNwMjU2azEuUHViS2V5EiMKIQP3ndcCmlkF5VeQYUKwxX7CH0dF8Sm4wFeuzPQuJ1C6bhIECgIIfxgFEhMKDQoFdWF0b20SBDUwMDAQwJoMGkAmrUseXohDz/igwWs+2f0nZKXByd0WhdbNYzVHkQ3OUzzaMLEz+jNh/ILu23lw02yChmpe+kAAulQ/eVgub2qT");
+    });
+
+    test("voteWeighted", async () => {
+        const data = {
+            proposalId: "900",
+            voter: address,
+            options: [
+                {option: VoteOption.VOTE_OPTION_YES, weight: "0.7"},
+                {option: VoteOption.VOTE_OPTION_NO, weight: "0.3"},
+            ],
+        };
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "voteWeighted", data: data}})).toBe("CowBCokBCiMvY29zbW9zLmdvdi52MWJldGExLk1zZ1ZvdGVXZWlnaHRlZBJiCIQHEi1jb3Ntb3MxMzdhdWd2dWV3eTYyNW5zOGEyYWdlNHN6dGwwOWhzN3BtcmRmZGMaFggBEhI3MDAwMDAwMDAwMDAwMDAwMDAaFggDEhIzMDAwMDAwMDAwMDAwMDAwMDASZwpQCkYKHy9jb3Ntb3MuY3J5cHRvLnNlY3AyNTZrMS5QdWJLZXkSIwohA/ed1wKaWQXlV5BhQrDFfsIfR0XxKbjAV67M9C4nULpuEgQKAggBGAUSEwoNCgV1YXRvbRIENTAwMBDAmgwaQAj/ONpE3tuwNldEML9p85vMOEDJ3Jl48E+SceYQKf98Umd6vFPz17od1w3TrQTF3T5bM7tDvJG4kW8Jk7MIPgY=");
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "voteWeighted", signMode: "amino", data: data}})).toBe("CowBCokBCiMvY29zbW9zLmdvdi52MWJldGExLk1zZ1ZvdGVXZWlnaHRlZBJiCIQHEi1jb3Ntb3MxMzdhdWd2dWV3eTYyNW5zOGEyYWdlNHN6dGwwOWhzN3BtcmRmZGMaFggBEhI3MDAwMDAwMDAwMDAwMDAwMDAaFggDEhIzMDAwMDAwMDAwMDAwMDAwMDASZwpQCkYKHy9jb3Ntb3MuY3J5cHRvLnNlY3AyNTZrMS5QdWJLZXkSIwohA/ed1wKaWQXlV5BhQrDFfsIfR0XxKbjAV67M9C4nULpuEgQKAgh/GAUSEwoNCgV1YXRvbRIENTAwMBDAmgwaQMjladTBZf5g0HlF5/OlxOJGgi+J3Gj1l1AvHoGhAP9TNAUpwVTyL7wnfEqI4Ne5wK1Mfxcl6O/kTmlNFhIuHOg=");
+        const doc = await aminoSignDoc("voteWeighted", data);
+        expect(doc.msgs[0].value.options).toEqual([
+            {option: 1, weight: "0.700000000000000000"},
+            {option: 3, weight: "0.300000000000000000"},
+        ]);
+    });
+
+    test("deposit", async () => {
+        const data = {proposalId: 900, depositor: address, demon: "uatom", amount: 1000000};
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "deposit", data: data}})).toBe("CmgKZgoeL2Nvc21vcy5nb3YudjFiZXRhMS5Nc2dEZXBvc2l0EkQIhAcSLWNvc21vczEzN2F1Z3Z1ZXd5NjI1bnM4YTJhZ2U0c3p0bDA5aHM3cG1yZGZkYxoQCgV1YXRvbRIHMTAwMDAwMBJnClAKRgofL2Nvc21vcy5jcnlwdG8uc2VjcDI1NmsxLlB1YktleRIjCiED953XAppZBeVXkGFCsMV+wh9HRfEpuMBXrsz0LidQum4SBAoCCAEYBRITCg0KBXVhdG9tEgQ1MDAwEMCaDBpAFjSzG1Vlt0Ifaq4CD6Hll8Nb9HLtK3O8T1UdDCNIrwpMc9f42+e8AMewhZ8QRox8eLIcONPLfPQ0ceZEyfPq5A==");
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "deposit", signMode: "amino", data: data}})).toBe("CmgKZgoeL2Nvc21vcy5nb3YudjFiZXRhMS5Nc2dEZXBvc2l0EkQIhAcSLWNvc21vczEzN2F1Z3Z1ZXd5NjI1bnM4YTJhZ2U0c3p0bDA5aHM3cG1yZGZkYxoQCgV1YXRvbRIHMTAwMDAwMBJnClAKRgofL2Nvc21vcy5jcnlwdG8uc2VjcDI1NmsxLlB1YktleRIjCiED953XAppZBeVXkGFCsMV+wh9HRfEpuMBXrsz0LidQum4SBAoCCH8YBRITCg0KBXVhdG9tEgQ1MDAwEMCaDBpAYBHK+i1hC1H1pfnlPbP2KbCapiupY0FCnVF/jwcVxZ48kQTTnvw32KkkTNtkv0r6ijrMU5U6jkkpEZC7JIb37w==");
+    });
+
+    test("vote v1", async () => {
+        const data = {proposalId: 900, voter: address, option: VoteOption.VOTE_OPTION_YES, govVersion: "v1"};
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "vote", data: data}})).toBe("ClAKTgoWL2Nvc21vcy5nb3YudjEuTXNnVm90ZRI0CIQHEi1jb3Ntb3MxMzdhdWd2dWV3eTYyNW5zOGEyYWdlNHN6dGwwOWhzN3BtcmRmZGMYARJnClAKRgofL2Nvc21vcy5jcnlwdG8uc2VjcDI1NmsxLlB1YktleRIjCiED953XAppZBeVXkGFCsMV+wh9HRfEpuMBXrsz0LidQum4SBAoCCAEYBRITCg0KBXVhdG9tEgQ1MDAwEMCaDBpA/ImMcZZwTjV43G3b/bArG2EvSF17KreUTihKfbMiwWZCotVGjdl8LBqQnCWFOEjlF25IX9Q/iaMXyAdP2kPWiA==");
+        const doc = await aminoSignDoc("vote", {...data, metadata: "ipfs://vote"});
+        expect(doc.msgs).toEqual([{
+            type: "cosmos-sdk/v1/MsgVote",
+            value: {proposal_id: "900", voter: address, option: 1, metadata: "ipfs://vote"},
+        }]);
+    });
+
+    test("voteWeighted v1 and deposit v1", async () => {
+        const vote = await aminoSignDoc("voteWeighted", {
+            proposalId: 900,
+            voter: address,
+            options: [{option: VoteOption.VOTE_OPTION_ABSTAIN, weight: "1"}],
+            govVersion: "v1",
+        });
+        expect(vote.msgs).toEqual([{
+            type: "cosmos-sdk/v1/MsgVoteWeighted",
+            value: {proposal_id: "900", voter: address, options: [{option: 2, weight: "1.000000000000000000"}]},
+        }]);
+        const deposit = await aminoSignDoc("deposit", {proposalId: 900, depositor: address, demon: "uatom", amount: 10, govVersion: "v1"});
+        expect(deposit.msgs[0].type).toBe("cosmos-sdk/v1/MsgDeposit");
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "deposit", signMode: "amino", data: {proposalId: 900, depositor: address, demon: "uatom", amount: 10, govVersion: "v1"}}})).toBeDefined();
+    });
+});
+
+describe("authz", () => {
+    const wallet = new AtomWallet();
+    const grant = {
+        granter: address,
+        grantee: grantee,
+        authorization: {type: "generic", msg: "/cosmos.staking.v1beta1.MsgDelegate"},
+        // 2030-01-01T00:00:00Z
+        expiration: 1893456000,
+    };
+    const exec = {
+        grantee: address,
+        msgs: [{
+            typeUrl: "/cosmos.bank.v1beta1.MsgSend",
+            value: {fromAddress: grantee, toAddress: address, amount: [{denom: "uatom", amount: "1"}]},
+        }],
+    };
+    const revoke = {granter: address, grantee: grantee, msgTypeUrl: "/cosmos.staking.v1beta1.MsgDelegate"};
+
+    test("direct", async () => {
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "grant", data: grant}})).toBe("CuMBCuABCh4vY29zbW9zLmF1dGh6LnYxYmV0YTEuTXNnR3JhbnQSvQEKLWNvc21vczEzN2F1Z3Z1ZXd5NjI1bnM4YTJhZ2U0c3p0bDA5aHM3cG1yZGZkYxItY29zbW9zMXZtOXBmcGg0c3lmOWczaGZ6Mjk2MzZjZnc1d3A5bjZ4Z2MzOHl1Gl0KUwoqL2Nvc21vcy5hdXRoei52MWJldGExLkdlbmVyaWNBdXRob3JpemF0aW9uEiUKIy9jb3Ntb3Muc3Rha2luZy52MWJldGExLk1zZ0RlbGVnYXRlEgYIgLHvhgcSZwpQCkYKHy9jb3Ntb3MuY3J5cHRvLnNlY3AyNTZrMS5QdWJLZXkSIwohA/ed1wKaWQXlV5BhQrDFfsIfR0XxKbjAV67M9C4nULpuEgQKAggBGAUSEwoNCgV1YXRvbRIENTAwMBDAmgwaQK2nsGag+zxmuu4N8Zps5v6Q65F9tZN0QHAF4ZRxa2UsPa32uSMzVScMJ46qiWiP6Ctutj19q0KGtAkOOxNhQ7o=");
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "exec", data: exec}})).toBe("CuEBCt4BCh0vY29zbW9zLmF1dGh6LnYxYmV0YTEuTXNnRXhlYxK8AQotY29zbW9zMTM3YXVndnVld3k2MjVuczhhMmFnZTRzenRsMDloczdwbXJkZmRjEooBChwvY29zbW9zLmJhbmsudjFiZXRhMS5Nc2dTZW5kEmoKLWNvc21vczF2bTlwZnBoNHN5ZjlnM2hmejI5NjM2Y2Z3NXdwOW42eGdjMzh5dRItY29zbW9zMTM3YXVndnVld3k2MjVuczhhMmFnZTRzenRsMDloczdwbXJkZmRjGgoKBXVhdG9tEgExEmcKUApGCh8vY29zbW9zLmNyeXB0by5zZWNwMjU2azEuUHViS2V5EiMKIQP3ndcCmlkF5VeQYUKwxX7CH0dF8Sm4wFeuzPQuJ1C6bhIECgIIARgFEhMKDQoFdWF0b20SBDUwMDAQwJoMGkDrMgP+Uah/m5YIrA6tyPd1G/LmlJrl0VV5EeSChjsH6FQJo8ftaZ/qp97SQmrFXzm/zBl6ylM30p4d+qgSyvhZ");
+        expect(await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "revoke", data: revoke}})).toBe("CqoBCqcBCh8vY29zbW9zLmF1dGh6LnYxYmV0YTEuTXNnUmV2b2tlEoMBCi1jb3Ntb3MxMzdhdWd2dWV3eTYyNW5zOGEyYWdlNHN6dGwwOWhzN3BtcmRmZGMSLWNvc21vczF2bTlwZnBoNHN5ZjlnM2hmejI5NjM2Y2Z3NXdwOW42eGdjMzh5dRojL2Nvc21vcy5zdGFraW5nLnYxYmV0YTEuTXNnRGVsZWdhdGUSZwpQCkYKHy9jb3Ntb3MuY3J5cHRvLnNlY3AyNTZrMS5QdWJLZXkSIwohA/ed1wKaWQXlV5BhQrDFfsIfR0XxKbjAV67M9C4nULpuEgQKAggBGAUSEwoNCgV1YXRvbRIENTAwMBDAmgwaQEMr8DKcFhg/BnTLh9fX95nL3xHJeT6rUwpGnChMIc7SaN4bkzDpD+l6s75mXDh7x7mHpfHamKp5PaHiehdFdF0=");
+    });
+
+    test("amino", async () => {
+        expect((await aminoSignDoc("grant", grant)).msgs).toEqual([{
+            type: "cosmos-sdk/MsgGrant",
+            value: {
+                granter: address,
+                grantee: grantee,
+                grant: {
+                    authorization: {type: "cosmos-sdk/GenericAuthorization", value: {msg: "/cosmos.staking.v1beta1.MsgDelegate"}},
+                    expiration: "2030-01-01T00:00:00Z",
+                },
+            },
+        }]);
+        const send = {...grant, authorization: {type: "send", spendLimit: [{denom: "uatom", amount: "100"}]}, expiration: undefined};
+        expect((await aminoSignDoc("grant", send)).msgs[0].value.grant).toEqual({
+            authorization: {type: "cosmos-sdk/SendAuthorization", value: {spend_limit: [{denom: "uatom", amount: "100"}]}},
+        });
+        expect((await aminoSignDoc("exec", exec)).msgs).toEqual([{
+            type: "cosmos-sdk/MsgExec",
+            value: {
+                grantee: address,
+                msgs: [{
+                    type: "cosmos-sdk/MsgSend",
+                    value: {from_address: grantee, to_address: address, amount: [{denom: "uatom", amount: "1"}]},
+                }],
+            },
+        }]);
+        expect((await aminoSignDoc("revoke", revoke)).msgs).toEqual([{
+            type: "cosmos-sdk/MsgRevoke",
+            value: {granter: address, grantee: grantee, msg_type_url: "/cosmos.staking.v1beta1.MsgDelegate"},
+        }]);
+        // the signed body is rebuilt from the amino messages
+        const signed = await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "exec", signMode: "amino", data: exec}});
+        const direct = await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "exec", data: exec}});
+        expect(Buffer.from(signed, "base64").slice(0, 200)).toEqual(Buffer.from(direct, "base64").slice(0, 200));
+    });
+});
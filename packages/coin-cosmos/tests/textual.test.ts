@@ -0,0 +1,217 @@
+import {base, signUtil} from '@okxweb3/crypto-lib';
+import {
+    AtomWallet,
+    decodeTextualSignDoc,
+    encodeTextualSignDoc,
+    OsmoWallet,
+    registerTextualMessage,
+} from '../src';
+import {
+    formatBytes,
+    formatCoin,
+    formatCoins,
+    formatDecimal,
+    formatDuration,
+    formatInteger,
+    formatLegacyDecimal,
+    formatTimestamp,
+} from '../src/textual/values';
+import {AuthInfo, TxRaw} from '../src/types/cosmos/tx/v1beta1/tx';
+import {SignMode} from '../src/types/cosmos/tx/signing/v1beta1/signing';
+
+const privateKey = "ebc42dae1245fad403bd18f59f7283dc18724d2fc843b61e01224b9789057347";
+const publicKey = "03f79dd7029a5905e557906142b0c57ec21f4745f129b8c057aeccf42e2750ba6e";
+const address = "cosmos137augvuewy625ns8a2age4sztl09hs7pmrdfdc";
+const metadata = {uatom: {display: "ATOM", exponent: 6}};
+
+const txData = {
+    signMode: "textual",
+    chainId: "cosmoshub-4",
+    sequence: 5,
+    accountNumber: 1234,
+    feeDemon: "uatom",
+    feeAmount: 5000,
+    gasLimit: 200000,
+    memo: "hi",
+    publicKey: publicKey,
+    coinMetadata: metadata,
+};
+
+function screen(title: string, content: string, indent = 0, expert = false) {
+    return {title, content, indent, expert};
+}
+
+describe("textual", () => {
+    test("value renderers", async () => {
+        expect(formatInteger(0)).toBe("0");
+        expect(formatInteger("1000")).toBe("1'000");
+        expect(formatInteger("-1234567")).toBe("-1'234'567");
+        expect(formatInteger("000123")).toBe("123");
+
+        expect(formatDecimal("1000.500")).toBe("1'000.5");
+        expect(formatDecimal("0.000000000000000000")).toBe("0");
+        expect(formatDecimal("-0.25")).toBe("-0.25");
+        expect(formatDecimal("1500")).toBe("1'500");
+        expect(() => formatDecimal("1.2.3")).toThrow();
+        // legacy sdk.Dec atomics
+        expect(formatLegacyDecimal("700000000000000000")).toBe("0.7");
+        expect(formatLegacyDecimal("1500000000000000000000")).toBe("1'500");
+        expect(() => formatLegacyDecimal("0.7")).toThrow();
+
+        expect(formatCoin({denom: "uatom", amount: "1500000"}, metadata)).toBe("1.5 ATOM");
+        expect(formatCoin({denom: "uatom", amount: "1"}, metadata)).toBe("0.000001 ATOM");
+        expect(formatCoin({denom: "uatom", amount: "1500000"})).toBe("1'500'000 uatom");
+        expect(formatCoins([{denom: "uosmo", amount: "10"}, {denom: "uatom", amount: "2000000"}], metadata))
+            .toBe("2 ATOM, 10 uosmo");
+        expect(formatCoins([])).toBe("zero");
+
+        expect(formatTimestamp({seconds: 1136214245, nanos: 0})).toBe("2006-01-02T15:04:05Z");
+        expect(formatTimestamp({seconds: 1136214245, nanos: 700000000})).toBe("2006-01-02T15:04:05.7Z");
+        expect(formatTimestamp({seconds: 0, nanos: 1})).toBe("1970-01-01T00:00:00.000000001Z");
+
+        expect(formatDuration({seconds: 0, nanos: 0})).toBe("0 seconds");
+        expect(formatDuration({seconds: 1, nanos: 0})).toBe("1 second");
+        expect(formatDuration({seconds: 1, nanos: 500000000})).toBe("1.5 seconds");
+        expect(formatDuration({seconds: 86400, nanos: 0})).toBe("1 day");
+        expect(formatDuration({seconds: 2 * 86400 + 3600 + 120, nanos: 0})).toBe("2 days, 1 hour, 2 minutes");
+        expect(formatDuration({seconds: -3661, nanos: 0})).toBe("-1 hour, 1 minute, 1 second");
+
+        expect(formatBytes(base.fromHex("deadbeef01"))).toBe("DEAD BEEF 01");
+        expect(formatBytes(new Uint8Array(35))).toBe("0000 ".repeat(17) + "00");
+        expect(formatBytes(new Uint8Array(36)))
+            .toBe("SHA-256=" + base.toHex(base.sha256(new Uint8Array(36))).toUpperCase().match(/.{4}/g)!.join(" "));
+    });
+
+    test("cbor encoding", async () => {
+        const screens = [screen("Chain id", "my-chain"), screen("", "End", 2, true)];
+        const encoded = encodeTextualSignDoc(screens);
+        expect(base.toHex(encoded)).toBe("a10182a20168436861696e20696402686d792d636861696ea30263456e64030204f5");
+        expect(decodeTextualSignDoc(encoded)).toEqual(screens);
+        // long texts use a multi byte length
+        const long = screen("Memo", "x".repeat(300));
+        expect(decodeTextualSignDoc(encodeTextualSignDoc([long]))).toEqual([long]);
+        expect(() => decodeTextualSignDoc(base.fromHex("a101"))).toThrow();
+    });
+
+    test("sign transfer", async () => {
+        const wallet = new AtomWallet();
+        const data = {
+            fromAddress: address,
+            toAddress: "cosmos1vm9pfph4syf9g3hfz29636cfw5wp9n6xgc38yu",
+            demon: "uatom",
+            amount: 1234567890,
+        };
+        const unsigned = await wallet.signTransaction({privateKey: "", data: {...txData, type: "transfer", data: data}});
+        const doc = base.fromHex(unsigned.doc);
+        expect(decodeTextualSignDoc(doc)).toEqual([
+            screen("Chain id", "cosmoshub-4"),
+            screen("Account number", "1'234"),
+            screen("Sequence", "5"),
+            screen("Address", address),
+            screen("Public key", "/cosmos.crypto.secp256k1.PubKey", 0, true),
+            screen("Key", "03F7 9DD7 029A 5905 E557 9061 42B0 C57E C21F 4745 F129 B8C0 57AE CCF4 2E27 50BA 6E", 1, true),
+            screen("", "This transaction has 1 Message"),
+            screen("Message (1/1)", "/cosmos.bank.v1beta1.MsgSend", 1),
+            screen("From address", address, 2),
+            screen("To address", "cosmos1vm9pfph4syf9g3hfz29636cfw5wp9n6xgc38yu", 2),
+            screen("Amount", "1'234.56789 ATOM", 2),
+            screen("", "End of Message"),
+            screen("Memo", "hi"),
+            screen("Fees", "0.005 ATOM"),
+            screen("Gas limit", "200'000", 0, true),
+            screen("Hash of raw bytes", "BC7D 8231 2200 BFF3 1D2F 6606 5BC6 F72F C855 C586 B2F6 16DB 47F2 4CE5 2B25 108E", 0, true),
+        ]);
+        expect(unsigned.hash).toBe(base.toHex(base.sha256(doc)));
+
+        const signed = await wallet.signTransaction({privateKey: privateKey, data: {...txData, type: "transfer", data: data}});
+        const txRaw = TxRaw.decode(base.fromBase64(signed));
+        expect(base.toHex(txRaw.bodyBytes)).toBe(base.toHex(TxRaw.decode(base.fromHex(unsigned.raw)).bodyBytes));
+        const authInfo = AuthInfo.decode(txRaw.authInfoBytes);
+        expect(authInfo.signerInfos[0].modeInfo!.single!.mode).toBe(SignMode.SIGN_MODE_TEXTUAL);
+        expect(signUtil.secp256k1.verifyWithNoRecovery(base.sha256(doc), txRaw.signatures[0], base.fromHex(publicKey))).toBe(true);
+    });
+
+    test("nested messages", async () => {
+        const wallet = new AtomWallet();
+        const vote = await wallet.signTransaction({privateKey: "", data: {...txData, type: "voteWeighted", data: {
+            proposalId: 900,
+            voter: address,
+            options: [{option: 1, weight: "0.7"}, {option: 3, weight: "0.3"}],
+        }}});
+        expect(decodeTextualSignDoc(base.fromHex(vote.doc)).slice(7, 19)).toEqual([
+            screen("Message (1/1)", "/cosmos.gov.v1beta1.MsgVoteWeighted", 1),
+            screen("Proposal id", "900", 2),
+            screen("Voter", address, 2),
+            screen("Options", "2 WeightedVoteOption", 2),
+            screen("Options (1/2)", "cosmos.gov.v1beta1.WeightedVoteOption object", 3),
+            screen("Option", "VOTE_OPTION_YES", 4),
+            screen("Weight", "0.7", 4),
+            screen("Options (2/2)", "cosmos.gov.v1beta1.WeightedVoteOption object", 3),
+            screen("Option", "VOTE_OPTION_NO", 4),
+            screen("Weight", "0.3", 4),
+            screen("", "End of Options", 2),
+            screen("", "End of Message"),
+        ]);
+
+        const grant = await wallet.signTransaction({privateKey: "", data: {...txData, type: "grant", data: {
+            granter: address,
+            grantee: "cosmos1vm9pfph4syf9g3hfz29636cfw5wp9n6xgc38yu",
+            authorization: {type: "send", spendLimit: [{denom: "uatom", amount: "100"}], allowList: [address]},
+            expiration: 1893456000,
+        }}});
+        expect(decodeTextualSignDoc(base.fromHex(grant.doc)).slice(10, 17)).toEqual([
+            screen("Grant", "cosmos.authz.v1beta1.Grant object", 2),
+            screen("Authorization", "/cosmos.bank.v1beta1.SendAuthorization", 3),
+            screen("Spend limit", "0.0001 ATOM", 4),
+            screen("Allow list", "1 string", 4),
+            screen("Allow list (1/1)", address, 5),
+            screen("", "End of Allow list", 4),
+            screen("Expiration", "2030-01-01T00:00:00Z", 3),
+        ]);
+    });
+
+    test("registerTextualMessage", async () => {
+        const wallet = new OsmoWallet();
+        const param = {privateKey: "", data: {...txData, type: "exec", feeDemon: "uosmo", chainId: "osmosis-1", data: {
+            grantee: "osmo137augvuewy625ns8a2age4sztl09hs7pnc7em2",
+            msgs: [{
+                typeUrl: "/osmosis.poolmanager.v1beta1.MsgSwapExactAmountIn",
+                value: {
+                    sender: "osmo1vm9pfph4syf9g3hfz29636cfw5wp9n6xqrzhjw",
+                    routes: [{poolId: BigInt(1), tokenOutDenom: "uatom"}],
+                    tokenIn: {denom: "uosmo", amount: "1000"},
+                    tokenOutMinAmount: "1",
+                },
+            }],
+        }}};
+        await expect(wallet.signTransaction(param)).rejects.toBeDefined();
+
+        registerTextualMessage("osmosis.poolmanager.v1beta1.MsgSwapExactAmountIn", {
+            fields: [
+                {name: "sender", kind: "string"},
+                {name: "routes", kind: "message", repeated: true, message: "osmosis.poolmanager.v1beta1.SwapAmountInRoute"},
+                {name: "token_in", kind: "coin"},
+                {name: "token_out_min_amount", kind: "int"},
+            ],
+        });
+        registerTextualMessage("osmosis.poolmanager.v1beta1.SwapAmountInRoute", {
+            fields: [{name: "pool_id", kind: "uint"}, {name: "token_out_denom", kind: "string"}],
+        });
+        const result = await wallet.signTransaction(param);
+        const screens = decodeTextualSignDoc(base.fromHex(result.doc));
+        expect(screens[3]).toEqual(screen("Address", "osmo137augvuewy625ns8a2age4sztl09hs7pnc7em2"));
+        expect(screens.slice(9, 20)).toEqual([
+            screen("Msgs", "1 Any", 2),
+            screen("Msgs (1/1)", "/osmosis.poolmanager.v1beta1.MsgSwapExactAmountIn", 3),
+            screen("Sender", "osmo1vm9pfph4syf9g3hfz29636cfw5wp9n6xqrzhjw", 4),
+            screen("Routes", "1 SwapAmountInRoute", 4),
+            screen("Routes (1/1)", "osmosis.poolmanager.v1beta1.SwapAmountInRoute object", 5),
+            screen("Pool id", "1", 6),
+            screen("Token out denom", "uatom", 6),
+            screen("", "End of Routes", 4),
+            screen("Token in", "1'000 uosmo", 4),
+            screen("Token out min amount", "1", 4),
+            screen("", "End of Msgs", 2),
+        ]);
+    });
+});
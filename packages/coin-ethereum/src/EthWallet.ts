@@ -15,6 +15,7 @@ import {
     MpcTransactionParam,
     NewAddressError,
     NewAddressParams,
+    SignMsgError,
     SignTxError,
     SignTxParams,
     TypedMessage,
@@ -23,15 +24,16 @@ import {
     ValidSignedTransactionParams,
     VerifyMessageParams
 } from '@okxweb3/coin-base';
-import {abi, base, BigNumber} from '@okxweb3/crypto-lib';
+import {base, BigNumber} from '@okxweb3/crypto-lib';
 import * as eth from './index';
 import {hexToBytes, unpadBytes, concatBytes, rlp as RLP} from './sdk/ethereumjs-util';
 import type {AuthorizationListItem} from './sdk/ethereumjs-tx/types';
 import {bytesToHex, unpadBuffer} from "./index";
+import {AbiInterface, ERC20_ABI} from './abi';
 
 export type EthEncryptedData = eth.sigUtil.EthEncryptedData
 
-const TOKEN_TRANSFER_FUNCTION_SIGNATURE = '0xa9059cbb';
+const ERC20 = new AbiInterface(ERC20_ABI);
 
 export type EthTxParams = {
     to: string,
@@ -51,6 +53,7 @@ export type EthTxParams = {
     // 0: without chainId
     // 1：with chainId；
     // 2：EIP-1559 transaction
+    // 3: EIP-4844 blob transaction
     // 4: EIP-7702 set code
     type: number;
 
@@ -61,6 +64,14 @@ export type EthTxParams = {
     maxPriorityFeePerGas: string;
     maxFeePerGas: string;
 
+    // EIP-4844; Type 3
+    // commitments and proofs are precomputed, versioned hashes are derived from the commitments if not given
+    maxFeePerBlobGas: string;
+    blobVersionedHashes?: string[];
+    blobs?: string[];
+    kzgCommitments?: string[];
+    kzgProofs?: string[];
+
     // EIP-7702; Type 4
     authorizationList: AuthorizationListItem[];
 }
@@ -124,6 +135,11 @@ export class EthWallet extends BaseWallet {
             type: data.type || 0,
             maxPriorityFeePerGas: this.convert2HexString(data.maxPriorityFeePerGas || 0),
             maxFeePerGas: this.convert2HexString(data.maxFeePerGas || 0),
+            maxFeePerBlobGas: this.convert2HexString(data.maxFeePerBlobGas || 0),
+            blobVersionedHashes: data.blobVersionedHashes,
+            blobs: data.blobs,
+            kzgCommitments: data.kzgCommitments,
+            kzgProofs: data.kzgProofs,
             authorizationList: data.authorizationList || [],
             useValue: data.useValue || false
         };
@@ -149,10 +165,7 @@ export class EthWallet extends BaseWallet {
                 let value = txParams.value;
                 let data: string | undefined;
                 if (tokenAddress) {
-                    data = TOKEN_TRANSFER_FUNCTION_SIGNATURE + Array.prototype.map
-                        .call(abi.RawEncode(['address', 'uint256'], [toAddress, value],),
-                            (x: number) => `00${x.toString(16)}`.slice(-2),
-                        ).join('');
+                    data = ERC20.encodeFunctionData('transfer', [toAddress, value]);
                     if (!txParams.useValue) {
                         value = '0x0';
                     }
@@ -178,10 +191,7 @@ export class EthWallet extends BaseWallet {
                 let value = txParams.value;
                 let data: string | undefined;
                 if (tokenAddress) {
-                    data = TOKEN_TRANSFER_FUNCTION_SIGNATURE + Array.prototype.map
-                        .call(abi.RawEncode(['address', 'uint256'], [toAddress, value],),
-                            (x: number) => `00${x.toString(16)}`.slice(-2),
-                        ).join('');
+                    data = ERC20.encodeFunctionData('transfer', [toAddress, value]);
                     value = '0x0';
                     toAddress = tokenAddress;
                 } else {
@@ -199,6 +209,25 @@ export class EthWallet extends BaseWallet {
                     maxFeePerGas: txParams.maxFeePerGas,
                 };
                 return Promise.resolve(eth.signTransaction(privateKey, txData))
+            } else if (type === 3) {
+                // EIP-4844 blob transaction, blobs can not create contracts so `to` is required
+                const txData = {
+                    nonce: nonce,
+                    gasLimit: txParams.gasLimit,
+                    to: txParams.to,
+                    value: txParams.value,
+                    data: txParams.data,
+                    chainId: chainId,
+                    type: type,
+                    maxPriorityFeePerGas: txParams.maxPriorityFeePerGas,
+                    maxFeePerGas: txParams.maxFeePerGas,
+                    maxFeePerBlobGas: txParams.maxFeePerBlobGas,
+                    blobVersionedHashes: txParams.blobVersionedHashes,
+                    blobs: txParams.blobs,
+                    kzgCommitments: txParams.kzgCommitments,
+                    kzgProofs: txParams.kzgProofs,
+                };
+                return Promise.resolve(eth.signTransaction(privateKey, txData))
             } else if (type === 4) {
                 // EIP-7702 set code
                 const tokenAddress = txParams.contractAddress;
@@ -206,10 +235,7 @@ export class EthWallet extends BaseWallet {
                 let value = txParams.value;
                 let data: string | undefined;
                 if (tokenAddress) {
-                    data = TOKEN_TRANSFER_FUNCTION_SIGNATURE + Array.prototype.map
-                        .call(abi.RawEncode(['address', 'uint256'], [toAddress, value],),
-                            (x: number) => `00${x.toString(16)}`.slice(-2),
-                        ).join('');
+                    data = ERC20.encodeFunctionData('transfer', [toAddress, value]);
                     value = '0x0';
                     toAddress = tokenAddress;
                 } else {
@@ -308,8 +334,13 @@ export class EthWallet extends BaseWallet {
         return Promise.resolve(result);
     }
 
-    async verifyMessage(param: VerifyMessageParams): Promise<boolean> {
+    // with an eth_call provider, signatures of ERC-1271 contract accounts and ERC-6492 counterfactual accounts are verified too
+    async verifyMessage(param: VerifyMessageParams, call?: eth.EthCallProvider): Promise<boolean> {
         const d = param.data as TypedMessage;
+        if (call) {
+            const hash = eth.hashMessage(d.type as eth.MessageTypes, d.message);
+            return eth.verifySignature({address: param.address || '', hash: hash, signature: param.signature, call: call});
+        }
         const r = await this.ecRecover(d, param.signature)
         const address = param.address || '';
         return Promise.resolve(address.toLowerCase() === r.toLowerCase())
@@ -388,6 +419,71 @@ export class EthWallet extends BaseWallet {
         }
     }
 
+    // summary and risks of the transaction signTransaction would sign for the same param
+    async previewTransaction(param: SignTxParams, options?: eth.PreviewOptions): Promise<eth.TxPreview> {
+        return Promise.resolve(eth.previewTransaction(this.convert2TxParam(param.data), options));
+    }
+
+    // summary and risks of a TYPE_DATA_V3/TYPE_DATA_V4 message signMessage would sign for the same param
+    async previewTypedData(param: SignTxParams, options?: eth.PreviewOptions): Promise<eth.TypedDataPreview> {
+        const data = param.data as TypedMessage;
+        const t = data.type as eth.MessageTypes
+        if (t !== eth.MessageTypes.TYPE_DATA_V3 && t !== eth.MessageTypes.TYPE_DATA_V4) {
+            return Promise.reject(`unsupported message type: ${data.type}`);
+        }
+        return Promise.resolve(eth.previewTypedData(data.message, options));
+    }
+
+    // EIP-4361, param.data is the message text or its SiweMessage fields, signed by personal_sign
+    async signSiweMessage(param: SignTxParams): Promise<string> {
+        try {
+            const message = typeof param.data === 'string' ? param.data : eth.buildSiweMessage(param.data);
+            eth.parseSiweMessage(message);
+            return await this.signMessage({privateKey: param.privateKey, data: {type: eth.MessageTypes.PERSONAL_SIGN, message: message}});
+        } catch (e) {
+            return Promise.reject(SignMsgError);
+        }
+    }
+
+    async verifySiweMessage(message: string | eth.SiweMessage, signature: string, options?: eth.SiweVerifyOptions): Promise<eth.SiweVerifyResult> {
+        return Promise.resolve(eth.verifySiweMessage(message, signature, options));
+    }
+
+    // ERC-4337, param.data is UserOperationSignParams, the user operation is returned with its signature
+    async signUserOperation(param: SignTxParams): Promise<eth.UserOperation> {
+        try {
+            assertBufferLength(base.fromHex(param.privateKey), 32)
+            const data = param.data as eth.UserOperationSignParams;
+            const signature = eth.signUserOperation(data, base.fromHex(param.privateKey));
+            return Promise.resolve({...data.userOperation, signature: signature});
+        } catch (e) {
+            return Promise.reject(SignTxError);
+        }
+    }
+
+    async getMPCRawUserOperation(param: MpcRawTransactionParam): Promise<any> {
+        try {
+            const data = param.data as eth.UserOperationSignParams;
+            return Promise.resolve({
+                raw: base.toHex(Buffer.from(JSON.stringify(data))),
+                hash: eth.signUserOperation(data),
+            });
+        } catch (e) {
+            return Promise.reject(GetMpcRawTransactionError);
+        }
+    }
+
+    async getMPCUserOperation(param: MpcTransactionParam): Promise<eth.UserOperation> {
+        try {
+            const data = JSON.parse(base.fromHex(param.raw).toString()) as eth.UserOperationSignParams;
+            const hash = eth.signUserOperation(data);
+            const signature = eth.getMPCSignedMessage(hash, param.sigs as string, param.publicKey!);
+            return Promise.resolve({...data.userOperation, signature: signature});
+        } catch (e) {
+            return Promise.reject(GetMpcTransactionError);
+        }
+    }
+
     async getHardWareRawTransaction(param: SignTxParams): Promise<any> {
         try {
             const rawTx = await this.signTransaction(param as SignTxParams);
@@ -398,9 +494,15 @@ export class EthWallet extends BaseWallet {
     }
 
     // BTC does not need to implement this interface. Hardware wallets can directly generate and broadcast transactions.
-    async getHardWareSignedTransaction(param: HardwareRawTransactionParam): Promise<any> {
+    // blob transactions pass their blobs, commitments and proofs to get the network wrapper
+    async getHardWareSignedTransaction(param: HardwareRawTransactionParam & Partial<eth.BlobSidecar>): Promise<any> {
         try {
-            return eth.getSignedTransaction(param.raw, param.r!, param.s!, param.v!);
+            const sidecar = param.blobs ? {
+                blobs: param.blobs,
+                kzgCommitments: param.kzgCommitments!,
+                kzgProofs: param.kzgProofs!,
+            } : undefined;
+            return eth.getSignedTransaction(param.raw, param.r!, param.s!, param.v!, sidecar);
         } catch (e) {
             return Promise.reject(GetHardwareSignedTransactionError);
         }
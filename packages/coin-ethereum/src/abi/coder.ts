@@ -0,0 +1,363 @@
+import {base, BN} from '@okxweb3/crypto-lib';
+import {toChecksumAddress} from '../sdk/ethereumjs-util';
+import {AbiParam} from './types';
+
+const WORD = 32;
+
+// parses a human readable parameter such as "uint256", "address indexed from" or "(address,uint256)[] orders"
+export function parseParamType(param: string): AbiParam {
+    const str = param.trim();
+    let type: string;
+    let rest: string;
+    let components: AbiParam[] | undefined;
+    if (str.startsWith('(') || str.startsWith('tuple(')) {
+        const start = str.indexOf('(');
+        const end = matchParen(str, start);
+        components = splitTopLevel(str.slice(start + 1, end)).map(parseParamType);
+        const suffix = /^(\[\d*\])*/.exec(str.slice(end + 1))![0];
+        type = 'tuple' + suffix;
+        rest = str.slice(end + 1 + suffix.length);
+    } else {
+        const match = /^([a-zA-Z0-9]+(\[\d*\])*)/.exec(str);
+        if (!match) {
+            throw new Error(`invalid type: ${param}`);
+        }
+        type = normalizeType(match[1]);
+        rest = str.slice(match[1].length);
+    }
+    const words = rest.trim().split(/\s+/).filter(w => w.length > 0);
+    const result: AbiParam = {name: '', type: type};
+    if (words[0] === 'indexed') {
+        result.indexed = true;
+        words.shift();
+    }
+    if (words.length > 1) {
+        throw new Error(`invalid type: ${param}`);
+    }
+    result.name = words[0] || '';
+    if (components) {
+        result.components = components;
+    }
+    return toParam(result);
+}
+
+// canonical type used in signatures, tuples are written as (t1,t2)
+export function formatParamType(param: AbiParam): string {
+    if (param.type.startsWith('tuple')) {
+        return '(' + (param.components || []).map(formatParamType).join(',') + ')' + param.type.slice(5);
+    }
+    return param.type;
+}
+
+export function encodeParameters(types: (AbiParam | string)[], values: any[]): Buffer {
+    const params = types.map(toParam);
+    if (params.length !== values.length) {
+        throw new Error(`types/values length mismatch, ${params.length} != ${values.length}`);
+    }
+    return encodeTuple(params, values);
+}
+
+export function decodeParameters(types: (AbiParam | string)[], data: Buffer | string): any[] {
+    const buf = typeof data === 'string' ? parseBytes(data) : data;
+    return decodeTuple(types.map(toParam), buf, 0);
+}
+
+export function toParam(param: AbiParam | string): AbiParam {
+    if (typeof param === 'string') {
+        return parseParamType(param);
+    }
+    const result: AbiParam = {...param, type: normalizeType(param.type)};
+    if (param.components) {
+        result.components = param.components.map(toParam);
+    }
+    return result;
+}
+
+export function isDynamic(param: AbiParam): boolean {
+    const array = arrayChild(param);
+    if (array) {
+        return array.length < 0 || isDynamic(array.child);
+    }
+    if (param.type === 'tuple') {
+        return (param.components || []).some(isDynamic);
+    }
+    return param.type === 'bytes' || param.type === 'string';
+}
+
+function normalizeType(type: string): string {
+    return type.replace(/^(u?int)(?=$|\[)/, '$1256').replace(/^byte(?=$|\[)/, 'bytes1');
+}
+
+function matchParen(str: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < str.length; i++) {
+        if (str[i] === '(') {
+            depth++;
+        } else if (str[i] === ')') {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    throw new Error(`unbalanced parenthesis: ${str}`);
+}
+
+function splitTopLevel(str: string): string[] {
+    if (str.trim().length === 0) {
+        return [];
+    }
+    const parts: string[] = [];
+    let depth = 0;
+    let last = 0;
+    for (let i = 0; i < str.length; i++) {
+        if (str[i] === '(') {
+            depth++;
+        } else if (str[i] === ')') {
+            depth--;
+        } else if (str[i] === ',' && depth === 0) {
+            parts.push(str.slice(last, i));
+            last = i + 1;
+        }
+    }
+    parts.push(str.slice(last));
+    return parts;
+}
+
+// the element type of an array type, length is -1 for dynamic arrays
+function arrayChild(param: AbiParam): { child: AbiParam, length: number } | undefined {
+    const match = /\[(\d*)\]$/.exec(param.type);
+    if (!match) {
+        return undefined;
+    }
+    const child: AbiParam = {...param, type: param.type.slice(0, match.index)};
+    return {child: child, length: match[1] === '' ? -1 : parseInt(match[1], 10)};
+}
+
+function headSize(param: AbiParam): number {
+    if (isDynamic(param)) {
+        return WORD;
+    }
+    const array = arrayChild(param);
+    if (array) {
+        return array.length * headSize(array.child);
+    }
+    if (param.type === 'tuple') {
+        return (param.components || []).reduce((size, c) => size + headSize(c), 0);
+    }
+    return WORD;
+}
+
+function toBN(value: any): BN {
+    if (BN.isBN(value)) {
+        return value;
+    }
+    if (typeof value === 'bigint') {
+        return new BN(value.toString(), 10);
+    }
+    if (typeof value === 'number') {
+        if (!Number.isSafeInteger(value)) {
+            throw new Error(`invalid number value: ${value}`);
+        }
+        return new BN(value);
+    }
+    if (typeof value === 'string') {
+        if (/^-?0x[0-9a-fA-F]+$/.test(value)) {
+            const negative = value.startsWith('-');
+            const bn = new BN(value.slice(negative ? 3 : 2), 16);
+            return negative ? bn.neg() : bn;
+        }
+        if (/^-?\d+$/.test(value)) {
+            return new BN(value, 10);
+        }
+    }
+    if (value && typeof value.toFixed === 'function') {
+        // BigNumber
+        return toBN(value.toFixed());
+    }
+    throw new Error(`invalid number value: ${value}`);
+}
+
+// 0x prefixed hex or bytes, "0x" is empty bytes
+export function parseBytes(value: any): Buffer {
+    if (typeof value === 'string') {
+        if (!/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+            throw new Error(`invalid bytes value: ${value}`);
+        }
+        return Buffer.from(value.slice(2), 'hex');
+    }
+    if (value instanceof Uint8Array) {
+        return Buffer.from(value);
+    }
+    throw new Error(`invalid bytes value: ${value}`);
+}
+
+function padRight(data: Buffer): Buffer {
+    const size = Math.ceil(data.length / WORD) * WORD;
+    return Buffer.concat([data, Buffer.alloc(size - data.length)]);
+}
+
+function encodeUint(value: BN): Buffer {
+    return value.toArrayLike(Buffer, 'be', WORD);
+}
+
+function encodeTuple(params: AbiParam[], values: any[]): Buffer {
+    const heads: Buffer[] = [];
+    const tails: Buffer[] = [];
+    let offset = params.reduce((size, p) => size + headSize(p), 0);
+    params.forEach((param, i) => {
+        const encoded = encodeSingle(param, values[i]);
+        if (isDynamic(param)) {
+            heads.push(encodeUint(new BN(offset)));
+            tails.push(encoded);
+            offset += encoded.length;
+        } else {
+            heads.push(encoded);
+        }
+    });
+    return Buffer.concat([...heads, ...tails]);
+}
+
+function encodeSingle(param: AbiParam, value: any): Buffer {
+    const type = param.type;
+    const array = arrayChild(param);
+    if (array) {
+        if (!Array.isArray(value)) {
+            throw new Error(`invalid ${type} value, array expected`);
+        }
+        if (array.length >= 0 && value.length !== array.length) {
+            throw new Error(`invalid ${type} value, ${array.length} items expected`);
+        }
+        const encoded = encodeTuple(value.map(() => array.child), value);
+        return array.length < 0 ? Buffer.concat([encodeUint(new BN(value.length)), encoded]) : encoded;
+    }
+    if (type === 'tuple') {
+        const components = param.components || [];
+        // a tuple is given either in order or as an object keyed by the component names
+        const values = Array.isArray(value) ? value : components.map(c => value[c.name!]);
+        if (values.length !== components.length) {
+            throw new Error(`invalid tuple value, ${components.length} items expected`);
+        }
+        return encodeTuple(components, values);
+    }
+    if (type === 'address') {
+        if (typeof value !== 'string' || !/^(0x)?[0-9a-fA-F]{40}$/.test(value)) {
+            throw new Error(`invalid address value: ${value}`);
+        }
+        return Buffer.concat([Buffer.alloc(12), base.fromHex(value)]);
+    }
+    if (type === 'bool') {
+        return encodeUint(new BN(value ? 1 : 0));
+    }
+    if (type === 'string') {
+        const data = Buffer.from(value, 'utf8');
+        return Buffer.concat([encodeUint(new BN(data.length)), padRight(data)]);
+    }
+    if (type === 'bytes') {
+        const data = parseBytes(value);
+        return Buffer.concat([encodeUint(new BN(data.length)), padRight(data)]);
+    }
+    let match = /^bytes(\d+)$/.exec(type);
+    if (match) {
+        const size = parseInt(match[1], 10);
+        const data = parseBytes(value);
+        if (size < 1 || size > 32 || data.length !== size) {
+            throw new Error(`invalid ${type} value: ${value}`);
+        }
+        return padRight(data);
+    }
+    match = /^(u?)int(\d+)$/.exec(type);
+    if (match) {
+        const bits = parseInt(match[2], 10);
+        if (bits < 8 || bits > 256 || bits % 8 !== 0) {
+            throw new Error(`invalid type: ${type}`);
+        }
+        const num = toBN(value);
+        if (match[1] === 'u') {
+            if (num.isNeg() || num.bitLength() > bits) {
+                throw new Error(`${type} value out of range: ${value}`);
+            }
+            return encodeUint(num);
+        }
+        const limit = new BN(1).ushln(bits - 1);
+        if (num.gte(limit) || num.lt(limit.neg())) {
+            throw new Error(`${type} value out of range: ${value}`);
+        }
+        return encodeUint(num.toTwos(256));
+    }
+    throw new Error(`unsupported type: ${type}`);
+}
+
+function readWord(data: Buffer, pos: number): Buffer {
+    if (pos < 0 || pos + WORD > data.length) {
+        throw new Error('data out of range');
+    }
+    return data.slice(pos, pos + WORD);
+}
+
+function readLength(data: Buffer, pos: number): number {
+    const value = new BN(readWord(data, pos));
+    if (value.gtn(data.length)) {
+        throw new Error('data out of range');
+    }
+    return value.toNumber();
+}
+
+function decodeTuple(params: AbiParam[], data: Buffer, start: number): any[] {
+    let cursor = start;
+    return params.map(param => {
+        let value;
+        if (isDynamic(param)) {
+            value = decodeSingle(param, data, start + readLength(data, cursor));
+            cursor += WORD;
+        } else {
+            value = decodeSingle(param, data, cursor);
+            cursor += headSize(param);
+        }
+        return value;
+    });
+}
+
+function decodeSingle(param: AbiParam, data: Buffer, pos: number): any {
+    const type = param.type;
+    const array = arrayChild(param);
+    if (array) {
+        if (array.length >= 0) {
+            return decodeTuple(new Array(array.length).fill(array.child), data, pos);
+        }
+        const length = readLength(data, pos);
+        // every item takes at least one word
+        if (pos + WORD + length * WORD > data.length) {
+            throw new Error('data out of range');
+        }
+        return decodeTuple(new Array(length).fill(array.child), data, pos + WORD);
+    }
+    if (type === 'tuple') {
+        return decodeTuple(param.components || [], data, pos);
+    }
+    if (type === 'string' || type === 'bytes') {
+        const length = readLength(data, pos);
+        if (pos + WORD + length > data.length) {
+            throw new Error('data out of range');
+        }
+        const value = data.slice(pos + WORD, pos + WORD + length);
+        return type === 'string' ? value.toString('utf8') : base.toHex(value, true);
+    }
+    const word = readWord(data, pos);
+    if (type === 'address') {
+        return toChecksumAddress(base.toHex(word.slice(12), true));
+    }
+    if (type === 'bool') {
+        return !new BN(word).isZero();
+    }
+    let match = /^bytes(\d+)$/.exec(type);
+    if (match) {
+        return base.toHex(word.slice(0, parseInt(match[1], 10)), true);
+    }
+    match = /^(u?)int(\d+)$/.exec(type);
+    if (match) {
+        const num = new BN(word);
+        return match[1] === 'u' ? num : num.fromTwos(256);
+    }
+    throw new Error(`unsupported type: ${type}`);
+}
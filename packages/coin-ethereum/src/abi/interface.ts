@@ -0,0 +1,229 @@
+import {base} from '@okxweb3/crypto-lib';
+import {decodeParameters, encodeParameters, formatParamType, parseParamType, parseBytes, toParam} from './coder';
+import {AbiFragment, AbiParam, DecodedError, DecodedEvent, DecodedFunction, EventLog} from './types';
+
+export const ERC20_ABI: AbiFragment[] = [
+    {type: 'function', name: 'transfer', inputs: [{name: 'to', type: 'address'}, {name: 'value', type: 'uint256'}], outputs: [{name: '', type: 'bool'}], stateMutability: 'nonpayable'},
+    {type: 'function', name: 'approve', inputs: [{name: 'spender', type: 'address'}, {name: 'value', type: 'uint256'}], outputs: [{name: '', type: 'bool'}], stateMutability: 'nonpayable'},
+    {type: 'function', name: 'transferFrom', inputs: [{name: 'from', type: 'address'}, {name: 'to', type: 'address'}, {name: 'value', type: 'uint256'}], outputs: [{name: '', type: 'bool'}], stateMutability: 'nonpayable'},
+    {type: 'function', name: 'balanceOf', inputs: [{name: 'account', type: 'address'}], outputs: [{name: '', type: 'uint256'}], stateMutability: 'view'},
+    {type: 'function', name: 'allowance', inputs: [{name: 'owner', type: 'address'}, {name: 'spender', type: 'address'}], outputs: [{name: '', type: 'uint256'}], stateMutability: 'view'},
+    {type: 'function', name: 'decimals', inputs: [], outputs: [{name: '', type: 'uint8'}], stateMutability: 'view'},
+    {type: 'function', name: 'symbol', inputs: [], outputs: [{name: '', type: 'string'}], stateMutability: 'view'},
+    {type: 'event', name: 'Transfer', inputs: [{name: 'from', type: 'address', indexed: true}, {name: 'to', type: 'address', indexed: true}, {name: 'value', type: 'uint256', indexed: false}], anonymous: false},
+    {type: 'event', name: 'Approval', inputs: [{name: 'owner', type: 'address', indexed: true}, {name: 'spender', type: 'address', indexed: true}, {name: 'value', type: 'uint256', indexed: false}], anonymous: false},
+];
+
+// the builtin errors of solidity, revert("reason") and panics such as overflow
+const BUILTIN_ERRORS: AbiFragment[] = [
+    {type: 'error', name: 'Error', inputs: [{name: 'message', type: 'string'}]},
+    {type: 'error', name: 'Panic', inputs: [{name: 'code', type: 'uint256'}]},
+];
+
+export function formatSignature(fragment: AbiFragment): string {
+    return `${fragment.name || ''}(${(fragment.inputs || []).map(formatParamType).join(',')})`;
+}
+
+// the first 4 bytes of keccak256 of a function or error signature, e.g. "transfer(address,uint256)"
+export function getSelector(signature: string): string {
+    return base.toHex(base.keccak256(Buffer.from(signature)).slice(0, 4), true);
+}
+
+// topic0 of an event, e.g. "Transfer(address,address,uint256)"
+export function getEventTopic(signature: string): string {
+    return base.toHex(base.keccak256(Buffer.from(signature)), true);
+}
+
+export class AbiInterface {
+    readonly fragments: AbiFragment[];
+
+    // abi is the json abi, either as string or parsed
+    constructor(abi: string | AbiFragment[]) {
+        const fragments: AbiFragment[] = typeof abi === 'string' ? JSON.parse(abi) : abi;
+        if (!Array.isArray(fragments)) {
+            throw new Error('invalid abi');
+        }
+        this.fragments = fragments.map(f => ({
+            ...f,
+            // fragments without type are functions, see the abi spec
+            type: f.type || 'function',
+            inputs: (f.inputs || []).map(toParam),
+            outputs: (f.outputs || []).map(toParam),
+        }));
+    }
+
+    // key is the name, the signature or the selector
+    getFunction(key: string): AbiFragment {
+        return this.find('function', key, getSelector);
+    }
+
+    // key is the name, the signature or the topic
+    getEvent(key: string): AbiFragment {
+        return this.find('event', key, getEventTopic);
+    }
+
+    // key is the name, the signature or the selector
+    getError(key: string): AbiFragment {
+        return this.find('error', key, getSelector);
+    }
+
+    encodeFunctionData(key: string, values: any[] = []): string {
+        const fragment = this.getFunction(key);
+        const selector = getSelector(formatSignature(fragment));
+        return selector + base.toHex(encodeParameters(fragment.inputs!, values));
+    }
+
+    decodeFunctionData(data: string, key?: string): DecodedFunction {
+        const buf = parseBytes(data);
+        if (buf.length < 4) {
+            throw new Error('invalid calldata');
+        }
+        const selector = base.toHex(buf.slice(0, 4), true);
+        const fragment = this.getFunction(key || selector);
+        const signature = formatSignature(fragment);
+        if (getSelector(signature) !== selector) {
+            throw new Error(`selector mismatch, ${selector} is not ${signature}`);
+        }
+        return {
+            name: fragment.name!,
+            signature: signature,
+            selector: selector,
+            inputs: fragment.inputs!,
+            args: decodeParameters(fragment.inputs!, buf.slice(4)),
+        };
+    }
+
+    // the abi encoded return data of eth_call
+    encodeFunctionResult(key: string, values: any[] = []): string {
+        return base.toHex(encodeParameters(this.getFunction(key).outputs!, values), true);
+    }
+
+    decodeFunctionResult(key: string, data: string): any[] {
+        return decodeParameters(this.getFunction(key).outputs!, data);
+    }
+
+    // revert data, custom errors of this abi or the builtin Error(string) and Panic(uint256)
+    decodeErrorResult(data: string): DecodedError {
+        const buf = parseBytes(data);
+        if (buf.length < 4) {
+            throw new Error('invalid error data');
+        }
+        const selector = base.toHex(buf.slice(0, 4), true);
+        const errors = this.fragments.filter(f => f.type === 'error').concat(BUILTIN_ERRORS);
+        const fragment = errors.find(f => getSelector(formatSignature(f)) === selector);
+        if (!fragment) {
+            throw new Error(`no matching error: ${selector}`);
+        }
+        const inputs = (fragment.inputs || []).map(toParam);
+        return {
+            name: fragment.name!,
+            signature: formatSignature(fragment),
+            selector: selector,
+            inputs: inputs,
+            args: decodeParameters(inputs, buf.slice(4)),
+        };
+    }
+
+    // topics of eth_getLogs filters, null matches any value
+    encodeEventTopics(key: string, values: any[] = []): (string | null)[] {
+        const fragment = this.getEvent(key);
+        const indexed = fragment.inputs!.filter(p => p.indexed);
+        if (values.length > indexed.length) {
+            throw new Error(`too many indexed values for ${formatSignature(fragment)}`);
+        }
+        const topics: (string | null)[] = fragment.anonymous ? [] : [getEventTopic(formatSignature(fragment))];
+        values.forEach((value, i) => {
+            topics.push(value === null || value === undefined ? null : encodeTopic(indexed[i], value));
+        });
+        while (topics.length > 0 && topics[topics.length - 1] === null) {
+            topics.pop();
+        }
+        return topics;
+    }
+
+    decodeEventLog(log: EventLog, key?: string): DecodedEvent {
+        let topics = log.topics;
+        let fragment: AbiFragment;
+        if (key) {
+            fragment = this.getEvent(key);
+        } else {
+            if (topics.length === 0) {
+                throw new Error('anonymous event requires the event key');
+            }
+            fragment = this.getEvent(topics[0]);
+        }
+        const signature = formatSignature(fragment);
+        const topic = getEventTopic(signature);
+        if (!fragment.anonymous) {
+            if (topics.length === 0 || topics[0].toLowerCase() !== topic) {
+                throw new Error(`topic mismatch, ${topics[0]} is not ${signature}`);
+            }
+            topics = topics.slice(1);
+        }
+        const inputs = fragment.inputs!;
+        const indexed = inputs.filter(p => p.indexed);
+        if (topics.length !== indexed.length) {
+            throw new Error(`${indexed.length} indexed topics expected for ${signature}`);
+        }
+        const nonIndexed = decodeParameters(inputs.filter(p => !p.indexed), log.data);
+        let topicIndex = 0;
+        let dataIndex = 0;
+        const args = inputs.map(param => {
+            if (!param.indexed) {
+                return nonIndexed[dataIndex++];
+            }
+            const value = topics[topicIndex++];
+            if (isHashedTopic(param)) {
+                return value;
+            }
+            return decodeParameters([param], value)[0];
+        });
+        return {
+            name: fragment.name!,
+            signature: signature,
+            topic: topic,
+            inputs: inputs,
+            args: args,
+        };
+    }
+
+    private find(type: string, key: string, hash: (signature: string) => string): AbiFragment {
+        const candidates = this.fragments.filter(f => f.type === type);
+        let matches: AbiFragment[];
+        if (key.startsWith('0x')) {
+            matches = candidates.filter(f => hash(formatSignature(f)) === key.toLowerCase());
+        } else if (key.includes('(')) {
+            const start = key.indexOf('(');
+            const inputs = parseParamType(key.slice(start)).components || [];
+            const signature = formatSignature({type: type, name: key.slice(0, start).trim(), inputs: inputs});
+            matches = candidates.filter(f => formatSignature(f) === signature);
+        } else {
+            matches = candidates.filter(f => f.name === key);
+        }
+        if (matches.length === 0) {
+            throw new Error(`no matching ${type}: ${key}`);
+        }
+        if (matches.length > 1) {
+            throw new Error(`multiple matching ${type}s: ${key}, use the signature instead`);
+        }
+        return matches[0];
+    }
+}
+
+// indexed values of reference types are logged as their keccak256 hash
+function isHashedTopic(param: AbiParam): boolean {
+    return param.type === 'string' || param.type === 'bytes' || param.type.startsWith('tuple') || param.type.endsWith(']');
+}
+
+function encodeTopic(param: AbiParam, value: any): string {
+    if (param.type === 'string') {
+        return base.toHex(base.keccak256(Buffer.from(value, 'utf8')), true);
+    }
+    if (param.type === 'bytes') {
+        return base.toHex(base.keccak256(parseBytes(value)), true);
+    }
+    if (isHashedTopic(param)) {
+        throw new Error(`unsupported indexed type: ${param.type}`);
+    }
+    return base.toHex(encodeParameters([param], [value]), true);
+}
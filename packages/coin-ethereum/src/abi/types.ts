@@ -0,0 +1,53 @@
+// json abi, https://docs.soliditylang.org/en/latest/abi-spec.html#json
+export type AbiParam = {
+    name?: string;
+    // e.g. uint256, address[], tuple, tuple[2]
+    type: string;
+    // members of a tuple type
+    components?: AbiParam[];
+    // event inputs only
+    indexed?: boolean;
+    internalType?: string;
+};
+
+export type AbiFragment = {
+    // function, event, error, constructor, fallback or receive
+    type: string;
+    name?: string;
+    inputs?: AbiParam[];
+    outputs?: AbiParam[];
+    anonymous?: boolean;
+    stateMutability?: string;
+};
+
+// decoded values: uintN/intN as BN, address as checksum address, bytes/bytesN as 0x hex,
+// string and bool as is, arrays and tuples as arrays
+export type DecodedFunction = {
+    name: string;
+    signature: string;
+    selector: string;
+    inputs: AbiParam[];
+    args: any[];
+};
+
+export type DecodedEvent = {
+    name: string;
+    signature: string;
+    topic: string;
+    inputs: AbiParam[];
+    // indexed string, bytes, array and tuple values are the keccak256 topic
+    args: any[];
+};
+
+export type DecodedError = {
+    name: string;
+    signature: string;
+    selector: string;
+    inputs: AbiParam[];
+    args: any[];
+};
+
+export type EventLog = {
+    topics: string[];
+    data: string;
+};
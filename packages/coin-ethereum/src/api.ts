@@ -1,6 +1,7 @@
 import {base, signUtil} from "@okxweb3/crypto-lib"
 import {
     AccessListEIP2930TxData,
+    BlobEIP4844Transaction,
     ecdsaSign,
     FeeMarketEIP1559TxData,
     isHexString,
@@ -11,7 +12,8 @@ import {
     recoverFromSignature,
     toChecksumAddress,
     TransactionFactory,
-    TxData
+    TxData,
+    TypedTransaction
 } from "./sdk";
 import {hashMessage, MessageTypes} from "./message"
 import {padWithZeroes,} from './sdk/eth-sig-util';
@@ -53,6 +55,14 @@ export function validAddress(address: string) {
     }
 }
 
+// blob transactions are broadcast in the network wrapper form when their blobs are known
+export function serializeForBroadcast(tx: TypedTransaction): Buffer {
+    if (tx instanceof BlobEIP4844Transaction && tx.blobs !== undefined) {
+        return tx.serializeNetworkWrapper()
+    }
+    return tx.serialize()
+}
+
 export function signTransaction(privateKeyHex: string, txData: TxData | AccessListEIP2930TxData | FeeMarketEIP1559TxData) {
     const tx = TransactionFactory.fromTxData(txData);
     if (!privateKeyHex) {
@@ -64,7 +74,7 @@ export function signTransaction(privateKeyHex: string, txData: TxData | AccessLi
     }
     const privateKey = base.fromHex(privateKeyHex)
     const signedTx = tx.sign(privateKey)
-    return base.toHex(signedTx.serialize(), true);
+    return base.toHex(serializeForBroadcast(signedTx), true);
 }
 
 export function signMessage(messageType: MessageTypes, message: string, privateKey?: Buffer): string {
@@ -114,7 +124,7 @@ export function getMPCTransaction(raw: string, sig: string, publicKey: string) {
     const s = signature.slice(32, 64);
     const v = signUtil.secp256k1.getV(msgHash, base.toHex(r), base.toHex(s), base.fromHex(publicKey));
     tx = tx.processSignature(v + 27, r, s);
-    return base.toHex(tx.serialize(), true);
+    return base.toHex(serializeForBroadcast(tx), true);
 }
 
 export function getMPCSignedMessage(hash: string, sig: string, publicKey: string) {
@@ -125,10 +135,28 @@ export function getMPCSignedMessage(hash: string, sig: string, publicKey: string
     return makeSignature(v, r, s);
 }
 
-export function getSignedTransaction(raw: string, r: string, s: string, v: string) {
+export type BlobSidecar = {
+    blobs: string[];
+    kzgCommitments: string[];
+    kzgProofs: string[];
+}
+
+// the raw signed by hardware wallets is canonical, the blob sidecar is attached back to broadcast the network wrapper
+export function getSignedTransaction(raw: string, r: string, s: string, v: string, sidecar?: BlobSidecar) {
     let tx = TransactionFactory.fromSerializedData(base.fromHex(raw));
+    if (sidecar) {
+        if (!(tx instanceof BlobEIP4844Transaction)) {
+            throw new Error("blob sidecar requires an EIP-4844 transaction");
+        }
+        tx = BlobEIP4844Transaction.fromNetworkValuesArray([
+            tx.raw(),
+            sidecar.blobs.map((blob) => base.fromHex(blob)),
+            sidecar.kzgCommitments.map((commitment) => base.fromHex(commitment)),
+            sidecar.kzgProofs.map((proof) => base.fromHex(proof)),
+        ]);
+    }
     tx = tx.processSignatureWithRawV(parseInt(v, 16), base.fromHex(r), base.fromHex(s));
-    return base.toHex(tx.serialize(), true);
+    return base.toHex(serializeForBroadcast(tx), true);
 }
 
 export function getSignHash(raw: string) {
@@ -0,0 +1,147 @@
+import {base} from '@okxweb3/crypto-lib';
+import * as ethUtil from './sdk/ethereumjs-util';
+import {decodeParameters, encodeParameters, parseBytes} from './abi';
+
+// contract account signatures, https://eips.ethereum.org/EIPS/eip-1271 and https://eips.ethereum.org/EIPS/eip-6492
+
+// performs an eth_call against the latest block and resolves its return data,
+// a request without "to" is a deployless call that runs data as creation code
+export type EthCallProvider = (request: { to?: string, data: string }) => Promise<string>;
+
+export type Erc6492Signature = {
+    // factory deploying the counterfactual account and the calldata it is called with
+    factory: string;
+    factoryCalldata: string;
+    // the signature checked by isValidSignature once the account is deployed
+    signature: string;
+};
+
+export type ContractSignatureParams = {
+    address: string;
+    // 32 bytes message hash
+    hash: string;
+    signature: string;
+    call: EthCallProvider;
+};
+
+export const ERC1271_MAGIC_VALUE = '0x1626ba7e';
+export const ERC6492_MAGIC_SUFFIX = '0x6492649264926492649264926492649264926492649264926492649264926492';
+
+// isValidSignature(bytes32,bytes)
+const IS_VALID_SIGNATURE_SELECTOR = ERC1271_MAGIC_VALUE;
+
+// creation code of ValidateSigOffchain from eip-6492, constructor(address _signer, bytes32 _hash, bytes _signature),
+// it deploys the account through the factory if needed and returns 0x01 for a valid signature
+const ERC6492_VALIDATOR_BYTECODE =
+    '0x608060405234801561001057600080fd5b5060405161069438038061069483398101604081905261002f9161051e565b600061003c848484610048' +
+    '565b9050806000526001601ff35b60007f64926492649264926492649264926492649264926492649264926492649264926100748361040c565b0361' +
+    '01e7576000606080848060200190518101906100929190610577565b60405192955090935091506000906001600160a01b038516906100b690859061' +
+    '05dd565b6000604051808303816000865af19150503d80600081146100f3576040519150601f19603f3d011682016040523d82523d6000602084013e' +
+    '6100f8565b606091505b50509050876001600160a01b03163b60000361016057806101605760405162461bcd60e51b815260206004820152601e6024' +
+    '8201527f5369676e617475726556616c696461746f723a206465706c6f796d656e74000060448201526064015b60405180910390fd5b604051630b13' +
+    '5d3f60e11b808252906001600160a01b038a1690631626ba7e90610190908b9087906004016105f9565b602060405180830381865afa1580156101ad' +
+    '573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906101d19190610633565b6001600160e01b031916149450' +
+    '50505050610405565b6001600160a01b0384163b1561027a57604051630b135d3f60e11b808252906001600160a01b03861690631626ba7e90610227' +
+    '90879087906004016105f9565b602060405180830381865afa158015610244573d6000803e3d6000fd5b505050506040513d601f19601f8201168201' +
+    '80604052508101906102689190610633565b6001600160e01b031916149050610405565b81516041146102df5760405162461bcd60e51b8152602060' +
+    '04820152603a602482015260008051602061067483398151915260448201527f3a20696e76616c6964207369676e6174757265206c656e6774680000' +
+    '000000006064820152608401610157565b6102e7610425565b5060208201516040808401518451859392600091859190811061030c5761030c61065d' +
+    '565b016020015160f81c9050601b811480159061032b57508060ff16601c14155b1561038c5760405162461bcd60e51b815260206004820152603b60' +
+    '2482015260008051602061067483398151915260448201527f3a20696e76616c6964207369676e617475726520762076616c75650000000000606482' +
+    '0152608401610157565b60408051600081526020810180835289905260ff83169181019190915260608101849052608081018390526001600160a01b' +
+    '0389169060019060a0016020604051602081039080840390855afa1580156103ea573d6000803e3d6000fd5b505050602060405103516001600160a0' +
+    '1b0316149450505050505b9392505050565b600060208251101561041d57600080fd5b508051015190565b6040518060600160405280600390602082' +
+    '0280368337509192915050565b6001600160a01b038116811461045857600080fd5b50565b634e487b7160e01b600052604160045260246000fd5b60' +
+    '005b8381101561048c578181015183820152602001610474565b50506000910152565b600082601f8301126104a657600080fd5b8151600160016040' +
+    '1b038111156104bf576104bf61045b565b604051601f8201601f19908116603f011681016001600160401b03811182821017156104ed576104ed6104' +
+    '5b565b60405281815283820160200185101561050557600080fd5b610516826020830160208701610471565b949350505050565b6000806000606084' +
+    '8603121561053357600080fd5b835161053e81610443565b6020850151604086015191945092506001600160401b0381111561056157600080fd5b61' +
+    '056d86828701610495565b9150509250925092565b60008060006060848603121561058c57600080fd5b835161059781610443565b60208501519093' +
+    '506001600160401b038111156105b357600080fd5b6105bf86828701610495565b604086015190935090506001600160401b03811115610561576000' +
+    '80fd5b600082516105ef818460208701610471565b9190910192915050565b828152604060208201526000825180604084015261061e816060850160' +
+    '208701610471565b601f01601f1916919091016060019392505050565b60006020828403121561064557600080fd5b81516001600160e01b03198116' +
+    '811461040557600080fd5b634e487b7160e01b600052603260045260246000fdfe5369676e617475726556616c696461746f72237265636f76657253' +
+    '69676e6572';
+
+function parseHash(hash: string): Buffer {
+    const data = parseBytes(hash);
+    if (data.length !== 32) {
+        throw new Error(`invalid hash: ${hash}`);
+    }
+    return data;
+}
+
+export function isErc6492Signature(signature: string): boolean {
+    const suffix = ERC6492_MAGIC_SUFFIX.slice(2);
+    return signature.length >= suffix.length + 2 && signature.toLowerCase().endsWith(suffix);
+}
+
+// abi.encode(factory, factoryCalldata, signature) ++ magic suffix
+export function wrapErc6492Signature(wrapped: Erc6492Signature): string {
+    const data = encodeParameters(['address', 'bytes', 'bytes'], [wrapped.factory, wrapped.factoryCalldata, wrapped.signature]);
+    return base.toHex(Buffer.concat([data, parseBytes(ERC6492_MAGIC_SUFFIX)]), true);
+}
+
+export function parseErc6492Signature(signature: string): Erc6492Signature {
+    if (!isErc6492Signature(signature)) {
+        throw new Error('not an erc-6492 signature');
+    }
+    const data = parseBytes(signature).slice(0, -32);
+    const [factory, factoryCalldata, innerSignature] = decodeParameters(['address', 'bytes', 'bytes'], data);
+    return {factory: factory, factoryCalldata: factoryCalldata, signature: innerSignature};
+}
+
+// the signer address of a 65 bytes ecdsa signature, undefined if it does not recover
+export function recoverSignatureAddress(hash: string, signature: string): string | undefined {
+    try {
+        const sig = parseBytes(signature);
+        if (sig.length !== 65) {
+            return undefined;
+        }
+        const v = sig[64] < 27 ? sig[64] + 27 : sig[64];
+        const publicKey = ethUtil.recoverFromSignature(parseHash(hash), v, sig.slice(0, 32), sig.slice(32, 64));
+        return base.toHex(ethUtil.publicToAddress(publicKey), true);
+    } catch (e) {
+        return undefined;
+    }
+}
+
+// calls isValidSignature(hash, signature) on a deployed account
+export async function isValidErc1271Signature(address: string, hash: string, signature: string, call: EthCallProvider): Promise<boolean> {
+    const data = Buffer.concat([
+        parseBytes(IS_VALID_SIGNATURE_SELECTOR),
+        encodeParameters(['bytes32', 'bytes'], [base.toHex(parseHash(hash), true), signature]),
+    ]);
+    try {
+        const result = await call({to: address, data: base.toHex(data, true)});
+        return typeof result === 'string' && result.toLowerCase().startsWith(ERC1271_MAGIC_VALUE);
+    } catch (e) {
+        // reverts and accounts without code are invalid signatures
+        return false;
+    }
+}
+
+// validates a wrapped signature of a counterfactual account in a single deployless call
+export async function isValidErc6492Signature(address: string, hash: string, signature: string, call: EthCallProvider): Promise<boolean> {
+    const args = encodeParameters(['address', 'bytes32', 'bytes'], [address, base.toHex(parseHash(hash), true), signature]);
+    const data = Buffer.concat([parseBytes(ERC6492_VALIDATOR_BYTECODE), args]);
+    try {
+        const result = await call({data: base.toHex(data, true)});
+        return typeof result === 'string' && /^0x0*1$/.test(result);
+    } catch (e) {
+        return false;
+    }
+}
+
+// verifies a signature of an eoa, a deployed erc-1271 account or an undeployed erc-6492 account
+export async function verifySignature(params: ContractSignatureParams): Promise<boolean> {
+    const {address, hash, signature, call} = params;
+    if (isErc6492Signature(signature)) {
+        return isValidErc6492Signature(address, hash, signature, call);
+    }
+    const signer = recoverSignatureAddress(hash, signature);
+    if (signer !== undefined && signer.toLowerCase() === address.toLowerCase()) {
+        return true;
+    }
+    return isValidErc1271Signature(address, hash, signature, call);
+}
@@ -1,4 +1,9 @@
 export * from "./api"
 export * from "./message"
+export * from "./userop"
+export * from "./abi"
+export * from "./preview"
+export * from "./siwe"
+export * from "./erc1271"
 export * from "./sdk"
 export * from "./EthWallet"
@@ -0,0 +1,404 @@
+import {BN} from '@okxweb3/crypto-lib';
+import {AbiInterface, DecodedFunction, parseParamType} from './abi';
+import type {EthTxParams} from './EthWallet';
+
+// human readable summaries of what a transaction or an eip-712 signature approves, for review screens
+
+export type PreviewRiskLevel = 'warning' | 'danger';
+
+export type PreviewRisk = {
+    level: PreviewRiskLevel;
+    // e.g. UNLIMITED_APPROVAL, APPROVAL_FOR_ALL, DELEGATION
+    code: string;
+    message: string;
+};
+
+export type TxPreviewKind =
+    'nativeTransfer'
+    | 'erc20Transfer'
+    | 'erc20Approve'
+    | 'erc20IncreaseAllowance'
+    // erc-20 transferFrom and erc-721 transferFrom share the selector, amount is the tokenId for erc-721
+    | 'transferFrom'
+    | 'erc721Transfer'
+    | 'erc1155Transfer'
+    | 'erc1155BatchTransfer'
+    | 'setApprovalForAll'
+    | 'permit2Approve'
+    | 'delegation'
+    | 'contractDeploy'
+    | 'contractCall';
+
+export type DelegationPreview = {
+    // 0 means the delegation is valid on every chain
+    chainId: string;
+    address: string;
+    nonce: string;
+};
+
+// numbers are decimal strings
+export type TxPreview = {
+    kind: TxPreviewKind;
+    chainId: string;
+    to?: string;
+    value: string;
+    // the signature of the called method, if known
+    method?: string;
+    token?: string;
+    from?: string;
+    recipient?: string;
+    // spender of an approval or operator of setApprovalForAll
+    spender?: string;
+    amount?: string;
+    tokenIds?: string[];
+    amounts?: string[];
+    approved?: boolean;
+    expiration?: string;
+    delegations?: DelegationPreview[];
+    risks: PreviewRisk[];
+};
+
+export type TypedDataPreviewKind =
+    'permit'
+    | 'daiPermit'
+    | 'permit2Single'
+    | 'permit2Batch'
+    | 'permit2Transfer'
+    | 'permit2BatchTransfer'
+    | 'typedData';
+
+export type TokenAllowancePreview = {
+    token: string;
+    amount: string;
+    // unix seconds of the allowance expiration, if any
+    expiration?: string;
+};
+
+export type TypedDataPreview = {
+    kind: TypedDataPreviewKind;
+    primaryType: string;
+    domain: any;
+    // the contract verifying the signature
+    verifyingContract?: string;
+    owner?: string;
+    spender?: string;
+    allowances?: TokenAllowancePreview[];
+    // unix seconds after which the signature is invalid
+    deadline?: string;
+    risks: PreviewRisk[];
+};
+
+// the fields of a transaction the preview reads, gas and nonce do not change what it approves
+export type PreviewTxParams = Pick<EthTxParams, 'to' | 'value' | 'chainId'>
+    & Partial<Pick<EthTxParams, 'contractAddress' | 'useValue' | 'data' | 'type' | 'authorizationList'>>;
+
+export type PreviewOptions = {
+    // the chain the wallet is connected to, in hex or decimal
+    chainId?: string | number;
+    // unix seconds, defaults to the current time
+    now?: number;
+};
+
+const PREVIEW_ABI = new AbiInterface([
+    'transfer(address,uint256)',
+    'approve(address,uint256)',
+    'increaseAllowance(address,uint256)',
+    'transferFrom(address,address,uint256)',
+    'safeTransferFrom(address,address,uint256)',
+    'safeTransferFrom(address,address,uint256,bytes)',
+    'safeTransferFrom(address,address,uint256,uint256,bytes)',
+    'safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)',
+    'setApprovalForAll(address,bool)',
+    // permit2 allowance transfer
+    'approve(address,address,uint160,uint48)',
+].map(signature => {
+    const start = signature.indexOf('(');
+    return {type: 'function', name: signature.slice(0, start), inputs: parseParamType(signature.slice(start)).components};
+}));
+
+const MAX_UINT160 = new BN(1).ushln(160).subn(1);
+const MAX_UINT256 = new BN(1).ushln(256).subn(1);
+// amounts above 2^255 are treated as unlimited, e.g. type(uint256).max
+const UNLIMITED_UINT256 = new BN(1).ushln(255);
+// signatures valid for more than 30 days
+const LONG_EXPIRATION = 30 * 24 * 3600;
+
+function toBN(value: any): BN {
+    if (BN.isBN(value)) {
+        return value;
+    }
+    if (typeof value === 'number') {
+        return new BN(value);
+    }
+    const str = String(value === undefined || value === null ? 0 : value);
+    if (str.startsWith('0x') || str.startsWith('0X')) {
+        return new BN(str.slice(2) || '0', 16);
+    }
+    return new BN(str, 10);
+}
+
+function isZeroAddress(address?: string): boolean {
+    return !!address && /^(0x)?0{40}$/i.test(address);
+}
+
+function sameAddress(a?: string, b?: string): boolean {
+    return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+function risk(level: PreviewRiskLevel, code: string, message: string): PreviewRisk {
+    return {level: level, code: code, message: message};
+}
+
+function checkApprovalAmount(amount: BN, unlimited: BN, risks: PreviewRisk[]) {
+    if (amount.gte(unlimited)) {
+        risks.push(risk('danger', 'UNLIMITED_APPROVAL', 'the spender can transfer all of the token, now and in the future'));
+    }
+}
+
+function checkRecipient(recipient: string, token: string | undefined, risks: PreviewRisk[]) {
+    if (isZeroAddress(recipient)) {
+        risks.push(risk('danger', 'ZERO_ADDRESS_RECIPIENT', 'the recipient is the zero address, the assets are burned'));
+    } else if (sameAddress(recipient, token)) {
+        risks.push(risk('danger', 'TOKEN_CONTRACT_RECIPIENT', 'the recipient is the token contract itself, the assets are usually lost'));
+    }
+}
+
+function checkExpiration(expiration: BN, now: number, risks: PreviewRisk[]) {
+    if (expiration.lt(new BN(now))) {
+        risks.push(risk('warning', 'EXPIRED', 'the signature is already expired'));
+    } else if (expiration.gt(new BN(now + LONG_EXPIRATION))) {
+        risks.push(risk('warning', 'LONG_EXPIRATION', 'the signature stays valid for more than 30 days'));
+    }
+}
+
+function previewCall(preview: TxPreview, call: DecodedFunction) {
+    const args = call.args;
+    const token = preview.to;
+    const risks = preview.risks;
+    preview.method = call.signature;
+    switch (call.signature) {
+        case 'transfer(address,uint256)':
+            preview.kind = 'erc20Transfer';
+            preview.token = token;
+            preview.recipient = args[0];
+            preview.amount = args[1].toString(10);
+            checkRecipient(args[0], token, risks);
+            break;
+        case 'approve(address,uint256)':
+        case 'increaseAllowance(address,uint256)':
+            preview.kind = call.name === 'approve' ? 'erc20Approve' : 'erc20IncreaseAllowance';
+            preview.token = token;
+            preview.spender = args[0];
+            preview.amount = args[1].toString(10);
+            checkApprovalAmount(args[1], UNLIMITED_UINT256, risks);
+            break;
+        case 'transferFrom(address,address,uint256)':
+            preview.kind = 'transferFrom';
+            preview.token = token;
+            preview.from = args[0];
+            preview.recipient = args[1];
+            preview.amount = args[2].toString(10);
+            checkRecipient(args[1], token, risks);
+            break;
+        case 'safeTransferFrom(address,address,uint256)':
+        case 'safeTransferFrom(address,address,uint256,bytes)':
+            preview.kind = 'erc721Transfer';
+            preview.token = token;
+            preview.from = args[0];
+            preview.recipient = args[1];
+            preview.tokenIds = [args[2].toString(10)];
+            checkRecipient(args[1], token, risks);
+            break;
+        case 'safeTransferFrom(address,address,uint256,uint256,bytes)':
+            preview.kind = 'erc1155Transfer';
+            preview.token = token;
+            preview.from = args[0];
+            preview.recipient = args[1];
+            preview.tokenIds = [args[2].toString(10)];
+            preview.amounts = [args[3].toString(10)];
+            checkRecipient(args[1], token, risks);
+            break;
+        case 'safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)':
+            preview.kind = 'erc1155BatchTransfer';
+            preview.token = token;
+            preview.from = args[0];
+            preview.recipient = args[1];
+            preview.tokenIds = args[2].map((id: BN) => id.toString(10));
+            preview.amounts = args[3].map((amount: BN) => amount.toString(10));
+            checkRecipient(args[1], token, risks);
+            break;
+        case 'setApprovalForAll(address,bool)':
+            preview.kind = 'setApprovalForAll';
+            preview.token = token;
+            preview.spender = args[0];
+            preview.approved = args[1];
+            if (args[1]) {
+                risks.push(risk('danger', 'APPROVAL_FOR_ALL', 'the operator can transfer all of the nfts of this collection'));
+            }
+            break;
+        case 'approve(address,address,uint160,uint48)':
+            preview.kind = 'permit2Approve';
+            preview.token = args[0];
+            preview.spender = args[1];
+            preview.amount = args[2].toString(10);
+            preview.expiration = args[3].toString(10);
+            checkApprovalAmount(args[2], MAX_UINT160, risks);
+            break;
+    }
+}
+
+export function previewTransaction(txParams: PreviewTxParams, options: PreviewOptions = {}): TxPreview {
+    const value = toBN(txParams.value);
+    const preview: TxPreview = {
+        kind: 'contractCall',
+        chainId: toBN(txParams.chainId).toString(10),
+        to: txParams.to,
+        value: value.toString(10),
+        risks: [],
+    };
+    if (options.chainId !== undefined && !toBN(options.chainId).eq(toBN(txParams.chainId))) {
+        preview.risks.push(risk('danger', 'CHAIN_MISMATCH', `the transaction is for chain ${preview.chainId}`));
+    }
+
+    if (txParams.contractAddress) {
+        // EthWallet builds the erc-20 transfer from contractAddress, to and value
+        preview.kind = 'erc20Transfer';
+        preview.to = txParams.contractAddress;
+        preview.value = txParams.useValue ? value.toString(10) : '0';
+        preview.method = 'transfer(address,uint256)';
+        preview.token = txParams.contractAddress;
+        preview.recipient = txParams.to;
+        preview.amount = value.toString(10);
+        checkRecipient(txParams.to, txParams.contractAddress, preview.risks);
+        return preview;
+    }
+
+    const data = txParams.data && txParams.data !== '0x' ? txParams.data : undefined;
+    if (!txParams.to) {
+        preview.kind = 'contractDeploy';
+        preview.risks.push(risk('warning', 'CONTRACT_DEPLOY', 'the transaction deploys a contract'));
+    } else if (!data) {
+        preview.kind = 'nativeTransfer';
+        preview.recipient = txParams.to;
+        if (isZeroAddress(txParams.to)) {
+            preview.risks.push(risk('danger', 'ZERO_ADDRESS_RECIPIENT', 'the recipient is the zero address, the assets are burned'));
+        }
+    } else {
+        let call: DecodedFunction | undefined;
+        try {
+            call = PREVIEW_ABI.decodeFunctionData(data);
+        } catch (e) {
+            call = undefined;
+        }
+        if (call) {
+            previewCall(preview, call);
+            if (!value.isZero()) {
+                preview.risks.push(risk('warning', 'VALUE_WITH_TOKEN_CALL', 'native coins are sent along with a token call'));
+            }
+        } else {
+            preview.risks.push(risk('warning', 'UNKNOWN_CALL', 'the contract call can not be decoded'));
+        }
+    }
+
+    if (txParams.type === 4) {
+        // eip-7702, the account code is delegated to the authorized contracts
+        preview.kind = 'delegation';
+        preview.delegations = (txParams.authorizationList || []).map(auth => ({
+            chainId: toBN(auth.chainId).toString(10),
+            address: auth.address,
+            nonce: toBN(auth.nonce).toString(10),
+        }));
+        preview.delegations.forEach(delegation => {
+            if (isZeroAddress(delegation.address)) {
+                // delegating to the zero address clears the account code
+                return;
+            }
+            preview.risks.push(risk('danger', 'DELEGATION', `the account is delegated to ${delegation.address}, which gets full control of the account`));
+            if (delegation.chainId === '0') {
+                preview.risks.push(risk('danger', 'ANY_CHAIN_DELEGATION', 'the delegation is valid on every chain'));
+            }
+        });
+    }
+    return preview;
+}
+
+function previewPermit2Details(details: any): TokenAllowancePreview {
+    const allowance: TokenAllowancePreview = {token: details.token, amount: toBN(details.amount).toString(10)};
+    if (details.expiration !== undefined) {
+        allowance.expiration = toBN(details.expiration).toString(10);
+    }
+    return allowance;
+}
+
+// typedData is the eip-712 payload of TYPE_DATA_V3/V4, as json string or object
+export function previewTypedData(typedData: string | any, options: PreviewOptions = {}): TypedDataPreview {
+    const payload = typeof typedData === 'string' ? JSON.parse(typedData) : typedData;
+    const domain = payload.domain || {};
+    const message = payload.message || {};
+    const primaryType: string = payload.primaryType;
+    const now = options.now !== undefined ? options.now : Math.floor(Date.now() / 1000);
+    const preview: TypedDataPreview = {
+        kind: 'typedData',
+        primaryType: primaryType,
+        domain: domain,
+        verifyingContract: domain.verifyingContract,
+        risks: [],
+    };
+    if (options.chainId !== undefined && domain.chainId !== undefined && !toBN(options.chainId).eq(toBN(domain.chainId))) {
+        preview.risks.push(risk('danger', 'CHAIN_MISMATCH', `the signature is for chain ${toBN(domain.chainId).toString(10)}`));
+    }
+
+    const risks = preview.risks;
+    if (domain.name === 'Permit2') {
+        preview.spender = message.spender;
+        if (primaryType === 'PermitSingle' || primaryType === 'PermitBatch') {
+            // allowance transfer, the spender gets an allowance until details.expiration
+            preview.kind = primaryType === 'PermitSingle' ? 'permit2Single' : 'permit2Batch';
+            const details = primaryType === 'PermitSingle' ? [message.details] : message.details || [];
+            preview.allowances = details.map(previewPermit2Details);
+            preview.deadline = toBN(message.sigDeadline).toString(10);
+            details.forEach((d: any) => {
+                checkApprovalAmount(toBN(d.amount), MAX_UINT160, risks);
+                checkExpiration(toBN(d.expiration), now, risks);
+            });
+        } else if (primaryType.startsWith('PermitTransferFrom') || primaryType.startsWith('PermitWitnessTransferFrom')
+            || primaryType.startsWith('PermitBatchTransferFrom') || primaryType.startsWith('PermitBatchWitnessTransferFrom')) {
+            // signature transfer, the spender can transfer the permitted amounts once
+            const batch = Array.isArray(message.permitted);
+            preview.kind = batch ? 'permit2BatchTransfer' : 'permit2Transfer';
+            const permitted = batch ? message.permitted : [message.permitted];
+            preview.allowances = permitted.map(previewPermit2Details);
+            preview.deadline = toBN(message.deadline).toString(10);
+            permitted.forEach((p: any) => checkApprovalAmount(toBN(p.amount), MAX_UINT160, risks));
+            checkExpiration(toBN(message.deadline), now, risks);
+        }
+    } else if (primaryType === 'Permit' && message.spender !== undefined) {
+        preview.spender = message.spender;
+        if (message.allowed !== undefined) {
+            // dai style permit, allowed grants an unlimited allowance
+            preview.kind = 'daiPermit';
+            preview.owner = message.holder;
+            const allowed = message.allowed === true || message.allowed === 'true';
+            preview.allowances = [{token: domain.verifyingContract, amount: allowed ? MAX_UINT256.toString(10) : '0'}];
+            preview.deadline = toBN(message.expiry).toString(10);
+            if (allowed) {
+                risks.push(risk('danger', 'UNLIMITED_APPROVAL', 'the spender can transfer all of the token, now and in the future'));
+            }
+            // expiry 0 never expires
+            if (!toBN(message.expiry).isZero()) {
+                checkExpiration(toBN(message.expiry), now, risks);
+            } else if (allowed) {
+                risks.push(risk('warning', 'LONG_EXPIRATION', 'the signature never expires'));
+            }
+        } else {
+            // eip-2612
+            preview.kind = 'permit';
+            preview.owner = message.owner;
+            preview.allowances = [{token: domain.verifyingContract, amount: toBN(message.value).toString(10)}];
+            preview.deadline = toBN(message.deadline).toString(10);
+            checkApprovalAmount(toBN(message.value), UNLIMITED_UINT256, risks);
+            checkExpiration(toBN(message.deadline), now, risks);
+        }
+    }
+    return preview;
+}
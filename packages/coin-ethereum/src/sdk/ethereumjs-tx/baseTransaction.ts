@@ -24,6 +24,7 @@ import {
   FeeMarketEIP1559ValuesArray,
   FeeMarketEIP1559TxData,
   TxValuesArray,
+  BlobEIP4844ValuesArray,
   EOACode7702TxValuesArray,
 } from './types'
 import {Buffer} from "buffer";
@@ -131,7 +132,7 @@ export abstract class BaseTransaction<TransactionObject> {
    * signature parameters `v`, `r` and `s` for encoding. For an EIP-155 compliant
    * representation for external signing use {@link BaseTransaction.getMessageToSign}.
    */
-  abstract raw(): TxValuesArray | AccessListEIP2930ValuesArray | FeeMarketEIP1559ValuesArray | EOACode7702TxValuesArray
+  abstract raw(): TxValuesArray | AccessListEIP2930ValuesArray | FeeMarketEIP1559ValuesArray | BlobEIP4844ValuesArray | EOACode7702TxValuesArray
 
   /**
    * Returns the encoding of the transaction.
@@ -0,0 +1,461 @@
+/**
+ * The following methods are based on `ethereumjs/tx`, thanks for their work
+ * https://github.com/ethereumjs/ethereumjs-monorepo/tree/master/packages/tx
+ * Distributed under the Mozilla Public License Version 2.0 software license, see the accompanying
+ * file LICENSE or https://opensource.org/license/mpl-2-0/.
+ */
+
+import {
+  bnToHex,
+  bnToUnpaddedBuffer,
+  keccak256,
+  MAX_INTEGER,
+  rlp,
+  toBuffer,
+  toType,
+  TypeOutput,
+  validateNoLeadingZeroes,
+} from '../ethereumjs-util'
+
+import { base, BN } from "@okxweb3/crypto-lib"
+
+import { BaseTransaction } from './baseTransaction'
+import {
+  AccessList,
+  AccessListBuffer,
+  BlobEIP4844NetworkValuesArray,
+  BlobEIP4844TxData,
+  BlobEIP4844ValuesArray,
+  JsonTx
+} from './types'
+import { AccessLists } from './util'
+
+const TRANSACTION_TYPE = 3
+const TRANSACTION_TYPE_BUFFER = Buffer.from(TRANSACTION_TYPE.toString(16).padStart(2, '0'), 'hex')
+
+const BYTES_PER_BLOB = 131072
+const KZG_BYTES = 48
+const VERSIONED_HASH_VERSION_KZG = 0x01
+
+/**
+ * Computes the versioned hash of a KZG commitment: `0x01 || sha256(commitment)[1:]`
+ */
+export function computeVersionedHash(commitment: Buffer): Buffer {
+  const hash = Buffer.from(base.sha256(commitment))
+  hash[0] = VERSIONED_HASH_VERSION_KZG
+  return hash
+}
+
+/**
+ * Typed transaction carrying blobs for rollups
+ *
+ * - TransactionType: 3
+ * - EIP: [EIP-4844](https://eips.ethereum.org/EIPS/eip-4844)
+ *
+ * Blobs, commitments and proofs are only part of the network wrapper, the canonical
+ * form (signed, hashed and included in blocks) only commits to the versioned hashes.
+ * Commitments and proofs are taken as precomputed inputs, they are not computed or verified here.
+ */
+export default class BlobEIP4844Transaction extends BaseTransaction<BlobEIP4844Transaction> {
+  public readonly chainId: BN
+  public readonly accessList: AccessListBuffer
+  public readonly AccessListJSON: AccessList
+  public readonly maxPriorityFeePerGas: BN
+  public readonly maxFeePerGas: BN
+  public readonly maxFeePerBlobGas: BN
+  public readonly blobVersionedHashes: Buffer[]
+
+  // network wrapper
+  public readonly blobs?: Buffer[]
+  public readonly kzgCommitments?: Buffer[]
+  public readonly kzgProofs?: Buffer[]
+
+  /**
+   * Instantiate a transaction from a data dictionary.
+   *
+   * Format: { chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data,
+   * accessList, maxFeePerBlobGas, blobVersionedHashes, blobs, kzgCommitments, kzgProofs, v, r, s }
+   *
+   * Notes:
+   * - `blobVersionedHashes` are computed from `kzgCommitments` if not provided
+   */
+  public static fromTxData(txData: BlobEIP4844TxData) {
+    return new BlobEIP4844Transaction(txData)
+  }
+
+  /**
+   * Instantiate a transaction from the serialized tx, either in canonical or network wrapper form.
+   *
+   * Format: `0x03 || rlp([chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data,
+   * accessList, maxFeePerBlobGas, blobVersionedHashes, signatureYParity, signatureR, signatureS])`
+   * or `0x03 || rlp([tx_payload_body, blobs, commitments, proofs])`
+   */
+  public static fromSerializedTx(serialized: Buffer) {
+    if (!serialized.slice(0, 1).equals(TRANSACTION_TYPE_BUFFER)) {
+      throw new Error(
+          `Invalid serialized tx input: not an EIP-4844 transaction (wrong tx type, expected: ${TRANSACTION_TYPE}, received: ${serialized
+              .slice(0, 1)
+              .toString('hex')}`
+      )
+    }
+
+    const values = rlp.decode(serialized.slice(1))
+
+    if (!Array.isArray(values)) {
+      throw new Error('Invalid serialized tx input: must be array')
+    }
+
+    if (values.length === 4 && Array.isArray(values[0])) {
+      return BlobEIP4844Transaction.fromNetworkValuesArray(values as any)
+    }
+    return BlobEIP4844Transaction.fromValuesArray(values as any)
+  }
+
+  /**
+   * Create a transaction from a values array.
+   *
+   * Format: `[chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data,
+   * accessList, maxFeePerBlobGas, blobVersionedHashes, signatureYParity, signatureR, signatureS]`
+   */
+  public static fromValuesArray(values: BlobEIP4844ValuesArray) {
+    if (values.length !== 11 && values.length !== 14) {
+      throw new Error(
+          'Invalid EIP-4844 transaction. Only expecting 11 values (for unsigned tx) or 14 values (for signed tx).'
+      )
+    }
+
+    const [
+      chainId,
+      nonce,
+      maxPriorityFeePerGas,
+      maxFeePerGas,
+      gasLimit,
+      to,
+      value,
+      data,
+      accessList,
+      maxFeePerBlobGas,
+      blobVersionedHashes,
+      v,
+      r,
+      s,
+    ] = values
+
+    validateNoLeadingZeroes({ nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, value, maxFeePerBlobGas, v, r, s })
+
+    return new BlobEIP4844Transaction(
+        {
+          chainId: new BN(chainId),
+          nonce,
+          maxPriorityFeePerGas,
+          maxFeePerGas,
+          gasLimit,
+          to,
+          value,
+          data,
+          accessList: accessList ?? [],
+          maxFeePerBlobGas,
+          blobVersionedHashes,
+          v: v !== undefined ? new BN(v) : undefined, // EIP2930 supports v's with value 0 (empty Buffer)
+          r,
+          s,
+        }
+    )
+  }
+
+  /**
+   * Create a transaction from the values array of the network wrapper.
+   *
+   * Format: `[tx_payload_body, blobs, commitments, proofs]`
+   */
+  public static fromNetworkValuesArray(values: BlobEIP4844NetworkValuesArray) {
+    const [txValues, blobs, kzgCommitments, kzgProofs] = values
+    const tx = BlobEIP4844Transaction.fromValuesArray(txValues)
+    return new BlobEIP4844Transaction({ ...tx._txData(), blobs, kzgCommitments, kzgProofs })
+  }
+
+  /**
+   * This constructor takes the values, validates them, assigns them and freezes the object.
+   *
+   * It is not recommended to use this constructor directly. Instead use
+   * the static factory methods to assist in creating a Transaction object from
+   * varying data types.
+   */
+  public constructor(txData: BlobEIP4844TxData) {
+    super({ ...txData, type: TRANSACTION_TYPE })
+    const { chainId, accessList, maxFeePerGas, maxPriorityFeePerGas, maxFeePerBlobGas } = txData
+
+    this.chainId = toType(chainId, TypeOutput.BN)
+
+    this.activeCapabilities = this.activeCapabilities.concat([1559, 2718, 2930, 4844])
+
+    // Populate the access list fields
+    const accessListData = AccessLists.getAccessListData(accessList ?? [])
+    this.accessList = accessListData.accessList
+    this.AccessListJSON = accessListData.AccessListJSON
+    // Verify the access list format.
+    AccessLists.verifyAccessList(this.accessList)
+
+    this.maxFeePerGas = new BN(toBuffer(maxFeePerGas === '' ? '0x' : maxFeePerGas))
+    this.maxPriorityFeePerGas = new BN(
+      toBuffer(maxPriorityFeePerGas === '' ? '0x' : maxPriorityFeePerGas)
+    )
+    this.maxFeePerBlobGas = new BN(toBuffer(maxFeePerBlobGas === '' ? '0x' : maxFeePerBlobGas))
+
+    this._validateCannotExceedMaxInteger({
+      maxFeePerGas: this.maxFeePerGas,
+      maxPriorityFeePerGas: this.maxPriorityFeePerGas,
+      maxFeePerBlobGas: this.maxFeePerBlobGas,
+    })
+
+    if (this.gasLimit.mul(this.maxFeePerGas).gt(MAX_INTEGER)) {
+      const msg = this._errorMsg('gasLimit * maxFeePerGas cannot exceed MAX_INTEGER (2^256-1)')
+      throw new Error(msg)
+    }
+
+    if (this.maxFeePerGas.lt(this.maxPriorityFeePerGas)) {
+      const msg = this._errorMsg(
+        'maxFeePerGas cannot be less than maxPriorityFeePerGas (The total must be the larger of the two)'
+      )
+      throw new Error(msg)
+    }
+
+    if (this.v && !this.v.eqn(0) && !this.v.eqn(1)) {
+      const msg = this._errorMsg('The y-parity of the transaction should either be 0 or 1')
+      throw new Error(msg)
+    }
+
+    if (this.to === undefined) {
+      const msg = this._errorMsg('EIP-4844 transactions cannot be contract creations, `to` is required')
+      throw new Error(msg)
+    }
+
+    if (txData.kzgCommitments !== undefined) {
+      this.kzgCommitments = txData.kzgCommitments.map((commitment) => toBuffer(commitment))
+    }
+    this.blobVersionedHashes = txData.blobVersionedHashes !== undefined
+        ? txData.blobVersionedHashes.map((hash) => toBuffer(hash))
+        : (this.kzgCommitments ?? []).map(computeVersionedHash)
+    if (txData.blobs !== undefined) {
+      this.blobs = txData.blobs.map((blob) => toBuffer(blob))
+    }
+    if (txData.kzgProofs !== undefined) {
+      this.kzgProofs = txData.kzgProofs.map((proof) => toBuffer(proof))
+    }
+
+    this._validateBlobs()
+  }
+
+  private _validateBlobs() {
+    if (this.blobVersionedHashes.length === 0) {
+      throw new Error(this._errorMsg('EIP-4844 transactions must have at least one blob'))
+    }
+    for (const hash of this.blobVersionedHashes) {
+      if (hash.length !== 32) {
+        throw new Error(this._errorMsg('versioned hash must be 32 bytes'))
+      }
+      if (hash[0] !== VERSIONED_HASH_VERSION_KZG) {
+        throw new Error(this._errorMsg(`versioned hash does not start with KZG version ${VERSIONED_HASH_VERSION_KZG}`))
+      }
+    }
+
+    const count = this.blobVersionedHashes.length
+    if (this.blobs === undefined && this.kzgProofs === undefined) {
+      // canonical form, commitments are only used to derive the versioned hashes
+      if (this.kzgCommitments !== undefined && this.kzgCommitments.length !== count) {
+        throw new Error(this._errorMsg('number of kzgCommitments does not match the versioned hashes'))
+      }
+    } else if (this.blobs?.length !== count || this.kzgCommitments?.length !== count || this.kzgProofs?.length !== count) {
+      throw new Error(this._errorMsg('number of blobs, kzgCommitments, kzgProofs and versioned hashes must match'))
+    }
+    this.blobs?.forEach((blob) => {
+      if (blob.length !== BYTES_PER_BLOB) {
+        throw new Error(this._errorMsg(`blob must be ${BYTES_PER_BLOB} bytes`))
+      }
+    })
+    this.kzgProofs?.forEach((proof) => {
+      if (proof.length !== KZG_BYTES) {
+        throw new Error(this._errorMsg(`kzg proof must be ${KZG_BYTES} bytes`))
+      }
+    })
+    this.kzgCommitments?.forEach((commitment, i) => {
+      if (commitment.length !== KZG_BYTES) {
+        throw new Error(this._errorMsg(`kzg commitment must be ${KZG_BYTES} bytes`))
+      }
+      if (!computeVersionedHash(commitment).equals(this.blobVersionedHashes[i])) {
+        throw new Error(this._errorMsg(`versioned hash ${i} does not match its kzg commitment`))
+      }
+    })
+  }
+
+  /**
+   * Returns a Buffer Array of the raw Buffers of the EIP-4844 transaction, in order.
+   *
+   * Format: `[chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data,
+   * accessList, maxFeePerBlobGas, blobVersionedHashes, signatureYParity, signatureR, signatureS]`
+   *
+   * For an unsigned tx this method uses the empty Buffer values for the
+   * signature parameters `v`, `r` and `s` for encoding. For an EIP-155 compliant
+   * representation for external signing use {@link BlobEIP4844Transaction.getMessageToSign}.
+   */
+  raw(): BlobEIP4844ValuesArray {
+    return [
+      bnToUnpaddedBuffer(this.chainId),
+      bnToUnpaddedBuffer(this.nonce),
+      bnToUnpaddedBuffer(this.maxPriorityFeePerGas),
+      bnToUnpaddedBuffer(this.maxFeePerGas),
+      bnToUnpaddedBuffer(this.gasLimit),
+      this.to !== undefined ? this.to.buf : Buffer.from([]),
+      bnToUnpaddedBuffer(this.value),
+      this.data,
+      this.accessList,
+      bnToUnpaddedBuffer(this.maxFeePerBlobGas),
+      this.blobVersionedHashes,
+      this.v !== undefined ? bnToUnpaddedBuffer(this.v) : Buffer.from([]),
+      this.r !== undefined ? bnToUnpaddedBuffer(this.r) : Buffer.from([]),
+      this.s !== undefined ? bnToUnpaddedBuffer(this.s) : Buffer.from([]),
+    ]
+  }
+
+  /**
+   * Returns the canonical serialized encoding of the EIP-4844 transaction, as included in blocks.
+   *
+   * Format: `0x03 || rlp([chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data,
+   * accessList, maxFeePerBlobGas, blobVersionedHashes, signatureYParity, signatureR, signatureS])`
+   */
+  serialize(): Buffer {
+    const base = this.raw()
+    return Buffer.concat([TRANSACTION_TYPE_BUFFER, rlp.encode(base as any)])
+  }
+
+  /**
+   * Returns the network wrapper encoding, which is what `eth_sendRawTransaction` expects.
+   *
+   * Format: `0x03 || rlp([tx_payload_body, blobs, commitments, proofs])`
+   */
+  serializeNetworkWrapper(): Buffer {
+    if (this.blobs === undefined || this.kzgCommitments === undefined || this.kzgProofs === undefined) {
+      throw new Error(this._errorMsg('blobs, kzgCommitments and kzgProofs are required for the network wrapper'))
+    }
+    const values = [this.raw(), this.blobs, this.kzgCommitments, this.kzgProofs]
+    return Buffer.concat([TRANSACTION_TYPE_BUFFER, rlp.encode(values as any)])
+  }
+
+  /**
+   * Returns the serialized unsigned tx (hashed or raw), which can be used
+   * to sign the transaction (e.g. for sending to a hardware wallet).
+   *
+   * @param hashMessage - Return hashed message if set to true (default: true)
+   */
+  getMessageToSign(hashMessage = true): Buffer {
+    const base = this.raw().slice(0, 11)
+    const message = Buffer.concat([TRANSACTION_TYPE_BUFFER, rlp.encode(base as any)])
+    if (hashMessage) {
+      return keccak256(message)
+    } else {
+      return message
+    }
+  }
+
+  /**
+   * Computes a sha3-256 hash of the canonical serialized tx.
+   *
+   * This method can only be used for signed txs (it throws otherwise).
+   * Use {@link BlobEIP4844Transaction.getMessageToSign} to get a tx hash for the purpose of signing.
+   */
+  public hash(): Buffer {
+    if (!this.isSigned()) {
+      const msg = this._errorMsg('Cannot call hash method if transaction is not signed')
+      throw new Error(msg)
+    }
+    return keccak256(this.serialize())
+  }
+
+  private _txData(): BlobEIP4844TxData {
+    return {
+      chainId: this.chainId,
+      nonce: this.nonce,
+      maxPriorityFeePerGas: this.maxPriorityFeePerGas,
+      maxFeePerGas: this.maxFeePerGas,
+      gasLimit: this.gasLimit,
+      to: this.to,
+      value: this.value,
+      data: this.data,
+      accessList: this.accessList,
+      maxFeePerBlobGas: this.maxFeePerBlobGas,
+      blobVersionedHashes: this.blobVersionedHashes,
+      blobs: this.blobs,
+      kzgCommitments: this.kzgCommitments,
+      kzgProofs: this.kzgProofs,
+      v: this.v,
+      r: this.r,
+      s: this.s,
+    }
+  }
+
+  _processSignature(v: number, r: Buffer, s: Buffer) {
+    return BlobEIP4844Transaction.fromTxData(
+        {
+          ...this._txData(),
+          v: new BN(v - 27), // This looks extremely hacky: ethereumjs-util actually adds 27 to the value, the recovery bit is either 0 or 1.
+          r: new BN(r),
+          s: new BN(s),
+        }
+    )
+  }
+
+  _processSignatureWithRawV(v: number, r: Buffer, s: Buffer) {
+    return BlobEIP4844Transaction.fromTxData(
+        {
+          ...this._txData(),
+          v: new BN(v),
+          r: new BN(r),
+          s: new BN(s),
+        }
+    )
+  }
+
+  /**
+   * Returns an object with the JSON representation of the transaction
+   */
+  toJSON(): JsonTx {
+    const accessListJSON = AccessLists.getAccessListJSON(this.accessList)
+
+    return {
+      chainId: bnToHex(this.chainId),
+      nonce: bnToHex(this.nonce),
+      maxPriorityFeePerGas: bnToHex(this.maxPriorityFeePerGas),
+      maxFeePerGas: bnToHex(this.maxFeePerGas),
+      gasLimit: bnToHex(this.gasLimit),
+      to: this.to !== undefined ? this.to.toString() : undefined,
+      value: bnToHex(this.value),
+      data: '0x' + this.data.toString('hex'),
+      accessList: accessListJSON,
+      maxFeePerBlobGas: bnToHex(this.maxFeePerBlobGas),
+      blobVersionedHashes: this.blobVersionedHashes.map((hash) => '0x' + hash.toString('hex')),
+      v: this.v !== undefined ? bnToHex(this.v) : undefined,
+      r: this.r !== undefined ? bnToHex(this.r) : undefined,
+      s: this.s !== undefined ? bnToHex(this.s) : undefined,
+    }
+  }
+
+  /**
+   * Return a compact error string representation of the object
+   */
+  public errorStr() {
+    let errorStr = this._getSharedErrorPostfix()
+    errorStr += ` maxFeePerGas=${this.maxFeePerGas} maxPriorityFeePerGas=${this.maxPriorityFeePerGas}`
+    errorStr += ` maxFeePerBlobGas=${this.maxFeePerBlobGas}`
+    return errorStr
+  }
+
+  /**
+   * Internal helper function to create an annotated error message
+   *
+   * @param msg Base error message
+   * @hidden
+   */
+  protected _errorMsg(msg: string) {
+    return `${msg} (${this.errorStr()})`
+  }
+}
@@ -13,9 +13,16 @@ import {
   TxData,
   AccessListEIP2930TxData,
   FeeMarketEIP1559TxData,
+  BlobEIP4844TxData,
   EOACodeEIP7702TxData,
 } from './types'
-import { Transaction, AccessListEIP2930Transaction, FeeMarketEIP1559Transaction, EOACodeEIP7702Transaction } from '.'
+import {
+  Transaction,
+  AccessListEIP2930Transaction,
+  FeeMarketEIP1559Transaction,
+  BlobEIP4844Transaction,
+  EOACodeEIP7702Transaction
+} from '.'
 
 export default class TransactionFactory {
   /**
@@ -36,6 +43,8 @@ export default class TransactionFactory {
         return AccessListEIP2930Transaction.fromTxData(<AccessListEIP2930TxData>txData)
       } else if (txType === 2) {
         return FeeMarketEIP1559Transaction.fromTxData(<FeeMarketEIP1559TxData>txData)
+      } else if (txType === 3) {
+        return BlobEIP4844Transaction.fromTxData(<BlobEIP4844TxData>txData)
       } else if (txType === 4) {
         return EOACodeEIP7702Transaction.fromTxData(<EOACodeEIP7702TxData>txData)
       } else {
@@ -61,6 +70,9 @@ export default class TransactionFactory {
         case 2:
           EIP = 1559
           break
+        case 3:
+          EIP = 4844
+          break
         case 4:
           EIP = 7702
           break
@@ -69,6 +81,8 @@ export default class TransactionFactory {
       }
       if (EIP === 1559) {
         return FeeMarketEIP1559Transaction.fromSerializedTx(data)
+      } else if (EIP === 4844) {
+        return BlobEIP4844Transaction.fromSerializedTx(data)
       } else if (EIP === 7702) {
         return EOACodeEIP7702Transaction.fromSerializedTx(data)
       } else {
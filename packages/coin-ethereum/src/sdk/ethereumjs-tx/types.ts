@@ -9,7 +9,7 @@ import { AddressLike, BNLike, BufferLike, PrefixedHexString } from '../ethereumj
 import { default as Transaction } from './legacyTransaction'
 import { default as AccessListEIP2930Transaction } from './eip2930Transaction'
 import { default as FeeMarketEIP1559Transaction } from './eip1559Transaction'
-import {EOACodeEIP7702Transaction} from "./index";
+import {BlobEIP4844Transaction, EOACodeEIP7702Transaction} from "./index";
 
 
 /*
@@ -77,6 +77,7 @@ export type TypedTransaction =
   | Transaction
   | AccessListEIP2930Transaction
   | FeeMarketEIP1559Transaction
+  | BlobEIP4844Transaction
   | EOACodeEIP7702Transaction
 
 /**
@@ -174,6 +175,32 @@ export interface FeeMarketEIP1559TxData extends AccessListEIP2930TxData {
   maxFeePerGas?: BNLike
 }
 
+/**
+ * {@link BlobEIP4844Transaction} data.
+ */
+export interface BlobEIP4844TxData extends FeeMarketEIP1559TxData {
+  /**
+   * The maximum total fee per unit of blob gas
+   */
+  maxFeePerBlobGas?: BNLike
+  /**
+   * The versioned hashes of the blob commitments, computed from `kzgCommitments` if not given
+   */
+  blobVersionedHashes?: BufferLike[]
+  /**
+   * The blobs of the network wrapper, 131072 bytes each
+   */
+  blobs?: BufferLike[]
+  /**
+   * The precomputed KZG commitments of the blobs
+   */
+  kzgCommitments?: BufferLike[]
+  /**
+   * The precomputed KZG proofs of the blobs
+   */
+  kzgProofs?: BufferLike[]
+}
+
 /**
  * Buffer values array for a legacy {@link Transaction}
  */
@@ -214,6 +241,32 @@ export type FeeMarketEIP1559ValuesArray = [
   Buffer?
 ]
 
+/**
+ * Buffer values array for a {@link BlobEIP4844Transaction}
+ */
+export type BlobEIP4844ValuesArray = [
+  Buffer,
+  Buffer,
+  Buffer,
+  Buffer,
+  Buffer,
+  Buffer,
+  Buffer,
+  Buffer,
+  AccessListBuffer,
+  Buffer,
+  Buffer[],
+  Buffer?,
+  Buffer?,
+  Buffer?
+]
+
+/**
+ * Buffer values array of the {@link BlobEIP4844Transaction} network wrapper:
+ * `[tx_payload_body, blobs, commitments, proofs]`
+ */
+export type BlobEIP4844NetworkValuesArray = [BlobEIP4844ValuesArray, Buffer[], Buffer[], Buffer[]]
+
 /**
  * Bytes values array for a {@link EOACode7702Transaction}
  */
@@ -259,6 +312,8 @@ export interface JsonTx {
   type?: string
   maxPriorityFeePerGas?: string
   maxFeePerGas?: string
+  maxFeePerBlobGas?: string
+  blobVersionedHashes?: string[]
 }
 
 /**
@@ -0,0 +1,263 @@
+import {base} from '@okxweb3/crypto-lib';
+import * as ethUtil from './sdk/ethereumjs-util';
+import {hashMessage, MessageTypes} from './message';
+
+// Sign-In with Ethereum, https://eips.ethereum.org/EIPS/eip-4361
+
+export type SiweMessage = {
+    // e.g. https, the scheme of the origin requesting the sign in
+    scheme?: string;
+    // rfc 3986 authority requesting the sign in, e.g. example.com:8080
+    domain: string;
+    // eip-55 checksum address
+    address: string;
+    statement?: string;
+    uri: string;
+    version: string;
+    chainId: number;
+    nonce: string;
+    // rfc 3339 date-time
+    issuedAt: string;
+    expirationTime?: string;
+    notBefore?: string;
+    requestId?: string;
+    resources?: string[];
+};
+
+export type SiweVerifyOptions = {
+    // the expected domain, scheme, nonce and chainId of the relying party
+    domain?: string;
+    scheme?: string;
+    nonce?: string;
+    chainId?: number;
+    // the time the message is verified at, defaults to now
+    time?: Date | string;
+};
+
+export type SiweErrorType =
+    'INVALID_MESSAGE'
+    | 'INVALID_SIGNATURE'
+    | 'DOMAIN_MISMATCH'
+    | 'SCHEME_MISMATCH'
+    | 'NONCE_MISMATCH'
+    | 'CHAIN_ID_MISMATCH'
+    | 'EXPIRED_MESSAGE'
+    | 'NOT_YET_VALID_MESSAGE';
+
+export type SiweVerifyResult = {
+    success: boolean;
+    error?: SiweErrorType;
+    message?: SiweMessage;
+};
+
+type SiweOptionalField = 'scheme' | 'statement' | 'expirationTime' | 'notBefore' | 'requestId' | 'resources';
+
+const OPTIONAL_FIELDS: SiweOptionalField[] = ['scheme', 'statement', 'expirationTime', 'notBefore', 'requestId', 'resources'];
+
+// copies a parsed optional field, absent fields are left out of the message
+function setOptional<K extends SiweOptionalField>(message: SiweMessage, key: K, value: SiweMessage[K]) {
+    if (value !== undefined) {
+        message[key] = value;
+    }
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const SCHEME = /^[a-zA-Z][a-zA-Z0-9+\-.]*$/;
+// rfc 3986 authority: [ userinfo "@" ] host [ ":" port ]
+const AUTHORITY = /^([a-zA-Z0-9\-._~!$&'()*+,;=:%]*@)?(\[[0-9a-fA-F:.]+\]|[a-zA-Z0-9\-._~!$&'()*+,;=%]*)(:\d*)?$/;
+// rfc 3986 URI, scheme ":" hier-part [ "?" query ] [ "#" fragment ]
+const URI = /^[a-zA-Z][a-zA-Z0-9+\-.]*:[a-zA-Z0-9\-._~:/?#[\]@!$&'()*+,;=%]*$/;
+// reserved / unreserved / " "
+const STATEMENT = /^[a-zA-Z0-9\-._~:/?#[\]@!$&'()*+,;= ]*$/;
+const NONCE = /^[a-zA-Z0-9]{8,}$/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/;
+// *pchar
+const REQUEST_ID = /^[a-zA-Z0-9\-._~!$&'()*+,;=:@%]*$/;
+
+function assertField(valid: boolean, name: string, value: any) {
+    if (!valid) {
+        throw new Error(`invalid siwe ${name}: ${value}`);
+    }
+}
+
+function isDateTime(value: string): boolean {
+    return DATE_TIME.test(value) && !isNaN(Date.parse(value));
+}
+
+function validateSiweMessage(message: SiweMessage) {
+    assertField(message.scheme === undefined || SCHEME.test(message.scheme), 'scheme', message.scheme);
+    assertField(message.domain.length > 0 && AUTHORITY.test(message.domain), 'domain', message.domain);
+    assertField(/^0x[0-9a-fA-F]{40}$/.test(message.address) && ethUtil.toChecksumAddress(message.address) === message.address, 'address', message.address);
+    assertField(message.statement === undefined || STATEMENT.test(message.statement), 'statement', message.statement);
+    assertField(URI.test(message.uri), 'uri', message.uri);
+    assertField(message.version === '1', 'version', message.version);
+    assertField(Number.isSafeInteger(message.chainId) && message.chainId >= 0, 'chainId', message.chainId);
+    assertField(NONCE.test(message.nonce), 'nonce', message.nonce);
+    assertField(isDateTime(message.issuedAt), 'issuedAt', message.issuedAt);
+    assertField(message.expirationTime === undefined || isDateTime(message.expirationTime), 'expirationTime', message.expirationTime);
+    assertField(message.notBefore === undefined || isDateTime(message.notBefore), 'notBefore', message.notBefore);
+    assertField(message.requestId === undefined || REQUEST_ID.test(message.requestId), 'requestId', message.requestId);
+    (message.resources || []).forEach(resource => assertField(URI.test(resource), 'resource', resource));
+}
+
+// alphanumeric nonce with 96 bits of entropy
+export function generateSiweNonce(): string {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    return Array.from(base.randomBytes(17)).map(b => alphabet[b % alphabet.length]).join('');
+}
+
+export function buildSiweMessage(message: SiweMessage): string {
+    validateSiweMessage(message);
+    const origin = message.scheme ? `${message.scheme}://${message.domain}` : message.domain;
+    const lines = [origin + HEADER_SUFFIX, message.address, ''];
+    if (message.statement !== undefined) {
+        lines.push(message.statement);
+    }
+    lines.push('');
+    lines.push(`URI: ${message.uri}`);
+    lines.push(`Version: ${message.version}`);
+    lines.push(`Chain ID: ${message.chainId}`);
+    lines.push(`Nonce: ${message.nonce}`);
+    lines.push(`Issued At: ${message.issuedAt}`);
+    if (message.expirationTime !== undefined) {
+        lines.push(`Expiration Time: ${message.expirationTime}`);
+    }
+    if (message.notBefore !== undefined) {
+        lines.push(`Not Before: ${message.notBefore}`);
+    }
+    if (message.requestId !== undefined) {
+        lines.push(`Request ID: ${message.requestId}`);
+    }
+    if (message.resources !== undefined) {
+        lines.push('Resources:');
+        message.resources.forEach(resource => lines.push(`- ${resource}`));
+    }
+    return lines.join('\n');
+}
+
+// parses a message strictly per the abnf of eip-4361, throws on any deviation
+export function parseSiweMessage(text: string): SiweMessage {
+    const lines = text.split('\n');
+    let index = 0;
+    const next = (): string => {
+        if (index >= lines.length) {
+            throw new Error('invalid siwe message: unexpected end');
+        }
+        return lines[index++];
+    };
+    const field = (prefix: string): string => {
+        const line = next();
+        assertField(line.startsWith(prefix), 'line', line);
+        return line.slice(prefix.length);
+    };
+    const optionalField = (prefix: string): string | undefined => {
+        if (index < lines.length && lines[index].startsWith(prefix)) {
+            return lines[index++].slice(prefix.length);
+        }
+        return undefined;
+    };
+
+    const header = next();
+    assertField(header.endsWith(HEADER_SUFFIX), 'header', header);
+    let origin = header.slice(0, header.length - HEADER_SUFFIX.length);
+    let scheme: string | undefined;
+    const schemeEnd = origin.indexOf('://');
+    if (schemeEnd >= 0) {
+        scheme = origin.slice(0, schemeEnd);
+        origin = origin.slice(schemeEnd + 3);
+    }
+    const address = next();
+    assertField(next() === '', 'line', lines[index - 1]);
+    // address LF LF [ statement LF ] LF, an empty statement is an empty line
+    let statement: string | undefined;
+    if (lines[index] === '' && lines[index + 1]?.startsWith('URI: ')) {
+        index++;
+    } else {
+        statement = next();
+        assertField(next() === '', 'line', lines[index - 1]);
+    }
+    const uri = field('URI: ');
+    const version = field('Version: ');
+    const chainId = field('Chain ID: ');
+    assertField(/^\d+$/.test(chainId), 'chainId', chainId);
+    const nonce = field('Nonce: ');
+    const issuedAt = field('Issued At: ');
+    const expirationTime = optionalField('Expiration Time: ');
+    const notBefore = optionalField('Not Before: ');
+    const requestId = optionalField('Request ID: ');
+    let resources: string[] | undefined;
+    if (index < lines.length && lines[index] === 'Resources:') {
+        index++;
+        resources = [];
+        while (index < lines.length && lines[index].startsWith('- ')) {
+            resources.push(lines[index++].slice(2));
+        }
+    }
+    assertField(index === lines.length, 'line', lines[index]);
+
+    const message: SiweMessage = {
+        domain: origin,
+        address: address,
+        uri: uri,
+        version: version,
+        chainId: parseInt(chainId, 10),
+        nonce: nonce,
+        issuedAt: issuedAt,
+    };
+    const optional: Pick<SiweMessage, SiweOptionalField> = {scheme, statement, expirationTime, notBefore, requestId, resources};
+    OPTIONAL_FIELDS.forEach((key) => setOptional(message, key, optional[key]));
+    validateSiweMessage(message);
+    return message;
+}
+
+// verifies an eoa personal_sign signature of the message and the expected fields of the relying party
+export function verifySiweMessage(message: string | SiweMessage, signature: string, options: SiweVerifyOptions = {}): SiweVerifyResult {
+    let parsed: SiweMessage;
+    let text: string;
+    try {
+        parsed = typeof message === 'string' ? parseSiweMessage(message) : message;
+        text = typeof message === 'string' ? message : buildSiweMessage(message);
+    } catch (e) {
+        return {success: false, error: 'INVALID_MESSAGE'};
+    }
+    const fail = (error: SiweErrorType): SiweVerifyResult => ({success: false, error: error, message: parsed});
+
+    if (options.domain !== undefined && options.domain !== parsed.domain) {
+        return fail('DOMAIN_MISMATCH');
+    }
+    if (options.scheme !== undefined && options.scheme !== parsed.scheme) {
+        return fail('SCHEME_MISMATCH');
+    }
+    if (options.nonce !== undefined && options.nonce !== parsed.nonce) {
+        return fail('NONCE_MISMATCH');
+    }
+    if (options.chainId !== undefined && options.chainId !== parsed.chainId) {
+        return fail('CHAIN_ID_MISMATCH');
+    }
+    const time = options.time === undefined ? Date.now() : new Date(options.time).getTime();
+    if (isNaN(time)) {
+        throw new Error(`invalid time ${options.time}`);
+    }
+    if (parsed.expirationTime !== undefined && time >= Date.parse(parsed.expirationTime)) {
+        return fail('EXPIRED_MESSAGE');
+    }
+    if (parsed.notBefore !== undefined && time < Date.parse(parsed.notBefore)) {
+        return fail('NOT_YET_VALID_MESSAGE');
+    }
+
+    try {
+        const sig = base.fromHex(signature);
+        if (sig.length !== 65) {
+            return fail('INVALID_SIGNATURE');
+        }
+        const msgHash = base.fromHex(hashMessage(MessageTypes.PERSONAL_SIGN, text));
+        const publicKey = ethUtil.recoverFromSignature(msgHash, sig[64], sig.slice(0, 32), sig.slice(32, 64));
+        const address = base.toHex(ethUtil.publicToAddress(publicKey), true);
+        if (address.toLowerCase() !== parsed.address.toLowerCase()) {
+            return fail('INVALID_SIGNATURE');
+        }
+    } catch (e) {
+        return fail('INVALID_SIGNATURE');
+    }
+    return {success: true, message: parsed};
+}
@@ -0,0 +1,202 @@
+import {abi, base} from '@okxweb3/crypto-lib';
+import * as ethUtil from './sdk/ethereumjs-util';
+
+// ERC-4337 account abstraction, https://eips.ethereum.org/EIPS/eip-4337
+export const ENTRY_POINT_V06 = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789';
+export const ENTRY_POINT_V07 = '0x0000000071727De22E5E9d8BAf0edAc6f37da032';
+
+// numbers are hex strings, bytes are 0x prefixed hex strings
+export type UserOperationV6 = {
+    sender: string;
+    nonce: string;
+    initCode: string;
+    callData: string;
+    callGasLimit: string;
+    verificationGasLimit: string;
+    preVerificationGas: string;
+    maxFeePerGas: string;
+    maxPriorityFeePerGas: string;
+    paymasterAndData: string;
+    signature: string;
+};
+
+// the unpacked form used by the bundler rpc of EntryPoint v0.7
+export type UserOperationV7 = {
+    sender: string;
+    nonce: string;
+    factory?: string;
+    factoryData?: string;
+    callData: string;
+    callGasLimit: string;
+    verificationGasLimit: string;
+    preVerificationGas: string;
+    maxFeePerGas: string;
+    maxPriorityFeePerGas: string;
+    paymaster?: string;
+    paymasterVerificationGasLimit?: string;
+    paymasterPostOpGasLimit?: string;
+    paymasterData?: string;
+    signature: string;
+};
+
+// the on-chain form of EntryPoint v0.7
+export type PackedUserOperation = {
+    sender: string;
+    nonce: string;
+    initCode: string;
+    callData: string;
+    // verificationGasLimit (16 bytes) || callGasLimit (16 bytes)
+    accountGasLimits: string;
+    preVerificationGas: string;
+    // maxPriorityFeePerGas (16 bytes) || maxFeePerGas (16 bytes)
+    gasFees: string;
+    paymasterAndData: string;
+    signature: string;
+};
+
+export type UserOperation = UserOperationV6 | UserOperationV7 | PackedUserOperation;
+
+export type UserOperationSignParams = {
+    userOperation: UserOperation;
+    entryPoint: string;
+    chainId: string | number;
+    // most accounts (e.g. SimpleAccount) verify an eip-191 signature of the userOpHash, false signs the userOpHash directly
+    personalSign?: boolean;
+};
+
+export function isPackedUserOperation(userOp: UserOperation): userOp is PackedUserOperation {
+    return (userOp as PackedUserOperation).accountGasLimits !== undefined;
+}
+
+export function isUserOperationV6(userOp: UserOperation): userOp is UserOperationV6 {
+    return !isPackedUserOperation(userOp) && (userOp as UserOperationV6).initCode !== undefined;
+}
+
+function toUint128(value: string | undefined, name: string): Buffer {
+    const buf = ethUtil.unpadBuffer(ethUtil.toBuffer(value || '0x'));
+    if (buf.length > 16) {
+        throw new Error(`${name} exceeds uint128`);
+    }
+    return ethUtil.setLengthLeft(buf, 16);
+}
+
+function toBytes(value: string | undefined): Buffer {
+    return ethUtil.toBuffer(value || '0x');
+}
+
+export function packUserOperation(userOp: UserOperationV7): PackedUserOperation {
+    let initCode = Buffer.alloc(0);
+    if (userOp.factory) {
+        initCode = Buffer.concat([ethUtil.toBuffer(userOp.factory), toBytes(userOp.factoryData)]);
+    }
+    let paymasterAndData = Buffer.alloc(0);
+    if (userOp.paymaster) {
+        paymasterAndData = Buffer.concat([
+            ethUtil.toBuffer(userOp.paymaster),
+            toUint128(userOp.paymasterVerificationGasLimit, 'paymasterVerificationGasLimit'),
+            toUint128(userOp.paymasterPostOpGasLimit, 'paymasterPostOpGasLimit'),
+            toBytes(userOp.paymasterData),
+        ]);
+    }
+    return {
+        sender: userOp.sender,
+        nonce: userOp.nonce,
+        initCode: base.toHex(initCode, true),
+        callData: userOp.callData,
+        accountGasLimits: base.toHex(Buffer.concat([
+            toUint128(userOp.verificationGasLimit, 'verificationGasLimit'),
+            toUint128(userOp.callGasLimit, 'callGasLimit'),
+        ]), true),
+        preVerificationGas: userOp.preVerificationGas,
+        gasFees: base.toHex(Buffer.concat([
+            toUint128(userOp.maxPriorityFeePerGas, 'maxPriorityFeePerGas'),
+            toUint128(userOp.maxFeePerGas, 'maxFeePerGas'),
+        ]), true),
+        paymasterAndData: base.toHex(paymasterAndData, true),
+        signature: userOp.signature || '0x',
+    };
+}
+
+export function unpackUserOperation(packed: PackedUserOperation): UserOperationV7 {
+    const uint = (buf: Buffer) => base.toHex(buf, true).replace(/^0x0*/, '0x').replace(/^0x$/, '0x0');
+    const accountGasLimits = ethUtil.setLengthLeft(ethUtil.toBuffer(packed.accountGasLimits), 32);
+    const gasFees = ethUtil.setLengthLeft(ethUtil.toBuffer(packed.gasFees), 32);
+    const userOp: UserOperationV7 = {
+        sender: packed.sender,
+        nonce: packed.nonce,
+        callData: packed.callData,
+        callGasLimit: uint(accountGasLimits.slice(16)),
+        verificationGasLimit: uint(accountGasLimits.slice(0, 16)),
+        preVerificationGas: packed.preVerificationGas,
+        maxFeePerGas: uint(gasFees.slice(16)),
+        maxPriorityFeePerGas: uint(gasFees.slice(0, 16)),
+        signature: packed.signature,
+    };
+    const initCode = toBytes(packed.initCode);
+    if (initCode.length > 0) {
+        if (initCode.length < 20) {
+            throw new Error('invalid initCode');
+        }
+        userOp.factory = base.toHex(initCode.slice(0, 20), true);
+        userOp.factoryData = base.toHex(initCode.slice(20), true);
+    }
+    const paymasterAndData = toBytes(packed.paymasterAndData);
+    if (paymasterAndData.length > 0) {
+        if (paymasterAndData.length < 52) {
+            throw new Error('invalid paymasterAndData');
+        }
+        userOp.paymaster = base.toHex(paymasterAndData.slice(0, 20), true);
+        userOp.paymasterVerificationGasLimit = uint(paymasterAndData.slice(20, 36));
+        userOp.paymasterPostOpGasLimit = uint(paymasterAndData.slice(36, 52));
+        userOp.paymasterData = base.toHex(paymasterAndData.slice(52), true);
+    }
+    return userOp;
+}
+
+// the abi encoding of the user operation without signature, dynamic fields are replaced by their keccak256 hash
+export function encodeUserOperation(userOp: UserOperation): Buffer {
+    const hash = (value: string) => base.keccak256(toBytes(value));
+    if (isUserOperationV6(userOp)) {
+        return abi.RawEncode(
+            ['address', 'uint256', 'bytes32', 'bytes32', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'bytes32'],
+            [userOp.sender, userOp.nonce, hash(userOp.initCode), hash(userOp.callData), userOp.callGasLimit,
+                userOp.verificationGasLimit, userOp.preVerificationGas, userOp.maxFeePerGas, userOp.maxPriorityFeePerGas,
+                hash(userOp.paymasterAndData)],
+        );
+    }
+    const packed = isPackedUserOperation(userOp) ? userOp : packUserOperation(userOp);
+    return abi.RawEncode(
+        ['address', 'uint256', 'bytes32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'bytes32'],
+        [packed.sender, packed.nonce, hash(packed.initCode), hash(packed.callData),
+            ethUtil.setLengthLeft(ethUtil.toBuffer(packed.accountGasLimits), 32), packed.preVerificationGas,
+            ethUtil.setLengthLeft(ethUtil.toBuffer(packed.gasFees), 32), hash(packed.paymasterAndData)],
+    );
+}
+
+// userOpHash = keccak256(abi.encode(keccak256(encodeUserOperation(userOp)), entryPoint, chainId))
+export function getUserOperationHash(userOp: UserOperation, entryPoint: string, chainId: string | number): string {
+    const userOpHash = base.keccak256(abi.RawEncode(
+        ['bytes32', 'address', 'uint256'],
+        [base.keccak256(encodeUserOperation(userOp)), entryPoint, chainId],
+    ));
+    return base.toHex(userOpHash, true);
+}
+
+// the digest signed by the account owner
+export function getUserOperationSignHash(params: UserOperationSignParams): string {
+    const userOpHash = getUserOperationHash(params.userOperation, params.entryPoint, params.chainId);
+    if (params.personalSign === false) {
+        return userOpHash;
+    }
+    return ethUtil.addHexPrefix(ethUtil.hashPersonalMessage(base.fromHex(userOpHash)).toString('hex'));
+}
+
+// without privateKey, the sign hash is returned for mpc signing
+export function signUserOperation(params: UserOperationSignParams, privateKey?: Buffer): string {
+    const msgHash = getUserOperationSignHash(params);
+    if (!privateKey) {
+        return msgHash;
+    }
+    const {v, r, s} = ethUtil.ecdsaSign(base.fromHex(msgHash), privateKey);
+    return ethUtil.makeSignature(v, r, s);
+}
@@ -0,0 +1,113 @@
+import {AbiInterface, decodeParameters, encodeParameters, ERC20_ABI, getEventTopic, getSelector, parseParamType} from "../src";
+
+// expected values are cross validated with ethers v6
+const abi = [
+    {
+        type: "function", name: "fill", stateMutability: "payable",
+        inputs: [
+            {name: "order", type: "tuple", components: [{name: "maker", type: "address"}, {name: "amounts", type: "uint256[]"}, {name: "salt", type: "bytes32"}, {name: "data", type: "bytes"}]},
+            {name: "memos", type: "string[]"},
+            {name: "delta", type: "int24"},
+            {name: "pairs", type: "tuple[2]", components: [{name: "a", type: "uint8"}, {name: "b", type: "bool"}]},
+        ],
+        outputs: [{name: "ok", type: "bool"}, {name: "left", type: "uint256[2]"}],
+    },
+    {
+        type: "event", name: "Filled", anonymous: false,
+        inputs: [{name: "maker", type: "address", indexed: true}, {name: "memo", type: "string", indexed: true}, {name: "amount", type: "uint256", indexed: false}, {name: "note", type: "bytes", indexed: false}],
+    },
+    {type: "error", name: "Expired", inputs: [{name: "deadline", type: "uint64"}]},
+];
+const maker = "0x1306b01bC3e4AD202612D3843387e94737673F53";
+const fillData = "0xb8523be800000000000000000000000000000000000000000000000000000000000000e00000000000000000000000000000000000000000000000000000000000000200fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffb0000000000000000000000000000000000000000000000000000000000000001000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000ff00000000000000000000000000000000000000000000000000000000000000000000000000000000000000001306b01bc3e4ad202612d3843387e94737673f530000000000000000000000000000000000000000000000000000000000000080abababababababababababababababababababababababababababababababab00000000000000000000000000000000000000000000000000000000000000e0000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000de0b6b3a76400000000000000000000000000000000000000000000000000000000000000000004deadbeef00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000400000000000000000000000000000000000000000000000000000000000000080000000000000000000000000000000000000000000000000000000000000000268690000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000009c3bc6ec3af636f64650000000000000000000000000000000000000000000000";
+
+describe("abi", () => {
+    test("function", async () => {
+        const iface = new AbiInterface(JSON.stringify(abi));
+        const order = {maker: maker, amounts: [1, "1000000000000000000"], salt: "0x" + "ab".repeat(32), data: "0xdeadbeef"};
+        const data = iface.encodeFunctionData("fill", [order, ["hi", "ünïcode"], -5, [[1, true], {a: "0xff", b: false}]]);
+        expect(data).toEqual(fillData);
+
+        const decoded = iface.decodeFunctionData(fillData);
+        expect(decoded.signature).toEqual("fill((address,uint256[],bytes32,bytes),string[],int24,(uint8,bool)[2])");
+        expect(decoded.selector).toEqual("0xb8523be8");
+        const [o, memos, delta, pairs] = decoded.args;
+        expect(o[0]).toEqual(maker);
+        expect(o[1].map((n: any) => n.toString())).toEqual(["1", "1000000000000000000"]);
+        expect(o[2]).toEqual(order.salt);
+        expect(o[3]).toEqual("0xdeadbeef");
+        expect(memos).toEqual(["hi", "ünïcode"]);
+        expect(delta.toNumber()).toEqual(-5);
+        expect(pairs.map((p: any) => [p[0].toNumber(), p[1]])).toEqual([[1, true], [255, false]]);
+
+        expect(iface.getFunction("0xb8523be8").name).toEqual("fill");
+        expect(iface.getFunction("fill((address,uint256[],bytes32,bytes), string[], int24, (uint8,bool)[2])").name).toEqual("fill");
+
+        const result = "0x000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000070000000000000000000000000000000000000000000000000000000000000008";
+        expect(iface.encodeFunctionResult("fill", [true, [7, 8]])).toEqual(result);
+        const [ok, left] = iface.decodeFunctionResult("fill", result);
+        expect([ok, left[0].toNumber(), left[1].toNumber()]).toEqual([true, 7, 8]);
+    });
+
+    test("event", async () => {
+        const iface = new AbiInterface(abi);
+        const log = {
+            data: "0x000000000000000000000000000000000000000000000000000000000000002a000000000000000000000000000000000000000000000000000000000000004000000000000000000000000000000000000000000000000000000000000000020102000000000000000000000000000000000000000000000000000000000000",
+            topics: ["0x310a608ff74ba160d1019de78ba4ae9b0254e323caa03553ba7fe66c5e82ed96", "0x0000000000000000000000001306b01bc3e4ad202612d3843387e94737673f53", "0x7624778dedc75f8b322b9fa1632a610d40b85e106c7d9bf0e743a9ce291b9c6f"],
+        };
+        expect(getEventTopic("Filled(address,string,uint256,bytes)")).toEqual(log.topics[0]);
+        expect(iface.encodeEventTopics("Filled", [maker, "hi"])).toEqual(log.topics);
+        expect(iface.encodeEventTopics("Filled", [null, "hi"])).toEqual([log.topics[0], null, log.topics[2]]);
+
+        const decoded = iface.decodeEventLog(log);
+        expect(decoded.name).toEqual("Filled");
+        expect(decoded.args[0]).toEqual(maker);
+        expect(decoded.args[1]).toEqual(log.topics[2]);
+        expect(decoded.args[2].toNumber()).toEqual(42);
+        expect(decoded.args[3]).toEqual("0x0102");
+        expect(() => iface.decodeEventLog({...log, topics: log.topics.slice(0, 2)})).toThrow("indexed topics");
+    });
+
+    test("error", async () => {
+        const iface = new AbiInterface(abi);
+        const expired = iface.decodeErrorResult("0x95693653000000000000000000000000000000000000000000000000000000006553f100");
+        expect([expired.name, expired.args[0].toNumber()]).toEqual(["Expired", 1700000000]);
+        const reason = iface.decodeErrorResult("0x08c379a00000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000000a6e6f7420656e6f75676800000000000000000000000000000000000000000000");
+        expect([reason.name, reason.args[0]]).toEqual(["Error", "not enough"]);
+    });
+
+    test("erc20", async () => {
+        const iface = new AbiInterface(ERC20_ABI);
+        expect(getSelector("transfer(address,uint256)")).toEqual("0xa9059cbb");
+        const data = iface.encodeFunctionData("transfer", ["0xee7c7f76795cd0cab3885fee6f2c50def89f48a3", "0x2710"]);
+        expect(data).toEqual("0xa9059cbb000000000000000000000000ee7c7f76795cd0cab3885fee6f2c50def89f48a30000000000000000000000000000000000000000000000000000000000002710");
+        const decoded = iface.decodeFunctionData(data);
+        expect([decoded.name, decoded.args[0], decoded.args[1].toNumber()]).toEqual(["transfer", "0xEe7C7f76795CD0CAb3885fEE6f2c50def89f48A3", 10000]);
+        expect(() => iface.decodeFunctionData("0x12345678")).toThrow("no matching function");
+    });
+
+    test("coder", async () => {
+        expect(parseParamType("(address to, uint256[2] amounts)[] indexed orders")).toEqual({
+            name: "orders", type: "tuple[]", indexed: true,
+            components: [{name: "to", type: "address"}, {name: "amounts", type: "uint256[2]"}],
+        });
+        const encoded = encodeParameters(["uint", "bytes", "string"], [1, "0x01", "a"]);
+        expect(decodeParameters(["uint256", "bytes", "string"], encoded).slice(1)).toEqual(["0x01", "a"]);
+        expect(() => encodeParameters(["uint8"], [256])).toThrow("out of range");
+        expect(() => encodeParameters(["int8"], [-129])).toThrow("out of range");
+        expect(() => encodeParameters(["bytes2"], ["0x01"])).toThrow("invalid bytes2");
+        expect(() => decodeParameters(["bytes"], encoded.slice(0, 70))).toThrow("data out of range");
+
+        // "0x" is empty bytes, hex without the 0x prefix is rejected
+        const empty = encodeParameters(["bytes"], ["0x"]);
+        expect(empty.toString("hex")).toEqual((32).toString(16).padStart(64, "0") + "0".repeat(64));
+        expect(decodeParameters(["bytes"], empty)).toEqual(["0x"]);
+        expect(() => encodeParameters(["bytes"], ["deadbeef"])).toThrow("invalid bytes");
+        expect(() => encodeParameters(["bytes"], ["0xabc"])).toThrow("invalid bytes");
+        expect(() => decodeParameters(["bytes"], empty.toString("hex"))).toThrow("invalid bytes");
+        const iface = new AbiInterface(ERC20_ABI);
+        expect(() => iface.decodeFunctionData("0x")).toThrow("invalid calldata");
+        expect(() => iface.decodeFunctionData("a9059cbb")).toThrow("invalid bytes");
+        expect(() => iface.decodeErrorResult("0x")).toThrow("invalid error data");
+    });
+});
@@ -0,0 +1,98 @@
+import {
+    decodeParameters,
+    ERC1271_MAGIC_VALUE,
+    EthCallProvider,
+    EthWallet,
+    isErc6492Signature,
+    MessageTypes,
+    parseErc6492Signature,
+    verifySignature,
+    wrapErc6492Signature,
+} from "../src";
+
+// the wrapped signature is cross validated with viem serializeErc6492Signature
+const owner = "0xD74c65aD81aA8537327e9Ba943011A8cEc7a7B6b";
+const account = "0x9406Cc6185a346906296840746125a0E44976454";
+const hash = "0xd9eba16ed0ecae432b71fe008c98cc872bb4cc214d3220a36f365326cf807d68";
+const signature = "0x64842d1c1805fdb05f5f2ec2809656475210524a201187780791ea591e607e0519562a0d4b2aaf4cd32563a5584df5b9d9c688eb7ffb4d0eea274eb5b87af7561c";
+const factory = "0x9406Cc6185a346906296840746125a0E44976454";
+// createAccount(owner, 0)
+const factoryCalldata = "0x5fbfb9cf000000000000000000000000d74c65ad81aa8537327e9ba943011a8cec7a7b6b0000000000000000000000000000000000000000000000000000000000000000";
+const wrapped = "0x0000000000000000000000009406cc6185a346906296840746125a0e44976454000000000000000000000000000000000000000000000000000000000000006000000000000000000000000000000000000000000000000000000000000000e000000000000000000000000000000000000000000000000000000000000000445fbfb9cf000000000000000000000000d74c65ad81aa8537327e9ba943011a8cec7a7b6b000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000004164842d1c1805fdb05f5f2ec2809656475210524a201187780791ea591e607e0519562a0d4b2aaf4cd32563a5584df5b9d9c688eb7ffb4d0eea274eb5b87af7561c000000000000000000000000000000000000000000000000000000000000006492649264926492649264926492649264926492649264926492649264926492";
+
+// a local node stub, the contract account at `account` accepts signatures of `owner`
+function stubProvider(calls: { to?: string, data: string }[]): EthCallProvider {
+    return async (request) => {
+        calls.push(request);
+        if (request.to === undefined) {
+            // deployless validator call, the constructor args (address, bytes32, bytes) follow the creation code
+            const argsLength = (4 * 32 + (wrapped.length - 2) / 2) * 2;
+            const [signer, digest, sig] = decodeParameters(["address", "bytes32", "bytes"], "0x" + request.data.slice(-argsLength));
+            const inner = parseErc6492Signature(sig);
+            return signer === account && digest === hash && inner.signature === signature ? "0x01" : "0x00";
+        }
+        if (request.to.toLowerCase() !== account.toLowerCase()) {
+            // no code at the address
+            return "0x";
+        }
+        if (!request.data.startsWith(ERC1271_MAGIC_VALUE)) {
+            throw new Error("execution reverted");
+        }
+        const [digest, sig] = decodeParameters(["bytes32", "bytes"], "0x" + request.data.slice(10));
+        return digest === hash && sig === signature
+            ? ERC1271_MAGIC_VALUE + "00".repeat(28)
+            : "0xffffffff" + "00".repeat(28);
+    };
+}
+
+describe("erc1271", () => {
+    test("wrap and parse erc6492 signature", async () => {
+        expect(wrapErc6492Signature({factory, factoryCalldata, signature})).toEqual(wrapped);
+        expect(isErc6492Signature(wrapped)).toBe(true);
+        expect(isErc6492Signature(signature)).toBe(false);
+        expect(parseErc6492Signature(wrapped)).toEqual({factory, factoryCalldata, signature});
+        expect(() => parseErc6492Signature(signature)).toThrow();
+    });
+
+    test("verify eoa signature", async () => {
+        const calls: any[] = [];
+        expect(await verifySignature({address: owner, hash, signature, call: stubProvider(calls)})).toBe(true);
+        expect(calls.length).toBe(0);
+        // not the signer and no contract code
+        expect(await verifySignature({address: factory.replace("94", "95"), hash, signature, call: stubProvider(calls)})).toBe(false);
+    });
+
+    test("verify erc1271 signature", async () => {
+        const calls: any[] = [];
+        expect(await verifySignature({address: account, hash, signature, call: stubProvider(calls)})).toBe(true);
+        expect(calls.length).toBe(1);
+        expect(calls[0].to).toEqual(account);
+        expect(calls[0].data.startsWith("0x1626ba7e" + hash.slice(2))).toBe(true);
+
+        const other = signature.slice(0, -2) + "1b";
+        expect(await verifySignature({address: account, hash, signature: other, call: stubProvider([])})).toBe(false);
+        const reverting: EthCallProvider = async () => {
+            throw new Error("execution reverted");
+        };
+        expect(await verifySignature({address: account, hash, signature, call: reverting})).toBe(false);
+    });
+
+    test("verify erc6492 signature", async () => {
+        const calls: any[] = [];
+        expect(await verifySignature({address: account, hash, signature: wrapped, call: stubProvider(calls)})).toBe(true);
+        expect(calls.length).toBe(1);
+        expect(calls[0].to).toBeUndefined();
+        expect(calls[0].data.startsWith("0x608060405234801561001057600080fd5b50")).toBe(true);
+        expect(await verifySignature({address: owner, hash, signature: wrapped, call: stubProvider([])})).toBe(false);
+    });
+
+    test("wallet verifyMessage with call provider", async () => {
+        const wallet = new EthWallet();
+        const data = {type: MessageTypes.PERSONAL_SIGN, message: "hello world"};
+        const call = stubProvider([]);
+        expect(await wallet.verifyMessage({data, signature, address: owner})).toBe(true);
+        expect(await wallet.verifyMessage({data, signature, address: account}, call)).toBe(true);
+        expect(await wallet.verifyMessage({data, signature: wrapped, address: account}, call)).toBe(true);
+        expect(await wallet.verifyMessage({data: {...data, message: "hello"}, signature: wrapped, address: account}, call)).toBe(false);
+    });
+});
@@ -1598,4 +1598,189 @@ describe("eth walLet", () => {
         const expected = '0x5e03ef312a829739adad161f8d8d4ea3f5e30d202da6bcf13cfa818dc2ad0dda';
         expect(hash).toEqual(expected);
     });
+    // cross validation
+    test("4844 tx sign", async () => {
+        const commitment = '0xc0' + '00'.repeat(47);
+        const versionedHash = '0x010657f37554c781402a22917dee2f75def7ab966d7b770905398eba3c444014';
+        expect(base.toHex(eth.computeVersionedHash(base.fromHex(commitment)), true)).toEqual(versionedHash);
+
+        const ethTxParams = {
+            gasLimit: base.toBigIntHex(new BigNumber(21000)),
+            to: "0x35b2438d33c7dc449ae9ffbda14f56dc39a4c6b8",
+            value: base.toBigIntHex(new BigNumber(100)),
+            nonce: base.toBigIntHex(new BigNumber(6)),
+            maxFeePerGas: base.toBigIntHex(new BigNumber(10000)),
+            maxPriorityFeePerGas: base.toBigIntHex(new BigNumber(10000)),
+            maxFeePerBlobGas: base.toBigIntHex(new BigNumber(1)),
+            chainId: base.toBigIntHex(new BigNumber(1)),
+            blobVersionedHashes: [versionedHash],
+            data: '0x',
+            type: 3,
+        };
+        const tx = await wallet.signTransaction({privateKey: privateKey, data: ethTxParams});
+        const expected = '0x03f88901068227108227108252089435b2438d33c7dc449ae9ffbda14f56dc39a4c6b86480c001e1a0010657f37554c781402a22917dee2f75def7ab966d7b770905398eba3c44401480a0f368032c47d81f6b4b2456c0966245403df225e0e096df3db7863987438a7a96a078d36f818e596b11318f73f119876a70ec0e13139efc48955b684fd04af64b1d';
+        expect(tx).toEqual(expected);
+        expect(await wallet.calcTxHash({data: tx})).toEqual('0xeefd4518ff541760072c272a7e9f42b64182ef0d3f34051fbace69072079164c');
+
+        // the versioned hashes are derived from the commitments, and the network wrapper carries the blobs
+        const blob = '0x' + '00'.repeat(131072);
+        const proof = '0xc0' + '00'.repeat(47);
+        const wrapped = await wallet.signTransaction({
+            privateKey: privateKey,
+            data: {...ethTxParams, blobVersionedHashes: undefined, blobs: [blob], kzgCommitments: [commitment], kzgProofs: [proof]}
+        });
+        const decoded = eth.TransactionFactory.fromSerializedData(base.fromHex(wrapped)) as eth.BlobEIP4844Transaction;
+        expect(decoded.blobs!.length).toEqual(1);
+        expect(base.toHex(decoded.kzgCommitments![0], true)).toEqual(commitment);
+        expect(base.toHex(decoded.serialize(), true)).toEqual(expected);
+        expect(await wallet.calcTxHash({data: wrapped})).toEqual('0xeefd4518ff541760072c272a7e9f42b64182ef0d3f34051fbace69072079164c');
+
+        const mismatch = {...ethTxParams, blobVersionedHashes: ['0x01' + '00'.repeat(31)], blobs: [blob], kzgCommitments: [commitment], kzgProofs: [proof]};
+        await expect(wallet.signTransaction({privateKey: privateKey, data: mismatch})).rejects.toEqual("sign tx error");
+        await expect(wallet.signTransaction({privateKey: privateKey, data: {...ethTxParams, to: undefined}})).rejects.toEqual("sign tx error");
+    });
+
+    test("4844 tx mpc", async () => {
+        const ethTxParams = {
+            gasLimit: base.toBigIntHex(new BigNumber(21000)),
+            to: "0x35b2438d33c7dc449ae9ffbda14f56dc39a4c6b8",
+            value: base.toBigIntHex(new BigNumber(100)),
+            nonce: base.toBigIntHex(new BigNumber(6)),
+            maxFeePerGas: base.toBigIntHex(new BigNumber(10000)),
+            maxPriorityFeePerGas: base.toBigIntHex(new BigNumber(10000)),
+            maxFeePerBlobGas: base.toBigIntHex(new BigNumber(1)),
+            chainId: base.toBigIntHex(new BigNumber(1)),
+            blobVersionedHashes: ['0x010657f37554c781402a22917dee2f75def7ab966d7b770905398eba3c444014'],
+            data: '0x',
+            type: 3,
+        };
+        const mpcRaw = await wallet.getMPCRawTransaction({data: ethTxParams} as any);
+        expect(mpcRaw.hash).toEqual('08e1ec2b6617f66e45019aef291f9cf2b6467b8b4a45bec040027f4d21ca139a');
+
+        const {r, s} = ecdsaSign(base.fromHex(mpcRaw.hash), base.fromHex(privateKey));
+        const tx = await wallet.getMPCTransaction({raw: mpcRaw.raw, sigs: base.toHex(Buffer.concat([r, s])), publicKey: publicKey});
+        expect(tx).toEqual('0x03f88901068227108227108252089435b2438d33c7dc449ae9ffbda14f56dc39a4c6b86480c001e1a0010657f37554c781402a22917dee2f75def7ab966d7b770905398eba3c44401480a0f368032c47d81f6b4b2456c0966245403df225e0e096df3db7863987438a7a96a078d36f818e596b11318f73f119876a70ec0e13139efc48955b684fd04af64b1d');
+    });
+
+    test("4844 tx hardware", async () => {
+        const blob = '0x' + '00'.repeat(131072);
+        const commitment = '0xc0' + '00'.repeat(47);
+        const proof = '0xc0' + '00'.repeat(47);
+        const ethTxParams = {
+            gasLimit: base.toBigIntHex(new BigNumber(21000)),
+            to: "0x35b2438d33c7dc449ae9ffbda14f56dc39a4c6b8",
+            value: base.toBigIntHex(new BigNumber(100)),
+            nonce: base.toBigIntHex(new BigNumber(6)),
+            maxFeePerGas: base.toBigIntHex(new BigNumber(10000)),
+            maxPriorityFeePerGas: base.toBigIntHex(new BigNumber(10000)),
+            maxFeePerBlobGas: base.toBigIntHex(new BigNumber(1)),
+            chainId: base.toBigIntHex(new BigNumber(1)),
+            blobs: [blob],
+            kzgCommitments: [commitment],
+            kzgProofs: [proof],
+            data: '0x',
+            type: 3,
+        };
+        // the device signs the canonical transaction, the blobs are attached back to the signed transaction
+        const raw = await wallet.getHardWareRawTransaction({data: ethTxParams} as any);
+        expect(eth.getSignHash(raw)).toEqual('08e1ec2b6617f66e45019aef291f9cf2b6467b8b4a45bec040027f4d21ca139a');
+
+        const {v, r, s} = ecdsaSign(base.fromHex(eth.getSignHash(raw)), base.fromHex(privateKey));
+        const sig = {raw: raw, r: base.toHex(r), s: base.toHex(s), v: (v - 27).toString(16)};
+        const tx = await wallet.getHardWareSignedTransaction({...sig, blobs: [blob], kzgCommitments: [commitment], kzgProofs: [proof]});
+        const decoded = eth.TransactionFactory.fromSerializedData(base.fromHex(tx)) as eth.BlobEIP4844Transaction;
+        expect(decoded.blobs!.length).toEqual(1);
+        expect(base.toHex(decoded.kzgProofs![0], true)).toEqual(proof);
+        const expected = '0x03f88901068227108227108252089435b2438d33c7dc449ae9ffbda14f56dc39a4c6b86480c001e1a0010657f37554c781402a22917dee2f75def7ab966d7b770905398eba3c44401480a0f368032c47d81f6b4b2456c0966245403df225e0e096df3db7863987438a7a96a078d36f818e596b11318f73f119876a70ec0e13139efc48955b684fd04af64b1d';
+        expect(base.toHex(decoded.serialize(), true)).toEqual(expected);
+        expect(await wallet.getHardWareSignedTransaction(sig)).toEqual(expected);
+
+        // the commitments must match the signed versioned hashes
+        const otherCommitment = '0xc1' + '00'.repeat(47);
+        await expect(wallet.getHardWareSignedTransaction({...sig, blobs: [blob], kzgCommitments: [otherCommitment], kzgProofs: [proof]}))
+            .rejects.toEqual("get hardware signed transaction error");
+    });
+    // cross validation
+    test("4337 userOpHash", async () => {
+        const userOpV6 = {
+            sender: "0x1306b01bC3e4AD202612D3843387e94737673F53",
+            nonce: "0x22ee",
+            initCode: "0x9406cc6185a346906296840746125a0e449764545fbfb9cf000000000000000000000000b0fe0b15aaf2c4e3b5d5c2f1fb31a5fb0ef8f7170000000000000000000000000000000000000000000000000000000000000000",
+            callData: "0xb61d27f60000000000000000000000001306b01bc3e4ad202612d3843387e94737673f53000000000000000000000000000000000000000000000000000000000000000a00000000000000000000000000000000000000000000000000000000000000600000000000000000000000000000000000000000000000000000000000000000",
+            callGasLimit: "0x30d40",
+            verificationGasLimit: "0x186a0",
+            preVerificationGas: "0xc350",
+            maxFeePerGas: "0xb2d05e00",
+            maxPriorityFeePerGas: "0x3b9aca00",
+            paymasterAndData: "0x",
+            signature: "0x",
+        };
+        expect(eth.getUserOperationHash(userOpV6, eth.ENTRY_POINT_V06, 1)).toEqual("0x4518d77402351af1fb9e1374927b51460a3c1ec8b3ad9c5d06aa77db8d487d82");
+
+        const userOpV7 = {
+            sender: "0x1306b01bC3e4AD202612D3843387e94737673F53",
+            nonce: "0x22ee",
+            factory: "0x9406Cc6185a346906296840746125a0E44976454",
+            factoryData: "0x5fbfb9cf000000000000000000000000b0fe0b15aaf2c4e3b5d5c2f1fb31a5fb0ef8f7170000000000000000000000000000000000000000000000000000000000000000",
+            callData: userOpV6.callData,
+            callGasLimit: "0x30d40",
+            verificationGasLimit: "0x186a0",
+            preVerificationGas: "0xc350",
+            maxFeePerGas: "0xb2d05e00",
+            maxPriorityFeePerGas: "0x3b9aca00",
+            paymaster: "0x0000000000325602a77416A16136FDafd04b299f",
+            paymasterVerificationGasLimit: "0xea60",
+            paymasterPostOpGasLimit: "0x7530",
+            paymasterData: "0xdeadbeef",
+            signature: "0x",
+        };
+        const packed = eth.packUserOperation(userOpV7);
+        expect(packed.accountGasLimits).toEqual("0x000000000000000000000000000186a000000000000000000000000000030d40");
+        expect(packed.gasFees).toEqual("0x0000000000000000000000003b9aca00000000000000000000000000b2d05e00");
+        expect(packed.paymasterAndData).toEqual("0x0000000000325602a77416a16136fdafd04b299f0000000000000000000000000000ea6000000000000000000000000000007530deadbeef");
+        expect(eth.unpackUserOperation(packed)).toEqual({
+            ...userOpV7,
+            factory: userOpV7.factory.toLowerCase(),
+            paymaster: userOpV7.paymaster.toLowerCase(),
+        });
+
+        const expected = "0x33954fee4a30ba02c72e1679242805795cacb400ba0dee153f64185906d7e6e1";
+        expect(eth.getUserOperationHash(userOpV7, eth.ENTRY_POINT_V07, 137)).toEqual(expected);
+        expect(eth.getUserOperationHash(packed, eth.ENTRY_POINT_V07, "0x89")).toEqual(expected);
+    });
+
+    test("4337 userOp sign", async () => {
+        const userOperation = eth.packUserOperation({
+            sender: "0x1306b01bC3e4AD202612D3843387e94737673F53",
+            nonce: "0x22ee",
+            factory: "0x9406Cc6185a346906296840746125a0E44976454",
+            factoryData: "0x5fbfb9cf000000000000000000000000b0fe0b15aaf2c4e3b5d5c2f1fb31a5fb0ef8f7170000000000000000000000000000000000000000000000000000000000000000",
+            callData: "0xb61d27f60000000000000000000000001306b01bc3e4ad202612d3843387e94737673f53000000000000000000000000000000000000000000000000000000000000000a00000000000000000000000000000000000000000000000000000000000000600000000000000000000000000000000000000000000000000000000000000000",
+            callGasLimit: "0x30d40",
+            verificationGasLimit: "0x186a0",
+            preVerificationGas: "0xc350",
+            maxFeePerGas: "0xb2d05e00",
+            maxPriorityFeePerGas: "0x3b9aca00",
+            paymaster: "0x0000000000325602a77416A16136FDafd04b299f",
+            paymasterVerificationGasLimit: "0xea60",
+            paymasterPostOpGasLimit: "0x7530",
+            paymasterData: "0xdeadbeef",
+            signature: "0x",
+        });
+        const data = {userOperation, entryPoint: eth.ENTRY_POINT_V07, chainId: "0x89"};
+
+        const expected = "0xc2da8ebf3050fb71e9c4b071d582272f21b43ccb360589b055b38f74fb88ee894ee27d689410097a6ef96adf17719523afcdc3f74480b5d5c38b83861e08c2e41c";
+        const signed = await wallet.signUserOperation({privateKey: privateKey, data: data});
+        expect(signed).toEqual({...userOperation, signature: expected});
+        const raw = await wallet.signUserOperation({privateKey: privateKey, data: {...data, personalSign: false}});
+        expect(raw.signature).toEqual("0x4961b5599196aeecf9fa0b7fc17b3e81729843282f4a1e8c9f3481ddd8d5e7fa0cb051b792f98eea7b39d2e3c2df3396ea0f23aaa1ef54aabd42f5f54c99f8ee1b");
+
+        const mpcRaw = await wallet.getMPCRawUserOperation({data: data});
+        expect(mpcRaw.hash).toEqual("0x6e3aeaed79bed9cc739d0995bde674c31e61da90e8c94ef5d0ec524e067ce21e");
+        const {r, s} = ecdsaSign(base.fromHex(mpcRaw.hash), base.fromHex(privateKey));
+        const mpcSigned = await wallet.getMPCUserOperation({raw: mpcRaw.raw, sigs: base.toHex(Buffer.concat([r, s])), publicKey: publicKey});
+        expect(mpcSigned).toEqual(signed);
+
+        await expect(wallet.signUserOperation({privateKey: "", data: data})).rejects.toEqual("sign tx error");
+    });
 });
\ No newline at end of file
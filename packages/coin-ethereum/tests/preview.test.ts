@@ -0,0 +1,110 @@
+import {AbiInterface, EthWallet, MessageTypes, previewTransaction, previewTypedData} from "../src";
+
+const wallet = new EthWallet();
+const token = "0x45Ef35936F0EB8F588Eb9C851C5B1C42B22e61EC";
+const spender = "0x35b2438d33c7dc449ae9ffbda14f56dc39a4c6b8";
+const owner = "0xd74c65ad81aa8537327e9ba943011a8cec7a7b6b";
+const maxUint256 = "0x" + "ff".repeat(32);
+const now = 1700000000;
+const iface = new AbiInterface([
+    {type: "function", name: "approve", inputs: [{name: "spender", type: "address"}, {name: "value", type: "uint256"}]},
+    {type: "function", name: "setApprovalForAll", inputs: [{name: "operator", type: "address"}, {name: "approved", type: "bool"}]},
+    {type: "function", name: "safeBatchTransferFrom", inputs: [{name: "from", type: "address"}, {name: "to", type: "address"}, {name: "ids", type: "uint256[]"}, {name: "values", type: "uint256[]"}, {name: "data", type: "bytes"}]},
+]);
+const codes = (risks: { code: string }[]) => risks.map(r => r.code);
+
+describe("preview", () => {
+    test("transfer", async () => {
+        const native = await wallet.previewTransaction({privateKey: "", data: {to: spender, value: "1000", nonce: 1, gasLimit: 21000, gasPrice: 1, chainId: 1}});
+        expect([native.kind, native.recipient, native.value, native.risks]).toEqual(["nativeTransfer", spender, "1000", []]);
+
+        const erc20 = await wallet.previewTransaction({privateKey: "", data: {contractAddress: token, to: token, value: "0x2710", nonce: 1, chainId: "0x38", type: 2}}, {chainId: 1});
+        expect([erc20.kind, erc20.token, erc20.recipient, erc20.amount, erc20.value, erc20.chainId]).toEqual(["erc20Transfer", token, token, "10000", "0", "56"]);
+        expect(codes(erc20.risks)).toEqual(["CHAIN_MISMATCH", "TOKEN_CONTRACT_RECIPIENT"]);
+
+        const batch = previewTransaction({
+            to: token, value: "0x0", chainId: "0x1", type: 2,
+            data: iface.encodeFunctionData("safeBatchTransferFrom", [owner, spender, [1, 2], [10, 20], "0x"]),
+        });
+        expect([batch.kind, batch.from, batch.tokenIds, batch.amounts, batch.method]).toEqual(["erc1155BatchTransfer", "0xD74c65aD81aA8537327e9Ba943011A8cEc7a7B6b", ["1", "2"], ["10", "20"], "safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)"]);
+    });
+
+    test("approval", async () => {
+        const approve = previewTransaction({to: token, value: "0x0", chainId: "0x1", data: iface.encodeFunctionData("approve", [spender, maxUint256])});
+        expect([approve.kind, approve.token, approve.amount]).toEqual(["erc20Approve", token, "115792089237316195423570985008687907853269984665640564039457584007913129639935"]);
+        expect(codes(approve.risks)).toEqual(["UNLIMITED_APPROVAL"]);
+
+        const limited = previewTransaction({to: token, value: "0x0", chainId: "0x1", data: iface.encodeFunctionData("approve", [spender, 100])});
+        expect(limited.risks).toEqual([]);
+
+        const forAll = previewTransaction({to: token, value: "0x1", chainId: "0x1", data: iface.encodeFunctionData("setApprovalForAll", [spender, true])});
+        expect([forAll.kind, forAll.spender, forAll.approved]).toEqual(["setApprovalForAll", "0x35b2438D33c7DC449Ae9ffbDA14f56dC39a4C6b8", true]);
+        expect(codes(forAll.risks)).toEqual(["APPROVAL_FOR_ALL", "VALUE_WITH_TOKEN_CALL"]);
+
+        const unknown = previewTransaction({to: token, value: "0x0", chainId: "0x1", data: "0x12345678"});
+        expect([unknown.kind, codes(unknown.risks)]).toEqual(["contractCall", ["UNKNOWN_CALL"]]);
+    });
+
+    test("delegation", async () => {
+        const preview = await wallet.previewTransaction({
+            privateKey: "",
+            data: {
+                to: owner, value: 0, nonce: 6, chainId: 1, type: 4, data: "0x",
+                authorizationList: [
+                    {chainId: "0x", address: "0x2020202020202020202020202020202020202020", nonce: "0x01", yParity: "0x01", r: "0x01", s: "0x01"},
+                    {chainId: "0x1", address: "0x0000000000000000000000000000000000000000", nonce: "0x02", yParity: "0x01", r: "0x01", s: "0x01"},
+                ],
+            }
+        });
+        expect(preview.kind).toEqual("delegation");
+        expect(preview.delegations).toEqual([
+            {chainId: "0", address: "0x2020202020202020202020202020202020202020", nonce: "1"},
+            {chainId: "1", address: "0x0000000000000000000000000000000000000000", nonce: "2"},
+        ]);
+        expect(codes(preview.risks)).toEqual(["DELEGATION", "ANY_CHAIN_DELEGATION"]);
+    });
+
+    test("permit", async () => {
+        const permit = {
+            types: {
+                EIP712Domain: [{name: "name", type: "string"}, {name: "version", type: "string"}, {name: "chainId", type: "uint256"}, {name: "verifyingContract", type: "address"}],
+                Permit: [{name: "owner", type: "address"}, {name: "spender", type: "address"}, {name: "value", type: "uint256"}, {name: "nonce", type: "uint256"}, {name: "deadline", type: "uint256"}],
+            },
+            primaryType: "Permit",
+            domain: {name: "USD Coin", version: "2", chainId: 1, verifyingContract: token},
+            message: {owner: owner, spender: spender, value: maxUint256, nonce: 0, deadline: now + 3600},
+        };
+        const preview = await wallet.previewTypedData({privateKey: "", data: {type: MessageTypes.TYPE_DATA_V4, message: JSON.stringify(permit)}}, {chainId: "0x1", now});
+        expect([preview.kind, preview.owner, preview.spender, preview.allowances, preview.deadline]).toEqual(["permit", owner, spender,
+            [{token: token, amount: "115792089237316195423570985008687907853269984665640564039457584007913129639935"}], String(now + 3600)]);
+        expect(codes(preview.risks)).toEqual(["UNLIMITED_APPROVAL"]);
+
+        const expired = previewTypedData({...permit, message: {...permit.message, value: 1, deadline: now - 1}}, {chainId: 56, now});
+        expect(codes(expired.risks)).toEqual(["CHAIN_MISMATCH", "EXPIRED"]);
+
+        const dai = previewTypedData({...permit, message: {holder: owner, spender: spender, nonce: 0, expiry: 0, allowed: true}}, {now});
+        expect([dai.kind, dai.owner, codes(dai.risks)]).toEqual(["daiPermit", owner, ["UNLIMITED_APPROVAL", "LONG_EXPIRATION"]]);
+
+        await expect(wallet.previewTypedData({privateKey: "", data: {type: MessageTypes.PERSONAL_SIGN, message: "hello"}})).rejects.toMatch("unsupported");
+    });
+
+    test("permit2", async () => {
+        const domain = {name: "Permit2", chainId: 1, verifyingContract: "0x000000000022D473030F116dDEE9F6B43aC78BA3"};
+        const single = previewTypedData({
+            primaryType: "PermitSingle", domain,
+            message: {details: {token: token, amount: "0x" + "ff".repeat(20), expiration: now + 365 * 86400, nonce: 0}, spender: spender, sigDeadline: now + 1800},
+        }, {now});
+        expect([single.kind, single.spender, single.deadline, single.allowances]).toEqual(["permit2Single", spender, String(now + 1800),
+            [{token: token, amount: "1461501637330902918203684832716283019655932542975", expiration: String(now + 365 * 86400)}]]);
+        expect(codes(single.risks)).toEqual(["UNLIMITED_APPROVAL", "LONG_EXPIRATION"]);
+
+        const transfer = previewTypedData({
+            primaryType: "PermitBatchWitnessTransferFrom", domain,
+            message: {permitted: [{token: token, amount: 5}, {token: spender, amount: 6}], spender: spender, nonce: 1, deadline: now + 60, witness: {}},
+        }, {now});
+        expect([transfer.kind, transfer.allowances, transfer.risks]).toEqual(["permit2BatchTransfer", [{token: token, amount: "5"}, {token: spender, amount: "6"}], []]);
+
+        const other = previewTypedData({primaryType: "Mail", domain: {name: "Ether Mail"}, message: {}});
+        expect([other.kind, other.risks]).toEqual(["typedData", []]);
+    });
+});
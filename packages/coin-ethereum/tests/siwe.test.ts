@@ -0,0 +1,76 @@
+import {buildSiweMessage, EthWallet, generateSiweNonce, parseSiweMessage, verifySiweMessage} from "../src";
+
+// messages and signature are cross validated with the siwe package and ethers v6
+const privateKey = "0x49c0722d56d6bac802bdf5c480a17c870d1d18bc4355d8344aa05390eb778280";
+const address = "0xD74c65aD81aA8537327e9Ba943011A8cEc7a7B6b";
+const fields = {
+    scheme: "https",
+    domain: "example.com:8080",
+    address: address,
+    statement: "Sign in to Example, terms: https://example.com/tos",
+    uri: "https://example.com/login",
+    version: "1",
+    chainId: 1,
+    nonce: "32891756abcd",
+    issuedAt: "2021-09-30T16:25:24Z",
+    expirationTime: "2021-10-01T16:25:24.000Z",
+    notBefore: "2021-09-30T16:00:00Z",
+    requestId: "req-1",
+    resources: ["ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq/", "https://example.com/my-web2-claim.json"],
+};
+const text = "https://example.com:8080 wants you to sign in with your Ethereum account:\n0xD74c65aD81aA8537327e9Ba943011A8cEc7a7B6b\n\nSign in to Example, terms: https://example.com/tos\n\nURI: https://example.com/login\nVersion: 1\nChain ID: 1\nNonce: 32891756abcd\nIssued At: 2021-09-30T16:25:24Z\nExpiration Time: 2021-10-01T16:25:24.000Z\nNot Before: 2021-09-30T16:00:00Z\nRequest ID: req-1\nResources:\n- ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq/\n- https://example.com/my-web2-claim.json";
+const signature = "0xf20f197d5f7c1623884a9bd867bfa892909d0cb524268d8b5391170fc23d9d8265374d8de9433b44baacccbb23b14bf0392f292186577ccf8b891822d6b6d0171c";
+
+describe("siwe", () => {
+    test("build and parse", async () => {
+        expect(buildSiweMessage(fields)).toEqual(text);
+        expect(parseSiweMessage(text)).toEqual(fields);
+
+        const minimal = {domain: "example.com", address: address, uri: "https://example.com", version: "1", chainId: 137, nonce: "abcdefgh12", issuedAt: "2024-01-01T00:00:00Z"};
+        const minimalText = "example.com wants you to sign in with your Ethereum account:\n0xD74c65aD81aA8537327e9Ba943011A8cEc7a7B6b\n\n\nURI: https://example.com\nVersion: 1\nChain ID: 137\nNonce: abcdefgh12\nIssued At: 2024-01-01T00:00:00Z";
+        expect(buildSiweMessage(minimal)).toEqual(minimalText);
+        expect(parseSiweMessage(minimalText)).toEqual(minimal);
+        expect(parseSiweMessage(buildSiweMessage({...minimal, statement: ""})).statement).toEqual("");
+
+        expect(generateSiweNonce()).toMatch(/^[a-zA-Z0-9]{17}$/);
+    });
+
+    test("strict parse", async () => {
+        const invalid = [
+            text.replace(address, address.toLowerCase()),
+            text.replace("Version: 1", "Version: 2"),
+            text.replace("Nonce: 32891756abcd", "Nonce: 1234"),
+            text.replace("Issued At: 2021-09-30T16:25:24Z", "Issued At: 2021-09-30 16:25:24"),
+            text.replace("Chain ID: 1", "Chain ID: 0x1"),
+            text.replace("terms:", "terms :"),
+            text.replace("\nVersion: 1\nChain ID: 1", "\nChain ID: 1\nVersion: 1"),
+            text.replace("URI: https://example.com/login", "URI: example.com/login"),
+            text + "\n",
+        ];
+        invalid.forEach(message => expect(() => parseSiweMessage(message)).toThrow("invalid siwe"));
+    });
+
+    test("sign and verify", async () => {
+        const wallet = new EthWallet();
+        expect(await wallet.signSiweMessage({privateKey: privateKey, data: fields})).toEqual(signature);
+        expect(await wallet.signSiweMessage({privateKey: privateKey, data: text})).toEqual(signature);
+        await expect(wallet.signSiweMessage({privateKey: privateKey, data: "hello"})).rejects.toEqual("sign message error");
+
+        const time = "2021-10-01T00:00:00Z";
+        const ok = await wallet.verifySiweMessage(text, signature, {domain: "example.com:8080", scheme: "https", nonce: "32891756abcd", chainId: 1, time});
+        expect([ok.success, ok.message]).toEqual([true, fields]);
+        expect(verifySiweMessage(fields, signature, {time}).success).toEqual(true);
+
+        expect(verifySiweMessage(text, signature, {domain: "evil.com", time}).error).toEqual("DOMAIN_MISMATCH");
+        expect(verifySiweMessage(text, signature, {scheme: "http", time}).error).toEqual("SCHEME_MISMATCH");
+        expect(verifySiweMessage(text, signature, {nonce: "32891756abce", time}).error).toEqual("NONCE_MISMATCH");
+        expect(verifySiweMessage(text, signature, {chainId: 56, time}).error).toEqual("CHAIN_ID_MISMATCH");
+        expect(verifySiweMessage(text, signature, {time: "2021-10-01T16:25:24Z"}).error).toEqual("EXPIRED_MESSAGE");
+        expect(verifySiweMessage(text, signature, {time: "2021-09-30T15:59:59Z"}).error).toEqual("NOT_YET_VALID_MESSAGE");
+        expect(verifySiweMessage(text.replace("req-1", "req-2"), signature, {time}).error).toEqual("INVALID_SIGNATURE");
+        expect(verifySiweMessage(text, "0x1234", {time}).error).toEqual("INVALID_SIGNATURE");
+        expect(verifySiweMessage("hello", signature).error).toEqual("INVALID_MESSAGE");
+        expect(() => verifySiweMessage(text, signature, {time: "yesterday"})).toThrow("invalid time");
+        await expect(wallet.verifySiweMessage(text, signature, {time: new Date(NaN)})).rejects.toThrow("invalid time");
+    });
+});
@@ -0,0 +1,421 @@
+/**
+ * Encodes and decodes values by the type registry of the runtime metadata.
+ *
+ * Values are plain objects: composites are objects keyed by field name (arrays for unnamed fields,
+ * the inner value for single unnamed fields), enums are the variant name or {Variant: value},
+ * Option is null or the value, bytes are 0x hex strings and integers wider than 32 bits are decimal strings.
+ * Calls are {pallet, method, args}.
+ */
+import {base, BN} from "@okxweb3/crypto-lib";
+import {getType, Primitive, RuntimeMetadata, TypeDef} from "./metadata";
+import {encodeInt, encodeVecU8, ScaleReader} from "./scale";
+import {compactToU8a, u8aConcat} from "./u8a";
+import {decodeAddress, encodeAddress} from "./address";
+import {isHex} from "./is";
+import {stringToU8a} from "./string";
+
+export interface Call {
+    pallet: string,
+    method: string,
+    args: any,
+}
+
+export interface DecodeOptions {
+    // AccountId32 values are decoded as ss58 addresses when set, otherwise as hex
+    ss58Format?: number,
+}
+
+const EMPTY = new Uint8Array();
+
+function primitiveBits(primitive: Primitive): number {
+    return parseInt(primitive.substring(1), 10);
+}
+
+function toBn(value: any, name: string): BN {
+    if (BN.isBN(value)) {
+        return value;
+    }
+    if (typeof value === "bigint") {
+        return new BN(value.toString());
+    }
+    if (typeof value === "number" && Number.isSafeInteger(value)) {
+        return new BN(value);
+    }
+    if (typeof value === "string" && isHex(value)) {
+        return new BN(value.substring(2), 16);
+    }
+    if (typeof value === "string" && /^-?\d+$/.test(value)) {
+        return new BN(value, 10);
+    }
+    throw new Error(`invalid ${name} ${value}`);
+}
+
+function toBytes(value: any, length?: number): Uint8Array {
+    let bytes: Uint8Array;
+    if (value instanceof Uint8Array) {
+        bytes = value;
+    } else if (isHex(value)) {
+        bytes = base.fromHex(value);
+    } else if (typeof value === "string") {
+        // ss58 address for 32 bytes account ids, utf8 text otherwise
+        bytes = length === 32 ? decodeAddress(value) : stringToU8a(value);
+    } else if (Array.isArray(value)) {
+        bytes = Uint8Array.from(value);
+    } else {
+        throw new Error(`invalid bytes ${value}`);
+    }
+    if (length !== undefined && bytes.length !== length) {
+        throw new Error(`expected ${length} bytes, received ${bytes.length}`);
+    }
+    return bytes;
+}
+
+function isU8(metadata: RuntimeMetadata, id: number): boolean {
+    const def = getType(metadata, id).def;
+    return def.kind === "primitive" && def.primitive === "u8";
+}
+
+function isOption(metadata: RuntimeMetadata, id: number): boolean {
+    const type = getType(metadata, id);
+    return type.path.length === 1 && type.path[0] === "Option" && type.def.kind === "variant";
+}
+
+// types without encoded bytes, e.g. () or the marker structs of signed extensions
+export function isEmptyType(metadata: RuntimeMetadata, id: number): boolean {
+    const def = getType(metadata, id).def;
+    switch (def.kind) {
+        case "composite":
+            return def.fields.every((field) => isEmptyType(metadata, field.type));
+        case "tuple":
+            return def.types.every((type) => isEmptyType(metadata, type));
+        case "array":
+            return def.length === 0 || isEmptyType(metadata, def.type);
+        default:
+            return false;
+    }
+}
+
+function encodeFields(metadata: RuntimeMetadata, fields: { name?: string, type: number }[], value: any): Uint8Array {
+    if (fields.length === 0) {
+        return EMPTY;
+    }
+    if (fields[0].name === undefined && fields.length === 1) {
+        return encodeValue(metadata, fields[0].type, value);
+    }
+    if (Array.isArray(value)) {
+        if (value.length !== fields.length) {
+            throw new Error(`expected ${fields.length} values, received ${value.length}`);
+        }
+        return u8aConcat(...fields.map((field, i) => encodeValue(metadata, field.type, value[i])));
+    }
+    if (fields[0].name === undefined || typeof value !== "object" || value === null) {
+        throw new Error(`invalid value ${value}`);
+    }
+    return u8aConcat(...fields.map((field) => {
+        const fieldValue = value[field.name!];
+        if (fieldValue === undefined && !isOption(metadata, field.type)) {
+            throw new Error(`missing field ${field.name}`);
+        }
+        return encodeValue(metadata, field.type, fieldValue);
+    }));
+}
+
+function encodeBits(metadata: RuntimeMetadata, def: { storeType: number, orderType: number }, value: boolean[]): Uint8Array {
+    const store = getType(metadata, def.storeType).def;
+    if (store.kind !== "primitive" || !store.primitive.startsWith("u")) {
+        throw new Error("invalid bit store type");
+    }
+    const wordBits = primitiveBits(store.primitive);
+    const isMsb = getType(metadata, def.orderType).path.includes("Msb0");
+    const bytes = new Uint8Array(Math.ceil(value.length / wordBits) * wordBits / 8);
+    value.forEach((bit, i) => {
+        if (bit) {
+            const position = isMsb ? wordBits - 1 - i % wordBits : i % wordBits;
+            const byte = Math.floor(i / wordBits) * wordBits / 8 + Math.floor(position / 8);
+            bytes[byte] |= 1 << (position % 8);
+        }
+    });
+    return u8aConcat(compactToU8a(value.length), bytes);
+}
+
+function encodeCompact(metadata: RuntimeMetadata, id: number, value: any): Uint8Array {
+    const def = getType(metadata, id).def;
+    if (def.kind === "primitive") {
+        const bn = toBn(value, def.primitive);
+        if (bn.isNeg()) {
+            throw new Error(`invalid compact ${value}`);
+        }
+        return compactToU8a(bn);
+    }
+    // Compact<Perbill> and similar wrappers
+    if (def.kind === "composite" && def.fields.length <= 1) {
+        return def.fields.length ? encodeCompact(metadata, def.fields[0].type, value) : EMPTY;
+    }
+    throw new Error(`invalid compact type ${id}`);
+}
+
+function encodePrimitive(primitive: Primitive, value: any): Uint8Array {
+    switch (primitive) {
+        case "bool":
+            if (typeof value !== "boolean") {
+                throw new Error(`invalid bool ${value}`);
+            }
+            return new Uint8Array([value ? 1 : 0]);
+        case "char":
+            return encodeInt(new BN(String(value).codePointAt(0) || 0), 32);
+        case "str":
+            return encodeVecU8(String(value));
+        default:
+            return encodeInt(toBn(value, primitive), primitiveBits(primitive), primitive.startsWith("i"));
+    }
+}
+
+export function encodeCall(metadata: RuntimeMetadata, pallet: string, method: string, args: any = {}): Uint8Array {
+    const palletMetadata = metadata.pallets.find((p) => p.name === pallet);
+    if (!palletMetadata || palletMetadata.calls === undefined) {
+        throw new Error(`unknown pallet ${pallet}`);
+    }
+    const def = getType(metadata, palletMetadata.calls).def;
+    const variant = def.kind === "variant" ? def.variants.find((v) => v.name === method) : undefined;
+    if (!variant) {
+        throw new Error(`unknown call ${pallet}.${method}`);
+    }
+    try {
+        return u8aConcat([palletMetadata.index, variant.index], encodeFields(metadata, variant.fields, args));
+    } catch (e) {
+        throw new Error(`${pallet}.${method}: ${(e as Error).message}`);
+    }
+}
+
+export function encodeValue(metadata: RuntimeMetadata, id: number, value: any): Uint8Array {
+    if (id === metadata.extrinsic.callType && value && typeof value === "object" && "pallet" in value) {
+        return encodeCall(metadata, value.pallet, value.method, value.args);
+    }
+    const type = getType(metadata, id);
+    const def: TypeDef = type.def;
+    switch (def.kind) {
+        case "composite":
+            return encodeFields(metadata, def.fields, value);
+        case "variant": {
+            if (isOption(metadata, id)) {
+                const some = def.variants.find((v) => v.name === "Some")!;
+                return value === null || value === undefined
+                    ? new Uint8Array([0])
+                    : u8aConcat([some.index], encodeValue(metadata, some.fields[0].type, value));
+            }
+            let name: string;
+            let data: any;
+            if (typeof value === "string") {
+                name = value;
+            } else if (value && typeof value === "object" && Object.keys(value).length === 1) {
+                name = Object.keys(value)[0];
+                data = value[name];
+            } else {
+                throw new Error(`invalid ${type.path.join("::")} ${value}`);
+            }
+            let variant = def.variants.find((v) => v.name === name);
+            // MultiAddress accepts the ss58 address of the account id
+            if (!variant && typeof value === "string" && type.path[type.path.length - 1] === "MultiAddress") {
+                variant = def.variants.find((v) => v.name === "Id");
+                data = value;
+            }
+            if (!variant) {
+                throw new Error(`unknown variant ${name} of ${type.path.join("::")}`);
+            }
+            return u8aConcat([variant.index], encodeFields(metadata, variant.fields, data));
+        }
+        case "sequence":
+            if (isU8(metadata, def.type)) {
+                return encodeVecU8(toBytes(value));
+            }
+            if (!Array.isArray(value)) {
+                throw new Error(`invalid sequence ${value}`);
+            }
+            return u8aConcat(compactToU8a(value.length), ...value.map((item) => encodeValue(metadata, def.type, item)));
+        case "array":
+            if (isU8(metadata, def.type)) {
+                return toBytes(value, def.length);
+            }
+            if (!Array.isArray(value) || value.length !== def.length) {
+                throw new Error(`expected array of ${def.length} values`);
+            }
+            return u8aConcat(...value.map((item) => encodeValue(metadata, def.type, item)));
+        case "tuple":
+            if (def.types.length === 0) {
+                return EMPTY;
+            }
+            if (!Array.isArray(value) || value.length !== def.types.length) {
+                throw new Error(`expected tuple of ${def.types.length} values`);
+            }
+            return u8aConcat(...def.types.map((item, i) => encodeValue(metadata, item, value[i])));
+        case "primitive":
+            return encodePrimitive(def.primitive, value);
+        case "compact":
+            return encodeCompact(metadata, def.type, value);
+        case "bitSequence":
+            if (!Array.isArray(value)) {
+                throw new Error(`invalid bit sequence ${value}`);
+            }
+            return encodeBits(metadata, def, value);
+    }
+}
+
+function readFields(metadata: RuntimeMetadata, fields: { name?: string, type: number }[], reader: ScaleReader, options: DecodeOptions): any {
+    if (fields.length === 0) {
+        return null;
+    }
+    if (fields[0].name === undefined) {
+        const values = fields.map((field) => readValue(metadata, field.type, reader, options));
+        return values.length === 1 ? values[0] : values;
+    }
+    const result: Record<string, any> = {};
+    for (const field of fields) {
+        result[field.name!] = readValue(metadata, field.type, reader, options);
+    }
+    return result;
+}
+
+function readBits(metadata: RuntimeMetadata, def: { storeType: number, orderType: number }, reader: ScaleReader): boolean[] {
+    const store = getType(metadata, def.storeType).def;
+    if (store.kind !== "primitive" || !store.primitive.startsWith("u")) {
+        throw new Error("invalid bit store type");
+    }
+    const wordBits = primitiveBits(store.primitive);
+    const isMsb = getType(metadata, def.orderType).path.includes("Msb0");
+    const length = reader.compactNumber();
+    const bytes = reader.bytes(Math.ceil(length / wordBits) * wordBits / 8);
+    const result: boolean[] = [];
+    for (let i = 0; i < length; i++) {
+        const position = isMsb ? wordBits - 1 - i % wordBits : i % wordBits;
+        const byte = Math.floor(i / wordBits) * wordBits / 8 + Math.floor(position / 8);
+        result.push((bytes[byte] & (1 << (position % 8))) !== 0);
+    }
+    return result;
+}
+
+function fromBn(value: BN, bitLength: number): number | string {
+    return bitLength <= 32 ? value.toNumber() : value.toString(10);
+}
+
+function readCompact(metadata: RuntimeMetadata, id: number, reader: ScaleReader): any {
+    const def = getType(metadata, id).def;
+    if (def.kind === "primitive") {
+        return fromBn(reader.compact(), primitiveBits(def.primitive));
+    }
+    if (def.kind === "composite" && def.fields.length <= 1) {
+        return def.fields.length ? readCompact(metadata, def.fields[0].type, reader) : null;
+    }
+    throw new Error(`invalid compact type ${id}`);
+}
+
+function readPrimitive(primitive: Primitive, reader: ScaleReader): any {
+    switch (primitive) {
+        case "bool":
+            return reader.bool();
+        case "char":
+            return String.fromCodePoint(reader.u32());
+        case "str":
+            return reader.string();
+        default: {
+            const bitLength = primitiveBits(primitive);
+            return fromBn(reader.int(bitLength, primitive.startsWith("i")), bitLength);
+        }
+    }
+}
+
+export function readCall(metadata: RuntimeMetadata, reader: ScaleReader, options: DecodeOptions = {}): Call {
+    const palletIndex = reader.u8();
+    const pallet = metadata.pallets.find((p) => p.index === palletIndex);
+    if (!pallet || pallet.calls === undefined) {
+        throw new Error(`unknown pallet index ${palletIndex}`);
+    }
+    const def = getType(metadata, pallet.calls).def;
+    const callIndex = reader.u8();
+    const variant = def.kind === "variant" ? def.variants.find((v) => v.index === callIndex) : undefined;
+    if (!variant) {
+        throw new Error(`unknown call index ${callIndex} of ${pallet.name}`);
+    }
+    return {pallet: pallet.name, method: variant.name, args: readFields(metadata, variant.fields, reader, options) || {}};
+}
+
+export function readValue(metadata: RuntimeMetadata, id: number, reader: ScaleReader, options: DecodeOptions = {}): any {
+    if (id === metadata.extrinsic.callType) {
+        return readCall(metadata, reader, options);
+    }
+    const type = getType(metadata, id);
+    const def: TypeDef = type.def;
+    switch (def.kind) {
+        case "composite":
+            if (type.path[type.path.length - 1] === "AccountId32" && options.ss58Format !== undefined) {
+                return encodeAddress(reader.bytes(32), options.ss58Format);
+            }
+            return readFields(metadata, def.fields, reader, options);
+        case "variant": {
+            const index = reader.u8();
+            const variant = def.variants.find((v) => v.index === index);
+            if (!variant) {
+                throw new Error(`unknown variant index ${index} of ${type.path.join("::")}`);
+            }
+            if (isOption(metadata, id)) {
+                return variant.fields.length ? readValue(metadata, variant.fields[0].type, reader, options) : null;
+            }
+            if (variant.fields.length === 0) {
+                return variant.name;
+            }
+            return {[variant.name]: readFields(metadata, variant.fields, reader, options)};
+        }
+        case "sequence": {
+            if (isU8(metadata, def.type)) {
+                return base.toHex(reader.vecU8(), true);
+            }
+            const length = reader.compactNumber();
+            const result = [];
+            for (let i = 0; i < length; i++) {
+                result.push(readValue(metadata, def.type, reader, options));
+            }
+            return result;
+        }
+        case "array": {
+            if (isU8(metadata, def.type)) {
+                return base.toHex(reader.bytes(def.length), true);
+            }
+            const result = [];
+            for (let i = 0; i < def.length; i++) {
+                result.push(readValue(metadata, def.type, reader, options));
+            }
+            return result;
+        }
+        case "tuple":
+            return def.types.length ? def.types.map((item) => readValue(metadata, item, reader, options)) : null;
+        case "primitive":
+            return readPrimitive(def.primitive, reader);
+        case "compact":
+            return readCompact(metadata, def.type, reader);
+        case "bitSequence":
+            return readBits(metadata, def, reader);
+    }
+}
+
+function toReader(data: Uint8Array | string): ScaleReader {
+    return new ScaleReader(typeof data === "string" ? base.fromHex(data) : data);
+}
+
+function assertConsumed(reader: ScaleReader) {
+    if (reader.remaining !== 0) {
+        throw new Error(`${reader.remaining} bytes left after decoding`);
+    }
+}
+
+export function decodeCall(metadata: RuntimeMetadata, data: Uint8Array | string, options: DecodeOptions = {}): Call {
+    const reader = toReader(data);
+    const call = readCall(metadata, reader, options);
+    assertConsumed(reader);
+    return call;
+}
+
+export function decodeValue(metadata: RuntimeMetadata, id: number, data: Uint8Array | string, options: DecodeOptions = {}): any {
+    const reader = toReader(data);
+    const value = readValue(metadata, id, reader, options);
+    assertConsumed(reader);
+    return value;
+}
@@ -0,0 +1,181 @@
+import {base, BN} from "@okxweb3/crypto-lib";
+import {getType, RuntimeMetadata, SignedExtensionMetadata} from "./metadata";
+import {Call, DecodeOptions, encodeValue, isEmptyType, readCall, readValue} from "./codec";
+import {ScaleReader} from "./scale";
+import {blake2AsU8a, compactToU8a, u8aConcat} from "./u8a";
+import {keyPairFromPrivateKey, KeyType, publicKeyToAccountId, signMessage} from "./keypair";
+
+export interface ExtrinsicOptions {
+    nonce: BN | number | string,
+    tip?: BN | number | string,
+    // ChargeAssetTxPayment: asset id paying the fee, typed as in the metadata, the native token when not set
+    assetId?: any,
+    // hash and number of the block the mortal era starts from
+    blockHash: string,
+    blockNumber: BN | number,
+    // mortal era period in blocks, 0 for an immortal transaction
+    era?: number,
+    genesisHash: string,
+    specVersion: number,
+    transactionVersion: number,
+    // CheckMetadataHash: enabled with the metadata digest, disabled when not set
+    metadataHash?: string,
+}
+
+export interface SigningPayload {
+    call: Call,
+    // values of the signed extensions, keyed by identifier
+    extra: Record<string, any>,
+    additional: Record<string, any>,
+}
+
+const DEFAULT_ERA_PERIOD = 64;
+
+// encodes the extension data included in the extrinsic and the additional data only included in the payload
+type ExtensionEncoder = (metadata: RuntimeMetadata, extension: SignedExtensionMetadata, options: ExtrinsicOptions) => [Uint8Array?, Uint8Array?]
+
+function mortality(metadata: RuntimeMetadata, extension: SignedExtensionMetadata, options: ExtrinsicOptions): [Uint8Array, Uint8Array] {
+    const period = options.era === undefined ? DEFAULT_ERA_PERIOD : options.era;
+    const birthHash = period ? options.blockHash : options.genesisHash;
+    return [mortalEra(options.blockNumber, period), encodeValue(metadata, extension.additionalSigned, birthHash)];
+}
+
+const SIGNED_EXTENSIONS: Record<string, ExtensionEncoder> = {
+    CheckSpecVersion: (metadata, extension, options) => [undefined, encodeValue(metadata, extension.additionalSigned, options.specVersion)],
+    CheckTxVersion: (metadata, extension, options) => [undefined, encodeValue(metadata, extension.additionalSigned, options.transactionVersion)],
+    CheckGenesis: (metadata, extension, options) => [undefined, encodeValue(metadata, extension.additionalSigned, options.genesisHash)],
+    CheckMortality: mortality,
+    CheckEra: mortality,
+    CheckNonce: (metadata, extension, options) => [encodeValue(metadata, extension.type, options.nonce)],
+    ChargeTransactionPayment: (metadata, extension, options) => [encodeValue(metadata, extension.type, options.tip || 0)],
+    ChargeAssetTxPayment: (metadata, extension, options) => [
+        encodeValue(metadata, extension.type, {tip: options.tip || 0, asset_id: options.assetId}),
+    ],
+    CheckMetadataHash: (metadata, extension, options) => [
+        encodeValue(metadata, extension.type, {mode: options.metadataHash ? "Enabled" : "Disabled"}),
+        encodeValue(metadata, extension.additionalSigned, options.metadataHash || null),
+    ],
+};
+
+/**
+ * Encodes the mortal era of a transaction valid for period blocks from blockNumber,
+ * the period is rounded to a power of two between 4 and 65536, 0 for immortal.
+ */
+export function mortalEra(blockNumber: BN | number, period: number = DEFAULT_ERA_PERIOD): Uint8Array {
+    if (!period) {
+        return new Uint8Array([0]);
+    }
+    let calPeriod = 4;
+    while (calPeriod < period && calPeriod < 65536) {
+        calPeriod *= 2;
+    }
+    const phase = new BN(blockNumber).modn(calPeriod);
+    const quantizeFactor = Math.max(calPeriod >> 12, 1);
+    const trailingZeros = Math.log2(calPeriod);
+    const encoded = Math.min(15, Math.max(1, trailingZeros - 1)) | (Math.floor(phase / quantizeFactor) << 4);
+    return new Uint8Array([encoded & 0xff, encoded >> 8]);
+}
+
+function decodeEra(reader: ScaleReader): { period: number, phase: number } {
+    const first = reader.u8();
+    if (first === 0) {
+        return {period: 0, phase: 0};
+    }
+    const encoded = first + (reader.u8() << 8);
+    const period = 2 << (encoded % (1 << 4));
+    const quantizeFactor = Math.max(period >> 12, 1);
+    return {period, phase: (encoded >> 4) * quantizeFactor};
+}
+
+function encodeExtensions(metadata: RuntimeMetadata, options: ExtrinsicOptions): [Uint8Array, Uint8Array] {
+    const extra: Uint8Array[] = [];
+    const additional: Uint8Array[] = [];
+    for (const extension of metadata.extrinsic.signedExtensions) {
+        const encoder = SIGNED_EXTENSIONS[extension.identifier];
+        if (encoder) {
+            const [extensionExtra, extensionAdditional] = encoder(metadata, extension, options);
+            extra.push(extensionExtra || new Uint8Array());
+            additional.push(extensionAdditional || new Uint8Array());
+        } else if (!isEmptyType(metadata, extension.type) || !isEmptyType(metadata, extension.additionalSigned)) {
+            throw new Error(`unsupported signed extension ${extension.identifier}`);
+        }
+    }
+    return [u8aConcat(...extra), u8aConcat(...additional)];
+}
+
+function toCallBytes(call: Uint8Array | string): Uint8Array {
+    return typeof call === "string" ? base.fromHex(call) : call;
+}
+
+/**
+ * The payload signed by the sender: call, signed extensions and their additional data.
+ * Payloads longer than 256 bytes are signed by their blake2 hash.
+ */
+export function createSigningPayload(metadata: RuntimeMetadata, call: Uint8Array | string, options: ExtrinsicOptions): Uint8Array {
+    const [extra, additional] = encodeExtensions(metadata, options);
+    return u8aConcat(toCallBytes(call), extra, additional);
+}
+
+// decodes a signing payload to show the call and the signed extensions before signing
+export function decodeSigningPayload(metadata: RuntimeMetadata, payload: Uint8Array | string, options: DecodeOptions = {}): SigningPayload {
+    const reader = new ScaleReader(toCallBytes(payload));
+    const call = readCall(metadata, reader, options);
+    const extensions = metadata.extrinsic.signedExtensions;
+    const extra: Record<string, any> = {};
+    for (const extension of extensions) {
+        if (extension.identifier === "CheckMortality" || extension.identifier === "CheckEra") {
+            extra[extension.identifier] = decodeEra(reader);
+        } else if (!isEmptyType(metadata, extension.type)) {
+            extra[extension.identifier] = readValue(metadata, extension.type, reader, options);
+        }
+    }
+    const additional: Record<string, any> = {};
+    for (const extension of extensions) {
+        if (!isEmptyType(metadata, extension.additionalSigned)) {
+            additional[extension.identifier] = readValue(metadata, extension.additionalSigned, reader, options);
+        }
+    }
+    if (reader.remaining !== 0) {
+        throw new Error("invalid signing payload");
+    }
+    return {call, extra, additional};
+}
+
+// MultiSignature variant of the key type
+const SIGNATURE_VARIANTS: Record<KeyType, string> = {
+    ed25519: "Ed25519",
+    sr25519: "Sr25519",
+    ecdsa: "Ecdsa",
+};
+
+/**
+ * Signs the call and returns the hex of the signed extrinsic, ready for author_submitExtrinsic.
+ *
+ * @param call encoded call, see encodeCall
+ */
+export function signExtrinsic(metadata: RuntimeMetadata, call: Uint8Array | string, options: ExtrinsicOptions, privateKey: string, keyType: KeyType = "ed25519"): string {
+    const {extrinsic} = metadata;
+    if (extrinsic.version !== 4) {
+        throw new Error(`unsupported extrinsic version ${extrinsic.version}`);
+    }
+    const pair = keyPairFromPrivateKey(privateKey, keyType);
+    const [extra, additional] = encodeExtensions(metadata, options);
+    const callBytes = toCallBytes(call);
+
+    let payload = u8aConcat(callBytes, extra, additional);
+    if (payload.length > 256) {
+        payload = blake2AsU8a(payload);
+    }
+    const signature = signMessage(payload, pair);
+
+    const accountId = base.toHex(publicKeyToAccountId(pair.publicKey), true);
+    const addressType = getType(metadata, extrinsic.addressType);
+    const address = encodeValue(metadata, extrinsic.addressType, addressType.def.kind === "variant" ? {Id: accountId} : accountId);
+    const signatureType = getType(metadata, extrinsic.signatureType);
+    const encodedSignature = encodeValue(metadata, extrinsic.signatureType,
+        signatureType.def.kind === "variant" ? {[SIGNATURE_VARIANTS[keyType]]: signature} : signature);
+
+    // signed bit and extrinsic version
+    const signed = u8aConcat([0x80 | extrinsic.version], address, encodedSignature, extra, callBytes);
+    return base.toHex(u8aConcat(compactToU8a(signed.length), signed), true);
+}
@@ -1,14 +1,16 @@
 import {base} from "@okxweb3/crypto-lib";
 import {NetWork} from "./const";
-import {decodeAddress, encodeAddress, private2Public} from "./address";
+import {decodeAddress} from "./address";
+import {deriveKeyPair, keyPairFromPrivateKey, keyPairToAddress, KeyType} from "./keypair";
 
 
-export function getNewAddress(seed: string, ss58Format: NetWork) {
+// derivePath: substrate junctions, e.g. //polkadot//0/1, soft junctions are only supported by sr25519 keys
+export function getNewAddress(seed: string, ss58Format: NetWork, keyType: KeyType = "ed25519", derivePath = "") {
     if (!validatePrivate(seed)) {
         throw new Error("invalid key");
     }
-    const publicKey = private2Public(base.fromHex(seed))
-    return encodeAddress(publicKey, ss58Format)
+    const pair = deriveKeyPair(keyPairFromPrivateKey(seed, keyType), derivePath)
+    return keyPairToAddress(pair, ss58Format)
 }
 
 function validatePrivate(seed: string): boolean {
@@ -32,5 +34,10 @@ export function validateAddress(encoded: string, ss58Format: NetWork): boolean {
 }
 
 export * from "./const"
+export * from "./keypair"
+export * from "./metadata"
+export * from "./codec"
+export * from "./extrinsic"
+export {ScaleReader} from "./scale"
 export * from "./tx"
 export * from "./types"
\ No newline at end of file
@@ -0,0 +1,212 @@
+/**
+ * The following methods are based on `polkadot-js`, thanks for their work
+ * https://github.com/polkadot-js/common/tree/master/packages/util-crypto
+ */
+import {base, bip39, BN, signUtil} from "@okxweb3/crypto-lib";
+import {decodeAddress, encodeAddress} from "./address";
+import {bnToU8a} from "./bn";
+import {isHex} from "./is";
+import {stringToU8a} from "./string";
+import {blake2AsU8a, compactToU8a, u8aConcat} from "./u8a";
+import {
+    sr25519DeriveHard,
+    sr25519DeriveSoft,
+    sr25519PublicKey,
+    sr25519SecretFromSeed,
+    sr25519Sign,
+    sr25519Verify
+} from "./sr25519";
+
+export type KeyType = "ed25519" | "sr25519" | "ecdsa"
+
+// index of the scheme in the MultiSignature and MultiSigner enums
+export const SignatureType: Record<KeyType, number> = {
+    ed25519: 0,
+    sr25519: 1,
+    ecdsa: 2,
+}
+
+export interface KeyPair {
+    type: KeyType,
+    // ed25519 and ecdsa: 32 bytes seed, sr25519: 64 bytes key || nonce
+    secretKey: Uint8Array,
+    // ecdsa public keys are 33 bytes compressed
+    publicKey: Uint8Array,
+}
+
+export interface DeriveJunction {
+    chainCode: Uint8Array,
+    isHard: boolean,
+}
+
+const RE_JUNCTION = /\/(\/?)([^/]+)/g;
+const RE_NUMBER = /^\d+$/;
+
+function compactAddLength(input: Uint8Array): Uint8Array {
+    return u8aConcat(compactToU8a(input.length), input);
+}
+
+const ED25519_HDKD = compactAddLength(stringToU8a("Ed25519HDKD"));
+const SECP256K1_HDKD = compactAddLength(stringToU8a("Secp256k1HDKD"));
+
+// mini secret of the substrate keys, derived from the mnemonic entropy instead of the bip39 seed
+export function mnemonicToMiniSecret(mnemonic: string, password = ""): Uint8Array {
+    const entropy = base.fromHex(bip39.mnemonicToEntropy(mnemonic));
+    const salt = stringToU8a(`mnemonic${password}`);
+    return base.pbkdf2(base.sha512, entropy, salt, {c: 2048, dkLen: 64}).slice(0, 32);
+}
+
+function junctionChainCode(code: string): Uint8Array {
+    let value: Uint8Array;
+    if (RE_NUMBER.test(code)) {
+        value = bnToU8a(new BN(code, 10), {bitLength: 256, isLe: true});
+    } else if (isHex(code)) {
+        value = base.fromHex(code);
+    } else {
+        value = compactAddLength(stringToU8a(code));
+    }
+    if (value.length > 32) {
+        value = blake2AsU8a(value);
+    }
+    const chainCode = new Uint8Array(32);
+    chainCode.set(value, 0);
+    return chainCode;
+}
+
+// extracts the junctions of a substrate derivation path, "//" hard and "/" soft, e.g. //polkadot//0/1
+export function keyExtractPath(derivePath: string): DeriveJunction[] {
+    const parts = derivePath.match(RE_JUNCTION) || [];
+    if (parts.join("") !== derivePath) {
+        throw new Error(`invalid derivation path ${derivePath}`);
+    }
+    return parts.map((part) => {
+        const isHard = part.startsWith("//");
+        return {chainCode: junctionChainCode(part.substring(isHard ? 2 : 1)), isHard};
+    });
+}
+
+export function keyPairFromSeed(seed: Uint8Array, type: KeyType): KeyPair {
+    if (seed.length !== 32) {
+        throw new Error("invalid seed");
+    }
+    if (type === "ed25519") {
+        return {type, secretKey: seed, publicKey: signUtil.ed25519.publicKeyCreate(seed)};
+    } else if (type === "sr25519") {
+        const secretKey = sr25519SecretFromSeed(seed);
+        return {type, secretKey, publicKey: sr25519PublicKey(secretKey)};
+    } else if (type === "ecdsa") {
+        return {type, secretKey: seed, publicKey: Uint8Array.from(signUtil.secp256k1.publicKeyCreate(seed, true))};
+    }
+    throw new Error(`unknown key type ${type}`);
+}
+
+/**
+ * Creates the key pair of a private key: the 32 bytes seed (ed25519 also accepts seed || public key),
+ * or the 64 bytes secret key for sr25519 keys, as returned by derived key pairs.
+ */
+export function keyPairFromPrivateKey(privateKey: string, type: KeyType): KeyPair {
+    const bytes = base.fromHex(privateKey);
+    if (type === "ed25519" && bytes.length === 64) {
+        return keyPairFromSeed(bytes.slice(0, 32), type);
+    }
+    if (type === "sr25519" && bytes.length === 64) {
+        return {type, secretKey: bytes, publicKey: sr25519PublicKey(bytes)};
+    }
+    return keyPairFromSeed(bytes, type);
+}
+
+function deriveJunction(pair: KeyPair, junction: DeriveJunction): KeyPair {
+    if (pair.type === "sr25519") {
+        const secretKey = junction.isHard
+            ? sr25519DeriveHard(pair.secretKey, junction.chainCode)
+            : sr25519DeriveSoft(pair.secretKey, junction.chainCode);
+        return {type: pair.type, secretKey, publicKey: sr25519PublicKey(secretKey)};
+    }
+    if (!junction.isHard) {
+        throw new Error(`soft derivation is not supported by ${pair.type} keys`);
+    }
+    const prefix = pair.type === "ed25519" ? ED25519_HDKD : SECP256K1_HDKD;
+    return keyPairFromSeed(blake2AsU8a(u8aConcat(prefix, pair.secretKey, junction.chainCode)), pair.type);
+}
+
+export function deriveKeyPair(pair: KeyPair, derivePath: string): KeyPair {
+    return keyExtractPath(derivePath).reduce(deriveJunction, pair);
+}
+
+// ecdsa accounts are the blake2 hash of the compressed public key
+export function publicKeyToAccountId(publicKey: Uint8Array): Uint8Array {
+    return publicKey.length > 32 ? blake2AsU8a(publicKey) : publicKey;
+}
+
+export function keyPairToAddress(pair: KeyPair, ss58Format: number): string {
+    return encodeAddress(publicKeyToAccountId(pair.publicKey), ss58Format);
+}
+
+// ed25519 and sr25519 sign the message, ecdsa signs its blake2 hash as r || s || recovery id
+export function signMessage(message: Uint8Array, pair: KeyPair): Uint8Array {
+    if (pair.type === "ed25519") {
+        return signUtil.ed25519.sign(message, pair.secretKey);
+    } else if (pair.type === "sr25519") {
+        return sr25519Sign(message, pair.secretKey);
+    } else if (pair.type === "ecdsa") {
+        const {signature, recovery} = signUtil.secp256k1.sign(Buffer.from(blake2AsU8a(message)), pair.secretKey);
+        return u8aConcat(signature, [recovery]);
+    }
+    throw new Error(`unknown key type ${pair.type}`);
+}
+
+function verifyEcdsa(message: Uint8Array, signature: Uint8Array, publicKey: Uint8Array): boolean {
+    if (signature.length !== 65 || signature[64] > 3) {
+        return false;
+    }
+    const recovered = signUtil.secp256k1.recover(signature.slice(0, 64), signature[64], blake2AsU8a(message), true);
+    if (!recovered) {
+        return false;
+    }
+    const expected = publicKey.length === 33 ? recovered : blake2AsU8a(recovered);
+    return base.toHex(expected) === base.toHex(publicKey);
+}
+
+function verifyScheme(type: KeyType, message: Uint8Array, signature: Uint8Array, publicKey: Uint8Array): boolean {
+    try {
+        if (type === "ecdsa") {
+            return verifyEcdsa(message, signature, publicKey);
+        }
+        if (signature.length !== 64 || publicKey.length !== 32) {
+            return false;
+        }
+        return type === "ed25519"
+            ? signUtil.ed25519.verify(message, signature, publicKey)
+            : sr25519Verify(message, signature, publicKey);
+    } catch (e) {
+        return false;
+    }
+}
+
+/**
+ * Verifies an ed25519, sr25519 or ecdsa signature, or a MultiSignature prefixed with its scheme.
+ *
+ * @param addressOrPublicKey ss58 address or 0x prefixed public key, ecdsa keys may be given as their 32 bytes account id
+ */
+export function verifySignature(message: Uint8Array, signature: Uint8Array, addressOrPublicKey: string): { isValid: boolean, type?: KeyType } {
+    const publicKey = isHex(addressOrPublicKey)
+        ? base.fromHex(addressOrPublicKey)
+        : decodeAddress(addressOrPublicKey);
+    const candidates: [KeyType, Uint8Array][] = [];
+    if (signature.length === 64) {
+        candidates.push(["sr25519", signature], ["ed25519", signature]);
+    } else if (signature.length === 65) {
+        candidates.push(["ecdsa", signature]);
+    }
+    const types = Object.keys(SignatureType) as KeyType[];
+    const type = types.find((key) => SignatureType[key] === signature[0]);
+    if (type && signature.length === (type === "ecdsa" ? 66 : 65)) {
+        candidates.push([type, signature.slice(1)]);
+    }
+    for (const [candidate, raw] of candidates) {
+        if (verifyScheme(candidate, message, raw, publicKey)) {
+            return {isValid: true, type: candidate};
+        }
+    }
+    return {isValid: false};
+}
@@ -0,0 +1,265 @@
+/**
+ * Runtime metadata v14 and v15, see
+ * https://github.com/paritytech/frame-metadata/tree/main/frame-metadata/src
+ */
+import {base} from "@okxweb3/crypto-lib";
+import {ScaleReader} from "./scale";
+
+// "meta" as little endian u32
+const MAGIC_NUMBER = 0x6174656d;
+
+const PRIMITIVES = ["bool", "char", "str", "u8", "u16", "u32", "u64", "u128", "u256", "i8", "i16", "i32", "i64", "i128", "i256"] as const;
+
+export type Primitive = typeof PRIMITIVES[number]
+
+export interface Field {
+    name?: string,
+    type: number,
+    typeName?: string,
+}
+
+export interface Variant {
+    name: string,
+    fields: Field[],
+    index: number,
+}
+
+export type TypeDef =
+    | { kind: "composite", fields: Field[] }
+    | { kind: "variant", variants: Variant[] }
+    | { kind: "sequence", type: number }
+    | { kind: "array", length: number, type: number }
+    | { kind: "tuple", types: number[] }
+    | { kind: "primitive", primitive: Primitive }
+    | { kind: "compact", type: number }
+    | { kind: "bitSequence", storeType: number, orderType: number }
+
+export interface PortableType {
+    id: number,
+    path: string[],
+    params: { name: string, type?: number }[],
+    def: TypeDef,
+}
+
+export interface StorageEntry {
+    name: string,
+    // key type of maps
+    key?: number,
+    hashers: string[],
+    value: number,
+}
+
+export interface PalletMetadata {
+    name: string,
+    index: number,
+    calls?: number,
+    events?: number,
+    errors?: number,
+    storage: StorageEntry[],
+    constants: { name: string, type: number, value: Uint8Array }[],
+}
+
+export interface SignedExtensionMetadata {
+    identifier: string,
+    type: number,
+    additionalSigned: number,
+}
+
+export interface ExtrinsicMetadata {
+    version: number,
+    addressType: number,
+    callType: number,
+    signatureType: number,
+    extraType: number,
+    signedExtensions: SignedExtensionMetadata[],
+}
+
+export interface RuntimeMetadata {
+    version: 14 | 15,
+    // indexed by type id
+    types: PortableType[],
+    pallets: PalletMetadata[],
+    extrinsic: ExtrinsicMetadata,
+}
+
+const STORAGE_HASHERS = ["Blake2_128", "Blake2_256", "Blake2_128Concat", "Twox128", "Twox256", "Twox64Concat", "Identity"];
+
+function readDocs(reader: ScaleReader) {
+    reader.vec((r) => r.string());
+}
+
+function readField(reader: ScaleReader): Field {
+    const name = reader.option((r) => r.string());
+    const type = reader.compactNumber();
+    const typeName = reader.option((r) => r.string());
+    readDocs(reader);
+    return {name, type, typeName};
+}
+
+function readTypeDef(reader: ScaleReader): TypeDef {
+    const kind = reader.u8();
+    switch (kind) {
+        case 0:
+            return {kind: "composite", fields: reader.vec(readField)};
+        case 1:
+            return {
+                kind: "variant",
+                variants: reader.vec((r) => {
+                    const name = r.string();
+                    const fields = r.vec(readField);
+                    const index = r.u8();
+                    readDocs(r);
+                    return {name, fields, index};
+                }),
+            };
+        case 2:
+            return {kind: "sequence", type: reader.compactNumber()};
+        case 3:
+            return {kind: "array", length: reader.u32(), type: reader.compactNumber()};
+        case 4:
+            return {kind: "tuple", types: reader.vec((r) => r.compactNumber())};
+        case 5: {
+            const primitive = PRIMITIVES[reader.u8()];
+            if (!primitive) {
+                throw new Error("invalid primitive type");
+            }
+            return {kind: "primitive", primitive};
+        }
+        case 6:
+            return {kind: "compact", type: reader.compactNumber()};
+        case 7:
+            return {kind: "bitSequence", storeType: reader.compactNumber(), orderType: reader.compactNumber()};
+    }
+    throw new Error(`invalid type definition ${kind}`);
+}
+
+function readPortableType(reader: ScaleReader): PortableType {
+    const id = reader.compactNumber();
+    const path = reader.vec((r) => r.string());
+    const params = reader.vec((r) => ({name: r.string(), type: r.option((o) => o.compactNumber())}));
+    const def = readTypeDef(reader);
+    readDocs(reader);
+    return {id, path, params, def};
+}
+
+function readStorageEntry(reader: ScaleReader): StorageEntry {
+    const name = reader.string();
+    // modifier: Optional or Default
+    reader.u8();
+    let entry: StorageEntry;
+    if (reader.u8() === 0) {
+        entry = {name, hashers: [], value: reader.compactNumber()};
+    } else {
+        const hashers = reader.vec((r) => STORAGE_HASHERS[r.u8()]);
+        const key = reader.compactNumber();
+        entry = {name, key, hashers, value: reader.compactNumber()};
+    }
+    // default value
+    reader.vecU8();
+    readDocs(reader);
+    return entry;
+}
+
+function readPallet(reader: ScaleReader, version: number): PalletMetadata {
+    const name = reader.string();
+    const storage = reader.option((r) => {
+        r.string();
+        return r.vec(readStorageEntry);
+    });
+    const calls = reader.option((r) => r.compactNumber());
+    const events = reader.option((r) => r.compactNumber());
+    const constants = reader.vec((r) => {
+        const constant = {name: r.string(), type: r.compactNumber(), value: r.vecU8()};
+        readDocs(r);
+        return constant;
+    });
+    const errors = reader.option((r) => r.compactNumber());
+    const index = reader.u8();
+    if (version >= 15) {
+        readDocs(reader);
+    }
+    return {name, index, calls, events, errors, storage: storage || [], constants};
+}
+
+function readSignedExtension(reader: ScaleReader): SignedExtensionMetadata {
+    return {identifier: reader.string(), type: reader.compactNumber(), additionalSigned: reader.compactNumber()};
+}
+
+function hasMagicNumber(bytes: Uint8Array): boolean {
+    return bytes.length > 4 && new ScaleReader(bytes).int(32).toNumber() === MAGIC_NUMBER;
+}
+
+/**
+ * Decodes the SCALE encoded runtime metadata, as returned by state_getMetadata,
+ * or by the Metadata_metadata_at_version runtime api (Option<OpaqueMetadata>).
+ */
+export function decodeMetadata(data: string | Uint8Array): RuntimeMetadata {
+    let bytes = typeof data === "string" ? base.fromHex(data) : data;
+    if (!hasMagicNumber(bytes) && bytes[0] === 1) {
+        bytes = new ScaleReader(bytes, 1).vecU8();
+    }
+    if (!hasMagicNumber(bytes)) {
+        throw new Error("invalid metadata");
+    }
+    const reader = new ScaleReader(bytes, 4);
+    const version = reader.u8();
+    if (version !== 14 && version !== 15) {
+        throw new Error(`unsupported metadata version ${version}`);
+    }
+
+    const types: PortableType[] = [];
+    for (const type of reader.vec(readPortableType)) {
+        types[type.id] = type;
+    }
+    const pallets = reader.vec((r) => readPallet(r, version));
+
+    let extrinsic: ExtrinsicMetadata;
+    if (version === 14) {
+        const type = reader.compactNumber();
+        const extrinsicVersion = reader.u8();
+        const signedExtensions = reader.vec(readSignedExtension);
+        // the types are the generic parameters of UncheckedExtrinsic
+        const param = (name: string) => {
+            const found = types[type].params.find((p) => p.name === name);
+            if (!found || found.type === undefined) {
+                throw new Error(`missing extrinsic type ${name}`);
+            }
+            return found.type;
+        };
+        extrinsic = {
+            version: extrinsicVersion,
+            addressType: param("Address"),
+            callType: param("Call"),
+            signatureType: param("Signature"),
+            extraType: param("Extra"),
+            signedExtensions,
+        };
+    } else {
+        extrinsic = {
+            version: reader.u8(),
+            addressType: reader.compactNumber(),
+            callType: reader.compactNumber(),
+            signatureType: reader.compactNumber(),
+            extraType: reader.compactNumber(),
+            signedExtensions: reader.vec(readSignedExtension),
+        };
+    }
+    // the remaining runtime type, apis, outer enums and custom values are not needed to build extrinsics
+    return {version, types, pallets, extrinsic};
+}
+
+export function getType(metadata: RuntimeMetadata, id: number): PortableType {
+    const type = metadata.types[id];
+    if (!type) {
+        throw new Error(`unknown type ${id}`);
+    }
+    return type;
+}
+
+export function getPallet(metadata: RuntimeMetadata, name: string): PalletMetadata {
+    const pallet = metadata.pallets.find((p) => p.name === name);
+    if (!pallet) {
+        throw new Error(`unknown pallet ${name}`);
+    }
+    return pallet;
+}
@@ -0,0 +1,111 @@
+import {BN} from "@okxweb3/crypto-lib";
+import {bnToU8a} from "./bn";
+import {compactToU8a, u8aConcat} from "./u8a";
+import {stringToU8a} from "./string";
+
+// sequential reader of SCALE encoded data
+export class ScaleReader {
+    readonly data: Uint8Array;
+    offset: number;
+
+    constructor(data: Uint8Array, offset = 0) {
+        this.data = data;
+        this.offset = offset;
+    }
+
+    get remaining(): number {
+        return this.data.length - this.offset;
+    }
+
+    bytes(length: number): Uint8Array {
+        if (length < 0 || this.offset + length > this.data.length) {
+            throw new Error(`unexpected end of input at offset ${this.offset}`);
+        }
+        const value = this.data.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return value;
+    }
+
+    u8(): number {
+        return this.bytes(1)[0];
+    }
+
+    bool(): boolean {
+        const value = this.u8();
+        if (value > 1) {
+            throw new Error(`invalid bool ${value}`);
+        }
+        return value === 1;
+    }
+
+    // unsigned or two's complement integer of bitLength bits
+    int(bitLength: number, isSigned = false): BN {
+        const value = new BN(this.bytes(bitLength / 8), "le");
+        return isSigned ? value.fromTwos(bitLength) : value;
+    }
+
+    u32(): number {
+        return this.int(32).toNumber();
+    }
+
+    compact(): BN {
+        const first = this.data[this.offset];
+        switch (first & 0b11) {
+            case 0b00:
+                return new BN(this.u8() >> 2);
+            case 0b01:
+                return this.int(16).shrn(2);
+            case 0b10:
+                return this.int(32).shrn(2);
+            default:
+                this.offset++;
+                return new BN(this.bytes((first >> 2) + 4), "le");
+        }
+    }
+
+    // compact value used as length or index
+    compactNumber(): number {
+        const value = this.compact();
+        if (value.bitLength() > 32) {
+            throw new Error(`compact value ${value.toString()} out of range`);
+        }
+        return value.toNumber();
+    }
+
+    // Vec<u8>
+    vecU8(): Uint8Array {
+        return this.bytes(this.compactNumber());
+    }
+
+    string(): string {
+        return Buffer.from(this.vecU8()).toString("utf8");
+    }
+
+    option<T>(read: (reader: ScaleReader) => T): T | undefined {
+        return this.bool() ? read(this) : undefined;
+    }
+
+    vec<T>(read: (reader: ScaleReader) => T): T[] {
+        const length = this.compactNumber();
+        const result: T[] = [];
+        for (let i = 0; i < length; i++) {
+            result.push(read(this));
+        }
+        return result;
+    }
+}
+
+export function encodeInt(value: BN, bitLength: number, isSigned = false): Uint8Array {
+    const min = isSigned ? new BN(1).shln(bitLength - 1).neg() : new BN(0);
+    const max = new BN(1).shln(isSigned ? bitLength - 1 : bitLength);
+    if (value.lt(min) || value.gte(max)) {
+        throw new Error(`${value.toString()} out of range for ${isSigned ? "i" : "u"}${bitLength}`);
+    }
+    return bnToU8a(value, {bitLength, isLe: true, isNegative: isSigned});
+}
+
+// Vec<u8> and String: compact length prefix
+export function encodeVecU8(value: Uint8Array | string): Uint8Array {
+    const bytes = typeof value === "string" ? stringToU8a(value) : value;
+    return u8aConcat(compactToU8a(bytes.length), bytes);
+}
@@ -0,0 +1,331 @@
+/**
+ * The following methods are based on `scure-sr25519`, thanks for their work
+ * https://github.com/paulmillr/scure-sr25519
+ *
+ * sr25519 (Schnorrkel) keys, signatures and HDKD over ristretto255, see
+ * https://github.com/w3f/schnorrkel
+ */
+import {base, ed25519} from "@okxweb3/crypto-lib";
+import {u8aConcat} from "./u8a";
+
+const RistrettoPoint = ed25519.RistrettoPoint;
+type Point = InstanceType<typeof RistrettoPoint>;
+type Data = string | Uint8Array;
+
+const CURVE_ORDER = ed25519.CURVE.l;
+const MASK = (BigInt(1) << BigInt(256)) - BigInt(1);
+const EMPTY = new Uint8Array(0);
+const SUBSTRATE_CONTEXT = base.toUtf8("substrate");
+
+function toData(data: Data): Uint8Array {
+    return typeof data === "string" ? base.toUtf8(data) : data;
+}
+
+function modN(n: bigint): bigint {
+    const result = n % CURVE_ORDER;
+    return result >= BigInt(0) ? result : result + CURVE_ORDER;
+}
+
+function bytesToNumberLE(bytes: Uint8Array): bigint {
+    let result = BigInt(0);
+    for (let i = bytes.length - 1; i >= 0; i--) {
+        result = (result << BigInt(8)) | BigInt(bytes[i]);
+    }
+    return result;
+}
+
+function numberToBytesLE(n: bigint | number, length: number): Uint8Array {
+    let value = BigInt(n);
+    const bytes = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+        bytes[i] = Number(value & BigInt(0xff));
+        value >>= BigInt(8);
+    }
+    return bytes;
+}
+
+function checkLength(title: string, bytes: Uint8Array, length: number) {
+    if (!(bytes instanceof Uint8Array) || bytes.length !== length) {
+        throw new Error(`${title}: expected ${length} bytes`);
+    }
+}
+
+// the secret key scalar is kept multiplied by the cofactor, as in schnorrkel's ed25519 compatible encoding
+const encodeScalar = (n: bigint) => numberToBytesLE((n << BigInt(3)) & MASK, 32);
+const decodeScalar = (bytes: Uint8Array) => bytesToNumberLE(bytes) >> BigInt(3);
+
+// STROBE-128 subset used by Merlin, https://strobe.sourceforge.io/specs/
+const STROBE_R = 166;
+const FLAG_I = 1;
+const FLAG_A = 1 << 1;
+const FLAG_C = 1 << 2;
+const FLAG_T = 1 << 3;
+const FLAG_M = 1 << 4;
+const FLAG_K = 1 << 5;
+
+class Strobe128 {
+    state = new Uint8Array(200);
+    state32: Uint32Array;
+    pos = 0;
+    posBegin = 0;
+    curFlags = 0;
+
+    constructor(protocolLabel: Data) {
+        this.state.set([1, STROBE_R + 2, 1, 0, 1, 96], 0);
+        this.state.set(base.toUtf8("STROBEv1.0.2"), 6);
+        this.state32 = new Uint32Array(this.state.buffer, this.state.byteOffset, 50);
+        base.keccakP(this.state32);
+        this.metaAD(protocolLabel, false);
+    }
+
+    private runF() {
+        this.state[this.pos] ^= this.posBegin;
+        this.state[this.pos + 1] ^= 0x04;
+        this.state[STROBE_R + 1] ^= 0x80;
+        base.keccakP(this.state32);
+        this.pos = 0;
+        this.posBegin = 0;
+    }
+
+    private absorb(data: Uint8Array) {
+        for (let i = 0; i < data.length; i++) {
+            this.state[this.pos++] ^= data[i];
+            if (this.pos === STROBE_R) this.runF();
+        }
+    }
+
+    private squeeze(length: number): Uint8Array {
+        const data = new Uint8Array(length);
+        for (let i = 0; i < length; i++) {
+            data[i] = this.state[this.pos];
+            this.state[this.pos++] = 0;
+            if (this.pos === STROBE_R) this.runF();
+        }
+        return data;
+    }
+
+    private overwrite(data: Uint8Array) {
+        for (let i = 0; i < data.length; i++) {
+            this.state[this.pos++] = data[i];
+            if (this.pos === STROBE_R) this.runF();
+        }
+    }
+
+    private beginOp(flags: number, more: boolean) {
+        if (more) {
+            if (this.curFlags !== flags) {
+                throw new Error("strobe: continued operation with different flags");
+            }
+            return;
+        }
+        if ((flags & FLAG_T) !== 0) {
+            throw new Error("strobe: transport operations are not supported");
+        }
+        const oldBegin = this.posBegin;
+        this.posBegin = this.pos + 1;
+        this.curFlags = flags;
+        this.absorb(new Uint8Array([oldBegin, flags]));
+        if ((flags & (FLAG_C | FLAG_K)) !== 0 && this.pos !== 0) {
+            this.runF();
+        }
+    }
+
+    metaAD(data: Data, more: boolean) {
+        this.beginOp(FLAG_M | FLAG_A, more);
+        this.absorb(toData(data));
+    }
+
+    AD(data: Data, more: boolean) {
+        this.beginOp(FLAG_A, more);
+        this.absorb(toData(data));
+    }
+
+    PRF(length: number, more: boolean): Uint8Array {
+        this.beginOp(FLAG_I | FLAG_A | FLAG_C, more);
+        return this.squeeze(length);
+    }
+
+    KEY(data: Data, more: boolean) {
+        this.beginOp(FLAG_A | FLAG_C, more);
+        this.overwrite(toData(data));
+    }
+
+    clone(): Strobe128 {
+        const strobe = new Strobe128("");
+        strobe.state.set(this.state);
+        strobe.pos = this.pos;
+        strobe.posBegin = this.posBegin;
+        strobe.curFlags = this.curFlags;
+        return strobe;
+    }
+}
+
+// Merlin transcripts, https://merlin.cool
+class Transcript {
+    strobe = new Strobe128("Merlin v1.0");
+
+    constructor(label: Data) {
+        this.appendMessage("dom-sep", label);
+    }
+
+    appendMessage(label: Data, message: Data) {
+        const data = toData(message);
+        this.strobe.metaAD(label, false);
+        this.strobe.metaAD(numberToBytesLE(data.length, 4), true);
+        this.strobe.AD(data, false);
+    }
+
+    challengeBytes(label: Data, length: number): Uint8Array {
+        this.strobe.metaAD(label, false);
+        this.strobe.metaAD(numberToBytesLE(length, 4), true);
+        return this.strobe.PRF(length, false);
+    }
+
+    challengeScalar(label: Data): bigint {
+        return modN(bytesToNumberLE(this.challengeBytes(label, 64)));
+    }
+
+    commitPoint(label: Data, point: Point) {
+        this.appendMessage(label, point.toRawBytes());
+    }
+
+    // transcript rng seeded with the secret nonces and fresh randomness
+    witnessBytes(label: Data, length: number, nonceSeeds: Uint8Array[], random: Uint8Array): Uint8Array {
+        const strobe = this.strobe.clone();
+        for (const nonceSeed of nonceSeeds) {
+            strobe.metaAD(label, false);
+            strobe.metaAD(numberToBytesLE(nonceSeed.length, 4), true);
+            strobe.KEY(nonceSeed, false);
+        }
+        strobe.metaAD("rng", false);
+        strobe.KEY(random, false);
+        strobe.metaAD(numberToBytesLE(length, 4), false);
+        return strobe.PRF(length, false);
+    }
+
+    witnessScalar(label: Data, nonceSeeds: Uint8Array[], random: Uint8Array): bigint {
+        return modN(bytesToNumberLE(this.witnessBytes(label, 64, nonceSeeds, random)));
+    }
+}
+
+function signingTranscript(context: Data, message: Uint8Array): Transcript {
+    const transcript = new Transcript("SigningContext");
+    transcript.appendMessage("", context);
+    transcript.appendMessage("sign-bytes", message);
+    return transcript;
+}
+
+function hdkdTranscript(chainCode: Uint8Array): Transcript {
+    checkLength("chainCode", chainCode, 32);
+    const transcript = new Transcript("SchnorrRistrettoHDKD");
+    transcript.appendMessage("sign-bytes", EMPTY);
+    transcript.appendMessage("chain-code", chainCode);
+    return transcript;
+}
+
+/**
+ * Expands a 32 bytes mini secret key to the 64 bytes secret key (key || nonce), using the ed25519 expansion mode
+ * of the substrate keys.
+ */
+export function sr25519SecretFromSeed(seed: Uint8Array): Uint8Array {
+    checkLength("seed", seed, 32);
+    const hash = base.sha512(seed);
+    hash[0] &= 248;
+    hash[31] &= 63;
+    hash[31] |= 64;
+    return u8aConcat(encodeScalar(decodeScalar(hash.subarray(0, 32))), hash.subarray(32, 64));
+}
+
+export function sr25519PublicKey(secretKey: Uint8Array): Uint8Array {
+    checkLength("secretKey", secretKey, 64);
+    return RistrettoPoint.BASE.multiply(decodeScalar(secretKey.subarray(0, 32))).toRawBytes();
+}
+
+export function sr25519Sign(message: Uint8Array, secretKey: Uint8Array, random: Uint8Array = base.randomBytes(32)): Uint8Array {
+    checkLength("secretKey", secretKey, 64);
+    checkLength("random", random, 32);
+    const keyScalar = decodeScalar(secretKey.subarray(0, 32));
+    const publicKey = RistrettoPoint.BASE.multiply(keyScalar);
+
+    const transcript = signingTranscript(SUBSTRATE_CONTEXT, message);
+    transcript.appendMessage("proto-name", "Schnorr-sig");
+    transcript.commitPoint("sign:pk", publicKey);
+    const r = transcript.witnessScalar("signing", [secretKey.subarray(32, 64)], random);
+    const R = RistrettoPoint.BASE.multiply(r);
+    transcript.commitPoint("sign:R", R);
+    const k = transcript.challengeScalar("sign:c");
+    const s = modN(k * keyScalar + r);
+
+    const signature = u8aConcat(R.toRawBytes(), numberToBytesLE(s, 32));
+    // schnorrkel marker, distinguishes the signatures from the ed25519 ones
+    signature[63] |= 128;
+    return signature;
+}
+
+export function sr25519Verify(message: Uint8Array, signature: Uint8Array, publicKey: Uint8Array): boolean {
+    checkLength("signature", signature, 64);
+    checkLength("publicKey", publicKey, 32);
+    if ((signature[63] & 128) === 0) {
+        return false;
+    }
+    const sBytes = Uint8Array.from(signature.subarray(32, 64));
+    sBytes[31] &= 127;
+    const s = bytesToNumberLE(sBytes);
+    if (s >= CURVE_ORDER) {
+        return false;
+    }
+    let R: Point;
+    let publicPoint: Point;
+    try {
+        R = RistrettoPoint.fromHex(signature.subarray(0, 32));
+        publicPoint = RistrettoPoint.fromHex(publicKey);
+    } catch (e) {
+        return false;
+    }
+    if (publicPoint.equals(RistrettoPoint.ZERO)) {
+        return false;
+    }
+
+    const transcript = signingTranscript(SUBSTRATE_CONTEXT, message);
+    transcript.appendMessage("proto-name", "Schnorr-sig");
+    transcript.commitPoint("sign:pk", publicPoint);
+    transcript.commitPoint("sign:R", R);
+    const k = transcript.challengeScalar("sign:c");
+    // R = s * B - k * A
+    return RistrettoPoint.BASE.multiplyUnsafe(s).subtract(publicPoint.multiplyUnsafe(k)).equals(R);
+}
+
+export function sr25519DeriveHard(secretKey: Uint8Array, chainCode: Uint8Array): Uint8Array {
+    checkLength("secretKey", secretKey, 64);
+    const transcript = hdkdTranscript(chainCode);
+    transcript.appendMessage("secret-key", numberToBytesLE(decodeScalar(secretKey.subarray(0, 32)), 32));
+    return sr25519SecretFromSeed(transcript.challengeBytes("HDKD-hard", 32));
+}
+
+function softScalar(publicPoint: Point, chainCode: Uint8Array): bigint {
+    const transcript = hdkdTranscript(chainCode);
+    transcript.commitPoint("public-key", publicPoint);
+    return transcript.challengeScalar("HDKD-scalar");
+}
+
+export function sr25519DerivePublicSoft(publicKey: Uint8Array, chainCode: Uint8Array): Uint8Array {
+    checkLength("publicKey", publicKey, 32);
+    const publicPoint = RistrettoPoint.fromHex(publicKey);
+    return publicPoint.add(RistrettoPoint.BASE.multiply(softScalar(publicPoint, chainCode))).toRawBytes();
+}
+
+// the nonce of a soft derived key is randomized, as in schnorrkel, only the key scalar is deterministic
+export function sr25519DeriveSoft(secretKey: Uint8Array, chainCode: Uint8Array, random: Uint8Array = base.randomBytes(32)): Uint8Array {
+    checkLength("secretKey", secretKey, 64);
+    const keyScalar = decodeScalar(secretKey.subarray(0, 32));
+    const nonce = secretKey.subarray(32, 64);
+    const publicPoint = RistrettoPoint.BASE.multiply(keyScalar);
+
+    const transcript = hdkdTranscript(chainCode);
+    transcript.commitPoint("public-key", publicPoint);
+    const scalar = transcript.challengeScalar("HDKD-scalar");
+    transcript.challengeBytes("HDKD-chaincode", 32);
+    const nonceSeed = u8aConcat(numberToBytesLE(keyScalar, 32), nonce);
+    const derivedNonce = transcript.witnessBytes("HDKD-nonce", 32, [nonce, nonceSeed], random);
+    return u8aConcat(encodeScalar(modN(keyScalar + scalar)), derivedNonce);
+}
@@ -1,8 +1,9 @@
 import {Buffer} from "buffer";
-import {base, signUtil, BN} from "@okxweb3/crypto-lib";
+import {base, BN} from "@okxweb3/crypto-lib";
 import {BN_ZERO} from "./const";
 import {address2Public} from "./address";
-import {compactToU8a} from "./u8a";
+import {blake2AsU8a, compactToU8a} from "./u8a";
+import {keyPairFromPrivateKey, KeyType, signMessage, SignatureType} from "./keypair";
 
 // input structure
 export interface TxStruct {
@@ -41,14 +42,16 @@ export enum TxType {
 }
 
 // construct transaction and signed, return signature hex
-export function SignTx(tx: TxStruct, txType: TxType, privateKey: string): string {
+export function SignTx(tx: TxStruct, txType: TxType, privateKey: string, keyType: KeyType = "ed25519"): string {
     const unSignedTx = UnSignedTxFromTxStruct(tx, txType)
     const message = UnSignedTxToString(unSignedTx)
 
-    const payload = base.fromHex(message)
-    const pk = base.fromHex(privateKey)
-
-    const signature = signUtil.ed25519.sign(payload, pk)
+    let payload: Uint8Array = base.fromHex(message)
+    // payloads longer than 256 bytes are signed by their blake2 hash
+    if (payload.length > 256) {
+        payload = blake2AsU8a(payload)
+    }
+    const signature = signMessage(payload, keyPairFromPrivateKey(privateKey, keyType))
 
     const bufferList = []
     const version = base.fromHex(tx.Version)
@@ -56,7 +59,7 @@ export function SignTx(tx: TxStruct, txType: TxType, privateKey: string): string
     bufferList.push(Buffer.from([0x00]))
     const from = address2Public(tx.From)
     bufferList.push(Buffer.from(from))
-    bufferList.push(Buffer.from([0x00])) //sign type 00:ed25519  01:sr25519  02:ecdsa
+    bufferList.push(Buffer.from([SignatureType[keyType]])) //sign type 00:ed25519  01:sr25519  02:ecdsa
     bufferList.push(Buffer.from(signature))
     bufferList.push(Buffer.from(unSignedTx.Era))
     bufferList.push(Buffer.from(unSignedTx.Nonce))
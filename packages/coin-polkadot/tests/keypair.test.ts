@@ -0,0 +1,104 @@
+import {base, BN} from "@okxweb3/crypto-lib"
+import {
+    deriveKeyPair,
+    getNewAddress,
+    keyPairFromPrivateKey,
+    keyPairToAddress,
+    mnemonicToMiniSecret,
+    NetWork,
+    signMessage,
+    SignTx,
+    TxType,
+    verifySignature
+} from "../src";
+
+const seed = "e7cfd179d6537a676cb94bac3b5c5c9cb1550e846ac4541040d077dfbac2e7fd"
+const message = base.toUtf8("hello polkadot")
+
+// expected values generated by @polkadot/util-crypto
+describe("keypair", () => {
+    test("sr25519", async () => {
+        const pair = keyPairFromPrivateKey(seed, "sr25519")
+        expect(base.toHex(pair.secretKey)).toEqual("c8ca89c2d26e472b44d74ca2db4f3ebcc8f9ed6b00243f0e162a46da7335136ac301d84eafa6ef6b600de9b90f9aec4c42c016bddc74373ab130b1ad1287b774")
+        expect(base.toHex(pair.publicKey)).toEqual("f6a233c3e1de1a2ae0486100b460b3ce3d7231ddfe9dadabbd35ab968c70905d")
+        expect(getNewAddress(seed, NetWork.polkadot, "sr25519")).toEqual("16aNxu5fxwZc6TQRYE684T5FBNEsY8i3JKkzgz7TfVxcu3Z7")
+
+        expect(base.toHex(deriveKeyPair(pair, "//hard").publicKey)).toEqual("bc926847d4ca763aca0c16f8f5e7559706f872d9c826517fc534049a0bf98874")
+        expect(base.toHex(deriveKeyPair(pair, "/soft").publicKey)).toEqual("bc51512463b097c492bcde89c06174003b83478c794994bc6ac9efa46f9ed370")
+        expect(getNewAddress(seed, NetWork.polkadot, "sr25519", "//polkadot//0/1/name")).toEqual("15aw9BkJqHavdaQwLemg8crLw4VLxMnwcPp6c3Cr7QGdGTiB")
+
+        // the key pair of a derived secret key
+        const derived = deriveKeyPair(pair, "//polkadot//0/1/name")
+        expect(base.toHex(keyPairFromPrivateKey(base.toHex(derived.secretKey), "sr25519").publicKey)).toEqual("cad2499517404154157bbfd274a86514d42c28890c539f2ae47aad59cf783f30")
+    });
+
+    test("mnemonic", async () => {
+        const miniSecret = mnemonicToMiniSecret("bottom drive obey lake curtain smoke basket hold race lonely fit walk")
+        expect(base.toHex(miniSecret)).toEqual("fac7959dbfe72f052e5a0c3c8d6530f202b02fd8f9f5ca3580ec8deb7797479e")
+        const alice = deriveKeyPair(keyPairFromPrivateKey(base.toHex(miniSecret), "sr25519"), "//Alice")
+        expect(keyPairToAddress(alice, 42)).toEqual("5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY")
+    });
+
+    test("ed25519 and ecdsa", async () => {
+        const ed = keyPairFromPrivateKey(seed, "ed25519")
+        expect(base.toHex(ed.publicKey)).toEqual("212cd18c7bfea080c37dd7b3cbb4d987e1eb778ccb60f3f3e0972909e52bbc4e")
+        const edDerived = deriveKeyPair(ed, "//hard//1")
+        expect(base.toHex(edDerived.secretKey)).toEqual("afeed1bc9e0023043eca57f36636c7f2df5f7c8e1b4c9be4f0621db0a4162c7b")
+        expect(base.toHex(edDerived.publicKey)).toEqual("56070377819cdad357d89dfc5ea7e484894160c04364ba77dd855730f49e3988")
+        expect(getNewAddress(seed, NetWork.polkadot, "ed25519", "//hard//1")).toEqual("12woCgzEPYRUgfvKYSLbpkbjTbmJSwch7bqFMiWqUsWTZth5")
+        expect(() => deriveKeyPair(ed, "/soft")).toThrow()
+
+        const ec = keyPairFromPrivateKey(seed, "ecdsa")
+        expect(base.toHex(ec.publicKey)).toEqual("0255d1fac5994c1dd953c253c7755be8d2396fb8d566e9a8cd2a52a13ddcef865b")
+        const ecDerived = deriveKeyPair(ec, "//hard//1")
+        expect(base.toHex(ecDerived.secretKey)).toEqual("1b6ab15fd3da3bfe777b7c282c7cf72fea38a2c54a99fc8362cae829cd935350")
+        expect(base.toHex(ecDerived.publicKey)).toEqual("03cb1ffa71d56cc0d7e30ecbd3f412c39aa6a9367b11a55af8ef6da3563b040a1c")
+        expect(getNewAddress(seed, NetWork.polkadot, "ecdsa", "//hard//1")).toEqual("1YJmh3bXHjGcX2rqnwbxBDFBHZzFfAKCV289tZUuBhbZJvK")
+        expect(() => getNewAddress(seed, NetWork.polkadot, "ecdsa", "hard")).toThrow()
+    });
+
+    test("sign and verify", async () => {
+        const srAddress = "16aNxu5fxwZc6TQRYE684T5FBNEsY8i3JKkzgz7TfVxcu3Z7"
+        const polkadotJs = base.fromHex("16f295ec5cd2326aacfdee60a6851682f96b09022133ad0d0eb4cba4e12be66d5c24087cbb2c5571b283b7d8fce3c839c904e48ce8a96ae356eaeda955d6148f")
+        expect(verifySignature(message, polkadotJs, srAddress)).toEqual({isValid: true, type: "sr25519"})
+        expect(verifySignature(base.toUtf8("hello kusama"), polkadotJs, srAddress).isValid).toEqual(false)
+
+        const sr = keyPairFromPrivateKey(seed, "sr25519")
+        const srSig = signMessage(message, sr)
+        expect(verifySignature(message, srSig, "0x" + base.toHex(sr.publicKey))).toEqual({isValid: true, type: "sr25519"})
+        // MultiSignature encoded
+        expect(verifySignature(message, base.concatBytes(new Uint8Array([1]), srSig), srAddress)).toEqual({isValid: true, type: "sr25519"})
+
+        const ed = keyPairFromPrivateKey(seed, "ed25519")
+        expect(verifySignature(message, signMessage(message, ed), keyPairToAddress(ed, NetWork.polkadot))).toEqual({isValid: true, type: "ed25519"})
+
+        const ec = keyPairFromPrivateKey(seed, "ecdsa")
+        const ecSig = signMessage(message, ec)
+        expect(base.toHex(ecSig)).toEqual("a157641fe28896c2007a8136ffaa086a267dccc81a91e9251f6e2a13245f76634211997ef33147ec197bd6319248cdad98514135840f82616ae87fa3a759adba01")
+        expect(verifySignature(message, ecSig, keyPairToAddress(ec, NetWork.polkadot))).toEqual({isValid: true, type: "ecdsa"})
+        expect(verifySignature(message, ecSig, "0x" + base.toHex(ec.publicKey))).toEqual({isValid: true, type: "ecdsa"})
+    });
+
+    test("sr25519 tx", async () => {
+        const from = getNewAddress(seed, NetWork.polkadot, "sr25519")
+        const tx = {
+            From:         from,
+            To:           "12VS5aVsZp3qywuC6wjkhAJdkfNp2SC1WPNfoMFevpovCsxr",
+            Amount:       new BN(10000000000),
+            Nonce:        new BN(18),
+            Tip:          new BN(0),
+            BlockHeight:  new BN(10672081),
+            BlockHash:    "569e9705bdcd3cf15edb1378433148d437f585a21ad0e2691f0d8c0083021580",
+            GenesisHash:  "91b171bb158e2d3848fa23a9f1c25182fb8e20313b2c1eb49219da7a70ce90c3",
+            SpecVersion:  9220,
+            TxVersion:    12,
+            ModuleMethod: "0500",
+            Version:      "84",
+        }
+        const signed = base.fromHex(SignTx(tx, TxType.Transfer, seed, "sr25519"))
+        // compact length, version, address type, public key, signature type
+        expect(signed[2]).toEqual(0x84)
+        expect(base.toHex(signed.slice(4, 36))).toEqual("f6a233c3e1de1a2ae0486100b460b3ce3d7231ddfe9dadabbd35ab968c70905d")
+        expect(signed[36]).toEqual(1)
+    });
+});
@@ -0,0 +1,152 @@
+import {base, BN} from "@okxweb3/crypto-lib"
+import {
+    createSigningPayload,
+    decodeCall,
+    decodeMetadata,
+    decodeSigningPayload,
+    encodeCall,
+    GetEra,
+    mortalEra,
+    signExtrinsic,
+    verifySignature
+} from "../src";
+
+const privateKey = "e7cfd179d6537a676cb94bac3b5c5c9cb1550e846ac4541040d077dfbac2e7fd"
+const dest = "12VS5aVsZp3qywuC6wjkhAJdkfNp2SC1WPNfoMFevpovCsxr"
+const options = {
+    nonce: 18,
+    tip: 0,
+    blockHash: "0x569e9705bdcd3cf15edb1378433148d437f585a21ad0e2691f0d8c0083021580",
+    blockNumber: 10672081,
+    genesisHash: "0x91b171bb158e2d3848fa23a9f1c25182fb8e20313b2c1eb49219da7a70ce90c3",
+    specVersion: 1002000,
+    transactionVersion: 26,
+}
+const transferArgs = {dest, value: 10000000000}
+
+// expected values generated by @polkadot/api, the metadata are the polkadot v14 and substrate v15 metadata
+// of @polkadot/types-support trimmed to a few pallets
+describe("metadata", () => {
+    test("decodeMetadata", async () => {
+        const metadata = decodeMetadata(POLKADOT_V14)
+        expect(metadata.version).toEqual(14)
+        expect(metadata.pallets.map((p) => p.name)).toEqual(["System", "Balances", "Staking", "Utility", "XcmPallet"])
+        expect(metadata.extrinsic.version).toEqual(4)
+        expect(metadata.extrinsic.signedExtensions.map((e) => e.identifier)).toEqual([
+            "CheckNonZeroSender", "CheckSpecVersion", "CheckTxVersion", "CheckGenesis", "CheckMortality",
+            "CheckNonce", "CheckWeight", "ChargeTransactionPayment", "PrevalidateAttests", "CheckMetadataHash",
+        ])
+        const account = metadata.pallets[0].storage.find((s) => s.name === "Account")!
+        expect(account.hashers).toEqual(["Blake2_128Concat"])
+
+        const v15 = decodeMetadata(SUBSTRATE_V15)
+        expect(v15.version).toEqual(15)
+        expect(v15.pallets.find((p) => p.name === "Assets")!.index).toEqual(39)
+
+        // Option<OpaqueMetadata> returned by Metadata_metadata_at_version
+        const length = Buffer.alloc(4)
+        length.writeUInt32LE(((POLKADOT_V14.length - 2) / 2) << 2 | 0b10)
+        const opaque = decodeMetadata("0x01" + length.toString("hex") + POLKADOT_V14.substring(2))
+        expect(opaque.pallets.length).toEqual(5)
+        expect(() => decodeMetadata("0x00")).toThrow("invalid metadata")
+    });
+
+    test("encodeCall", async () => {
+        const metadata = decodeMetadata(POLKADOT_V14)
+        const transfer = encodeCall(metadata, "Balances", "transfer_keep_alive", transferArgs)
+        expect(base.toHex(transfer, true)).toEqual("0x05030041eb872825006874a009724c7a2f36cd73e676afd0f7703a06d0edbcb27197ab0700e40b5402")
+        expect(decodeCall(metadata, transfer, {ss58Format: 0})).toEqual({
+            pallet: "Balances",
+            method: "transfer_keep_alive",
+            args: {dest: {Id: dest}, value: "10000000000"},
+        })
+
+        const bond = encodeCall(metadata, "Staking", "bond", {value: "1000000000000", payee: {Account: dest}})
+        expect(base.toHex(bond, true)).toEqual("0x0700070010a5d4e80341eb872825006874a009724c7a2f36cd73e676afd0f7703a06d0edbcb27197ab")
+        const nominate = encodeCall(metadata, "Staking", "nominate", {targets: [dest, {Id: "16aNxu5fxwZc6TQRYE684T5FBNEsY8i3JKkzgz7TfVxcu3Z7"}]})
+        expect(base.toHex(nominate, true)).toEqual("0x0705080041eb872825006874a009724c7a2f36cd73e676afd0f7703a06d0edbcb27197ab00f6a233c3e1de1a2ae0486100b460b3ce3d7231ddfe9dadabbd35ab968c70905d")
+
+        const batch = encodeCall(metadata, "Utility", "batch_all", {
+            calls: [
+                {pallet: "Balances", method: "transfer_keep_alive", args: transferArgs},
+                {pallet: "System", method: "remark", args: {remark: "hello"}},
+            ],
+        })
+        expect(base.toHex(batch, true)).toEqual("0x1a020805030041eb872825006874a009724c7a2f36cd73e676afd0f7703a06d0edbcb27197ab0700e40b540200001468656c6c6f")
+        expect(decodeCall(metadata, batch).args.calls[1]).toEqual({pallet: "System", method: "remark", args: {remark: "0x68656c6c6f"}})
+
+        const xcmArgs = {
+            dest: {V3: {parents: 0, interior: {X1: {Parachain: 1000}}}},
+            beneficiary: {V3: {parents: 0, interior: {X1: {AccountId32: {network: null, id: "0xf6a233c3e1de1a2ae0486100b460b3ce3d7231ddfe9dadabbd35ab968c70905d"}}}}},
+            assets: {V3: [{id: {Concrete: {parents: 0, interior: "Here"}}, fun: {Fungible: "10000000000"}}]},
+            fee_asset_item: 0,
+            weight_limit: "Unlimited",
+        }
+        const xcm = encodeCall(metadata, "XcmPallet", "limited_reserve_transfer_assets", xcmArgs)
+        expect(base.toHex(xcm, true)).toEqual("0x630803000100a10f0300010100f6a233c3e1de1a2ae0486100b460b3ce3d7231ddfe9dadabbd35ab968c70905d0304000000000700e40b54020000000000")
+        expect(decodeCall(metadata, xcm).args).toEqual(xcmArgs)
+
+        expect(() => encodeCall(metadata, "Balances", "transfer", transferArgs)).toThrow("unknown call")
+        expect(() => encodeCall(metadata, "Balances", "transfer_keep_alive", {dest})).toThrow("missing field value")
+        expect(() => encodeCall(metadata, "Staking", "bond", {value: "-1", payee: "Staked"})).toThrow()
+    });
+
+    test("signExtrinsic", async () => {
+        const metadata = decodeMetadata(POLKADOT_V14)
+        const transfer = encodeCall(metadata, "Balances", "transfer_keep_alive", transferArgs)
+        expect(mortalEra(options.blockNumber)).toEqual(GetEra(new BN(options.blockNumber)))
+
+        expect(base.toHex(createSigningPayload(metadata, transfer, options), true)).toEqual("0x05030041eb872825006874a009724c7a2f36cd73e676afd0f7703a06d0edbcb27197ab0700e40b54021501480000104a0f001a00000091b171bb158e2d3848fa23a9f1c25182fb8e20313b2c1eb49219da7a70ce90c3569e9705bdcd3cf15edb1378433148d437f585a21ad0e2691f0d8c008302158000")
+        expect(signExtrinsic(metadata, transfer, options, privateKey)).toEqual("0x45028400212cd18c7bfea080c37dd7b3cbb4d987e1eb778ccb60f3f3e0972909e52bbc4e004833b248471ab44b1f3beaca229eb3fe2da5107c67eca5bab50be5be2ca8f4e1f0f2de1e90441fb82c825390c69e8cac11776293f23e5b0ccd5803c0403ca000150148000005030041eb872825006874a009724c7a2f36cd73e676afd0f7703a06d0edbcb27197ab0700e40b5402")
+        expect(signExtrinsic(metadata, transfer, options, privateKey, "ecdsa")).toEqual("0x49028400f6dca6b1bde93ffa0bb411d0c930cf9bbdc9c768368c24d50b16664c947982a90263561cdd8121697f7e25c831093904bf7869f153d051f165d20282de9cbcaaa65f1c5d86145fb1cd96697d63f32b32482cde36d68db541cc51a8917e3ddee2cb00150148000005030041eb872825006874a009724c7a2f36cd73e676afd0f7703a06d0edbcb27197ab0700e40b5402")
+
+        const withHash = {...options, tip: 5000, metadataHash: "0x" + "ab".repeat(32)}
+        const payload = createSigningPayload(metadata, transfer, withHash)
+        expect(base.toHex(payload, true)).toEqual("0x05030041eb872825006874a009724c7a2f36cd73e676afd0f7703a06d0edbcb27197ab0700e40b5402150148214e01104a0f001a00000091b171bb158e2d3848fa23a9f1c25182fb8e20313b2c1eb49219da7a70ce90c3569e9705bdcd3cf15edb1378433148d437f585a21ad0e2691f0d8c008302158001abababababababababababababababababababababababababababababababab")
+        expect(signExtrinsic(metadata, transfer, withHash, privateKey)).toEqual("0x49028400212cd18c7bfea080c37dd7b3cbb4d987e1eb778ccb60f3f3e0972909e52bbc4e000e451d9f9a90a87cc44b440e99ddc2b58d01d0b9966622b3d55aca0503d2c299d82d87d7bd3b559d349f4362908f7bdd71910adc006d4f78744b333af979f80d150148214e0105030041eb872825006874a009724c7a2f36cd73e676afd0f7703a06d0edbcb27197ab0700e40b5402")
+        expect(decodeSigningPayload(metadata, payload, {ss58Format: 0})).toEqual({
+            call: {pallet: "Balances", method: "transfer_keep_alive", args: {dest: {Id: dest}, value: "10000000000"}},
+            extra: {
+                CheckMortality: {period: 64, phase: 17},
+                CheckNonce: 18,
+                ChargeTransactionPayment: "5000",
+                CheckMetadataHash: {mode: "Enabled"},
+            },
+            additional: {
+                CheckSpecVersion: 1002000,
+                CheckTxVersion: 26,
+                CheckGenesis: options.genesisHash,
+                CheckMortality: options.blockHash,
+                CheckMetadataHash: "0x" + "ab".repeat(32),
+            },
+        })
+
+        // payloads longer than 256 bytes are signed by their hash
+        const remark = encodeCall(metadata, "System", "remark", {remark: "0x" + "61".repeat(300)})
+        expect(signExtrinsic(metadata, remark, options, privateKey)).toEqual("0x61068400212cd18c7bfea080c37dd7b3cbb4d987e1eb778ccb60f3f3e0972909e52bbc4e006cc8257c74b3697492d09dd0eb83f3687808bab31a46788909ea73e9cc7e110629729df7298021f02dd039c7bc9fff6c848b381bc700c42537cfdf889798a00615014800000000b104616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161616161")
+    });
+
+    test("ChargeAssetTxPayment", async () => {
+        const metadata = decodeMetadata(SUBSTRATE_V15)
+        const call = encodeCall(metadata, "Assets", "transfer_keep_alive", {id: 1984, target: dest, amount: 2500000})
+        expect(base.toHex(call, true)).toEqual("0x2709011f0041eb872825006874a009724c7a2f36cd73e676afd0f7703a06d0edbcb27197ab82969800")
+        expect(signExtrinsic(metadata, call, options, privateKey)).toEqual("0x45028400212cd18c7bfea080c37dd7b3cbb4d987e1eb778ccb60f3f3e0972909e52bbc4e006b81ad91634aab3a0279c5f9bea4c17b1b0d73bc079018d7f78362b768de202ec6a2eea19f864d99e900e5fa69e31383fc3727bc73c05084dadd86b51ed32a0b15014800002709011f0041eb872825006874a009724c7a2f36cd73e676afd0f7703a06d0edbcb27197ab82969800")
+
+        // fee paid in asset 1984, signed with the sr25519 key
+        const assetOptions = {...options, tip: 7, assetId: 1984}
+        const payload = createSigningPayload(metadata, call, assetOptions)
+        expect(base.toHex(payload, true)).toEqual("0x2709011f0041eb872825006874a009724c7a2f36cd73e676afd0f7703a06d0edbcb27197ab829698001501481c01c0070000104a0f001a00000091b171bb158e2d3848fa23a9f1c25182fb8e20313b2c1eb49219da7a70ce90c3569e9705bdcd3cf15edb1378433148d437f585a21ad0e2691f0d8c0083021580")
+        expect(decodeSigningPayload(metadata, payload).extra.ChargeAssetTxPayment).toEqual({tip: "7", asset_id: 1984})
+
+        const signed = signExtrinsic(metadata, call, assetOptions, privateKey, "sr25519")
+        // sr25519 signatures are randomized
+        expect(signed.substring(0, 76)).toEqual("0x55028400f6a233c3e1de1a2ae0486100b460b3ce3d7231ddfe9dadabbd35ab968c70905d01")
+        expect(signed.substring(76 + 128)).toEqual("1501481c01c00700002709011f0041eb872825006874a009724c7a2f36cd73e676afd0f7703a06d0edbcb27197ab82969800")
+        const signature = base.fromHex(signed.substring(76, 76 + 128))
+        expect(verifySignature(payload, signature, "16aNxu5fxwZc6TQRYE684T5FBNEsY8i3JKkzgz7TfVxcu3Z7").isValid).toEqual(true)
+    });
+});
+
+const POLKADOT_V14 = "0x6d6574610e8503000c1c73705f636f72651863727970746f2c4163636f756e7449643332000004000401205b75383b2033325d0000040000032000000008000800000503000c08306672616d655f73797374656d2c4163636f756e74496e666f08144e6f6e636501102c4163636f756e74446174610114001401146e6f6e63651001144e6f6e6365000124636f6e73756d657273100120526566436f756e7400012470726f766964657273100120526566436f756e7400012c73756666696369656e7473100120526566436f756e740001106461746114012c4163636f756e74446174610000100000050500140c3c70616c6c65745f62616c616e6365731474797065732c4163636f756e7444617461041c42616c616e63650118001001106672656518011c42616c616e6365000120726573657276656418011c42616c616e636500011866726f7a656e18011c42616c616e6365000114666c6167731c01284578747261466c61677300001800000507001c0c3c70616c6c65745f62616c616e636573147479706573284578747261466c61677300000400180110753132380000200c2873705f77656967687473247765696768745f76321857656967687400000801207265665f74696d6524010c75363400012870726f6f665f73697a6524010c75363400002400000628002800000506002c083c7072696d69746976655f74797065731048323536000004000401205b75383b2033325d0000300000020800340000030400000008003800000500003c04184f7074696f6e04045401040108104e6f6e6500000010536f6d65040004000001000040000004000044083870616c6c65745f7374616b696e674452657761726444657374696e6174696f6e04244163636f756e74496401000114185374616b656400000014537461736800010028436f6e74726f6c6c65720002001c4163636f756e7404000001244163636f756e744964000300104e6f6e6500040000480c3473705f61726974686d65746963287065725f7468696e67731c50657262696c6c0000040010010c75333200004c083870616c6c65745f7374616b696e673856616c696461746f7250726566730000080128636f6d6d697373696f6e50011c50657262696c6c00011c626c6f636b6564380110626f6f6c0000500000064800540000031000000008005800000618005c102c73746167696e675f78636d087633346d756c74696c6f636174696f6e344d756c74694c6f636174696f6e000008011c706172656e74730801087538000120696e746572696f726001244a756e6374696f6e73000060100c78636d087633246a756e6374696f6e73244a756e6374696f6e73000124104865726500000008583104006401204a756e6374696f6e00010008583208006401204a756e6374696f6e00006401204a756e6374696f6e0002000858330c006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00030008583410006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00040008583514006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00050008583618006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e0006000858371c006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00070008583820006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e00006401204a756e6374696f6e0008000064100c78636d087633206a756e6374696f6e204a756e6374696f6e0001282450617261636861696e040068010c7533320000002c4163636f756e744964333208011c6e6574776f726b6c01444f7074696f6e3c4e6574776f726b49643e00010869640401205b75383b2033325d000100384163636f756e74496e646578363408011c6e6574776f726b6c01444f7074696f6e3c4e6574776f726b49643e000114696e64657824010c753634000200304163636f756e744b6579323008011c6e6574776f726b6c01444f7074696f6e3c4e6574776f726b49643e00010c6b65797401205b75383b2032305d0003003850616c6c6574496e7374616e6365040008010875380004003047656e6572616c496e6465780400580110753132380005002847656e6572616c4b65790801186c656e6774680801087538000110646174610401205b75383b2033325d000600244f6e6c794368696c6400070024506c7572616c6974790801086964780118426f64794964000110706172747c0120426f6479506172740008003c476c6f62616c436f6e73656e73757304007001244e6574776f726b4964000900006800000610006c04184f7074696f6e04045401700108104e6f6e6500000010536f6d65040070000001000070100c78636d087633206a756e6374696f6e244e6574776f726b496400012c24427947656e6573697304000401205b75383b2033325d000000184279466f726b080130626c6f636b5f6e756d62657228010c753634000128626c6f636b5f686173680401205b75383b2033325d00010020506f6c6b61646f74000200184b7573616d610003001c57657374656e6400040018526f636f636f00050018576f636f636f00060020457468657265756d040120636861696e5f696424010c7536340007002c426974636f696e436f72650008002c426974636f696e4361736800090040506f6c6b61646f7442756c6c6574696e000a00007400000314000000080078100c78636d087633206a756e6374696f6e18426f6479496400012810556e69740000001c4d6f6e696b6572040034011c5b75383b20345d00010014496e646578040068010c7533320002002445786563757469766500030024546563686e6963616c0004002c4c656769736c6174697665000500204a7564696369616c0006001c446566656e73650007003841646d696e697374726174696f6e000800205472656173757279000900007c100c78636d087633206a756e6374696f6e20426f64795061727400011414566f6963650000001c4d656d62657273040114636f756e7468010c753332000100204672616374696f6e08010c6e6f6d68010c75333200011464656e6f6d68010c7533320002004441744c6561737450726f706f7274696f6e08010c6e6f6d68010c75333200011464656e6f6d68010c753332000300484d6f72655468616e50726f706f7274696f6e08010c6e6f6d68010c75333200011464656e6f6d68010c7533320004000080100c78636d087633286d756c746961737365741c4173736574496400010820436f6e637265746504005c01344d756c74694c6f636174696f6e00000020416273747261637404000401205b75383b2033325d0001000084102c73746167696e675f78636d087634206c6f636174696f6e204c6f636174696f6e000008011c706172656e74730801087538000120696e746572696f728801244a756e6374696f6e73000088102c73746167696e675f78636d087634246a756e6374696f6e73244a756e6374696f6e73000124104865726500000008583104008c01484172633c5b4a756e6374696f6e3b20315d3e00010008583204009c01484172633c5b4a756e6374696f6e3b20325d3e0002000858330400a001484172633c5b4a756e6374696f6e3b20335d3e0003000858340400a401484172633c5b4a756e6374696f6e3b20345d3e0004000858350400a801484172633c5b4a756e6374696f6e3b20355d3e0005000858360400ac01484172633c5b4a756e6374696f6e3b20365d3e0006000858370400b001484172633c5b4a756e6374696f6e3b20375d3e0007000858380400b401484172633c5b4a756e6374696f6e3b20385d3e000800008c00000301000000900090102c73746167696e675f78636d087634206a756e6374696f6e204a756e6374696f6e0001282450617261636861696e040068010c7533320000002c4163636f756e744964333208011c6e6574776f726b9401444f7074696f6e3c4e6574776f726b49643e00010869640401205b75383b2033325d000100384163636f756e74496e646578363408011c6e6574776f726b9401444f7074696f6e3c4e6574776f726b49643e000114696e64657824010c753634000200304163636f756e744b6579323008011c6e6574776f726b9401444f7074696f6e3c4e6574776f726b49643e00010c6b65797401205b75383b2032305d0003003850616c6c6574496e7374616e6365040008010875380004003047656e6572616c496e6465780400580110753132380005002847656e6572616c4b65790801186c656e6774680801087538000110646174610401205b75383b2033325d000600244f6e6c794368696c6400070024506c7572616c6974790801086964780118426f64794964000110706172747c0120426f6479506172740008003c476c6f62616c436f6e73656e73757304009801244e6574776f726b4964000900009404184f7074696f6e04045401980108104e6f6e6500000010536f6d65040098000001000098102c73746167696e675f78636d087634206a756e6374696f6e244e6574776f726b496400012c24427947656e6573697304000401205b75383b2033325d000000184279466f726b080130626c6f636b5f6e756d62657228010c753634000128626c6f636b5f686173680401205b75383b2033325d00010020506f6c6b61646f74000200184b7573616d610003001c57657374656e6400040018526f636f636f00050018576f636f636f00060020457468657265756d040120636861696e5f696424010c7536340007002c426974636f696e436f72650008002c426974636f696e4361736800090040506f6c6b61646f7442756c6c6574696e000a00009c000003020000009000a0000003030000009000a4000003040000009000a8000003050000009000ac000003060000009000b0000003070000009000b4000003080000009000b8102c73746167696e675f78636d0876341461737365741c41737365744964000004008401204c6f636174696f6e0000bc080c78636d4456657273696f6e65644c6f636174696f6e00010c0856320400c0014476323a3a4d756c74694c6f636174696f6e00010008563304005c014476333a3a4d756c74694c6f636174696f6e000300085634040084013076343a3a4c6f636174696f6e00040000c0100c78636d087632346d756c74696c6f636174696f6e344d756c74694c6f636174696f6e000008011c706172656e74730801087538000120696e746572696f72c401244a756e6374696f6e730000c4100c78636d087632346d756c74696c6f636174696f6e244a756e6374696f6e7300012410486572650000000858310400c801204a756e6374696f6e0001000858320800c801204a756e6374696f6e0000c801204a756e6374696f6e0002000858330c00c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0003000858341000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0004000858351400c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0005000858361800c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0006000858371c00c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0007000858382000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e0000c801204a756e6374696f6e00080000c8100c78636d087632206a756e6374696f6e204a756e6374696f6e0001242450617261636861696e040068010c7533320000002c4163636f756e744964333208011c6e6574776f726bcc01244e6574776f726b496400010869640401205b75383b2033325d000100384163636f756e74496e646578363408011c6e6574776f726bcc01244e6574776f726b4964000114696e64657824010c753634000200304163636f756e744b6579323008011c6e6574776f726bcc01244e6574776f726b496400010c6b65797401205b75383b2032305d0003003850616c6c6574496e7374616e6365040008010875380004003047656e6572616c496e6465780400580110753132380005002847656e6572616c4b65790400d001805765616b426f756e6465645665633c75382c20436f6e73745533323c33323e3e000600244f6e6c794368696c6400070024506c7572616c6974790801086964d40118426f6479496400011070617274d80120426f64795061727400080000cc0c0c78636d087632244e6574776f726b49640001100c416e79000000144e616d65640400d001805765616b426f756e6465645665633c75382c20436f6e73745533323c33323e3e00010020506f6c6b61646f74000200184b7573616d6100030000d00c4c626f756e6465645f636f6c6c656374696f6e73407765616b5f626f756e6465645f766563385765616b426f756e64656456656308045401080453000004003001185665633c543e0000d40c0c78636d08763218426f6479496400012810556e6974000000144e616d65640400d001805765616b426f756e6465645665633c75382c20436f6e73745533323c33323e3e00010014496e646578040068010c7533320002002445786563757469766500030024546563686e6963616c0004002c4c656769736c6174697665000500204a7564696369616c0006001c446566656e73650007003841646d696e697374726174696f6e00080020547265617375727900090000d80c0c78636d08763220426f64795061727400011414566f6963650000001c4d656d62657273040114636f756e7468010c753332000100204672616374696f6e08010c6e6f6d68010c75333200011464656e6f6d68010c7533320002004441744c6561737450726f706f7274696f6e08010c6e6f6d68010c75333200011464656e6f6d68010c753332000300484d6f72655468616e50726f706f7274696f6e08010c6e6f6d68010c75333200011464656e6f6d68010c75333200040000dc0000050400e00840706f6c6b61646f745f72756e74696d652c52756e74696d6543616c6c0001141853797374656d0400e401ad0173656c663a3a73705f6170695f68696464656e5f696e636c756465735f636f6e7374727563745f72756e74696d653a3a68696464656e5f696e636c7564653a3a64697370617463680a3a3a43616c6c61626c6543616c6c466f723c53797374656d2c2052756e74696d653e0000002042616c616e6365730400fc01b50173656c663a3a73705f6170695f68696464656e5f696e636c756465735f636f6e7374727563745f72756e74696d653a3a68696464656e5f696e636c7564653a3a64697370617463680a3a3a43616c6c61626c6543616c6c466f723c42616c616e6365732c2052756e74696d653e0005001c5374616b696e670400090101b10173656c663a3a73705f6170695f68696464656e5f696e636c756465735f636f6e7374727563745f72756e74696d653a3a68696464656e5f696e636c7564653a3a64697370617463680a3a3a43616c6c61626c6543616c6c466f723c5374616b696e672c2052756e74696d653e0007001c5574696c6974790400710101b10173656c663a3a73705f6170695f68696464656e5f696e636c756465735f636f6e7374727563745f72756e74696d653a3a68696464656e5f696e636c7564653a3a64697370617463680a3a3a43616c6c61626c6543616c6c466f723c5574696c6974792c2052756e74696d653e001a002458636d50616c6c65740400890101b90173656c663a3a73705f6170695f68696464656e5f696e636c756465735f636f6e7374727563745f72756e74696d653a3a68696464656e5f696e636c7564653a3a64697370617463680a3a3a43616c6c61626c6543616c6c466f723c58636d50616c6c65742c2052756e74696d653e00630000e40c306672616d655f73797374656d1870616c6c65741043616c6c04045400012c1872656d61726b04011872656d61726b30011c5665633c75383e000000387365745f686561705f7061676573040114706167657328010c753634000100207365745f636f6465040110636f646530011c5665633c75383e0002005c7365745f636f64655f776974686f75745f636865636b73040110636f646530011c5665633c75383e0003002c7365745f73746f726167650401146974656d73e801345665633c4b657956616c75653e000400306b696c6c5f73746f726167650401106b657973f001205665633c4b65793e0005002c6b696c6c5f70726566697808011870726566697830010c4b657900011c7375626b65797310010c7533320006004472656d61726b5f776974685f6576656e7404011872656d61726b30011c5665633c75383e00070044617574686f72697a655f75706772616465040124636f64655f686173682c011c543a3a4861736800090080617574686f72697a655f757067726164655f776974686f75745f636865636b73040124636f64655f686173682c011c543a3a48617368000a00606170706c795f617574686f72697a65645f75706772616465040110636f646530011c5665633c75383e000b0000e8000002ec00ec00000408303000f00000023000f40c2873705f72756e74696d65306d756c746961646472657373304d756c74694164647265737308244163636f756e7449640100304163636f756e74496e6465780140011408496404000001244163636f756e74496400000014496e6465780400f801304163636f756e74496e6465780001000c526177040030011c5665633c75383e0002002441646472657373333204000401205b75383b2033325d0003002441646472657373323004007401205b75383b2032305d00040000f80000064000fc0c3c70616c6c65745f62616c616e6365731870616c6c65741043616c6c080454000449000120507472616e736665725f616c6c6f775f646561746808011064657374f401504163636f756e7449644c6f6f6b75704f663c543e00011476616c7565580128543a3a42616c616e636500000038666f7263655f7472616e736665720c0118736f75726365f401504163636f756e7449644c6f6f6b75704f663c543e00011064657374f401504163636f756e7449644c6f6f6b75704f663c543e00011476616c7565580128543a3a42616c616e63650002004c7472616e736665725f6b6565705f616c69766508011064657374f401504163636f756e7449644c6f6f6b75704f663c543e00011476616c7565580128543a3a42616c616e6365000300307472616e736665725f616c6c08011064657374f401504163636f756e7449644c6f6f6b75704f663c543e0001286b6565705f616c697665380110626f6f6c0004003c666f7263655f756e7265736572766508010c77686ff401504163636f756e7449644c6f6f6b75704f663c543e000118616d6f756e74180128543a3a42616c616e636500050040757067726164655f6163636f756e747304010c77686f010101445665633c543a3a4163636f756e7449643e00060044666f7263655f7365745f62616c616e636508010c77686ff401504163636f756e7449644c6f6f6b75704f663c543e0001206e65775f66726565580128543a3a42616c616e63650008006c666f7263655f61646a7573745f746f74616c5f69737375616e6365080124646972656374696f6e0501014c41646a7573746d656e74446972656374696f6e00011464656c7461580128543a3a42616c616e6365000900000101000002000005010c3c70616c6c65745f62616c616e6365731474797065734c41646a7573746d656e74446972656374696f6e00010820496e637265617365000000204465637265617365000100000901103870616c6c65745f7374616b696e671870616c6c65741870616c6c65741043616c6c04045400017810626f6e6408011476616c756558013042616c616e63654f663c543e000114706179656544017c52657761726444657374696e6174696f6e3c543a3a4163636f756e7449643e00000028626f6e645f65787472610401386d61785f6164646974696f6e616c58013042616c616e63654f663c543e00010018756e626f6e6404011476616c756558013042616c616e63654f663c543e0002004477697468647261775f756e626f6e6465640401486e756d5f736c617368696e675f7370616e7310010c7533320003002076616c696461746504011470726566734c013856616c696461746f725072656673000400206e6f6d696e61746504011c746172676574730d0101645665633c4163636f756e7449644c6f6f6b75704f663c543e3e000500146368696c6c000600247365745f7061796565040114706179656544017c52657761726444657374696e6174696f6e3c543a3a4163636f756e7449643e000700387365745f636f6e74726f6c6c65720008004c7365745f76616c696461746f725f636f756e7404010c6e657768010c75333200090060696e6372656173655f76616c696461746f725f636f756e740401286164646974696f6e616c68010c753332000a00547363616c655f76616c696461746f725f636f756e74040118666163746f721101011c50657263656e74000b0034666f7263655f6e6f5f65726173000c0034666f7263655f6e65775f657261000d00447365745f696e76756c6e657261626c6573040134696e76756c6e657261626c6573010101445665633c543a3a4163636f756e7449643e000e0034666f7263655f756e7374616b650801147374617368000130543a3a4163636f756e7449640001486e756d5f736c617368696e675f7370616e7310010c753332000f0050666f7263655f6e65775f6572615f616c776179730010005463616e63656c5f64656665727265645f736c61736808010c657261100120457261496e646578000134736c6173685f696e6469636573150101205665633c7533323e001100387061796f75745f7374616b65727308013c76616c696461746f725f7374617368000130543a3a4163636f756e74496400010c657261100120457261496e646578001200187265626f6e6404011476616c756558013042616c616e63654f663c543e00130028726561705f73746173680801147374617368000130543a3a4163636f756e7449640001486e756d5f736c617368696e675f7370616e7310010c753332001400106b69636b04010c77686f0d0101645665633c4163636f756e7449644c6f6f6b75704f663c543e3e0015004c7365745f7374616b696e675f636f6e666967731801486d696e5f6e6f6d696e61746f725f626f6e6419010158436f6e6669674f703c42616c616e63654f663c543e3e0001486d696e5f76616c696461746f725f626f6e6419010158436f6e6669674f703c42616c616e63654f663c543e3e00014c6d61785f6e6f6d696e61746f725f636f756e741d010134436f6e6669674f703c7533323e00014c6d61785f76616c696461746f725f636f756e741d010134436f6e6669674f703c7533323e00013c6368696c6c5f7468726573686f6c6421010144436f6e6669674f703c50657263656e743e0001386d696e5f636f6d6d697373696f6e25010144436f6e6669674f703c50657262696c6c3e0016002c6368696c6c5f6f746865720401147374617368000130543a3a4163636f756e74496400170068666f7263655f6170706c795f6d696e5f636f6d6d697373696f6e04013c76616c696461746f725f7374617368000130543a3a4163636f756e744964001800487365745f6d696e5f636f6d6d697373696f6e04010c6e657748011c50657262696c6c001900587061796f75745f7374616b6572735f62795f706167650c013c76616c696461746f725f7374617368000130543a3a4163636f756e74496400010c657261100120457261496e6465780001107061676510011050616765001a00307570646174655f7061796565040128636f6e74726f6c6c6572000130543a3a4163636f756e744964001b00686465707265636174655f636f6e74726f6c6c65725f626174636804012c636f6e74726f6c6c657273290101f4426f756e6465645665633c543a3a4163636f756e7449642c20543a3a4d6178436f6e74726f6c6c657273496e4465707265636174696f6e42617463683e001c0038726573746f72655f6c65646765721001147374617368000130543a3a4163636f756e7449640001406d617962655f636f6e74726f6c6c65722d0101504f7074696f6e3c543a3a4163636f756e7449643e00012c6d617962655f746f74616c310101504f7074696f6e3c42616c616e63654f663c543e3e00013c6d617962655f756e6c6f636b696e6735010115014f7074696f6e3c426f756e6465645665633c556e6c6f636b4368756e6b3c42616c616e63654f663c543e3e2c20543a3a0a4d6178556e6c6f636b696e674368756e6b733e3e001d00000d01000002f40011010c3473705f61726974686d65746963287065725f7468696e67731c50657263656e740000040008010875380000150100000210001901103870616c6c65745f7374616b696e671870616c6c65741870616c6c657420436f6e6669674f700404540118010c104e6f6f700000000c5365740400180104540001001852656d6f7665000200001d01103870616c6c65745f7374616b696e671870616c6c65741870616c6c657420436f6e6669674f700404540110010c104e6f6f700000000c5365740400100104540001001852656d6f7665000200002101103870616c6c65745f7374616b696e671870616c6c65741870616c6c657420436f6e6669674f70040454011101010c104e6f6f700000000c536574040011010104540001001852656d6f7665000200002501103870616c6c65745f7374616b696e671870616c6c65741870616c6c657420436f6e6669674f700404540148010c104e6f6f700000000c5365740400480104540001001852656d6f76650002000029010c4c626f756e6465645f636f6c6c656374696f6e732c626f756e6465645f76656328426f756e6465645665630804540100045300000400010101185665633c543e00002d0104184f7074696f6e04045401000108104e6f6e6500000010536f6d650400000000010000310104184f7074696f6e04045401180108104e6f6e6500000010536f6d650400180000010000350104184f7074696f6e0404540139010108104e6f6e6500000010536f6d6504003901000001000039010c4c626f756e6465645f636f6c6c656374696f6e732c626f756e6465645f76656328426f756e646564566563080454013d01045300000400410101185665633c543e00003d01083870616c6c65745f7374616b696e672c556e6c6f636b4368756e6b041c42616c616e636501180008011476616c756558011c42616c616e636500010c657261680120457261496e646578000041010000023d010045010c1c73705f636f72651c65643235353139245369676e617475726500000400490101205b75383b2036345d000049010000034000000008004d0104184f7074696f6e04045401100108104e6f6e6500000010536f6d65040010000001000051010840706f6c6b61646f745f72756e74696d65304f726967696e43616c6c65720001141873797374656d0400550101746672616d655f73797374656d3a3a4f726967696e3c52756e74696d653e0000001c4f726967696e7304005901017470616c6c65745f637573746f6d5f6f726967696e733a3a4f726967696e0016004050617261636861696e734f726967696e04005d01016470617261636861696e735f6f726967696e3a3a4f726967696e0032002458636d50616c6c657404006501014870616c6c65745f78636d3a3a4f726967696e00630010566f69640400690101410173656c663a3a73705f6170695f68696464656e5f696e636c756465735f636f6e7374727563745f72756e74696d653a3a68696464656e5f696e636c7564653a3a0a5f5f707269766174653a3a566f69640004000055010c346672616d655f737570706f7274206469737061746368245261774f726967696e04244163636f756e7449640100010c10526f6f74000000185369676e656404000001244163636f756e744964000100104e6f6e650002000059011440706f6c6b61646f745f72756e74696d6528676f7665726e616e63651c6f726967696e735470616c6c65745f637573746f6d5f6f726967696e73184f726967696e00013c305374616b696e6741646d696e000000245472656173757265720001003c46656c6c6f777368697041646d696e0002003047656e6572616c41646d696e0003003041756374696f6e41646d696e000400284c6561736541646d696e0005004c5265666572656e64756d43616e63656c6c6572000600405265666572656e64756d4b696c6c65720007002c536d616c6c5469707065720008002442696754697070657200090030536d616c6c5370656e646572000a00344d656469756d5370656e646572000b00284269675370656e646572000c004457686974656c697374656443616c6c6572000d003457697368466f724368616e6765000e00005d01106c706f6c6b61646f745f72756e74696d655f70617261636861696e73186f726967696e1870616c6c6574184f726967696e0001042450617261636861696e0400610101185061726149640000000061010c74706f6c6b61646f745f70617261636861696e5f7072696d697469766573287072696d6974697665730849640000040010010c753332000065010c2870616c6c65745f78636d1870616c6c6574184f726967696e0001080c58636d04008401204c6f636174696f6e00000020526573706f6e736504008401204c6f636174696f6e000100006901081c73705f636f726510566f6964000100006d0100000341000000080071010c3870616c6c65745f7574696c6974791870616c6c65741043616c6c04045400011814626174636804011463616c6c737501017c5665633c3c5420617320436f6e6669673e3a3a52756e74696d6543616c6c3e0000003461735f64657269766174697665080114696e646578dc010c75313600011063616c6ce0017c426f783c3c5420617320436f6e6669673e3a3a52756e74696d6543616c6c3e0001002462617463685f616c6c04011463616c6c737501017c5665633c3c5420617320436f6e6669673e3a3a52756e74696d6543616c6c3e0002002c64697370617463685f617308012461735f6f726967696e51010154426f783c543a3a50616c6c6574734f726967696e3e00011063616c6ce0017c426f783c3c5420617320436f6e6669673e3a3a52756e74696d6543616c6c3e0003002c666f7263655f626174636804011463616c6c737501017c5665633c3c5420617320436f6e6669673e3a3a52756e74696d6543616c6c3e0004002c776974685f77656967687408011063616c6ce0017c426f783c3c5420617320436f6e6669673e3a3a52756e74696d6543616c6c3e000118776569676874200118576569676874000500007501000002e00079010000030800000008007d01082873705f72756e74696d65384d756c74695369676e617475726500010c1c45643235353139040045010148656432353531393a3a5369676e61747572650000001c53723235353139040081010148737232353531393a3a5369676e617475726500010014456364736104008501014065636473613a3a5369676e61747572650002000081010c1c73705f636f72651c73723235353139245369676e617475726500000400490101205b75383b2036345d000085010c1c73705f636f7265146563647361245369676e6174757265000004006d01017c5b75383b205349474e41545552455f53455249414c495a45445f53495a455d000089010c2870616c6c65745f78636d1870616c6c65741043616c6c0404540001381073656e6408011064657374bc0158426f783c56657273696f6e65644c6f636174696f6e3e00011c6d6573736167658d010154426f783c56657273696f6e656458636d3c28293e3e0000003c74656c65706f72745f61737365747310011064657374bc0158426f783c56657273696f6e65644c6f636174696f6e3e00012c62656e6566696369617279bc0158426f783c56657273696f6e65644c6f636174696f6e3e00011861737365747385020150426f783c56657273696f6e65644173736574733e0001386665655f61737365745f6974656d10010c7533320001005c726573657276655f7472616e736665725f61737365747310011064657374bc0158426f783c56657273696f6e65644c6f636174696f6e3e00012c62656e6566696369617279bc0158426f783c56657273696f6e65644c6f636174696f6e3e00011861737365747385020150426f783c56657273696f6e65644173736574733e0001386665655f61737365745f6974656d10010c7533320002001c6578656375746508011c6d657373616765890201b4426f783c56657273696f6e656458636d3c3c5420617320436f6e6669673e3a3a52756e74696d6543616c6c3e3e0001286d61785f77656967687420011857656967687400030044666f7263655f78636d5f76657273696f6e0801206c6f636174696f6e840134426f783c4c6f636174696f6e3e00011c76657273696f6e10012858636d56657273696f6e00040064666f7263655f64656661756c745f78636d5f76657273696f6e0401446d617962655f78636d5f76657273696f6e4d0101484f7074696f6e3c58636d56657273696f6e3e00050078666f7263655f7375627363726962655f76657273696f6e5f6e6f746966790401206c6f636174696f6ebc0158426f783c56657273696f6e65644c6f636174696f6e3e00060080666f7263655f756e7375627363726962655f76657273696f6e5f6e6f746966790401206c6f636174696f6ebc0158426f783c56657273696f6e65644c6f636174696f6e3e0007007c6c696d697465645f726573657276655f7472616e736665725f61737365747314011064657374bc0158426f783c56657273696f6e65644c6f636174696f6e3e00012c62656e6566696369617279bc0158426f783c56657273696f6e65644c6f636174696f6e3e00011861737365747385020150426f783c56657273696f6e65644173736574733e0001386665655f61737365745f6974656d10010c7533320001307765696768745f6c696d69743902012c5765696768744c696d69740008005c6c696d697465645f74656c65706f72745f61737365747314011064657374bc0158426f783c56657273696f6e65644c6f636174696f6e3e00012c62656e6566696369617279bc0158426f783c56657273696f6e65644c6f636174696f6e3e00011861737365747385020150426f783c56657273696f6e65644173736574733e0001386665655f61737365745f6974656d10010c7533320001307765696768745f6c696d69743902012c5765696768744c696d697400090040666f7263655f73757370656e73696f6e04012473757370656e646564380110626f6f6c000a003c7472616e736665725f61737365747314011064657374bc0158426f783c56657273696f6e65644c6f636174696f6e3e00012c62656e6566696369617279bc0158426f783c56657273696f6e65644c6f636174696f6e3e00011861737365747385020150426f783c56657273696f6e65644173736574733e0001386665655f61737365745f6974656d10010c7533320001307765696768745f6c696d69743902012c5765696768744c696d6974000b0030636c61696d5f61737365747308011861737365747385020150426f783c56657273696f6e65644173736574733e00012c62656e6566696369617279bc0158426f783c56657273696f6e65644c6f636174696f6e3e000c008c7472616e736665725f6173736574735f7573696e675f747970655f616e645f7468656e1c011064657374bc0158426f783c56657273696f6e65644c6f636174696f6e3e00011861737365747385020150426f783c56657273696f6e65644173736574733e0001506173736574735f7472616e736665725f74797065b5020144426f783c5472616e73666572547970653e00013872656d6f74655f666565735f6964b9020154426f783c56657273696f6e6564417373657449643e000148666565735f7472616e736665725f74797065b5020144426f783c5472616e73666572547970653e000148637573746f6d5f78636d5f6f6e5f646573748d010154426f783c56657273696f6e656458636d3c28293e3e0001307765696768745f6c696d69743902012c5765696768744c696d6974000d00008d01080c78636d3056657273696f6e656458636d042c52756e74696d6543616c6c00010c08563204009101015076323a3a58636d3c52756e74696d6543616c6c3e0002000856330400dd01015076333a3a58636d3c52756e74696d6543616c6c3e00030008563404003d02015076343a3a58636d3c52756e74696d6543616c6c3e0004000091010c0c78636d0876320c58636d042c52756e74696d6543616c6c00000400950101745665633c496e737472756374696f6e3c52756e74696d6543616c6c3e3e0000950100000299010099010c0c78636d0876322c496e737472756374696f6e042c52756e74696d6543616c6c000170345769746864726177417373657404009d01012c4d756c7469417373657473000000545265736572766541737365744465706f736974656404009d01012c4d756c7469417373657473000100585265636569766554656c65706f72746564417373657404009d01012c4d756c7469417373657473000200345175657279526573706f6e73650c012071756572795f696424011c51756572794964000120726573706f6e7365b5010120526573706f6e73650001286d61785f77656967687424010c753634000300345472616e7366657241737365740801186173736574739d01012c4d756c746941737365747300012c62656e6566696369617279c001344d756c74694c6f636174696f6e000400505472616e736665725265736572766541737365740c01186173736574739d01012c4d756c746941737365747300011064657374c001344d756c74694c6f636174696f6e00010c78636d9101011c58636d3c28293e000500205472616e736163740c012c6f726967696e5f74797065c50101284f726967696e4b696e64000158726571756972655f7765696768745f61745f6d6f737424010c75363400011063616c6cc9010168446f75626c65456e636f6465643c52756e74696d6543616c6c3e0006006448726d704e65774368616e6e656c4f70656e526571756573740c011873656e64657268010c7533320001406d61785f6d6573736167655f73697a6568010c7533320001306d61785f636170616369747968010c7533320007004c48726d704368616e6e656c4163636570746564040124726563697069656e7468010c7533320008004848726d704368616e6e656c436c6f73696e670c0124696e69746961746f7268010c75333200011873656e64657268010c753332000124726563697069656e7468010c7533320009002c436c6561724f726967696e000a003444657363656e644f726967696e0400c40154496e746572696f724d756c74694c6f636174696f6e000b002c5265706f72744572726f720c012071756572795f696424011c5175657279496400011064657374c001344d756c74694c6f636174696f6e00014c6d61785f726573706f6e73655f77656967687424010c753634000c00304465706f73697441737365740c0118617373657473cd0101404d756c7469417373657446696c7465720001286d61785f61737365747368010c75333200012c62656e6566696369617279c001344d756c74694c6f636174696f6e000d004c4465706f736974526573657276654173736574100118617373657473cd0101404d756c7469417373657446696c7465720001286d61785f61737365747368010c75333200011064657374c001344d756c74694c6f636174696f6e00010c78636d9101011c58636d3c28293e000e003445786368616e6765417373657408011067697665cd0101404d756c7469417373657446696c74657200011c726563656976659d01012c4d756c7469417373657473000f005c496e6974696174655265736572766557697468647261770c0118617373657473cd0101404d756c7469417373657446696c74657200011c72657365727665c001344d756c74694c6f636174696f6e00010c78636d9101011c58636d3c28293e00100040496e69746961746554656c65706f72740c0118617373657473cd0101404d756c7469417373657446696c74657200011064657374c001344d756c74694c6f636174696f6e00010c78636d9101011c58636d3c28293e001100305175657279486f6c64696e6710012071756572795f696424011c5175657279496400011064657374c001344d756c74694c6f636174696f6e000118617373657473cd0101404d756c7469417373657446696c74657200014c6d61785f726573706f6e73655f77656967687424010c75363400120030427579457865637574696f6e08011066656573a50101284d756c746941737365740001307765696768745f6c696d6974d901012c5765696768744c696d697400130034526566756e64537572706c75730014003c5365744572726f7248616e646c657204009101014058636d3c52756e74696d6543616c6c3e0015002c536574417070656e64697804009101014058636d3c52756e74696d6543616c6c3e00160028436c6561724572726f7200170028436c61696d41737365740801186173736574739d01012c4d756c74694173736574730001187469636b6574c001344d756c74694c6f636174696f6e0018001054726170040024010c7536340019004053756273637269626556657273696f6e08012071756572795f696424011c5175657279496400014c6d61785f726573706f6e73655f77656967687424010c753634001a0048556e73756273637269626556657273696f6e001b00009d01100c78636d087632286d756c746961737365742c4d756c746941737365747300000400a101013c5665633c4d756c746941737365743e0000a101000002a50100a501100c78636d087632286d756c74696173736574284d756c7469417373657400000801086964a901011c4173736574496400010c66756ead01012c46756e676962696c6974790000a901100c78636d087632286d756c746961737365741c4173736574496400010820436f6e63726574650400c001344d756c74694c6f636174696f6e000000204162737472616374040030011c5665633c75383e00010000ad01100c78636d087632286d756c746961737365742c46756e676962696c6974790001082046756e6769626c650400580110753132380000002c4e6f6e46756e6769626c650400b10101344173736574496e7374616e636500010000b101100c78636d087632286d756c74696173736574344173736574496e7374616e636500011c24556e646566696e656400000014496e64657804005801107531323800010018417272617934040034011c5b75383b20345d0002001841727261793804007901011c5b75383b20385d0003001c4172726179313604005401205b75383b2031365d0004001c4172726179333204000401205b75383b2033325d00050010426c6f62040030011c5665633c75383e00060000b5010c0c78636d08763220526573706f6e7365000110104e756c6c0000001841737365747304009d01012c4d756c74694173736574730001003c457865637574696f6e526573756c740400b90101504f7074696f6e3c287533322c204572726f72293e0002001c56657273696f6e040010013873757065723a3a56657273696f6e00030000b90104184f7074696f6e04045401bd010108104e6f6e6500000010536f6d650400bd010000010000bd010000040810c10100c101100c78636d08763218747261697473144572726f72000168204f766572666c6f7700000034556e696d706c656d656e74656400010060556e74727573746564526573657276654c6f636174696f6e00020064556e7472757374656454656c65706f72744c6f636174696f6e000300444d756c74694c6f636174696f6e46756c6c000400684d756c74694c6f636174696f6e4e6f74496e7665727469626c65000500244261644f726967696e0006003c496e76616c69644c6f636174696f6e0007003441737365744e6f74466f756e64000800544661696c6564546f5472616e7361637441737365740009003c4e6f74576974686472617761626c65000a00484c6f636174696f6e43616e6e6f74486f6c64000b0054457863656564734d61784d65737361676553697a65000c005844657374696e6174696f6e556e737570706f72746564000d00245472616e73706f7274000e0028556e726f757461626c65000f0030556e6b6e6f776e436c61696d001000384661696c6564546f4465636f6465001100404d6178576569676874496e76616c6964001200384e6f74486f6c64696e674665657300130030546f6f457870656e736976650014001054726170040028010c7536340015004c556e68616e646c656458636d56657273696f6e001600485765696768744c696d69745265616368656404002801185765696768740017001c426172726965720018004c5765696768744e6f74436f6d70757461626c6500190000c5010c0c78636d087632284f726967696e4b696e64000110184e617469766500000040536f7665726569676e4163636f756e74000100245375706572757365720002000c58636d00030000c9010c0c78636d38646f75626c655f656e636f64656434446f75626c65456e636f646564040454000004011c656e636f64656430011c5665633c75383e0000cd01100c78636d087632286d756c74696173736574404d756c7469417373657446696c74657200010820446566696e69746504009d01012c4d756c74694173736574730000001057696c640400d101013857696c644d756c7469417373657400010000d101100c78636d087632286d756c746961737365743857696c644d756c746941737365740001080c416c6c00000014416c6c4f660801086964a901011c4173736574496400010c66756ed501013c57696c6446756e676962696c69747900010000d501100c78636d087632286d756c746961737365743c57696c6446756e676962696c6974790001082046756e6769626c650000002c4e6f6e46756e6769626c6500010000d9010c0c78636d0876322c5765696768744c696d697400010824556e6c696d697465640000001c4c696d69746564040024010c75363400010000dd010c0c78636d0876330c58636d041043616c6c00000400e10101585665633c496e737472756374696f6e3c43616c6c3e3e0000e101000002e50100e5010c0c78636d0876332c496e737472756374696f6e041043616c6c0001c034576974686472617741737365740400e901012c4d756c7469417373657473000000545265736572766541737365744465706f73697465640400e901012c4d756c7469417373657473000100585265636569766554656c65706f7274656441737365740400e901012c4d756c7469417373657473000200345175657279526573706f6e736510012071756572795f696424011c51756572794964000120726573706f6e7365fd010120526573706f6e73650001286d61785f77656967687420011857656967687400011c71756572696572250201544f7074696f6e3c4d756c74694c6f636174696f6e3e000300345472616e736665724173736574080118617373657473e901012c4d756c746941737365747300012c62656e65666963696172795c01344d756c74694c6f636174696f6e000400505472616e736665725265736572766541737365740c0118617373657473e901012c4d756c7469417373657473000110646573745c01344d756c74694c6f636174696f6e00010c78636ddd01011c58636d3c28293e000500205472616e736163740c012c6f726967696e5f6b696e64c50101284f726967696e4b696e64000158726571756972655f7765696768745f61745f6d6f737420011857656967687400011063616c6cc901014c446f75626c65456e636f6465643c43616c6c3e0006006448726d704e65774368616e6e656c4f70656e526571756573740c011873656e64657268010c7533320001406d61785f6d6573736167655f73697a6568010c7533320001306d61785f636170616369747968010c7533320007004c48726d704368616e6e656c4163636570746564040124726563697069656e7468010c7533320008004848726d704368616e6e656c436c6f73696e670c0124696e69746961746f7268010c75333200011873656e64657268010c753332000124726563697069656e7468010c7533320009002c436c6561724f726967696e000a003444657363656e644f726967696e0400600154496e746572696f724d756c74694c6f636174696f6e000b002c5265706f72744572726f720400290201445175657279526573706f6e7365496e666f000c00304465706f73697441737365740801186173736574732d0201404d756c7469417373657446696c74657200012c62656e65666963696172795c01344d756c74694c6f636174696f6e000d004c4465706f7369745265736572766541737365740c01186173736574732d0201404d756c7469417373657446696c746572000110646573745c01344d756c74694c6f636174696f6e00010c78636ddd01011c58636d3c28293e000e003445786368616e676541737365740c0110676976652d0201404d756c7469417373657446696c74657200011077616e74e901012c4d756c746941737365747300011c6d6178696d616c380110626f6f6c000f005c496e6974696174655265736572766557697468647261770c01186173736574732d0201404d756c7469417373657446696c74657200011c726573657276655c01344d756c74694c6f636174696f6e00010c78636ddd01011c58636d3c28293e00100040496e69746961746554656c65706f72740c01186173736574732d0201404d756c7469417373657446696c746572000110646573745c01344d756c74694c6f636174696f6e00010c78636ddd01011c58636d3c28293e001100345265706f7274486f6c64696e67080134726573706f6e73655f696e666f290201445175657279526573706f6e7365496e666f0001186173736574732d0201404d756c7469417373657446696c74657200120030427579457865637574696f6e08011066656573f10101284d756c746941737365740001307765696768745f6c696d69743902012c5765696768744c696d697400130034526566756e64537572706c75730014003c5365744572726f7248616e646c65720400dd01012458636d3c43616c6c3e0015002c536574417070656e6469780400dd01012458636d3c43616c6c3e00160028436c6561724572726f7200170028436c61696d4173736574080118617373657473e901012c4d756c74694173736574730001187469636b65745c01344d756c74694c6f636174696f6e0018001054726170040024010c7536340019004053756273637269626556657273696f6e08012071756572795f696424011c5175657279496400014c6d61785f726573706f6e73655f776569676874200118576569676874001a0048556e73756273637269626556657273696f6e001b00244275726e41737365740400e901012c4d756c7469417373657473001c002c45787065637441737365740400e901012c4d756c7469417373657473001d00304578706563744f726967696e0400250201544f7074696f6e3c4d756c74694c6f636174696f6e3e001e002c4578706563744572726f720400010201504f7074696f6e3c287533322c204572726f72293e001f00504578706563745472616e7361637453746174757304001d0201384d617962654572726f72436f64650020002c517565727950616c6c657408012c6d6f64756c655f6e616d6530011c5665633c75383e000134726573706f6e73655f696e666f290201445175657279526573706f6e7365496e666f0021003045787065637450616c6c6574140114696e64657868010c7533320001106e616d6530011c5665633c75383e00012c6d6f64756c655f6e616d6530011c5665633c75383e00012c63726174655f6d616a6f7268010c75333200013c6d696e5f63726174655f6d696e6f7268010c753332002200505265706f72745472616e736163745374617475730400290201445175657279526573706f6e7365496e666f0023004c436c6561725472616e736163745374617475730024003c556e6976657273616c4f726967696e04006401204a756e6374696f6e002500344578706f72744d6573736167650c011c6e6574776f726b7001244e6574776f726b496400012c64657374696e6174696f6e600154496e746572696f724d756c74694c6f636174696f6e00010c78636ddd01011c58636d3c28293e002600244c6f636b41737365740801146173736574f10101284d756c74694173736574000120756e6c6f636b65725c01344d756c74694c6f636174696f6e0027002c556e6c6f636b41737365740801146173736574f10101284d756c746941737365740001187461726765745c01344d756c74694c6f636174696f6e002800384e6f7465556e6c6f636b61626c650801146173736574f10101284d756c746941737365740001146f776e65725c01344d756c74694c6f636174696f6e0029003452657175657374556e6c6f636b0801146173736574f10101284d756c746941737365740001186c6f636b65725c01344d756c74694c6f636174696f6e002a002c536574466565734d6f64650401306a69745f7769746864726177380110626f6f6c002b0020536574546f70696304000401205b75383b2033325d002c0028436c656172546f706963002d002c416c6961734f726967696e04005c01344d756c74694c6f636174696f6e002e003c556e70616964457865637574696f6e0801307765696768745f6c696d69743902012c5765696768744c696d6974000130636865636b5f6f726967696e250201544f7074696f6e3c4d756c74694c6f636174696f6e3e002f0000e901100c78636d087633286d756c746961737365742c4d756c746941737365747300000400ed01013c5665633c4d756c746941737365743e0000ed01000002f10100f101100c78636d087633286d756c74696173736574284d756c746941737365740000080108696480011c4173736574496400010c66756ef501012c46756e676962696c6974790000f501100c78636d087633286d756c746961737365742c46756e676962696c6974790001082046756e6769626c650400580110753132380000002c4e6f6e46756e6769626c650400f90101344173736574496e7374616e636500010000f901100c78636d087633286d756c74696173736574344173736574496e7374616e636500011824556e646566696e656400000014496e64657804005801107531323800010018417272617934040034011c5b75383b20345d0002001841727261793804007901011c5b75383b20385d0003001c4172726179313604005401205b75383b2031365d0004001c4172726179333204000401205b75383b2033325d00050000fd010c0c78636d08763320526573706f6e7365000118104e756c6c000000184173736574730400e901012c4d756c74694173736574730001003c457865637574696f6e526573756c740400010201504f7074696f6e3c287533322c204572726f72293e0002001c56657273696f6e040010013873757065723a3a56657273696f6e0003002c50616c6c657473496e666f04000d020198426f756e6465645665633c50616c6c6574496e666f2c204d617850616c6c657473496e666f3e000400384469737061746368526573756c7404001d0201384d617962654572726f72436f646500050000010204184f7074696f6e0404540105020108104e6f6e6500000010536f6d65040005020000010000050200000408100902000902100c78636d08763318747261697473144572726f720001a0204f766572666c6f7700000034556e696d706c656d656e74656400010060556e74727573746564526573657276654c6f636174696f6e00020064556e7472757374656454656c65706f72744c6f636174696f6e000300304c6f636174696f6e46756c6c000400544c6f636174696f6e4e6f74496e7665727469626c65000500244261644f726967696e0006003c496e76616c69644c6f636174696f6e0007003441737365744e6f74466f756e64000800544661696c6564546f5472616e7361637441737365740009003c4e6f74576974686472617761626c65000a00484c6f636174696f6e43616e6e6f74486f6c64000b0054457863656564734d61784d65737361676553697a65000c005844657374696e6174696f6e556e737570706f72746564000d00245472616e73706f7274000e0028556e726f757461626c65000f0030556e6b6e6f776e436c61696d001000384661696c6564546f4465636f6465001100404d6178576569676874496e76616c6964001200384e6f74486f6c64696e674665657300130030546f6f457870656e736976650014001054726170040028010c753634001500404578706563746174696f6e46616c73650016003850616c6c65744e6f74466f756e64001700304e616d654d69736d617463680018004c56657273696f6e496e636f6d70617469626c6500190050486f6c64696e67576f756c644f766572666c6f77001a002c4578706f72744572726f72001b00385265616e63686f724661696c6564001c00184e6f4465616c001d0028466565734e6f744d6574001e00244c6f636b4572726f72001f00304e6f5065726d697373696f6e00200028556e616e63686f726564002100384e6f744465706f73697461626c650022004c556e68616e646c656458636d56657273696f6e002300485765696768744c696d69745265616368656404002001185765696768740024001c426172726965720025004c5765696768744e6f74436f6d70757461626c650026004445786365656473537461636b4c696d6974002700000d020c4c626f756e6465645f636f6c6c656374696f6e732c626f756e6465645f76656328426f756e646564566563080454011102045300000400190201185665633c543e000011020c0c78636d0876332850616c6c6574496e666f0000180114696e64657868010c7533320001106e616d6515020180426f756e6465645665633c75382c204d617850616c6c65744e616d654c656e3e00012c6d6f64756c655f6e616d6515020180426f756e6465645665633c75382c204d617850616c6c65744e616d654c656e3e0001146d616a6f7268010c7533320001146d696e6f7268010c753332000114706174636868010c753332000015020c4c626f756e6465645f636f6c6c656374696f6e732c626f756e6465645f76656328426f756e64656456656308045401080453000004003001185665633c543e000019020000021102001d020c0c78636d087633384d617962654572726f72436f646500010c1c53756363657373000000144572726f7204002102018c426f756e6465645665633c75382c204d617844697370617463684572726f724c656e3e000100385472756e63617465644572726f7204002102018c426f756e6465645665633c75382c204d617844697370617463684572726f724c656e3e0002000021020c4c626f756e6465645f636f6c6c656374696f6e732c626f756e6465645f76656328426f756e64656456656308045401080453000004003001185665633c543e0000250204184f7074696f6e040454015c0108104e6f6e6500000010536f6d6504005c000001000029020c0c78636d087633445175657279526573706f6e7365496e666f00000c012c64657374696e6174696f6e5c01344d756c74694c6f636174696f6e00012071756572795f696424011c517565727949640001286d61785f77656967687420011857656967687400002d02100c78636d087633286d756c74696173736574404d756c7469417373657446696c74657200010820446566696e6974650400e901012c4d756c74694173736574730000001057696c6404003102013857696c644d756c74694173736574000100003102100c78636d087633286d756c746961737365743857696c644d756c746941737365740001100c416c6c00000014416c6c4f66080108696480011c4173736574496400010c66756e3502013c57696c6446756e676962696c69747900010028416c6c436f756e746564040068010c75333200020030416c6c4f66436f756e7465640c0108696480011c4173736574496400010c66756e3502013c57696c6446756e676962696c697479000114636f756e7468010c753332000300003502100c78636d087633286d756c746961737365743c57696c6446756e676962696c6974790001082046756e6769626c650000002c4e6f6e46756e6769626c650001000039020c0c78636d0876332c5765696768744c696d697400010824556e6c696d697465640000001c4c696d697465640400200118576569676874000100003d020c2c73746167696e675f78636d0876340c58636d041043616c6c00000400410201585665633c496e737472756374696f6e3c43616c6c3e3e0000410200000245020045020c2c73746167696e675f78636d0876342c496e737472756374696f6e041043616c6c0001c03457697468647261774173736574040049020118417373657473000000545265736572766541737365744465706f7369746564040049020118417373657473000100585265636569766554656c65706f727465644173736574040049020118417373657473000200345175657279526573706f6e736510012071756572795f696424011c51756572794964000120726573706f6e73655d020120526573706f6e73650001286d61785f77656967687420011857656967687400011c71756572696572710201404f7074696f6e3c4c6f636174696f6e3e000300345472616e7366657241737365740801186173736574734902011841737365747300012c62656e65666963696172798401204c6f636174696f6e000400505472616e736665725265736572766541737365740c011861737365747349020118417373657473000110646573748401204c6f636174696f6e00010c78636d3d02011c58636d3c28293e000500205472616e736163740c012c6f726967696e5f6b696e64c50101284f726967696e4b696e64000158726571756972655f7765696768745f61745f6d6f737420011857656967687400011063616c6cc901014c446f75626c65456e636f6465643c43616c6c3e0006006448726d704e65774368616e6e656c4f70656e526571756573740c011873656e64657268010c7533320001406d61785f6d6573736167655f73697a6568010c7533320001306d61785f636170616369747968010c7533320007004c48726d704368616e6e656c4163636570746564040124726563697069656e7468010c7533320008004848726d704368616e6e656c436c6f73696e670c0124696e69746961746f7268010c75333200011873656e64657268010c753332000124726563697069656e7468010c7533320009002c436c6561724f726967696e000a003444657363656e644f726967696e0400880140496e746572696f724c6f636174696f6e000b002c5265706f72744572726f720400750201445175657279526573706f6e7365496e666f000c00304465706f73697441737365740801186173736574737902012c417373657446696c74657200012c62656e65666963696172798401204c6f636174696f6e000d004c4465706f7369745265736572766541737365740c01186173736574737902012c417373657446696c746572000110646573748401204c6f636174696f6e00010c78636d3d02011c58636d3c28293e000e003445786368616e676541737365740c0110676976657902012c417373657446696c74657200011077616e744902011841737365747300011c6d6178696d616c380110626f6f6c000f005c496e6974696174655265736572766557697468647261770c01186173736574737902012c417373657446696c74657200011c726573657276658401204c6f636174696f6e00010c78636d3d02011c58636d3c28293e00100040496e69746961746554656c65706f72740c01186173736574737902012c417373657446696c746572000110646573748401204c6f636174696f6e00010c78636d3d02011c58636d3c28293e001100345265706f7274486f6c64696e67080134726573706f6e73655f696e666f750201445175657279526573706f6e7365496e666f0001186173736574737902012c417373657446696c74657200120030427579457865637574696f6e080110666565735102011441737365740001307765696768745f6c696d69743902012c5765696768744c696d697400130034526566756e64537572706c75730014003c5365744572726f7248616e646c657204003d02012458636d3c43616c6c3e0015002c536574417070656e64697804003d02012458636d3c43616c6c3e00160028436c6561724572726f7200170028436c61696d4173736574080118617373657473490201184173736574730001187469636b65748401204c6f636174696f6e0018001054726170040024010c7536340019004053756273637269626556657273696f6e08012071756572795f696424011c5175657279496400014c6d61785f726573706f6e73655f776569676874200118576569676874001a0048556e73756273637269626556657273696f6e001b00244275726e4173736574040049020118417373657473001c002c4578706563744173736574040049020118417373657473001d00304578706563744f726967696e0400710201404f7074696f6e3c4c6f636174696f6e3e001e002c4578706563744572726f720400010201504f7074696f6e3c287533322c204572726f72293e001f00504578706563745472616e7361637453746174757304001d0201384d617962654572726f72436f64650020002c517565727950616c6c657408012c6d6f64756c655f6e616d6530011c5665633c75383e000134726573706f6e73655f696e666f750201445175657279526573706f6e7365496e666f0021003045787065637450616c6c6574140114696e64657868010c7533320001106e616d6530011c5665633c75383e00012c6d6f64756c655f6e616d6530011c5665633c75383e00012c63726174655f6d616a6f7268010c75333200013c6d696e5f63726174655f6d696e6f7268010c753332002200505265706f72745472616e736163745374617475730400750201445175657279526573706f6e7365496e666f0023004c436c6561725472616e736163745374617475730024003c556e6976657273616c4f726967696e04009001204a756e6374696f6e002500344578706f72744d6573736167650c011c6e6574776f726b9801244e6574776f726b496400012c64657374696e6174696f6e880140496e746572696f724c6f636174696f6e00010c78636d3d02011c58636d3c28293e002600244c6f636b41737365740801146173736574510201144173736574000120756e6c6f636b65728401204c6f636174696f6e0027002c556e6c6f636b417373657408011461737365745102011441737365740001187461726765748401204c6f636174696f6e002800384e6f7465556e6c6f636b61626c6508011461737365745102011441737365740001146f776e65728401204c6f636174696f6e0029003452657175657374556e6c6f636b08011461737365745102011441737365740001186c6f636b65728401204c6f636174696f6e002a002c536574466565734d6f64650401306a69745f7769746864726177380110626f6f6c002b0020536574546f70696304000401205b75383b2033325d002c0028436c656172546f706963002d002c416c6961734f726967696e04008401204c6f636174696f6e002e003c556e70616964457865637574696f6e0801307765696768745f6c696d69743902012c5765696768744c696d6974000130636865636b5f6f726967696e710201404f7074696f6e3c4c6f636174696f6e3e002f00004902102c73746167696e675f78636d08763414617373657418417373657473000004004d0201285665633c41737365743e00004d020000025102005102102c73746167696e675f78636d08763414617373657414417373657400000801086964b8011c4173736574496400010c66756e5502012c46756e676962696c69747900005502102c73746167696e675f78636d0876341461737365742c46756e676962696c6974790001082046756e6769626c650400580110753132380000002c4e6f6e46756e6769626c650400590201344173736574496e7374616e6365000100005902102c73746167696e675f78636d087634146173736574344173736574496e7374616e636500011824556e646566696e656400000014496e64657804005801107531323800010018417272617934040034011c5b75383b20345d0002001841727261793804007901011c5b75383b20385d0003001c4172726179313604005401205b75383b2031365d0004001c4172726179333204000401205b75383b2033325d000500005d020c2c73746167696e675f78636d08763420526573706f6e7365000118104e756c6c000000184173736574730400490201184173736574730001003c457865637574696f6e526573756c740400010201504f7074696f6e3c287533322c204572726f72293e0002001c56657273696f6e040010013873757065723a3a56657273696f6e0003002c50616c6c657473496e666f040061020198426f756e6465645665633c50616c6c6574496e666f2c204d617850616c6c657473496e666f3e000400384469737061746368526573756c7404001d0201384d617962654572726f72436f64650005000061020c4c626f756e6465645f636f6c6c656374696f6e732c626f756e6465645f76656328426f756e6465645665630804540165020453000004006d0201185665633c543e000065020c2c73746167696e675f78636d0876342850616c6c6574496e666f0000180114696e64657868010c7533320001106e616d6569020180426f756e6465645665633c75382c204d617850616c6c65744e616d654c656e3e00012c6d6f64756c655f6e616d6569020180426f756e6465645665633c75382c204d617850616c6c65744e616d654c656e3e0001146d616a6f7268010c7533320001146d696e6f7268010c753332000114706174636868010c753332000069020c4c626f756e6465645f636f6c6c656374696f6e732c626f756e6465645f76656328426f756e64656456656308045401080453000004003001185665633c543e00006d02000002650200710204184f7074696f6e04045401840108104e6f6e6500000010536f6d65040084000001000075020c2c73746167696e675f78636d087634445175657279526573706f6e7365496e666f00000c012c64657374696e6174696f6e8401204c6f636174696f6e00012071756572795f696424011c517565727949640001286d61785f77656967687420011857656967687400007902102c73746167696e675f78636d0876341461737365742c417373657446696c74657200010820446566696e6974650400490201184173736574730000001057696c6404007d02012457696c644173736574000100007d02102c73746167696e675f78636d0876341461737365742457696c6441737365740001100c416c6c00000014416c6c4f660801086964b8011c4173736574496400010c66756e8102013c57696c6446756e676962696c69747900010028416c6c436f756e746564040068010c75333200020030416c6c4f66436f756e7465640c01086964b8011c4173736574496400010c66756e8102013c57696c6446756e676962696c697479000114636f756e7468010c753332000300008102102c73746167696e675f78636d0876341461737365743c57696c6446756e676962696c6974790001082046756e6769626c650000002c4e6f6e46756e6769626c65000100008502080c78636d3c56657273696f6e656441737365747300010c08563204009d01013c76323a3a4d756c74694173736574730001000856330400e901013c76333a3a4d756c746941737365747300030008563404004902012876343a3a417373657473000400008902080c78636d3056657273696f6e656458636d042c52756e74696d6543616c6c00010c08563204008d02015076323a3a58636d3c52756e74696d6543616c6c3e00020008563304009d02015076333a3a58636d3c52756e74696d6543616c6c3e0003000856340400a902015076343a3a58636d3c52756e74696d6543616c6c3e000400008d020c0c78636d0876320c58636d042c52756e74696d6543616c6c00000400910201745665633c496e737472756374696f6e3c52756e74696d6543616c6c3e3e0000910200000295020095020c0c78636d0876322c496e737472756374696f6e042c52756e74696d6543616c6c000170345769746864726177417373657404009d01012c4d756c7469417373657473000000545265736572766541737365744465706f736974656404009d01012c4d756c7469417373657473000100585265636569766554656c65706f72746564417373657404009d01012c4d756c7469417373657473000200345175657279526573706f6e73650c012071756572795f696424011c51756572794964000120726573706f6e7365b5010120526573706f6e73650001286d61785f77656967687424010c753634000300345472616e7366657241737365740801186173736574739d01012c4d756c746941737365747300012c62656e6566696369617279c001344d756c74694c6f636174696f6e000400505472616e736665725265736572766541737365740c01186173736574739d01012c4d756c746941737365747300011064657374c001344d756c74694c6f636174696f6e00010c78636d9101011c58636d3c28293e000500205472616e736163740c012c6f726967696e5f74797065c50101284f726967696e4b696e64000158726571756972655f7765696768745f61745f6d6f737424010c75363400011063616c6c99020168446f75626c65456e636f6465643c52756e74696d6543616c6c3e0006006448726d704e65774368616e6e656c4f70656e526571756573740c011873656e64657268010c7533320001406d61785f6d6573736167655f73697a6568010c7533320001306d61785f636170616369747968010c7533320007004c48726d704368616e6e656c4163636570746564040124726563697069656e7468010c7533320008004848726d704368616e6e656c436c6f73696e670c0124696e69746961746f7268010c75333200011873656e64657268010c753332000124726563697069656e7468010c7533320009002c436c6561724f726967696e000a003444657363656e644f726967696e0400c40154496e746572696f724d756c74694c6f636174696f6e000b002c5265706f72744572726f720c012071756572795f696424011c5175657279496400011064657374c001344d756c74694c6f636174696f6e00014c6d61785f726573706f6e73655f77656967687424010c753634000c00304465706f73697441737365740c0118617373657473cd0101404d756c7469417373657446696c7465720001286d61785f61737365747368010c75333200012c62656e6566696369617279c001344d756c74694c6f636174696f6e000d004c4465706f736974526573657276654173736574100118617373657473cd0101404d756c7469417373657446696c7465720001286d61785f61737365747368010c75333200011064657374c001344d756c74694c6f636174696f6e00010c78636d9101011c58636d3c28293e000e003445786368616e6765417373657408011067697665cd0101404d756c7469417373657446696c74657200011c726563656976659d01012c4d756c7469417373657473000f005c496e6974696174655265736572766557697468647261770c0118617373657473cd0101404d756c7469417373657446696c74657200011c72657365727665c001344d756c74694c6f636174696f6e00010c78636d9101011c58636d3c28293e00100040496e69746961746554656c65706f72740c0118617373657473cd0101404d756c7469417373657446696c74657200011064657374c001344d756c74694c6f636174696f6e00010c78636d9101011c58636d3c28293e001100305175657279486f6c64696e6710012071756572795f696424011c5175657279496400011064657374c001344d756c74694c6f636174696f6e000118617373657473cd0101404d756c7469417373657446696c74657200014c6d61785f726573706f6e73655f77656967687424010c75363400120030427579457865637574696f6e08011066656573a50101284d756c746941737365740001307765696768745f6c696d6974d901012c5765696768744c696d697400130034526566756e64537572706c75730014003c5365744572726f7248616e646c657204008d02014058636d3c52756e74696d6543616c6c3e0015002c536574417070656e64697804008d02014058636d3c52756e74696d6543616c6c3e00160028436c6561724572726f7200170028436c61696d41737365740801186173736574739d01012c4d756c74694173736574730001187469636b6574c001344d756c74694c6f636174696f6e0018001054726170040024010c7536340019004053756273637269626556657273696f6e08012071756572795f696424011c5175657279496400014c6d61785f726573706f6e73655f77656967687424010c753634001a0048556e73756273637269626556657273696f6e001b000099020c0c78636d38646f75626c655f656e636f64656434446f75626c65456e636f646564040454000004011c656e636f64656430011c5665633c75383e00009d020c0c78636d0876330c58636d041043616c6c00000400a10201585665633c496e737472756374696f6e3c43616c6c3e3e0000a102000002a50200a5020c0c78636d0876332c496e737472756374696f6e041043616c6c0001c034576974686472617741737365740400e901012c4d756c7469417373657473000000545265736572766541737365744465706f73697465640400e901012c4d756c7469417373657473000100585265636569766554656c65706f7274656441737365740400e901012c4d756c7469417373657473000200345175657279526573706f6e736510012071756572795f696424011c51756572794964000120726573706f6e7365fd010120526573706f6e73650001286d61785f77656967687420011857656967687400011c71756572696572250201544f7074696f6e3c4d756c74694c6f636174696f6e3e000300345472616e736665724173736574080118617373657473e901012c4d756c746941737365747300012c62656e65666963696172795c01344d756c74694c6f636174696f6e000400505472616e736665725265736572766541737365740c0118617373657473e901012c4d756c7469417373657473000110646573745c01344d756c74694c6f636174696f6e00010c78636ddd01011c58636d3c28293e000500205472616e736163740c012c6f726967696e5f6b696e64c50101284f726967696e4b696e64000158726571756972655f7765696768745f61745f6d6f737420011857656967687400011063616c6c9902014c446f75626c65456e636f6465643c43616c6c3e0006006448726d704e65774368616e6e656c4f70656e526571756573740c011873656e64657268010c7533320001406d61785f6d6573736167655f73697a6568010c7533320001306d61785f636170616369747968010c7533320007004c48726d704368616e6e656c4163636570746564040124726563697069656e7468010c7533320008004848726d704368616e6e656c436c6f73696e670c0124696e69746961746f7268010c75333200011873656e64657268010c753332000124726563697069656e7468010c7533320009002c436c6561724f726967696e000a003444657363656e644f726967696e0400600154496e746572696f724d756c74694c6f636174696f6e000b002c5265706f72744572726f720400290201445175657279526573706f6e7365496e666f000c00304465706f73697441737365740801186173736574732d0201404d756c7469417373657446696c74657200012c62656e65666963696172795c01344d756c74694c6f636174696f6e000d004c4465706f7369745265736572766541737365740c01186173736574732d0201404d756c7469417373657446696c746572000110646573745c01344d756c74694c6f636174696f6e00010c78636ddd01011c58636d3c28293e000e003445786368616e676541737365740c0110676976652d0201404d756c7469417373657446696c74657200011077616e74e901012c4d756c746941737365747300011c6d6178696d616c380110626f6f6c000f005c496e6974696174655265736572766557697468647261770c01186173736574732d0201404d756c7469417373657446696c74657200011c726573657276655c01344d756c74694c6f636174696f6e00010c78636ddd01011c58636d3c28293e00100040496e69746961746554656c65706f72740c01186173736574732d0201404d756c7469417373657446696c746572000110646573745c01344d756c74694c6f636174696f6e00010c78636ddd01011c58636d3c28293e001100345265706f7274486f6c64696e67080134726573706f6e73655f696e666f290201445175657279526573706f6e7365496e666f0001186173736574732d0201404d756c7469417373657446696c74657200120030427579457865637574696f6e08011066656573f10101284d756c746941737365740001307765696768745f6c696d69743902012c5765696768744c696d697400130034526566756e64537572706c75730014003c5365744572726f7248616e646c657204009d02012458636d3c43616c6c3e0015002c536574417070656e64697804009d02012458636d3c43616c6c3e00160028436c6561724572726f7200170028436c61696d4173736574080118617373657473e901012c4d756c74694173736574730001187469636b65745c01344d756c74694c6f636174696f6e0018001054726170040024010c7536340019004053756273637269626556657273696f6e08012071756572795f696424011c5175657279496400014c6d61785f726573706f6e73655f776569676874200118576569676874001a0048556e73756273637269626556657273696f6e001b00244275726e41737365740400e901012c4d756c7469417373657473001c002c45787065637441737365740400e901012c4d756c7469417373657473001d00304578706563744f726967696e0400250201544f7074696f6e3c4d756c74694c6f636174696f6e3e001e002c4578706563744572726f720400010201504f7074696f6e3c287533322c204572726f72293e001f00504578706563745472616e7361637453746174757304001d0201384d617962654572726f72436f64650020002c517565727950616c6c657408012c6d6f64756c655f6e616d6530011c5665633c75383e000134726573706f6e73655f696e666f290201445175657279526573706f6e7365496e666f0021003045787065637450616c6c6574140114696e64657868010c7533320001106e616d6530011c5665633c75383e00012c6d6f64756c655f6e616d6530011c5665633c75383e00012c63726174655f6d616a6f7268010c75333200013c6d696e5f63726174655f6d696e6f7268010c753332002200505265706f72745472616e736163745374617475730400290201445175657279526573706f6e7365496e666f0023004c436c6561725472616e736163745374617475730024003c556e6976657273616c4f726967696e04006401204a756e6374696f6e002500344578706f72744d6573736167650c011c6e6574776f726b7001244e6574776f726b496400012c64657374696e6174696f6e600154496e746572696f724d756c74694c6f636174696f6e00010c78636ddd01011c58636d3c28293e002600244c6f636b41737365740801146173736574f10101284d756c74694173736574000120756e6c6f636b65725c01344d756c74694c6f636174696f6e0027002c556e6c6f636b41737365740801146173736574f10101284d756c746941737365740001187461726765745c01344d756c74694c6f636174696f6e002800384e6f7465556e6c6f636b61626c650801146173736574f10101284d756c746941737365740001146f776e65725c01344d756c74694c6f636174696f6e0029003452657175657374556e6c6f636b0801146173736574f10101284d756c746941737365740001186c6f636b65725c01344d756c74694c6f636174696f6e002a002c536574466565734d6f64650401306a69745f7769746864726177380110626f6f6c002b0020536574546f70696304000401205b75383b2033325d002c0028436c656172546f706963002d002c416c6961734f726967696e04005c01344d756c74694c6f636174696f6e002e003c556e70616964457865637574696f6e0801307765696768745f6c696d69743902012c5765696768744c696d6974000130636865636b5f6f726967696e250201544f7074696f6e3c4d756c74694c6f636174696f6e3e002f0000a9020c2c73746167696e675f78636d0876340c58636d041043616c6c00000400ad0201585665633c496e737472756374696f6e3c43616c6c3e3e0000ad02000002b10200b1020c2c73746167696e675f78636d0876342c496e737472756374696f6e041043616c6c0001c03457697468647261774173736574040049020118417373657473000000545265736572766541737365744465706f7369746564040049020118417373657473000100585265636569766554656c65706f727465644173736574040049020118417373657473000200345175657279526573706f6e736510012071756572795f696424011c51756572794964000120726573706f6e73655d020120526573706f6e73650001286d61785f77656967687420011857656967687400011c71756572696572710201404f7074696f6e3c4c6f636174696f6e3e000300345472616e7366657241737365740801186173736574734902011841737365747300012c62656e65666963696172798401204c6f636174696f6e000400505472616e736665725265736572766541737365740c011861737365747349020118417373657473000110646573748401204c6f636174696f6e00010c78636d3d02011c58636d3c28293e000500205472616e736163740c012c6f726967696e5f6b696e64c50101284f726967696e4b696e64000158726571756972655f7765696768745f61745f6d6f737420011857656967687400011063616c6c9902014c446f75626c65456e636f6465643c43616c6c3e0006006448726d704e65774368616e6e656c4f70656e526571756573740c011873656e64657268010c7533320001406d61785f6d6573736167655f73697a6568010c7533320001306d61785f636170616369747968010c7533320007004c48726d704368616e6e656c4163636570746564040124726563697069656e7468010c7533320008004848726d704368616e6e656c436c6f73696e670c0124696e69746961746f7268010c75333200011873656e64657268010c753332000124726563697069656e7468010c7533320009002c436c6561724f726967696e000a003444657363656e644f726967696e0400880140496e746572696f724c6f636174696f6e000b002c5265706f72744572726f720400750201445175657279526573706f6e7365496e666f000c00304465706f73697441737365740801186173736574737902012c417373657446696c74657200012c62656e65666963696172798401204c6f636174696f6e000d004c4465706f7369745265736572766541737365740c01186173736574737902012c417373657446696c746572000110646573748401204c6f636174696f6e00010c78636d3d02011c58636d3c28293e000e003445786368616e676541737365740c0110676976657902012c417373657446696c74657200011077616e744902011841737365747300011c6d6178696d616c380110626f6f6c000f005c496e6974696174655265736572766557697468647261770c01186173736574737902012c417373657446696c74657200011c726573657276658401204c6f636174696f6e00010c78636d3d02011c58636d3c28293e00100040496e69746961746554656c65706f72740c01186173736574737902012c417373657446696c746572000110646573748401204c6f636174696f6e00010c78636d3d02011c58636d3c28293e001100345265706f7274486f6c64696e67080134726573706f6e73655f696e666f750201445175657279526573706f6e7365496e666f0001186173736574737902012c417373657446696c74657200120030427579457865637574696f6e080110666565735102011441737365740001307765696768745f6c696d69743902012c5765696768744c696d697400130034526566756e64537572706c75730014003c5365744572726f7248616e646c65720400a902012458636d3c43616c6c3e0015002c536574417070656e6469780400a902012458636d3c43616c6c3e00160028436c6561724572726f7200170028436c61696d4173736574080118617373657473490201184173736574730001187469636b65748401204c6f636174696f6e0018001054726170040024010c7536340019004053756273637269626556657273696f6e08012071756572795f696424011c5175657279496400014c6d61785f726573706f6e73655f776569676874200118576569676874001a0048556e73756273637269626556657273696f6e001b00244275726e4173736574040049020118417373657473001c002c4578706563744173736574040049020118417373657473001d00304578706563744f726967696e0400710201404f7074696f6e3c4c6f636174696f6e3e001e002c4578706563744572726f720400010201504f7074696f6e3c287533322c204572726f72293e001f00504578706563745472616e7361637453746174757304001d0201384d617962654572726f72436f64650020002c517565727950616c6c657408012c6d6f64756c655f6e616d6530011c5665633c75383e000134726573706f6e73655f696e666f750201445175657279526573706f6e7365496e666f0021003045787065637450616c6c6574140114696e64657868010c7533320001106e616d6530011c5665633c75383e00012c6d6f64756c655f6e616d6530011c5665633c75383e00012c63726174655f6d616a6f7268010c75333200013c6d696e5f63726174655f6d696e6f7268010c753332002200505265706f72745472616e736163745374617475730400750201445175657279526573706f6e7365496e666f0023004c436c6561725472616e736163745374617475730024003c556e6976657273616c4f726967696e04009001204a756e6374696f6e002500344578706f72744d6573736167650c011c6e6574776f726b9801244e6574776f726b496400012c64657374696e6174696f6e880140496e746572696f724c6f636174696f6e00010c78636d3d02011c58636d3c28293e002600244c6f636b41737365740801146173736574510201144173736574000120756e6c6f636b65728401204c6f636174696f6e0027002c556e6c6f636b417373657408011461737365745102011441737365740001187461726765748401204c6f636174696f6e002800384e6f7465556e6c6f636b61626c6508011461737365745102011441737365740001146f776e65728401204c6f636174696f6e0029003452657175657374556e6c6f636b08011461737365745102011441737365740001186c6f636b65728401204c6f636174696f6e002a002c536574466565734d6f64650401306a69745f7769746864726177380110626f6f6c002b0020536574546f70696304000401205b75383b2033325d002c0028436c656172546f706963002d002c416c6961734f726967696e04008401204c6f636174696f6e002e003c556e70616964457865637574696f6e0801307765696768745f6c696d69743902012c5765696768744c696d6974000130636865636b5f6f726967696e710201404f7074696f6e3c4c6f636174696f6e3e002f0000b502105073746167696e675f78636d5f6578656375746f72187472616974733861737365745f7472616e73666572305472616e73666572547970650001102054656c65706f7274000000304c6f63616c526573657276650001004844657374696e6174696f6e526573657276650002003452656d6f7465526573657276650400bc014456657273696f6e65644c6f636174696f6e00030000b902080c78636d4056657273696f6e656441737365744964000108085633040080012c76333a3a417373657449640003000856340400b8012c76343a3a4173736574496400040000bd0204184f7074696f6e04045401200108104e6f6e6500000010536f6d650400200000010000c1020000050200c5020c306672616d655f73797374656d186c696d69747330426c6f636b5765696768747300000c0128626173655f626c6f636b2001185765696768740001246d61785f626c6f636b2001185765696768740001247065725f636c617373c90201845065724469737061746368436c6173733c57656967687473506572436c6173733e0000c9020c346672616d655f737570706f7274206469737061746368405065724469737061746368436c61737304045401cd02000c01186e6f726d616ccd0201045400012c6f7065726174696f6e616ccd020104540001246d616e6461746f7279cd020104540000cd020c306672616d655f73797374656d186c696d6974733c57656967687473506572436c6173730000100138626173655f65787472696e7369632001185765696768740001346d61785f65787472696e736963bd0201384f7074696f6e3c5765696768743e0001246d61785f746f74616cbd0201384f7074696f6e3c5765696768743e0001207265736572766564bd0201384f7074696f6e3c5765696768743e0000d1020c306672616d655f73797374656d186c696d6974732c426c6f636b4c656e677468000004010c6d6178d50201545065724469737061746368436c6173733c7533323e0000d5020c346672616d655f737570706f7274206469737061746368405065724469737061746368436c6173730404540110000c01186e6f726d616c1001045400012c6f7065726174696f6e616c100104540001246d616e6461746f7279100104540000d902082873705f776569676874733c52756e74696d65446257656967687400000801107265616428010c753634000114777269746528010c7536340000dd02082873705f76657273696f6e3852756e74696d6556657273696f6e0000200124737065635f6e616d65c102013452756e74696d65537472696e67000124696d706c5f6e616d65c102013452756e74696d65537472696e67000144617574686f72696e675f76657273696f6e10010c753332000130737065635f76657273696f6e10010c753332000130696d706c5f76657273696f6e10010c75333200011061706973e102011c4170697356656300014c7472616e73616374696f6e5f76657273696f6e10010c75333200013473746174655f76657273696f6e08010875380000e102040c436f7704045401e502000400e502000000e502000002e90200e9020000040879011000ed020c306672616d655f73797374656d1870616c6c6574144572726f720404540001203c496e76616c6964537065634e616d65000000685370656356657273696f6e4e65656473546f496e637265617365000100744661696c6564546f4578747261637452756e74696d6556657273696f6e0002004c4e6f6e44656661756c74436f6d706f736974650003003c4e6f6e5a65726f526566436f756e740004003043616c6c46696c7465726564000500444e6f7468696e67417574686f72697a656400060030556e617574686f72697a656400070000f1020c4c626f756e6465645f636f6c6c656374696f6e73407765616b5f626f756e6465645f766563385765616b426f756e64656456656308045401f502045300000400fd0201185665633c543e0000f5020c3c70616c6c65745f62616c616e6365731474797065732c42616c616e63654c6f636b041c42616c616e63650118000c01086964790101384c6f636b4964656e746966696572000118616d6f756e7418011c42616c616e636500011c726561736f6e73f902011c526561736f6e730000f9020c3c70616c6c65745f62616c616e6365731474797065731c526561736f6e7300010c0c466565000000104d6973630001000c416c6c00020000fd02000002f5020001030c4c626f756e6465645f636f6c6c656374696f6e732c626f756e6465645f76656328426f756e646564566563080454010503045300000400090301185665633c543e000005030c3c70616c6c65745f62616c616e6365731474797065732c52657365727665446174610844526573657276654964656e7469666965720179011c42616c616e6365011800080108696479010144526573657276654964656e746966696572000118616d6f756e7418011c42616c616e6365000009030000020503000d030c4c626f756e6465645f636f6c6c656374696f6e732c626f756e6465645f76656328426f756e646564566563080454011103045300000400210301185665633c543e000011030c3c70616c6c65745f62616c616e636573147479706573204964416d6f756e74080849640115031c42616c616e63650118000801086964150301084964000118616d6f756e7418011c42616c616e6365000015030840706f6c6b61646f745f72756e74696d654452756e74696d65486f6c64526561736f6e00010820507265696d61676504001903016c70616c6c65745f707265696d6167653a3a486f6c64526561736f6e000a00485374617465547269654d6967726174696f6e04001d03019c70616c6c65745f73746174655f747269655f6d6967726174696f6e3a3a486f6c64526561736f6e0062000019030c3c70616c6c65745f707265696d6167651870616c6c657428486f6c64526561736f6e00010420507265696d616765000000001d030c6c70616c6c65745f73746174655f747269655f6d6967726174696f6e1870616c6c657428486f6c64526561736f6e0001043c536c617368466f724d69677261746500000000210300000211030025030c4c626f756e6465645f636f6c6c656374696f6e732c626f756e6465645f76656328426f756e646564566563080454012903045300000400350301185665633c543e000029030c3c70616c6c65745f62616c616e636573147479706573204964416d6f756e7408084964012d031c42616c616e636501180008010869642d0301084964000118616d6f756e7418011c42616c616e636500002d030840706f6c6b61646f745f72756e74696d654c52756e74696d65467265657a65526561736f6e0001043c4e6f6d696e6174696f6e506f6f6c7304003103019470616c6c65745f6e6f6d696e6174696f6e5f706f6f6c733a3a467265657a65526561736f6e0027000031030c5c70616c6c65745f6e6f6d696e6174696f6e5f706f6f6c731870616c6c657430467265657a65526561736f6e00010438506f6f6c4d696e42616c616e636500000000350300000229030039030c3c70616c6c65745f62616c616e6365731870616c6c6574144572726f720804540004490001303856657374696e6742616c616e6365000000544c69717569646974795265737472696374696f6e730001004c496e73756666696369656e7442616c616e6365000200484578697374656e7469616c4465706f73697400030034457870656e646162696c6974790004005c4578697374696e6756657374696e675363686564756c650005002c446561644163636f756e740006003c546f6f4d616e79526573657276657300070030546f6f4d616e79486f6c647300080038546f6f4d616e79467265657a65730009004c49737375616e63654465616374697661746564000a002444656c74615a65726f000b00003d03103870616c6c65745f7374616b696e671870616c6c65741870616c6c6574144572726f72040454000170344e6f74436f6e74726f6c6c6572000000204e6f74537461736800010034416c7265616479426f6e64656400020034416c726561647950616972656400030030456d70747954617267657473000400384475706c6963617465496e64657800050044496e76616c6964536c617368496e64657800060040496e73756666696369656e74426f6e64000700304e6f4d6f72654368756e6b73000800344e6f556e6c6f636b4368756e6b0009003046756e646564546172676574000a0048496e76616c6964457261546f526577617264000b0068496e76616c69644e756d6265724f664e6f6d696e6174696f6e73000c00484e6f74536f72746564416e64556e69717565000d0038416c7265616479436c61696d6564000e002c496e76616c696450616765000f0054496e636f7272656374486973746f7279446570746800100058496e636f7272656374536c617368696e675370616e7300110020426164537461746500120038546f6f4d616e7954617267657473001300244261645461726765740014004043616e6e6f744368696c6c4f7468657200150044546f6f4d616e794e6f6d696e61746f727300160044546f6f4d616e7956616c696461746f727300170040436f6d6d697373696f6e546f6f4c6f770018002c426f756e644e6f744d657400190050436f6e74726f6c6c657244657072656361746564001a004c43616e6e6f74526573746f72654c6564676572001b000041030c3870616c6c65745f7574696c6974791870616c6c6574144572726f7204045400010430546f6f4d616e7943616c6c730000000045030c2870616c6c65745f78636d1870616c6c6574144572726f720404540001642c556e726561636861626c650000002c53656e644661696c7572650001002046696c746572656400020048556e776569676861626c654d6573736167650003006044657374696e6174696f6e4e6f74496e7665727469626c6500040014456d7074790005003843616e6e6f745265616e63686f7200060034546f6f4d616e7941737365747300070034496e76616c69644f726967696e0008002842616456657273696f6e0009002c4261644c6f636174696f6e000a00384e6f537562736372697074696f6e000b0044416c726561647953756273637269626564000c005843616e6e6f74436865636b4f757454656c65706f7274000d00284c6f7742616c616e6365000e0030546f6f4d616e794c6f636b73000f004c4163636f756e744e6f74536f7665726569676e00100028466565734e6f744d6574001100304c6f636b4e6f74466f756e6400120014496e5573650013005c496e76616c696441737365744e6f74436f6e637265746500140068496e76616c69644173736574556e6b6e6f776e5265736572766500150078496e76616c69644173736574556e737570706f72746564526573657276650016003c546f6f4d616e795265736572766573001700604c6f63616c457865637574696f6e496e636f6d706c657465001800004903102873705f72756e74696d651c67656e657269634c756e636865636b65645f65787472696e73696348556e636865636b656445787472696e736963101c4164647265737301f41043616c6c01e0245369676e6174757265017d01144578747261014d03000400300000004d03000004285103550359035d03610369036d0371037503790300510310306672616d655f73797374656d28657874656e73696f6e7354636865636b5f6e6f6e5f7a65726f5f73656e64657248436865636b4e6f6e5a65726f53656e64657204045400000000550310306672616d655f73797374656d28657874656e73696f6e7348636865636b5f737065635f76657273696f6e40436865636b5370656356657273696f6e04045400000000590310306672616d655f73797374656d28657874656e73696f6e7340636865636b5f74785f76657273696f6e38436865636b547856657273696f6e040454000000005d0310306672616d655f73797374656d28657874656e73696f6e7334636865636b5f67656e6573697330436865636b47656e6573697304045400000000610310306672616d655f73797374656d28657874656e73696f6e733c636865636b5f6d6f7274616c69747938436865636b4d6f7274616c697479040454000004006503010c45726100006503102873705f72756e74696d651c67656e657269630c6572610c4572610001010420496d6d6f7274616c0000001c4d6f7274616c31040008000001001c4d6f7274616c32040008000002001c4d6f7274616c33040008000003001c4d6f7274616c34040008000004001c4d6f7274616c35040008000005001c4d6f7274616c36040008000006001c4d6f7274616c37040008000007001c4d6f7274616c38040008000008001c4d6f7274616c3904000800000900204d6f7274616c313004000800000a00204d6f7274616c313104000800000b00204d6f7274616c313204000800000c00204d6f7274616c313304000800000d00204d6f7274616c313404000800000e00204d6f7274616c313504000800000f00204d6f7274616c313604000800001000204d6f7274616c313704000800001100204d6f7274616c313804000800001200204d6f7274616c313904000800001300204d6f7274616c323004000800001400204d6f7274616c323104000800001500204d6f7274616c323204000800001600204d6f7274616c323304000800001700204d6f7274616c323404000800001800204d6f7274616c323504000800001900204d6f7274616c323604000800001a00204d6f7274616c323704000800001b00204d6f7274616c323804000800001c00204d6f7274616c323904000800001d00204d6f7274616c333004000800001e00204d6f7274616c333104000800001f00204d6f7274616c333204000800002000204d6f7274616c333304000800002100204d6f7274616c333404000800002200204d6f7274616c333504000800002300204d6f7274616c333604000800002400204d6f7274616c333704000800002500204d6f7274616c333804000800002600204d6f7274616c333904000800002700204d6f7274616c343004000800002800204d6f7274616c343104000800002900204d6f7274616c343204000800002a00204d6f7274616c343304000800002b00204d6f7274616c343404000800002c00204d6f7274616c343504000800002d00204d6f7274616c343604000800002e00204d6f7274616c343704000800002f00204d6f7274616c343804000800003000204d6f7274616c343904000800003100204d6f7274616c353004000800003200204d6f7274616c353104000800003300204d6f7274616c353204000800003400204d6f7274616c353304000800003500204d6f7274616c353404000800003600204d6f7274616c353504000800003700204d6f7274616c353604000800003800204d6f7274616c353704000800003900204d6f7274616c353804000800003a00204d6f7274616c353904000800003b00204d6f7274616c363004000800003c00204d6f7274616c363104000800003d00204d6f7274616c363204000800003e00204d6f7274616c363304000800003f00204d6f7274616c363404000800004000204d6f7274616c363504000800004100204d6f7274616c363604000800004200204d6f7274616c363704000800004300204d6f7274616c363804000800004400204d6f7274616c363904000800004500204d6f7274616c373004000800004600204d6f7274616c373104000800004700204d6f7274616c373204000800004800204d6f7274616c373304000800004900204d6f7274616c373404000800004a00204d6f7274616c373504000800004b00204d6f7274616c373604000800004c00204d6f7274616c373704000800004d00204d6f7274616c373804000800004e00204d6f7274616c373904000800004f00204d6f7274616c383004000800005000204d6f7274616c383104000800005100204d6f7274616c383204000800005200204d6f7274616c383304000800005300204d6f7274616c383404000800005400204d6f7274616c383504000800005500204d6f7274616c383604000800005600204d6f7274616c383704000800005700204d6f7274616c383804000800005800204d6f7274616c383904000800005900204d6f7274616c393004000800005a00204d6f7274616c393104000800005b00204d6f7274616c393204000800005c00204d6f7274616c393304000800005d00204d6f7274616c393404000800005e00204d6f7274616c393504000800005f00204d6f7274616c393604000800006000204d6f7274616c393704000800006100204d6f7274616c393804000800006200204d6f7274616c393904000800006300244d6f7274616c31303004000800006400244d6f7274616c31303104000800006500244d6f7274616c31303204000800006600244d6f7274616c31303304000800006700244d6f7274616c31303404000800006800244d6f7274616c31303504000800006900244d6f7274616c31303604000800006a00244d6f7274616c31303704000800006b00244d6f7274616c31303804000800006c00244d6f7274616c31303904000800006d00244d6f7274616c31313004000800006e00244d6f7274616c31313104000800006f00244d6f7274616c31313204000800007000244d6f7274616c31313304000800007100244d6f7274616c31313404000800007200244d6f7274616c31313504000800007300244d6f7274616c31313604000800007400244d6f7274616c31313704000800007500244d6f7274616c31313804000800007600244d6f7274616c31313904000800007700244d6f7274616c31323004000800007800244d6f7274616c31323104000800007900244d6f7274616c31323204000800007a00244d6f7274616c31323304000800007b00244d6f7274616c31323404000800007c00244d6f7274616c31323504000800007d00244d6f7274616c31323604000800007e00244d6f7274616c31323704000800007f00244d6f7274616c31323804000800008000244d6f7274616c31323904000800008100244d6f7274616c31333004000800008200244d6f7274616c31333104000800008300244d6f7274616c31333204000800008400244d6f7274616c31333304000800008500244d6f7274616c31333404000800008600244d6f7274616c31333504000800008700244d6f7274616c31333604000800008800244d6f7274616c31333704000800008900244d6f7274616c31333804000800008a00244d6f7274616c31333904000800008b00244d6f7274616c31343004000800008c00244d6f7274616c31343104000800008d00244d6f7274616c31343204000800008e00244d6f7274616c31343304000800008f00244d6f7274616c31343404000800009000244d6f7274616c31343504000800009100244d6f7274616c31343604000800009200244d6f7274616c31343704000800009300244d6f7274616c31343804000800009400244d6f7274616c31343904000800009500244d6f7274616c31353004000800009600244d6f7274616c31353104000800009700244d6f7274616c31353204000800009800244d6f7274616c31353304000800009900244d6f7274616c31353404000800009a00244d6f7274616c31353504000800009b00244d6f7274616c31353604000800009c00244d6f7274616c31353704000800009d00244d6f7274616c31353804000800009e00244d6f7274616c31353904000800009f00244d6f7274616c3136300400080000a000244d6f7274616c3136310400080000a100244d6f7274616c3136320400080000a200244d6f7274616c3136330400080000a300244d6f7274616c3136340400080000a400244d6f7274616c3136350400080000a500244d6f7274616c3136360400080000a600244d6f7274616c3136370400080000a700244d6f7274616c3136380400080000a800244d6f7274616c3136390400080000a900244d6f7274616c3137300400080000aa00244d6f7274616c3137310400080000ab00244d6f7274616c3137320400080000ac00244d6f7274616c3137330400080000ad00244d6f7274616c3137340400080000ae00244d6f7274616c3137350400080000af00244d6f7274616c3137360400080000b000244d6f7274616c3137370400080000b100244d6f7274616c3137380400080000b200244d6f7274616c3137390400080000b300244d6f7274616c3138300400080000b400244d6f7274616c3138310400080000b500244d6f7274616c3138320400080000b600244d6f7274616c3138330400080000b700244d6f7274616c3138340400080000b800244d6f7274616c3138350400080000b900244d6f7274616c3138360400080000ba00244d6f7274616c3138370400080000bb00244d6f7274616c3138380400080000bc00244d6f7274616c3138390400080000bd00244d6f7274616c3139300400080000be00244d6f7274616c3139310400080000bf00244d6f7274616c3139320400080000c000244d6f7274616c3139330400080000c100244d6f7274616c3139340400080000c200244d6f7274616c3139350400080000c300244d6f7274616c3139360400080000c400244d6f7274616c3139370400080000c500244d6f7274616c3139380400080000c600244d6f7274616c3139390400080000c700244d6f7274616c3230300400080000c800244d6f7274616c3230310400080000c900244d6f7274616c3230320400080000ca00244d6f7274616c3230330400080000cb00244d6f7274616c3230340400080000cc00244d6f7274616c3230350400080000cd00244d6f7274616c3230360400080000ce00244d6f7274616c3230370400080000cf00244d6f7274616c3230380400080000d000244d6f7274616c3230390400080000d100244d6f7274616c3231300400080000d200244d6f7274616c3231310400080000d300244d6f7274616c3231320400080000d400244d6f7274616c3231330400080000d500244d6f7274616c3231340400080000d600244d6f7274616c3231350400080000d700244d6f7274616c3231360400080000d800244d6f7274616c3231370400080000d900244d6f7274616c3231380400080000da00244d6f7274616c3231390400080000db00244d6f7274616c3232300400080000dc00244d6f7274616c3232310400080000dd00244d6f7274616c3232320400080000de00244d6f7274616c3232330400080000df00244d6f7274616c3232340400080000e000244d6f7274616c3232350400080000e100244d6f7274616c3232360400080000e200244d6f7274616c3232370400080000e300244d6f7274616c3232380400080000e400244d6f7274616c3232390400080000e500244d6f7274616c3233300400080000e600244d6f7274616c3233310400080000e700244d6f7274616c3233320400080000e800244d6f7274616c3233330400080000e900244d6f7274616c3233340400080000ea00244d6f7274616c3233350400080000eb00244d6f7274616c3233360400080000ec00244d6f7274616c3233370400080000ed00244d6f7274616c3233380400080000ee00244d6f7274616c3233390400080000ef00244d6f7274616c3234300400080000f000244d6f7274616c3234310400080000f100244d6f7274616c3234320400080000f200244d6f7274616c3234330400080000f300244d6f7274616c3234340400080000f400244d6f7274616c3234350400080000f500244d6f7274616c3234360400080000f600244d6f7274616c3234370400080000f700244d6f7274616c3234380400080000f800244d6f7274616c3234390400080000f900244d6f7274616c3235300400080000fa00244d6f7274616c3235310400080000fb00244d6f7274616c3235320400080000fc00244d6f7274616c3235330400080000fd00244d6f7274616c3235340400080000fe00244d6f7274616c3235350400080000ff0000690310306672616d655f73797374656d28657874656e73696f6e732c636865636b5f6e6f6e636528436865636b4e6f6e636504045400000400680120543a3a4e6f6e636500006d0310306672616d655f73797374656d28657874656e73696f6e7330636865636b5f7765696768742c436865636b576569676874040454000000007103086870616c6c65745f7472616e73616374696f6e5f7061796d656e74604368617267655472616e73616374696f6e5061796d656e740404540000040058013042616c616e63654f663c543e000075030c5c706f6c6b61646f745f72756e74696d655f636f6d6d6f6e18636c61696d734850726576616c69646174654174746573747304045400000000790308746672616d655f6d657461646174615f686173685f657874656e73696f6e44436865636b4d657461646174614861736804045400000401106d6f64657d0301104d6f646500007d0308746672616d655f6d657461646174615f686173685f657874656e73696f6e104d6f64650001082044697361626c65640000001c456e61626c65640001000081030840706f6c6b61646f745f72756e74696d651c52756e74696d6500000000141853797374656d011853797374656d081c4163636f756e7401010402000c4101000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000008000184e756d62657201001010000000000001e401541830426c6f636b57656967687473c502010207b0bde93603000b00204aa9d10113ffffffffffffffff222d0d1e00010bb8845c8f580113a3703d0ad7a370bd010b0098f73e5d0113ffffffffffffffbf010000222d0d1e00010bb80caff9cc0113a3703d0ad7a370fd010b00204aa9d10113ffffffffffffffff01070088526a74130000000000000040222d0d1e00000000002c426c6f636b4c656e677468d1023000003c0000005000000050000038426c6f636b48617368436f756e7410100010000000204462576569676874d9024038ca38010000000098aaf90400000000001c56657273696f6edd023d0420706f6c6b61646f743c7061726974792d706f6c6b61646f7400000000154a0f00000000004cdf6acb689907609b0400000037e397fc7c91f5e40200000040fe3ad401f8959a0600000017a6bc0d0062aeb30100000018ef58a3b67ba77001000000d2bc9897eed08f1503000000f78b278be53f454c02000000af2c0297a23e6d3d0a00000049eaaf1b548a0cb00300000091d5df18b0d2cf58020000002a5e924655399e6001000000ed99c5acb25eedf503000000cbca25e39f14238702000000687ad44ad37f03c201000000ab3c0572291feb8b01000000bc9d89904f5b923f0100000037c8bb1350a9a2a804000000f3ff14d5ab52705903000000fbc577b9d747efd6010000001a00000001002853533538507265666978dc0800000001ed02002042616c616e636573012042616c616e6365731c34546f74616c49737375616e636501001840000000000000000000000000000000000040496e61637469766549737375616e63650100184000000000000000000000000000000000001c4163636f756e7401010402001401010000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000008000144c6f636b730101040200f1020400002052657365727665730101040200010304000014486f6c647301010402000d030400001c467265657a65730101040200250304000001fc019810484578697374656e7469616c4465706f736974184000e40b5402000000000000000000000000204d61784c6f636b73101032000000002c4d6178526573657276657310103200000000284d6178467265657a657310100800000000013903051c5374616b696e670001090101a41830486973746f72794465707468101054000000003853657373696f6e73506572457261101001000000003c426f6e64696e674475726174696f6e10101c0000000048536c61736844656665724475726174696f6e10101b000000004c4d61784578706f737572655061676553697a6510100002000000484d6178556e6c6f636b696e674368756e6b7310102000000000013d03071c5574696c6974790001710101a107044c626174636865645f63616c6c735f6c696d69741010aa2a0000000141031a2458636d50616c6c65740001890101150800014503634903042848436865636b4e6f6e5a65726f53656e64657251034040436865636b5370656356657273696f6e55031038436865636b547856657273696f6e59031030436865636b47656e657369735d032c38436865636b4d6f7274616c69747961032c28436865636b4e6f6e63656903402c436865636b5765696768746d0340604368617267655472616e73616374696f6e5061796d656e747103404850726576616c69646174654174746573747375034044436865636b4d657461646174614861736879033c8103"
+
+const SUBSTRATE_V15 = "0x6d6574610f2501000c1c73705f636f72651863727970746f2c4163636f756e7449643332000004000401205b75383b2033325d0000040000032000000008000800000503000c0000050500100000050700140000050000180c2873705f77656967687473247765696768745f76321857656967687400000801207265665f74696d651c010c75363400012870726f6f665f73697a651c010c75363400001c000006200020000005060024083c7072696d69746976655f74797065731048323536000004000401205b75383b2033325d00002800000208002c084c6b69746368656e73696e6b5f72756e74696d653052756e74696d654576656e74000100003000000400003404184f7074696f6e040454010c0108104e6f6e6500000010536f6d6504000c000001000038084c6b69746368656e73696e6b5f72756e74696d651c52756e74696d65000000003c000006100040000002000044000005040048084c6b69746368656e73696e6b5f72756e74696d652c52756e74696d6543616c6c0001101853797374656d04004c01ad0173656c663a3a73705f6170695f68696464656e5f696e636c756465735f636f6e7374727563745f72756e74696d653a3a68696464656e5f696e636c7564653a3a64697370617463680a3a3a43616c6c61626c6543616c6c466f723c53797374656d2c2052756e74696d653e0000001c5574696c69747904005c01b10173656c663a3a73705f6170695f68696464656e5f696e636c756465735f636f6e7374727563745f72756e74696d653a3a68696464656e5f696e636c7564653a3a64697370617463680a3a3a43616c6c61626c6543616c6c466f723c5574696c6974792c2052756e74696d653e0001002042616c616e63657304008801b50173656c663a3a73705f6170695f68696464656e5f696e636c756465735f636f6e7374727563745f72756e74696d653a3a68696464656e5f696e636c7564653a3a64697370617463680a3a3a43616c6c61626c6543616c6c466f723c42616c616e6365732c2052756e74696d653e000600184173736574730400ac01ad0173656c663a3a73705f6170695f68696464656e5f696e636c756465735f636f6e7374727563745f72756e74696d653a3a68696464656e5f696e636c7564653a3a64697370617463680a3a3a43616c6c61626c6543616c6c466f723c4173736574732c2052756e74696d653e002700004c0c306672616d655f73797374656d1870616c6c65741043616c6c04045400012c1872656d61726b04011872656d61726b28011c5665633c75383e000000387365745f686561705f7061676573040114706167657320010c753634000100207365745f636f6465040110636f646528011c5665633c75383e0002005c7365745f636f64655f776974686f75745f636865636b73040110636f646528011c5665633c75383e0003002c7365745f73746f726167650401146974656d735001345665633c4b657956616c75653e000400306b696c6c5f73746f726167650401106b6579735801205665633c4b65793e0005002c6b696c6c5f70726566697808011870726566697828010c4b657900011c7375626b6579730c010c7533320006004472656d61726b5f776974685f6576656e7404011872656d61726b28011c5665633c75383e00070044617574686f72697a655f75706772616465040124636f64655f6861736824011c543a3a4861736800090080617574686f72697a655f757067726164655f776974686f75745f636865636b73040124636f64655f6861736824011c543a3a48617368000a00606170706c795f617574686f72697a65645f75706772616465040110636f646528011c5665633c75383e000b000050000002540054000004082828005800000228005c0c3870616c6c65745f7574696c6974791870616c6c65741043616c6c04045400011814626174636804011463616c6c7360017c5665633c3c5420617320436f6e6669673e3a3a52756e74696d6543616c6c3e0000003461735f64657269766174697665080114696e64657844010c75313600011063616c6c48017c426f783c3c5420617320436f6e6669673e3a3a52756e74696d6543616c6c3e0001002462617463685f616c6c04011463616c6c7360017c5665633c3c5420617320436f6e6669673e3a3a52756e74696d6543616c6c3e0002002c64697370617463685f617308012461735f6f726967696e640154426f783c543a3a50616c6c6574734f726967696e3e00011063616c6c48017c426f783c3c5420617320436f6e6669673e3a3a52756e74696d6543616c6c3e0003002c666f7263655f626174636804011463616c6c7360017c5665633c3c5420617320436f6e6669673e3a3a52756e74696d6543616c6c3e0004002c776974685f77656967687408011063616c6c48017c426f783c3c5420617320436f6e6669673e3a3a52756e74696d6543616c6c3e0001187765696768741801185765696768740005000060000002480064084c6b69746368656e73696e6b5f72756e74696d65304f726967696e43616c6c65720001141873797374656d04006801746672616d655f73797374656d3a3a4f726967696e3c52756e74696d653e0000001c436f756e63696c04006c01010170616c6c65745f636f6c6c6563746976653a3a4f726967696e3c52756e74696d652c2070616c6c65745f636f6c6c6563746976653a3a496e7374616e6365313e000e0048546563686e6963616c436f6d6d697474656504007001010170616c6c65745f636f6c6c6563746976653a3a4f726967696e3c52756e74696d652c2070616c6c65745f636f6c6c6563746976653a3a496e7374616e6365323e000f0038416c6c69616e63654d6f74696f6e04007401010170616c6c65745f636f6c6c6563746976653a3a4f726967696e3c52756e74696d652c2070616c6c65745f636f6c6c6563746976653a3a496e7374616e6365333e003c0010566f696404007801410173656c663a3a73705f6170695f68696464656e5f696e636c756465735f636f6e7374727563745f72756e74696d653a3a68696464656e5f696e636c7564653a3a0a5f5f707269766174653a3a566f696400040000680c346672616d655f737570706f7274206469737061746368245261774f726967696e04244163636f756e7449640100010c10526f6f74000000185369676e656404000001244163636f756e744964000100104e6f6e65000200006c084470616c6c65745f636f6c6c656374697665245261774f726967696e08244163636f756e7449640100044900010c1c4d656d6265727308000c012c4d656d626572436f756e7400000c012c4d656d626572436f756e74000000184d656d62657204000001244163636f756e744964000100205f5068616e746f6d0002000070084470616c6c65745f636f6c6c656374697665245261774f726967696e08244163636f756e7449640100044900010c1c4d656d6265727308000c012c4d656d626572436f756e7400000c012c4d656d626572436f756e74000000184d656d62657204000001244163636f756e744964000100205f5068616e746f6d0002000074084470616c6c65745f636f6c6c656374697665245261774f726967696e08244163636f756e7449640100044900010c1c4d656d6265727308000c012c4d656d626572436f756e7400000c012c4d656d626572436f756e74000000184d656d62657204000001244163636f756e744964000100205f5068616e746f6d0002000078081c73705f636f726510566f6964000100007c0000060c00800c2873705f72756e74696d65306d756c746961646472657373304d756c74694164647265737308244163636f756e7449640100304163636f756e74496e646578010c011408496404000001244163636f756e74496400000014496e64657804007c01304163636f756e74496e6465780001000c526177040028011c5665633c75383e0002002441646472657373333204000401205b75383b2033325d0003002441646472657373323004008401205b75383b2032305d0004000084000003140000000800880c3c70616c6c65745f62616c616e6365731870616c6c65741043616c6c080454000449000120507472616e736665725f616c6c6f775f6465617468080110646573748001504163636f756e7449644c6f6f6b75704f663c543e00011476616c75653c0128543a3a42616c616e636500000038666f7263655f7472616e736665720c0118736f757263658001504163636f756e7449644c6f6f6b75704f663c543e000110646573748001504163636f756e7449644c6f6f6b75704f663c543e00011476616c75653c0128543a3a42616c616e63650002004c7472616e736665725f6b6565705f616c697665080110646573748001504163636f756e7449644c6f6f6b75704f663c543e00011476616c75653c0128543a3a42616c616e6365000300307472616e736665725f616c6c080110646573748001504163636f756e7449644c6f6f6b75704f663c543e0001286b6565705f616c697665140110626f6f6c0004003c666f7263655f756e7265736572766508010c77686f8001504163636f756e7449644c6f6f6b75704f663c543e000118616d6f756e74100128543a3a42616c616e636500050040757067726164655f6163636f756e747304010c77686f4001445665633c543a3a4163636f756e7449643e00060044666f7263655f7365745f62616c616e636508010c77686f8001504163636f756e7449644c6f6f6b75704f663c543e0001206e65775f667265653c0128543a3a42616c616e63650008006c666f7263655f61646a7573745f746f74616c5f69737375616e6365080124646972656374696f6e8c014c41646a7573746d656e74446972656374696f6e00011464656c74613c0128543a3a42616c616e6365000900008c0c3c70616c6c65745f62616c616e6365731474797065734c41646a7573746d656e74446972656374696f6e00010820496e63726561736500000020446563726561736500010000900c1c73705f636f72651c65643235353139245369676e6174757265000004009401205b75383b2036345d000094000003400000000800980c1c73705f636f72651c73723235353139245369676e6174757265000004009401205b75383b2036345d00009c000003080000000800a0082873705f72756e74696d65384d756c74695369676e617475726500010c1c456432353531390400900148656432353531393a3a5369676e61747572650000001c537232353531390400980148737232353531393a3a5369676e61747572650001001445636473610400a4014065636473613a3a5369676e617475726500020000a40c1c73705f636f7265146563647361245369676e617475726500000400a8017c5b75383b205349474e41545552455f53455249414c495a45445f53495a455d0000a8000003410000000800ac0c3470616c6c65745f6173736574731870616c6c65741043616c6c080454000449000180186372656174650c010869647c014c543a3a41737365744964506172616d6574657200011461646d696e8001504163636f756e7449644c6f6f6b75704f663c543e00012c6d696e5f62616c616e6365100128543a3a42616c616e636500000030666f7263655f63726561746510010869647c014c543a3a41737365744964506172616d657465720001146f776e65728001504163636f756e7449644c6f6f6b75704f663c543e00013469735f73756666696369656e74140110626f6f6c00012c6d696e5f62616c616e63653c0128543a3a42616c616e63650001003473746172745f64657374726f7904010869647c014c543a3a41737365744964506172616d657465720002004064657374726f795f6163636f756e747304010869647c014c543a3a41737365744964506172616d657465720003004464657374726f795f617070726f76616c7304010869647c014c543a3a41737365744964506172616d657465720004003866696e6973685f64657374726f7904010869647c014c543a3a41737365744964506172616d65746572000500106d696e740c010869647c014c543a3a41737365744964506172616d6574657200012c62656e65666963696172798001504163636f756e7449644c6f6f6b75704f663c543e000118616d6f756e743c0128543a3a42616c616e6365000600106275726e0c010869647c014c543a3a41737365744964506172616d6574657200010c77686f8001504163636f756e7449644c6f6f6b75704f663c543e000118616d6f756e743c0128543a3a42616c616e6365000700207472616e736665720c010869647c014c543a3a41737365744964506172616d657465720001187461726765748001504163636f756e7449644c6f6f6b75704f663c543e000118616d6f756e743c0128543a3a42616c616e63650008004c7472616e736665725f6b6565705f616c6976650c010869647c014c543a3a41737365744964506172616d657465720001187461726765748001504163636f756e7449644c6f6f6b75704f663c543e000118616d6f756e743c0128543a3a42616c616e636500090038666f7263655f7472616e7366657210010869647c014c543a3a41737365744964506172616d65746572000118736f757263658001504163636f756e7449644c6f6f6b75704f663c543e000110646573748001504163636f756e7449644c6f6f6b75704f663c543e000118616d6f756e743c0128543a3a42616c616e6365000a0018667265657a6508010869647c014c543a3a41737365744964506172616d6574657200010c77686f8001504163636f756e7449644c6f6f6b75704f663c543e000b00107468617708010869647c014c543a3a41737365744964506172616d6574657200010c77686f8001504163636f756e7449644c6f6f6b75704f663c543e000c0030667265657a655f617373657404010869647c014c543a3a41737365744964506172616d65746572000d0028746861775f617373657404010869647c014c543a3a41737365744964506172616d65746572000e00487472616e736665725f6f776e65727368697008010869647c014c543a3a41737365744964506172616d657465720001146f776e65728001504163636f756e7449644c6f6f6b75704f663c543e000f00207365745f7465616d10010869647c014c543a3a41737365744964506172616d657465720001186973737565728001504163636f756e7449644c6f6f6b75704f663c543e00011461646d696e8001504163636f756e7449644c6f6f6b75704f663c543e00011c667265657a65728001504163636f756e7449644c6f6f6b75704f663c543e001000307365745f6d6574616461746110010869647c014c543a3a41737365744964506172616d657465720001106e616d6528011c5665633c75383e00011873796d626f6c28011c5665633c75383e000120646563696d616c73080108753800110038636c6561725f6d6574616461746104010869647c014c543a3a41737365744964506172616d6574657200120048666f7263655f7365745f6d6574616461746114010869647c014c543a3a41737365744964506172616d657465720001106e616d6528011c5665633c75383e00011873796d626f6c28011c5665633c75383e000120646563696d616c73080108753800012469735f66726f7a656e140110626f6f6c00130050666f7263655f636c6561725f6d6574616461746104010869647c014c543a3a41737365744964506172616d6574657200140048666f7263655f61737365745f73746174757320010869647c014c543a3a41737365744964506172616d657465720001146f776e65728001504163636f756e7449644c6f6f6b75704f663c543e0001186973737565728001504163636f756e7449644c6f6f6b75704f663c543e00011461646d696e8001504163636f756e7449644c6f6f6b75704f663c543e00011c667265657a65728001504163636f756e7449644c6f6f6b75704f663c543e00012c6d696e5f62616c616e63653c0128543a3a42616c616e636500013469735f73756666696369656e74140110626f6f6c00012469735f66726f7a656e140110626f6f6c00150040617070726f76655f7472616e736665720c010869647c014c543a3a41737365744964506172616d6574657200012064656c65676174658001504163636f756e7449644c6f6f6b75704f663c543e000118616d6f756e743c0128543a3a42616c616e63650016003c63616e63656c5f617070726f76616c08010869647c014c543a3a41737365744964506172616d6574657200012064656c65676174658001504163636f756e7449644c6f6f6b75704f663c543e00170054666f7263655f63616e63656c5f617070726f76616c0c010869647c014c543a3a41737365744964506172616d657465720001146f776e65728001504163636f756e7449644c6f6f6b75704f663c543e00012064656c65676174658001504163636f756e7449644c6f6f6b75704f663c543e001800447472616e736665725f617070726f76656410010869647c014c543a3a41737365744964506172616d657465720001146f776e65728001504163636f756e7449644c6f6f6b75704f663c543e00012c64657374696e6174696f6e8001504163636f756e7449644c6f6f6b75704f663c543e000118616d6f756e743c0128543a3a42616c616e636500190014746f75636804010869647c014c543a3a41737365744964506172616d65746572001a0018726566756e6408010869647c014c543a3a41737365744964506172616d65746572000128616c6c6f775f6275726e140110626f6f6c001b003c7365745f6d696e5f62616c616e636508010869647c014c543a3a41737365744964506172616d6574657200012c6d696e5f62616c616e6365100128543a3a42616c616e6365001c002c746f7563685f6f7468657208010869647c014c543a3a41737365744964506172616d6574657200010c77686f8001504163636f756e7449644c6f6f6b75704f663c543e001d0030726566756e645f6f7468657208010869647c014c543a3a41737365744964506172616d6574657200010c77686f8001504163636f756e7449644c6f6f6b75704f663c543e001e0014626c6f636b08010869647c014c543a3a41737365744964506172616d6574657200010c77686f8001504163636f756e7449644c6f6f6b75704f663c543e001f0000b004184f7074696f6e04045401180108104e6f6e6500000010536f6d650400180000010000b40000050200b80c306672616d655f73797374656d186c696d69747330426c6f636b5765696768747300000c0128626173655f626c6f636b1801185765696768740001246d61785f626c6f636b1801185765696768740001247065725f636c617373bc01845065724469737061746368436c6173733c57656967687473506572436c6173733e0000bc0c346672616d655f737570706f7274206469737061746368405065724469737061746368436c61737304045401c0000c01186e6f726d616cc001045400012c6f7065726174696f6e616cc00104540001246d616e6461746f7279c00104540000c00c306672616d655f73797374656d186c696d6974733c57656967687473506572436c6173730000100138626173655f65787472696e7369631801185765696768740001346d61785f65787472696e736963b001384f7074696f6e3c5765696768743e0001246d61785f746f74616cb001384f7074696f6e3c5765696768743e0001207265736572766564b001384f7074696f6e3c5765696768743e0000c40c306672616d655f73797374656d186c696d6974732c426c6f636b4c656e677468000004010c6d6178c801545065724469737061746368436c6173733c7533323e0000c80c346672616d655f737570706f7274206469737061746368405065724469737061746368436c617373040454010c000c01186e6f726d616c0c01045400012c6f7065726174696f6e616c0c0104540001246d616e6461746f72790c0104540000cc082873705f776569676874733c52756e74696d65446257656967687400000801107265616420010c753634000114777269746520010c7536340000d0082873705f76657273696f6e3852756e74696d6556657273696f6e0000200124737065635f6e616d65b4013452756e74696d65537472696e67000124696d706c5f6e616d65b4013452756e74696d65537472696e67000144617574686f72696e675f76657273696f6e0c010c753332000130737065635f76657273696f6e0c010c753332000130696d706c5f76657273696f6e0c010c75333200011061706973d4011c4170697356656300014c7472616e73616374696f6e5f76657273696f6e0c010c75333200013473746174655f76657273696f6e08010875380000d4040c436f7704045401d8000400d8000000d8000002dc00dc000004089c0c00e00c306672616d655f73797374656d1870616c6c6574144572726f720404540001243c496e76616c6964537065634e616d65000000685370656356657273696f6e4e65656473546f496e637265617365000100744661696c6564546f4578747261637452756e74696d6556657273696f6e0002004c4e6f6e44656661756c74436f6d706f736974650003003c4e6f6e5a65726f526566436f756e740004003043616c6c46696c74657265640005006c4d756c7469426c6f636b4d6967726174696f6e734f6e676f696e67000600444e6f7468696e67417574686f72697a656400070030556e617574686f72697a656400080000e40c3870616c6c65745f7574696c6974791870616c6c6574144572726f7204045400010430546f6f4d616e7943616c6c7300000000e80c3c70616c6c65745f62616c616e6365731870616c6c6574144572726f720804540004490001303856657374696e6742616c616e6365000000544c69717569646974795265737472696374696f6e730001004c496e73756666696369656e7442616c616e6365000200484578697374656e7469616c4465706f73697400030034457870656e646162696c6974790004005c4578697374696e6756657374696e675363686564756c650005002c446561644163636f756e740006003c546f6f4d616e79526573657276657300070030546f6f4d616e79486f6c647300080038546f6f4d616e79467265657a65730009004c49737375616e63654465616374697661746564000a002444656c74615a65726f000b0000ec0c3470616c6c65745f61737365747314747970657330417373657444657461696c730c1c42616c616e63650110244163636f756e7449640100384465706f73697442616c616e63650110003001146f776e65720001244163636f756e7449640001186973737565720001244163636f756e74496400011461646d696e0001244163636f756e74496400011c667265657a65720001244163636f756e744964000118737570706c7910011c42616c616e636500011c6465706f7369741001384465706f73697442616c616e636500012c6d696e5f62616c616e636510011c42616c616e636500013469735f73756666696369656e74140110626f6f6c0001206163636f756e74730c010c75333200012c73756666696369656e74730c010c753332000124617070726f76616c730c010c753332000118737461747573f0012c41737365745374617475730000f00c3470616c6c65745f6173736574731474797065732c417373657453746174757300010c104c6976650000001846726f7a656e0001002844657374726f79696e6700020000f40c3470616c6c65745f6173736574731870616c6c6574144572726f720804540004490001502842616c616e63654c6f77000000244e6f4163636f756e74000100304e6f5065726d697373696f6e0002001c556e6b6e6f776e0003001846726f7a656e00040014496e557365000500284261645769746e657373000600384d696e42616c616e63655a65726f0007004c556e617661696c61626c65436f6e73756d65720008002c4261644d6574616461746100090028556e617070726f766564000a0020576f756c64446965000b0034416c7265616479457869737473000c00244e6f4465706f736974000d0024576f756c644275726e000e00244c6976654173736574000f003041737365744e6f744c6976650010003c496e636f7272656374537461747573001100244e6f7446726f7a656e0012003843616c6c6261636b4661696c656400130000f800000420fc0101050109010d01150119011d0100fc10306672616d655f73797374656d28657874656e73696f6e7354636865636b5f6e6f6e5f7a65726f5f73656e64657248436865636b4e6f6e5a65726f53656e64657204045400000000010110306672616d655f73797374656d28657874656e73696f6e7348636865636b5f737065635f76657273696f6e40436865636b5370656356657273696f6e04045400000000050110306672616d655f73797374656d28657874656e73696f6e7340636865636b5f74785f76657273696f6e38436865636b547856657273696f6e04045400000000090110306672616d655f73797374656d28657874656e73696f6e7334636865636b5f67656e6573697330436865636b47656e65736973040454000000000d0110306672616d655f73797374656d28657874656e73696f6e733c636865636b5f6d6f7274616c69747938436865636b4d6f7274616c697479040454000004001101010c45726100001101102873705f72756e74696d651c67656e657269630c6572610c4572610001010420496d6d6f7274616c0000001c4d6f7274616c31040008000001001c4d6f7274616c32040008000002001c4d6f7274616c33040008000003001c4d6f7274616c34040008000004001c4d6f7274616c35040008000005001c4d6f7274616c36040008000006001c4d6f7274616c37040008000007001c4d6f7274616c38040008000008001c4d6f7274616c3904000800000900204d6f7274616c313004000800000a00204d6f7274616c313104000800000b00204d6f7274616c313204000800000c00204d6f7274616c313304000800000d00204d6f7274616c313404000800000e00204d6f7274616c313504000800000f00204d6f7274616c313604000800001000204d6f7274616c313704000800001100204d6f7274616c313804000800001200204d6f7274616c313904000800001300204d6f7274616c323004000800001400204d6f7274616c323104000800001500204d6f7274616c323204000800001600204d6f7274616c323304000800001700204d6f7274616c323404000800001800204d6f7274616c323504000800001900204d6f7274616c323604000800001a00204d6f7274616c323704000800001b00204d6f7274616c323804000800001c00204d6f7274616c323904000800001d00204d6f7274616c333004000800001e00204d6f7274616c333104000800001f00204d6f7274616c333204000800002000204d6f7274616c333304000800002100204d6f7274616c333404000800002200204d6f7274616c333504000800002300204d6f7274616c333604000800002400204d6f7274616c333704000800002500204d6f7274616c333804000800002600204d6f7274616c333904000800002700204d6f7274616c343004000800002800204d6f7274616c343104000800002900204d6f7274616c343204000800002a00204d6f7274616c343304000800002b00204d6f7274616c343404000800002c00204d6f7274616c343504000800002d00204d6f7274616c343604000800002e00204d6f7274616c343704000800002f00204d6f7274616c343804000800003000204d6f7274616c343904000800003100204d6f7274616c353004000800003200204d6f7274616c353104000800003300204d6f7274616c353204000800003400204d6f7274616c353304000800003500204d6f7274616c353404000800003600204d6f7274616c353504000800003700204d6f7274616c353604000800003800204d6f7274616c353704000800003900204d6f7274616c353804000800003a00204d6f7274616c353904000800003b00204d6f7274616c363004000800003c00204d6f7274616c363104000800003d00204d6f7274616c363204000800003e00204d6f7274616c363304000800003f00204d6f7274616c363404000800004000204d6f7274616c363504000800004100204d6f7274616c363604000800004200204d6f7274616c363704000800004300204d6f7274616c363804000800004400204d6f7274616c363904000800004500204d6f7274616c373004000800004600204d6f7274616c373104000800004700204d6f7274616c373204000800004800204d6f7274616c373304000800004900204d6f7274616c373404000800004a00204d6f7274616c373504000800004b00204d6f7274616c373604000800004c00204d6f7274616c373704000800004d00204d6f7274616c373804000800004e00204d6f7274616c373904000800004f00204d6f7274616c383004000800005000204d6f7274616c383104000800005100204d6f7274616c383204000800005200204d6f7274616c383304000800005300204d6f7274616c383404000800005400204d6f7274616c383504000800005500204d6f7274616c383604000800005600204d6f7274616c383704000800005700204d6f7274616c383804000800005800204d6f7274616c383904000800005900204d6f7274616c393004000800005a00204d6f7274616c393104000800005b00204d6f7274616c393204000800005c00204d6f7274616c393304000800005d00204d6f7274616c393404000800005e00204d6f7274616c393504000800005f00204d6f7274616c393604000800006000204d6f7274616c393704000800006100204d6f7274616c393804000800006200204d6f7274616c393904000800006300244d6f7274616c31303004000800006400244d6f7274616c31303104000800006500244d6f7274616c31303204000800006600244d6f7274616c31303304000800006700244d6f7274616c31303404000800006800244d6f7274616c31303504000800006900244d6f7274616c31303604000800006a00244d6f7274616c31303704000800006b00244d6f7274616c31303804000800006c00244d6f7274616c31303904000800006d00244d6f7274616c31313004000800006e00244d6f7274616c31313104000800006f00244d6f7274616c31313204000800007000244d6f7274616c31313304000800007100244d6f7274616c31313404000800007200244d6f7274616c31313504000800007300244d6f7274616c31313604000800007400244d6f7274616c31313704000800007500244d6f7274616c31313804000800007600244d6f7274616c31313904000800007700244d6f7274616c31323004000800007800244d6f7274616c31323104000800007900244d6f7274616c31323204000800007a00244d6f7274616c31323304000800007b00244d6f7274616c31323404000800007c00244d6f7274616c31323504000800007d00244d6f7274616c31323604000800007e00244d6f7274616c31323704000800007f00244d6f7274616c31323804000800008000244d6f7274616c31323904000800008100244d6f7274616c31333004000800008200244d6f7274616c31333104000800008300244d6f7274616c31333204000800008400244d6f7274616c31333304000800008500244d6f7274616c31333404000800008600244d6f7274616c31333504000800008700244d6f7274616c31333604000800008800244d6f7274616c31333704000800008900244d6f7274616c31333804000800008a00244d6f7274616c31333904000800008b00244d6f7274616c31343004000800008c00244d6f7274616c31343104000800008d00244d6f7274616c31343204000800008e00244d6f7274616c31343304000800008f00244d6f7274616c31343404000800009000244d6f7274616c31343504000800009100244d6f7274616c31343604000800009200244d6f7274616c31343704000800009300244d6f7274616c31343804000800009400244d6f7274616c31343904000800009500244d6f7274616c31353004000800009600244d6f7274616c31353104000800009700244d6f7274616c31353204000800009800244d6f7274616c31353304000800009900244d6f7274616c31353404000800009a00244d6f7274616c31353504000800009b00244d6f7274616c31353604000800009c00244d6f7274616c31353704000800009d00244d6f7274616c31353804000800009e00244d6f7274616c31353904000800009f00244d6f7274616c3136300400080000a000244d6f7274616c3136310400080000a100244d6f7274616c3136320400080000a200244d6f7274616c3136330400080000a300244d6f7274616c3136340400080000a400244d6f7274616c3136350400080000a500244d6f7274616c3136360400080000a600244d6f7274616c3136370400080000a700244d6f7274616c3136380400080000a800244d6f7274616c3136390400080000a900244d6f7274616c3137300400080000aa00244d6f7274616c3137310400080000ab00244d6f7274616c3137320400080000ac00244d6f7274616c3137330400080000ad00244d6f7274616c3137340400080000ae00244d6f7274616c3137350400080000af00244d6f7274616c3137360400080000b000244d6f7274616c3137370400080000b100244d6f7274616c3137380400080000b200244d6f7274616c3137390400080000b300244d6f7274616c3138300400080000b400244d6f7274616c3138310400080000b500244d6f7274616c3138320400080000b600244d6f7274616c3138330400080000b700244d6f7274616c3138340400080000b800244d6f7274616c3138350400080000b900244d6f7274616c3138360400080000ba00244d6f7274616c3138370400080000bb00244d6f7274616c3138380400080000bc00244d6f7274616c3138390400080000bd00244d6f7274616c3139300400080000be00244d6f7274616c3139310400080000bf00244d6f7274616c3139320400080000c000244d6f7274616c3139330400080000c100244d6f7274616c3139340400080000c200244d6f7274616c3139350400080000c300244d6f7274616c3139360400080000c400244d6f7274616c3139370400080000c500244d6f7274616c3139380400080000c600244d6f7274616c3139390400080000c700244d6f7274616c3230300400080000c800244d6f7274616c3230310400080000c900244d6f7274616c3230320400080000ca00244d6f7274616c3230330400080000cb00244d6f7274616c3230340400080000cc00244d6f7274616c3230350400080000cd00244d6f7274616c3230360400080000ce00244d6f7274616c3230370400080000cf00244d6f7274616c3230380400080000d000244d6f7274616c3230390400080000d100244d6f7274616c3231300400080000d200244d6f7274616c3231310400080000d300244d6f7274616c3231320400080000d400244d6f7274616c3231330400080000d500244d6f7274616c3231340400080000d600244d6f7274616c3231350400080000d700244d6f7274616c3231360400080000d800244d6f7274616c3231370400080000d900244d6f7274616c3231380400080000da00244d6f7274616c3231390400080000db00244d6f7274616c3232300400080000dc00244d6f7274616c3232310400080000dd00244d6f7274616c3232320400080000de00244d6f7274616c3232330400080000df00244d6f7274616c3232340400080000e000244d6f7274616c3232350400080000e100244d6f7274616c3232360400080000e200244d6f7274616c3232370400080000e300244d6f7274616c3232380400080000e400244d6f7274616c3232390400080000e500244d6f7274616c3233300400080000e600244d6f7274616c3233310400080000e700244d6f7274616c3233320400080000e800244d6f7274616c3233330400080000e900244d6f7274616c3233340400080000ea00244d6f7274616c3233350400080000eb00244d6f7274616c3233360400080000ec00244d6f7274616c3233370400080000ed00244d6f7274616c3233380400080000ee00244d6f7274616c3233390400080000ef00244d6f7274616c3234300400080000f000244d6f7274616c3234310400080000f100244d6f7274616c3234320400080000f200244d6f7274616c3234330400080000f300244d6f7274616c3234340400080000f400244d6f7274616c3234350400080000f500244d6f7274616c3234360400080000f600244d6f7274616c3234370400080000f700244d6f7274616c3234380400080000f800244d6f7274616c3234390400080000f900244d6f7274616c3235300400080000fa00244d6f7274616c3235310400080000fb00244d6f7274616c3235320400080000fc00244d6f7274616c3235330400080000fd00244d6f7274616c3235340400080000fe00244d6f7274616c3235350400080000ff0000150110306672616d655f73797374656d28657874656e73696f6e732c636865636b5f6e6f6e636528436865636b4e6f6e6365040454000004007c0120543a3a4e6f6e63650000190110306672616d655f73797374656d28657874656e73696f6e7330636865636b5f7765696768742c436865636b576569676874040454000000001d01088870616c6c65745f61737365745f636f6e76657273696f6e5f74785f7061796d656e7450436861726765417373657454785061796d656e74040454000008010c7469703c013042616c616e63654f663c543e00012061737365745f69643401684f7074696f6e3c436861726765417373657449644f663c543e3e00002101084c6b69746368656e73696e6b5f72756e74696d653052756e74696d654572726f7200010000101853797374656d00014c01581830426c6f636b57656967687473b8f901025b1f5d000b00204aa9d10113ffffffffffffffffc2a0a91d00010bd05f9fa62e011366666666666666a6010b0098f73e5d0113ffffffffffffffbf010000c2a0a91d00010bd0e7f110a3011366666666666666e6010b00204aa9d10113ffffffffffffffff01070088526a74130000000000000040c2a0a91d00000000002c426c6f636b4c656e677468c43000003c0000005000000050000038426c6f636b48617368436f756e740c106009000000204462576569676874cc4040787d010000000000e1f50500000000001c56657273696f6ed0e904106e6f6465387375627374726174652d6e6f64650a0000000c010000000000005cdf6acb689907609b0500000037e397fc7c91f5e40200000040fe3ad401f8959a06000000d2bc9897eed08f1503000000be9fb0c91a8046cf01000000f78b278be53f454c02000000ed99c5acb25eedf50300000017a6bc0d0062aeb30100000018ef58a3b67ba77001000000cbca25e39f14238702000000687ad44ad37f03c201000000bc9d89904f5b923f010000008453b50b222939770100000068b66ba122c93fa70200000037c8bb1350a9a2a8040000008a8047a53a8277ec01000000f3ff14d5ab52705903000000899a250cbe84f2500100000049eaaf1b548a0cb00300000091d5df18b0d2cf58020000006fd7c327202e4a8d01000000ab3c0572291feb8b01000000fbc577b9d747efd601000000020000000100285353353850726566697844082a000001e000001c5574696c69747900015c017c044c626174636865645f63616c6c735f6c696d69740c10aa2a00000001e401002042616c616e636573000188018c10484578697374656e7469616c4465706f736974104000407a10f35a0000000000000000000000204d61784c6f636b730c1032000000002c4d617852657365727665730c103200000000284d6178467265657a65730c10010000000001e8060018417373657473011841737365747304144173736574000104020cec04000001ac01b1011c4052656d6f76654974656d734c696d69740c10e8030000003041737365744465706f73697410400000c16ff28623000000000000000000004c41737365744163636f756e744465706f736974104000407a10f35a00000000000000000000004c4d657461646174614465706f7369744261736510400080c6a47e8d0300000000000000000000584d657461646174614465706f73697450657242797465104000407a10f35a00000000000000000000003c417070726f76616c4465706f736974104000407a10f35a00000000000000000000002c537472696e674c696d69740c10320000000001f42700048048a0f82048436865636b4e6f6e5a65726f53656e646572fc3040436865636b5370656356657273696f6e01010c38436865636b547856657273696f6e05010c30436865636b47656e6573697309012438436865636b4d6f7274616c6974790d012428436865636b4e6f6e63651501302c436865636b57656967687419013050436861726765417373657454785061796d656e741d01303800482c210100"
@@ -29,7 +29,7 @@ import {api, web3} from "./index";
 import {ComputeBudgetProgram} from "./sdk/web3/programs/compute-budget";
 import {TokenStandard} from "./sdk/metaplex";
 
-export type TransactionType = "transfer" | "tokenTransfer" | "mplTransfer"
+export type TransactionType = "transfer" | "tokenTransfer" | "mplTransfer" | api.StakeType
 export type SolSignParam = {
     type: TransactionType
     payer: string
@@ -46,6 +46,26 @@ export type SolSignParam = {
     computeUnitLimit?: number
     computeUnitPrice?: number
     needPriorityFee?: boolean
+    // stake program, see api.StakeTxData
+    stakeAccount?: string
+    seed?: string
+    votePubkey?: string
+    staker?: string
+    withdrawer?: string
+    lockup?: {
+        unixTimestamp?: number
+        epoch?: number
+        custodian?: string
+    }
+    sourceStakeAccount?: string
+    newAuthority?: string
+    authorizationType?: "staker" | "withdrawer"
+    custodian?: string
+    rentExemptReserve?: number
+    // durable nonce, see api.DurableNonceData
+    nonceAccount?: string
+    nonceAuthority?: string
+    nonce?: string
 }
 export type deserializeMessagesParams = {
     data: any[];
@@ -133,7 +153,8 @@ export class SolWallet extends BaseWallet {
     async signTransaction(param: SignTxParams): Promise<any> {
         try {
             const data: SolSignParam = param.data
-            const rawTransaction = api.createRawTransaction(data.payer, data.blockHash);
+            const nonceInfo = api.getNonceInfo(data);
+            const rawTransaction = api.createRawTransaction(data.payer, data.blockHash, nonceInfo);
             if (data.computeUnitLimit && data.computeUnitPrice) {
                 const modifyComputeUnits = ComputeBudgetProgram.setComputeUnitLimit({
                     units: data.computeUnitLimit // default: 200000 =0.2 * 10^6
@@ -165,7 +186,12 @@ export class SolWallet extends BaseWallet {
                     return Promise.reject(SignTxError);
                 }
                 const tokenStandard: TokenStandard = data.tokenStandard ?? TokenStandard.ProgrammableNonFungible
-                return await api.signMplTransaction(data.payer, data.from, data.to, data.mint, data.blockHash, param.privateKey, tokenStandard, data.computeUnitLimit, data.computeUnitPrice);
+                return await api.signMplTransaction(data.payer, data.from, data.to, data.mint, data.blockHash, param.privateKey, tokenStandard, data.computeUnitLimit, data.computeUnitPrice, nonceInfo);
+            } else if (api.stakeTypes.includes(data.type as api.StakeType)) {
+                if (data.version === 0) {
+                    return api.signStakeVersionedTransaction(param.data, param.privateKey);
+                }
+                await api.appendStakeInstruction(rawTransaction, param.data);
             } else {
                 return Promise.reject(SignTxError);
             }
@@ -202,7 +228,8 @@ export class SolWallet extends BaseWallet {
     async getSerializedTransaction(param: SignTxParams): Promise<any> {
         try {
             const data: SolSignParam = param.data
-            const rawTransaction = api.createRawTransaction(data.payer, data.blockHash);
+            const nonceInfo = api.getNonceInfo(data);
+            const rawTransaction = api.createRawTransaction(data.payer, data.blockHash, nonceInfo);
             if (data.needPriorityFee && data.computeUnitLimit && data.computeUnitPrice) {
                 const modifyComputeUnits = ComputeBudgetProgram.setComputeUnitLimit({
                     units: data.computeUnitLimit // default: 200000 =0.2 * 10^6
@@ -235,9 +262,14 @@ export class SolWallet extends BaseWallet {
                 }
                 const tokenStandard: TokenStandard = data.tokenStandard ?? TokenStandard.ProgrammableNonFungible
                 if (data.needPriorityFee) {
-                    return await api.getSerializedMplTransaction(data.payer, data.from, data.to, data.mint, data.blockHash, param.privateKey, tokenStandard, data.computeUnitLimit, data.computeUnitPrice);
+                    return await api.getSerializedMplTransaction(data.payer, data.from, data.to, data.mint, data.blockHash, param.privateKey, tokenStandard, data.computeUnitLimit, data.computeUnitPrice, nonceInfo);
+                }
+                return await api.getSerializedMplTransaction(data.payer, data.from, data.to, data.mint, data.blockHash, param.privateKey, tokenStandard, undefined, undefined, nonceInfo);
+            } else if (api.stakeTypes.includes(data.type as api.StakeType)) {
+                if (data.version === 0) {
+                    return api.getSerializedStakeVersionedTransaction(param.data, param.privateKey);
                 }
-                return await api.getSerializedMplTransaction(data.payer, data.from, data.to, data.mint, data.blockHash, param.privateKey, tokenStandard);
+                await api.appendStakeInstruction(rawTransaction, param.data);
             } else {
                 return Promise.reject(SignTxError);
             }
@@ -8,6 +8,8 @@ import {
     TransactionInstruction,
     Keypair,
     Transaction, CompiledInstruction,
+    NonceAccount,
+    NonceInformation,
 } from './sdk/web3';
 import {TokenStandard, transferNftBuilder, getSignedTransaction, getSerializedTransaction} from "./sdk/metaplex";
 import {TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID} from "./sdk/spl";
@@ -15,6 +17,7 @@ import {
     COMPUTE_BUDGET_INSTRUCTION_LAYOUTS,
     ComputeBudgetProgram
 } from "./sdk/web3/programs/compute-budget";
+import {Authorized, Lockup, StakeAuthorizationLayout, StakeProgram} from "./sdk/web3/programs/stake";
 
 import {decodeData} from "./sdk/web3/instruction";
 
@@ -39,10 +42,81 @@ export function validAddress(address: string): boolean {
     }
 }
 
-export function createRawTransaction(payer: string, blockHash: string): web3.Transaction {
+export function createRawTransaction(payer: string, blockHash: string, nonceInfo?: NonceInformation): web3.Transaction {
+    if (nonceInfo) {
+        // the nonce advance instruction is prepended and the nonce used as recent blockhash when compiling
+        return new web3.Transaction({feePayer: new web3.PublicKey(payer), nonceInfo: nonceInfo, minContextSlot: 0})
+    }
     return new web3.Transaction({feePayer: new web3.PublicKey(payer), blockhash: blockHash, lastValidBlockHeight: 0})
 }
 
+export type DurableNonceData = {
+    payer: string
+    blockHash: string
+    // nonce account whose stored nonce replaces the recent blockhash
+    nonceAccount?: string
+    // authority of the nonce account, defaults to the payer
+    nonceAuthority?: string
+    // nonce stored in the nonce account, defaults to `blockHash`
+    nonce?: string
+}
+
+/**
+ * Returns the nonce information of a durable nonce transaction, or undefined when no nonce account is given.
+ */
+export function getNonceInfo(data: DurableNonceData): NonceInformation | undefined {
+    if (!data.nonceAccount) {
+        return undefined;
+    }
+    const nonce = data.nonce || data.blockHash;
+    if (!validAddress(nonce)) {
+        throw new Error("invalid nonce");
+    }
+    return {
+        nonce: nonce,
+        nonceInstruction: web3.SystemProgram.nonceAdvance({
+            noncePubkey: new web3.PublicKey(data.nonceAccount),
+            authorizedPubkey: new web3.PublicKey(data.nonceAuthority || data.payer),
+        }),
+    }
+}
+
+/**
+ * Decodes the authority and the stored nonce of a nonce account from its account data.
+ */
+export function getNonceAccount(data: Uint8Array): { authority: string, nonce: string } {
+    const nonceAccount = NonceAccount.fromAccountData(data);
+    return {authority: nonceAccount.authorizedPubkey.toBase58(), nonce: nonceAccount.nonce};
+}
+
+export async function getNonceAccountAddress(from: string, seed: string): Promise<string> {
+    const nonceAccount = await PublicKey.createWithSeed(new PublicKey(from), seed, web3.SystemProgram.programId);
+    return nonceAccount.toBase58();
+}
+
+export async function appendCreateNonceAccountInstruction(transaction: web3.Transaction, fromAddress: string, seed: string, authorityAddress: string, amount: number) {
+    const from = new web3.PublicKey(fromAddress);
+    transaction.add(
+        web3.SystemProgram.createNonceAccount({
+            fromPubkey: from,
+            noncePubkey: new web3.PublicKey(await getNonceAccountAddress(fromAddress, seed)),
+            basePubkey: from,
+            seed: seed,
+            authorizedPubkey: new web3.PublicKey(authorityAddress),
+            lamports: amount,
+        }))
+}
+
+export async function appendWithdrawNonceInstruction(transaction: web3.Transaction, nonceAddress: string, authorityAddress: string, toAddress: string, amount: number) {
+    transaction.add(
+        web3.SystemProgram.nonceWithdraw({
+            noncePubkey: new web3.PublicKey(nonceAddress),
+            authorizedPubkey: new web3.PublicKey(authorityAddress),
+            toPubkey: new web3.PublicKey(toAddress),
+            lamports: amount,
+        }))
+}
+
 export async function appendInstruction(transaction: web3.Transaction, ...instructions: web3.TransactionInstruction[]) {
     transaction.add(...instructions)
 }
@@ -152,6 +226,169 @@ export async function appendTokenBurnInstruction(transaction: web3.Transaction,
     )
 }
 
+export type StakeType = "createStakeAccount" | "delegateStake" | "deactivateStake" | "withdrawStake" | "splitStake" | "mergeStake" | "authorizeStake"
+export const stakeTypes: StakeType[] = ["createStakeAccount", "delegateStake", "deactivateStake", "withdrawStake", "splitStake", "mergeStake", "authorizeStake"]
+
+export type StakeTxData = {
+    type: StakeType
+    payer: string
+    blockHash: string
+    // the stake and withdraw authority, also funds created accounts
+    from: string
+    // lamports to stake, withdraw or split
+    amount?: number
+    // stake account to operate on, derived from `from` and `seed` when creating an account
+    stakeAccount?: string
+    // seed of the created stake account, of the new account when splitting
+    seed?: string
+    // vote account to delegate to, createStakeAccount delegates in the same transaction when set
+    votePubkey?: string
+    // authorities of the created stake account, default to `from`
+    staker?: string
+    withdrawer?: string
+    lockup?: {
+        unixTimestamp?: number
+        epoch?: number
+        custodian?: string
+    }
+    // withdrawal recipient, defaults to `from`
+    to?: string
+    // stake account merged into `stakeAccount`
+    sourceStakeAccount?: string
+    newAuthority?: string
+    authorizationType?: "staker" | "withdrawer"
+    // signer required while the stake account is locked up
+    custodian?: string
+    // lamports transferred to the new split account to make it rent exempt
+    rentExemptReserve?: number
+    computeUnitLimit?: number
+    computeUnitPrice?: number
+    needPriorityFee?: boolean
+    nonceAccount?: string
+    nonceAuthority?: string
+    nonce?: string
+}
+
+export async function getStakeAccountAddress(from: string, seed: string): Promise<string> {
+    const stakeAccount = await PublicKey.createWithSeed(new PublicKey(from), seed, StakeProgram.programId);
+    return stakeAccount.toBase58();
+}
+
+export async function getStakeInstructions(txData: StakeTxData): Promise<TransactionInstruction[]> {
+    const from = new PublicKey(txData.from);
+    const custodian = txData.custodian ? new PublicKey(txData.custodian) : undefined;
+    const requireAmount = () => {
+        if (txData.amount == null || txData.amount <= 0) {
+            throw new Error("invalid stake amount");
+        }
+        return txData.amount;
+    };
+    const requireStakeAccount = () => {
+        if (!txData.stakeAccount) {
+            throw new Error("invalid stake account");
+        }
+        return new PublicKey(txData.stakeAccount);
+    };
+
+    switch (txData.type) {
+        case "createStakeAccount": {
+            if (!txData.seed) {
+                throw new Error("invalid stake account seed");
+            }
+            const stakePubkey = new PublicKey(await getStakeAccountAddress(txData.from, txData.seed));
+            if (txData.stakeAccount && txData.stakeAccount !== stakePubkey.toBase58()) {
+                throw new Error("stake account does not match seed");
+            }
+            const lockup = txData.lockup ? new Lockup(
+                txData.lockup.unixTimestamp || 0,
+                txData.lockup.epoch || 0,
+                txData.lockup.custodian ? new PublicKey(txData.lockup.custodian) : PublicKey.default,
+            ) : undefined;
+            const instructions = StakeProgram.createAccountWithSeed({
+                fromPubkey: from,
+                stakePubkey: stakePubkey,
+                basePubkey: from,
+                seed: txData.seed,
+                authorized: new Authorized(
+                    new PublicKey(txData.staker || txData.from),
+                    new PublicKey(txData.withdrawer || txData.from),
+                ),
+                lockup: lockup,
+                lamports: requireAmount(),
+            }).instructions;
+            if (txData.votePubkey) {
+                instructions.push(...StakeProgram.delegate({
+                    stakePubkey: stakePubkey,
+                    authorizedPubkey: new PublicKey(txData.staker || txData.from),
+                    votePubkey: new PublicKey(txData.votePubkey),
+                }).instructions);
+            }
+            return instructions;
+        }
+        case "delegateStake":
+            if (!txData.votePubkey) {
+                throw new Error("invalid vote account");
+            }
+            return StakeProgram.delegate({
+                stakePubkey: requireStakeAccount(),
+                authorizedPubkey: from,
+                votePubkey: new PublicKey(txData.votePubkey),
+            }).instructions;
+        case "deactivateStake":
+            return StakeProgram.deactivate({
+                stakePubkey: requireStakeAccount(),
+                authorizedPubkey: from,
+            }).instructions;
+        case "withdrawStake":
+            return StakeProgram.withdraw({
+                stakePubkey: requireStakeAccount(),
+                authorizedPubkey: from,
+                toPubkey: new PublicKey(txData.to || txData.from),
+                lamports: requireAmount(),
+                custodianPubkey: custodian,
+            }).instructions;
+        case "splitStake": {
+            if (!txData.seed) {
+                throw new Error("invalid split stake account seed");
+            }
+            return StakeProgram.splitWithSeed({
+                stakePubkey: requireStakeAccount(),
+                authorizedPubkey: from,
+                splitStakePubkey: new PublicKey(await getStakeAccountAddress(txData.from, txData.seed)),
+                basePubkey: from,
+                seed: txData.seed,
+                lamports: requireAmount(),
+            }, txData.rentExemptReserve).instructions;
+        }
+        case "mergeStake":
+            if (!txData.sourceStakeAccount) {
+                throw new Error("invalid source stake account");
+            }
+            return StakeProgram.merge({
+                stakePubkey: requireStakeAccount(),
+                sourceStakePubKey: new PublicKey(txData.sourceStakeAccount),
+                authorizedPubkey: from,
+            }).instructions;
+        case "authorizeStake":
+            if (!txData.newAuthority) {
+                throw new Error("invalid new authority");
+            }
+            return StakeProgram.authorize({
+                stakePubkey: requireStakeAccount(),
+                authorizedPubkey: from,
+                newAuthorizedPubkey: new PublicKey(txData.newAuthority),
+                stakeAuthorizationType: txData.authorizationType === "withdrawer" ? StakeAuthorizationLayout.Withdrawer : StakeAuthorizationLayout.Staker,
+                custodianPubkey: custodian,
+            }).instructions;
+        default:
+            throw new Error(`invalid stake type ${txData.type}`);
+    }
+}
+
+export async function appendStakeInstruction(transaction: web3.Transaction, txData: StakeTxData) {
+    transaction.add(...await getStakeInstructions(txData))
+}
+
 export async function signMessage(message: string, privateKey: string): Promise<string> {
     const signData = base.fromBase58(message)
     const signature = signUtil.ed25519.sign(signData, base.fromBase58(privateKey))
@@ -270,6 +507,9 @@ export type TxData = {
     computeUnitLimit?: number
     computeUnitPrice?: number
     needPriorityFee?: boolean
+    nonceAccount?: string
+    nonceAuthority?: string
+    nonce?: string
 }
 
 export async function getSerializedTransferVersionedTransaction(txData: TxData, ...privateKey: string[]) {
@@ -298,7 +538,7 @@ export async function getSerializedTransferVersionedTransaction(txData: TxData,
     //         lamports: txData.amount,
     //     }),
     // ];
-    return getSerializedVersionedTransaction(txData.payer, txData.blockHash, instructions, privateKey);
+    return getSerializedVersionedTransaction(txData.payer, txData.blockHash, instructions, privateKey, getNonceInfo(txData));
 }
 
 export async function signTransferVersionedTransaction(txData: TxData, ...privateKey: string[]) {
@@ -327,7 +567,7 @@ export async function signTransferVersionedTransaction(txData: TxData, ...privat
     //         lamports: txData.amount,
     //     }),
     // ];
-    return createAndSignVersionedTransaction(txData.payer, txData.blockHash, instructions, privateKey);
+    return createAndSignVersionedTransaction(txData.payer, txData.blockHash, instructions, privateKey, getNonceInfo(txData));
 }
 
 export async function signTokenTransferVersionedTransaction(txData: TxData, ...privateKey: string[]) {
@@ -372,7 +612,7 @@ export async function signTokenTransferVersionedTransaction(txData: TxData, ...p
         )
     );
 
-    return createAndSignVersionedTransaction(txData.payer, txData.blockHash, instructions, privateKey);
+    return createAndSignVersionedTransaction(txData.payer, txData.blockHash, instructions, privateKey, getNonceInfo(txData));
 }
 
 export async function getSerializedTokenTransferVersionedTransaction(txData: TxData, ...privateKey: string[]) {
@@ -416,14 +656,34 @@ export async function getSerializedTokenTransferVersionedTransaction(txData: TxD
         )
     );
 
-    return getSerializedVersionedTransaction(txData.payer, txData.blockHash, instructions, privateKey);
+    return getSerializedVersionedTransaction(txData.payer, txData.blockHash, instructions, privateKey, getNonceInfo(txData));
 }
 
-export async function getSerializedVersionedTransaction(payer: string, blockHash: string, instructions: TransactionInstruction[], privateKey: string[]) {
+export async function signStakeVersionedTransaction(txData: StakeTxData, ...privateKey: string[]) {
+    const instructions = [];
+    if (txData.computeUnitLimit && txData.computeUnitPrice) {
+        instructions.push(ComputeBudgetProgram.setComputeUnitLimit({units: txData.computeUnitLimit}));
+        instructions.push(ComputeBudgetProgram.setComputeUnitPrice({microLamports: txData.computeUnitPrice}));
+    }
+    instructions.push(...await getStakeInstructions(txData));
+    return createAndSignVersionedTransaction(txData.payer, txData.blockHash, instructions, privateKey, getNonceInfo(txData));
+}
+
+export async function getSerializedStakeVersionedTransaction(txData: StakeTxData, ...privateKey: string[]) {
+    const instructions = [];
+    if (txData.needPriorityFee && txData.computeUnitLimit && txData.computeUnitPrice) {
+        instructions.push(ComputeBudgetProgram.setComputeUnitLimit({units: txData.computeUnitLimit}));
+        instructions.push(ComputeBudgetProgram.setComputeUnitPrice({microLamports: txData.computeUnitPrice}));
+    }
+    instructions.push(...await getStakeInstructions(txData));
+    return getSerializedVersionedTransaction(txData.payer, txData.blockHash, instructions, privateKey, getNonceInfo(txData));
+}
+
+export async function getSerializedVersionedTransaction(payer: string, blockHash: string, instructions: TransactionInstruction[], privateKey: string[], nonceInfo?: NonceInformation) {
     const messageV0 = new TransactionMessage({
         payerKey: new PublicKey(payer),
-        recentBlockhash: blockHash,
-        instructions,
+        recentBlockhash: nonceInfo ? nonceInfo.nonce : blockHash,
+        instructions: nonceInfo ? [nonceInfo.nonceInstruction, ...instructions] : instructions,
     }).compileToV0Message();
 
     const transaction = new VersionedTransaction(messageV0);
@@ -445,11 +705,11 @@ export async function getSerializedVersionedTransaction(payer: string, blockHash
     return Promise.resolve(base.toBase58(transaction.serialize()));
 }
 
-export async function createAndSignVersionedTransaction(payer: string, blockHash: string, instructions: TransactionInstruction[], privateKey: string[]) {
+export async function createAndSignVersionedTransaction(payer: string, blockHash: string, instructions: TransactionInstruction[], privateKey: string[], nonceInfo?: NonceInformation) {
     const messageV0 = new TransactionMessage({
         payerKey: new PublicKey(payer),
-        recentBlockhash: blockHash,
-        instructions,
+        recentBlockhash: nonceInfo ? nonceInfo.nonce : blockHash,
+        instructions: nonceInfo ? [nonceInfo.nonceInstruction, ...instructions] : instructions,
     }).compileToV0Message();
 
     const transaction = new VersionedTransaction(messageV0);
@@ -471,7 +731,7 @@ export async function createAndSignVersionedTransaction(payer: string, blockHash
     return Promise.resolve(base.toBase58(transaction.serialize()));
 }
 
-export async function signMplTransaction(payer: string, from: string, to: string, mint: string, blockHash: string, privateKey: string, tokenStandard: TokenStandard = TokenStandard.ProgrammableNonFungible, computeUnitLimit?: number, computeUnitPrice?: number) {
+export async function signMplTransaction(payer: string, from: string, to: string, mint: string, blockHash: string, privateKey: string, tokenStandard: TokenStandard = TokenStandard.ProgrammableNonFungible, computeUnitLimit?: number, computeUnitPrice?: number, nonceInfo?: NonceInformation) {
     const nft = {
         tokenStandard,
         address: new PublicKey(mint),
@@ -502,13 +762,16 @@ export async function signMplTransaction(payer: string, from: string, to: string
         builder.add({instruction: modifyComputeUnits, signers: []});
         builder.add({instruction: addPriorityFee, signers: []});
     }
+    if (nonceInfo) {
+        builder.prepend({instruction: nonceInfo.nonceInstruction, signers: []});
+    }
     return getSignedTransaction(builder, undefined, {
-        blockhash: blockHash,
+        blockhash: nonceInfo ? nonceInfo.nonce : blockHash,
         lastValidBlockHeight: 0,
     });
 }
 
-export async function getSerializedMplTransaction(payer: string, from: string, to: string, mint: string, blockHash: string, privateKey: string, tokenStandard: TokenStandard = TokenStandard.ProgrammableNonFungible, computeUnitLimit?: number, computeUnitPrice?: number) {
+export async function getSerializedMplTransaction(payer: string, from: string, to: string, mint: string, blockHash: string, privateKey: string, tokenStandard: TokenStandard = TokenStandard.ProgrammableNonFungible, computeUnitLimit?: number, computeUnitPrice?: number, nonceInfo?: NonceInformation) {
     const nft = {
         tokenStandard,
         address: new PublicKey(mint),
@@ -539,8 +802,11 @@ export async function getSerializedMplTransaction(payer: string, from: string, t
         builder.add({instruction: modifyComputeUnits, signers: []});
         builder.add({instruction: addPriorityFee, signers: []});
     }
+    if (nonceInfo) {
+        builder.prepend({instruction: nonceInfo.nonceInstruction, signers: []});
+    }
     return getSerializedTransaction(builder, undefined, {
-        blockhash: blockHash,
+        blockhash: nonceInfo ? nonceInfo.nonce : blockHash,
         lastValidBlockHeight: 0,
     });
 }
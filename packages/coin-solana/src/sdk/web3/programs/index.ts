@@ -1,3 +1,4 @@
 export * from './address-lookup-table';
 export * from './system';
 export * from './compute-budget';
+export * from './stake';
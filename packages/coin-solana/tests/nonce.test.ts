@@ -0,0 +1,103 @@
+import {api, SolWallet} from "../src"
+import {SystemInstruction, SystemProgram, Transaction, VersionedTransaction} from "../src/sdk/web3";
+import {base} from "@okxweb3/crypto-lib";
+
+const privateKey = "037f00373589c700a411382ae702e258b01f30a509a32be2b2c84fb54de4c1e5fd5fd86d7d7b8355492b1517a96a2fbb17e1a374b80a21559bdfee0dfbaa0b32";
+const privateKeyBase58 = base.toBase58(base.fromHex(privateKey));
+const from = "J44uzihE3Ty2YBdMsLwCE3hV5uf2q2hRJQMnW2NGqPfo";
+const to = "7NRmECq1R4tCtXNvmvDAuXmii3vN1J9DRZWhMCuuUnkM";
+// seed "nonce:0" of `from`
+const nonceAccount = "CWQ5kVhsZRgowT5VvGkuuxyDCDPVDrdhmCW9nS4WM2oX";
+const nonce = "BHgsBbx9VQWsWdASiNC2wLq8aWFhuzJvpuwyKp2Jukk5";
+
+describe("durable nonce", () => {
+    test("nonce account", async () => {
+        expect(await api.getNonceAccountAddress(from, "nonce:0")).toEqual(nonceAccount);
+
+        // version, state, authority, nonce and lamports per signature
+        const data = Buffer.concat([
+            Buffer.from("0100000001000000", "hex"),
+            Buffer.from(base.fromBase58(from)),
+            Buffer.from(base.fromBase58(nonce)),
+            Buffer.from("8813000000000000", "hex"),
+        ]);
+        expect(api.getNonceAccount(data)).toEqual({authority: from, nonce: nonce});
+
+        const rawTransaction = api.createRawTransaction(from, nonce);
+        await api.appendCreateNonceAccountInstruction(rawTransaction, from, "nonce:0", from, 1447680);
+        await api.appendWithdrawNonceInstruction(rawTransaction, nonceAccount, from, to, 1000);
+        const expected = "010000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000306fd5fd86d7d7b8355492b1517a96a2fbb17e1a374b80a21559bdfee0dfbaa0b325ea35151687d4d7f5d0ab49e180f20e41fbd14dbe42b85fd32b02a478733f7deaaf87f996f4226da67fb23bcc2997e67a48a399d06fc22130f6129cc85f3993e000000000000000000000000000000000000000000000000000000000000000006a7d517192c568ee08a845f73d29788cf035c3145b21ab344d8062ea940000006a7d517192c5c51218cc94c3d4af17f58daee089ba1fd44e3dbd98a0000000098db3ceac8de0aeedc448cd2f16ab74dcba8902c1a7a3ee12d1c931f4473915e03030200026303000000fd5fd86d7d7b8355492b1517a96a2fbb17e1a374b80a21559bdfee0dfbaa0b3207000000000000006e6f6e63653a3000171600000000005000000000000000000000000000000000000000000000000000000000000000000000000000000003030204052406000000fd5fd86d7d7b8355492b1517a96a2fbb17e1a374b80a21559bdfee0dfbaa0b32030502010405000c05000000e803000000000000";
+        expect(base.toHex(rawTransaction.serialize({verifySignatures: false, requireAllSignatures: false}))).toEqual(expected);
+    });
+
+    test("transfer", async () => {
+        const wallet = new SolWallet();
+        const data = {
+            type: "transfer",
+            payer: from,
+            blockHash: "",
+            from: from,
+            to: to,
+            amount: 1000000,
+            computeUnitLimit: 200000,
+            computeUnitPrice: 10,
+            nonceAccount: nonceAccount,
+            nonce: nonce,
+        };
+        const tx = await wallet.signTransaction({privateKey: privateKeyBase58, data: data});
+        const expected = "6vNwCaH5uzWjKLMKh61UhbRAZ5RqL1DqFKpgMqtaW3Rsfu6PXSj89j5Z7xha7meYZ7cGhBJdG4vUYZsffFQFivXXLadagX6T9xZURMp1jHWC6o4dQsy6vdWTBpFfCet5LNNSY2YSDTzAgFq3chsdzbfDhqENZHuPCP2fAPBhNtRxB7D54t6crpo7T95B44KcuVUwjK4j8j7zeM3dW6KeRyRogX9hr8rEbHfpQP2kuPm2PmumuyZnXBwTkVZ2EXHNfMWJyVzW6Jm6YwNjzCSN8jihyLLGeWL8BXZCxmBMowEftDGA3VYyQzm6ZtyT4wmpTnAJy7Tjn5KiEnYXJpsd9DjFVeqJMmBkG6XrX79sYNkoppX8mCVium584unNWrYo7EyP5y4PVfiykv2czZdrxbA14BgERjqKmi3nYvuo2uJKWu5h6w3WKJ8svU9rXXxMaxkSxu3MMF9JDcGA3";
+        expect(tx).toEqual(expected);
+        const ok = await wallet.validSignedTransaction({tx: tx});
+        expect(JSON.parse(ok).recentBlockhash).toEqual(nonce);
+
+        const v0 = await wallet.signTransaction({privateKey: privateKeyBase58, data: {...data, version: 0, computeUnitLimit: 0}});
+        const expectedV0 = "2JcbRF96vXJU11azMK3gda2s7FmjcgU1v6YtDGer5ELdxbQtTnrU4e2aPPDoKASZpetvjCkKQyZ7mpWkiF8KSPC7vY6dwAkQgvnxZmq79KcBnZE8bmZ52i3ExRVQQ3u7Cn3NHHUD2DSjDSY9G1pNuDB6didrYXtaG5DHCHgQNQFetWsi2bDmRFCih3EZPZVmDX8YJpfnb3CWTR5iKCgY2N6Wz7xqDBPZRjGfe8NsDHSkJ2WrMBBpv2tm4qW8K5BCiv3a2sbhiq1t64cmj9Agpqx6ZSghFpYRmy9PjLvsccNmfp6wJbSSFEQZUWT5NF9XcSVmacXd2NQ1GQ8KLhLEK6VA9ezCqCRqAWH2scFzhGV1my9yPvq63wnmGevqeEYUifySxpaMz32fZ";
+        expect(v0).toEqual(expectedV0);
+
+        await expect(wallet.signTransaction({privateKey: privateKeyBase58, data: {...data, nonce: "0x"}})).rejects.toBeDefined();
+    });
+
+    test("token and mpl transfer", async () => {
+        const wallet = new SolWallet();
+        const tokenTx = await wallet.getSerializedTransaction({
+            privateKey: "",
+            data: {
+                type: "tokenTransfer",
+                payer: from,
+                blockHash: nonce,
+                from: from,
+                to: to,
+                mint: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
+                amount: 100,
+                createAssociatedAddress: false,
+                nonceAccount: nonceAccount,
+            },
+        });
+        const tokenTransaction = Transaction.from(base.fromBase58(tokenTx));
+        expect(tokenTransaction.recentBlockhash).toEqual(nonce);
+        expect(SystemInstruction.decodeInstructionType(tokenTransaction.instructions[0])).toEqual("AdvanceNonceAccount");
+        expect(SystemInstruction.decodeNonceAdvance(tokenTransaction.instructions[0]).noncePubkey.toBase58()).toEqual(nonceAccount);
+
+        const mplTx = await wallet.signTransaction({
+            privateKey: privateKeyBase58,
+            data: {
+                type: "mplTransfer",
+                payer: from,
+                blockHash: "",
+                from: from,
+                to: to,
+                mint: "CBFUFA2QXo7onXqWJGeuqPKGvB9UanQWa6nFddfSHaC7",
+                computeUnitLimit: 1400000,
+                computeUnitPrice: 10,
+                nonceAccount: nonceAccount,
+                nonce: nonce,
+            },
+        });
+        const mplTransaction = VersionedTransaction.deserialize(base.fromBase58(mplTx));
+        const message = mplTransaction.message;
+        expect(message.recentBlockhash).toEqual(nonce);
+        const advance = message.compiledInstructions[0];
+        expect(message.staticAccountKeys[advance.programIdIndex].toBase58()).toEqual(SystemProgram.programId.toBase58());
+        expect(message.staticAccountKeys[advance.accountKeyIndexes[0]].toBase58()).toEqual(nonceAccount);
+    });
+});
@@ -0,0 +1,91 @@
+import {api, SolWallet} from "../src"
+import {StakeInstruction, StakeProgram, Transaction, VersionedTransaction} from "../src/sdk/web3";
+import {base, signUtil} from "@okxweb3/crypto-lib";
+
+const privateKey = "037f00373589c700a411382ae702e258b01f30a509a32be2b2c84fb54de4c1e5fd5fd86d7d7b8355492b1517a96a2fbb17e1a374b80a21559bdfee0dfbaa0b32";
+const privateKeyBase58 = base.toBase58(base.fromHex(privateKey));
+const from = "J44uzihE3Ty2YBdMsLwCE3hV5uf2q2hRJQMnW2NGqPfo";
+const votePubkey = "7NRmECq1R4tCtXNvmvDAuXmii3vN1J9DRZWhMCuuUnkM";
+const other = "9F3m9cPLjN4abNCoKPY9MKSc8zbzcoUoFSEiZ9hyU9Hb";
+const blockHash = "BHgsBbx9VQWsWdASiNC2wLq8aWFhuzJvpuwyKp2Jukk5";
+// seeds "stake:0" and "stake:1" of `from`
+const stakeAccount = "AxJN1n6u1j3K7knh1hSWuePjXnPdvkNsedKyRX4r2XPi";
+const splitStakeAccount = "BDmvGugeuC1PY96SjCpDjoeKwYuR9PgmjDUJ11eUJB2i";
+
+const common = {payer: from, blockHash: blockHash, from: from};
+
+describe("stake", () => {
+    test("stake account address", async () => {
+        expect(await api.getStakeAccountAddress(from, "stake:0")).toEqual(stakeAccount);
+        expect(await api.getStakeAccountAddress(from, "stake:1")).toEqual(splitStakeAccount);
+    });
+
+    test("createStakeAccount", async () => {
+        const wallet = new SolWallet();
+        const tx = await wallet.signTransaction({privateKey: privateKeyBase58, data: {
+            ...common,
+            type: "createStakeAccount",
+            seed: "stake:0",
+            amount: 2000000000,
+            votePubkey: votePubkey,
+        }});
+        const expected = "68P48B8iYirGKNf7K8L8hxAK7Cfbh3Nt6k84jFLQ4GTBzfY4WyYFs8DWEXQr4ynuXWk69BJfWEw8NmZGo9KrY39ekphTWcSqDBmRhdQVZx65WanTT2xPDFbGj54hJiknD8xweWUuMNxFEwsiwDXGLRYwvXyujSGepjps4qPRxzCTp67WDL9r2XMz5CEZT6ZyNwqY5nZE6ExihqJJCQL3ZRLpdvsvfiNcA1sizA5yiH1W9KJ7jLmHSZafxGscmNkbE6kbqbc4m8KpNeC1aZ5NKDgBnRBwLyqYkAJNgksZXDRo4Gu2xpZUqPEFf9D3Tkd4UJtaXpK7AskKFRzz3hmAX2bVLP9HYoDNTCfGM6gCoS242n6Mt7xKSsacxz6R7BDaYR6iGyM3hRiv4R1cfWBhGvcz8nGAmFoRWz9ZZ97pVKsvjiUPaZ9zLZgzXw6E7cHNc3UJEB1unabyrmBjk7toUqRq2E252yWBZZf9hzBGxfk7C2kguJfjCAk4HTA87cRBLFb8M23cnzM2C6hihNXJeZXZLuQea9nmnvYr1sihzE3K3eQx9LioTUZTg9JCcjpnD1oWCi5Xj7c2gHpitzd9c7HPD4KKmtntLzg6USnYL4Q3DEFu8igFzHnPNkxZsvKCwkdLRbDFcURzcEfpUJRvg3fw3J8SsmEuubHkVsAbjrizdR2jJ5YzwSp6mxV7kGuv4kZM17bn5NShnJw4XA6VNQsYKtGc4DYqjzp9kJwzgaZmYN6w3EY3WGXZZ8JczHz8865fKJPQMRjDPVvMENyjXkGeiSntg43XxgRRyxZQSbS9x4ERtfXWZAJUG6J5SU83J1WT6MBCbMs8KEm4vp3jGDFgb";
+        expect(tx).toEqual(expected);
+
+        const instructions = Transaction.from(base.fromBase58(tx)).instructions;
+        expect(instructions.slice(1).map(i => StakeInstruction.decodeInstructionType(i) as string)).toEqual(["Initialize", "Delegate"]);
+        const initialize = StakeInstruction.decodeInitialize(instructions[1]);
+        expect(initialize.stakePubkey.toBase58()).toEqual(stakeAccount);
+        expect(initialize.authorized.withdrawer.toBase58()).toEqual(from);
+
+        await expect(wallet.signTransaction({privateKey: privateKeyBase58, data: {...common, type: "createStakeAccount", amount: 2000000000}})).rejects.toBeDefined();
+        await expect(wallet.signTransaction({privateKey: privateKeyBase58, data: {
+            ...common,
+            type: "createStakeAccount",
+            seed: "stake:0",
+            stakeAccount: splitStakeAccount,
+            amount: 2000000000,
+        }})).rejects.toBeDefined();
+    });
+
+    test("stake instructions", async () => {
+        const wallet = new SolWallet();
+        const cases: [any, string][] = [
+            [{type: "deactivateStake", stakeAccount: stakeAccount}, "010000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000204fd5fd86d7d7b8355492b1517a96a2fbb17e1a374b80a21559bdfee0dfbaa0b3293e3c229e2e6c35b8f4f01ffcc9faab4c723785e8102122950386fec3eb3e5f506a1d8179137542a983437bdfe2a7ab2557f535c8a78722b68a49dc00000000006a7d51718c774c928566398691d5eb68b5eb8a39b4b6d5c73555b210000000098db3ceac8de0aeedc448cd2f16ab74dcba8902c1a7a3ee12d1c931f4473915e0102030103000405000000"],
+            [{type: "withdrawStake", stakeAccount: stakeAccount, to: other, amount: 1500000000}, "010000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000306fd5fd86d7d7b8355492b1517a96a2fbb17e1a374b80a21559bdfee0dfbaa0b327a76bfb24a40a9fbbcdab151e09c11044c081da9bc9deb238ef03d4db7fb7c9a93e3c229e2e6c35b8f4f01ffcc9faab4c723785e8102122950386fec3eb3e5f506a1d8179137542a983437bdfe2a7ab2557f535c8a78722b68a49dc00000000006a7d51718c774c928566398691d5eb68b5eb8a39b4b6d5c73555b210000000006a7d517193584d0feed9bb3431d13206be544281b57b8566cc5375ff400000098db3ceac8de0aeedc448cd2f16ab74dcba8902c1a7a3ee12d1c931f4473915e01030502010405000c04000000002f685900000000"],
+            [{type: "splitStake", stakeAccount: stakeAccount, seed: "stake:1", amount: 1000000000, rentExemptReserve: 2282880}, "010000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000205fd5fd86d7d7b8355492b1517a96a2fbb17e1a374b80a21559bdfee0dfbaa0b3293e3c229e2e6c35b8f4f01ffcc9faab4c723785e8102122950386fec3eb3e5f597daa0e5da67e511b4f4a5b670a65d3dff8a753973a03e040c33f971c6b99043000000000000000000000000000000000000000000000000000000000000000006a1d8179137542a983437bdfe2a7ab2557f535c8a78722b68a49dc00000000098db3ceac8de0aeedc448cd2f16ab74dcba8902c1a7a3ee12d1c931f4473915e03030202005b09000000fd5fd86d7d7b8355492b1517a96a2fbb17e1a374b80a21559bdfee0dfbaa0b3207000000000000007374616b653a31c80000000000000006a1d8179137542a983437bdfe2a7ab2557f535c8a78722b68a49dc000000000030200020c0200000080d522000000000004030102000c0300000000ca9a3b00000000"],
+            [{type: "mergeStake", stakeAccount: stakeAccount, sourceStakeAccount: splitStakeAccount}, "010000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000306fd5fd86d7d7b8355492b1517a96a2fbb17e1a374b80a21559bdfee0dfbaa0b3293e3c229e2e6c35b8f4f01ffcc9faab4c723785e8102122950386fec3eb3e5f597daa0e5da67e511b4f4a5b670a65d3dff8a753973a03e040c33f971c6b9904306a1d8179137542a983437bdfe2a7ab2557f535c8a78722b68a49dc00000000006a7d51718c774c928566398691d5eb68b5eb8a39b4b6d5c73555b210000000006a7d517193584d0feed9bb3431d13206be544281b57b8566cc5375ff400000098db3ceac8de0aeedc448cd2f16ab74dcba8902c1a7a3ee12d1c931f4473915e01030501020405000407000000"],
+            [{type: "authorizeStake", stakeAccount: stakeAccount, newAuthority: other, authorizationType: "withdrawer"}, "010000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000001000104fd5fd86d7d7b8355492b1517a96a2fbb17e1a374b80a21559bdfee0dfbaa0b3293e3c229e2e6c35b8f4f01ffcc9faab4c723785e8102122950386fec3eb3e5f506a7d51718c774c928566398691d5eb68b5eb8a39b4b6d5c73555b210000000006a1d8179137542a983437bdfe2a7ab2557f535c8a78722b68a49dc00000000098db3ceac8de0aeedc448cd2f16ab74dcba8902c1a7a3ee12d1c931f4473915e01030301020028010000007a76bfb24a40a9fbbcdab151e09c11044c081da9bc9deb238ef03d4db7fb7c9a01000000"],
+        ];
+        for (const [data, expected] of cases) {
+            expect(await wallet.signTransaction({privateKey: "", data: {...common, ...data}})).toEqual(expected);
+        }
+
+        await expect(wallet.signTransaction({privateKey: privateKeyBase58, data: {...common, type: "delegateStake", stakeAccount: stakeAccount}})).rejects.toBeDefined();
+        await expect(wallet.signTransaction({privateKey: privateKeyBase58, data: {...common, type: "withdrawStake", stakeAccount: stakeAccount}})).rejects.toBeDefined();
+        await expect(wallet.signTransaction({privateKey: privateKeyBase58, data: {...common, type: "mergeStake", stakeAccount: stakeAccount}})).rejects.toBeDefined();
+    });
+
+    test("delegateStake v0", async () => {
+        const wallet = new SolWallet();
+        const param = {privateKey: privateKeyBase58, data: {
+            ...common,
+            type: "delegateStake",
+            version: 0,
+            stakeAccount: stakeAccount,
+            votePubkey: votePubkey,
+            computeUnitLimit: 200000,
+            computeUnitPrice: 10,
+        }};
+        const tx = VersionedTransaction.deserialize(base.fromBase58(await wallet.signTransaction(param)));
+        expect(tx.version).toEqual(0);
+        const message = tx.message;
+        const delegate = message.compiledInstructions[2];
+        expect(message.staticAccountKeys[delegate.programIdIndex].toBase58()).toEqual(StakeProgram.programId.toBase58());
+        expect(delegate.accountKeyIndexes.map(i => message.staticAccountKeys[i].toBase58()).slice(0, 2)).toEqual([stakeAccount, votePubkey]);
+        expect(signUtil.ed25519.verify(message.serialize(), tx.signatures[0], base.fromBase58(from))).toEqual(true);
+
+        const serialized = await wallet.getSerializedTransaction(param);
+        expect(VersionedTransaction.deserialize(base.fromBase58(serialized)).message.compiledInstructions.length).toEqual(1);
+    });
+});
@@ -31,8 +31,13 @@ import * as tron from "./index";
 
 
 export type TrxSignParam = {
-    type: "transfer" | "assetTransfer" | "tokenTransfer"
+    type: "transfer" | "assetTransfer" | "tokenTransfer" | "freezeBalanceV2" | "unfreezeBalanceV2" | "withdrawExpireUnfreeze"
+        | "delegateResource" | "unDelegateResource" | "voteWitness" | "withdrawBalance" | "accountPermissionUpdate"
+        | "triggerSmartContract"
     data: tron.TransferTransactionParams | tron.AssetTransferTransactionParams | tron.TokenTransferTransactionParams
+        | tron.FreezeBalanceV2TransactionParams | tron.UnfreezeBalanceV2TransactionParams | tron.DelegateResourceTransactionParams
+        | tron.UnDelegateResourceTransactionParams | tron.VoteWitnessTransactionParams | tron.AccountPermissionUpdateTransactionParams
+        | tron.TriggerSmartContractTransactionParams | tron.CommonTransactionParams
 }
 
 function checkPrivateKey(privateKey: string): boolean {
@@ -122,6 +127,31 @@ export class TrxWallet extends BaseWallet {
                 const data = txParams.data as tron.TokenTransferTransactionParams
                 const tx = tron.tokenTransfer(data, privateKey)
                 return Promise.resolve(tx)
+            } else if (txParams.type === "freezeBalanceV2") {
+                const data = txParams.data as tron.FreezeBalanceV2TransactionParams
+                return Promise.resolve(tron.freezeBalanceV2(data, privateKey))
+            } else if (txParams.type === "unfreezeBalanceV2") {
+                const data = txParams.data as tron.UnfreezeBalanceV2TransactionParams
+                return Promise.resolve(tron.unfreezeBalanceV2(data, privateKey))
+            } else if (txParams.type === "withdrawExpireUnfreeze") {
+                return Promise.resolve(tron.withdrawExpireUnfreeze(txParams.data, privateKey))
+            } else if (txParams.type === "delegateResource") {
+                const data = txParams.data as tron.DelegateResourceTransactionParams
+                return Promise.resolve(tron.delegateResource(data, privateKey))
+            } else if (txParams.type === "unDelegateResource") {
+                const data = txParams.data as tron.UnDelegateResourceTransactionParams
+                return Promise.resolve(tron.unDelegateResource(data, privateKey))
+            } else if (txParams.type === "voteWitness") {
+                const data = txParams.data as tron.VoteWitnessTransactionParams
+                return Promise.resolve(tron.voteWitness(data, privateKey))
+            } else if (txParams.type === "withdrawBalance") {
+                return Promise.resolve(tron.withdrawBalance(txParams.data, privateKey))
+            } else if (txParams.type === "accountPermissionUpdate") {
+                const data = txParams.data as tron.AccountPermissionUpdateTransactionParams
+                return Promise.resolve(tron.accountPermissionUpdate(data, privateKey))
+            } else if (txParams.type === "triggerSmartContract") {
+                const data = txParams.data as tron.TriggerSmartContractTransactionParams
+                return Promise.resolve(tron.triggerSmartContract(data, privateKey))
             } else {
                 return Promise.reject(SignTxError);
             }
@@ -1,4 +1,4 @@
-import { base, Long, signUtil,abi } from '@okxweb3/crypto-lib';
+import { base, BN, Long, signUtil,abi, _m0 } from '@okxweb3/crypto-lib';
 import { google, protocol } from './protobuf/tron';
 import * as eth from "@okxweb3/coin-ethereum"
 
@@ -81,6 +81,8 @@ export interface CommonTransactionParams {
   expiration: number,
   timeStamp: number,
   feeLimit?: number,
+  // id of the permission signing the transaction, 0 (owner) by default, active permissions start from 2
+  permissionId?: number,
 }
 
 export interface TransferTransactionParams extends CommonTransactionParams{
@@ -100,6 +102,63 @@ export interface TokenTransferTransactionParams extends TransferTransactionParam
   contractAddress: string
 }
 
+export type ResourceType = "BANDWIDTH" | "ENERGY" | "TRON_POWER"
+
+export interface FreezeBalanceV2TransactionParams extends CommonTransactionParams {
+  // sun to stake
+  amount: string,
+  resource: ResourceType,
+}
+
+export interface UnfreezeBalanceV2TransactionParams extends CommonTransactionParams {
+  // sun to unstake
+  amount: string,
+  resource: ResourceType,
+}
+
+export interface DelegateResourceTransactionParams extends CommonTransactionParams {
+  // staked sun whose resource is delegated
+  amount: string,
+  resource: ResourceType,
+  receiverAddress: string,
+  lock?: boolean,
+  // blocks the delegation is locked for, implies lock
+  lockPeriod?: number,
+}
+
+export interface UnDelegateResourceTransactionParams extends CommonTransactionParams {
+  amount: string,
+  resource: ResourceType,
+  receiverAddress: string,
+}
+
+export interface VoteWitnessTransactionParams extends CommonTransactionParams {
+  votes: {
+    // witness (super representative) address
+    address: string,
+    count: string,
+  }[],
+}
+
+export interface PermissionKey {
+  address: string,
+  weight: number,
+}
+
+export interface PermissionParams {
+  permissionName?: string,
+  threshold: number,
+  // hex of the 32 bytes bitmap of the allowed contract types, only for active permissions, see getPermissionOperations
+  operations?: string,
+  keys: PermissionKey[],
+}
+
+export interface AccountPermissionUpdateTransactionParams extends CommonTransactionParams {
+  owner: PermissionParams,
+  witness?: PermissionParams,
+  actives: PermissionParams[],
+}
+
 export function createRawTransaction(param: CommonTransactionParams, contractArray: protocol.Transaction.IContract[]) {
   return protocol.Transaction.raw.create({
     refBlockBytes: base.fromHex(param.refBlockBytes),
@@ -107,7 +166,10 @@ export function createRawTransaction(param: CommonTransactionParams, contractArr
     expiration: param.expiration,
     timestamp: param.timeStamp,
     feeLimit: param.feeLimit,
-    contract: contractArray
+    contract: param.permissionId ? contractArray.map(contract => protocol.Transaction.Contract.create({
+      ...contract,
+      PermissionId: param.permissionId
+    })) : contractArray
   })
 }
 
@@ -227,6 +289,411 @@ export function tokenTransfer(param: TokenTransferTransactionParams, privateKey:
   return signRawTransaction(raw, privateKey)
 }
 
+// Tron addresses in base58 or 41 prefixed hex, numbers as decimal strings, bytes as hex, arrays for array types
+export type TriggerParameterValue = string | boolean | TriggerParameterValue[]
+
+export interface SmartContractParameter {
+  // solidity type, e.g. address, uint256, bytes, address[]
+  type: string,
+  value: TriggerParameterValue,
+}
+
+// values in the form of the abi coder
+type AbiValue = string | boolean | Buffer | AbiValue[]
+
+export interface TriggerSmartContractTransactionParams extends CommonTransactionParams {
+  contractAddress: string,
+  // e.g. approve(address,uint256)
+  functionSelector: string,
+  parameters?: SmartContractParameter[],
+  // sun sent to the contract
+  callValue?: string,
+  // TRC-10 token sent to the contract
+  callTokenValue?: string,
+  tokenId?: string,
+}
+
+// selectors of the common TRC-20 and TRC-721 methods, used to decode calls when no selector is given
+const KNOWN_FUNCTION_SELECTORS = [
+  "transfer(address,uint256)",
+  "approve(address,uint256)",
+  "transferFrom(address,address,uint256)",
+  "safeTransferFrom(address,address,uint256)",
+  "safeTransferFrom(address,address,uint256,bytes)",
+  "setApprovalForAll(address,bool)",
+]
+
+function getSelectorTypes(functionSelector: string) {
+  const match = /^(\w+)\((.*)\)$/.exec(functionSelector.replace(/\s/g, ""))
+  if (!match) {
+    throw new Error(`invalid function selector ${functionSelector}`)
+  }
+  return match[2] === "" ? [] : match[2].split(",")
+}
+
+function getMethodId(functionSelector: string) {
+  return base.keccak256(Buffer.from(functionSelector.replace(/\s/g, ""))).slice(0, 4)
+}
+
+// Tron addresses are encoded as the 20 bytes after the 41 prefix
+function toAbiValue(type: string, value: TriggerParameterValue): AbiValue {
+  if (type.endsWith("]")) {
+    if (!Array.isArray(value)) {
+      throw new Error(`${type} value must be an array`)
+    }
+    return value.map(item => toAbiValue(type.slice(0, type.lastIndexOf("[")), item))
+  }
+  if (Array.isArray(value)) {
+    throw new Error(`${type} value must not be an array`)
+  }
+  if (type === "address") {
+    if (typeof value !== "string") {
+      throw new Error("address value must be a string")
+    }
+    return "0x" + base.toHex(getAddressHash(value)).slice(2)
+  }
+  if (type.startsWith("bytes") && typeof value === "string") {
+    return Buffer.from(base.fromHex(value))
+  }
+  return value
+}
+
+// the abi decoder returns arrays, hex addresses, BN of the integer types, Buffer of the bytes types, booleans and strings
+function fromAbiValue(type: string, value: unknown): TriggerParameterValue {
+  if (Array.isArray(value)) {
+    return value.map(item => fromAbiValue(type.slice(0, type.lastIndexOf("[")), item))
+  }
+  if (type === "address") {
+    return base.toBase58Check(base.fromHex(ADDRESS_PREFIX + value))
+  }
+  if (Buffer.isBuffer(value)) {
+    return base.toHex(value)
+  }
+  if (BN.isBN(value)) {
+    return value.toString(10)
+  }
+  if (typeof value === "string" || typeof value === "boolean") {
+    return value
+  }
+  throw new Error(`unsupported ${type} value`)
+}
+
+export function getTriggerSmartContractData(functionSelector: string, parameters: SmartContractParameter[] = []) {
+  const types = getSelectorTypes(functionSelector)
+  if (types.join(",") !== parameters.map(parameter => parameter.type).join(",")) {
+    throw new Error("parameters do not match the function selector")
+  }
+  const values = parameters.map(parameter => toAbiValue(parameter.type, parameter.value))
+  return Buffer.concat([getMethodId(functionSelector), abi.RawEncode(types, values)])
+}
+
+export function triggerSmartContractContract(param: TriggerSmartContractTransactionParams) {
+  const contract = protocol.TriggerSmartContract.create({
+    ownerAddress: getAddressHash(param.fromAddress),
+    contractAddress: getAddressHash(param.contractAddress),
+    data: getTriggerSmartContractData(param.functionSelector, param.parameters),
+    callValue: param.callValue ? Long.fromString(param.callValue) : undefined,
+    callTokenValue: param.callTokenValue ? Long.fromString(param.callTokenValue) : undefined,
+    tokenId: param.tokenId ? Long.fromString(param.tokenId) : undefined
+  })
+  return [createContract(ContractType.TriggerSmartContract, "TriggerSmartContract", protocol.TriggerSmartContract.encode(contract).finish())]
+}
+
+export function triggerSmartContract(param: TriggerSmartContractTransactionParams, privateKey: string) {
+  const raw = createRawTransaction(param, triggerSmartContractContract(param))
+  return signRawTransaction(raw, privateKey)
+}
+
+/**
+ * Decodes the TriggerSmartContract of a raw transaction for display. The parameters are decoded with the given
+ * function selector or, when it is not given, a known TRC-20/TRC-721 selector matching the method id.
+ */
+export function decodeTriggerSmartContract(raw: string, functionSelector?: string) {
+  const rawData = protocol.Transaction.raw.decode(base.fromHex(raw))
+  const contract = rawData.contract[0]
+  if (!contract || contract.type !== ContractType.TriggerSmartContract) {
+    throw new Error("not a TriggerSmartContract transaction")
+  }
+  const trigger = protocol.TriggerSmartContract.decode(contract.parameter!.value!)
+  const data = Buffer.from(trigger.data)
+  const methodId = base.toHex(data.slice(0, 4))
+  const selector = functionSelector || KNOWN_FUNCTION_SELECTORS.find(known => base.toHex(getMethodId(known)) === methodId)
+  let parameters: SmartContractParameter[] | undefined
+  if (selector) {
+    if (base.toHex(getMethodId(selector)) !== methodId) {
+      throw new Error("method id does not match the function selector")
+    }
+    const types = getSelectorTypes(selector)
+    const values = abi.ABI.rawDecode(types, data.slice(4))
+    parameters = types.map((type, i) => ({type: type, value: fromAbiValue(type, values[i])}))
+  }
+  return {
+    ownerAddress: base.toBase58Check(trigger.ownerAddress),
+    contractAddress: base.toBase58Check(trigger.contractAddress),
+    feeLimit: rawData.feeLimit.toString(),
+    callValue: trigger.callValue.toString(),
+    callTokenValue: trigger.callTokenValue.toString(),
+    tokenId: trigger.tokenId.toString(),
+    permissionId: contract.PermissionId,
+    methodId: methodId,
+    functionSelector: selector,
+    parameters: parameters,
+    data: base.toHex(data)
+  }
+}
+
+function createContract(type: ContractType, typeName: string, value: Uint8Array): protocol.Transaction.IContract {
+  return protocol.Transaction.Contract.create({
+    type: type,
+    parameter: google.protobuf.Any.create({
+      type_url: "type.googleapis.com/protocol." + typeName,
+      value: value
+    })
+  })
+}
+
+// BANDWIDTH is the proto3 default and left unset, as in the transactions built by the nodes
+function getResourceCode(resource: ResourceType) {
+  const code = protocol.ResourceCode[resource]
+  if (code === undefined) {
+    throw new Error(`invalid resource ${resource}`)
+  }
+  return code === protocol.ResourceCode.BANDWIDTH ? undefined : code
+}
+
+export function freezeBalanceV2Contract(param: FreezeBalanceV2TransactionParams) {
+  const contract = protocol.FreezeBalanceV2Contract.create({
+    ownerAddress: getAddressHash(param.fromAddress),
+    frozenBalance: Long.fromString(param.amount),
+    resource: getResourceCode(param.resource)
+  })
+  return [createContract(ContractType.FreezeBalanceV2Contract, "FreezeBalanceV2Contract", protocol.FreezeBalanceV2Contract.encode(contract).finish())]
+}
+
+export function freezeBalanceV2(param: FreezeBalanceV2TransactionParams, privateKey: string) {
+  const raw = createRawTransaction(param, freezeBalanceV2Contract(param))
+  return signRawTransaction(raw, privateKey)
+}
+
+export function unfreezeBalanceV2Contract(param: UnfreezeBalanceV2TransactionParams) {
+  const contract = protocol.UnfreezeBalanceV2Contract.create({
+    ownerAddress: getAddressHash(param.fromAddress),
+    unfreezeBalance: Long.fromString(param.amount),
+    resource: getResourceCode(param.resource)
+  })
+  return [createContract(ContractType.UnfreezeBalanceV2Contract, "UnfreezeBalanceV2Contract", protocol.UnfreezeBalanceV2Contract.encode(contract).finish())]
+}
+
+export function unfreezeBalanceV2(param: UnfreezeBalanceV2TransactionParams, privateKey: string) {
+  const raw = createRawTransaction(param, unfreezeBalanceV2Contract(param))
+  return signRawTransaction(raw, privateKey)
+}
+
+// withdraws the unstaked TRX whose waiting period has passed
+export function withdrawExpireUnfreezeContract(param: CommonTransactionParams) {
+  const contract = protocol.WithdrawExpireUnfreezeContract.create({
+    ownerAddress: getAddressHash(param.fromAddress)
+  })
+  return [createContract(ContractType.WithdrawExpireUnfreezeContract, "WithdrawExpireUnfreezeContract", protocol.WithdrawExpireUnfreezeContract.encode(contract).finish())]
+}
+
+export function withdrawExpireUnfreeze(param: CommonTransactionParams, privateKey: string) {
+  const raw = createRawTransaction(param, withdrawExpireUnfreezeContract(param))
+  return signRawTransaction(raw, privateKey)
+}
+
+export function delegateResourceContract(param: DelegateResourceTransactionParams) {
+  const lock = param.lock || (param.lockPeriod !== undefined && param.lockPeriod > 0)
+  const contract = protocol.DelegateResourceContract.create({
+    ownerAddress: getAddressHash(param.fromAddress),
+    resource: getResourceCode(param.resource),
+    balance: Long.fromString(param.amount),
+    receiverAddress: getAddressHash(param.receiverAddress),
+    lock: lock || undefined,
+    lockPeriod: lock && param.lockPeriod ? param.lockPeriod : undefined
+  })
+  return [createContract(ContractType.DelegateResourceContract, "DelegateResourceContract", protocol.DelegateResourceContract.encode(contract).finish())]
+}
+
+export function delegateResource(param: DelegateResourceTransactionParams, privateKey: string) {
+  const raw = createRawTransaction(param, delegateResourceContract(param))
+  return signRawTransaction(raw, privateKey)
+}
+
+export function unDelegateResourceContract(param: UnDelegateResourceTransactionParams) {
+  const contract = protocol.UnDelegateResourceContract.create({
+    ownerAddress: getAddressHash(param.fromAddress),
+    resource: getResourceCode(param.resource),
+    balance: Long.fromString(param.amount),
+    receiverAddress: getAddressHash(param.receiverAddress)
+  })
+  return [createContract(ContractType.UnDelegateResourceContract, "UnDelegateResourceContract", protocol.UnDelegateResourceContract.encode(contract).finish())]
+}
+
+export function unDelegateResource(param: UnDelegateResourceTransactionParams, privateKey: string) {
+  const raw = createRawTransaction(param, unDelegateResourceContract(param))
+  return signRawTransaction(raw, privateKey)
+}
+
+export function voteWitnessContract(param: VoteWitnessTransactionParams) {
+  if (!param.votes || param.votes.length === 0) {
+    throw new Error("votes is empty")
+  }
+  const contract = protocol.VoteWitnessContract.create({
+    ownerAddress: getAddressHash(param.fromAddress),
+    votes: param.votes.map(vote => protocol.VoteWitnessContract.Vote.create({
+      voteAddress: getAddressHash(vote.address),
+      voteCount: Long.fromString(vote.count.toString())
+    }))
+  })
+  return [createContract(ContractType.VoteWitnessContract, "VoteWitnessContract", protocol.VoteWitnessContract.encode(contract).finish())]
+}
+
+export function voteWitness(param: VoteWitnessTransactionParams, privateKey: string) {
+  const raw = createRawTransaction(param, voteWitnessContract(param))
+  return signRawTransaction(raw, privateKey)
+}
+
+// claims the voting rewards
+export function withdrawBalanceContract(param: CommonTransactionParams) {
+  const contract = protocol.WithdrawBalanceContract.create({
+    ownerAddress: getAddressHash(param.fromAddress)
+  })
+  return [createContract(ContractType.WithdrawBalanceContract, "WithdrawBalanceContract", protocol.WithdrawBalanceContract.encode(contract).finish())]
+}
+
+export function withdrawBalance(param: CommonTransactionParams, privateKey: string) {
+  const raw = createRawTransaction(param, withdrawBalanceContract(param))
+  return signRawTransaction(raw, privateKey)
+}
+
+// bitmap of the contract types an active permission may sign, bit n for the contract type n
+export function getPermissionOperations(contractTypes: ContractType[]) {
+  const operations = new Uint8Array(32)
+  for (const contractType of contractTypes) {
+    if (!Number.isInteger(contractType) || contractType < 0 || contractType >= 256) {
+      throw new Error(`invalid contract type ${contractType}`)
+    }
+    operations[contractType >> 3] |= 1 << (contractType % 8)
+  }
+  return base.toHex(operations)
+}
+
+// ids are assigned by position as the nodes do: owner 0, witness 1, actives from 2
+function createPermission(type: protocol.Permission.PermissionType, id: number, param: PermissionParams) {
+  if (!param.keys || param.keys.length === 0) {
+    throw new Error("permission keys is empty")
+  }
+  const addresses = new Set(param.keys.map(key => toHexAddress(key.address).toLowerCase()))
+  if (addresses.size !== param.keys.length) {
+    throw new Error("duplicate permission key")
+  }
+  if (param.keys.some(key => !Number.isInteger(key.weight) || key.weight <= 0)) {
+    throw new Error("permission key weight must be positive")
+  }
+  const totalWeight = param.keys.reduce((total, key) => total + key.weight, 0)
+  if (!Number.isInteger(param.threshold) || param.threshold <= 0 || param.threshold > totalWeight) {
+    throw new Error(`invalid permission threshold ${param.threshold}`)
+  }
+  if (type === protocol.Permission.PermissionType.Active) {
+    if (!param.operations || base.fromHex(param.operations).length !== 32) {
+      throw new Error("active permission operations must be 32 bytes")
+    }
+  } else if (param.operations) {
+    throw new Error("only active permissions have operations")
+  }
+  return protocol.Permission.create({
+    type: type === protocol.Permission.PermissionType.Owner ? undefined : type,
+    id: id || undefined,
+    permissionName: param.permissionName,
+    threshold: Long.fromNumber(param.threshold),
+    operations: param.operations ? base.fromHex(param.operations) : undefined,
+    keys: param.keys.map(key => protocol.Key.create({
+      address: getAddressHash(key.address),
+      weight: Long.fromNumber(key.weight)
+    }))
+  })
+}
+
+export function accountPermissionUpdateContract(param: AccountPermissionUpdateTransactionParams) {
+  if (!param.actives || param.actives.length === 0 || param.actives.length > 8) {
+    throw new Error("actives must contain 1 to 8 permissions")
+  }
+  if (param.witness && param.witness.keys && param.witness.keys.length !== 1) {
+    throw new Error("witness permission must have exactly one key")
+  }
+  const PermissionType = protocol.Permission.PermissionType
+  const contract = protocol.AccountPermissionUpdateContract.create({
+    ownerAddress: getAddressHash(param.fromAddress),
+    owner: createPermission(PermissionType.Owner, 0, param.owner),
+    witness: param.witness ? createPermission(PermissionType.Witness, 1, param.witness) : undefined,
+    actives: param.actives.map((active, i) => createPermission(PermissionType.Active, i + 2, active))
+  })
+  return [createContract(ContractType.AccountPermissionUpdateContract, "AccountPermissionUpdateContract", protocol.AccountPermissionUpdateContract.encode(contract).finish())]
+}
+
+export function accountPermissionUpdate(param: AccountPermissionUpdateTransactionParams, privateKey: string) {
+  const raw = createRawTransaction(param, accountPermissionUpdateContract(param))
+  return signRawTransaction(raw, privateKey)
+}
+
+function recoverSigner(message: Uint8Array, signature: Uint8Array) {
+  const v = signature[64]
+  const publicKey = signUtil.secp256k1.recover(signature.slice(0, 64), v >= 27 ? v - 27 : v, message, false)
+  if (publicKey == null) {
+    throw new Error("invalid signature")
+  }
+  return base.toBase58Check(computeAddress(publicKey))
+}
+
+// the raw_data bytes as serialized in the transaction, a re-encode may differ and change the txID
+function rawDataBytes(bytes: Uint8Array) {
+  const reader = _m0.Reader.create(bytes)
+  while (reader.pos < reader.len) {
+    const tag = reader.uint32()
+    if (tag === 10) {
+      const length = reader.uint32()
+      return bytes.slice(reader.pos, reader.pos + length)
+    }
+    reader.skipType(tag & 7)
+  }
+  throw new Error("missing raw_data")
+}
+
+function decodeSignedTransaction(tx: string) {
+  const bytes = base.fromHex(tx)
+  const transaction = protocol.Transaction.decode(bytes)
+  const message = base.sha256(rawDataBytes(bytes))
+  const signers = transaction.signature.map(signature => recoverSigner(message, signature))
+  return {bytes, message, signers}
+}
+
+// appends the signature of one more key of a multi-signature permission to a signed transaction
+export function addSignature(tx: string, privateKey: string) {
+  const {bytes, message, signers} = decodeSignedTransaction(tx)
+  if (signers.includes(addressFromPrivate(privateKey))) {
+    throw new Error("transaction already signed by the key")
+  }
+  const {signature, recovery} = signUtil.secp256k1.sign(Buffer.from(message), base.fromHex(privateKey), true)
+  // appends a signature field, the signed bytes are kept as they are
+  const field = _m0.Writer.create().uint32(18).bytes(Buffer.concat([Uint8Array.from(signature), Uint8Array.of(recovery)])).finish()
+  return base.toHex(Buffer.concat([bytes, field]))
+}
+
+// sums the weights of the permission keys that signed the transaction
+export function getSignatureWeight(tx: string, permission: PermissionParams) {
+  const {signers} = decodeSignedTransaction(tx)
+  const weight = permission.keys
+    .filter(key => signers.includes(base.toBase58Check(getAddressHash(key.address))))
+    .reduce((total, key) => total + key.weight, 0)
+  return {
+    signers: signers,
+    weight: weight,
+    threshold: permission.threshold,
+    approved: weight >= permission.threshold
+  }
+}
+
 // signature of txId(returned from nodes)
 export function signByTxId(txId: string, priKey: string): string {
   let hashBytes = Buffer.from(base.fromHex(txId));
@@ -2627,7 +2627,13 @@ export namespace protocol {
                 ExchangeTransactionContract = 44,
                 UpdateEnergyLimitContract = 45,
                 AccountPermissionUpdateContract = 46,
-                ClearABIContract = 48
+                ClearABIContract = 48,
+                FreezeBalanceV2Contract = 54,
+                UnfreezeBalanceV2Contract = 55,
+                WithdrawExpireUnfreezeContract = 56,
+                DelegateResourceContract = 57,
+                UnDelegateResourceContract = 58,
+                CancelAllUnfreezeV2Contract = 59
             }
         }
 
@@ -9045,7 +9051,8 @@ export namespace protocol {
     /** ResourceCode enum. */
     enum ResourceCode {
         BANDWIDTH = 0,
-        ENERGY = 1
+        ENERGY = 1,
+        TRON_POWER = 2
     }
 
     /** Properties of a FreezeBalanceContract. */
@@ -9444,6 +9451,618 @@ export namespace protocol {
         public toJSON(): { [k: string]: any };
     }
 
+    /** Properties of a FreezeBalanceV2Contract. */
+    interface IFreezeBalanceV2Contract {
+
+        /** FreezeBalanceV2Contract ownerAddress */
+        ownerAddress?: (Uint8Array|null);
+
+        /** FreezeBalanceV2Contract frozenBalance */
+        frozenBalance?: (number|Long|null);
+
+        /** FreezeBalanceV2Contract resource */
+        resource?: (protocol.ResourceCode|null);
+    }
+
+    /** Represents a FreezeBalanceV2Contract. */
+    class FreezeBalanceV2Contract implements IFreezeBalanceV2Contract {
+
+        /**
+         * Constructs a new FreezeBalanceV2Contract.
+         * @param [properties] Properties to set
+         */
+        constructor(properties?: protocol.IFreezeBalanceV2Contract);
+
+        /** FreezeBalanceV2Contract ownerAddress. */
+        public ownerAddress: Uint8Array;
+
+        /** FreezeBalanceV2Contract frozenBalance. */
+        public frozenBalance: (number|Long);
+
+        /** FreezeBalanceV2Contract resource. */
+        public resource: protocol.ResourceCode;
+
+        /**
+         * Creates a new FreezeBalanceV2Contract instance using the specified properties.
+         * @param [properties] Properties to set
+         * @returns FreezeBalanceV2Contract instance
+         */
+        public static create(properties?: protocol.IFreezeBalanceV2Contract): protocol.FreezeBalanceV2Contract;
+
+        /**
+         * Encodes the specified FreezeBalanceV2Contract message. Does not implicitly {@link protocol.FreezeBalanceV2Contract.verify|verify} messages.
+         * @param message FreezeBalanceV2Contract message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encode(message: protocol.IFreezeBalanceV2Contract, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Encodes the specified FreezeBalanceV2Contract message, length delimited. Does not implicitly {@link protocol.FreezeBalanceV2Contract.verify|verify} messages.
+         * @param message FreezeBalanceV2Contract message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encodeDelimited(message: protocol.IFreezeBalanceV2Contract, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Decodes a FreezeBalanceV2Contract message from the specified reader or buffer.
+         * @param reader Reader or buffer to decode from
+         * @param [length] Message length if known beforehand
+         * @returns FreezeBalanceV2Contract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decode(reader: ($protobuf.Reader|Uint8Array), length?: number): protocol.FreezeBalanceV2Contract;
+
+        /**
+         * Decodes a FreezeBalanceV2Contract message from the specified reader or buffer, length delimited.
+         * @param reader Reader or buffer to decode from
+         * @returns FreezeBalanceV2Contract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decodeDelimited(reader: ($protobuf.Reader|Uint8Array)): protocol.FreezeBalanceV2Contract;
+
+        /**
+         * Verifies a FreezeBalanceV2Contract message.
+         * @param message Plain object to verify
+         * @returns `null` if valid, otherwise the reason why it is not
+         */
+        public static verify(message: { [k: string]: any }): (string|null);
+
+        /**
+         * Creates a FreezeBalanceV2Contract message from a plain object. Also converts values to their respective internal types.
+         * @param object Plain object
+         * @returns FreezeBalanceV2Contract
+         */
+        public static fromObject(object: { [k: string]: any }): protocol.FreezeBalanceV2Contract;
+
+        /**
+         * Creates a plain object from a FreezeBalanceV2Contract message. Also converts values to other types if specified.
+         * @param message FreezeBalanceV2Contract
+         * @param [options] Conversion options
+         * @returns Plain object
+         */
+        public static toObject(message: protocol.FreezeBalanceV2Contract, options?: $protobuf.IConversionOptions): { [k: string]: any };
+
+        /**
+         * Converts this FreezeBalanceV2Contract to JSON.
+         * @returns JSON object
+         */
+        public toJSON(): { [k: string]: any };
+    }
+
+    /** Properties of an UnfreezeBalanceV2Contract. */
+    interface IUnfreezeBalanceV2Contract {
+
+        /** UnfreezeBalanceV2Contract ownerAddress */
+        ownerAddress?: (Uint8Array|null);
+
+        /** UnfreezeBalanceV2Contract unfreezeBalance */
+        unfreezeBalance?: (number|Long|null);
+
+        /** UnfreezeBalanceV2Contract resource */
+        resource?: (protocol.ResourceCode|null);
+    }
+
+    /** Represents an UnfreezeBalanceV2Contract. */
+    class UnfreezeBalanceV2Contract implements IUnfreezeBalanceV2Contract {
+
+        /**
+         * Constructs a new UnfreezeBalanceV2Contract.
+         * @param [properties] Properties to set
+         */
+        constructor(properties?: protocol.IUnfreezeBalanceV2Contract);
+
+        /** UnfreezeBalanceV2Contract ownerAddress. */
+        public ownerAddress: Uint8Array;
+
+        /** UnfreezeBalanceV2Contract unfreezeBalance. */
+        public unfreezeBalance: (number|Long);
+
+        /** UnfreezeBalanceV2Contract resource. */
+        public resource: protocol.ResourceCode;
+
+        /**
+         * Creates a new UnfreezeBalanceV2Contract instance using the specified properties.
+         * @param [properties] Properties to set
+         * @returns UnfreezeBalanceV2Contract instance
+         */
+        public static create(properties?: protocol.IUnfreezeBalanceV2Contract): protocol.UnfreezeBalanceV2Contract;
+
+        /**
+         * Encodes the specified UnfreezeBalanceV2Contract message. Does not implicitly {@link protocol.UnfreezeBalanceV2Contract.verify|verify} messages.
+         * @param message UnfreezeBalanceV2Contract message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encode(message: protocol.IUnfreezeBalanceV2Contract, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Encodes the specified UnfreezeBalanceV2Contract message, length delimited. Does not implicitly {@link protocol.UnfreezeBalanceV2Contract.verify|verify} messages.
+         * @param message UnfreezeBalanceV2Contract message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encodeDelimited(message: protocol.IUnfreezeBalanceV2Contract, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Decodes an UnfreezeBalanceV2Contract message from the specified reader or buffer.
+         * @param reader Reader or buffer to decode from
+         * @param [length] Message length if known beforehand
+         * @returns UnfreezeBalanceV2Contract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decode(reader: ($protobuf.Reader|Uint8Array), length?: number): protocol.UnfreezeBalanceV2Contract;
+
+        /**
+         * Decodes an UnfreezeBalanceV2Contract message from the specified reader or buffer, length delimited.
+         * @param reader Reader or buffer to decode from
+         * @returns UnfreezeBalanceV2Contract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decodeDelimited(reader: ($protobuf.Reader|Uint8Array)): protocol.UnfreezeBalanceV2Contract;
+
+        /**
+         * Verifies an UnfreezeBalanceV2Contract message.
+         * @param message Plain object to verify
+         * @returns `null` if valid, otherwise the reason why it is not
+         */
+        public static verify(message: { [k: string]: any }): (string|null);
+
+        /**
+         * Creates an UnfreezeBalanceV2Contract message from a plain object. Also converts values to their respective internal types.
+         * @param object Plain object
+         * @returns UnfreezeBalanceV2Contract
+         */
+        public static fromObject(object: { [k: string]: any }): protocol.UnfreezeBalanceV2Contract;
+
+        /**
+         * Creates a plain object from an UnfreezeBalanceV2Contract message. Also converts values to other types if specified.
+         * @param message UnfreezeBalanceV2Contract
+         * @param [options] Conversion options
+         * @returns Plain object
+         */
+        public static toObject(message: protocol.UnfreezeBalanceV2Contract, options?: $protobuf.IConversionOptions): { [k: string]: any };
+
+        /**
+         * Converts this UnfreezeBalanceV2Contract to JSON.
+         * @returns JSON object
+         */
+        public toJSON(): { [k: string]: any };
+    }
+
+    /** Properties of a WithdrawExpireUnfreezeContract. */
+    interface IWithdrawExpireUnfreezeContract {
+
+        /** WithdrawExpireUnfreezeContract ownerAddress */
+        ownerAddress?: (Uint8Array|null);
+    }
+
+    /** Represents a WithdrawExpireUnfreezeContract. */
+    class WithdrawExpireUnfreezeContract implements IWithdrawExpireUnfreezeContract {
+
+        /**
+         * Constructs a new WithdrawExpireUnfreezeContract.
+         * @param [properties] Properties to set
+         */
+        constructor(properties?: protocol.IWithdrawExpireUnfreezeContract);
+
+        /** WithdrawExpireUnfreezeContract ownerAddress. */
+        public ownerAddress: Uint8Array;
+
+        /**
+         * Creates a new WithdrawExpireUnfreezeContract instance using the specified properties.
+         * @param [properties] Properties to set
+         * @returns WithdrawExpireUnfreezeContract instance
+         */
+        public static create(properties?: protocol.IWithdrawExpireUnfreezeContract): protocol.WithdrawExpireUnfreezeContract;
+
+        /**
+         * Encodes the specified WithdrawExpireUnfreezeContract message. Does not implicitly {@link protocol.WithdrawExpireUnfreezeContract.verify|verify} messages.
+         * @param message WithdrawExpireUnfreezeContract message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encode(message: protocol.IWithdrawExpireUnfreezeContract, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Encodes the specified WithdrawExpireUnfreezeContract message, length delimited. Does not implicitly {@link protocol.WithdrawExpireUnfreezeContract.verify|verify} messages.
+         * @param message WithdrawExpireUnfreezeContract message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encodeDelimited(message: protocol.IWithdrawExpireUnfreezeContract, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Decodes a WithdrawExpireUnfreezeContract message from the specified reader or buffer.
+         * @param reader Reader or buffer to decode from
+         * @param [length] Message length if known beforehand
+         * @returns WithdrawExpireUnfreezeContract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decode(reader: ($protobuf.Reader|Uint8Array), length?: number): protocol.WithdrawExpireUnfreezeContract;
+
+        /**
+         * Decodes a WithdrawExpireUnfreezeContract message from the specified reader or buffer, length delimited.
+         * @param reader Reader or buffer to decode from
+         * @returns WithdrawExpireUnfreezeContract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decodeDelimited(reader: ($protobuf.Reader|Uint8Array)): protocol.WithdrawExpireUnfreezeContract;
+
+        /**
+         * Verifies a WithdrawExpireUnfreezeContract message.
+         * @param message Plain object to verify
+         * @returns `null` if valid, otherwise the reason why it is not
+         */
+        public static verify(message: { [k: string]: any }): (string|null);
+
+        /**
+         * Creates a WithdrawExpireUnfreezeContract message from a plain object. Also converts values to their respective internal types.
+         * @param object Plain object
+         * @returns WithdrawExpireUnfreezeContract
+         */
+        public static fromObject(object: { [k: string]: any }): protocol.WithdrawExpireUnfreezeContract;
+
+        /**
+         * Creates a plain object from a WithdrawExpireUnfreezeContract message. Also converts values to other types if specified.
+         * @param message WithdrawExpireUnfreezeContract
+         * @param [options] Conversion options
+         * @returns Plain object
+         */
+        public static toObject(message: protocol.WithdrawExpireUnfreezeContract, options?: $protobuf.IConversionOptions): { [k: string]: any };
+
+        /**
+         * Converts this WithdrawExpireUnfreezeContract to JSON.
+         * @returns JSON object
+         */
+        public toJSON(): { [k: string]: any };
+    }
+
+    /** Properties of a DelegateResourceContract. */
+    interface IDelegateResourceContract {
+
+        /** DelegateResourceContract ownerAddress */
+        ownerAddress?: (Uint8Array|null);
+
+        /** DelegateResourceContract resource */
+        resource?: (protocol.ResourceCode|null);
+
+        /** DelegateResourceContract balance */
+        balance?: (number|Long|null);
+
+        /** DelegateResourceContract receiverAddress */
+        receiverAddress?: (Uint8Array|null);
+
+        /** DelegateResourceContract lock */
+        lock?: (boolean|null);
+
+        /** DelegateResourceContract lockPeriod */
+        lockPeriod?: (number|Long|null);
+    }
+
+    /** Represents a DelegateResourceContract. */
+    class DelegateResourceContract implements IDelegateResourceContract {
+
+        /**
+         * Constructs a new DelegateResourceContract.
+         * @param [properties] Properties to set
+         */
+        constructor(properties?: protocol.IDelegateResourceContract);
+
+        /** DelegateResourceContract ownerAddress. */
+        public ownerAddress: Uint8Array;
+
+        /** DelegateResourceContract resource. */
+        public resource: protocol.ResourceCode;
+
+        /** DelegateResourceContract balance. */
+        public balance: (number|Long);
+
+        /** DelegateResourceContract receiverAddress. */
+        public receiverAddress: Uint8Array;
+
+        /** DelegateResourceContract lock. */
+        public lock: boolean;
+
+        /** DelegateResourceContract lockPeriod. */
+        public lockPeriod: (number|Long);
+
+        /**
+         * Creates a new DelegateResourceContract instance using the specified properties.
+         * @param [properties] Properties to set
+         * @returns DelegateResourceContract instance
+         */
+        public static create(properties?: protocol.IDelegateResourceContract): protocol.DelegateResourceContract;
+
+        /**
+         * Encodes the specified DelegateResourceContract message. Does not implicitly {@link protocol.DelegateResourceContract.verify|verify} messages.
+         * @param message DelegateResourceContract message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encode(message: protocol.IDelegateResourceContract, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Encodes the specified DelegateResourceContract message, length delimited. Does not implicitly {@link protocol.DelegateResourceContract.verify|verify} messages.
+         * @param message DelegateResourceContract message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encodeDelimited(message: protocol.IDelegateResourceContract, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Decodes a DelegateResourceContract message from the specified reader or buffer.
+         * @param reader Reader or buffer to decode from
+         * @param [length] Message length if known beforehand
+         * @returns DelegateResourceContract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decode(reader: ($protobuf.Reader|Uint8Array), length?: number): protocol.DelegateResourceContract;
+
+        /**
+         * Decodes a DelegateResourceContract message from the specified reader or buffer, length delimited.
+         * @param reader Reader or buffer to decode from
+         * @returns DelegateResourceContract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decodeDelimited(reader: ($protobuf.Reader|Uint8Array)): protocol.DelegateResourceContract;
+
+        /**
+         * Verifies a DelegateResourceContract message.
+         * @param message Plain object to verify
+         * @returns `null` if valid, otherwise the reason why it is not
+         */
+        public static verify(message: { [k: string]: any }): (string|null);
+
+        /**
+         * Creates a DelegateResourceContract message from a plain object. Also converts values to their respective internal types.
+         * @param object Plain object
+         * @returns DelegateResourceContract
+         */
+        public static fromObject(object: { [k: string]: any }): protocol.DelegateResourceContract;
+
+        /**
+         * Creates a plain object from a DelegateResourceContract message. Also converts values to other types if specified.
+         * @param message DelegateResourceContract
+         * @param [options] Conversion options
+         * @returns Plain object
+         */
+        public static toObject(message: protocol.DelegateResourceContract, options?: $protobuf.IConversionOptions): { [k: string]: any };
+
+        /**
+         * Converts this DelegateResourceContract to JSON.
+         * @returns JSON object
+         */
+        public toJSON(): { [k: string]: any };
+    }
+
+    /** Properties of an UnDelegateResourceContract. */
+    interface IUnDelegateResourceContract {
+
+        /** UnDelegateResourceContract ownerAddress */
+        ownerAddress?: (Uint8Array|null);
+
+        /** UnDelegateResourceContract resource */
+        resource?: (protocol.ResourceCode|null);
+
+        /** UnDelegateResourceContract balance */
+        balance?: (number|Long|null);
+
+        /** UnDelegateResourceContract receiverAddress */
+        receiverAddress?: (Uint8Array|null);
+    }
+
+    /** Represents an UnDelegateResourceContract. */
+    class UnDelegateResourceContract implements IUnDelegateResourceContract {
+
+        /**
+         * Constructs a new UnDelegateResourceContract.
+         * @param [properties] Properties to set
+         */
+        constructor(properties?: protocol.IUnDelegateResourceContract);
+
+        /** UnDelegateResourceContract ownerAddress. */
+        public ownerAddress: Uint8Array;
+
+        /** UnDelegateResourceContract resource. */
+        public resource: protocol.ResourceCode;
+
+        /** UnDelegateResourceContract balance. */
+        public balance: (number|Long);
+
+        /** UnDelegateResourceContract receiverAddress. */
+        public receiverAddress: Uint8Array;
+
+        /**
+         * Creates a new UnDelegateResourceContract instance using the specified properties.
+         * @param [properties] Properties to set
+         * @returns UnDelegateResourceContract instance
+         */
+        public static create(properties?: protocol.IUnDelegateResourceContract): protocol.UnDelegateResourceContract;
+
+        /**
+         * Encodes the specified UnDelegateResourceContract message. Does not implicitly {@link protocol.UnDelegateResourceContract.verify|verify} messages.
+         * @param message UnDelegateResourceContract message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encode(message: protocol.IUnDelegateResourceContract, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Encodes the specified UnDelegateResourceContract message, length delimited. Does not implicitly {@link protocol.UnDelegateResourceContract.verify|verify} messages.
+         * @param message UnDelegateResourceContract message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encodeDelimited(message: protocol.IUnDelegateResourceContract, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Decodes an UnDelegateResourceContract message from the specified reader or buffer.
+         * @param reader Reader or buffer to decode from
+         * @param [length] Message length if known beforehand
+         * @returns UnDelegateResourceContract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decode(reader: ($protobuf.Reader|Uint8Array), length?: number): protocol.UnDelegateResourceContract;
+
+        /**
+         * Decodes an UnDelegateResourceContract message from the specified reader or buffer, length delimited.
+         * @param reader Reader or buffer to decode from
+         * @returns UnDelegateResourceContract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decodeDelimited(reader: ($protobuf.Reader|Uint8Array)): protocol.UnDelegateResourceContract;
+
+        /**
+         * Verifies an UnDelegateResourceContract message.
+         * @param message Plain object to verify
+         * @returns `null` if valid, otherwise the reason why it is not
+         */
+        public static verify(message: { [k: string]: any }): (string|null);
+
+        /**
+         * Creates an UnDelegateResourceContract message from a plain object. Also converts values to their respective internal types.
+         * @param object Plain object
+         * @returns UnDelegateResourceContract
+         */
+        public static fromObject(object: { [k: string]: any }): protocol.UnDelegateResourceContract;
+
+        /**
+         * Creates a plain object from an UnDelegateResourceContract message. Also converts values to other types if specified.
+         * @param message UnDelegateResourceContract
+         * @param [options] Conversion options
+         * @returns Plain object
+         */
+        public static toObject(message: protocol.UnDelegateResourceContract, options?: $protobuf.IConversionOptions): { [k: string]: any };
+
+        /**
+         * Converts this UnDelegateResourceContract to JSON.
+         * @returns JSON object
+         */
+        public toJSON(): { [k: string]: any };
+    }
+
+    /** Properties of a CancelAllUnfreezeV2Contract. */
+    interface ICancelAllUnfreezeV2Contract {
+
+        /** CancelAllUnfreezeV2Contract ownerAddress */
+        ownerAddress?: (Uint8Array|null);
+    }
+
+    /** Represents a CancelAllUnfreezeV2Contract. */
+    class CancelAllUnfreezeV2Contract implements ICancelAllUnfreezeV2Contract {
+
+        /**
+         * Constructs a new CancelAllUnfreezeV2Contract.
+         * @param [properties] Properties to set
+         */
+        constructor(properties?: protocol.ICancelAllUnfreezeV2Contract);
+
+        /** CancelAllUnfreezeV2Contract ownerAddress. */
+        public ownerAddress: Uint8Array;
+
+        /**
+         * Creates a new CancelAllUnfreezeV2Contract instance using the specified properties.
+         * @param [properties] Properties to set
+         * @returns CancelAllUnfreezeV2Contract instance
+         */
+        public static create(properties?: protocol.ICancelAllUnfreezeV2Contract): protocol.CancelAllUnfreezeV2Contract;
+
+        /**
+         * Encodes the specified CancelAllUnfreezeV2Contract message. Does not implicitly {@link protocol.CancelAllUnfreezeV2Contract.verify|verify} messages.
+         * @param message CancelAllUnfreezeV2Contract message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encode(message: protocol.ICancelAllUnfreezeV2Contract, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Encodes the specified CancelAllUnfreezeV2Contract message, length delimited. Does not implicitly {@link protocol.CancelAllUnfreezeV2Contract.verify|verify} messages.
+         * @param message CancelAllUnfreezeV2Contract message or plain object to encode
+         * @param [writer] Writer to encode to
+         * @returns Writer
+         */
+        public static encodeDelimited(message: protocol.ICancelAllUnfreezeV2Contract, writer?: $protobuf.Writer): $protobuf.Writer;
+
+        /**
+         * Decodes a CancelAllUnfreezeV2Contract message from the specified reader or buffer.
+         * @param reader Reader or buffer to decode from
+         * @param [length] Message length if known beforehand
+         * @returns CancelAllUnfreezeV2Contract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decode(reader: ($protobuf.Reader|Uint8Array), length?: number): protocol.CancelAllUnfreezeV2Contract;
+
+        /**
+         * Decodes a CancelAllUnfreezeV2Contract message from the specified reader or buffer, length delimited.
+         * @param reader Reader or buffer to decode from
+         * @returns CancelAllUnfreezeV2Contract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        public static decodeDelimited(reader: ($protobuf.Reader|Uint8Array)): protocol.CancelAllUnfreezeV2Contract;
+
+        /**
+         * Verifies a CancelAllUnfreezeV2Contract message.
+         * @param message Plain object to verify
+         * @returns `null` if valid, otherwise the reason why it is not
+         */
+        public static verify(message: { [k: string]: any }): (string|null);
+
+        /**
+         * Creates a CancelAllUnfreezeV2Contract message from a plain object. Also converts values to their respective internal types.
+         * @param object Plain object
+         * @returns CancelAllUnfreezeV2Contract
+         */
+        public static fromObject(object: { [k: string]: any }): protocol.CancelAllUnfreezeV2Contract;
+
+        /**
+         * Creates a plain object from a CancelAllUnfreezeV2Contract message. Also converts values to other types if specified.
+         * @param message CancelAllUnfreezeV2Contract
+         * @param [options] Conversion options
+         * @returns Plain object
+         */
+        public static toObject(message: protocol.CancelAllUnfreezeV2Contract, options?: $protobuf.IConversionOptions): { [k: string]: any };
+
+        /**
+         * Converts this CancelAllUnfreezeV2Contract to JSON.
+         * @returns JSON object
+         */
+        public toJSON(): { [k: string]: any };
+    }
+
     /** Properties of an UpdateAssetContract. */
     interface IUpdateAssetContract {
 
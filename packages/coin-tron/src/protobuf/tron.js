@@ -7883,6 +7883,12 @@ $root.protocol = (function() {
                     case 45:
                     case 46:
                     case 48:
+                    case 54:
+                    case 55:
+                    case 56:
+                    case 57:
+                    case 58:
+                    case 59:
                         break;
                     }
                 if (message.parameter != null && message.hasOwnProperty("parameter")) {
@@ -8039,6 +8045,30 @@ $root.protocol = (function() {
                 case 48:
                     message.type = 48;
                     break;
+                case "FreezeBalanceV2Contract":
+                case 54:
+                    message.type = 54;
+                    break;
+                case "UnfreezeBalanceV2Contract":
+                case 55:
+                    message.type = 55;
+                    break;
+                case "WithdrawExpireUnfreezeContract":
+                case 56:
+                    message.type = 56;
+                    break;
+                case "DelegateResourceContract":
+                case 57:
+                    message.type = 57;
+                    break;
+                case "UnDelegateResourceContract":
+                case 58:
+                    message.type = 58;
+                    break;
+                case "CancelAllUnfreezeV2Contract":
+                case 59:
+                    message.type = 59;
+                    break;
                 }
                 if (object.parameter != null) {
                     if (typeof object.parameter !== "object")
@@ -8151,6 +8181,12 @@ $root.protocol = (function() {
              * @property {number} UpdateEnergyLimitContract=45 UpdateEnergyLimitContract value
              * @property {number} AccountPermissionUpdateContract=46 AccountPermissionUpdateContract value
              * @property {number} ClearABIContract=48 ClearABIContract value
+             * @property {number} FreezeBalanceV2Contract=54 FreezeBalanceV2Contract value
+             * @property {number} UnfreezeBalanceV2Contract=55 UnfreezeBalanceV2Contract value
+             * @property {number} WithdrawExpireUnfreezeContract=56 WithdrawExpireUnfreezeContract value
+             * @property {number} DelegateResourceContract=57 DelegateResourceContract value
+             * @property {number} UnDelegateResourceContract=58 UnDelegateResourceContract value
+             * @property {number} CancelAllUnfreezeV2Contract=59 CancelAllUnfreezeV2Contract value
              */
             Contract.ContractType = (function() {
                 var valuesById = {}, values = Object.create(valuesById);
@@ -8185,6 +8221,12 @@ $root.protocol = (function() {
                 values[valuesById[45] = "UpdateEnergyLimitContract"] = 45;
                 values[valuesById[46] = "AccountPermissionUpdateContract"] = 46;
                 values[valuesById[48] = "ClearABIContract"] = 48;
+                values[valuesById[54] = "FreezeBalanceV2Contract"] = 54;
+                values[valuesById[55] = "UnfreezeBalanceV2Contract"] = 55;
+                values[valuesById[56] = "WithdrawExpireUnfreezeContract"] = 56;
+                values[valuesById[57] = "DelegateResourceContract"] = 57;
+                values[valuesById[58] = "UnDelegateResourceContract"] = 58;
+                values[valuesById[59] = "CancelAllUnfreezeV2Contract"] = 59;
                 return values;
             })();
 
@@ -26250,11 +26292,13 @@ $root.protocol = (function() {
      * @enum {number}
      * @property {number} BANDWIDTH=0 BANDWIDTH value
      * @property {number} ENERGY=1 ENERGY value
+     * @property {number} TRON_POWER=2 TRON_POWER value
      */
     protocol.ResourceCode = (function() {
         var valuesById = {}, values = Object.create(valuesById);
         values[valuesById[0] = "BANDWIDTH"] = 0;
         values[valuesById[1] = "ENERGY"] = 1;
+        values[valuesById[2] = "TRON_POWER"] = 2;
         return values;
     })();
 
@@ -26459,6 +26503,7 @@ $root.protocol = (function() {
                     return "resource: enum value expected";
                 case 0:
                 case 1:
+                case 2:
                     break;
                 }
             if (message.receiverAddress != null && message.hasOwnProperty("receiverAddress"))
@@ -26511,6 +26556,10 @@ $root.protocol = (function() {
             case 1:
                 message.resource = 1;
                 break;
+            case "TRON_POWER":
+            case 2:
+                message.resource = 2;
+                break;
             }
             if (object.receiverAddress != null)
                 if (typeof object.receiverAddress === "string")
@@ -26760,6 +26809,7 @@ $root.protocol = (function() {
                     return "resource: enum value expected";
                 case 0:
                 case 1:
+                case 2:
                     break;
                 }
             if (message.receiverAddress != null && message.hasOwnProperty("receiverAddress"))
@@ -26794,6 +26844,10 @@ $root.protocol = (function() {
             case 1:
                 message.resource = 1;
                 break;
+            case "TRON_POWER":
+            case 2:
+                message.resource = 2;
+                break;
             }
             if (object.receiverAddress != null)
                 if (typeof object.receiverAddress === "string")
@@ -27248,6 +27302,1610 @@ $root.protocol = (function() {
         return WithdrawBalanceContract;
     })();
 
+    protocol.FreezeBalanceV2Contract = (function() {
+
+        /**
+         * Properties of a FreezeBalanceV2Contract.
+         * @memberof protocol
+         * @interface IFreezeBalanceV2Contract
+         * @property {Uint8Array|null} [ownerAddress] FreezeBalanceV2Contract ownerAddress
+         * @property {number|Long|null} [frozenBalance] FreezeBalanceV2Contract frozenBalance
+         * @property {protocol.ResourceCode|null} [resource] FreezeBalanceV2Contract resource
+         */
+
+        /**
+         * Constructs a new FreezeBalanceV2Contract.
+         * @memberof protocol
+         * @classdesc Represents a FreezeBalanceV2Contract.
+         * @implements IFreezeBalanceV2Contract
+         * @constructor
+         * @param {protocol.IFreezeBalanceV2Contract=} [properties] Properties to set
+         */
+        function FreezeBalanceV2Contract(properties) {
+            if (properties)
+                for (var keys = Object.keys(properties), i = 0; i < keys.length; ++i)
+                    if (properties[keys[i]] != null)
+                        this[keys[i]] = properties[keys[i]];
+        }
+
+        /**
+         * FreezeBalanceV2Contract ownerAddress.
+         * @member {Uint8Array} ownerAddress
+         * @memberof protocol.FreezeBalanceV2Contract
+         * @instance
+         */
+        FreezeBalanceV2Contract.prototype.ownerAddress = $util.newBuffer([]);
+
+        /**
+         * FreezeBalanceV2Contract frozenBalance.
+         * @member {number|Long} frozenBalance
+         * @memberof protocol.FreezeBalanceV2Contract
+         * @instance
+         */
+        FreezeBalanceV2Contract.prototype.frozenBalance = $util.Long ? $util.Long.fromBits(0,0,false) : 0;
+
+        /**
+         * FreezeBalanceV2Contract resource.
+         * @member {protocol.ResourceCode} resource
+         * @memberof protocol.FreezeBalanceV2Contract
+         * @instance
+         */
+        FreezeBalanceV2Contract.prototype.resource = 0;
+
+        /**
+         * Creates a new FreezeBalanceV2Contract instance using the specified properties.
+         * @function create
+         * @memberof protocol.FreezeBalanceV2Contract
+         * @static
+         * @param {protocol.IFreezeBalanceV2Contract=} [properties] Properties to set
+         * @returns {protocol.FreezeBalanceV2Contract} FreezeBalanceV2Contract instance
+         */
+        FreezeBalanceV2Contract.create = function create(properties) {
+            return new FreezeBalanceV2Contract(properties);
+        };
+
+        /**
+         * Encodes the specified FreezeBalanceV2Contract message. Does not implicitly {@link protocol.FreezeBalanceV2Contract.verify|verify} messages.
+         * @function encode
+         * @memberof protocol.FreezeBalanceV2Contract
+         * @static
+         * @param {protocol.IFreezeBalanceV2Contract} message FreezeBalanceV2Contract message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        FreezeBalanceV2Contract.encode = function encode(message, writer) {
+            if (!writer)
+                writer = $Writer.create();
+            if (message.ownerAddress != null && Object.hasOwnProperty.call(message, "ownerAddress"))
+                writer.uint32(/* id 1, wireType 2 =*/10).bytes(message.ownerAddress);
+            if (message.frozenBalance != null && Object.hasOwnProperty.call(message, "frozenBalance"))
+                writer.uint32(/* id 2, wireType 0 =*/16).int64(message.frozenBalance);
+            if (message.resource != null && Object.hasOwnProperty.call(message, "resource"))
+                writer.uint32(/* id 3, wireType 0 =*/24).int32(message.resource);
+            return writer;
+        };
+
+        /**
+         * Encodes the specified FreezeBalanceV2Contract message, length delimited. Does not implicitly {@link protocol.FreezeBalanceV2Contract.verify|verify} messages.
+         * @function encodeDelimited
+         * @memberof protocol.FreezeBalanceV2Contract
+         * @static
+         * @param {protocol.IFreezeBalanceV2Contract} message FreezeBalanceV2Contract message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        FreezeBalanceV2Contract.encodeDelimited = function encodeDelimited(message, writer) {
+            return this.encode(message, writer).ldelim();
+        };
+
+        /**
+         * Decodes a FreezeBalanceV2Contract message from the specified reader or buffer.
+         * @function decode
+         * @memberof protocol.FreezeBalanceV2Contract
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @param {number} [length] Message length if known beforehand
+         * @returns {protocol.FreezeBalanceV2Contract} FreezeBalanceV2Contract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        FreezeBalanceV2Contract.decode = function decode(reader, length) {
+            if (!(reader instanceof $Reader))
+                reader = $Reader.create(reader);
+            var end = length === undefined ? reader.len : reader.pos + length, message = new $root.protocol.FreezeBalanceV2Contract();
+            while (reader.pos < end) {
+                var tag = reader.uint32();
+                switch (tag >>> 3) {
+                case 1:
+                    message.ownerAddress = reader.bytes();
+                    break;
+                case 2:
+                    message.frozenBalance = reader.int64();
+                    break;
+                case 3:
+                    message.resource = reader.int32();
+                    break;
+                default:
+                    reader.skipType(tag & 7);
+                    break;
+                }
+            }
+            return message;
+        };
+
+        /**
+         * Decodes a FreezeBalanceV2Contract message from the specified reader or buffer, length delimited.
+         * @function decodeDelimited
+         * @memberof protocol.FreezeBalanceV2Contract
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @returns {protocol.FreezeBalanceV2Contract} FreezeBalanceV2Contract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        FreezeBalanceV2Contract.decodeDelimited = function decodeDelimited(reader) {
+            if (!(reader instanceof $Reader))
+                reader = new $Reader(reader);
+            return this.decode(reader, reader.uint32());
+        };
+
+        /**
+         * Verifies a FreezeBalanceV2Contract message.
+         * @function verify
+         * @memberof protocol.FreezeBalanceV2Contract
+         * @static
+         * @param {Object.<string,*>} message Plain object to verify
+         * @returns {string|null} `null` if valid, otherwise the reason why it is not
+         */
+        FreezeBalanceV2Contract.verify = function verify(message) {
+            if (typeof message !== "object" || message === null)
+                return "object expected";
+            if (message.ownerAddress != null && message.hasOwnProperty("ownerAddress"))
+                if (!(message.ownerAddress && typeof message.ownerAddress.length === "number" || $util.isString(message.ownerAddress)))
+                    return "ownerAddress: buffer expected";
+            if (message.frozenBalance != null && message.hasOwnProperty("frozenBalance"))
+                if (!$util.isInteger(message.frozenBalance) && !(message.frozenBalance && $util.isInteger(message.frozenBalance.low) && $util.isInteger(message.frozenBalance.high)))
+                    return "frozenBalance: integer|Long expected";
+            if (message.resource != null && message.hasOwnProperty("resource"))
+                switch (message.resource) {
+                default:
+                    return "resource: enum value expected";
+                case 0:
+                case 1:
+                case 2:
+                    break;
+                }
+            return null;
+        };
+
+        /**
+         * Creates a FreezeBalanceV2Contract message from a plain object. Also converts values to their respective internal types.
+         * @function fromObject
+         * @memberof protocol.FreezeBalanceV2Contract
+         * @static
+         * @param {Object.<string,*>} object Plain object
+         * @returns {protocol.FreezeBalanceV2Contract} FreezeBalanceV2Contract
+         */
+        FreezeBalanceV2Contract.fromObject = function fromObject(object) {
+            if (object instanceof $root.protocol.FreezeBalanceV2Contract)
+                return object;
+            var message = new $root.protocol.FreezeBalanceV2Contract();
+            if (object.ownerAddress != null)
+                if (typeof object.ownerAddress === "string")
+                    $util.base64.decode(object.ownerAddress, message.ownerAddress = $util.newBuffer($util.base64.length(object.ownerAddress)), 0);
+                else if (object.ownerAddress.length)
+                    message.ownerAddress = object.ownerAddress;
+            if (object.frozenBalance != null)
+                if ($util.Long)
+                    (message.frozenBalance = $util.Long.fromValue(object.frozenBalance)).unsigned = false;
+                else if (typeof object.frozenBalance === "string")
+                    message.frozenBalance = parseInt(object.frozenBalance, 10);
+                else if (typeof object.frozenBalance === "number")
+                    message.frozenBalance = object.frozenBalance;
+                else if (typeof object.frozenBalance === "object")
+                    message.frozenBalance = new $util.LongBits(object.frozenBalance.low >>> 0, object.frozenBalance.high >>> 0).toNumber();
+            switch (object.resource) {
+            case "BANDWIDTH":
+            case 0:
+                message.resource = 0;
+                break;
+            case "ENERGY":
+            case 1:
+                message.resource = 1;
+                break;
+            case "TRON_POWER":
+            case 2:
+                message.resource = 2;
+                break;
+            }
+            return message;
+        };
+
+        /**
+         * Creates a plain object from a FreezeBalanceV2Contract message. Also converts values to other types if specified.
+         * @function toObject
+         * @memberof protocol.FreezeBalanceV2Contract
+         * @static
+         * @param {protocol.FreezeBalanceV2Contract} message FreezeBalanceV2Contract
+         * @param {$protobuf.IConversionOptions} [options] Conversion options
+         * @returns {Object.<string,*>} Plain object
+         */
+        FreezeBalanceV2Contract.toObject = function toObject(message, options) {
+            if (!options)
+                options = {};
+            var object = {};
+            if (options.defaults) {
+                if (options.bytes === String)
+                    object.ownerAddress = "";
+                else {
+                    object.ownerAddress = [];
+                    if (options.bytes !== Array)
+                        object.ownerAddress = $util.newBuffer(object.ownerAddress);
+                }
+                if ($util.Long) {
+                    var long = new $util.Long(0, 0, false);
+                    object.frozenBalance = options.longs === String ? long.toString() : options.longs === Number ? long.toNumber() : long;
+                } else
+                    object.frozenBalance = options.longs === String ? "0" : 0;
+                object.resource = options.enums === String ? "BANDWIDTH" : 0;
+            }
+            if (message.ownerAddress != null && message.hasOwnProperty("ownerAddress"))
+                object.ownerAddress = options.bytes === String ? $util.base64.encode(message.ownerAddress, 0, message.ownerAddress.length) : options.bytes === Array ? Array.prototype.slice.call(message.ownerAddress) : message.ownerAddress;
+            if (message.frozenBalance != null && message.hasOwnProperty("frozenBalance"))
+                if (typeof message.frozenBalance === "number")
+                    object.frozenBalance = options.longs === String ? String(message.frozenBalance) : message.frozenBalance;
+                else
+                    object.frozenBalance = options.longs === String ? $util.Long.prototype.toString.call(message.frozenBalance) : options.longs === Number ? new $util.LongBits(message.frozenBalance.low >>> 0, message.frozenBalance.high >>> 0).toNumber() : message.frozenBalance;
+            if (message.resource != null && message.hasOwnProperty("resource"))
+                object.resource = options.enums === String ? $root.protocol.ResourceCode[message.resource] : message.resource;
+            return object;
+        };
+
+        /**
+         * Converts this FreezeBalanceV2Contract to JSON.
+         * @function toJSON
+         * @memberof protocol.FreezeBalanceV2Contract
+         * @instance
+         * @returns {Object.<string,*>} JSON object
+         */
+        FreezeBalanceV2Contract.prototype.toJSON = function toJSON() {
+            return this.constructor.toObject(this, $protobuf.util.toJSONOptions);
+        };
+
+        return FreezeBalanceV2Contract;
+    })();
+
+    protocol.UnfreezeBalanceV2Contract = (function() {
+
+        /**
+         * Properties of an UnfreezeBalanceV2Contract.
+         * @memberof protocol
+         * @interface IUnfreezeBalanceV2Contract
+         * @property {Uint8Array|null} [ownerAddress] UnfreezeBalanceV2Contract ownerAddress
+         * @property {number|Long|null} [unfreezeBalance] UnfreezeBalanceV2Contract unfreezeBalance
+         * @property {protocol.ResourceCode|null} [resource] UnfreezeBalanceV2Contract resource
+         */
+
+        /**
+         * Constructs a new UnfreezeBalanceV2Contract.
+         * @memberof protocol
+         * @classdesc Represents an UnfreezeBalanceV2Contract.
+         * @implements IUnfreezeBalanceV2Contract
+         * @constructor
+         * @param {protocol.IUnfreezeBalanceV2Contract=} [properties] Properties to set
+         */
+        function UnfreezeBalanceV2Contract(properties) {
+            if (properties)
+                for (var keys = Object.keys(properties), i = 0; i < keys.length; ++i)
+                    if (properties[keys[i]] != null)
+                        this[keys[i]] = properties[keys[i]];
+        }
+
+        /**
+         * UnfreezeBalanceV2Contract ownerAddress.
+         * @member {Uint8Array} ownerAddress
+         * @memberof protocol.UnfreezeBalanceV2Contract
+         * @instance
+         */
+        UnfreezeBalanceV2Contract.prototype.ownerAddress = $util.newBuffer([]);
+
+        /**
+         * UnfreezeBalanceV2Contract unfreezeBalance.
+         * @member {number|Long} unfreezeBalance
+         * @memberof protocol.UnfreezeBalanceV2Contract
+         * @instance
+         */
+        UnfreezeBalanceV2Contract.prototype.unfreezeBalance = $util.Long ? $util.Long.fromBits(0,0,false) : 0;
+
+        /**
+         * UnfreezeBalanceV2Contract resource.
+         * @member {protocol.ResourceCode} resource
+         * @memberof protocol.UnfreezeBalanceV2Contract
+         * @instance
+         */
+        UnfreezeBalanceV2Contract.prototype.resource = 0;
+
+        /**
+         * Creates a new UnfreezeBalanceV2Contract instance using the specified properties.
+         * @function create
+         * @memberof protocol.UnfreezeBalanceV2Contract
+         * @static
+         * @param {protocol.IUnfreezeBalanceV2Contract=} [properties] Properties to set
+         * @returns {protocol.UnfreezeBalanceV2Contract} UnfreezeBalanceV2Contract instance
+         */
+        UnfreezeBalanceV2Contract.create = function create(properties) {
+            return new UnfreezeBalanceV2Contract(properties);
+        };
+
+        /**
+         * Encodes the specified UnfreezeBalanceV2Contract message. Does not implicitly {@link protocol.UnfreezeBalanceV2Contract.verify|verify} messages.
+         * @function encode
+         * @memberof protocol.UnfreezeBalanceV2Contract
+         * @static
+         * @param {protocol.IUnfreezeBalanceV2Contract} message UnfreezeBalanceV2Contract message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        UnfreezeBalanceV2Contract.encode = function encode(message, writer) {
+            if (!writer)
+                writer = $Writer.create();
+            if (message.ownerAddress != null && Object.hasOwnProperty.call(message, "ownerAddress"))
+                writer.uint32(/* id 1, wireType 2 =*/10).bytes(message.ownerAddress);
+            if (message.unfreezeBalance != null && Object.hasOwnProperty.call(message, "unfreezeBalance"))
+                writer.uint32(/* id 2, wireType 0 =*/16).int64(message.unfreezeBalance);
+            if (message.resource != null && Object.hasOwnProperty.call(message, "resource"))
+                writer.uint32(/* id 3, wireType 0 =*/24).int32(message.resource);
+            return writer;
+        };
+
+        /**
+         * Encodes the specified UnfreezeBalanceV2Contract message, length delimited. Does not implicitly {@link protocol.UnfreezeBalanceV2Contract.verify|verify} messages.
+         * @function encodeDelimited
+         * @memberof protocol.UnfreezeBalanceV2Contract
+         * @static
+         * @param {protocol.IUnfreezeBalanceV2Contract} message UnfreezeBalanceV2Contract message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        UnfreezeBalanceV2Contract.encodeDelimited = function encodeDelimited(message, writer) {
+            return this.encode(message, writer).ldelim();
+        };
+
+        /**
+         * Decodes an UnfreezeBalanceV2Contract message from the specified reader or buffer.
+         * @function decode
+         * @memberof protocol.UnfreezeBalanceV2Contract
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @param {number} [length] Message length if known beforehand
+         * @returns {protocol.UnfreezeBalanceV2Contract} UnfreezeBalanceV2Contract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        UnfreezeBalanceV2Contract.decode = function decode(reader, length) {
+            if (!(reader instanceof $Reader))
+                reader = $Reader.create(reader);
+            var end = length === undefined ? reader.len : reader.pos + length, message = new $root.protocol.UnfreezeBalanceV2Contract();
+            while (reader.pos < end) {
+                var tag = reader.uint32();
+                switch (tag >>> 3) {
+                case 1:
+                    message.ownerAddress = reader.bytes();
+                    break;
+                case 2:
+                    message.unfreezeBalance = reader.int64();
+                    break;
+                case 3:
+                    message.resource = reader.int32();
+                    break;
+                default:
+                    reader.skipType(tag & 7);
+                    break;
+                }
+            }
+            return message;
+        };
+
+        /**
+         * Decodes an UnfreezeBalanceV2Contract message from the specified reader or buffer, length delimited.
+         * @function decodeDelimited
+         * @memberof protocol.UnfreezeBalanceV2Contract
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @returns {protocol.UnfreezeBalanceV2Contract} UnfreezeBalanceV2Contract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        UnfreezeBalanceV2Contract.decodeDelimited = function decodeDelimited(reader) {
+            if (!(reader instanceof $Reader))
+                reader = new $Reader(reader);
+            return this.decode(reader, reader.uint32());
+        };
+
+        /**
+         * Verifies an UnfreezeBalanceV2Contract message.
+         * @function verify
+         * @memberof protocol.UnfreezeBalanceV2Contract
+         * @static
+         * @param {Object.<string,*>} message Plain object to verify
+         * @returns {string|null} `null` if valid, otherwise the reason why it is not
+         */
+        UnfreezeBalanceV2Contract.verify = function verify(message) {
+            if (typeof message !== "object" || message === null)
+                return "object expected";
+            if (message.ownerAddress != null && message.hasOwnProperty("ownerAddress"))
+                if (!(message.ownerAddress && typeof message.ownerAddress.length === "number" || $util.isString(message.ownerAddress)))
+                    return "ownerAddress: buffer expected";
+            if (message.unfreezeBalance != null && message.hasOwnProperty("unfreezeBalance"))
+                if (!$util.isInteger(message.unfreezeBalance) && !(message.unfreezeBalance && $util.isInteger(message.unfreezeBalance.low) && $util.isInteger(message.unfreezeBalance.high)))
+                    return "unfreezeBalance: integer|Long expected";
+            if (message.resource != null && message.hasOwnProperty("resource"))
+                switch (message.resource) {
+                default:
+                    return "resource: enum value expected";
+                case 0:
+                case 1:
+                case 2:
+                    break;
+                }
+            return null;
+        };
+
+        /**
+         * Creates an UnfreezeBalanceV2Contract message from a plain object. Also converts values to their respective internal types.
+         * @function fromObject
+         * @memberof protocol.UnfreezeBalanceV2Contract
+         * @static
+         * @param {Object.<string,*>} object Plain object
+         * @returns {protocol.UnfreezeBalanceV2Contract} UnfreezeBalanceV2Contract
+         */
+        UnfreezeBalanceV2Contract.fromObject = function fromObject(object) {
+            if (object instanceof $root.protocol.UnfreezeBalanceV2Contract)
+                return object;
+            var message = new $root.protocol.UnfreezeBalanceV2Contract();
+            if (object.ownerAddress != null)
+                if (typeof object.ownerAddress === "string")
+                    $util.base64.decode(object.ownerAddress, message.ownerAddress = $util.newBuffer($util.base64.length(object.ownerAddress)), 0);
+                else if (object.ownerAddress.length)
+                    message.ownerAddress = object.ownerAddress;
+            if (object.unfreezeBalance != null)
+                if ($util.Long)
+                    (message.unfreezeBalance = $util.Long.fromValue(object.unfreezeBalance)).unsigned = false;
+                else if (typeof object.unfreezeBalance === "string")
+                    message.unfreezeBalance = parseInt(object.unfreezeBalance, 10);
+                else if (typeof object.unfreezeBalance === "number")
+                    message.unfreezeBalance = object.unfreezeBalance;
+                else if (typeof object.unfreezeBalance === "object")
+                    message.unfreezeBalance = new $util.LongBits(object.unfreezeBalance.low >>> 0, object.unfreezeBalance.high >>> 0).toNumber();
+            switch (object.resource) {
+            case "BANDWIDTH":
+            case 0:
+                message.resource = 0;
+                break;
+            case "ENERGY":
+            case 1:
+                message.resource = 1;
+                break;
+            case "TRON_POWER":
+            case 2:
+                message.resource = 2;
+                break;
+            }
+            return message;
+        };
+
+        /**
+         * Creates a plain object from an UnfreezeBalanceV2Contract message. Also converts values to other types if specified.
+         * @function toObject
+         * @memberof protocol.UnfreezeBalanceV2Contract
+         * @static
+         * @param {protocol.UnfreezeBalanceV2Contract} message UnfreezeBalanceV2Contract
+         * @param {$protobuf.IConversionOptions} [options] Conversion options
+         * @returns {Object.<string,*>} Plain object
+         */
+        UnfreezeBalanceV2Contract.toObject = function toObject(message, options) {
+            if (!options)
+                options = {};
+            var object = {};
+            if (options.defaults) {
+                if (options.bytes === String)
+                    object.ownerAddress = "";
+                else {
+                    object.ownerAddress = [];
+                    if (options.bytes !== Array)
+                        object.ownerAddress = $util.newBuffer(object.ownerAddress);
+                }
+                if ($util.Long) {
+                    var long = new $util.Long(0, 0, false);
+                    object.unfreezeBalance = options.longs === String ? long.toString() : options.longs === Number ? long.toNumber() : long;
+                } else
+                    object.unfreezeBalance = options.longs === String ? "0" : 0;
+                object.resource = options.enums === String ? "BANDWIDTH" : 0;
+            }
+            if (message.ownerAddress != null && message.hasOwnProperty("ownerAddress"))
+                object.ownerAddress = options.bytes === String ? $util.base64.encode(message.ownerAddress, 0, message.ownerAddress.length) : options.bytes === Array ? Array.prototype.slice.call(message.ownerAddress) : message.ownerAddress;
+            if (message.unfreezeBalance != null && message.hasOwnProperty("unfreezeBalance"))
+                if (typeof message.unfreezeBalance === "number")
+                    object.unfreezeBalance = options.longs === String ? String(message.unfreezeBalance) : message.unfreezeBalance;
+                else
+                    object.unfreezeBalance = options.longs === String ? $util.Long.prototype.toString.call(message.unfreezeBalance) : options.longs === Number ? new $util.LongBits(message.unfreezeBalance.low >>> 0, message.unfreezeBalance.high >>> 0).toNumber() : message.unfreezeBalance;
+            if (message.resource != null && message.hasOwnProperty("resource"))
+                object.resource = options.enums === String ? $root.protocol.ResourceCode[message.resource] : message.resource;
+            return object;
+        };
+
+        /**
+         * Converts this UnfreezeBalanceV2Contract to JSON.
+         * @function toJSON
+         * @memberof protocol.UnfreezeBalanceV2Contract
+         * @instance
+         * @returns {Object.<string,*>} JSON object
+         */
+        UnfreezeBalanceV2Contract.prototype.toJSON = function toJSON() {
+            return this.constructor.toObject(this, $protobuf.util.toJSONOptions);
+        };
+
+        return UnfreezeBalanceV2Contract;
+    })();
+
+    protocol.WithdrawExpireUnfreezeContract = (function() {
+
+        /**
+         * Properties of a WithdrawExpireUnfreezeContract.
+         * @memberof protocol
+         * @interface IWithdrawExpireUnfreezeContract
+         * @property {Uint8Array|null} [ownerAddress] WithdrawExpireUnfreezeContract ownerAddress
+         */
+
+        /**
+         * Constructs a new WithdrawExpireUnfreezeContract.
+         * @memberof protocol
+         * @classdesc Represents a WithdrawExpireUnfreezeContract.
+         * @implements IWithdrawExpireUnfreezeContract
+         * @constructor
+         * @param {protocol.IWithdrawExpireUnfreezeContract=} [properties] Properties to set
+         */
+        function WithdrawExpireUnfreezeContract(properties) {
+            if (properties)
+                for (var keys = Object.keys(properties), i = 0; i < keys.length; ++i)
+                    if (properties[keys[i]] != null)
+                        this[keys[i]] = properties[keys[i]];
+        }
+
+        /**
+         * WithdrawExpireUnfreezeContract ownerAddress.
+         * @member {Uint8Array} ownerAddress
+         * @memberof protocol.WithdrawExpireUnfreezeContract
+         * @instance
+         */
+        WithdrawExpireUnfreezeContract.prototype.ownerAddress = $util.newBuffer([]);
+
+        /**
+         * Creates a new WithdrawExpireUnfreezeContract instance using the specified properties.
+         * @function create
+         * @memberof protocol.WithdrawExpireUnfreezeContract
+         * @static
+         * @param {protocol.IWithdrawExpireUnfreezeContract=} [properties] Properties to set
+         * @returns {protocol.WithdrawExpireUnfreezeContract} WithdrawExpireUnfreezeContract instance
+         */
+        WithdrawExpireUnfreezeContract.create = function create(properties) {
+            return new WithdrawExpireUnfreezeContract(properties);
+        };
+
+        /**
+         * Encodes the specified WithdrawExpireUnfreezeContract message. Does not implicitly {@link protocol.WithdrawExpireUnfreezeContract.verify|verify} messages.
+         * @function encode
+         * @memberof protocol.WithdrawExpireUnfreezeContract
+         * @static
+         * @param {protocol.IWithdrawExpireUnfreezeContract} message WithdrawExpireUnfreezeContract message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        WithdrawExpireUnfreezeContract.encode = function encode(message, writer) {
+            if (!writer)
+                writer = $Writer.create();
+            if (message.ownerAddress != null && Object.hasOwnProperty.call(message, "ownerAddress"))
+                writer.uint32(/* id 1, wireType 2 =*/10).bytes(message.ownerAddress);
+            return writer;
+        };
+
+        /**
+         * Encodes the specified WithdrawExpireUnfreezeContract message, length delimited. Does not implicitly {@link protocol.WithdrawExpireUnfreezeContract.verify|verify} messages.
+         * @function encodeDelimited
+         * @memberof protocol.WithdrawExpireUnfreezeContract
+         * @static
+         * @param {protocol.IWithdrawExpireUnfreezeContract} message WithdrawExpireUnfreezeContract message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        WithdrawExpireUnfreezeContract.encodeDelimited = function encodeDelimited(message, writer) {
+            return this.encode(message, writer).ldelim();
+        };
+
+        /**
+         * Decodes a WithdrawExpireUnfreezeContract message from the specified reader or buffer.
+         * @function decode
+         * @memberof protocol.WithdrawExpireUnfreezeContract
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @param {number} [length] Message length if known beforehand
+         * @returns {protocol.WithdrawExpireUnfreezeContract} WithdrawExpireUnfreezeContract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        WithdrawExpireUnfreezeContract.decode = function decode(reader, length) {
+            if (!(reader instanceof $Reader))
+                reader = $Reader.create(reader);
+            var end = length === undefined ? reader.len : reader.pos + length, message = new $root.protocol.WithdrawExpireUnfreezeContract();
+            while (reader.pos < end) {
+                var tag = reader.uint32();
+                switch (tag >>> 3) {
+                case 1:
+                    message.ownerAddress = reader.bytes();
+                    break;
+                default:
+                    reader.skipType(tag & 7);
+                    break;
+                }
+            }
+            return message;
+        };
+
+        /**
+         * Decodes a WithdrawExpireUnfreezeContract message from the specified reader or buffer, length delimited.
+         * @function decodeDelimited
+         * @memberof protocol.WithdrawExpireUnfreezeContract
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @returns {protocol.WithdrawExpireUnfreezeContract} WithdrawExpireUnfreezeContract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        WithdrawExpireUnfreezeContract.decodeDelimited = function decodeDelimited(reader) {
+            if (!(reader instanceof $Reader))
+                reader = new $Reader(reader);
+            return this.decode(reader, reader.uint32());
+        };
+
+        /**
+         * Verifies a WithdrawExpireUnfreezeContract message.
+         * @function verify
+         * @memberof protocol.WithdrawExpireUnfreezeContract
+         * @static
+         * @param {Object.<string,*>} message Plain object to verify
+         * @returns {string|null} `null` if valid, otherwise the reason why it is not
+         */
+        WithdrawExpireUnfreezeContract.verify = function verify(message) {
+            if (typeof message !== "object" || message === null)
+                return "object expected";
+            if (message.ownerAddress != null && message.hasOwnProperty("ownerAddress"))
+                if (!(message.ownerAddress && typeof message.ownerAddress.length === "number" || $util.isString(message.ownerAddress)))
+                    return "ownerAddress: buffer expected";
+            return null;
+        };
+
+        /**
+         * Creates a WithdrawExpireUnfreezeContract message from a plain object. Also converts values to their respective internal types.
+         * @function fromObject
+         * @memberof protocol.WithdrawExpireUnfreezeContract
+         * @static
+         * @param {Object.<string,*>} object Plain object
+         * @returns {protocol.WithdrawExpireUnfreezeContract} WithdrawExpireUnfreezeContract
+         */
+        WithdrawExpireUnfreezeContract.fromObject = function fromObject(object) {
+            if (object instanceof $root.protocol.WithdrawExpireUnfreezeContract)
+                return object;
+            var message = new $root.protocol.WithdrawExpireUnfreezeContract();
+            if (object.ownerAddress != null)
+                if (typeof object.ownerAddress === "string")
+                    $util.base64.decode(object.ownerAddress, message.ownerAddress = $util.newBuffer($util.base64.length(object.ownerAddress)), 0);
+                else if (object.ownerAddress.length)
+                    message.ownerAddress = object.ownerAddress;
+            return message;
+        };
+
+        /**
+         * Creates a plain object from a WithdrawExpireUnfreezeContract message. Also converts values to other types if specified.
+         * @function toObject
+         * @memberof protocol.WithdrawExpireUnfreezeContract
+         * @static
+         * @param {protocol.WithdrawExpireUnfreezeContract} message WithdrawExpireUnfreezeContract
+         * @param {$protobuf.IConversionOptions} [options] Conversion options
+         * @returns {Object.<string,*>} Plain object
+         */
+        WithdrawExpireUnfreezeContract.toObject = function toObject(message, options) {
+            if (!options)
+                options = {};
+            var object = {};
+            if (options.defaults)
+                if (options.bytes === String)
+                    object.ownerAddress = "";
+                else {
+                    object.ownerAddress = [];
+                    if (options.bytes !== Array)
+                        object.ownerAddress = $util.newBuffer(object.ownerAddress);
+                }
+            if (message.ownerAddress != null && message.hasOwnProperty("ownerAddress"))
+                object.ownerAddress = options.bytes === String ? $util.base64.encode(message.ownerAddress, 0, message.ownerAddress.length) : options.bytes === Array ? Array.prototype.slice.call(message.ownerAddress) : message.ownerAddress;
+            return object;
+        };
+
+        /**
+         * Converts this WithdrawExpireUnfreezeContract to JSON.
+         * @function toJSON
+         * @memberof protocol.WithdrawExpireUnfreezeContract
+         * @instance
+         * @returns {Object.<string,*>} JSON object
+         */
+        WithdrawExpireUnfreezeContract.prototype.toJSON = function toJSON() {
+            return this.constructor.toObject(this, $protobuf.util.toJSONOptions);
+        };
+
+        return WithdrawExpireUnfreezeContract;
+    })();
+
+    protocol.DelegateResourceContract = (function() {
+
+        /**
+         * Properties of a DelegateResourceContract.
+         * @memberof protocol
+         * @interface IDelegateResourceContract
+         * @property {Uint8Array|null} [ownerAddress] DelegateResourceContract ownerAddress
+         * @property {protocol.ResourceCode|null} [resource] DelegateResourceContract resource
+         * @property {number|Long|null} [balance] DelegateResourceContract balance
+         * @property {Uint8Array|null} [receiverAddress] DelegateResourceContract receiverAddress
+         * @property {boolean|null} [lock] DelegateResourceContract lock
+         * @property {number|Long|null} [lockPeriod] DelegateResourceContract lockPeriod
+         */
+
+        /**
+         * Constructs a new DelegateResourceContract.
+         * @memberof protocol
+         * @classdesc Represents a DelegateResourceContract.
+         * @implements IDelegateResourceContract
+         * @constructor
+         * @param {protocol.IDelegateResourceContract=} [properties] Properties to set
+         */
+        function DelegateResourceContract(properties) {
+            if (properties)
+                for (var keys = Object.keys(properties), i = 0; i < keys.length; ++i)
+                    if (properties[keys[i]] != null)
+                        this[keys[i]] = properties[keys[i]];
+        }
+
+        /**
+         * DelegateResourceContract ownerAddress.
+         * @member {Uint8Array} ownerAddress
+         * @memberof protocol.DelegateResourceContract
+         * @instance
+         */
+        DelegateResourceContract.prototype.ownerAddress = $util.newBuffer([]);
+
+        /**
+         * DelegateResourceContract resource.
+         * @member {protocol.ResourceCode} resource
+         * @memberof protocol.DelegateResourceContract
+         * @instance
+         */
+        DelegateResourceContract.prototype.resource = 0;
+
+        /**
+         * DelegateResourceContract balance.
+         * @member {number|Long} balance
+         * @memberof protocol.DelegateResourceContract
+         * @instance
+         */
+        DelegateResourceContract.prototype.balance = $util.Long ? $util.Long.fromBits(0,0,false) : 0;
+
+        /**
+         * DelegateResourceContract receiverAddress.
+         * @member {Uint8Array} receiverAddress
+         * @memberof protocol.DelegateResourceContract
+         * @instance
+         */
+        DelegateResourceContract.prototype.receiverAddress = $util.newBuffer([]);
+
+        /**
+         * DelegateResourceContract lock.
+         * @member {boolean} lock
+         * @memberof protocol.DelegateResourceContract
+         * @instance
+         */
+        DelegateResourceContract.prototype.lock = false;
+
+        /**
+         * DelegateResourceContract lockPeriod.
+         * @member {number|Long} lockPeriod
+         * @memberof protocol.DelegateResourceContract
+         * @instance
+         */
+        DelegateResourceContract.prototype.lockPeriod = $util.Long ? $util.Long.fromBits(0,0,false) : 0;
+
+        /**
+         * Creates a new DelegateResourceContract instance using the specified properties.
+         * @function create
+         * @memberof protocol.DelegateResourceContract
+         * @static
+         * @param {protocol.IDelegateResourceContract=} [properties] Properties to set
+         * @returns {protocol.DelegateResourceContract} DelegateResourceContract instance
+         */
+        DelegateResourceContract.create = function create(properties) {
+            return new DelegateResourceContract(properties);
+        };
+
+        /**
+         * Encodes the specified DelegateResourceContract message. Does not implicitly {@link protocol.DelegateResourceContract.verify|verify} messages.
+         * @function encode
+         * @memberof protocol.DelegateResourceContract
+         * @static
+         * @param {protocol.IDelegateResourceContract} message DelegateResourceContract message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        DelegateResourceContract.encode = function encode(message, writer) {
+            if (!writer)
+                writer = $Writer.create();
+            if (message.ownerAddress != null && Object.hasOwnProperty.call(message, "ownerAddress"))
+                writer.uint32(/* id 1, wireType 2 =*/10).bytes(message.ownerAddress);
+            if (message.resource != null && Object.hasOwnProperty.call(message, "resource"))
+                writer.uint32(/* id 2, wireType 0 =*/16).int32(message.resource);
+            if (message.balance != null && Object.hasOwnProperty.call(message, "balance"))
+                writer.uint32(/* id 3, wireType 0 =*/24).int64(message.balance);
+            if (message.receiverAddress != null && Object.hasOwnProperty.call(message, "receiverAddress"))
+                writer.uint32(/* id 4, wireType 2 =*/34).bytes(message.receiverAddress);
+            if (message.lock != null && Object.hasOwnProperty.call(message, "lock"))
+                writer.uint32(/* id 5, wireType 0 =*/40).bool(message.lock);
+            if (message.lockPeriod != null && Object.hasOwnProperty.call(message, "lockPeriod"))
+                writer.uint32(/* id 6, wireType 0 =*/48).int64(message.lockPeriod);
+            return writer;
+        };
+
+        /**
+         * Encodes the specified DelegateResourceContract message, length delimited. Does not implicitly {@link protocol.DelegateResourceContract.verify|verify} messages.
+         * @function encodeDelimited
+         * @memberof protocol.DelegateResourceContract
+         * @static
+         * @param {protocol.IDelegateResourceContract} message DelegateResourceContract message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        DelegateResourceContract.encodeDelimited = function encodeDelimited(message, writer) {
+            return this.encode(message, writer).ldelim();
+        };
+
+        /**
+         * Decodes a DelegateResourceContract message from the specified reader or buffer.
+         * @function decode
+         * @memberof protocol.DelegateResourceContract
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @param {number} [length] Message length if known beforehand
+         * @returns {protocol.DelegateResourceContract} DelegateResourceContract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        DelegateResourceContract.decode = function decode(reader, length) {
+            if (!(reader instanceof $Reader))
+                reader = $Reader.create(reader);
+            var end = length === undefined ? reader.len : reader.pos + length, message = new $root.protocol.DelegateResourceContract();
+            while (reader.pos < end) {
+                var tag = reader.uint32();
+                switch (tag >>> 3) {
+                case 1:
+                    message.ownerAddress = reader.bytes();
+                    break;
+                case 2:
+                    message.resource = reader.int32();
+                    break;
+                case 3:
+                    message.balance = reader.int64();
+                    break;
+                case 4:
+                    message.receiverAddress = reader.bytes();
+                    break;
+                case 5:
+                    message.lock = reader.bool();
+                    break;
+                case 6:
+                    message.lockPeriod = reader.int64();
+                    break;
+                default:
+                    reader.skipType(tag & 7);
+                    break;
+                }
+            }
+            return message;
+        };
+
+        /**
+         * Decodes a DelegateResourceContract message from the specified reader or buffer, length delimited.
+         * @function decodeDelimited
+         * @memberof protocol.DelegateResourceContract
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @returns {protocol.DelegateResourceContract} DelegateResourceContract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        DelegateResourceContract.decodeDelimited = function decodeDelimited(reader) {
+            if (!(reader instanceof $Reader))
+                reader = new $Reader(reader);
+            return this.decode(reader, reader.uint32());
+        };
+
+        /**
+         * Verifies a DelegateResourceContract message.
+         * @function verify
+         * @memberof protocol.DelegateResourceContract
+         * @static
+         * @param {Object.<string,*>} message Plain object to verify
+         * @returns {string|null} `null` if valid, otherwise the reason why it is not
+         */
+        DelegateResourceContract.verify = function verify(message) {
+            if (typeof message !== "object" || message === null)
+                return "object expected";
+            if (message.ownerAddress != null && message.hasOwnProperty("ownerAddress"))
+                if (!(message.ownerAddress && typeof message.ownerAddress.length === "number" || $util.isString(message.ownerAddress)))
+                    return "ownerAddress: buffer expected";
+            if (message.resource != null && message.hasOwnProperty("resource"))
+                switch (message.resource) {
+                default:
+                    return "resource: enum value expected";
+                case 0:
+                case 1:
+                case 2:
+                    break;
+                }
+            if (message.balance != null && message.hasOwnProperty("balance"))
+                if (!$util.isInteger(message.balance) && !(message.balance && $util.isInteger(message.balance.low) && $util.isInteger(message.balance.high)))
+                    return "balance: integer|Long expected";
+            if (message.receiverAddress != null && message.hasOwnProperty("receiverAddress"))
+                if (!(message.receiverAddress && typeof message.receiverAddress.length === "number" || $util.isString(message.receiverAddress)))
+                    return "receiverAddress: buffer expected";
+            if (message.lock != null && message.hasOwnProperty("lock"))
+                if (typeof message.lock !== "boolean")
+                    return "lock: boolean expected";
+            if (message.lockPeriod != null && message.hasOwnProperty("lockPeriod"))
+                if (!$util.isInteger(message.lockPeriod) && !(message.lockPeriod && $util.isInteger(message.lockPeriod.low) && $util.isInteger(message.lockPeriod.high)))
+                    return "lockPeriod: integer|Long expected";
+            return null;
+        };
+
+        /**
+         * Creates a DelegateResourceContract message from a plain object. Also converts values to their respective internal types.
+         * @function fromObject
+         * @memberof protocol.DelegateResourceContract
+         * @static
+         * @param {Object.<string,*>} object Plain object
+         * @returns {protocol.DelegateResourceContract} DelegateResourceContract
+         */
+        DelegateResourceContract.fromObject = function fromObject(object) {
+            if (object instanceof $root.protocol.DelegateResourceContract)
+                return object;
+            var message = new $root.protocol.DelegateResourceContract();
+            if (object.ownerAddress != null)
+                if (typeof object.ownerAddress === "string")
+                    $util.base64.decode(object.ownerAddress, message.ownerAddress = $util.newBuffer($util.base64.length(object.ownerAddress)), 0);
+                else if (object.ownerAddress.length)
+                    message.ownerAddress = object.ownerAddress;
+            switch (object.resource) {
+            case "BANDWIDTH":
+            case 0:
+                message.resource = 0;
+                break;
+            case "ENERGY":
+            case 1:
+                message.resource = 1;
+                break;
+            case "TRON_POWER":
+            case 2:
+                message.resource = 2;
+                break;
+            }
+            if (object.balance != null)
+                if ($util.Long)
+                    (message.balance = $util.Long.fromValue(object.balance)).unsigned = false;
+                else if (typeof object.balance === "string")
+                    message.balance = parseInt(object.balance, 10);
+                else if (typeof object.balance === "number")
+                    message.balance = object.balance;
+                else if (typeof object.balance === "object")
+                    message.balance = new $util.LongBits(object.balance.low >>> 0, object.balance.high >>> 0).toNumber();
+            if (object.receiverAddress != null)
+                if (typeof object.receiverAddress === "string")
+                    $util.base64.decode(object.receiverAddress, message.receiverAddress = $util.newBuffer($util.base64.length(object.receiverAddress)), 0);
+                else if (object.receiverAddress.length)
+                    message.receiverAddress = object.receiverAddress;
+            if (object.lock != null)
+                message.lock = Boolean(object.lock);
+            if (object.lockPeriod != null)
+                if ($util.Long)
+                    (message.lockPeriod = $util.Long.fromValue(object.lockPeriod)).unsigned = false;
+                else if (typeof object.lockPeriod === "string")
+                    message.lockPeriod = parseInt(object.lockPeriod, 10);
+                else if (typeof object.lockPeriod === "number")
+                    message.lockPeriod = object.lockPeriod;
+                else if (typeof object.lockPeriod === "object")
+                    message.lockPeriod = new $util.LongBits(object.lockPeriod.low >>> 0, object.lockPeriod.high >>> 0).toNumber();
+            return message;
+        };
+
+        /**
+         * Creates a plain object from a DelegateResourceContract message. Also converts values to other types if specified.
+         * @function toObject
+         * @memberof protocol.DelegateResourceContract
+         * @static
+         * @param {protocol.DelegateResourceContract} message DelegateResourceContract
+         * @param {$protobuf.IConversionOptions} [options] Conversion options
+         * @returns {Object.<string,*>} Plain object
+         */
+        DelegateResourceContract.toObject = function toObject(message, options) {
+            if (!options)
+                options = {};
+            var object = {};
+            if (options.defaults) {
+                if (options.bytes === String)
+                    object.ownerAddress = "";
+                else {
+                    object.ownerAddress = [];
+                    if (options.bytes !== Array)
+                        object.ownerAddress = $util.newBuffer(object.ownerAddress);
+                }
+                object.resource = options.enums === String ? "BANDWIDTH" : 0;
+                if ($util.Long) {
+                    var long = new $util.Long(0, 0, false);
+                    object.balance = options.longs === String ? long.toString() : options.longs === Number ? long.toNumber() : long;
+                } else
+                    object.balance = options.longs === String ? "0" : 0;
+                if (options.bytes === String)
+                    object.receiverAddress = "";
+                else {
+                    object.receiverAddress = [];
+                    if (options.bytes !== Array)
+                        object.receiverAddress = $util.newBuffer(object.receiverAddress);
+                }
+                object.lock = false;
+                if ($util.Long) {
+                    var long = new $util.Long(0, 0, false);
+                    object.lockPeriod = options.longs === String ? long.toString() : options.longs === Number ? long.toNumber() : long;
+                } else
+                    object.lockPeriod = options.longs === String ? "0" : 0;
+            }
+            if (message.ownerAddress != null && message.hasOwnProperty("ownerAddress"))
+                object.ownerAddress = options.bytes === String ? $util.base64.encode(message.ownerAddress, 0, message.ownerAddress.length) : options.bytes === Array ? Array.prototype.slice.call(message.ownerAddress) : message.ownerAddress;
+            if (message.resource != null && message.hasOwnProperty("resource"))
+                object.resource = options.enums === String ? $root.protocol.ResourceCode[message.resource] : message.resource;
+            if (message.balance != null && message.hasOwnProperty("balance"))
+                if (typeof message.balance === "number")
+                    object.balance = options.longs === String ? String(message.balance) : message.balance;
+                else
+                    object.balance = options.longs === String ? $util.Long.prototype.toString.call(message.balance) : options.longs === Number ? new $util.LongBits(message.balance.low >>> 0, message.balance.high >>> 0).toNumber() : message.balance;
+            if (message.receiverAddress != null && message.hasOwnProperty("receiverAddress"))
+                object.receiverAddress = options.bytes === String ? $util.base64.encode(message.receiverAddress, 0, message.receiverAddress.length) : options.bytes === Array ? Array.prototype.slice.call(message.receiverAddress) : message.receiverAddress;
+            if (message.lock != null && message.hasOwnProperty("lock"))
+                object.lock = message.lock;
+            if (message.lockPeriod != null && message.hasOwnProperty("lockPeriod"))
+                if (typeof message.lockPeriod === "number")
+                    object.lockPeriod = options.longs === String ? String(message.lockPeriod) : message.lockPeriod;
+                else
+                    object.lockPeriod = options.longs === String ? $util.Long.prototype.toString.call(message.lockPeriod) : options.longs === Number ? new $util.LongBits(message.lockPeriod.low >>> 0, message.lockPeriod.high >>> 0).toNumber() : message.lockPeriod;
+            return object;
+        };
+
+        /**
+         * Converts this DelegateResourceContract to JSON.
+         * @function toJSON
+         * @memberof protocol.DelegateResourceContract
+         * @instance
+         * @returns {Object.<string,*>} JSON object
+         */
+        DelegateResourceContract.prototype.toJSON = function toJSON() {
+            return this.constructor.toObject(this, $protobuf.util.toJSONOptions);
+        };
+
+        return DelegateResourceContract;
+    })();
+
+    protocol.UnDelegateResourceContract = (function() {
+
+        /**
+         * Properties of an UnDelegateResourceContract.
+         * @memberof protocol
+         * @interface IUnDelegateResourceContract
+         * @property {Uint8Array|null} [ownerAddress] UnDelegateResourceContract ownerAddress
+         * @property {protocol.ResourceCode|null} [resource] UnDelegateResourceContract resource
+         * @property {number|Long|null} [balance] UnDelegateResourceContract balance
+         * @property {Uint8Array|null} [receiverAddress] UnDelegateResourceContract receiverAddress
+         */
+
+        /**
+         * Constructs a new UnDelegateResourceContract.
+         * @memberof protocol
+         * @classdesc Represents an UnDelegateResourceContract.
+         * @implements IUnDelegateResourceContract
+         * @constructor
+         * @param {protocol.IUnDelegateResourceContract=} [properties] Properties to set
+         */
+        function UnDelegateResourceContract(properties) {
+            if (properties)
+                for (var keys = Object.keys(properties), i = 0; i < keys.length; ++i)
+                    if (properties[keys[i]] != null)
+                        this[keys[i]] = properties[keys[i]];
+        }
+
+        /**
+         * UnDelegateResourceContract ownerAddress.
+         * @member {Uint8Array} ownerAddress
+         * @memberof protocol.UnDelegateResourceContract
+         * @instance
+         */
+        UnDelegateResourceContract.prototype.ownerAddress = $util.newBuffer([]);
+
+        /**
+         * UnDelegateResourceContract resource.
+         * @member {protocol.ResourceCode} resource
+         * @memberof protocol.UnDelegateResourceContract
+         * @instance
+         */
+        UnDelegateResourceContract.prototype.resource = 0;
+
+        /**
+         * UnDelegateResourceContract balance.
+         * @member {number|Long} balance
+         * @memberof protocol.UnDelegateResourceContract
+         * @instance
+         */
+        UnDelegateResourceContract.prototype.balance = $util.Long ? $util.Long.fromBits(0,0,false) : 0;
+
+        /**
+         * UnDelegateResourceContract receiverAddress.
+         * @member {Uint8Array} receiverAddress
+         * @memberof protocol.UnDelegateResourceContract
+         * @instance
+         */
+        UnDelegateResourceContract.prototype.receiverAddress = $util.newBuffer([]);
+
+        /**
+         * Creates a new UnDelegateResourceContract instance using the specified properties.
+         * @function create
+         * @memberof protocol.UnDelegateResourceContract
+         * @static
+         * @param {protocol.IUnDelegateResourceContract=} [properties] Properties to set
+         * @returns {protocol.UnDelegateResourceContract} UnDelegateResourceContract instance
+         */
+        UnDelegateResourceContract.create = function create(properties) {
+            return new UnDelegateResourceContract(properties);
+        };
+
+        /**
+         * Encodes the specified UnDelegateResourceContract message. Does not implicitly {@link protocol.UnDelegateResourceContract.verify|verify} messages.
+         * @function encode
+         * @memberof protocol.UnDelegateResourceContract
+         * @static
+         * @param {protocol.IUnDelegateResourceContract} message UnDelegateResourceContract message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        UnDelegateResourceContract.encode = function encode(message, writer) {
+            if (!writer)
+                writer = $Writer.create();
+            if (message.ownerAddress != null && Object.hasOwnProperty.call(message, "ownerAddress"))
+                writer.uint32(/* id 1, wireType 2 =*/10).bytes(message.ownerAddress);
+            if (message.resource != null && Object.hasOwnProperty.call(message, "resource"))
+                writer.uint32(/* id 2, wireType 0 =*/16).int32(message.resource);
+            if (message.balance != null && Object.hasOwnProperty.call(message, "balance"))
+                writer.uint32(/* id 3, wireType 0 =*/24).int64(message.balance);
+            if (message.receiverAddress != null && Object.hasOwnProperty.call(message, "receiverAddress"))
+                writer.uint32(/* id 4, wireType 2 =*/34).bytes(message.receiverAddress);
+            return writer;
+        };
+
+        /**
+         * Encodes the specified UnDelegateResourceContract message, length delimited. Does not implicitly {@link protocol.UnDelegateResourceContract.verify|verify} messages.
+         * @function encodeDelimited
+         * @memberof protocol.UnDelegateResourceContract
+         * @static
+         * @param {protocol.IUnDelegateResourceContract} message UnDelegateResourceContract message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        UnDelegateResourceContract.encodeDelimited = function encodeDelimited(message, writer) {
+            return this.encode(message, writer).ldelim();
+        };
+
+        /**
+         * Decodes an UnDelegateResourceContract message from the specified reader or buffer.
+         * @function decode
+         * @memberof protocol.UnDelegateResourceContract
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @param {number} [length] Message length if known beforehand
+         * @returns {protocol.UnDelegateResourceContract} UnDelegateResourceContract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        UnDelegateResourceContract.decode = function decode(reader, length) {
+            if (!(reader instanceof $Reader))
+                reader = $Reader.create(reader);
+            var end = length === undefined ? reader.len : reader.pos + length, message = new $root.protocol.UnDelegateResourceContract();
+            while (reader.pos < end) {
+                var tag = reader.uint32();
+                switch (tag >>> 3) {
+                case 1:
+                    message.ownerAddress = reader.bytes();
+                    break;
+                case 2:
+                    message.resource = reader.int32();
+                    break;
+                case 3:
+                    message.balance = reader.int64();
+                    break;
+                case 4:
+                    message.receiverAddress = reader.bytes();
+                    break;
+                default:
+                    reader.skipType(tag & 7);
+                    break;
+                }
+            }
+            return message;
+        };
+
+        /**
+         * Decodes an UnDelegateResourceContract message from the specified reader or buffer, length delimited.
+         * @function decodeDelimited
+         * @memberof protocol.UnDelegateResourceContract
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @returns {protocol.UnDelegateResourceContract} UnDelegateResourceContract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        UnDelegateResourceContract.decodeDelimited = function decodeDelimited(reader) {
+            if (!(reader instanceof $Reader))
+                reader = new $Reader(reader);
+            return this.decode(reader, reader.uint32());
+        };
+
+        /**
+         * Verifies an UnDelegateResourceContract message.
+         * @function verify
+         * @memberof protocol.UnDelegateResourceContract
+         * @static
+         * @param {Object.<string,*>} message Plain object to verify
+         * @returns {string|null} `null` if valid, otherwise the reason why it is not
+         */
+        UnDelegateResourceContract.verify = function verify(message) {
+            if (typeof message !== "object" || message === null)
+                return "object expected";
+            if (message.ownerAddress != null && message.hasOwnProperty("ownerAddress"))
+                if (!(message.ownerAddress && typeof message.ownerAddress.length === "number" || $util.isString(message.ownerAddress)))
+                    return "ownerAddress: buffer expected";
+            if (message.resource != null && message.hasOwnProperty("resource"))
+                switch (message.resource) {
+                default:
+                    return "resource: enum value expected";
+                case 0:
+                case 1:
+                case 2:
+                    break;
+                }
+            if (message.balance != null && message.hasOwnProperty("balance"))
+                if (!$util.isInteger(message.balance) && !(message.balance && $util.isInteger(message.balance.low) && $util.isInteger(message.balance.high)))
+                    return "balance: integer|Long expected";
+            if (message.receiverAddress != null && message.hasOwnProperty("receiverAddress"))
+                if (!(message.receiverAddress && typeof message.receiverAddress.length === "number" || $util.isString(message.receiverAddress)))
+                    return "receiverAddress: buffer expected";
+            return null;
+        };
+
+        /**
+         * Creates an UnDelegateResourceContract message from a plain object. Also converts values to their respective internal types.
+         * @function fromObject
+         * @memberof protocol.UnDelegateResourceContract
+         * @static
+         * @param {Object.<string,*>} object Plain object
+         * @returns {protocol.UnDelegateResourceContract} UnDelegateResourceContract
+         */
+        UnDelegateResourceContract.fromObject = function fromObject(object) {
+            if (object instanceof $root.protocol.UnDelegateResourceContract)
+                return object;
+            var message = new $root.protocol.UnDelegateResourceContract();
+            if (object.ownerAddress != null)
+                if (typeof object.ownerAddress === "string")
+                    $util.base64.decode(object.ownerAddress, message.ownerAddress = $util.newBuffer($util.base64.length(object.ownerAddress)), 0);
+                else if (object.ownerAddress.length)
+                    message.ownerAddress = object.ownerAddress;
+            switch (object.resource) {
+            case "BANDWIDTH":
+            case 0:
+                message.resource = 0;
+                break;
+            case "ENERGY":
+            case 1:
+                message.resource = 1;
+                break;
+            case "TRON_POWER":
+            case 2:
+                message.resource = 2;
+                break;
+            }
+            if (object.balance != null)
+                if ($util.Long)
+                    (message.balance = $util.Long.fromValue(object.balance)).unsigned = false;
+                else if (typeof object.balance === "string")
+                    message.balance = parseInt(object.balance, 10);
+                else if (typeof object.balance === "number")
+                    message.balance = object.balance;
+                else if (typeof object.balance === "object")
+                    message.balance = new $util.LongBits(object.balance.low >>> 0, object.balance.high >>> 0).toNumber();
+            if (object.receiverAddress != null)
+                if (typeof object.receiverAddress === "string")
+                    $util.base64.decode(object.receiverAddress, message.receiverAddress = $util.newBuffer($util.base64.length(object.receiverAddress)), 0);
+                else if (object.receiverAddress.length)
+                    message.receiverAddress = object.receiverAddress;
+            return message;
+        };
+
+        /**
+         * Creates a plain object from an UnDelegateResourceContract message. Also converts values to other types if specified.
+         * @function toObject
+         * @memberof protocol.UnDelegateResourceContract
+         * @static
+         * @param {protocol.UnDelegateResourceContract} message UnDelegateResourceContract
+         * @param {$protobuf.IConversionOptions} [options] Conversion options
+         * @returns {Object.<string,*>} Plain object
+         */
+        UnDelegateResourceContract.toObject = function toObject(message, options) {
+            if (!options)
+                options = {};
+            var object = {};
+            if (options.defaults) {
+                if (options.bytes === String)
+                    object.ownerAddress = "";
+                else {
+                    object.ownerAddress = [];
+                    if (options.bytes !== Array)
+                        object.ownerAddress = $util.newBuffer(object.ownerAddress);
+                }
+                object.resource = options.enums === String ? "BANDWIDTH" : 0;
+                if ($util.Long) {
+                    var long = new $util.Long(0, 0, false);
+                    object.balance = options.longs === String ? long.toString() : options.longs === Number ? long.toNumber() : long;
+                } else
+                    object.balance = options.longs === String ? "0" : 0;
+                if (options.bytes === String)
+                    object.receiverAddress = "";
+                else {
+                    object.receiverAddress = [];
+                    if (options.bytes !== Array)
+                        object.receiverAddress = $util.newBuffer(object.receiverAddress);
+                }
+            }
+            if (message.ownerAddress != null && message.hasOwnProperty("ownerAddress"))
+                object.ownerAddress = options.bytes === String ? $util.base64.encode(message.ownerAddress, 0, message.ownerAddress.length) : options.bytes === Array ? Array.prototype.slice.call(message.ownerAddress) : message.ownerAddress;
+            if (message.resource != null && message.hasOwnProperty("resource"))
+                object.resource = options.enums === String ? $root.protocol.ResourceCode[message.resource] : message.resource;
+            if (message.balance != null && message.hasOwnProperty("balance"))
+                if (typeof message.balance === "number")
+                    object.balance = options.longs === String ? String(message.balance) : message.balance;
+                else
+                    object.balance = options.longs === String ? $util.Long.prototype.toString.call(message.balance) : options.longs === Number ? new $util.LongBits(message.balance.low >>> 0, message.balance.high >>> 0).toNumber() : message.balance;
+            if (message.receiverAddress != null && message.hasOwnProperty("receiverAddress"))
+                object.receiverAddress = options.bytes === String ? $util.base64.encode(message.receiverAddress, 0, message.receiverAddress.length) : options.bytes === Array ? Array.prototype.slice.call(message.receiverAddress) : message.receiverAddress;
+            return object;
+        };
+
+        /**
+         * Converts this UnDelegateResourceContract to JSON.
+         * @function toJSON
+         * @memberof protocol.UnDelegateResourceContract
+         * @instance
+         * @returns {Object.<string,*>} JSON object
+         */
+        UnDelegateResourceContract.prototype.toJSON = function toJSON() {
+            return this.constructor.toObject(this, $protobuf.util.toJSONOptions);
+        };
+
+        return UnDelegateResourceContract;
+    })();
+
+    protocol.CancelAllUnfreezeV2Contract = (function() {
+
+        /**
+         * Properties of a CancelAllUnfreezeV2Contract.
+         * @memberof protocol
+         * @interface ICancelAllUnfreezeV2Contract
+         * @property {Uint8Array|null} [ownerAddress] CancelAllUnfreezeV2Contract ownerAddress
+         */
+
+        /**
+         * Constructs a new CancelAllUnfreezeV2Contract.
+         * @memberof protocol
+         * @classdesc Represents a CancelAllUnfreezeV2Contract.
+         * @implements ICancelAllUnfreezeV2Contract
+         * @constructor
+         * @param {protocol.ICancelAllUnfreezeV2Contract=} [properties] Properties to set
+         */
+        function CancelAllUnfreezeV2Contract(properties) {
+            if (properties)
+                for (var keys = Object.keys(properties), i = 0; i < keys.length; ++i)
+                    if (properties[keys[i]] != null)
+                        this[keys[i]] = properties[keys[i]];
+        }
+
+        /**
+         * CancelAllUnfreezeV2Contract ownerAddress.
+         * @member {Uint8Array} ownerAddress
+         * @memberof protocol.CancelAllUnfreezeV2Contract
+         * @instance
+         */
+        CancelAllUnfreezeV2Contract.prototype.ownerAddress = $util.newBuffer([]);
+
+        /**
+         * Creates a new CancelAllUnfreezeV2Contract instance using the specified properties.
+         * @function create
+         * @memberof protocol.CancelAllUnfreezeV2Contract
+         * @static
+         * @param {protocol.ICancelAllUnfreezeV2Contract=} [properties] Properties to set
+         * @returns {protocol.CancelAllUnfreezeV2Contract} CancelAllUnfreezeV2Contract instance
+         */
+        CancelAllUnfreezeV2Contract.create = function create(properties) {
+            return new CancelAllUnfreezeV2Contract(properties);
+        };
+
+        /**
+         * Encodes the specified CancelAllUnfreezeV2Contract message. Does not implicitly {@link protocol.CancelAllUnfreezeV2Contract.verify|verify} messages.
+         * @function encode
+         * @memberof protocol.CancelAllUnfreezeV2Contract
+         * @static
+         * @param {protocol.ICancelAllUnfreezeV2Contract} message CancelAllUnfreezeV2Contract message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        CancelAllUnfreezeV2Contract.encode = function encode(message, writer) {
+            if (!writer)
+                writer = $Writer.create();
+            if (message.ownerAddress != null && Object.hasOwnProperty.call(message, "ownerAddress"))
+                writer.uint32(/* id 1, wireType 2 =*/10).bytes(message.ownerAddress);
+            return writer;
+        };
+
+        /**
+         * Encodes the specified CancelAllUnfreezeV2Contract message, length delimited. Does not implicitly {@link protocol.CancelAllUnfreezeV2Contract.verify|verify} messages.
+         * @function encodeDelimited
+         * @memberof protocol.CancelAllUnfreezeV2Contract
+         * @static
+         * @param {protocol.ICancelAllUnfreezeV2Contract} message CancelAllUnfreezeV2Contract message or plain object to encode
+         * @param {$protobuf.Writer} [writer] Writer to encode to
+         * @returns {$protobuf.Writer} Writer
+         */
+        CancelAllUnfreezeV2Contract.encodeDelimited = function encodeDelimited(message, writer) {
+            return this.encode(message, writer).ldelim();
+        };
+
+        /**
+         * Decodes a CancelAllUnfreezeV2Contract message from the specified reader or buffer.
+         * @function decode
+         * @memberof protocol.CancelAllUnfreezeV2Contract
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @param {number} [length] Message length if known beforehand
+         * @returns {protocol.CancelAllUnfreezeV2Contract} CancelAllUnfreezeV2Contract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        CancelAllUnfreezeV2Contract.decode = function decode(reader, length) {
+            if (!(reader instanceof $Reader))
+                reader = $Reader.create(reader);
+            var end = length === undefined ? reader.len : reader.pos + length, message = new $root.protocol.CancelAllUnfreezeV2Contract();
+            while (reader.pos < end) {
+                var tag = reader.uint32();
+                switch (tag >>> 3) {
+                case 1:
+                    message.ownerAddress = reader.bytes();
+                    break;
+                default:
+                    reader.skipType(tag & 7);
+                    break;
+                }
+            }
+            return message;
+        };
+
+        /**
+         * Decodes a CancelAllUnfreezeV2Contract message from the specified reader or buffer, length delimited.
+         * @function decodeDelimited
+         * @memberof protocol.CancelAllUnfreezeV2Contract
+         * @static
+         * @param {$protobuf.Reader|Uint8Array} reader Reader or buffer to decode from
+         * @returns {protocol.CancelAllUnfreezeV2Contract} CancelAllUnfreezeV2Contract
+         * @throws {Error} If the payload is not a reader or valid buffer
+         * @throws {$protobuf.util.ProtocolError} If required fields are missing
+         */
+        CancelAllUnfreezeV2Contract.decodeDelimited = function decodeDelimited(reader) {
+            if (!(reader instanceof $Reader))
+                reader = new $Reader(reader);
+            return this.decode(reader, reader.uint32());
+        };
+
+        /**
+         * Verifies a CancelAllUnfreezeV2Contract message.
+         * @function verify
+         * @memberof protocol.CancelAllUnfreezeV2Contract
+         * @static
+         * @param {Object.<string,*>} message Plain object to verify
+         * @returns {string|null} `null` if valid, otherwise the reason why it is not
+         */
+        CancelAllUnfreezeV2Contract.verify = function verify(message) {
+            if (typeof message !== "object" || message === null)
+                return "object expected";
+            if (message.ownerAddress != null && message.hasOwnProperty("ownerAddress"))
+                if (!(message.ownerAddress && typeof message.ownerAddress.length === "number" || $util.isString(message.ownerAddress)))
+                    return "ownerAddress: buffer expected";
+            return null;
+        };
+
+        /**
+         * Creates a CancelAllUnfreezeV2Contract message from a plain object. Also converts values to their respective internal types.
+         * @function fromObject
+         * @memberof protocol.CancelAllUnfreezeV2Contract
+         * @static
+         * @param {Object.<string,*>} object Plain object
+         * @returns {protocol.CancelAllUnfreezeV2Contract} CancelAllUnfreezeV2Contract
+         */
+        CancelAllUnfreezeV2Contract.fromObject = function fromObject(object) {
+            if (object instanceof $root.protocol.CancelAllUnfreezeV2Contract)
+                return object;
+            var message = new $root.protocol.CancelAllUnfreezeV2Contract();
+            if (object.ownerAddress != null)
+                if (typeof object.ownerAddress === "string")
+                    $util.base64.decode(object.ownerAddress, message.ownerAddress = $util.newBuffer($util.base64.length(object.ownerAddress)), 0);
+                else if (object.ownerAddress.length)
+                    message.ownerAddress = object.ownerAddress;
+            return message;
+        };
+
+        /**
+         * Creates a plain object from a CancelAllUnfreezeV2Contract message. Also converts values to other types if specified.
+         * @function toObject
+         * @memberof protocol.CancelAllUnfreezeV2Contract
+         * @static
+         * @param {protocol.CancelAllUnfreezeV2Contract} message CancelAllUnfreezeV2Contract
+         * @param {$protobuf.IConversionOptions} [options] Conversion options
+         * @returns {Object.<string,*>} Plain object
+         */
+        CancelAllUnfreezeV2Contract.toObject = function toObject(message, options) {
+            if (!options)
+                options = {};
+            var object = {};
+            if (options.defaults)
+                if (options.bytes === String)
+                    object.ownerAddress = "";
+                else {
+                    object.ownerAddress = [];
+                    if (options.bytes !== Array)
+                        object.ownerAddress = $util.newBuffer(object.ownerAddress);
+                }
+            if (message.ownerAddress != null && message.hasOwnProperty("ownerAddress"))
+                object.ownerAddress = options.bytes === String ? $util.base64.encode(message.ownerAddress, 0, message.ownerAddress.length) : options.bytes === Array ? Array.prototype.slice.call(message.ownerAddress) : message.ownerAddress;
+            return object;
+        };
+
+        /**
+         * Converts this CancelAllUnfreezeV2Contract to JSON.
+         * @function toJSON
+         * @memberof protocol.CancelAllUnfreezeV2Contract
+         * @instance
+         * @returns {Object.<string,*>} JSON object
+         */
+        CancelAllUnfreezeV2Contract.prototype.toJSON = function toJSON() {
+            return this.constructor.toObject(this, $protobuf.util.toJSONOptions);
+        };
+
+        return CancelAllUnfreezeV2Contract;
+    })();
+
     protocol.UpdateAssetContract = (function() {
 
         /**
@@ -0,0 +1,106 @@
+import {_m0, base, signUtil} from '@okxweb3/crypto-lib';
+import {
+    addressFromPrivate,
+    addSignature,
+    getPermissionOperations,
+    getSignatureWeight,
+    TrxWallet,
+} from '../src';
+import {protocol} from '../src/protobuf/tron';
+import ContractType = protocol.Transaction.Contract.ContractType;
+
+const privateKey = "bdd80f4421968142b3a4a6c27a1d84a3623384d085a04a895f109fd8d49cef0a";
+const privateKey2 = "c6e7ef1fc4a3e24b8a4cdbdd8d1e2b43b8d5b6d9a8c4c0e3f1d3e5a7b9c1d2e3";
+const privateKey3 = "0f2c9d3a4b5e6f708192a3b4c5d6e7f8091a2b3c4d5e6f708192a3b4c5d6e7f8";
+const fromAddress = "TGXQHj3fXhEtCmooRgGemCZyHBEQAv6ct8";
+const receiverAddress = "TTczxNWoJJ8mZjj9w2eegiSZqTCTfhjd4g";
+const common = {
+    fromAddress: fromAddress,
+    refBlockBytes: "e05a",
+    refBlockHash: "a866246a779650fe",
+    expiration: 1700003600000,
+    timeStamp: 1700000000000,
+};
+
+describe("permission", () => {
+    test("getPermissionOperations", async () => {
+        const operations = getPermissionOperations([ContractType.TransferContract, ContractType.TransferAssetContract, ContractType.TriggerSmartContract]);
+        expect(operations).toEqual("06000080" + "00".repeat(28));
+        expect(() => getPermissionOperations([256])).toThrow();
+    });
+
+    test("accountPermissionUpdate", async () => {
+        const wallet = new TrxWallet();
+        const keys = [{address: fromAddress, weight: 1}, {address: receiverAddress, weight: 1}];
+        const data = {
+            ...common,
+            owner: {permissionName: "owner", threshold: 2, keys: keys},
+            actives: [{
+                permissionName: "active0",
+                threshold: 2,
+                operations: "06000080" + "00".repeat(28),
+                keys: [...keys, {address: "TKG65265DfukrA4HfMNbD8Xowtcsrau9Pq", weight: 2}],
+            }],
+        };
+        // raw data hex encoded by tronweb's txJsonToPb
+        const unsigned = await wallet.signTransaction({privateKey: "", data: {type: "accountPermissionUpdate", data: data}});
+        expect(unsigned.raw).toEqual("0a02e05a2208a866246a779650fe4080adf180bd315aa302082e129e020a3c747970652e676f6f676c65617069732e636f6d2f70726f746f636f6c2e4163636f756e745065726d697373696f6e557064617465436f6e747261637412dd010a154147e77cd95bfaa25f24c50b5c78558b3b6df04137123f1a056f776e657220023a190a154147e77cd95bfaa25f24c50b5c78558b3b6df0413710013a190a1541c19fe39c19ec591bf1548298907a62dc23452fd41001228201080210021a07616374697665302002322006000080000000000000000000000000000000000000000000000000000000003a190a154147e77cd95bfaa25f24c50b5c78558b3b6df0413710013a190a1541c19fe39c19ec591bf1548298907a62dc23452fd410013a190a154165ea6ac71bd0d1d6018c5b6a12adddf349c3c04d10027080d095ffbc31");
+
+        const invalid = [
+            {...data, actives: []},
+            {...data, owner: {threshold: 3, keys: keys}},
+            {...data, owner: {threshold: 1, keys: [keys[0], keys[0]]}},
+            {...data, owner: {threshold: 1, keys: [{address: fromAddress, weight: 0}]}},
+            {...data, owner: {threshold: 1, keys: keys, operations: "00".repeat(32)}},
+            {...data, actives: [{threshold: 1, keys: keys}]},
+        ];
+        for (const param of invalid) {
+            await expect(wallet.signTransaction({privateKey: privateKey, data: {type: "accountPermissionUpdate", data: param}})).rejects.toBeDefined();
+        }
+    });
+
+    test("multi-signature transfer", async () => {
+        const wallet = new TrxWallet();
+        const transfer = {...common, toAddress: receiverAddress, amount: "1000000", permissionId: 2};
+        const unsigned = await wallet.signTransaction({privateKey: "", data: {type: "transfer", data: transfer}});
+        expect(unsigned.raw).toEqual("0a02e05a2208a866246a779650fe4080adf180bd315a69080112630a2d747970652e676f6f676c65617069732e636f6d2f70726f746f636f6c2e5472616e73666572436f6e747261637412320a154147e77cd95bfaa25f24c50b5c78558b3b6df04137121541c19fe39c19ec591bf1548298907a62dc23452fd418c0843d28027080d095ffbc31");
+
+        const permission = {
+            threshold: 3,
+            keys: [
+                {address: addressFromPrivate(privateKey), weight: 1},
+                {address: addressFromPrivate(privateKey2), weight: 1},
+                {address: addressFromPrivate(privateKey3), weight: 2},
+            ],
+        };
+        const tx = await wallet.signTransaction({privateKey: privateKey, data: {type: "transfer", data: transfer}});
+        expect(getSignatureWeight(tx, permission)).toEqual({signers: [addressFromPrivate(privateKey)], weight: 1, threshold: 3, approved: false});
+        expect(() => addSignature(tx, privateKey)).toThrow();
+
+        const tx2 = addSignature(tx, privateKey3);
+        const weight = getSignatureWeight(tx2, permission);
+        expect(weight.signers).toEqual([addressFromPrivate(privateKey), addressFromPrivate(privateKey3)]);
+        expect(weight.weight).toEqual(3);
+        expect(weight.approved).toEqual(true);
+
+        const transaction = protocol.Transaction.decode(base.fromHex(tx2));
+        expect(transaction.signature.length).toEqual(2);
+        expect(base.toHex(protocol.Transaction.raw.encode(transaction.rawData as protocol.Transaction.raw).finish())).toEqual(unsigned.raw);
+        expect(transaction.rawData!.contract![0].PermissionId).toEqual(2);
+    });
+
+    test("signatures cover the raw_data bytes as serialized", async () => {
+        const wallet = new TrxWallet();
+        const unsigned = await wallet.signTransaction({privateKey: "", data: {type: "transfer", data: {...common, toAddress: receiverAddress, amount: "1000000"}}});
+        // an unknown field is dropped when raw_data is decoded and encoded again
+        const raw = base.fromHex(unsigned.raw + "a00601");
+        const {signature, recovery} = signUtil.secp256k1.sign(Buffer.from(base.sha256(raw)), base.fromHex(privateKey), true);
+        const tx = base.toHex(_m0.Writer.create().uint32(10).bytes(raw).uint32(18).bytes(Buffer.concat([Uint8Array.from(signature), Uint8Array.of(recovery)])).finish());
+
+        const permission = {threshold: 2, keys: [{address: addressFromPrivate(privateKey), weight: 1}, {address: addressFromPrivate(privateKey2), weight: 1}]};
+        expect(getSignatureWeight(tx, permission).signers).toEqual([addressFromPrivate(privateKey)]);
+        const tx2 = addSignature(tx, privateKey2);
+        expect(tx2.startsWith(tx)).toEqual(true);
+        expect(getSignatureWeight(tx2, permission).approved).toEqual(true);
+    });
+});
@@ -0,0 +1,70 @@
+import {base} from '@okxweb3/crypto-lib';
+import {TrxWallet} from '../src';
+import {protocol} from '../src/protobuf/tron';
+
+const privateKey = "bdd80f4421968142b3a4a6c27a1d84a3623384d085a04a895f109fd8d49cef0a";
+const fromAddress = "TGXQHj3fXhEtCmooRgGemCZyHBEQAv6ct8";
+const receiverAddress = "TTczxNWoJJ8mZjj9w2eegiSZqTCTfhjd4g";
+const common = {
+    fromAddress: fromAddress,
+    refBlockBytes: "e05a",
+    refBlockHash: "a866246a779650fe",
+    expiration: 1700003600000,
+    timeStamp: 1700000000000,
+};
+
+// raw data hex encoded by tronweb's txJsonToPb
+const cases: [string, any, string][] = [
+    ["freezeBalanceV2", {amount: "10000000", resource: "ENERGY"}, "0a02e05a2208a866246a779650fe4080adf180bd315a5a083612560a34747970652e676f6f676c65617069732e636f6d2f70726f746f636f6c2e467265657a6542616c616e63655632436f6e7472616374121e0a154147e77cd95bfaa25f24c50b5c78558b3b6df041371080ade20418017080d095ffbc31"],
+    ["freezeBalanceV2", {amount: "10000000", resource: "BANDWIDTH"}, "0a02e05a2208a866246a779650fe4080adf180bd315a58083612540a34747970652e676f6f676c65617069732e636f6d2f70726f746f636f6c2e467265657a6542616c616e63655632436f6e7472616374121c0a154147e77cd95bfaa25f24c50b5c78558b3b6df041371080ade2047080d095ffbc31"],
+    ["unfreezeBalanceV2", {amount: "5000000", resource: "ENERGY"}, "0a02e05a2208a866246a779650fe4080adf180bd315a5c083712580a36747970652e676f6f676c65617069732e636f6d2f70726f746f636f6c2e556e667265657a6542616c616e63655632436f6e7472616374121e0a154147e77cd95bfaa25f24c50b5c78558b3b6df0413710c096b10218017080d095ffbc31"],
+    ["withdrawExpireUnfreeze", {}, "0a02e05a2208a866246a779650fe4080adf180bd315a5a083812560a3b747970652e676f6f676c65617069732e636f6d2f70726f746f636f6c2e5769746864726177457870697265556e667265657a65436f6e747261637412170a154147e77cd95bfaa25f24c50b5c78558b3b6df041377080d095ffbc31"],
+    ["delegateResource", {amount: "2000000", resource: "ENERGY", receiverAddress: receiverAddress, lockPeriod: 86400}, "0a02e05a2208a866246a779650fe4080adf180bd315a77083912730a35747970652e676f6f676c65617069732e636f6d2f70726f746f636f6c2e44656c65676174655265736f75726365436f6e7472616374123a0a154147e77cd95bfaa25f24c50b5c78558b3b6df0413710011880897a221541c19fe39c19ec591bf1548298907a62dc23452fd428013080a3057080d095ffbc31"],
+    ["unDelegateResource", {amount: "2000000", resource: "ENERGY", receiverAddress: receiverAddress}, "0a02e05a2208a866246a779650fe4080adf180bd315a73083a126f0a37747970652e676f6f676c65617069732e636f6d2f70726f746f636f6c2e556e44656c65676174655265736f75726365436f6e747261637412340a154147e77cd95bfaa25f24c50b5c78558b3b6df0413710011880897a221541c19fe39c19ec591bf1548298907a62dc23452fd47080d095ffbc31"],
+    ["voteWitness", {votes: [{address: "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t", count: "3"}, {address: receiverAddress, count: "7"}]}, "0a02e05a2208a866246a779650fe4080adf180bd315a860108041281010a30747970652e676f6f676c65617069732e636f6d2f70726f746f636f6c2e566f74655769746e657373436f6e7472616374124d0a154147e77cd95bfaa25f24c50b5c78558b3b6df0413712190a1541a614f803b6fd780986a42c78ec9c7f77e6ded13c100312190a1541c19fe39c19ec591bf1548298907a62dc23452fd410077080d095ffbc31"],
+    ["withdrawBalance", {}, "0a02e05a2208a866246a779650fe4080adf180bd315a53080d124f0a34747970652e676f6f676c65617069732e636f6d2f70726f746f636f6c2e576974686472617742616c616e6365436f6e747261637412170a154147e77cd95bfaa25f24c50b5c78558b3b6df041377080d095ffbc31"],
+];
+
+describe("stake", () => {
+    test("contracts", async () => {
+        const wallet = new TrxWallet();
+        for (const [type, data, expected] of cases) {
+            const unsigned = await wallet.signTransaction({privateKey: "", data: {type: type, data: {...common, ...data}}});
+            expect(unsigned.raw).toEqual(expected);
+            expect(unsigned.hash).toEqual(base.toHex(base.sha256(base.fromHex(expected))));
+        }
+    });
+
+    test("signed delegateResource", async () => {
+        const wallet = new TrxWallet();
+        const tx = await wallet.signTransaction({
+            privateKey: privateKey,
+            data: {
+                type: "delegateResource",
+                data: {...common, amount: "2000000", resource: "BANDWIDTH", receiverAddress: receiverAddress},
+            },
+        });
+        const {publicKey} = await wallet.getNewAddress({privateKey: privateKey});
+        const valid = JSON.parse(await wallet.validSignedTransaction({tx: tx, data: {publicKey: publicKey}}));
+        expect(valid.rawData.contract[0].type).toEqual("DelegateResourceContract");
+        const owner = protocol.DelegateResourceContract.decode(base.fromBase64(valid.rawData.contract[0].parameter.value));
+        expect(base.toBase58Check(owner.ownerAddress)).toEqual(fromAddress);
+        expect(base.toBase58Check(owner.receiverAddress)).toEqual(receiverAddress);
+        const {publicKey: otherPublicKey} = await wallet.getNewAddress({privateKey: "c6e7ef1fc4a3e24b8a4cdbdd8d1e2b43b8d5b6d9a8c4c0e3f1d3e5a7b9c1d2e3"});
+        await expect(wallet.validSignedTransaction({tx: tx, data: {publicKey: otherPublicKey}})).rejects.toBeDefined();
+
+        const contract = protocol.Transaction.decode(base.fromHex(tx)).rawData!.contract![0];
+        expect(contract.type).toEqual(protocol.Transaction.Contract.ContractType.DelegateResourceContract);
+        const delegate = protocol.DelegateResourceContract.decode(contract.parameter!.value!);
+        expect(delegate.resource).toEqual(protocol.ResourceCode.BANDWIDTH);
+        expect(delegate.lock).toEqual(false);
+        expect(delegate.lockPeriod.toString()).toEqual("0");
+        expect(delegate.balance.toString()).toEqual("2000000");
+    });
+
+    test("invalid params", async () => {
+        const wallet = new TrxWallet();
+        await expect(wallet.signTransaction({privateKey: privateKey, data: {type: "freezeBalanceV2", data: {...common, amount: "1", resource: "STORAGE"}}})).rejects.toBeDefined();
+        await expect(wallet.signTransaction({privateKey: privateKey, data: {type: "voteWitness", data: {...common, votes: []}}})).rejects.toBeDefined();
+    });
+});
@@ -0,0 +1,98 @@
+import {base} from '@okxweb3/crypto-lib';
+import {decodeTriggerSmartContract, getTriggerSmartContractData, TrxWallet} from '../src';
+
+const fromAddress = "TGXQHj3fXhEtCmooRgGemCZyHBEQAv6ct8";
+const receiverAddress = "TTczxNWoJJ8mZjj9w2eegiSZqTCTfhjd4g";
+const contractAddress = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t";
+const common = {
+    fromAddress: fromAddress,
+    refBlockBytes: "e05a",
+    refBlockHash: "a866246a779650fe",
+    expiration: 1700003600000,
+    timeStamp: 1700000000000,
+};
+
+// call data encoded by tronweb's abi.encodeParams, raw data hex by txJsonToPb
+describe("triggerSmartContract", () => {
+    test("getTriggerSmartContractData", async () => {
+        const nft = getTriggerSmartContractData("safeTransferFrom(address,address,uint256,bytes)", [
+            {type: "address", value: fromAddress},
+            {type: "address", value: "41c19fe39c19ec591bf1548298907a62dc23452fd4"},
+            {type: "uint256", value: "7"},
+            {type: "bytes", value: "0xdeadbeef"},
+        ]);
+        expect(base.toHex(nft)).toEqual("b88d4fde00000000000000000000000047e77cd95bfaa25f24c50b5c78558b3b6df04137000000000000000000000000c19fe39c19ec591bf1548298907a62dc23452fd4000000000000000000000000000000000000000000000000000000000000000700000000000000000000000000000000000000000000000000000000000000800000000000000000000000000000000000000000000000000000000000000004deadbeef00000000000000000000000000000000000000000000000000000000");
+        expect(() => getTriggerSmartContractData("approve(address,uint256)", [{type: "address", value: receiverAddress}])).toThrow();
+        expect(() => getTriggerSmartContractData("approve", [])).toThrow();
+    });
+
+    test("approve", async () => {
+        const wallet = new TrxWallet();
+        const unsigned = await wallet.signTransaction({
+            privateKey: "",
+            data: {
+                type: "triggerSmartContract",
+                data: {
+                    ...common,
+                    feeLimit: 100000000,
+                    contractAddress: contractAddress,
+                    functionSelector: "approve(address,uint256)",
+                    parameters: [{type: "address", value: receiverAddress}, {type: "uint256", value: "1000000000000000000000000000000"}],
+                },
+            },
+        });
+        expect(unsigned.raw).toEqual("0a02e05a2208a866246a779650fe4080adf180bd315aae01081f12a9010a31747970652e676f6f676c65617069732e636f6d2f70726f746f636f6c2e54726967676572536d617274436f6e747261637412740a154147e77cd95bfaa25f24c50b5c78558b3b6df04137121541a614f803b6fd780986a42c78ec9c7f77e6ded13c2244095ea7b3000000000000000000000000c19fe39c19ec591bf1548298907a62dc23452fd4000000000000000000000000000000000000000c9f2c9cd04674edea400000007080d095ffbc31900180c2d72f");
+
+        const decoded = decodeTriggerSmartContract(unsigned.raw);
+        expect(decoded.ownerAddress).toEqual(fromAddress);
+        expect(decoded.contractAddress).toEqual(contractAddress);
+        expect(decoded.feeLimit).toEqual("100000000");
+        expect(decoded.functionSelector).toEqual("approve(address,uint256)");
+        expect(decoded.parameters).toEqual([
+            {type: "address", value: receiverAddress},
+            {type: "uint256", value: "1000000000000000000000000000000"},
+        ]);
+    });
+
+    test("call value and token", async () => {
+        const wallet = new TrxWallet();
+        const selector = "swap(address[],uint256,bool)";
+        const unsigned = await wallet.signTransaction({
+            privateKey: "",
+            data: {
+                type: "triggerSmartContract",
+                data: {
+                    ...common,
+                    feeLimit: 150000000,
+                    contractAddress: contractAddress,
+                    functionSelector: selector,
+                    parameters: [
+                        {type: "address[]", value: [contractAddress, receiverAddress]},
+                        {type: "uint256", value: "5"},
+                        {type: "bool", value: true},
+                    ],
+                    callValue: "2000000",
+                    callTokenValue: "30",
+                    tokenId: "1002000",
+                },
+            },
+        });
+        expect(unsigned.raw).toEqual("0a02e05a2208a866246a779650fe4080adf180bd315aba02081f12b5020a31747970652e676f6f676c65617069732e636f6d2f70726f746f636f6c2e54726967676572536d617274436f6e747261637412ff010a154147e77cd95bfaa25f24c50b5c78558b3b6df04137121541a614f803b6fd780986a42c78ec9c7f77e6ded13c1880897a22c4017ffb5bd40000000000000000000000000000000000000000000000000000000000000060000000000000000000000000000000000000000000000000000000000000000500000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002000000000000000000000000a614f803b6fd780986a42c78ec9c7f77e6ded13c000000000000000000000000c19fe39c19ec591bf1548298907a62dc23452fd4281e3090943d7080d095ffbc31900180a3c347");
+
+        const unknown = decodeTriggerSmartContract(unsigned.raw);
+        expect(unknown.methodId).toEqual("7ffb5bd4");
+        expect(unknown.functionSelector).toBeUndefined();
+        expect(unknown.parameters).toBeUndefined();
+        expect(unknown.callValue).toEqual("2000000");
+        expect(unknown.callTokenValue).toEqual("30");
+        expect(unknown.tokenId).toEqual("1002000");
+
+        const decoded = decodeTriggerSmartContract(unsigned.raw, selector);
+        expect(decoded.parameters).toEqual([
+            {type: "address[]", value: [contractAddress, receiverAddress]},
+            {type: "uint256", value: "5"},
+            {type: "bool", value: true},
+        ]);
+        expect(() => decodeTriggerSmartContract(unsigned.raw, "approve(address,uint256)")).toThrow();
+    });
+});
@@ -4,6 +4,8 @@ export * as base from "./base"
 export * as bip32 from "./bip32"
 // bip39 Mnemonics - Seeds
 export * as bip39 from "./bip39"
+// slip39 Shamir backup - Mnemonic shares - Seeds
+export * as slip39 from "./slip39"
 // Encryption library, support secp256k1 and ed25519
 export * as elliptic from "./elliptic"
 // abi
@@ -1,4 +1,5 @@
 export * as secp256k1 from "./secp256k1"
 export * as stark from "./stark"
 export {SignatureType} from "./abstract/weierstrass"
-export {hexToBytes, bytesToHex} from "./abstract/utils"
\ No newline at end of file
+export {hexToBytes, bytesToHex} from "./abstract/utils"
+export * as musig2 from "./musig2"
\ No newline at end of file
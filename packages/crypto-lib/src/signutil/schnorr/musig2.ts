@@ -0,0 +1,256 @@
+/**
+ * MuSig2 multi-signatures for BIP340 Schnorr, following BIP327
+ * https://github.com/bitcoin/bips/blob/master/bip-0327.mediawiki
+ */
+import { randomBytes } from '@noble/hashes/utils';
+import { ProjPointType as PointType } from './abstract/weierstrass';
+import { bytesToNumberBE, concatBytes, ensureBytes, equalBytes, Hex, numberToBytesBE } from './abstract/utils';
+import { mod } from './abstract/modular';
+import { schnorr, secp256k1 } from './secp256k1';
+
+const Point = secp256k1.ProjectivePoint;
+const n = secp256k1.CURVE.n;
+const _0n = BigInt(0);
+const _1n = BigInt(1);
+const taggedHash = schnorr.utils.taggedHash;
+const modN = (x: bigint) => mod(x, n);
+const numTo32b = (x: bigint) => numberToBytesBE(x, 32);
+const hashToScalar = (tag: string, ...messages: Uint8Array[]) => modN(bytesToNumberBE(taggedHash(tag, ...messages)));
+
+export interface KeyAggContext {
+  Q: PointType<bigint>;
+  gacc: bigint;
+  tacc: bigint;
+}
+
+export interface SessionContext {
+  aggNonce: Hex;
+  publicKeys: Hex[];   // 33-byte compressed keys, in the order used for key aggregation
+  tweaks?: Hex[];
+  isXonly?: boolean[];
+  message: Hex;
+}
+
+export interface Nonce {
+  secNonce: Uint8Array; // 97 bytes, never reuse or share it
+  pubNonce: Uint8Array; // 66 bytes, sent to the other signers
+}
+
+function pointFromBytes(bytes: Uint8Array, name: string): PointType<bigint> {
+  try {
+    return Point.fromHex(bytes);
+  } catch (e) {
+    throw new Error(`invalid ${name}`);
+  }
+}
+
+// compressed point encoding extended with 33 zero bytes for infinity, used by aggregate nonces
+function pointFromBytesExt(bytes: Uint8Array, name: string): PointType<bigint> {
+  return bytes.every((b) => b === 0) ? Point.ZERO : pointFromBytes(bytes, name);
+}
+
+function pointToBytesExt(point: PointType<bigint>): Uint8Array {
+  return point.equals(Point.ZERO) ? new Uint8Array(33) : point.toRawBytes(true);
+}
+
+const xBytes = (point: PointType<bigint>) => point.toRawBytes(true).slice(1);
+
+export function keySort(publicKeys: Hex[]): Uint8Array[] {
+  return publicKeys
+    .map((pk) => ensureBytes('publicKey', pk, 33))
+    .sort((a, b) => {
+      for (let i = 0; i < 33; i++) {
+        if (a[i] !== b[i]) return a[i] - b[i];
+      }
+      return 0;
+    });
+}
+
+function keyAggCoeff(publicKeys: Uint8Array[], publicKey: Uint8Array): bigint {
+  const second = publicKeys.find((pk) => !equalBytes(pk, publicKeys[0]));
+  if (second && equalBytes(second, publicKey)) {
+    return _1n;
+  }
+  const L = taggedHash('KeyAgg list', ...publicKeys);
+  return hashToScalar('KeyAgg coefficient', L, publicKey);
+}
+
+// Aggregates the public keys in the given order, use keySort first for an order independent key.
+export function keyAgg(publicKeys: Hex[], tweaks: Hex[] = [], isXonly: boolean[] = []): KeyAggContext {
+  if (publicKeys.length === 0) {
+    throw new Error('at least one public key is required');
+  }
+  const pks = publicKeys.map((pk) => ensureBytes('publicKey', pk, 33));
+  let Q = Point.ZERO;
+  pks.forEach((pk, i) => {
+    Q = Q.add(pointFromBytes(pk, `public key of signer ${i}`).multiply(keyAggCoeff(pks, pk)));
+  });
+  if (Q.equals(Point.ZERO)) {
+    throw new Error('aggregate public key is infinity');
+  }
+  if (tweaks.length !== isXonly.length) {
+    throw new Error('tweaks and isXonly must have the same length');
+  }
+  let ctx: KeyAggContext = { Q, gacc: _1n, tacc: _0n };
+  tweaks.forEach((tweak, i) => {
+    ctx = applyTweak(ctx, tweak, isXonly[i]);
+  });
+  return ctx;
+}
+
+// Plain tweaks add to the aggregate key (BIP32 derivation), x-only tweaks first negate it to even y (Taproot).
+export function applyTweak(ctx: KeyAggContext, tweak: Hex, isXonly: boolean): KeyAggContext {
+  const g = isXonly && !ctx.Q.hasEvenY() ? n - _1n : _1n;
+  const t = bytesToNumberBE(ensureBytes('tweak', tweak, 32));
+  if (t >= n) {
+    throw new Error('tweak is out of range');
+  }
+  const Q = Point.BASE.multiplyAndAddUnsafe(ctx.Q, t, g);
+  if (!Q) {
+    throw new Error('tweaked key is infinity');
+  }
+  return { Q, gacc: modN(g * ctx.gacc), tacc: modN(t + g * ctx.tacc) };
+}
+
+export function getXonlyPublicKey(ctx: KeyAggContext): Uint8Array {
+  return xBytes(ctx.Q);
+}
+
+export function getPlainPublicKey(ctx: KeyAggContext): Uint8Array {
+  return ctx.Q.toRawBytes(true);
+}
+
+// The BIP341 TapTweak of the aggregate key, apply it as an x-only tweak so the aggregate signature
+// spends the P2TR output of that key (key path), committing to a script tree when merkleRoot is given.
+export function taprootTweak(publicKeys: Hex[], merkleRoot?: Hex): Uint8Array {
+  const internal = getXonlyPublicKey(keyAgg(publicKeys));
+  const root = merkleRoot ? ensureBytes('merkleRoot', merkleRoot, 32) : new Uint8Array();
+  return taggedHash('TapTweak', internal, root);
+}
+
+function nonceHash(rand: Uint8Array, pk: Uint8Array, aggPk: Uint8Array, i: number, msgPrefixed: Uint8Array, extraIn: Uint8Array) {
+  const extraLength = new Uint8Array(4);
+  new DataView(extraLength.buffer).setUint32(0, extraIn.length);
+  return hashToScalar('MuSig/nonce', rand, Uint8Array.of(pk.length), pk, Uint8Array.of(aggPk.length), aggPk,
+    msgPrefixed, extraLength, extraIn, Uint8Array.of(i));
+}
+
+// Generates a fresh nonce pair for one signing session. The optional arguments only add
+// defence in depth against a weak random source.
+export function nonceGen(publicKey: Hex, privateKey?: Hex, aggPublicKey?: Hex, message?: Hex, extraIn?: Hex, rand: Hex = randomBytes(32)): Nonce {
+  const pk = ensureBytes('publicKey', publicKey, 33);
+  let r = ensureBytes('rand', rand, 32);
+  if (privateKey) {
+    const aux = taggedHash('MuSig/aux', r);
+    r = ensureBytes('privateKey', privateKey, 32).map((b, i) => b ^ aux[i]);
+  }
+  const aggPk = aggPublicKey ? ensureBytes('aggPublicKey', aggPublicKey, 32) : new Uint8Array();
+  let msgPrefixed = Uint8Array.of(0);
+  if (message !== undefined) {
+    const msg = ensureBytes('message', message);
+    msgPrefixed = concatBytes(Uint8Array.of(1), numberToBytesBE(BigInt(msg.length), 8), msg);
+  }
+  const extra = extraIn ? ensureBytes('extraIn', extraIn) : new Uint8Array();
+  const k1 = nonceHash(r, pk, aggPk, 0, msgPrefixed, extra);
+  const k2 = nonceHash(r, pk, aggPk, 1, msgPrefixed, extra);
+  if (k1 === _0n || k2 === _0n) {
+    throw new Error('nonce is zero');
+  }
+  return {
+    secNonce: concatBytes(numTo32b(k1), numTo32b(k2), pk),
+    pubNonce: concatBytes(Point.BASE.multiply(k1).toRawBytes(true), Point.BASE.multiply(k2).toRawBytes(true)),
+  };
+}
+
+export function nonceAgg(pubNonces: Hex[]): Uint8Array {
+  const nonces = pubNonces.map((nonce) => ensureBytes('pubNonce', nonce, 66));
+  const R = [0, 1].map((j) => nonces.reduce(
+    (sum, nonce, i) => sum.add(pointFromBytes(nonce.slice(33 * j, 33 * (j + 1)), `nonce of signer ${i}`)),
+    Point.ZERO
+  ));
+  return concatBytes(pointToBytesExt(R[0]), pointToBytesExt(R[1]));
+}
+
+function sessionValues(session: SessionContext) {
+  const { Q, gacc, tacc } = keyAgg(session.publicKeys, session.tweaks, session.isXonly);
+  const aggNonce = ensureBytes('aggNonce', session.aggNonce, 66);
+  const msg = ensureBytes('message', session.message);
+  const b = hashToScalar('MuSig/noncecoef', aggNonce, xBytes(Q), msg);
+  const R1 = pointFromBytesExt(aggNonce.slice(0, 33), 'aggregate nonce');
+  const R2 = pointFromBytesExt(aggNonce.slice(33), 'aggregate nonce');
+  const Rb = R1.add(R2.multiply(b));
+  const R = Rb.equals(Point.ZERO) ? Point.BASE : Rb;
+  const e = hashToScalar('BIP0340/challenge', xBytes(R), xBytes(Q), msg);
+  return { Q, gacc, tacc, b, R, e };
+}
+
+function sessionKeyAggCoeff(session: SessionContext, publicKey: Uint8Array): bigint {
+  const pks = session.publicKeys.map((pk) => ensureBytes('publicKey', pk, 33));
+  if (!pks.some((pk) => equalBytes(pk, publicKey))) {
+    throw new Error('public key is not part of the session');
+  }
+  return keyAggCoeff(pks, publicKey);
+}
+
+// Creates this signer's partial signature. The secret nonce is zeroed so it can not be used twice.
+export function partialSign(secNonce: Uint8Array, privateKey: Hex, session: SessionContext): Uint8Array {
+  const { Q, gacc, b, R, e } = sessionValues(session);
+  if (secNonce.length !== 97) {
+    throw new Error('invalid secret nonce');
+  }
+  const k1_ = bytesToNumberBE(secNonce.slice(0, 32));
+  const k2_ = bytesToNumberBE(secNonce.slice(32, 64));
+  const pk = secNonce.slice(64);
+  secNonce.fill(0);
+  if (k1_ === _0n || k1_ >= n || k2_ === _0n || k2_ >= n) {
+    throw new Error('secret nonce was already used or is invalid');
+  }
+  const k1 = R.hasEvenY() ? k1_ : n - k1_;
+  const k2 = R.hasEvenY() ? k2_ : n - k2_;
+  const d_ = bytesToNumberBE(ensureBytes('privateKey', privateKey, 32));
+  if (d_ === _0n || d_ >= n) {
+    throw new Error('invalid private key');
+  }
+  if (!equalBytes(Point.BASE.multiply(d_).toRawBytes(true), pk)) {
+    throw new Error('secret nonce does not belong to the private key');
+  }
+  const a = sessionKeyAggCoeff(session, pk);
+  const g = Q.hasEvenY() ? _1n : n - _1n;
+  const d = modN(g * gacc * d_);
+  return numTo32b(modN(k1 + b * k2 + e * a * d));
+}
+
+export function partialSigVerify(partialSig: Hex, pubNonce: Hex, publicKey: Hex, session: SessionContext): boolean {
+  try {
+    const { Q, gacc, b, R, e } = sessionValues(session);
+    const s = bytesToNumberBE(ensureBytes('partialSig', partialSig, 32));
+    if (s >= n) return false;
+    const nonce = ensureBytes('pubNonce', pubNonce, 66);
+    const pk = ensureBytes('publicKey', publicKey, 33);
+    const Re_ = pointFromBytes(nonce.slice(0, 33), 'nonce').add(pointFromBytes(nonce.slice(33), 'nonce').multiply(b));
+    const Re = R.hasEvenY() ? Re_ : Re_.negate();
+    const a = sessionKeyAggCoeff(session, pk);
+    const g = Q.hasEvenY() ? _1n : n - _1n;
+    const ead = modN(e * a * g * gacc);
+    const P = pointFromBytes(pk, 'public key');
+    const rhs = ead === _0n ? Re : Re.add(P.multiply(ead));
+    return s === _0n ? rhs.equals(Point.ZERO) : Point.BASE.multiply(s).equals(rhs);
+  } catch (e) {
+    return false;
+  }
+}
+
+// Sums the partial signatures into a BIP340 signature valid for the (tweaked) aggregate x-only key.
+export function partialSigAgg(partialSigs: Hex[], session: SessionContext): Uint8Array {
+  const { Q, tacc, R, e } = sessionValues(session);
+  let s = _0n;
+  partialSigs.forEach((psig, i) => {
+    const si = bytesToNumberBE(ensureBytes('partialSig', psig, 32));
+    if (si >= n) {
+      throw new Error(`invalid partial signature of signer ${i}`);
+    }
+    s = modN(s + si);
+  });
+  const g = Q.hasEvenY() ? _1n : n - _1n;
+  return concatBytes(xBytes(R), numTo32b(modN(s + e * g * tacc)));
+}
@@ -0,0 +1,383 @@
+/**
+ * SLIP-0039 Shamir's secret-sharing for mnemonic codes
+ * https://github.com/satoshilabs/slips/blob/master/slip-0039.md
+ */
+
+import {randomBytes} from "../base";
+import {hmac} from "@noble/hashes/hmac";
+import {pbkdf2} from "@noble/hashes/pbkdf2";
+import {sha256} from "@noble/hashes/sha256";
+
+const WORDLIST: string[] = require('./wordlist.json');
+const WORD_INDEX = new Map(WORDLIST.map((word, i) => [word, i]));
+
+const RADIX_BITS = 10;
+const ID_LENGTH_BITS = 15;
+const ITERATION_EXP_LENGTH_BITS = 4;
+const ID_EXP_LENGTH_WORDS = 2;
+const CHECKSUM_LENGTH_WORDS = 3;
+const DIGEST_LENGTH_BYTES = 4;
+const CUSTOMIZATION_STRING_ORIG = 'shamir';
+const CUSTOMIZATION_STRING_EXTENDABLE = 'shamir_extendable';
+const METADATA_LENGTH_WORDS = ID_EXP_LENGTH_WORDS + 2 + CHECKSUM_LENGTH_WORDS;
+const MIN_STRENGTH_BITS = 128;
+const MIN_MNEMONIC_LENGTH_WORDS = METADATA_LENGTH_WORDS + Math.ceil(MIN_STRENGTH_BITS / RADIX_BITS);
+const MAX_SHARE_COUNT = 16;
+const BASE_ITERATION_COUNT = 10000;
+const ROUND_COUNT = 4;
+const SECRET_INDEX = 255;
+const DIGEST_INDEX = 254;
+
+export interface Share {
+  identifier: number;
+  extendable: boolean;
+  iterationExponent: number;
+  groupIndex: number;
+  groupThreshold: number;
+  groupCount: number;
+  memberIndex: number;
+  memberThreshold: number;
+  value: Uint8Array;
+}
+
+// [memberThreshold, memberCount] of each group
+export type GroupSpec = [number, number];
+
+// GF(256) with the Rijndael polynomial x^8 + x^4 + x^3 + x + 1
+const EXP = new Uint8Array(255);
+const LOG = new Uint8Array(256);
+(() => {
+  let poly = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = poly;
+    LOG[poly] = i;
+    // multiply by the generator x + 1
+    poly = (poly << 1) ^ poly;
+    if (poly & 0x100) {
+      poly ^= 0x11b;
+    }
+  }
+})();
+
+function rs1024Polymod(values: number[]): number {
+  const GEN = [
+    0xe0e040, 0x1c1c080, 0x3838100, 0x7070200, 0xe0e0009,
+    0x1c0c2412, 0x38086c24, 0x3090fc48, 0x21b1f890, 0x3f3f120,
+  ];
+  let chk = 1;
+  for (const v of values) {
+    const b = chk >>> 20;
+    chk = (((chk & 0xfffff) << 10) ^ v) >>> 0;
+    for (let i = 0; i < 10; i++) {
+      if ((b >>> i) & 1) {
+        chk = (chk ^ GEN[i]) >>> 0;
+      }
+    }
+  }
+  return chk;
+}
+
+function customization(extendable: boolean): number[] {
+  const str = extendable ? CUSTOMIZATION_STRING_EXTENDABLE : CUSTOMIZATION_STRING_ORIG;
+  return Array.from(str, (c) => c.charCodeAt(0));
+}
+
+function rs1024CreateChecksum(data: number[], extendable: boolean): number[] {
+  const polymod = rs1024Polymod([...customization(extendable), ...data, 0, 0, 0]) ^ 1;
+  return [2, 1, 0].map((i) => (polymod >>> (RADIX_BITS * i)) & 1023);
+}
+
+function rs1024VerifyChecksum(data: number[], extendable: boolean): boolean {
+  return rs1024Polymod([...customization(extendable), ...data]) === 1;
+}
+
+function xor(a: Uint8Array, b: Uint8Array): Uint8Array {
+  return a.map((x, i) => x ^ b[i]);
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((x, i) => x === b[i]);
+}
+
+function interpolate(shares: [number, Uint8Array][], x: number): Uint8Array {
+  const xs = shares.map(([xi]) => xi);
+  if (new Set(xs).size !== xs.length) {
+    throw new Error('Invalid set of shares. Share indices must be unique.');
+  }
+  const length = shares[0][1].length;
+  if (shares.some(([, value]) => value.length !== length)) {
+    throw new Error('Invalid set of shares. All share values must have the same length.');
+  }
+  const known = shares.find(([xi]) => xi === x);
+  if (known) {
+    return known[1];
+  }
+  // the lagrange basis polynomials evaluated at x, computed in the log domain
+  const logProd = shares.reduce((sum, [xi]) => sum + LOG[xi ^ x], 0);
+  const result = new Uint8Array(length);
+  for (const [xi, value] of shares) {
+    const logBasis = ((logProd - LOG[xi ^ x] - shares.reduce((sum, [xj]) => sum + LOG[xi ^ xj], 0)) % 255 + 255) % 255;
+    for (let i = 0; i < length; i++) {
+      if (value[i] !== 0) {
+        result[i] ^= EXP[(LOG[value[i]] + logBasis) % 255];
+      }
+    }
+  }
+  return result;
+}
+
+function createDigest(randomData: Uint8Array, sharedSecret: Uint8Array): Uint8Array {
+  return hmac(sha256, randomData, sharedSecret).slice(0, DIGEST_LENGTH_BYTES);
+}
+
+function splitSecret(threshold: number, shareCount: number, sharedSecret: Uint8Array): [number, Uint8Array][] {
+  if (threshold < 1) {
+    throw new Error('The requested threshold must be a positive integer.');
+  }
+  if (threshold > shareCount) {
+    throw new Error('The requested threshold must not exceed the number of shares.');
+  }
+  if (shareCount > MAX_SHARE_COUNT) {
+    throw new Error(`The requested number of shares must not exceed ${MAX_SHARE_COUNT}.`);
+  }
+  if (threshold === 1) {
+    return Array.from({length: shareCount}, (_, i) => [i, sharedSecret]);
+  }
+  const randomShareCount = threshold - 2;
+  const shares: [number, Uint8Array][] = [];
+  for (let i = 0; i < randomShareCount; i++) {
+    shares.push([i, Uint8Array.from(randomBytes(sharedSecret.length))]);
+  }
+  const randomPart = Uint8Array.from(randomBytes(sharedSecret.length - DIGEST_LENGTH_BYTES));
+  const digest = createDigest(randomPart, sharedSecret);
+  const baseShares: [number, Uint8Array][] = [
+    ...shares,
+    [DIGEST_INDEX, new Uint8Array([...digest, ...randomPart])],
+    [SECRET_INDEX, sharedSecret],
+  ];
+  for (let i = randomShareCount; i < shareCount; i++) {
+    shares.push([i, interpolate(baseShares, i)]);
+  }
+  return shares;
+}
+
+function recoverSecret(threshold: number, shares: [number, Uint8Array][]): Uint8Array {
+  if (threshold === 1) {
+    return shares[0][1];
+  }
+  const sharedSecret = interpolate(shares, SECRET_INDEX);
+  const digestShare = interpolate(shares, DIGEST_INDEX);
+  const digest = digestShare.slice(0, DIGEST_LENGTH_BYTES);
+  if (!equalBytes(digest, createDigest(digestShare.slice(DIGEST_LENGTH_BYTES), sharedSecret))) {
+    throw new Error('Invalid digest of the shared secret.');
+  }
+  return sharedSecret;
+}
+
+function passphraseBytes(passphrase: string): Uint8Array {
+  if (!/^[\x20-\x7e]*$/.test(passphrase)) {
+    throw new Error('The passphrase must contain only printable ASCII characters (code points 32-126).');
+  }
+  return Uint8Array.from(passphrase, (c) => c.charCodeAt(0));
+}
+
+// Four round Feistel network keyed by the passphrase, extendable shares leave the identifier out of the salt
+function feistel(data: Uint8Array, passphrase: string, iterationExponent: number, identifier: number, extendable: boolean, decrypt: boolean): Uint8Array {
+  if (data.length % 2 !== 0) {
+    throw new Error('The length of the master secret in bytes must be an even number.');
+  }
+  const pwd = passphraseBytes(passphrase);
+  const salt = extendable ? new Uint8Array() : new Uint8Array([...customization(false), identifier >> 8, identifier & 0xff]);
+  const iterations = Math.floor((BASE_ITERATION_COUNT << iterationExponent) / ROUND_COUNT);
+  let l = data.slice(0, data.length / 2);
+  let r = data.slice(data.length / 2);
+  for (let round = 0; round < ROUND_COUNT; round++) {
+    const i = decrypt ? ROUND_COUNT - 1 - round : round;
+    const f = pbkdf2(sha256, new Uint8Array([i, ...pwd]), new Uint8Array([...salt, ...r]), {c: iterations, dkLen: r.length});
+    [l, r] = [r, xor(l, f)];
+  }
+  return new Uint8Array([...r, ...l]);
+}
+
+function bitsToWords(value: Uint8Array): number[] {
+  const words: number[] = [];
+  const wordCount = Math.ceil(value.length * 8 / RADIX_BITS);
+  let acc = BigInt(0);
+  for (const b of value) {
+    acc = (acc << BigInt(8)) | BigInt(b);
+  }
+  for (let i = wordCount - 1; i >= 0; i--) {
+    words.push(Number((acc >> BigInt(i * RADIX_BITS)) & BigInt(1023)));
+  }
+  return words;
+}
+
+function wordsToBytes(indices: number[], length: number): Uint8Array {
+  let acc = BigInt(0);
+  for (const v of indices) {
+    acc = (acc << BigInt(RADIX_BITS)) | BigInt(v);
+  }
+  if (acc >> BigInt(length * 8) !== BigInt(0)) {
+    throw new Error('Invalid mnemonic padding.');
+  }
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(acc & BigInt(0xff));
+    acc >>= BigInt(8);
+  }
+  return bytes;
+}
+
+export function encodeMnemonic(share: Share): string {
+  const idExp = (share.identifier << (ITERATION_EXP_LENGTH_BITS + 1))
+    | ((share.extendable ? 1 : 0) << ITERATION_EXP_LENGTH_BITS)
+    | share.iterationExponent;
+  const params = (share.groupIndex << 16)
+    | ((share.groupThreshold - 1) << 12)
+    | ((share.groupCount - 1) << 8)
+    | (share.memberIndex << 4)
+    | (share.memberThreshold - 1);
+  const data = [idExp >> RADIX_BITS, idExp & 1023, params >> RADIX_BITS, params & 1023, ...bitsToWords(share.value)];
+  const checksum = rs1024CreateChecksum(data, share.extendable);
+  return [...data, ...checksum].map((i) => WORDLIST[i]).join(' ');
+}
+
+export function decodeMnemonic(mnemonic: string): Share {
+  const words = mnemonic.trim().toLowerCase().split(/\s+/);
+  const data = words.map((word) => {
+    const index = WORD_INDEX.get(word);
+    if (index === undefined) {
+      throw new Error(`Invalid mnemonic word ${word}.`);
+    }
+    return index;
+  });
+  if (data.length < MIN_MNEMONIC_LENGTH_WORDS) {
+    throw new Error(`Invalid mnemonic length. The length of each mnemonic must be at least ${MIN_MNEMONIC_LENGTH_WORDS} words.`);
+  }
+  const paddingLength = (RADIX_BITS * (data.length - METADATA_LENGTH_WORDS)) % 16;
+  if (paddingLength > 8) {
+    throw new Error('Invalid mnemonic length.');
+  }
+  const idExp = (data[0] << RADIX_BITS) | data[1];
+  const extendable = ((idExp >> ITERATION_EXP_LENGTH_BITS) & 1) === 1;
+  if (!rs1024VerifyChecksum(data, extendable)) {
+    throw new Error('Invalid mnemonic checksum.');
+  }
+  const params = (data[2] << RADIX_BITS) | data[3];
+  const groupThreshold = ((params >> 12) & 0xf) + 1;
+  const groupCount = ((params >> 8) & 0xf) + 1;
+  if (groupCount < groupThreshold) {
+    throw new Error('Invalid mnemonic. Group threshold cannot be greater than group count.');
+  }
+  const valueData = data.slice(ID_EXP_LENGTH_WORDS + 2, data.length - CHECKSUM_LENGTH_WORDS);
+  const valueLength = Math.floor((RADIX_BITS * valueData.length - paddingLength) / 8);
+  return {
+    identifier: idExp >> (ITERATION_EXP_LENGTH_BITS + 1),
+    extendable,
+    iterationExponent: idExp & 0xf,
+    groupIndex: params >> 16,
+    groupThreshold,
+    groupCount,
+    memberIndex: (params >> 4) & 0xf,
+    memberThreshold: (params & 0xf) + 1,
+    value: wordsToBytes(valueData, valueLength),
+  };
+}
+
+export function validateMnemonic(mnemonic: string): boolean {
+  try {
+    decodeMnemonic(mnemonic);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+// Splits a master secret (a bip32 seed of 16 to 32 even bytes) into groups of member shares.
+// Recovery needs groupThreshold groups, each with its own memberThreshold shares.
+export function generateMnemonics(
+  groupThreshold: number,
+  groups: GroupSpec[],
+  masterSecret: Uint8Array,
+  passphrase: string = '',
+  extendable: boolean = true,
+  iterationExponent: number = 1,
+): string[][] {
+  if (masterSecret.length * 8 < MIN_STRENGTH_BITS) {
+    throw new Error(`The length of the master secret must be at least ${MIN_STRENGTH_BITS / 8} bytes.`);
+  }
+  if (masterSecret.length % 2 !== 0) {
+    throw new Error('The length of the master secret in bytes must be an even number.');
+  }
+  if (groupThreshold > groups.length) {
+    throw new Error('The requested group threshold must not exceed the number of groups.');
+  }
+  if (iterationExponent < 0 || iterationExponent >= (1 << ITERATION_EXP_LENGTH_BITS)) {
+    throw new Error('Invalid iteration exponent.');
+  }
+  if (groups.some(([threshold, count]) => threshold === 1 && count > 1)) {
+    throw new Error('Creating multiple member shares with member threshold 1 is not allowed. Use 1-of-1 member sharing instead.');
+  }
+  const id = randomBytes(2);
+  const identifier = ((id[0] << 8) | id[1]) & ((1 << ID_LENGTH_BITS) - 1);
+  const encrypted = feistel(Uint8Array.from(masterSecret), passphrase, iterationExponent, identifier, extendable, false);
+  const groupShares = splitSecret(groupThreshold, groups.length, encrypted);
+  return groupShares.map(([groupIndex, groupSecret]) => {
+    const [memberThreshold, memberCount] = groups[groupIndex];
+    return splitSecret(memberThreshold, memberCount, groupSecret).map(([memberIndex, value]) => encodeMnemonic({
+      identifier,
+      extendable,
+      iterationExponent,
+      groupIndex,
+      groupThreshold,
+      groupCount: groups.length,
+      memberIndex,
+      memberThreshold,
+      value,
+    }));
+  });
+}
+
+// Recovers the master secret, the bip32 seed, from enough shares. Shares may be given in any order.
+export function combineMnemonics(mnemonics: string[], passphrase: string = ''): Buffer {
+  if (mnemonics.length === 0) {
+    throw new Error('The list of mnemonics is empty.');
+  }
+  const shares = mnemonics.map(decodeMnemonic);
+  const first = shares[0];
+  if (shares.some((s) => s.identifier !== first.identifier || s.extendable !== first.extendable
+    || s.iterationExponent !== first.iterationExponent)) {
+    throw new Error('Invalid set of mnemonics. All mnemonics must begin with the same 2 words.');
+  }
+  if (shares.some((s) => s.groupThreshold !== first.groupThreshold || s.groupCount !== first.groupCount)) {
+    throw new Error('Invalid set of mnemonics. All mnemonics must have the same group threshold and group count.');
+  }
+
+  const groups = new Map<number, Share[]>();
+  for (const share of shares) {
+    const group = groups.get(share.groupIndex) || [];
+    if (group.some((s) => s.memberIndex === share.memberIndex && !equalBytes(s.value, share.value))) {
+      throw new Error('Invalid set of mnemonics. Member indices must be unique within a group.');
+    }
+    if (group.length > 0 && group[0].memberThreshold !== share.memberThreshold) {
+      throw new Error('Invalid set of mnemonics. All mnemonics in a group must have the same member threshold.');
+    }
+    if (!group.some((s) => s.memberIndex === share.memberIndex)) {
+      group.push(share);
+    }
+    groups.set(share.groupIndex, group);
+  }
+
+  const groupSecrets: [number, Uint8Array][] = [];
+  groups.forEach((group, groupIndex) => {
+    const threshold = group[0].memberThreshold;
+    if (group.length >= threshold && groupSecrets.length < first.groupThreshold) {
+      groupSecrets.push([groupIndex, recoverSecret(threshold, group.slice(0, threshold).map((s) => [s.memberIndex, s.value]))]);
+    }
+  });
+  if (groupSecrets.length < first.groupThreshold) {
+    throw new Error(`Insufficient number of mnemonic groups. The required number of groups is ${first.groupThreshold}.`);
+  }
+  const encrypted = recoverSecret(first.groupThreshold, groupSecrets);
+  return Buffer.from(feistel(encrypted, passphrase, first.iterationExponent, first.identifier, first.extendable, true));
+}
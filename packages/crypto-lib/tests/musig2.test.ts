@@ -0,0 +1,142 @@
+import {base, signUtil} from "../src";
+import {
+    keyAgg,
+    keySort,
+    getXonlyPublicKey,
+    nonceAgg,
+    nonceGen,
+    partialSign,
+    partialSigAgg,
+    partialSigVerify,
+    SessionContext,
+    taprootTweak
+} from "../src/signutil/schnorr/musig2";
+
+const schnorr = signUtil.schnorr.secp256k1.schnorr
+const secp256k1 = signUtil.schnorr.secp256k1.secp256k1
+
+describe("musig2", () => {
+    test("key aggregation vectors", async () => {
+        // BIP-327 key_agg_vectors.json
+        const pks = [
+            "02F9308A019258C31049344F85F89D5229B531C845836F99B08601F113BCE036F9",
+            "03DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659",
+            "023590A94E768F8E1815C2F24B4D80A8E3149316C3518CE7B7AD338368D038CA66",
+        ]
+        const agg = (indices: number[]) => base.toHex(getXonlyPublicKey(keyAgg(indices.map(i => pks[i])))).toUpperCase()
+        expect(agg([0, 1, 2])).toEqual("90539EEDE565F5D054F32CC0C220126889ED1E5D193BAF15AEF344FE59D4610C")
+        expect(agg([2, 1, 0])).toEqual("6204DE8B083426DC6EAF9502D27024D53FC826BF7D2012148A0575435DF54B2B")
+        expect(agg([0, 0, 0])).toEqual("B436E3BAD62B8CD409969A224731C193D051162D8C5AE8B109306127DA3AA935")
+        expect(agg([0, 0, 1, 1])).toEqual("69BC22BFA5D106306E48A20679DE1D7389386124D07571D0D872686028C26A3E")
+        expect(base.toHex(keySort(pks)[0]).toUpperCase()).toEqual(pks[2])
+    });
+
+    const privateKeys = [
+        "adce25dc25ef89f06a722abdc4b601d706c9efc6bc84075355e6b96ca3871621",
+        "853fd8960ff34838208d662ecd3b9f8cf413e13e0f74f95e554f8089f5058db0",
+        "c3c2ff6dcd1a1a4c7fe2d5c6dd5d3fb4c4a0b2ca1b9b2e4b3b0d3a8b4f1e2d3c",
+    ]
+    const publicKeys = keySort(privateKeys.map(key => secp256k1.getPublicKey(key, true)))
+    const signers = publicKeys.map(pk => privateKeys.find(key => base.toHex(secp256k1.getPublicKey(key, true)) === base.toHex(pk))!)
+    const message = base.sha256(base.fromHex("68656c6c6f"))
+
+    function sign(tweaks: Uint8Array[] = [], isXonly: boolean[] = [], msg: Uint8Array = message) {
+        const nonces = publicKeys.map((pk, i) => nonceGen(pk, signers[i], undefined, msg))
+        const session: SessionContext = {
+            aggNonce: nonceAgg(nonces.map(n => n.pubNonce)),
+            publicKeys,
+            tweaks,
+            isXonly,
+            message: msg,
+        }
+        const partialSigs = signers.map((key, i) => partialSign(nonces[i].secNonce, key, session))
+        partialSigs.forEach((psig, i) => expect(partialSigVerify(psig, nonces[i].pubNonce, publicKeys[i], session)).toBe(true))
+        return {nonces, session, partialSigs, signature: partialSigAgg(partialSigs, session)}
+    }
+
+    test("sign", async () => {
+        const {nonces, session, partialSigs, signature} = sign()
+        const aggKey = getXonlyPublicKey(keyAgg(publicKeys))
+        expect(schnorr.verify(signature, message, aggKey)).toBe(true)
+
+        // a partial signature checked against another signer fails
+        expect(partialSigVerify(partialSigs[0], nonces[1].pubNonce, publicKeys[1], session)).toBe(false)
+        // the secret nonce is wiped after signing
+        expect(() => partialSign(nonces[0].secNonce, signers[0], session)).toThrow("already used")
+    });
+
+    test("taproot key path", async () => {
+        const tweak = taprootTweak(publicKeys)
+        const {signature} = sign([tweak], [true])
+        const internal = getXonlyPublicKey(keyAgg(publicKeys))
+        const output = getXonlyPublicKey(keyAgg(publicKeys, [tweak], [true]))
+        // the output key of a BIP-86 style p2tr address
+        const expected = secp256k1.ProjectivePoint.fromHex("02" + base.toHex(internal))
+            .add(secp256k1.ProjectivePoint.BASE.multiply(BigInt("0x" + base.toHex(tweak))))
+        expect(base.toHex(output)).toEqual(expected.toHex(true).slice(2))
+        expect(schnorr.verify(signature, message, output)).toBe(true)
+        expect(schnorr.verify(signature, message, internal)).toBe(false)
+    });
+
+    // BIP-341 SIGHASH_DEFAULT key path sighash of an unsigned transaction whose inputs have empty scriptSigs
+    function taprootSighash(rawTx: string, scriptPubKeys: string[], amounts: number[], index: number) {
+        const tx = Buffer.from(base.fromHex(rawTx))
+        const count = tx[4]
+        const inputs = Array.from({length: count}, (_, i) => tx.subarray(5 + 41 * i, 5 + 41 * (i + 1)))
+        const sha256 = (...chunks: Uint8Array[]) => base.sha256(Buffer.concat(chunks))
+        const amount = (value: number) => {
+            const bytes = Buffer.alloc(8)
+            bytes.writeBigUInt64LE(BigInt(value))
+            return bytes
+        }
+        const uint32 = (value: number) => {
+            const bytes = Buffer.alloc(4)
+            bytes.writeUInt32LE(value)
+            return bytes
+        }
+        const sigMsg = Buffer.concat([
+            Buffer.from([0x00, 0x00]),   // epoch, hash type
+            tx.subarray(0, 4),           // version
+            tx.subarray(tx.length - 4),  // locktime
+            sha256(...inputs.map(input => input.subarray(0, 36))),
+            sha256(...amounts.map(amount)),
+            sha256(...scriptPubKeys.map(script => Buffer.concat([Buffer.from([script.length / 2]), base.fromHex(script)]))),
+            sha256(...inputs.map(input => input.subarray(37))),
+            sha256(tx.subarray(5 + 41 * count + 1, tx.length - 4)),
+            Buffer.from([0x00]),         // key path, no annex
+            uint32(index),
+        ])
+        return schnorr.utils.taggedHash("TapSighash", sigMsg)
+    }
+
+    test("taproot key path witness", async () => {
+        // BIP-341 wallet test vectors, keyPathSpending input 4
+        const rawTx = "02000000097de20cbff686da83a54981d2b9bab3586f4ca7e48f57f5b55963115f3b334e9c010000000000000000d7b7cab57b1393ace2d064f4d4a2cb8af6def61273e127517d44759b6dafdd990000000000fffffffff8e1f583384333689228c5d28eac13366be082dc57441760d957275419a418420000000000fffffffff0689180aa63b30cb162a73c6d2a38b7eeda2a83ece74310fda0843ad604853b0100000000feffffffaa5202bdf6d8ccd2ee0f0202afbbb7461d9264a25e5bfd3c5a52ee1239e0ba6c0000000000feffffff956149bdc66faa968eb2be2d2faa29718acbfe3941215893a2a3446d32acd050000000000000000000e664b9773b88c09c32cb70a2a3e4da0ced63b7ba3b22f848531bbb1d5d5f4c94010000000000000000e9aa6b8e6c9de67619e6a3924ae25696bb7b694bb677a632a74ef7eadfd4eabf0000000000ffffffffa778eb6a263dc090464cd125c466b5a99667720b1c110468831d058aa1b82af10100000000ffffffff0200ca9a3b000000001976a91406afd46bcdfd22ef94ac122aa11f241244a37ecc88ac807840cb0000000020ac9a87f5594be208f8532db38cff670c450ed2fea8fcdefcc9a663f78bab962b0065cd1d"
+        const scriptPubKeys = [
+            "512053a1f6e454df1aa2776a2814a721372d6258050de330b3c6d10ee8f4e0dda343",
+            "5120147c9c57132f6e7ecddba9800bb0c4449251c92a1e60371ee77557b6620f3ea3",
+            "76a914751e76e8199196d454941c45d1b3a323f1433bd688ac",
+            "5120e4d810fd50586274face62b8a807eb9719cef49c04177cc6b76a9a4251d5450e",
+            "512091b64d5324723a985170e4dc5a0f84c041804f2cd12660fa5dec09fc21783605",
+            "00147dd65592d0ab2fe0d0257d571abf032cd9db93dc",
+            "512075169f4001aa68f15bbed28b218df1d0a62cbbcf1188c6665110c293c907b831",
+            "5120712447206d7a5238acc7ff53fbe94a3b64539ad291c7cdbc490b7577e4b17df5",
+            "512077e30a5522dd9f894c3f8b8bd4c4b2cf82ca7da8a3ea6a239655c39c050ab220",
+        ]
+        const amounts = [420000000, 462000000, 294000000, 504000000, 630000000, 378000000, 672000000, 546000000, 588000000]
+        expect(base.toHex(taprootSighash(rawTx, scriptPubKeys, amounts, 4)))
+            .toEqual("4f900a0bae3f1446fd48490c2958b5a023228f01661cda3496a11da502a7f7ef")
+
+        // the same input spending an output jointly held by the signers, committing to a script tree
+        const merkleRoot = "ccbd66c6f7e8fdab47b3a486f59d28262be857f30d4773f2d5ea47f7761ce0e2"
+        const tweak = taprootTweak(publicKeys, merkleRoot)
+        const outputKey = getXonlyPublicKey(keyAgg(publicKeys, [tweak], [true]))
+        scriptPubKeys[4] = "5120" + base.toHex(outputKey)
+        const sigHash = taprootSighash(rawTx, scriptPubKeys, amounts, 4)
+        const {signature} = sign([tweak], [true], sigHash)
+        // SIGHASH_DEFAULT: the witness is the bare 64 byte signature
+        expect(signature.length).toEqual(64)
+        expect(schnorr.verify(signature, sigHash, outputKey)).toBe(true)
+        expect(schnorr.verify(signature, taprootSighash(rawTx, scriptPubKeys, amounts, 3), outputKey)).toBe(false)
+    });
+});
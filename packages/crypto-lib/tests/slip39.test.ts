@@ -0,0 +1,73 @@
+import {base, bip32, slip39} from "../src";
+
+// vectors of slip-0039, all with the passphrase "TREZOR"
+const vectors: [string, string[], string, string][] = [
+    ["valid mnemonic without sharing (128 bits)",
+        ["duckling enlarge academic academic agency result length solution fridge kidney coal piece deal husband erode duke ajar critical decision keyboard"],
+        "bb54aac4b89dc868ba37d9cc21b2cece",
+        "xprv9s21ZrQH143K4QViKpwKCpS2zVbz8GrZgpEchMDg6KME9HZtjfL7iThE9w5muQA4YPHKN1u5VM1w8D4pvnjxa2BmpGMfXr7hnRrRHZ93awZ"],
+    ["basic sharing 2-of-3 (128 bits)",
+        ["shadow pistol academic always adequate wildlife fancy gross oasis cylinder mustang wrist rescue view short owner flip making coding armed",
+            "shadow pistol academic acid actress prayer class unknown daughter sweater depict flip twice unkind craft early superior advocate guest smoking"],
+        "b43ceb7e57a0ea8766221624d01b0864",
+        "xprv9s21ZrQH143K2nNuAbfWPHBtfiSCS14XQgb3otW4pX655q58EEZeC8zmjEUwucBu9dPnxdpbZLCn57yx45RBkwJHnwHFjZK4XPJ8SyeYjYg"],
+    ["threshold number of groups and members in each group (128 bits)",
+        ["eraser senior decision roster beard treat identify grumpy salt index fake aviation theater cubic bike cause research dragon emphasis counter",
+            "eraser senior ceramic snake clay various huge numb argue hesitate auction category timber browser greatest hanger petition script leaf pickup",
+            "eraser senior ceramic shaft dynamic become junior wrist silver peasant force math alto coal amazing segment yelp velvet image paces",
+            "eraser senior ceramic round column hawk trust auction smug shame alive greatest sheriff living perfect corner chest sled fumes adequate",
+            "eraser senior decision smug corner ruin rescue cubic angel tackle skin skunk program roster trash rumor slush angel flea amazing"],
+        "7c3397a292a5941682d7a4ae2d898d11",
+        "xprv9s21ZrQH143K3dzDLfeY3cMp23u5vDeFYftu5RPYZPucKc99mNEddU4w99GxdgUGcSfMpVDxhnR1XpJzZNXRN1m6xNgnzFS5MwMP6QyBRKV"],
+    ["valid mnemonic without sharing (256 bits)",
+        ["theory painting academic academic armed sweater year military elder discuss acne wildlife boring employer fused large satoshi bundle carbon diagnose anatomy hamster leaves tracks paces beyond phantom capital marvel lips brave detect luck"],
+        "989baf9dcaad5b10ca33dfd8cc75e42477025dce88ae83e75a230086a0e00e92",
+        "xprv9s21ZrQH143K41mrxxMT2FpiheQ9MFNmWVK4tvX2s28KLZAhuXWskJCKVRQprq9TnjzzzEYePpt764csiCxTt22xwGPiRmUjYUUdjaut8RM"],
+    ["extendable basic sharing 2-of-3 (128 bits)",
+        ["enemy favorite academic acid cowboy phrase havoc level response walnut budget painting inside trash adjust froth kitchen learn tidy punish",
+            "enemy favorite academic always academic sniff script carpet romp kind promise scatter center unfair training emphasis evening belong fake enforce"],
+        "48b1a4b80b8c209ad42c33672bdaa428",
+        "xprv9s21ZrQH143K4FS1qQdXYAFVAHiSAnjj21YAKGh2CqUPJ2yQhMmYGT4e5a2tyGLiVsRgTEvajXkxhg92zJ8zmWZas9LguQWz7WZShfJg6RS"],
+]
+
+describe("slip39", () => {
+    test("vectors", async () => {
+        for (const [name, mnemonics, secret, xprv] of vectors) {
+            const seed = slip39.combineMnemonics(mnemonics, "TREZOR")
+            expect([name, base.toHex(seed)]).toEqual([name, secret])
+            expect(bip32.fromSeed(seed).toBase58()).toEqual(xprv)
+        }
+    });
+
+    test("invalid", async () => {
+        const mnemonic = vectors[0][1][0]
+        expect(slip39.validateMnemonic(mnemonic)).toBe(true)
+        // invalid checksum
+        expect(slip39.validateMnemonic(mnemonic.replace(/keyboard$/, "kidney"))).toBe(false)
+        // invalid padding
+        expect(() => slip39.combineMnemonics(["duckling enlarge academic academic email result length solution fridge kidney coal piece deal husband erode duke ajar music cargo fitness"])).toThrow("padding")
+        // one share of a 2-of-3 sharing
+        expect(() => slip39.combineMnemonics([vectors[1][1][0]], "TREZOR")).toThrow("Insufficient")
+        // the first group of a 2-of-4 group sharing is incomplete
+        const groupShares = vectors[2][1]
+        expect(() => slip39.combineMnemonics([groupShares[0], groupShares[1], groupShares[2]], "TREZOR")).toThrow("Insufficient")
+    });
+
+    test("generate", async () => {
+        const secret = base.fromHex("bb54aac4b89dc868ba37d9cc21b2cece")
+        const groups = slip39.generateMnemonics(2, [[1, 1], [2, 3], [3, 5]], secret, "pass")
+        expect(groups.map(g => g.length)).toEqual([1, 3, 5])
+        const share = slip39.decodeMnemonic(groups[2][4])
+        expect([share.groupIndex, share.groupThreshold, share.groupCount, share.memberIndex, share.memberThreshold, share.extendable])
+            .toEqual([2, 2, 3, 4, 3, true])
+        expect(slip39.encodeMnemonic(share)).toEqual(groups[2][4])
+
+        expect(base.toHex(slip39.combineMnemonics([groups[0][0], groups[1][2], groups[1][0]], "pass"))).toEqual(base.toHex(secret))
+        expect(base.toHex(slip39.combineMnemonics([groups[2][1], groups[1][1], groups[2][3], groups[2][0], groups[1][2]], "pass"))).toEqual(base.toHex(secret))
+        // any passphrase decrypts to a valid but different secret
+        expect(base.toHex(slip39.combineMnemonics([groups[0][0], groups[1][2], groups[1][0]]))).not.toEqual(base.toHex(secret))
+
+        expect(() => slip39.generateMnemonics(1, [[1, 2]], secret)).toThrow("member threshold 1")
+        expect(() => slip39.generateMnemonics(1, [[1, 1]], secret.slice(0, 15))).toThrow("at least 16 bytes")
+    });
+});